@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+const HELP_TEXT = `Usage:
+  npm run password-filter:build -- [input] [output] [options]
+
+Arguments:
+  [input]                Newline-separated password list (default: scripts/data/common-passwords.txt)
+  [output]               Bloom filter file (default: src/shared/password-policy/data/common-passwords.bloom)
+
+Options:
+  --fp-rate <rate>       False positive rate (default: 0.000001)
+  --help, -h             Show this help message
+
+Examples:
+  npm run password-filter:build
+  npm run password-filter:build -- ~/rockyou-top100k.txt ./breached-passwords.bloom
+`;
+
+// Must match PasswordBloomFilter in src/shared/password-policy/password-policy.util.ts.
+const BLOOM_FILTER_MAGIC = 'PWBF';
+const BLOOM_FILTER_HEADER_LENGTH = 9;
+
+const projectRoot = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+);
+
+function fail(message) {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+function parseArgs(argv) {
+  const positional = [];
+  let falsePositiveRate = 0.000001;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg === '--help' || arg === '-h') {
+      console.log(HELP_TEXT);
+      process.exit(0);
+    }
+
+    if (arg === '--fp-rate') {
+      falsePositiveRate = Number(argv[index + 1]);
+      index += 1;
+
+      if (!(falsePositiveRate > 0 && falsePositiveRate < 1)) {
+        fail('--fp-rate must be between 0 and 1');
+      }
+
+      continue;
+    }
+
+    positional.push(arg);
+  }
+
+  return {
+    input: path.resolve(positional[0] ?? path.join(projectRoot, 'scripts/data/common-passwords.txt')),
+    output: path.resolve(
+      positional[1] ?? path.join(projectRoot, 'src/shared/password-policy/data/common-passwords.bloom'),
+    ),
+    falsePositiveRate,
+  };
+}
+
+function positions(password, bitCount, hashCount) {
+  const digest = crypto.createHash('sha256').update(password.toLowerCase()).digest();
+  const first = digest.readUInt32BE(0);
+  const second = (digest.readUInt32BE(4) | 1) >>> 0;
+  const result = [];
+
+  for (let index = 0; index < hashCount; index += 1) {
+    result.push((first + index * second) % bitCount);
+  }
+
+  return result;
+}
+
+function main() {
+  const { input, output, falsePositiveRate } = parseArgs(process.argv.slice(2));
+
+  if (!fs.existsSync(input)) {
+    fail(`Input file not found: ${input}`);
+  }
+
+  const passwords = new Set(
+    fs.readFileSync(input, 'utf8')
+      .split(/\r?\n/)
+      .filter((line) => line.length > 0 && !line.startsWith('#'))
+      .map((line) => line.toLowerCase()),
+  );
+  const entries = Math.max(passwords.size, 1);
+  const bitCount = Math.ceil((-entries * Math.log(falsePositiveRate)) / Math.LN2 ** 2);
+  const hashCount = Math.max(1, Math.round((bitCount / entries) * Math.LN2));
+  const bits = Buffer.alloc(Math.ceil(bitCount / 8));
+
+  for (const password of passwords) {
+    for (const position of positions(password, bitCount, hashCount)) {
+      bits[position >> 3] |= 1 << (position & 7);
+    }
+  }
+
+  const header = Buffer.alloc(BLOOM_FILTER_HEADER_LENGTH);
+  header.write(BLOOM_FILTER_MAGIC, 0, 'ascii');
+  header.writeUInt32BE(bitCount, 4);
+  header.writeUInt8(hashCount, 8);
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, Buffer.concat([header, bits]));
+
+  console.log(
+    `Wrote ${path.relative(projectRoot, output)}: ${passwords.size} passwords, ${bitCount} bits, ${hashCount} hashes`,
+  );
+}
+
+main();
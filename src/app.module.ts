@@ -1,24 +1,30 @@
 import { Module } from '@nestjs/common';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { ApiKeysModule } from '@/modules/api-keys/api-keys.module';
+import { ImpersonationAuditInterceptor } from '@/modules/auth/application/interceptors/impersonation-audit.interceptor';
 import { AuthModule } from '@/modules/auth/auth.module';
 import { EmailsModule } from '@/modules/emails/emails.module';
 import { OrganizationsModule } from '@/modules/organizations/organizations.module';
 import { PermissionsContextInterceptor } from '@/modules/permissions/application/interceptors/permissions-context.interceptor';
 import { PermissionsModule } from '@/modules/permissions/permissions.module';
+import { PlansModule } from '@/modules/plans/plans.module';
 import { ReportsModule } from '@/modules/reports/reports.module';
 import { UsersModule } from '@/modules/users/users.module';
 import { WsModule } from '@/modules/ws/ws.module';
 import { AuthGuard } from '@/shared/http/guards/auth.guard';
+import { CsrfGuard } from '@/shared/http/guards/csrf.guard';
 import { HttpCacheInterceptor, SessionStorageInterceptor } from '@/shared/http/interceptors';
 import { SharedInfrastructureModule } from '@/shared/infrastructure/shared-infrastructure.module';
 
 @Module({
   imports: [
     SharedInfrastructureModule,
+    ApiKeysModule,
     AuthModule,
     EmailsModule,
     OrganizationsModule,
     PermissionsModule,
+    PlansModule,
     ReportsModule,
     UsersModule,
     WsModule,
@@ -29,6 +35,10 @@ import { SharedInfrastructureModule } from '@/shared/infrastructure/shared-infra
       provide: APP_GUARD,
       useClass: AuthGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: CsrfGuard,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: SessionStorageInterceptor,
@@ -37,6 +47,10 @@ import { SharedInfrastructureModule } from '@/shared/infrastructure/shared-infra
       provide: APP_INTERCEPTOR,
       useClass: PermissionsContextInterceptor,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ImpersonationAuditInterceptor,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: HttpCacheInterceptor,
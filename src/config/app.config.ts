@@ -46,7 +46,7 @@ export class AppConfig {
         }
       },
       methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-      allowedHeaders: 'Content-Type, Accept, Authorization',
+      allowedHeaders: 'Content-Type, Accept, Authorization, X-CSRF-Token, X-Organization-Id',
       credentials: true,
     });
 
@@ -9,6 +9,8 @@ validateEnv(process.env);
 type SessionCookieSecure = boolean | 'auto';
 type SessionCookieSameSite = 'lax' | 'strict' | 'none';
 type WebsocketTransport = 'websocket' | 'polling';
+type IdentityAutoLinkPolicy = 'verified_email' | 'never';
+type DomainDnsResolver = 'system' | 'static';
 
 function parseSessionCookieSecure(
   value: string | undefined,
@@ -35,6 +37,86 @@ function normalizeAppSlug(value: string | undefined): string {
   return normalized || 'api';
 }
 
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Parses `name=value` pairs; a name may repeat to publish several records. */
+function parseStaticTxtRecords(value: string | undefined): Record<string, string[]> {
+  const records: Record<string, string[]> = {};
+
+  for (const item of parseList(value)) {
+    const separatorIndex = item.indexOf('=');
+
+    if (separatorIndex <= 0) {
+      continue;
+    }
+
+    const name = item.slice(0, separatorIndex).trim().toLowerCase();
+    const record = item.slice(separatorIndex + 1).trim();
+
+    records[name] = [...(records[name] ?? []), record];
+  }
+
+  return records;
+}
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  /** Extra `iss` values accepted in ID tokens (Google also emits the bare host). */
+  additionalIssuers?: string[];
+  /** Whether the authorization code flow is available (Google needs a client secret). */
+  redirectFlowEnabled: boolean;
+}
+
+const GOOGLE_OIDC_ISSUER = 'https://accounts.google.com';
+const DEFAULT_OIDC_SCOPES = ['openid', 'email', 'profile'];
+
+function parseOidcProviders(): OidcProviderConfig[] {
+  const providers: OidcProviderConfig[] = [];
+  const googleClientId = process.env.GOOGLE_CLIENT_ID?.trim();
+
+  if (process.env.GOOGLE_AUTH_ENABLED === 'true' && googleClientId) {
+    providers.push({
+      id: 'google',
+      name: 'Google',
+      issuer: GOOGLE_OIDC_ISSUER,
+      clientId: googleClientId,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET?.trim() || undefined,
+      scopes: DEFAULT_OIDC_SCOPES,
+      additionalIssuers: ['accounts.google.com'],
+      redirectFlowEnabled: Boolean(process.env.GOOGLE_CLIENT_SECRET?.trim()),
+    });
+  }
+
+  for (const id of parseList(process.env.OIDC_PROVIDERS).map((item) => item.toLowerCase())) {
+    const envPrefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+    const scopes = parseList(process.env[`${envPrefix}SCOPES`]?.replace(/\s+/g, ','));
+
+    providers.push({
+      id,
+      name: process.env[`${envPrefix}NAME`]?.trim() || id,
+      issuer: (process.env[`${envPrefix}ISSUER`] || '').trim().replace(/\/$/, ''),
+      clientId: (process.env[`${envPrefix}CLIENT_ID`] || '').trim(),
+      clientSecret: process.env[`${envPrefix}PUBLIC_CLIENT`] === 'true'
+        ? undefined
+        : process.env[`${envPrefix}CLIENT_SECRET`]?.trim() || undefined,
+      scopes: scopes.length > 0 ? scopes : DEFAULT_OIDC_SCOPES,
+      redirectFlowEnabled: true,
+    });
+  }
+
+  return providers;
+}
+
 const sessionCookieDomain = process.env.SESSION_COOKIE_DOMAIN?.trim();
 const websocketPath =
   process.env.WS_PATH ||
@@ -42,10 +124,11 @@ const websocketPath =
   '/socket.io';
 const websocketAllowPolling = process.env.WS_ALLOW_POLLING === 'true';
 const appSlug = normalizeAppSlug(process.env.APP_SLUG || process.env.APP_NAME);
+const appUrl = process.env.APP_URL || 'http://localhost:3000';
 
 export const envConfig = {
   port: parseInt(process.env.PORT || '3000', 10),
-  appUrl: process.env.APP_URL || 'http://localhost:3000',
+  appUrl,
   apiUrl: process.env.API_URL || 'http://localhost:3000',
   nodeEnv: process.env.NODE_ENV || 'development',
   isDevelopment: process.env.NODE_ENV !== 'production',
@@ -88,6 +171,10 @@ export const envConfig = {
     },
   },
 
+  csrf: {
+    enabled: process.env.CSRF_ENABLED !== 'false',
+  },
+
   websocket: {
     path: websocketPath,
     allowPolling: websocketAllowPolling,
@@ -117,9 +204,118 @@ export const envConfig = {
   },
 
   auth: {
-    google: {
-      enabled: process.env.GOOGLE_AUTH_ENABLED === 'true',
-      clientId: process.env.GOOGLE_CLIENT_ID?.trim(),
+    oidc: {
+      providers: parseOidcProviders(),
+      autoLinkPolicy: (process.env.AUTH_IDENTITY_AUTO_LINK || 'verified_email') as IdentityAutoLinkPolicy,
+      stateTtlSeconds: parseInt(process.env.OIDC_STATE_TTL_SECONDS || '600', 10),
+      metadataCacheTtlSeconds: parseInt(
+        process.env.OIDC_METADATA_CACHE_TTL_SECONDS || '3600',
+        10,
+      ),
+    },
+    tokens: {
+      secret:
+        process.env.AUTH_TOKEN_SECRET?.trim() ||
+        process.env.SESSION_SECRET ||
+        'change-this-secret-in-production',
+      issuer: appSlug,
+      accessTokenTtlSeconds: parseInt(
+        process.env.AUTH_ACCESS_TOKEN_TTL_SECONDS || '900',
+        10,
+      ),
+      refreshTokenTtlSeconds: parseInt(
+        process.env.AUTH_REFRESH_TOKEN_TTL_SECONDS || '2592000',
+        10,
+      ),
+    },
+    mfa: {
+      issuer: process.env.MFA_ISSUER?.trim() || process.env.APP_NAME || 'NestJS API Scaffold',
+      encryptionKey:
+        process.env.MFA_ENCRYPTION_KEY?.trim() ||
+        process.env.AUTH_TOKEN_SECRET?.trim() ||
+        process.env.SESSION_SECRET ||
+        'change-this-secret-in-production',
+      pendingTtlSeconds: parseInt(
+        process.env.MFA_PENDING_TTL_SECONDS || '300',
+        10,
+      ),
+    },
+    webauthn: {
+      rpId: process.env.WEBAUTHN_RP_ID?.trim() || new URL(appUrl).hostname,
+      rpName: process.env.WEBAUTHN_RP_NAME?.trim() || process.env.APP_NAME || 'NestJS API Scaffold',
+      origins: parseList(process.env.WEBAUTHN_ORIGINS).length > 0
+        ? parseList(process.env.WEBAUTHN_ORIGINS)
+        : [new URL(appUrl).origin],
+      challengeTtlSeconds: parseInt(
+        process.env.WEBAUTHN_CHALLENGE_TTL_SECONDS || '300',
+        10,
+      ),
+    },
+    lockout: {
+      maxFailedAttempts: parseInt(
+        process.env.AUTH_LOCKOUT_MAX_FAILED_ATTEMPTS || '5',
+        10,
+      ),
+      failureWindowSeconds: parseInt(
+        process.env.AUTH_LOCKOUT_FAILURE_WINDOW_SECONDS || '900',
+        10,
+      ),
+      durationSeconds: parseInt(
+        process.env.AUTH_LOCKOUT_DURATION_SECONDS || '900',
+        10,
+      ),
     },
+    password: {
+      minLength: parseInt(
+        process.env.AUTH_PASSWORD_MIN_LENGTH || '8',
+        10,
+      ),
+      requireLowercase: process.env.AUTH_PASSWORD_REQUIRE_LOWERCASE === 'true',
+      requireUppercase: process.env.AUTH_PASSWORD_REQUIRE_UPPERCASE === 'true',
+      requireDigit: process.env.AUTH_PASSWORD_REQUIRE_DIGIT === 'true',
+      requireSymbol: process.env.AUTH_PASSWORD_REQUIRE_SYMBOL === 'true',
+      disallowPersonalInfo: process.env.AUTH_PASSWORD_DISALLOW_PERSONAL_INFO !== 'false',
+      rejectBreached: process.env.AUTH_PASSWORD_REJECT_BREACHED !== 'false',
+      breachedListFile: process.env.AUTH_PASSWORD_BREACHED_LIST_FILE?.trim() || undefined,
+      maxAgeDays: parseInt(
+        process.env.AUTH_PASSWORD_MAX_AGE_DAYS || '0',
+        10,
+      ),
+      historySize: parseInt(
+        process.env.AUTH_PASSWORD_HISTORY_SIZE || '5',
+        10,
+      ),
+    },
+    emailVerification: {
+      requiredForLogin: process.env.EMAIL_VERIFICATION_REQUIRED_FOR_LOGIN === 'true',
+      requiredForOrganizationCreation:
+        process.env.EMAIL_VERIFICATION_REQUIRED_FOR_ORGANIZATION_CREATION === 'true',
+    },
+  },
+
+  account: {
+    deletionGraceDays: parseInt(
+      process.env.ACCOUNT_DELETION_GRACE_DAYS || '30',
+      10,
+    ),
+    dataExportTtlHours: parseInt(
+      process.env.ACCOUNT_DATA_EXPORT_TTL_HOURS || '72',
+      10,
+    ),
+  },
+
+  organization: {
+    deletionGraceDays: parseInt(
+      process.env.ORGANIZATION_DELETION_GRACE_DAYS || '30',
+      10,
+    ),
+    domainVerification: {
+      resolver: (process.env.ORGANIZATION_DOMAIN_DNS_RESOLVER || 'system') as DomainDnsResolver,
+      staticTxtRecords: parseStaticTxtRecords(process.env.ORGANIZATION_DOMAIN_STATIC_TXT_RECORDS),
+    },
+  },
+
+  platform: {
+    adminUserIds: parseList(process.env.PLATFORM_ADMIN_USER_IDS),
   },
 };
@@ -0,0 +1,55 @@
+import { validateEnv } from './env.validation';
+
+const baseConfig = {
+  SESSION_SECRET: 'a'.repeat(32),
+  APP_URL: 'http://localhost:3000',
+  API_URL: 'http://localhost:3333',
+  EMAIL_ENABLED: 'false',
+  OIDC_PROVIDERS: 'entra',
+  OIDC_ENTRA_ISSUER: 'https://login.microsoftonline.com/tenant/v2.0',
+  OIDC_ENTRA_CLIENT_ID: 'client-id',
+  OIDC_ENTRA_CLIENT_SECRET: 'client-secret',
+};
+
+describe('validateEnv', () => {
+  it('accepts a fully configured OIDC provider', () => {
+    expect(validateEnv(baseConfig)).toMatchObject({
+      OIDC_ENTRA_ISSUER: baseConfig.OIDC_ENTRA_ISSUER,
+      OIDC_ENTRA_PUBLIC_CLIENT: false,
+    });
+  });
+
+  it('requires the client secret of a listed provider', () => {
+    expect(() => validateEnv({ ...baseConfig, OIDC_ENTRA_CLIENT_SECRET: undefined })).toThrow(
+      'OIDC_ENTRA_CLIENT_SECRET is required when "entra" is listed in OIDC_PROVIDERS',
+    );
+  });
+
+  it('lets public clients leave the client secret out', () => {
+    expect(() =>
+      validateEnv({
+        ...baseConfig,
+        OIDC_ENTRA_CLIENT_SECRET: undefined,
+        OIDC_ENTRA_PUBLIC_CLIENT: 'true',
+      }),
+    ).not.toThrow();
+  });
+
+  it('requires the issuer and client id, and an http(s) issuer', () => {
+    expect(() => validateEnv({ ...baseConfig, OIDC_ENTRA_CLIENT_ID: '' })).toThrow(
+      'OIDC_ENTRA_CLIENT_ID cannot be empty',
+    );
+    expect(() => validateEnv({ ...baseConfig, OIDC_ENTRA_ISSUER: undefined })).toThrow(
+      'OIDC_ENTRA_ISSUER is required',
+    );
+    expect(() => validateEnv({ ...baseConfig, OIDC_ENTRA_ISSUER: 'ftp://issuer' })).toThrow(
+      'OIDC_ENTRA_ISSUER must be a valid URL',
+    );
+  });
+
+  it('rejects google as an OIDC provider id', () => {
+    expect(() => validateEnv({ ...baseConfig, OIDC_PROVIDERS: 'entra, google' })).toThrow(
+      'OIDC_PROVIDERS cannot contain "google"',
+    );
+  });
+});
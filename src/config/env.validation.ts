@@ -52,6 +52,7 @@ export const envValidationSchema = Joi.object({
   SESSION_COOKIE_PATH: Joi.string().default('/'),
   SESSION_COOKIE_DOMAIN: Joi.string().optional().allow(''),
   SESSION_SAVE_UNINITIALIZED: Joi.boolean().default(false),
+  CSRF_ENABLED: Joi.boolean().default(true),
   WEBSOCKET_PATH: Joi.string().default('/socket.io'),
   WS_PATH: Joi.string().optional().allow(''),
   WS_ALLOW_POLLING: Joi.boolean().default(false),
@@ -105,6 +106,56 @@ export const envValidationSchema = Joi.object({
     }),
     otherwise: Joi.string().optional().allow(''),
   }),
+  GOOGLE_CLIENT_SECRET: Joi.string().optional().allow(''),
+  OIDC_PROVIDERS: Joi.string()
+    .pattern(/^[a-z0-9-]+(?:\s*,\s*[a-z0-9-]+)*$/i)
+    .custom((value: string, helpers) =>
+      parseOidcProviderIds(value).some((providerId) => providerId.toLowerCase() === 'google')
+        ? helpers.error('oidcProviders.google')
+        : value,
+    )
+    .optional()
+    .allow('')
+    .messages({
+      'string.pattern.base': 'OIDC_PROVIDERS must be a comma-separated list of provider ids',
+      'oidcProviders.google': 'OIDC_PROVIDERS cannot contain "google"; use GOOGLE_AUTH_ENABLED instead',
+    }),
+  AUTH_IDENTITY_AUTO_LINK: Joi.string()
+    .valid('verified_email', 'never')
+    .default('verified_email'),
+  OIDC_STATE_TTL_SECONDS: Joi.number().integer().min(60).default(600),
+  OIDC_METADATA_CACHE_TTL_SECONDS: Joi.number().integer().min(60).default(3600),
+  AUTH_TOKEN_SECRET: Joi.string().optional().allow(''),
+  AUTH_ACCESS_TOKEN_TTL_SECONDS: Joi.number().integer().min(60).default(900),
+  AUTH_REFRESH_TOKEN_TTL_SECONDS: Joi.number().integer().min(300).default(2592000),
+  MFA_ISSUER: Joi.string().optional().allow(''),
+  MFA_ENCRYPTION_KEY: Joi.string().optional().allow(''),
+  MFA_PENDING_TTL_SECONDS: Joi.number().integer().min(60).default(300),
+  WEBAUTHN_RP_ID: Joi.string().optional().allow(''),
+  WEBAUTHN_RP_NAME: Joi.string().optional().allow(''),
+  WEBAUTHN_ORIGINS: Joi.string().optional().allow(''),
+  WEBAUTHN_CHALLENGE_TTL_SECONDS: Joi.number().integer().min(30).default(300),
+  AUTH_LOCKOUT_MAX_FAILED_ATTEMPTS: Joi.number().integer().min(1).default(5),
+  AUTH_LOCKOUT_FAILURE_WINDOW_SECONDS: Joi.number().integer().min(60).default(900),
+  AUTH_LOCKOUT_DURATION_SECONDS: Joi.number().integer().min(60).default(900),
+  AUTH_PASSWORD_MIN_LENGTH: Joi.number().integer().min(4).max(100).default(8),
+  AUTH_PASSWORD_REQUIRE_LOWERCASE: Joi.boolean().default(false),
+  AUTH_PASSWORD_REQUIRE_UPPERCASE: Joi.boolean().default(false),
+  AUTH_PASSWORD_REQUIRE_DIGIT: Joi.boolean().default(false),
+  AUTH_PASSWORD_REQUIRE_SYMBOL: Joi.boolean().default(false),
+  AUTH_PASSWORD_DISALLOW_PERSONAL_INFO: Joi.boolean().default(true),
+  AUTH_PASSWORD_REJECT_BREACHED: Joi.boolean().default(true),
+  AUTH_PASSWORD_BREACHED_LIST_FILE: Joi.string().optional().allow(''),
+  AUTH_PASSWORD_MAX_AGE_DAYS: Joi.number().integer().min(0).default(0),
+  AUTH_PASSWORD_HISTORY_SIZE: Joi.number().integer().min(0).max(24).default(5),
+  EMAIL_VERIFICATION_REQUIRED_FOR_LOGIN: Joi.boolean().default(false),
+  EMAIL_VERIFICATION_REQUIRED_FOR_ORGANIZATION_CREATION: Joi.boolean().default(false),
+  ACCOUNT_DELETION_GRACE_DAYS: Joi.number().integer().min(0).max(365).default(30),
+  ACCOUNT_DATA_EXPORT_TTL_HOURS: Joi.number().integer().min(1).default(72),
+  ORGANIZATION_DELETION_GRACE_DAYS: Joi.number().integer().min(0).max(365).default(30),
+  ORGANIZATION_DOMAIN_DNS_RESOLVER: Joi.string().valid('system', 'static').default('system'),
+  ORGANIZATION_DOMAIN_STATIC_TXT_RECORDS: Joi.string().optional().allow(''),
+  PLATFORM_ADMIN_USER_IDS: Joi.string().optional().allow(''),
 
   // CORS
   CORS_ORIGIN: Joi.string().default('*'),
@@ -118,15 +169,64 @@ export const envValidationSchema = Joi.object({
  * Lança erro se alguma validação falhar
  */
 export function validateEnv(config: Record<string, unknown>) {
-  const { error, value } = envValidationSchema.validate(config, {
-    abortEarly: false,
-    allowUnknown: true,
-  });
+  const { error, value } = envValidationSchema
+    .keys(buildOidcProviderKeys(config))
+    .validate(config, {
+      abortEarly: false,
+      allowUnknown: true,
+    });
 
   if (error) {
-    const errors = error.details.map((detail) => detail.message).join('\n');
-    throw new Error(`Environment validation failed:\n${errors}`);
+    throw new Error(
+      `Environment validation failed:\n${error.details.map((detail) => detail.message).join('\n')}`,
+    );
   }
 
   return value;
 }
+
+function parseOidcProviderIds(value: unknown): string[] {
+  return String(value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Each id listed in OIDC_PROVIDERS needs its own OIDC_<ID>_* variables, so
+ * their keys are added to the schema from the list. The client secret can
+ * only be left out by declaring the provider a public client.
+ */
+function buildOidcProviderKeys(config: Record<string, unknown>): Record<string, Joi.Schema> {
+  const keys: Record<string, Joi.Schema> = {};
+
+  for (const providerId of parseOidcProviderIds(config.OIDC_PROVIDERS)) {
+    const envPrefix = `OIDC_${providerId.toUpperCase().replace(/-/g, '_')}_`;
+    const requiredMessages = (key: string) => ({
+      'any.required': `${envPrefix}${key} is required when "${providerId}" is listed in OIDC_PROVIDERS`,
+      'string.empty': `${envPrefix}${key} cannot be empty`,
+    });
+
+    keys[`${envPrefix}ISSUER`] = Joi.string()
+      .trim()
+      .uri({ scheme: ['http', 'https'] })
+      .required()
+      .messages({
+        ...requiredMessages('ISSUER'),
+        'string.uri': `${envPrefix}ISSUER must be a valid URL`,
+        'string.uriCustomScheme': `${envPrefix}ISSUER must be a valid URL`,
+      });
+    keys[`${envPrefix}CLIENT_ID`] = Joi.string().trim().required().messages(requiredMessages('CLIENT_ID'));
+    keys[`${envPrefix}PUBLIC_CLIENT`] = Joi.boolean().default(false);
+    keys[`${envPrefix}CLIENT_SECRET`] = Joi.when(`${envPrefix}PUBLIC_CLIENT`, {
+      is: true,
+      then: Joi.string().optional().allow(''),
+      otherwise: Joi.string().trim().required().messages({
+        ...requiredMessages('CLIENT_SECRET'),
+        'any.required': `${envPrefix}CLIENT_SECRET is required when "${providerId}" is listed in OIDC_PROVIDERS; set ${envPrefix}PUBLIC_CLIENT=true for public clients`,
+      }),
+    });
+  }
+
+  return keys;
+}
@@ -7,6 +7,7 @@ export type CommonApiResponseKey =
   | 'forbidden'
   | 'notFound'
   | 'conflict'
+  | 'tooManyRequests'
   | 'internalServerError';
 
 export type CommonApiResponseOption =
@@ -37,6 +38,10 @@ const COMMON_API_RESPONSES: Record<CommonApiResponseKey, ApiResponseOptions> = {
     status: HttpStatus.CONFLICT,
     description: 'Resource conflict',
   },
+  tooManyRequests: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many requests. Check the Retry-After header',
+  },
   internalServerError: {
     status: HttpStatus.INTERNAL_SERVER_ERROR,
     description: 'Internal server error',
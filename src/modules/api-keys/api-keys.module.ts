@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { AccountLockoutService } from '@/modules/auth/application/services/account-lockout.service';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import { AuthPersistenceModule } from '@/modules/auth/infrastructure/persistence/auth-persistence.module';
+import { EmailsModule } from '@/modules/emails/emails.module';
+import { OrganizationsPersistenceModule } from '@/modules/organizations/infrastructure/persistence/organizations-persistence.module';
+import { UsersPersistenceModule } from '@/modules/users/infrastructure/persistence/users-persistence.module';
+import { ApiKeyAuthService } from './application/services/api-key-auth.service';
+import { CreateApiKeyUseCase } from './application/use-cases/create-api-key.use-case';
+import { ListApiKeysUseCase } from './application/use-cases/list-api-keys.use-case';
+import { RevokeApiKeyUseCase } from './application/use-cases/revoke-api-key.use-case';
+import { ApiKeysPersistenceModule } from './infrastructure/persistence/api-keys-persistence.module';
+import { ApiKeysController } from './presentation/http/controllers/api-keys.controller';
+
+/**
+ * API Keys Module
+ *
+ * Personal access tokens for CI jobs and integrations. Exports the
+ * authentication service consumed by the global AuthGuard.
+ */
+@Module({
+  imports: [
+    ApiKeysPersistenceModule,
+    UsersPersistenceModule,
+    OrganizationsPersistenceModule,
+    AuthPersistenceModule,
+    EmailsModule,
+  ],
+  providers: [
+    ApiKeyAuthService,
+    CreateApiKeyUseCase,
+    ListApiKeysUseCase,
+    RevokeApiKeyUseCase,
+    EmailVerificationService,
+    AccountLockoutService,
+  ],
+  controllers: [ApiKeysController],
+  exports: [ApiKeyAuthService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,4 @@
+export const API_KEY_TOKEN_PREFIX = 'pat_';
+export const API_KEY_VISIBLE_PREFIX_LENGTH = 12;
+export const API_KEY_LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+export const API_KEY_INVALID_MESSAGE = 'Invalid, expired or revoked API key';
@@ -0,0 +1,83 @@
+import type { AccountLockoutService } from '@/modules/auth/application/services/account-lockout.service';
+import type { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { User } from '@/modules/users/domain/entities/user.entity';
+import type { IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { ApiKey } from '../../domain/entities/api-key.entity';
+import type { IApiKeyRepository } from '../../domain/repositories/api-key.repository.interface';
+import { hashApiKeyToken } from '../utils/api-key-token.util';
+import { ApiKeyAuthService } from './api-key-auth.service';
+
+jest.mock('@/config/env.config', () => ({ envConfig: {} }));
+
+describe('ApiKeyAuthService', () => {
+  const apiKey = new ApiKey({
+    id: '900',
+    userId: '1',
+    tokenHash: hashApiKeyToken('raw-token'),
+    mfaVerified: false,
+    lastUsedAt: new Date(),
+  });
+  let user: User;
+  const apiKeyRepository = {
+    findByTokenHash: jest.fn((tokenHash: string) =>
+      Promise.resolve(tokenHash === apiKey.tokenHash ? apiKey : null),
+    ),
+    touchLastUsed: jest.fn(() => Promise.resolve()),
+  };
+  const userRepository = { findById: jest.fn(() => Promise.resolve(user)) };
+  const emailVerificationService = {
+    isLoginBlocked: jest.fn((candidate: User) => !candidate.emailVerifiedAt),
+  };
+  const accountLockoutService = { isLocked: jest.fn(() => Promise.resolve(false)) };
+  const service = new ApiKeyAuthService(
+    apiKeyRepository as unknown as IApiKeyRepository,
+    userRepository as unknown as IUserRepository,
+    {} as IOrganizationRepository,
+    emailVerificationService as unknown as EmailVerificationService,
+    accountLockoutService as unknown as AccountLockoutService,
+  );
+
+  beforeEach(() => {
+    user = new User({
+      id: '1',
+      email: 'ana@example.com',
+      name: 'Ana',
+      emailVerifiedAt: new Date(),
+      deletionScheduledAt: null,
+    });
+    jest.clearAllMocks();
+  });
+
+  it('resolves the key into a session of its owner', async () => {
+    await expect(service.authenticate('raw-token')).resolves.toMatchObject({
+      userId: '1',
+      apiKeyId: '900',
+      authenticated: true,
+    });
+    expect(accountLockoutService.isLocked).toHaveBeenCalledWith('ana@example.com');
+  });
+
+  it('keeps working during the grace period of a scheduled deletion', async () => {
+    user.deletionScheduledAt = new Date(Date.now() + 60_000);
+
+    await expect(service.authenticate('raw-token')).resolves.toMatchObject({ userId: '1' });
+  });
+
+  it.each([
+    ['a due deletion', () => {
+      user.deletionScheduledAt = new Date(Date.now() - 1);
+    }],
+    ['an unverified email', () => {
+      user.emailVerifiedAt = null;
+    }],
+    ['a locked account', () => {
+      accountLockoutService.isLocked.mockResolvedValueOnce(true);
+    }],
+  ])('rejects the key of an owner with %s', async (_label, prepare) => {
+    prepare();
+
+    await expect(service.authenticate('raw-token')).resolves.toBeNull();
+    expect(apiKeyRepository.touchLastUsed).not.toHaveBeenCalled();
+  });
+});
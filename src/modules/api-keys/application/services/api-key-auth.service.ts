@@ -0,0 +1,92 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { AccountLockoutService } from '@/modules/auth/application/services/account-lockout.service';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import { ApiKey } from '../../domain/entities/api-key.entity';
+import { API_KEY_REPOSITORY, type IApiKeyRepository } from '../../domain/repositories/api-key.repository.interface';
+import { API_KEY_LAST_USED_UPDATE_INTERVAL_MS } from '../constants/api-keys.constants';
+import { hashApiKeyToken } from '../utils/api-key-token.util';
+
+@Injectable()
+export class ApiKeyAuthService {
+  constructor(
+    @Inject(API_KEY_REPOSITORY)
+    private readonly apiKeyRepository: IApiKeyRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly accountLockoutService: AccountLockoutService,
+  ) { }
+
+  /**
+   * Resolves a raw API key into a request session, or null when the key is
+   * unknown, revoked, expired or its owner lost access to the bound organization.
+   * The owner account goes through the same checks as a token refresh: a due
+   * deletion, an unverified email or a lockout reject the key.
+   */
+  async authenticate(rawToken: string): Promise<AppSessionContext | null> {
+    const now = new Date();
+    const apiKey = await this.apiKeyRepository.findByTokenHash(hashApiKeyToken(rawToken));
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(apiKey.userId);
+    if (
+      !user ||
+      (user.deletionScheduledAt && user.deletionScheduledAt <= now) ||
+      this.emailVerificationService.isLoginBlocked(user) ||
+      await this.accountLockoutService.isLocked(user.email)
+    ) {
+      return null;
+    }
+
+    const session: AppSessionContext = {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      authenticated: true,
+      mfaVerified: apiKey.mfaVerified,
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes ?? undefined,
+    };
+
+    if (apiKey.organizationId) {
+      const access = await this.organizationRepository.findAccessibleByIdForUser(
+        apiKey.organizationId,
+        user.id,
+      );
+
+      if (!access) {
+        return null;
+      }
+
+      session.currentOrganizationId = access.organization.id;
+      session.currentOrganizationName = access.organization.name;
+      session.currentOrganizationRole = access.role;
+    }
+
+    await this.touchLastUsed(apiKey, now);
+
+    return session;
+  }
+
+  private async touchLastUsed(apiKey: ApiKey, now: Date): Promise<void> {
+    if (
+      apiKey.lastUsedAt &&
+      now.getTime() - apiKey.lastUsedAt.getTime() < API_KEY_LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    await this.apiKeyRepository.touchLastUsed(apiKey.id, now);
+  }
+}
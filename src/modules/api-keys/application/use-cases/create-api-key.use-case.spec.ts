@@ -0,0 +1,44 @@
+import { ForbiddenException } from '@nestjs/common';
+import { MFA_ORGANIZATION_REQUIRED_MESSAGE } from '@/modules/auth/application/constants/mfa.constants';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ApiKey } from '../../domain/entities/api-key.entity';
+import type { CreateApiKeyData, IApiKeyRepository } from '../../domain/repositories/api-key.repository.interface';
+import { CreateApiKeyUseCase } from './create-api-key.use-case';
+
+describe('CreateApiKeyUseCase', () => {
+  const organizations: Record<string, Organization> = {
+    '100': new Organization({ id: '100', name: 'Strict', requireMfa: true }),
+    '200': new Organization({ id: '200', name: 'Relaxed', requireMfa: false }),
+  };
+  const apiKeyRepository = {
+    create: jest.fn((data: CreateApiKeyData) =>
+      Promise.resolve(new ApiKey({ ...data, id: '9', createdAt: new Date() })),
+    ),
+  };
+  const useCase = new CreateApiKeyUseCase(
+    apiKeyRepository as unknown as IApiKeyRepository,
+    {
+      findAccessibleByIdForUser: (organizationId: string) =>
+        Promise.resolve({ organization: organizations[organizationId], role: 'member' }),
+    } as unknown as IOrganizationRepository,
+  );
+
+  beforeEach(() => {
+    apiKeyRepository.create.mockClear();
+  });
+
+  it('refuses keys for an organization that requires MFA from a session without it', async () => {
+    await expect(
+      useCase.execute('1', { name: 'ci', organizationId: '100', mfaVerified: false }),
+    ).rejects.toThrow(new ForbiddenException(MFA_ORGANIZATION_REQUIRED_MESSAGE));
+    expect(apiKeyRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('stores the MFA state of the session on the key', async () => {
+    await useCase.execute('1', { name: 'ci', organizationId: '100', mfaVerified: true });
+    await useCase.execute('1', { name: 'ci', organizationId: '200', mfaVerified: false });
+
+    expect(apiKeyRepository.create.mock.calls.map(([data]) => data.mfaVerified)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { MFA_ORGANIZATION_REQUIRED_MESSAGE } from '@/modules/auth/application/constants/mfa.constants';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { PermissionCode } from '@/modules/permissions/application/constants/permissions.constants';
+import { API_KEY_REPOSITORY, type IApiKeyRepository } from '../../domain/repositories/api-key.repository.interface';
+import { generateApiKeyToken } from '../utils/api-key-token.util';
+
+export interface CreateApiKeyInput {
+  name: string;
+  organizationId?: string;
+  scopes?: PermissionCode[];
+  expiresAt?: string;
+  /** Whether the session creating the key passed MFA; stored on the key. */
+  mfaVerified: boolean;
+}
+
+@Injectable()
+export class CreateApiKeyUseCase {
+  constructor(
+    @Inject(API_KEY_REPOSITORY)
+    private readonly apiKeyRepository: IApiKeyRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) { }
+
+  async execute(userId: string, input: CreateApiKeyInput) {
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('Expiration date must be in the future');
+    }
+
+    if (input.organizationId) {
+      const access = await this.organizationRepository.findAccessibleByIdForUser(
+        input.organizationId,
+        userId,
+      );
+
+      if (!access) {
+        throw new ConflictException('Organization is not accessible');
+      }
+
+      if (access.organization.requireMfa && !input.mfaVerified) {
+        throw new ForbiddenException(MFA_ORGANIZATION_REQUIRED_MESSAGE);
+      }
+    }
+
+    const { rawToken, tokenPrefix, tokenHash } = generateApiKeyToken();
+    const apiKey = await this.apiKeyRepository.create({
+      userId,
+      organizationId: input.organizationId ?? null,
+      name: input.name,
+      tokenPrefix,
+      tokenHash,
+      scopes: input.scopes ? [...new Set(input.scopes)] : null,
+      mfaVerified: input.mfaVerified,
+      expiresAt,
+    });
+
+    return {
+      data: {
+        apiKey,
+        token: rawToken,
+      },
+      message: 'API key created successfully. Store the token now; it will not be shown again.',
+    };
+  }
+}
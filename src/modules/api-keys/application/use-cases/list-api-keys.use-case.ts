@@ -0,0 +1,19 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { API_KEY_REPOSITORY, type IApiKeyRepository } from '../../domain/repositories/api-key.repository.interface';
+
+@Injectable()
+export class ListApiKeysUseCase {
+  constructor(
+    @Inject(API_KEY_REPOSITORY)
+    private readonly apiKeyRepository: IApiKeyRepository,
+  ) { }
+
+  async execute(userId: string) {
+    const apiKeys = await this.apiKeyRepository.listForUser(userId);
+
+    return {
+      data: apiKeys,
+      message: 'API keys retrieved successfully',
+    };
+  }
+}
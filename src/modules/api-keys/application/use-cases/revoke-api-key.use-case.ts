@@ -0,0 +1,26 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { API_KEY_REPOSITORY, type IApiKeyRepository } from '../../domain/repositories/api-key.repository.interface';
+
+@Injectable()
+export class RevokeApiKeyUseCase {
+  constructor(
+    @Inject(API_KEY_REPOSITORY)
+    private readonly apiKeyRepository: IApiKeyRepository,
+  ) { }
+
+  async execute(userId: string, apiKeyId: string) {
+    const apiKey = await this.apiKeyRepository.findByIdForUser(apiKeyId, userId);
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (!apiKey.revokedAt) {
+      await this.apiKeyRepository.revoke(apiKey.id, new Date());
+    }
+
+    return {
+      message: 'API key revoked successfully',
+    };
+  }
+}
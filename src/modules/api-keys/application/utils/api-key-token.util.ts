@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from 'crypto';
+import { API_KEY_TOKEN_PREFIX, API_KEY_VISIBLE_PREFIX_LENGTH } from '../constants/api-keys.constants';
+
+export function generateApiKeyToken(): {
+  rawToken: string;
+  tokenPrefix: string;
+  tokenHash: string;
+} {
+  const rawToken = `${API_KEY_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  return {
+    rawToken,
+    tokenPrefix: rawToken.slice(0, API_KEY_VISIBLE_PREFIX_LENGTH),
+    tokenHash: hashApiKeyToken(rawToken),
+  };
+}
+
+export function hashApiKeyToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,19 @@
+export class ApiKey {
+  id: string;
+  userId: string;
+  organizationId?: string | null;
+  name: string;
+  tokenPrefix: string;
+  tokenHash: string;
+  scopes?: string[] | null;
+  /** Whether the session that created the key had passed MFA. */
+  mfaVerified: boolean;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+
+  constructor(partial: Partial<ApiKey> = {}) {
+    Object.assign(this, partial);
+  }
+}
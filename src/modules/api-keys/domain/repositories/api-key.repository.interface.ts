@@ -0,0 +1,24 @@
+import { ApiKey } from '../entities/api-key.entity';
+
+export interface CreateApiKeyData {
+  userId: string;
+  organizationId?: string | null;
+  name: string;
+  tokenPrefix: string;
+  tokenHash: string;
+  scopes?: string[] | null;
+  mfaVerified: boolean;
+  expiresAt?: Date | null;
+}
+
+export interface IApiKeyRepository {
+  create(data: CreateApiKeyData): Promise<ApiKey>;
+  listForUser(userId: string): Promise<ApiKey[]>;
+  findByTokenHash(tokenHash: string): Promise<ApiKey | null>;
+  findByIdForUser(id: string, userId: string): Promise<ApiKey | null>;
+  revoke(id: string, now: Date): Promise<void>;
+  touchLastUsed(id: string, now: Date): Promise<void>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const API_KEY_REPOSITORY = Symbol('API_KEY_REPOSITORY');
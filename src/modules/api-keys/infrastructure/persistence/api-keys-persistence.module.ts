@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { API_KEY_REPOSITORY } from '@/modules/api-keys/domain/repositories/api-key.repository.interface';
+import { ApiKeyRepository } from './repositories/api-key.repository';
+
+@Module({
+  providers: [
+    {
+      provide: API_KEY_REPOSITORY,
+      useClass: ApiKeyRepository,
+    },
+  ],
+  exports: [API_KEY_REPOSITORY],
+})
+export class ApiKeysPersistenceModule {}
@@ -0,0 +1,25 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const ApiKeyModel = defineModel({
+  name: 'ApiKey',
+  table: 'api_keys',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    organizationId: snowflakeIdColumn().nullable(),
+    name: col.text(),
+    tokenPrefix: col.text(),
+    tokenHash: col.text(),
+    scopes: col.custom<string[], 'text[]'>('text[]').nativeType('text[]').nullable(),
+    mfaVerified: col.boolean(),
+    expiresAt: col.timestamp().nullable(),
+    lastUsedAt: col.timestamp().nullable(),
+    revokedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type ApiKeyRecord = InferModelShape<typeof ApiKeyModel>;
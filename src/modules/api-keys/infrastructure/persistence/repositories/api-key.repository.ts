@@ -0,0 +1,150 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ApiKey } from '@/modules/api-keys/domain/entities/api-key.entity';
+import type {
+  CreateApiKeyData,
+  IApiKeyRepository,
+} from '@/modules/api-keys/domain/repositories/api-key.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { ApiKeyModel, type ApiKeyRecord } from '../models/api-key.model';
+
+@Injectable()
+export class ApiKeyRepository implements IApiKeyRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateApiKeyData): Promise<ApiKey> {
+    const rows = await this.objxSession.execute(
+      ApiKeyModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId: data.userId,
+          organizationId: data.organizationId ?? null,
+          name: data.name,
+          tokenPrefix: data.tokenPrefix,
+          tokenHash: data.tokenHash,
+          scopes: data.scopes ?? null,
+          mfaVerified: data.mfaVerified,
+          expiresAt: data.expiresAt ?? null,
+        })
+        .returning(({
+          id,
+          userId,
+          organizationId,
+          name,
+          tokenPrefix,
+          tokenHash,
+          scopes,
+          mfaVerified,
+          expiresAt,
+          lastUsedAt,
+          revokedAt,
+          createdAt,
+        }) => [
+          id,
+          userId,
+          organizationId,
+          name,
+          tokenPrefix,
+          tokenHash,
+          scopes,
+          mfaVerified,
+          expiresAt,
+          lastUsedAt,
+          revokedAt,
+          createdAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('API key insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async listForUser(userId: string): Promise<ApiKey[]> {
+    const rows = await this.objxSession.execute(
+      ApiKeyModel
+        .query()
+        .where(({ userId: keyUserId }, op) => op.eq(keyUserId, userId))
+        .orderBy(({ createdAt }) => createdAt, 'desc'),
+    );
+
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<ApiKey | null> {
+    const rows = await this.objxSession.execute(
+      ApiKeyModel
+        .query()
+        .where(({ tokenHash: storedTokenHash }, op) => op.eq(storedTokenHash, tokenHash))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findByIdForUser(id: string, userId: string): Promise<ApiKey | null> {
+    const rows = await this.objxSession.execute(
+      ApiKeyModel
+        .query()
+        .where(({ id: keyId, userId: keyUserId }, op) =>
+          op.and(
+            op.eq(keyId, id),
+            op.eq(keyUserId, userId),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async revoke(id: string, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      ApiKeyModel
+        .update({ revokedAt: now })
+        .where(({ id: keyId }, op) => op.eq(keyId, id)),
+    );
+  }
+
+  async touchLastUsed(id: string, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      ApiKeyModel
+        .update({ lastUsedAt: now })
+        .where(({ id: keyId }, op) => op.eq(keyId, id)),
+    );
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      ApiKeyModel
+        .delete()
+        .where(({ userId: keyUserId }, op) => op.eq(keyUserId, userId)),
+    );
+  }
+
+  private mapRow(row: ApiKeyRecord): ApiKey {
+    return new ApiKey({
+      id: row.id,
+      userId: row.userId,
+      organizationId: row.organizationId ?? null,
+      name: row.name,
+      tokenPrefix: row.tokenPrefix,
+      tokenHash: row.tokenHash,
+      scopes: row.scopes ?? null,
+      mfaVerified: row.mfaVerified,
+      expiresAt: row.expiresAt ?? null,
+      lastUsedAt: row.lastUsedAt ?? null,
+      revokedAt: row.revokedAt ?? null,
+      createdAt: row.createdAt,
+    });
+  }
+}
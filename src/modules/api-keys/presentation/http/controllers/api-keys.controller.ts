@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import { CreateApiKeyUseCase } from '@/modules/api-keys/application/use-cases/create-api-key.use-case';
+import { ListApiKeysUseCase } from '@/modules/api-keys/application/use-cases/list-api-keys.use-case';
+import { RevokeApiKeyUseCase } from '@/modules/api-keys/application/use-cases/revoke-api-key.use-case';
+import {
+  ApiKeyIdParamDto,
+  ApiKeyListResponseDto,
+  CreateApiKeyDto,
+  CreatedApiKeyResponseDto,
+  toApiKeyResponseDto,
+} from '@/modules/api-keys/presentation/http/dtos';
+import { getSessionFromRequest } from '@/shared/context/execution-context-session.util';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('API Keys')
+@Controller('api-keys')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class ApiKeysController {
+  constructor(
+    private readonly createApiKeyUseCase: CreateApiKeyUseCase,
+    private readonly listApiKeysUseCase: ListApiKeysUseCase,
+    private readonly revokeApiKeyUseCase: RevokeApiKeyUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List API keys',
+    description: 'Lists the personal access tokens of the current user. Token values are never returned.',
+    response: ApiKeyListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async list(@CurrentUser('id') userId: string) {
+    const result = await this.listApiKeysUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      result.data.map((apiKey) => toApiKeyResponseDto(apiKey)),
+      result.message,
+    );
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiDoc({
+    summary: 'Create API key',
+    description: 'Creates a named personal access token, optionally bound to one organization and a subset of permission codes. The token is returned only once; send it as `Authorization: ApiKey <token>`. The key records whether the current session passed MFA: keys created without it are refused for, and cannot be used in, organizations that require MFA.',
+    body: CreateApiKeyDto,
+    response: CreatedApiKeyResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async create(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreateApiKeyDto,
+  ) {
+    const result = await this.createApiKeyUseCase.execute(userId, {
+      ...dto,
+      mfaVerified: getSessionFromRequest(request)?.mfaVerified === true,
+    });
+
+    return ResponseHelper.success(
+      {
+        apiKey: toApiKeyResponseDto(result.data.apiKey),
+        token: result.data.token,
+      },
+      result.message,
+    );
+  }
+
+  @Delete(':id')
+  @ApiDoc({
+    summary: 'Revoke API key',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'id',
+        description: 'API key ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async revoke(
+    @CurrentUser('id') userId: string,
+    @Param() params: ApiKeyIdParamDto,
+  ) {
+    const result = await this.revokeApiKeyUseCase.execute(userId, params.id);
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,55 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { ApiKey } from '@/modules/api-keys/domain/entities/api-key.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const DateTimeStringSchema = z.iso.datetime();
+
+export const ApiKeyResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  name: z.string(),
+  tokenPrefix: z.string(),
+  organizationId: snowflakeIdSchema.nullable(),
+  scopes: z.array(z.string()).nullable(),
+  mfaVerified: z.boolean(),
+  expiresAt: DateTimeStringSchema.nullable(),
+  lastUsedAt: DateTimeStringSchema.nullable(),
+  revokedAt: DateTimeStringSchema.nullable(),
+  createdAt: DateTimeStringSchema,
+});
+
+export const ApiKeyListResponseSchema = z.array(ApiKeyResponseSchema);
+
+export const CreatedApiKeyResponseSchema = z.object({
+  apiKey: ApiKeyResponseSchema,
+  token: z.string(),
+});
+
+export type ApiKeyResponse = z.infer<typeof ApiKeyResponseSchema>;
+
+export function toApiKeyResponseDto(apiKey: ApiKey): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    tokenPrefix: apiKey.tokenPrefix,
+    organizationId: apiKey.organizationId ?? null,
+    scopes: apiKey.scopes ?? null,
+    mfaVerified: apiKey.mfaVerified,
+    expiresAt: normalizeNullableDateTime(apiKey.expiresAt),
+    lastUsedAt: normalizeNullableDateTime(apiKey.lastUsedAt),
+    revokedAt: normalizeNullableDateTime(apiKey.revokedAt),
+    createdAt: normalizeDateTime(apiKey.createdAt),
+  };
+}
+
+function normalizeDateTime(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function normalizeNullableDateTime(value?: Date | string | null): string | null {
+  return value ? normalizeDateTime(value) : null;
+}
+
+export class ApiKeyResponseDto extends createZodDto(ApiKeyResponseSchema) { }
+export class ApiKeyListResponseDto extends createZodDto(ApiKeyListResponseSchema) { }
+export class CreatedApiKeyResponseDto extends createZodDto(CreatedApiKeyResponseSchema) { }
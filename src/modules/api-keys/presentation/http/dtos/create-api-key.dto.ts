@@ -0,0 +1,24 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { PERMISSION_CODES } from '@/modules/permissions/application/constants/permissions.constants';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+export const CreateApiKeySchema = z.object({
+  name: z
+    .string({
+      message: 'Name is required',
+    })
+    .trim()
+    .min(1, 'Name cannot be empty')
+    .max(120, 'Name must be at most 120 characters'),
+  organizationId: snowflakeIdSchema.optional(),
+  scopes: z.array(z.enum(PERMISSION_CODES)).optional(),
+  expiresAt: z.iso.datetime().optional(),
+});
+
+export const ApiKeyIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export class CreateApiKeyDto extends createZodDto(CreateApiKeySchema) { }
+export class ApiKeyIdParamDto extends createZodDto(ApiKeyIdParamSchema) { }
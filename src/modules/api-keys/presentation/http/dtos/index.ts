@@ -0,0 +1,2 @@
+export * from './api-key-response.dto';
+export * from './create-api-key.dto';
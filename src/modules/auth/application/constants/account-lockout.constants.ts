@@ -0,0 +1,15 @@
+import type { RateLimitOptions } from '@/shared/http/decorators/rate-limit.decorator';
+
+export const ACCOUNT_LOCKOUT_FAILURES_KEY_PREFIX = 'auth:lockout:failures:';
+export const ACCOUNT_LOCKOUT_LOCK_KEY_PREFIX = 'auth:lockout:lock:';
+export const ACCOUNT_LOCKED_MESSAGE =
+  'Account temporarily locked after too many failed login attempts. Please try again later.';
+export const ACCOUNT_UNLOCKED_MESSAGE = 'Account unlocked successfully';
+export const ACCOUNT_NOT_LOCKED_MESSAGE = 'Account is not locked';
+
+/** Shared by every password login route so the buckets add up across them. */
+export const LOGIN_RATE_LIMIT: RateLimitOptions = {
+  name: 'login',
+  windowSeconds: 60,
+  limits: { ip: 20, email: 5 },
+};
@@ -0,0 +1,5 @@
+export const AUTH_TOKEN_TYPE = 'Bearer';
+export const AUTH_TOKEN_ISSUED_MESSAGE = 'Tokens issued successfully';
+export const AUTH_TOKEN_REFRESHED_MESSAGE = 'Tokens refreshed successfully';
+export const AUTH_TOKEN_REVOKED_MESSAGE = 'Refresh token revoked';
+export const REFRESH_TOKEN_INVALID_MESSAGE = 'Invalid or expired refresh token';
@@ -0,0 +1,7 @@
+export const EMAIL_VERIFICATION_TOKEN_TTL_MINUTES = 1440;
+export const EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS = 60;
+export const EMAIL_VERIFICATION_REQUEST_MESSAGE =
+  'If the email exists and is not verified yet, a verification link has been sent.';
+export const EMAIL_VERIFICATION_SUCCESS_MESSAGE = 'Email verified successfully';
+export const EMAIL_VERIFICATION_TOKEN_INVALID_MESSAGE = 'Invalid or expired verification token';
+export const EMAIL_NOT_VERIFIED_MESSAGE = 'Email address must be verified before continuing';
@@ -0,0 +1,9 @@
+export const IDENTITIES_RETRIEVED_MESSAGE = 'Linked identities retrieved successfully';
+export const IDENTITY_LINKED_MESSAGE = 'Identity linked successfully';
+export const IDENTITY_UNLINKED_MESSAGE = 'Identity unlinked successfully';
+export const IDENTITY_NOT_FOUND_MESSAGE = 'Linked identity not found';
+export const IDENTITY_ALREADY_LINKED_MESSAGE = 'An account from this provider is already linked. Unlink it first';
+export const IDENTITY_LAST_LOGIN_METHOD_MESSAGE =
+  'Cannot remove the last sign-in method. Set a password or add a passkey first';
+export const REAUTHENTICATION_REQUIRED_MESSAGE = 'Confirm your current password or authentication code';
+export const REAUTHENTICATION_FAILED_MESSAGE = 'Current password or authentication code is invalid';
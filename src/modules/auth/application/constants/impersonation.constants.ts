@@ -0,0 +1,11 @@
+export const IMPERSONATION_STARTED_MESSAGE = 'Impersonation started successfully';
+export const IMPERSONATION_ENDED_MESSAGE = 'Impersonation ended successfully';
+export const IMPERSONATION_ALREADY_ACTIVE_MESSAGE = 'End the current impersonation before starting another one';
+export const IMPERSONATION_NOT_ACTIVE_MESSAGE = 'This session is not impersonating a user';
+export const IMPERSONATION_COOKIE_SESSION_REQUIRED_MESSAGE =
+  'Impersonation is only available for cookie sessions';
+export const IMPERSONATION_SELF_MESSAGE = 'You cannot impersonate yourself';
+export const IMPERSONATION_TARGET_NOT_FOUND_MESSAGE = 'User not found in the current organization';
+export const IMPERSONATION_OWNER_TARGET_MESSAGE = 'Organization owners cannot be impersonated';
+export const IMPERSONATION_ORGANIZATION_LOCKED_MESSAGE =
+  'An impersonation is limited to the organization it was started in';
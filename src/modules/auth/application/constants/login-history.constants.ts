@@ -0,0 +1,11 @@
+export const LOGIN_HISTORY_RETRIEVED_MESSAGE = 'Login history retrieved successfully';
+
+export const LOGIN_FAILURE_INVALID_CREDENTIALS = 'invalid_credentials';
+export const LOGIN_FAILURE_ACCOUNT_LOCKED = 'account_locked';
+export const LOGIN_FAILURE_EMAIL_UNVERIFIED = 'email_unverified';
+export const LOGIN_FAILURE_INVALID_TOKEN = 'invalid_token';
+export const LOGIN_FAILURE_TOKEN_REUSED = 'token_reused';
+export const LOGIN_FAILURE_IDENTITY_REJECTED = 'identity_rejected';
+export const LOGIN_FAILURE_INVALID_SECOND_FACTOR = 'invalid_second_factor';
+export const LOGIN_FAILURE_PROVIDER_ERROR = 'provider_error';
+export const LOGIN_FAILURE_ACCOUNT_DELETION_DUE = 'account_deletion_due';
@@ -0,0 +1,7 @@
+export const MAGIC_LINK_TOKEN_TTL_MINUTES = 15;
+export const MAGIC_LINK_NONCE_COOKIE_NAME = 'magic_link_nonce';
+export const MAGIC_LINK_REQUEST_MESSAGE =
+  'If the email exists, a sign-in link has been sent.';
+export const MAGIC_LINK_INVALID_MESSAGE = 'Invalid or expired sign-in link';
+export const MAGIC_LINK_UNAVAILABLE_MESSAGE = 'Magic link sign-in is not available';
+export const MAGIC_LINK_LOGIN_SUCCESS_MESSAGE = 'Magic link login successful';
@@ -0,0 +1,6 @@
+export const MFA_RECOVERY_CODE_COUNT = 10;
+export const MFA_MAX_VERIFY_ATTEMPTS = 5;
+export const MFA_REQUIRED_MESSAGE = 'Multi-factor authentication required';
+export const MFA_INVALID_CODE_MESSAGE = 'Invalid authentication code';
+export const MFA_PENDING_INVALID_MESSAGE = 'No pending multi-factor authentication or it has expired';
+export const MFA_ORGANIZATION_REQUIRED_MESSAGE = 'This organization requires multi-factor authentication';
@@ -0,0 +1,18 @@
+export const GOOGLE_OIDC_PROVIDER_ID = 'google';
+export const OIDC_STATE_KEY_PREFIX = 'auth:oidc:state:';
+export const OIDC_METADATA_KEY_PREFIX = 'auth:oidc:metadata:';
+export const OIDC_JWKS_KEY_PREFIX = 'auth:oidc:jwks:';
+export const OIDC_JWKS_REFRESH_LOCK_KEY_PREFIX = 'auth:oidc:jwks-refresh:';
+export const OIDC_JWKS_REFRESH_COOLDOWN_SECONDS = 60;
+export const OIDC_STATE_COOKIE_NAME = 'oidc_state';
+export const OIDC_LOGIN_PATH = '/login';
+export const OIDC_PROVIDER_NOT_FOUND_MESSAGE = 'Identity provider not found';
+export const OIDC_PROVIDER_UNAVAILABLE_MESSAGE = 'Identity provider is unavailable';
+export const OIDC_REDIRECT_FLOW_DISABLED_MESSAGE = 'Redirect sign-in is not enabled for this identity provider';
+export const OIDC_STATE_INVALID_MESSAGE = 'Sign-in request is invalid or has expired';
+export const OIDC_AUTHENTICATION_FAILED_MESSAGE = 'Identity provider authentication failed';
+export const OIDC_EMAIL_MISSING_MESSAGE = 'Identity provider did not return an email address';
+export const OIDC_EMAIL_CONFLICT_MESSAGE =
+  'An account with this email already exists. Sign in and link this provider from your account';
+export const OIDC_IDENTITY_CONFLICT_MESSAGE = 'Identity provider account is already linked to another user';
+export const OIDC_LOGIN_SUCCESS_MESSAGE = 'Login successful';
@@ -0,0 +1,6 @@
+export const PASSWORD_CHANGED_MESSAGE = 'Password changed successfully';
+export const PASSWORD_SET_MESSAGE = 'Password set successfully';
+export const PASSWORD_NOT_SET_MESSAGE = 'This account has no password yet. Set one first';
+export const PASSWORD_ALREADY_SET_MESSAGE = 'This account already has a password. Change it instead';
+export const PASSWORD_REUSED_MESSAGE = 'Choose a password you have not used recently';
+export const PASSWORD_POLICY_RETRIEVED_MESSAGE = 'Password policy retrieved successfully';
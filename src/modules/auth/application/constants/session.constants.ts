@@ -0,0 +1,5 @@
+export const SESSIONS_RETRIEVED_MESSAGE = 'Sessions retrieved successfully';
+export const SESSION_REVOKED_MESSAGE = 'Session revoked successfully';
+export const OTHER_SESSIONS_REVOKED_MESSAGE = 'Other sessions revoked successfully';
+export const SESSION_NOT_FOUND_MESSAGE = 'Session not found';
+export const SESSION_REVOKE_CURRENT_MESSAGE = 'Use logout to end the current session';
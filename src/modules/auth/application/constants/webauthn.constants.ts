@@ -0,0 +1,4 @@
+export const WEBAUTHN_CHALLENGE_KEY_PREFIX = 'webauthn:challenge:';
+export const WEBAUTHN_DEFAULT_CREDENTIAL_NAME = 'Passkey';
+export const WEBAUTHN_CHALLENGE_INVALID_MESSAGE = 'Passkey challenge is invalid or has expired';
+export const PASSKEY_AUTHENTICATION_FAILED_MESSAGE = 'Passkey authentication failed';
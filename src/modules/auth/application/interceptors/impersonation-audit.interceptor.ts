@@ -0,0 +1,51 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { Observable } from 'rxjs';
+import { getSessionFromRequest } from '@/shared/context/execution-context-session.util';
+import { ImpersonationAuditService } from '../services/impersonation-audit.service';
+
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Records every write request made while impersonating. The action is stored
+ * once the response is sent, so the status code includes handled errors.
+ */
+@Injectable()
+export class ImpersonationAuditInterceptor implements NestInterceptor {
+  constructor(private readonly impersonationAuditService: ImpersonationAuditService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType<'http' | 'ws' | 'rpc'>() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const impersonationId = getSessionFromRequest(request)?.impersonatorId
+      ? request.session.impersonation?.id
+      : undefined;
+
+    if (!impersonationId || READ_ONLY_METHODS.has(request.method)) {
+      return next.handle();
+    }
+
+    const reply = context.switchToHttp().getResponse<FastifyReply>();
+    // The query string may carry tokens, so only the path is stored.
+    const path = request.url.split('?')[0];
+
+    reply.raw.once('finish', () => {
+      void this.impersonationAuditService.recordAction(
+        impersonationId,
+        request.method,
+        path,
+        reply.raw.statusCode,
+      );
+    });
+
+    return next.handle();
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import type { User } from '@/modules/users/domain/entities/user.entity';
+import { TooManyRequestsException } from '@/shared/http/exceptions/too-many-requests.exception';
+import { CacheService } from '@/shared/infrastructure/cache';
+import {
+  ACCOUNT_LOCKED_MESSAGE,
+  ACCOUNT_LOCKOUT_FAILURES_KEY_PREFIX,
+  ACCOUNT_LOCKOUT_LOCK_KEY_PREFIX,
+} from '../constants/account-lockout.constants';
+
+/**
+ * Temporarily locks accounts after repeated failed passwords. Counters and
+ * locks live in Redis and expire on their own; admins can clear them early.
+ *
+ * Both are keyed by the normalized email rather than the user id, so unknown
+ * emails are counted and locked exactly like existing accounts and the login
+ * response does not reveal which emails are registered.
+ */
+@Injectable()
+export class AccountLockoutService {
+  private readonly logger = new Logger(AccountLockoutService.name);
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly emailQueueService: EmailQueueService,
+  ) { }
+
+  async isLocked(email: string): Promise<boolean> {
+    return (await this.cacheService.cache.ttl(this.getLockKey(email))) > 0;
+  }
+
+  async assertNotLocked(email: string): Promise<void> {
+    const remainingSeconds = await this.cacheService.cache.ttl(this.getLockKey(email));
+
+    if (remainingSeconds > 0) {
+      throw new TooManyRequestsException(ACCOUNT_LOCKED_MESSAGE, remainingSeconds);
+    }
+  }
+
+  /**
+   * Records a failed password for the email and locks it once the configured
+   * threshold is reached. Returns true when this failure locked the email.
+   * The locked account email only goes out when `user` exists.
+   */
+  async registerFailure(
+    email: string,
+    user: Pick<User, 'email' | 'name'> | null,
+  ): Promise<boolean> {
+    const { maxFailedAttempts, failureWindowSeconds, durationSeconds } = envConfig.auth.lockout;
+    const failuresKey = this.getFailuresKey(email);
+    const failures = await this.cacheService.cache.incr(failuresKey);
+
+    if (failures === 1) {
+      await this.cacheService.cache.expire(failuresKey, failureWindowSeconds);
+    }
+
+    if (failures < maxFailedAttempts) {
+      return false;
+    }
+
+    await this.cacheService.cache
+      .multi()
+      .set(this.getLockKey(email), '1', 'EX', durationSeconds)
+      .del(failuresKey)
+      .exec();
+
+    if (user) {
+      await this.enqueueLockedEmail(user, durationSeconds);
+    }
+
+    return true;
+  }
+
+  async reset(email: string): Promise<void> {
+    await this.cacheService.cache.del(this.getFailuresKey(email));
+  }
+
+  /**
+   * Clears the lock and the failure counter. Returns false when the account
+   * was not locked.
+   */
+  async unlock(email: string): Promise<boolean> {
+    const [lockDeleted] = await Promise.all([
+      this.cacheService.cache.del(this.getLockKey(email)),
+      this.reset(email),
+    ]);
+
+    return lockDeleted > 0;
+  }
+
+  private async enqueueLockedEmail(
+    user: Pick<User, 'email' | 'name'>,
+    durationSeconds: number,
+  ): Promise<void> {
+    const appUrl = envConfig.appUrl.replace(/\/$/, '');
+
+    try {
+      await this.emailQueueService.enqueueAccountLockedEmail({
+        email: user.email,
+        name: user.name,
+        lockedMinutes: Math.ceil(durationSeconds / 60),
+        resetUrl: `${appUrl}/forgot-password`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(`Failed to enqueue account locked email for ${user.email}: ${message}`, stack);
+    }
+  }
+
+  private getFailuresKey(email: string): string {
+    return `${ACCOUNT_LOCKOUT_FAILURES_KEY_PREFIX}${normalizeLockoutEmail(email)}`;
+  }
+
+  private getLockKey(email: string): string {
+    return `${ACCOUNT_LOCKOUT_LOCK_KEY_PREFIX}${normalizeLockoutEmail(email)}`;
+  }
+}
+
+function normalizeLockoutEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,19 @@
+import { UnauthorizedException } from '@nestjs/common';
+import type { AccessTokenService } from '@/shared/access-token/access-token.service';
+import type { IRefreshTokenRepository } from '../../domain/repositories/refresh-token.repository.interface';
+import { AuthTokensService } from './auth-tokens.service';
+
+jest.mock('@/config/env.config', () => ({ envConfig: {} }));
+
+describe('AuthTokensService', () => {
+  const refreshTokenRepository = { create: jest.fn() };
+  const service = new AuthTokensService(
+    {} as AccessTokenService,
+    refreshTokenRepository as unknown as IRefreshTokenRepository,
+  );
+
+  it('refuses to issue tokens for a session without a user', async () => {
+    await expect(service.issue({ authenticated: true })).rejects.toThrow(UnauthorizedException);
+    expect(refreshTokenRepository.create).not.toHaveBeenCalled();
+  });
+});
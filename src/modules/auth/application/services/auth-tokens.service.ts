@@ -0,0 +1,93 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { RefreshToken } from '@/modules/auth/domain/entities/refresh-token.entity';
+import {
+  type IRefreshTokenRepository,
+  REFRESH_TOKEN_REPOSITORY,
+} from '@/modules/auth/domain/repositories/refresh-token.repository.interface';
+import { AccessTokenService } from '@/shared/access-token/access-token.service';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import { AUTH_TOKEN_TYPE } from '../constants/auth-token.constants';
+import { generateRefreshToken } from '../utils/refresh-token.util';
+
+export interface AuthTokens {
+  tokenType: typeof AUTH_TOKEN_TYPE;
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  expiresIn: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+@Injectable()
+export class AuthTokensService {
+  constructor(
+    private readonly accessTokenService: AccessTokenService,
+    @Inject(REFRESH_TOKEN_REPOSITORY)
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+  ) { }
+
+  /**
+   * Starts a new refresh token family for an authenticated session.
+   */
+  async issue(session: AppSessionContext): Promise<AuthTokens> {
+    if (!session.userId) {
+      throw new UnauthorizedException('User not authenticated');
+    }
+
+    const { rawToken, tokenHash } = generateRefreshToken();
+    const refreshToken = await this.refreshTokenRepository.create({
+      userId: session.userId,
+      tokenHash,
+      currentOrganizationId: session.currentOrganizationId ?? null,
+      mfaVerified: session.mfaVerified ?? false,
+      expiresAt: this.getRefreshTokenExpiresAt(),
+    });
+
+    return this.buildTokens(session, rawToken, refreshToken);
+  }
+
+  /**
+   * Replaces the given refresh token with a new one of the same family.
+   * Returns null when the token was already rotated by a concurrent request.
+   */
+  async rotate(
+    current: RefreshToken,
+    session: AppSessionContext,
+  ): Promise<AuthTokens | null> {
+    const { rawToken, tokenHash } = generateRefreshToken();
+    const refreshToken = await this.refreshTokenRepository.rotate(
+      current,
+      {
+        tokenHash,
+        currentOrganizationId: session.currentOrganizationId ?? null,
+        mfaVerified: session.mfaVerified ?? false,
+        expiresAt: this.getRefreshTokenExpiresAt(),
+      },
+      new Date(),
+    );
+
+    return refreshToken ? this.buildTokens(session, rawToken, refreshToken) : null;
+  }
+
+  private buildTokens(
+    session: AppSessionContext,
+    rawRefreshToken: string,
+    refreshToken: RefreshToken,
+  ): AuthTokens {
+    const accessToken = this.accessTokenService.sign(session);
+
+    return {
+      tokenType: AUTH_TOKEN_TYPE,
+      accessToken: accessToken.token,
+      accessTokenExpiresAt: accessToken.expiresAt,
+      expiresIn: this.accessTokenService.ttlSeconds,
+      refreshToken: rawRefreshToken,
+      refreshTokenExpiresAt: refreshToken.expiresAt,
+    };
+  }
+
+  private getRefreshTokenExpiresAt(): Date {
+    return new Date(Date.now() + envConfig.auth.tokens.refreshTokenTtlSeconds * 1000);
+  }
+}
@@ -0,0 +1,81 @@
+import { ForbiddenException, Inject, Injectable, Logger } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import type { User } from '@/modules/users/domain/entities/user.entity';
+import {
+  EMAIL_NOT_VERIFIED_MESSAGE,
+  EMAIL_VERIFICATION_TOKEN_TTL_MINUTES,
+} from '../constants/email-verification.constants';
+import {
+  EMAIL_VERIFICATION_TOKEN_REPOSITORY,
+  type IEmailVerificationTokenRepository,
+} from '../../domain/repositories/email-verification-token.repository.interface';
+import { generateEmailVerificationToken } from '../utils/email-verification-token.util';
+
+type VerifiableUser = Pick<User, 'id' | 'email' | 'name' | 'emailVerifiedAt'>;
+
+/**
+ * Issues single-use verification links and enforces the configured
+ * email verification policy for login and organization creation.
+ */
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    @Inject(EMAIL_VERIFICATION_TOKEN_REPOSITORY)
+    private readonly emailVerificationTokenRepository: IEmailVerificationTokenRepository,
+    private readonly emailQueueService: EmailQueueService,
+  ) { }
+
+  isLoginBlocked(user: Pick<User, 'emailVerifiedAt'>): boolean {
+    return envConfig.auth.emailVerification.requiredForLogin && !user.emailVerifiedAt;
+  }
+
+  assertCanLogin(user: Pick<User, 'emailVerifiedAt'>): void {
+    if (this.isLoginBlocked(user)) {
+      throw new ForbiddenException(EMAIL_NOT_VERIFIED_MESSAGE);
+    }
+  }
+
+  assertCanCreateOrganization(user: Pick<User, 'emailVerifiedAt'>): void {
+    if (envConfig.auth.emailVerification.requiredForOrganizationCreation && !user.emailVerifiedAt) {
+      throw new ForbiddenException(EMAIL_NOT_VERIFIED_MESSAGE);
+    }
+  }
+
+  async send(user: VerifiableUser): Promise<void> {
+    if (user.emailVerifiedAt) {
+      return;
+    }
+
+    const { rawToken, tokenHash } = generateEmailVerificationToken();
+    const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await this.emailVerificationTokenRepository.deleteByUserId(user.id);
+    await this.emailVerificationTokenRepository.create({
+      userId: user.id,
+      tokenHash,
+      expiresAt,
+    });
+
+    try {
+      await this.emailQueueService.enqueueVerifyEmail({
+        email: user.email,
+        name: user.name,
+        verifyUrl: buildVerifyEmailUrl(rawToken),
+        expiresInMinutes: EMAIL_VERIFICATION_TOKEN_TTL_MINUTES,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(`Failed to enqueue verification email for ${user.email}: ${message}`, stack);
+    }
+  }
+}
+
+function buildVerifyEmailUrl(token: string): string {
+  const appUrl = envConfig.appUrl.replace(/\/$/, '');
+  return `${appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+}
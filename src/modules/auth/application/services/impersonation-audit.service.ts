@@ -0,0 +1,52 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { ImpersonationEndReason } from '../../domain/entities/impersonation-session.entity';
+import {
+  IMPERSONATION_SESSION_REPOSITORY,
+  type IImpersonationSessionRepository,
+} from '../../domain/repositories/impersonation-session.repository.interface';
+
+/**
+ * Audit trail of impersonations: when they end and which write requests the
+ * impersonator made on behalf of the user.
+ */
+@Injectable()
+export class ImpersonationAuditService {
+  private readonly logger = new Logger(ImpersonationAuditService.name);
+
+  constructor(
+    @Inject(IMPERSONATION_SESSION_REPOSITORY)
+    private readonly impersonationSessionRepository: IImpersonationSessionRepository,
+  ) { }
+
+  end(impersonationId: string, reason: ImpersonationEndReason): Promise<boolean> {
+    return this.impersonationSessionRepository.end(impersonationId, reason, new Date());
+  }
+
+  /**
+   * Stores an action without failing the request it describes; audit write
+   * errors are only logged.
+   */
+  async recordAction(
+    impersonationId: string,
+    method: string,
+    path: string,
+    statusCode: number,
+  ): Promise<void> {
+    try {
+      await this.impersonationSessionRepository.recordAction({
+        impersonationSessionId: impersonationId,
+        method,
+        path,
+        statusCode,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(
+        `Failed to record impersonation action ${method} ${path} for ${impersonationId}: ${message}`,
+        stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import type { User } from '@/modules/users/domain/entities/user.entity';
+import { describeUserAgent } from '@/shared/session-registry/session-registry.util';
+import type { LoginMethod, LoginOutcome } from '../../domain/entities/login-event.entity';
+import {
+  LOGIN_EVENT_REPOSITORY,
+  type ILoginEventRepository,
+} from '../../domain/repositories/login-event.repository.interface';
+import { computeDeviceFingerprint, truncateUserAgent } from '../utils/login-device.util';
+
+export interface LoginClientContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface RecordLoginAttemptInput {
+  method: LoginMethod;
+  outcome: LoginOutcome;
+  client: LoginClientContext;
+  user?: Pick<User, 'id' | 'email' | 'name'> | null;
+  /**
+   * Owner of the attempt when only the id is known, such as the user of a
+   * rejected refresh token.
+   */
+  userId?: string | null;
+  /**
+   * Identifier the attempt was made with when no user matched it.
+   */
+  email?: string | null;
+  failureReason?: string;
+}
+
+/**
+ * Login history of every account and the "new sign-in" notification sent
+ * when a successful login comes from a device the user never signed in from.
+ */
+@Injectable()
+export class LoginHistoryService {
+  private readonly logger = new Logger(LoginHistoryService.name);
+
+  constructor(
+    @Inject(LOGIN_EVENT_REPOSITORY)
+    private readonly loginEventRepository: ILoginEventRepository,
+    private readonly emailQueueService: EmailQueueService,
+  ) { }
+
+  /**
+   * Stores an attempt without failing the login it describes; history and
+   * notification errors are only logged.
+   */
+  async record(input: RecordLoginAttemptInput): Promise<void> {
+    const userAgent = truncateUserAgent(input.client.userAgent);
+    const deviceFingerprint = computeDeviceFingerprint(userAgent);
+
+    try {
+      const isNewDevice = input.outcome === 'success' && input.user
+        ? await this.isNewDevice(input.user.id, deviceFingerprint)
+        : false;
+      const event = await this.loginEventRepository.create({
+        userId: input.user?.id ?? input.userId ?? null,
+        email: input.user?.email ?? input.email ?? null,
+        method: input.method,
+        outcome: input.outcome,
+        failureReason: input.failureReason ?? null,
+        ip: input.client.ip ?? null,
+        userAgent,
+        deviceFingerprint,
+      });
+
+      if (isNewDevice && input.user) {
+        await this.emailQueueService.enqueueNewDeviceLoginEmail({
+          email: input.user.email,
+          name: input.user.name,
+          signedInAt: event.createdAt,
+          method: input.method,
+          ip: event.ip,
+          userAgent: userAgent ? `${describeUserAgent(userAgent)} (${userAgent})` : null,
+          resetUrl: `${envConfig.appUrl.replace(/\/$/, '')}/forgot-password`,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(
+        `Failed to record ${input.outcome} ${input.method} login for ${input.user?.id ?? input.userId ?? input.email ?? 'unknown user'}: ${message}`,
+        stack,
+      );
+    }
+  }
+
+  // The very first login of an account is not a "new" device.
+  private async isNewDevice(userId: string, deviceFingerprint: string | null): Promise<boolean> {
+    if (!deviceFingerprint || !(await this.loginEventRepository.hasSuccessfulLogin(userId))) {
+      return false;
+    }
+
+    return !(await this.loginEventRepository.hasSuccessfulLogin(userId, deviceFingerprint));
+  }
+}
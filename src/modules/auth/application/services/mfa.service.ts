@@ -0,0 +1,69 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  type IUserMfaRepository,
+  USER_MFA_REPOSITORY,
+} from '@/modules/auth/domain/repositories/user-mfa.repository.interface';
+import { decryptMfaSecret, encryptMfaSecret } from '../utils/mfa-secret-cipher.util';
+import { hashRecoveryCode } from '../utils/recovery-code.util';
+import { verifyTotpCode } from '../utils/totp.util';
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+@Injectable()
+export class MfaService {
+  constructor(
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+  ) { }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const factor = await this.userMfaRepository.findTotpFactor(userId);
+
+    return Boolean(factor?.confirmedAt);
+  }
+
+  /**
+   * Checks a TOTP code (rejecting replays of an already used time step) or
+   * consumes a one-time recovery code.
+   */
+  async verifySecondFactor(userId: string, input: SecondFactorInput): Promise<boolean> {
+    const factor = await this.userMfaRepository.findTotpFactor(userId);
+
+    if (!factor?.confirmedAt) {
+      return false;
+    }
+
+    if (input.code) {
+      const step = verifyTotpCode(this.decryptSecret(factor.encryptedSecret), input.code);
+
+      if (step === null || step <= (factor.lastUsedStep ?? -1)) {
+        return false;
+      }
+
+      await this.userMfaRepository.updateLastUsedStep(userId, step);
+      return true;
+    }
+
+    if (input.recoveryCode) {
+      return this.userMfaRepository.consumeRecoveryCode(
+        userId,
+        hashRecoveryCode(input.recoveryCode),
+        new Date(),
+      );
+    }
+
+    return false;
+  }
+
+  encryptSecret(secret: string): string {
+    return encryptMfaSecret(secret, envConfig.auth.mfa.encryptionKey);
+  }
+
+  decryptSecret(encryptedSecret: string): string {
+    return decryptMfaSecret(encryptedSecret, envConfig.auth.mfa.encryptionKey);
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { envConfig, type OidcProviderConfig } from '@/config/env.config';
+import { CacheService } from '@/shared/infrastructure/cache';
+import {
+  OIDC_JWKS_KEY_PREFIX,
+  OIDC_JWKS_REFRESH_COOLDOWN_SECONDS,
+  OIDC_JWKS_REFRESH_LOCK_KEY_PREFIX,
+  OIDC_METADATA_KEY_PREFIX,
+  OIDC_PROVIDER_NOT_FOUND_MESSAGE,
+  OIDC_PROVIDER_UNAVAILABLE_MESSAGE,
+} from '../constants/oidc.constants';
+import type { OidcJwk } from '../utils/oidc.util';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+/**
+ * Resolves configured OpenID Connect providers and caches their discovery
+ * documents and signing keys in Redis, so ID tokens are validated locally.
+ */
+@Injectable()
+export class OidcProviderRegistry {
+  constructor(private readonly cacheService: CacheService) { }
+
+  list(): OidcProviderConfig[] {
+    return envConfig.auth.oidc.providers;
+  }
+
+  find(providerId: string): OidcProviderConfig | undefined {
+    return this.list().find((item) => item.id === providerId);
+  }
+
+  get(providerId: string): OidcProviderConfig {
+    const provider = this.find(providerId);
+
+    if (!provider) {
+      throw new NotFoundException(OIDC_PROVIDER_NOT_FOUND_MESSAGE);
+    }
+
+    return provider;
+  }
+
+  async getMetadata(provider: OidcProviderConfig): Promise<OidcProviderMetadata> {
+    const cacheKey = `${OIDC_METADATA_KEY_PREFIX}${provider.id}`;
+    const cached = await this.cacheService.cache.get(cacheKey);
+
+    if (cached) {
+      return JSON.parse(cached) as OidcProviderMetadata;
+    }
+
+    const metadata = await this.fetchJson<OidcProviderMetadata>(
+      `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    );
+
+    if (
+      !metadata.issuer ||
+      !metadata.jwks_uri ||
+      metadata.issuer.replace(/\/$/, '') !== provider.issuer.replace(/\/$/, '')
+    ) {
+      throw new ServiceUnavailableException(OIDC_PROVIDER_UNAVAILABLE_MESSAGE);
+    }
+
+    await this.cacheService.cache.set(
+      cacheKey,
+      JSON.stringify(metadata),
+      'EX',
+      envConfig.auth.oidc.metadataCacheTtlSeconds,
+    );
+
+    return metadata;
+  }
+
+  /**
+   * Returns the cached JWKS. `forceRefresh` refetches it (at most once per
+   * cooldown) so rotated keys are picked up without waiting for the TTL.
+   */
+  async getSigningKeys(
+    provider: OidcProviderConfig,
+    options: { forceRefresh?: boolean } = {},
+  ): Promise<OidcJwk[]> {
+    const cacheKey = `${OIDC_JWKS_KEY_PREFIX}${provider.id}`;
+
+    if (!options.forceRefresh) {
+      const cached = await this.cacheService.cache.get(cacheKey);
+
+      if (cached) {
+        return JSON.parse(cached) as OidcJwk[];
+      }
+    } else {
+      const acquired = await this.cacheService.cache.set(
+        `${OIDC_JWKS_REFRESH_LOCK_KEY_PREFIX}${provider.id}`,
+        '1',
+        'EX',
+        OIDC_JWKS_REFRESH_COOLDOWN_SECONDS,
+        'NX',
+      );
+
+      if (acquired === null) {
+        return [];
+      }
+    }
+
+    const metadata = await this.getMetadata(provider);
+    const jwks = await this.fetchJson<{ keys?: OidcJwk[] }>(metadata.jwks_uri);
+    const keys = Array.isArray(jwks.keys) ? jwks.keys : [];
+
+    await this.cacheService.cache.set(
+      cacheKey,
+      JSON.stringify(keys),
+      'EX',
+      envConfig.auth.oidc.metadataCacheTtlSeconds,
+    );
+
+    return keys;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Unexpected status ${response.status}`);
+      }
+
+      return (await response.json()) as T;
+    } catch {
+      throw new ServiceUnavailableException(OIDC_PROVIDER_UNAVAILABLE_MESSAGE);
+    }
+  }
+}
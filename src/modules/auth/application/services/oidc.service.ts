@@ -0,0 +1,229 @@
+import {
+  Injectable,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { envConfig, type OidcProviderConfig } from '@/config/env.config';
+import { CacheService } from '@/shared/infrastructure/cache';
+import {
+  OIDC_AUTHENTICATION_FAILED_MESSAGE,
+  OIDC_PROVIDER_UNAVAILABLE_MESSAGE,
+  OIDC_REDIRECT_FLOW_DISABLED_MESSAGE,
+  OIDC_STATE_KEY_PREFIX,
+} from '../constants/oidc.constants';
+import {
+  assertOidcIdTokenClaims,
+  computePkceChallenge,
+  decodeOidcJwt,
+  generateOidcSecret,
+  isOidcEmailVerified,
+  OidcTokenError,
+  selectOidcJwk,
+  verifyOidcJwtSignature,
+} from '../utils/oidc.util';
+import { OidcProviderRegistry } from './oidc-provider-registry.service';
+
+export interface OidcIdentity {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+export interface OidcAuthorizationState {
+  providerId: string;
+  codeVerifier: string;
+  nonce: string;
+  returnTo?: string;
+}
+
+interface OidcTokenResponse {
+  id_token?: string;
+}
+
+/**
+ * Runs the authorization code + PKCE flow against a configured provider and
+ * validates ID tokens locally against the provider JWKS.
+ */
+@Injectable()
+export class OidcService {
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly oidcProviderRegistry: OidcProviderRegistry,
+  ) { }
+
+  async createAuthorizationUrl(
+    providerId: string,
+    returnTo?: string,
+  ): Promise<{ authorizationUrl: string; state: string }> {
+    const provider = this.getRedirectProvider(providerId);
+    const metadata = await this.oidcProviderRegistry.getMetadata(provider);
+
+    if (!metadata.authorization_endpoint) {
+      throw new ServiceUnavailableException(OIDC_PROVIDER_UNAVAILABLE_MESSAGE);
+    }
+
+    const state = generateOidcSecret();
+    const authorizationState: OidcAuthorizationState = {
+      providerId: provider.id,
+      codeVerifier: generateOidcSecret(),
+      nonce: generateOidcSecret(),
+      returnTo,
+    };
+
+    await this.cacheService.cache.set(
+      `${OIDC_STATE_KEY_PREFIX}${state}`,
+      JSON.stringify(authorizationState),
+      'EX',
+      envConfig.auth.oidc.stateTtlSeconds,
+    );
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.getRedirectUri(provider));
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', authorizationState.nonce);
+    url.searchParams.set('code_challenge', computePkceChallenge(authorizationState.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorizationUrl: url.toString(), state };
+  }
+
+  async consumeAuthorizationState(state: string): Promise<OidcAuthorizationState | null> {
+    const rawState = await this.cacheService.cache.getdel(`${OIDC_STATE_KEY_PREFIX}${state}`);
+
+    return rawState ? (JSON.parse(rawState) as OidcAuthorizationState) : null;
+  }
+
+  /**
+   * Exchanges the authorization code and returns the validated identity.
+   */
+  async completeAuthorization(
+    authorizationState: OidcAuthorizationState,
+    code: string,
+  ): Promise<OidcIdentity> {
+    const provider = this.getRedirectProvider(authorizationState.providerId);
+    const metadata = await this.oidcProviderRegistry.getMetadata(provider);
+
+    if (!metadata.token_endpoint) {
+      throw new ServiceUnavailableException(OIDC_PROVIDER_UNAVAILABLE_MESSAGE);
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(provider),
+      client_id: provider.clientId,
+      code_verifier: authorizationState.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+
+    if (provider.clientSecret) {
+      const authMethods = metadata.token_endpoint_auth_methods_supported;
+
+      if (authMethods && !authMethods.includes('client_secret_post')) {
+        const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      } else {
+        body.set('client_secret', provider.clientSecret);
+      }
+    }
+
+    let response: Response;
+
+    try {
+      response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers,
+        body,
+      });
+    } catch {
+      throw new ServiceUnavailableException(OIDC_PROVIDER_UNAVAILABLE_MESSAGE);
+    }
+
+    const tokens = (await response.json().catch(() => ({}))) as OidcTokenResponse;
+
+    if (!response.ok || !tokens.id_token) {
+      throw new UnauthorizedException(OIDC_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    return this.verifyIdToken(provider.id, tokens.id_token, authorizationState.nonce);
+  }
+
+  /**
+   * Validates signature and claims of an ID token issued by the provider.
+   * `nonce` is required for tokens obtained through the redirect flow.
+   */
+  async verifyIdToken(
+    providerId: string,
+    idToken: string,
+    nonce?: string,
+  ): Promise<OidcIdentity> {
+    const provider = this.oidcProviderRegistry.get(providerId);
+    const metadata = await this.oidcProviderRegistry.getMetadata(provider);
+
+    try {
+      const jwt = decodeOidcJwt(idToken);
+      let jwk = selectOidcJwk(
+        await this.oidcProviderRegistry.getSigningKeys(provider),
+        jwt.header,
+      );
+
+      if (!jwk) {
+        jwk = selectOidcJwk(
+          await this.oidcProviderRegistry.getSigningKeys(provider, { forceRefresh: true }),
+          jwt.header,
+        );
+      }
+
+      if (!jwk || !verifyOidcJwtSignature(jwt, jwk)) {
+        throw new OidcTokenError('Invalid ID token signature');
+      }
+
+      assertOidcIdTokenClaims(jwt.claims, {
+        issuers: [metadata.issuer, ...(provider.additionalIssuers ?? [])],
+        clientId: provider.clientId,
+        nonce,
+        now: new Date(),
+      });
+
+      const email = jwt.claims.email?.toLowerCase().trim() || null;
+
+      return {
+        provider: provider.id,
+        subject: jwt.claims.sub as string,
+        email,
+        emailVerified: email !== null && isOidcEmailVerified(jwt.claims),
+        name: jwt.claims.name?.trim() || null,
+        avatarUrl: jwt.claims.picture?.trim() || null,
+      };
+    } catch (error) {
+      if (error instanceof OidcTokenError) {
+        throw new UnauthorizedException(error.message);
+      }
+
+      throw error;
+    }
+  }
+
+  private getRedirectProvider(providerId: string): OidcProviderConfig {
+    const provider = this.oidcProviderRegistry.get(providerId);
+
+    if (!provider.redirectFlowEnabled) {
+      throw new ServiceUnavailableException(OIDC_REDIRECT_FLOW_DISABLED_MESSAGE);
+    }
+
+    return provider;
+  }
+
+  private getRedirectUri(provider: OidcProviderConfig): string {
+    return `${envConfig.apiUrl.replace(/\/$/, '')}/auth/oidc/${provider.id}/callback`;
+  }
+}
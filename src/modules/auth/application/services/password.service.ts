@@ -0,0 +1,126 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import type { User } from '@/modules/users/domain/entities/user.entity';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import { WsGateway } from '@/modules/ws/ws.gateway';
+import { PasswordPolicyService } from '@/shared/password-policy/password-policy.service';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import {
+  type IPasswordHistoryRepository,
+  PASSWORD_HISTORY_REPOSITORY,
+} from '../../domain/repositories/password-history.repository.interface';
+import {
+  type IRefreshTokenRepository,
+  REFRESH_TOKEN_REPOSITORY,
+} from '../../domain/repositories/refresh-token.repository.interface';
+import { PASSWORD_REUSED_MESSAGE } from '../constants/password.constants';
+
+export interface ApplyPasswordChangeOptions {
+  /** Session that stays signed in; every other session is revoked. */
+  currentSessionId?: string;
+}
+
+/**
+ * Writes new passwords: enforces the password policy, rejects reuse of the
+ * last passwords, keeps the history, signs out other sessions and notifies
+ * the account owner.
+ */
+@Injectable()
+export class PasswordService {
+  private readonly logger = new Logger(PasswordService.name);
+
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(PASSWORD_HISTORY_REPOSITORY)
+    private readonly passwordHistoryRepository: IPasswordHistoryRepository,
+    @Inject(REFRESH_TOKEN_REPOSITORY)
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+    private readonly sessionRegistryService: SessionRegistryService,
+    private readonly wsGateway: WsGateway,
+    private readonly emailQueueService: EmailQueueService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+  ) { }
+
+  async applyPasswordChange(
+    user: User,
+    password: string,
+    options: ApplyPasswordChangeOptions = {},
+  ): Promise<{ user: User; revokedSessions: number }> {
+    this.passwordPolicyService.assertValid(password, user);
+    await this.assertNotReused(user, password);
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const updatedUser = await this.userRepository.update(user.id, {
+      password: hashedPassword,
+      passwordChangedAt: new Date(),
+    });
+
+    if (!updatedUser) {
+      throw new BadRequestException('User not found');
+    }
+
+    const { historySize } = envConfig.auth.password;
+
+    if (historySize > 0) {
+      await this.passwordHistoryRepository.record(user.id, hashedPassword, historySize);
+    }
+
+    await this.refreshTokenRepository.revokeByUserId(user.id, new Date());
+
+    const revokedSessions = await this.sessionRegistryService.revokeAll(
+      user.id,
+      options.currentSessionId,
+    );
+    this.wsGateway.disconnectSessions(revokedSessions);
+
+    await this.enqueuePasswordChangedEmail(updatedUser);
+
+    return { user: updatedUser, revokedSessions: revokedSessions.length };
+  }
+
+  private async assertNotReused(user: User, password: string): Promise<void> {
+    const { historySize } = envConfig.auth.password;
+
+    if (historySize === 0) {
+      return;
+    }
+
+    // The current hash is checked too: accounts created before the history existed have no entries.
+    const previousHashes = new Set(
+      await this.passwordHistoryRepository.listRecentHashes(user.id, historySize),
+    );
+
+    if (user.password) {
+      previousHashes.add(user.password);
+    }
+
+    for (const previousHash of previousHashes) {
+      if (await bcrypt.compare(password, previousHash)) {
+        throw new BadRequestException(PASSWORD_REUSED_MESSAGE);
+      }
+    }
+  }
+
+  private async enqueuePasswordChangedEmail(user: Pick<User, 'email' | 'name'>): Promise<void> {
+    const appUrl = envConfig.appUrl.replace(/\/$/, '');
+
+    try {
+      await this.emailQueueService.enqueuePasswordChangedEmail({
+        email: user.email,
+        name: user.name,
+        resetUrl: `${appUrl}/forgot-password`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(`Failed to enqueue password changed email for ${user.email}: ${message}`, stack);
+    }
+  }
+}
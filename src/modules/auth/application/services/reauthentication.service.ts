@@ -0,0 +1,76 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import type { User } from '@/modules/users/domain/entities/user.entity';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  REAUTHENTICATION_FAILED_MESSAGE,
+  REAUTHENTICATION_REQUIRED_MESSAGE,
+} from '../constants/identity.constants';
+import { AccountLockoutService } from './account-lockout.service';
+import { MfaService } from './mfa.service';
+
+export interface ReauthenticationInput {
+  password?: string;
+  mfaCode?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Confirms that the person behind an authenticated session still knows a
+ * credential before sensitive account changes. Users with a password must
+ * present it; passwordless users present their second factor when enabled.
+ */
+@Injectable()
+export class ReauthenticationService {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly mfaService: MfaService,
+    private readonly accountLockoutService: AccountLockoutService,
+  ) { }
+
+  async assertReauthenticated(userId: string, input: ReauthenticationInput): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.password) {
+      if (!input.password) {
+        throw new BadRequestException(REAUTHENTICATION_REQUIRED_MESSAGE);
+      }
+
+      await this.accountLockoutService.assertNotLocked(user.email);
+
+      if (!(await bcrypt.compare(input.password, user.password))) {
+        await this.accountLockoutService.registerFailure(user.email, user);
+        throw new BadRequestException(REAUTHENTICATION_FAILED_MESSAGE);
+      }
+
+      await this.accountLockoutService.reset(user.email);
+
+      return user;
+    }
+
+    if (await this.mfaService.isEnabled(user.id)) {
+      if (!input.mfaCode && !input.recoveryCode) {
+        throw new BadRequestException(REAUTHENTICATION_REQUIRED_MESSAGE);
+      }
+
+      const isValid = await this.mfaService.verifySecondFactor(user.id, {
+        code: input.mfaCode,
+        recoveryCode: input.recoveryCode,
+      });
+
+      if (!isValid) {
+        throw new BadRequestException(REAUTHENTICATION_FAILED_MESSAGE);
+      }
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import type { User } from '@/modules/users/domain/entities/user.entity';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  USER_IDENTITY_REPOSITORY,
+  type IUserIdentityRepository,
+} from '../../domain/repositories/user-identity.repository.interface';
+import type { UserIdentity } from '../../domain/entities/user-identity.entity';
+import { IDENTITY_ALREADY_LINKED_MESSAGE } from '../constants/identity.constants';
+import {
+  OIDC_EMAIL_CONFLICT_MESSAGE,
+  OIDC_EMAIL_MISSING_MESSAGE,
+  OIDC_IDENTITY_CONFLICT_MESSAGE,
+} from '../constants/oidc.constants';
+import { EmailVerificationService } from './email-verification.service';
+import type { OidcIdentity } from './oidc.service';
+
+export type ResolvedIdentityOutcome = 'existing' | 'linked' | 'created';
+
+/**
+ * Maps a provider identity to a local user: signs in the linked user, links
+ * the identity to an account with the same verified email (when the auto-link
+ * policy allows it), or creates one.
+ */
+@Injectable()
+export class UserIdentityService {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(USER_IDENTITY_REPOSITORY)
+    private readonly userIdentityRepository: IUserIdentityRepository,
+    private readonly emailVerificationService: EmailVerificationService,
+  ) { }
+
+  async resolveUser(
+    identity: OidcIdentity,
+  ): Promise<{ user: User; outcome: ResolvedIdentityOutcome }> {
+    const now = new Date();
+    const existingIdentity = await this.userIdentityRepository.findByProviderSubject(
+      identity.provider,
+      identity.subject,
+    );
+
+    if (existingIdentity) {
+      const user = await this.userRepository.findById(existingIdentity.userId);
+
+      if (!user) {
+        throw new UnauthorizedException(OIDC_IDENTITY_CONFLICT_MESSAGE);
+      }
+
+      await this.userIdentityRepository.recordLogin(existingIdentity.id, identity.email, now);
+
+      return { user, outcome: 'existing' };
+    }
+
+    if (!identity.email) {
+      throw new UnauthorizedException(OIDC_EMAIL_MISSING_MESSAGE);
+    }
+
+    const existingEmailUser = await this.userRepository.findByEmail(identity.email);
+
+    if (existingEmailUser) {
+      // Only a provider-verified email proves ownership of the existing account.
+      if (envConfig.auth.oidc.autoLinkPolicy === 'never' || !identity.emailVerified) {
+        throw new ConflictException(OIDC_EMAIL_CONFLICT_MESSAGE);
+      }
+
+      await this.linkToUser(existingEmailUser.id, identity, now);
+
+      const linkedUser = await this.userRepository.update(existingEmailUser.id, {
+        avatarUrl: existingEmailUser.avatarUrl ?? identity.avatarUrl,
+        emailVerifiedAt: existingEmailUser.emailVerifiedAt ?? now,
+      });
+
+      return { user: linkedUser ?? existingEmailUser, outcome: 'linked' };
+    }
+
+    const createdUser = await this.userRepository.create({
+      email: identity.email,
+      name: identity.name || identity.email.split('@')[0] || identity.email,
+      password: null,
+      avatarUrl: identity.avatarUrl,
+      emailVerifiedAt: identity.emailVerified ? now : null,
+    });
+
+    await this.userIdentityRepository.create({
+      userId: createdUser.id,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      lastLoginAt: now,
+    });
+
+    await this.emailVerificationService.send(createdUser);
+
+    return { user: createdUser, outcome: 'created' };
+  }
+
+  /**
+   * Links a provider identity to an existing user. A user holds at most one
+   * identity per provider and an identity belongs to a single user.
+   */
+  async linkToUser(
+    userId: string,
+    identity: OidcIdentity,
+    lastLoginAt: Date | null = null,
+  ): Promise<UserIdentity> {
+    const existingIdentity = await this.userIdentityRepository.findByProviderSubject(
+      identity.provider,
+      identity.subject,
+    );
+
+    if (existingIdentity) {
+      throw new ConflictException(
+        existingIdentity.userId === userId
+          ? IDENTITY_ALREADY_LINKED_MESSAGE
+          : OIDC_IDENTITY_CONFLICT_MESSAGE,
+      );
+    }
+
+    const linkedIdentities = await this.userIdentityRepository.listForUser(userId);
+
+    if (linkedIdentities.some((linked) => linked.provider === identity.provider)) {
+      throw new ConflictException(IDENTITY_ALREADY_LINKED_MESSAGE);
+    }
+
+    return this.userIdentityRepository.create({
+      userId,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      lastLoginAt,
+    });
+  }
+}
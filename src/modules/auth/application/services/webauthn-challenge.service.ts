@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { envConfig } from '@/config/env.config';
+import { CacheService } from '@/shared/infrastructure/cache';
+import { WEBAUTHN_CHALLENGE_KEY_PREFIX } from '../constants/webauthn.constants';
+import { generateWebAuthnChallenge } from '../utils/webauthn.util';
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+export interface WebAuthnChallengeState {
+  ceremony: WebAuthnCeremony;
+  challenge: string;
+  userId?: string;
+}
+
+/**
+ * Keeps ceremony challenges in Redis so they can be consumed exactly once,
+ * regardless of whether the client uses a cookie session or bearer tokens.
+ */
+@Injectable()
+export class WebAuthnChallengeService {
+  constructor(private readonly cacheService: CacheService) { }
+
+  async create(
+    ceremony: WebAuthnCeremony,
+    userId?: string,
+  ): Promise<{ challengeId: string; challenge: string }> {
+    const challengeId = randomBytes(16).toString('base64url');
+    const state: WebAuthnChallengeState = {
+      ceremony,
+      challenge: generateWebAuthnChallenge(),
+      userId,
+    };
+
+    await this.cacheService.cache.set(
+      `${WEBAUTHN_CHALLENGE_KEY_PREFIX}${challengeId}`,
+      JSON.stringify(state),
+      'EX',
+      envConfig.auth.webauthn.challengeTtlSeconds,
+    );
+
+    return { challengeId, challenge: state.challenge };
+  }
+
+  async consume(
+    challengeId: string,
+    ceremony: WebAuthnCeremony,
+  ): Promise<WebAuthnChallengeState | null> {
+    const rawState = await this.cacheService.cache.getdel(
+      `${WEBAUTHN_CHALLENGE_KEY_PREFIX}${challengeId}`,
+    );
+
+    if (!rawState) {
+      return null;
+    }
+
+    const state = JSON.parse(rawState) as WebAuthnChallengeState;
+
+    return state.ceremony === ceremony ? state : null;
+  }
+}
@@ -0,0 +1,50 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  PASSWORD_CHANGED_MESSAGE,
+  PASSWORD_NOT_SET_MESSAGE,
+} from '../constants/password.constants';
+import { PasswordService } from '../services/password.service';
+import { ReauthenticationService } from '../services/reauthentication.service';
+
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+@Injectable()
+export class ChangePasswordUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly passwordService: PasswordService,
+  ) { }
+
+  async execute(userId: string, input: ChangePasswordInput, currentSessionId?: string) {
+    const existingUser = await this.userRepository.findById(userId);
+
+    if (!existingUser) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (!existingUser.password) {
+      throw new BadRequestException(PASSWORD_NOT_SET_MESSAGE);
+    }
+
+    const user = await this.reauthenticationService.assertReauthenticated(userId, {
+      password: input.currentPassword,
+    });
+    const result = await this.passwordService.applyPasswordChange(user, input.newPassword, {
+      currentSessionId,
+    });
+
+    return {
+      data: { revokedSessions: result.revokedSessions },
+      message: PASSWORD_CHANGED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { BadRequestException, ConflictException, Inject, Injectable } from '@nestjs/common';
+import {
+  type IUserMfaRepository,
+  USER_MFA_REPOSITORY,
+} from '../../domain/repositories/user-mfa.repository.interface';
+import { MFA_INVALID_CODE_MESSAGE, MFA_RECOVERY_CODE_COUNT } from '../constants/mfa.constants';
+import { MfaService } from '../services/mfa.service';
+import { generateRecoveryCodes } from '../utils/recovery-code.util';
+import { verifyTotpCode } from '../utils/totp.util';
+
+@Injectable()
+export class ConfirmTotpEnrollmentUseCase {
+  constructor(
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(userId: string, code: string) {
+    const factor = await this.userMfaRepository.findTotpFactor(userId);
+
+    if (!factor) {
+      throw new ConflictException('No TOTP enrollment in progress');
+    }
+
+    if (factor.confirmedAt) {
+      throw new ConflictException('Multi-factor authentication is already enabled');
+    }
+
+    const step = verifyTotpCode(this.mfaService.decryptSecret(factor.encryptedSecret), code);
+    if (step === null) {
+      throw new BadRequestException(MFA_INVALID_CODE_MESSAGE);
+    }
+
+    const { rawCodes, codeHashes } = generateRecoveryCodes(MFA_RECOVERY_CODE_COUNT);
+
+    await this.userMfaRepository.confirmTotpFactor(userId, step, new Date());
+    await this.userMfaRepository.replaceRecoveryCodes(userId, codeHashes);
+
+    return {
+      data: {
+        recoveryCodes: rawCodes,
+      },
+      message: 'Multi-factor authentication enabled. Store the recovery codes now; they will not be shown again.',
+    };
+  }
+}
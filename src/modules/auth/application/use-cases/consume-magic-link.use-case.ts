@@ -0,0 +1,64 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { PublicUser, toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { MAGIC_LINK_INVALID_MESSAGE, MAGIC_LINK_LOGIN_SUCCESS_MESSAGE } from '../constants/magic-link.constants';
+import {
+  MAGIC_LINK_TOKEN_REPOSITORY,
+  type IMagicLinkTokenRepository,
+} from '../../domain/repositories/magic-link-token.repository.interface';
+import { MfaService } from '../services/mfa.service';
+import { hashMagicLinkSecret } from '../utils/magic-link-token.util';
+
+export interface ConsumeMagicLinkInput {
+  token: string;
+  nonce?: string;
+}
+
+export interface ConsumeMagicLinkOutput {
+  user: PublicUser;
+  mfaRequired: boolean;
+  message: string;
+}
+
+@Injectable()
+export class ConsumeMagicLinkUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(MAGIC_LINK_TOKEN_REPOSITORY)
+    private readonly magicLinkTokenRepository: IMagicLinkTokenRepository,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(input: ConsumeMagicLinkInput): Promise<ConsumeMagicLinkOutput> {
+    if (!input.nonce) {
+      throw new UnauthorizedException(MAGIC_LINK_INVALID_MESSAGE);
+    }
+
+    const userId = await this.magicLinkTokenRepository.consume(
+      hashMagicLinkSecret(input.token),
+      hashMagicLinkSecret(input.nonce),
+      new Date(),
+    );
+
+    if (!userId) {
+      throw new UnauthorizedException(MAGIC_LINK_INVALID_MESSAGE);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException(MAGIC_LINK_INVALID_MESSAGE);
+    }
+
+    // Receiving the link proves ownership of the address.
+    const verifiedUser = user.emailVerifiedAt
+      ? user
+      : (await this.userRepository.update(user.id, { emailVerifiedAt: new Date() })) ?? user;
+
+    return {
+      user: toPublicUser(verifiedUser),
+      mfaRequired: await this.mfaService.isEnabled(user.id),
+      message: MAGIC_LINK_LOGIN_SUCCESS_MESSAGE,
+    };
+  }
+}
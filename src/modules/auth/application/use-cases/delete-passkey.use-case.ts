@@ -0,0 +1,25 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+
+@Injectable()
+export class DeletePasskeyUseCase {
+  constructor(
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+  ) { }
+
+  async execute(userId: string, id: string) {
+    const deleted = await this.webAuthnCredentialRepository.delete(id, userId);
+
+    if (!deleted) {
+      throw new NotFoundException('Passkey not found');
+    }
+
+    return {
+      message: 'Passkey removed successfully',
+    };
+  }
+}
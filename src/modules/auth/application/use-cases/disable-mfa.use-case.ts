@@ -0,0 +1,30 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  type IUserMfaRepository,
+  USER_MFA_REPOSITORY,
+} from '../../domain/repositories/user-mfa.repository.interface';
+import { MFA_INVALID_CODE_MESSAGE } from '../constants/mfa.constants';
+import { MfaService, type SecondFactorInput } from '../services/mfa.service';
+
+@Injectable()
+export class DisableMfaUseCase {
+  constructor(
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(userId: string, input: SecondFactorInput) {
+    const isValid = await this.mfaService.verifySecondFactor(userId, input);
+
+    if (!isValid) {
+      throw new BadRequestException(MFA_INVALID_CODE_MESSAGE);
+    }
+
+    await this.userMfaRepository.deleteMfa(userId);
+
+    return {
+      message: 'Multi-factor authentication disabled',
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Injectable } from '@nestjs/common';
+import type { ImpersonationEndReason } from '../../domain/entities/impersonation-session.entity';
+import { IMPERSONATION_ENDED_MESSAGE } from '../constants/impersonation.constants';
+import { ImpersonationAuditService } from '../services/impersonation-audit.service';
+
+@Injectable()
+export class EndImpersonationUseCase {
+  constructor(private readonly impersonationAuditService: ImpersonationAuditService) { }
+
+  async execute(impersonationId: string, reason: ImpersonationEndReason = 'stopped') {
+    await this.impersonationAuditService.end(impersonationId, reason);
+
+    return {
+      message: IMPERSONATION_ENDED_MESSAGE,
+    };
+  }
+}
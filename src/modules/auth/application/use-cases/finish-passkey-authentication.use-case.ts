@@ -0,0 +1,108 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+import {
+  PASSKEY_AUTHENTICATION_FAILED_MESSAGE,
+  WEBAUTHN_CHALLENGE_INVALID_MESSAGE,
+} from '../constants/webauthn.constants';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { WebAuthnChallengeService } from '../services/webauthn-challenge.service';
+import {
+  type AuthenticationCredentialJson,
+  verifyAuthenticationResponse,
+  WebAuthnVerificationError,
+} from '../utils/webauthn.util';
+
+export interface FinishPasskeyAuthenticationInput {
+  challengeId: string;
+  credential: AuthenticationCredentialJson;
+}
+
+@Injectable()
+export class FinishPasskeyAuthenticationUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+    private readonly webAuthnChallengeService: WebAuthnChallengeService,
+    private readonly emailVerificationService: EmailVerificationService,
+  ) { }
+
+  /**
+   * When `expectedUserId` is given the assertion is used as a second factor
+   * and must come from one of that user's passkeys.
+   */
+  async execute(input: FinishPasskeyAuthenticationInput, expectedUserId?: string) {
+    const state = await this.webAuthnChallengeService.consume(input.challengeId, 'authentication');
+
+    if (!state || state.userId !== expectedUserId) {
+      throw new UnauthorizedException(WEBAUTHN_CHALLENGE_INVALID_MESSAGE);
+    }
+
+    const credential = await this.webAuthnCredentialRepository.findByCredentialId(
+      input.credential.id,
+    );
+
+    if (!credential || (expectedUserId && credential.userId !== expectedUserId)) {
+      throw new UnauthorizedException(PASSKEY_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    const userHandle = input.credential.response.userHandle;
+    if (userHandle && Buffer.from(userHandle, 'base64url').toString('utf8') !== credential.userId) {
+      throw new UnauthorizedException(PASSKEY_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    const { webauthn } = envConfig.auth;
+    let verified: ReturnType<typeof verifyAuthenticationResponse>;
+
+    try {
+      verified = verifyAuthenticationResponse(
+        input.credential,
+        {
+          challenge: state.challenge,
+          origins: webauthn.origins,
+          rpId: webauthn.rpId,
+          requireUserVerification: !expectedUserId,
+        },
+        credential,
+      );
+    } catch (error) {
+      if (error instanceof WebAuthnVerificationError) {
+        throw new UnauthorizedException(PASSKEY_AUTHENTICATION_FAILED_MESSAGE);
+      }
+
+      throw error;
+    }
+
+    const recorded = await this.webAuthnCredentialRepository.recordUsage(
+      credential.id,
+      credential.signCount,
+      verified,
+      new Date(),
+    );
+
+    if (!recorded) {
+      throw new UnauthorizedException(PASSKEY_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    const user = await this.userRepository.findById(credential.userId);
+    if (!user) {
+      throw new UnauthorizedException(PASSKEY_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    if (!expectedUserId) {
+      this.emailVerificationService.assertCanLogin(user);
+    }
+
+    return {
+      user: toPublicUser(user),
+      message: 'Passkey authentication successful',
+    };
+  }
+}
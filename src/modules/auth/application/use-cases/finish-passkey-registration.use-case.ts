@@ -0,0 +1,83 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+import {
+  WEBAUTHN_CHALLENGE_INVALID_MESSAGE,
+  WEBAUTHN_DEFAULT_CREDENTIAL_NAME,
+} from '../constants/webauthn.constants';
+import { WebAuthnChallengeService } from '../services/webauthn-challenge.service';
+import {
+  type RegistrationCredentialJson,
+  verifyRegistrationResponse,
+  WebAuthnVerificationError,
+} from '../utils/webauthn.util';
+
+export interface FinishPasskeyRegistrationInput {
+  challengeId: string;
+  name?: string;
+  credential: RegistrationCredentialJson;
+}
+
+@Injectable()
+export class FinishPasskeyRegistrationUseCase {
+  constructor(
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+    private readonly webAuthnChallengeService: WebAuthnChallengeService,
+  ) { }
+
+  async execute(userId: string, input: FinishPasskeyRegistrationInput) {
+    const state = await this.webAuthnChallengeService.consume(input.challengeId, 'registration');
+
+    if (!state || state.userId !== userId) {
+      throw new BadRequestException(WEBAUTHN_CHALLENGE_INVALID_MESSAGE);
+    }
+
+    const { webauthn } = envConfig.auth;
+    let verified: ReturnType<typeof verifyRegistrationResponse>;
+
+    try {
+      verified = verifyRegistrationResponse(input.credential, {
+        challenge: state.challenge,
+        origins: webauthn.origins,
+        rpId: webauthn.rpId,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      if (error instanceof WebAuthnVerificationError) {
+        throw new BadRequestException(error.message);
+      }
+
+      throw error;
+    }
+
+    if (await this.webAuthnCredentialRepository.findByCredentialId(verified.credentialId)) {
+      throw new ConflictException('Passkey is already registered');
+    }
+
+    const credential = await this.webAuthnCredentialRepository.create({
+      userId,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      signCount: verified.signCount,
+      name: input.name ?? WEBAUTHN_DEFAULT_CREDENTIAL_NAME,
+      transports: input.credential.response.transports ?? null,
+      aaguid: verified.aaguid,
+      backupEligible: verified.backupEligible,
+      backedUp: verified.backedUp,
+    });
+
+    return {
+      data: credential,
+      message: 'Passkey registered successfully',
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  type IUserMfaRepository,
+  USER_MFA_REPOSITORY,
+} from '../../domain/repositories/user-mfa.repository.interface';
+
+@Injectable()
+export class GetMfaStatusUseCase {
+  constructor(
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+  ) { }
+
+  async execute(userId: string) {
+    const factor = await this.userMfaRepository.findTotpFactor(userId);
+    const enabled = Boolean(factor?.confirmedAt);
+
+    return {
+      data: {
+        enabled,
+        enrollmentPending: Boolean(factor && !factor.confirmedAt),
+        confirmedAt: factor?.confirmedAt ?? null,
+        recoveryCodesRemaining: enabled
+          ? await this.userMfaRepository.countUnusedRecoveryCodes(userId)
+          : 0,
+      },
+      message: 'MFA status retrieved successfully',
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { PasswordPolicyService } from '@/shared/password-policy/password-policy.service';
+import { PASSWORD_POLICY_RETRIEVED_MESSAGE } from '../constants/password.constants';
+
+@Injectable()
+export class GetPasswordPolicyUseCase {
+  constructor(private readonly passwordPolicyService: PasswordPolicyService) { }
+
+  execute() {
+    return {
+      data: this.passwordPolicyService.getPolicy(),
+      message: PASSWORD_POLICY_RETRIEVED_MESSAGE,
+    };
+  }
+}
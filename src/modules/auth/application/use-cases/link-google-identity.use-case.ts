@@ -0,0 +1,44 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { IDENTITY_LINKED_MESSAGE } from '../constants/identity.constants';
+import { GOOGLE_OIDC_PROVIDER_ID } from '../constants/oidc.constants';
+import { OidcProviderRegistry } from '../services/oidc-provider-registry.service';
+import { OidcService } from '../services/oidc.service';
+import {
+  ReauthenticationService,
+  type ReauthenticationInput,
+} from '../services/reauthentication.service';
+import { UserIdentityService } from '../services/user-identity.service';
+
+export interface LinkGoogleIdentityInput extends ReauthenticationInput {
+  idToken: string;
+}
+
+@Injectable()
+export class LinkGoogleIdentityUseCase {
+  constructor(
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly oidcService: OidcService,
+    private readonly oidcProviderRegistry: OidcProviderRegistry,
+    private readonly userIdentityService: UserIdentityService,
+  ) { }
+
+  async execute(userId: string, input: LinkGoogleIdentityInput) {
+    await this.reauthenticationService.assertReauthenticated(userId, input);
+
+    const identity = await this.oidcService.verifyIdToken(GOOGLE_OIDC_PROVIDER_ID, input.idToken);
+
+    if (!identity.emailVerified) {
+      throw new UnauthorizedException('Google account email is not verified');
+    }
+
+    const linkedIdentity = await this.userIdentityService.linkToUser(userId, identity);
+
+    return {
+      data: {
+        identity: linkedIdentity,
+        providerName: this.oidcProviderRegistry.get(GOOGLE_OIDC_PROVIDER_ID).name,
+      },
+      message: IDENTITY_LINKED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  USER_IDENTITY_REPOSITORY,
+  type IUserIdentityRepository,
+} from '../../domain/repositories/user-identity.repository.interface';
+import { IDENTITIES_RETRIEVED_MESSAGE } from '../constants/identity.constants';
+import { OidcProviderRegistry } from '../services/oidc-provider-registry.service';
+
+@Injectable()
+export class ListIdentitiesUseCase {
+  constructor(
+    @Inject(USER_IDENTITY_REPOSITORY)
+    private readonly userIdentityRepository: IUserIdentityRepository,
+    private readonly oidcProviderRegistry: OidcProviderRegistry,
+  ) { }
+
+  async execute(userId: string) {
+    const identities = await this.userIdentityRepository.listForUser(userId);
+
+    return {
+      data: identities.map((identity) => ({
+        identity,
+        // Identities of providers removed from the configuration stay listed so they can be unlinked.
+        providerName: this.oidcProviderRegistry.find(identity.provider)?.name ?? identity.provider,
+      })),
+      message: IDENTITIES_RETRIEVED_MESSAGE,
+    };
+  }
+}
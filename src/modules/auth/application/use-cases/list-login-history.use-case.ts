@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  LOGIN_EVENT_REPOSITORY,
+  type ILoginEventRepository,
+} from '../../domain/repositories/login-event.repository.interface';
+import { LOGIN_HISTORY_RETRIEVED_MESSAGE } from '../constants/login-history.constants';
+
+export interface ListLoginHistoryInput {
+  userId: string;
+  pageCount: number;
+  recordsPerPage: number;
+}
+
+@Injectable()
+export class ListLoginHistoryUseCase {
+  constructor(
+    @Inject(LOGIN_EVENT_REPOSITORY)
+    private readonly loginEventRepository: ILoginEventRepository,
+  ) { }
+
+  async execute(input: ListLoginHistoryInput) {
+    const result = await this.loginEventRepository.listForUser(input);
+
+    return {
+      data: result.data,
+      pageCount: input.pageCount,
+      recordsPerPage: input.recordsPerPage,
+      total: result.total,
+      message: LOGIN_HISTORY_RETRIEVED_MESSAGE,
+    };
+  }
+}
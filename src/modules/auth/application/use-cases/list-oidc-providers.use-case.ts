@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { OidcProviderRegistry } from '../services/oidc-provider-registry.service';
+
+@Injectable()
+export class ListOidcProvidersUseCase {
+  constructor(private readonly oidcProviderRegistry: OidcProviderRegistry) { }
+
+  execute() {
+    const providers = this.oidcProviderRegistry
+      .list()
+      .filter((provider) => provider.redirectFlowEnabled)
+      .map((provider) => ({ id: provider.id, name: provider.name }));
+
+    return {
+      data: providers,
+      message: 'Identity providers retrieved successfully',
+    };
+  }
+}
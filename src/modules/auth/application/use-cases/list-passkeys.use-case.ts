@@ -0,0 +1,20 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+
+@Injectable()
+export class ListPasskeysUseCase {
+  constructor(
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+  ) { }
+
+  async execute(userId: string) {
+    return {
+      data: await this.webAuthnCredentialRepository.listForUser(userId),
+      message: 'Passkeys retrieved successfully',
+    };
+  }
+}
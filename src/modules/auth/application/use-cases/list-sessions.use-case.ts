@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { SESSIONS_RETRIEVED_MESSAGE } from '../constants/session.constants';
+
+@Injectable()
+export class ListSessionsUseCase {
+  constructor(private readonly sessionRegistryService: SessionRegistryService) { }
+
+  async execute(userId: string, currentSessionId?: string) {
+    return {
+      data: await this.sessionRegistryService.list(userId, currentSessionId),
+      message: SESSIONS_RETRIEVED_MESSAGE,
+    };
+  }
+}
@@ -1,80 +1,95 @@
-import {
-  ConflictException,
-  Inject,
-  Injectable,
-  UnauthorizedException,
-} from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
-import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
-import { GoogleAuthService } from '../services/google-auth.service';
+import {
+  LOGIN_FAILURE_IDENTITY_REJECTED,
+  LOGIN_FAILURE_INVALID_TOKEN,
+} from '../constants/login-history.constants';
+import { GOOGLE_OIDC_PROVIDER_ID } from '../constants/oidc.constants';
+import { LoginHistoryService, type LoginClientContext } from '../services/login-history.service';
+import { MfaService } from '../services/mfa.service';
+import { OidcService, type OidcIdentity } from '../services/oidc.service';
+import {
+  UserIdentityService,
+  type ResolvedIdentityOutcome,
+} from '../services/user-identity.service';
 
 export interface LoginWithGoogleInput {
   idToken: string;
+  client: LoginClientContext;
 }
 
+const GOOGLE_LOGIN_MESSAGES: Record<ResolvedIdentityOutcome, string> = {
+  existing: 'Google login successful',
+  linked: 'Google account linked successfully',
+  created: 'Google account created successfully',
+};
+
 @Injectable()
 export class LoginWithGoogleUseCase {
   constructor(
-    @Inject(USER_REPOSITORY)
-    private readonly userRepository: IUserRepository,
-    private readonly googleAuthService: GoogleAuthService,
+    private readonly oidcService: OidcService,
+    private readonly userIdentityService: UserIdentityService,
+    private readonly mfaService: MfaService,
+    private readonly loginHistoryService: LoginHistoryService,
   ) {}
 
   async execute(input: LoginWithGoogleInput) {
-    const identity = await this.googleAuthService.verifyIdToken(input.idToken);
-
-    const existingGoogleUser = await this.userRepository.findByGoogleId(identity.googleId);
+    const identity = await this.verifyIdentity(input);
+    const { user, outcome } = await this.resolveUser(input, identity);
+    const mfaRequired = await this.mfaService.isEnabled(user.id);
 
-    if (existingGoogleUser) {
-      const updatedUser = await this.userRepository.update(existingGoogleUser.id, {
-        email: identity.email,
-        name: identity.name,
-        avatarUrl: identity.avatarUrl,
-      });
+    await this.loginHistoryService.record({
+      method: 'google',
+      outcome: mfaRequired ? 'mfa_required' : 'success',
+      client: input.client,
+      user,
+    });
 
-      return {
-        user: toPublicUser(updatedUser ?? existingGoogleUser),
-        message: 'Google login successful',
-      };
-    }
+    return {
+      user: toPublicUser(user),
+      message: GOOGLE_LOGIN_MESSAGES[outcome],
+      mfaRequired,
+    };
+  }
 
-    const existingEmailUser = await this.userRepository.findByEmail(identity.email);
+  private async verifyIdentity(input: LoginWithGoogleInput): Promise<OidcIdentity> {
+    let identity: OidcIdentity;
 
-    if (existingEmailUser) {
-      if (
-        existingEmailUser.googleId &&
-        existingEmailUser.googleId !== identity.googleId
-      ) {
-        throw new ConflictException('Google account is already linked to another user');
-      }
+    try {
+      identity = await this.oidcService.verifyIdToken(GOOGLE_OIDC_PROVIDER_ID, input.idToken);
+    } catch (error) {
+      await this.recordFailure(input, null, LOGIN_FAILURE_INVALID_TOKEN);
+      throw error;
+    }
 
-      const linkedUser = await this.userRepository.update(existingEmailUser.id, {
-        googleId: identity.googleId,
-        name: identity.name,
-        avatarUrl: identity.avatarUrl,
-      });
+    if (!identity.emailVerified) {
+      await this.recordFailure(input, identity.email, LOGIN_FAILURE_IDENTITY_REJECTED);
+      throw new UnauthorizedException('Google account email is not verified');
+    }
 
-      if (!linkedUser) {
-        throw new UnauthorizedException('Google authentication failed');
-      }
+    return identity;
+  }
 
-      return {
-        user: toPublicUser(linkedUser),
-        message: 'Google account linked successfully',
-      };
+  private async resolveUser(input: LoginWithGoogleInput, identity: OidcIdentity) {
+    try {
+      return await this.userIdentityService.resolveUser(identity);
+    } catch (error) {
+      await this.recordFailure(input, identity.email, LOGIN_FAILURE_IDENTITY_REJECTED);
+      throw error;
     }
+  }
 
-    const createdUser = await this.userRepository.create({
-      email: identity.email,
-      name: identity.name,
-      password: null,
-      googleId: identity.googleId,
-      avatarUrl: identity.avatarUrl,
+  private recordFailure(
+    input: LoginWithGoogleInput,
+    email: string | null | undefined,
+    failureReason: string,
+  ): Promise<void> {
+    return this.loginHistoryService.record({
+      method: 'google',
+      outcome: 'failure',
+      client: input.client,
+      email,
+      failureReason,
     });
-
-    return {
-      user: toPublicUser(createdUser),
-      message: 'Google account created successfully',
-    };
   }
 }
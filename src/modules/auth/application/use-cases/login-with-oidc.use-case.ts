@@ -0,0 +1,70 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import {
+  OIDC_AUTHENTICATION_FAILED_MESSAGE,
+  OIDC_LOGIN_SUCCESS_MESSAGE,
+  OIDC_STATE_INVALID_MESSAGE,
+} from '../constants/oidc.constants';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { MfaService } from '../services/mfa.service';
+import { OidcService } from '../services/oidc.service';
+import { UserIdentityService } from '../services/user-identity.service';
+
+export interface LoginWithOidcInput {
+  providerId: string;
+  code?: string;
+  state?: string;
+  /** State stored in the browser cookie when the flow started. */
+  browserState?: string;
+  providerError?: string;
+}
+
+@Injectable()
+export class LoginWithOidcUseCase {
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly userIdentityService: UserIdentityService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(input: LoginWithOidcInput) {
+    if (input.providerError) {
+      throw new UnauthorizedException(OIDC_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    if (!input.state || !input.browserState || !isSameState(input.state, input.browserState)) {
+      throw new UnauthorizedException(OIDC_STATE_INVALID_MESSAGE);
+    }
+
+    const authorizationState = await this.oidcService.consumeAuthorizationState(input.state);
+
+    if (!authorizationState || authorizationState.providerId !== input.providerId) {
+      throw new UnauthorizedException(OIDC_STATE_INVALID_MESSAGE);
+    }
+
+    if (!input.code) {
+      throw new UnauthorizedException(OIDC_AUTHENTICATION_FAILED_MESSAGE);
+    }
+
+    const identity = await this.oidcService.completeAuthorization(authorizationState, input.code);
+    const { user } = await this.userIdentityService.resolveUser(identity);
+
+    this.emailVerificationService.assertCanLogin(user);
+
+    return {
+      user: toPublicUser(user),
+      message: OIDC_LOGIN_SUCCESS_MESSAGE,
+      mfaRequired: await this.mfaService.isEnabled(user.id),
+      returnTo: authorizationState.returnTo,
+    };
+  }
+}
+
+function isSameState(left: string, right: string): boolean {
+  const leftBuffer = Buffer.from(left);
+  const rightBuffer = Buffer.from(right);
+
+  return leftBuffer.length === rightBuffer.length && timingSafeEqual(leftBuffer, rightBuffer);
+}
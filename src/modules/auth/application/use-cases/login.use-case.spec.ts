@@ -0,0 +1,88 @@
+import { UnauthorizedException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { User } from '@/modules/users/domain/entities/user.entity';
+import type { IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { TooManyRequestsException } from '@/shared/http/exceptions/too-many-requests.exception';
+import { LOGIN_FAILURE_INVALID_CREDENTIALS } from '../constants/login-history.constants';
+import type { AccountLockoutService } from '../services/account-lockout.service';
+import type { EmailVerificationService } from '../services/email-verification.service';
+import type { LoginHistoryService } from '../services/login-history.service';
+import type { MfaService } from '../services/mfa.service';
+import { LoginUseCase } from './login.use-case';
+
+describe('LoginUseCase', () => {
+  const client = { ip: '127.0.0.1', userAgent: 'jest' };
+  const users = new Map<string, User>();
+  const accountLockoutService = {
+    assertNotLocked: jest.fn(() => Promise.resolve()),
+    registerFailure: jest.fn(() => Promise.resolve(false)),
+    reset: jest.fn(() => Promise.resolve()),
+  };
+  const loginHistoryService = { record: jest.fn(() => Promise.resolve()) };
+  const useCase = new LoginUseCase(
+    { findByEmail: (email: string) => Promise.resolve(users.get(email) ?? null) } as unknown as IUserRepository,
+    { isEnabled: () => Promise.resolve(false) } as unknown as MfaService,
+    { assertCanLogin: jest.fn() } as unknown as EmailVerificationService,
+    accountLockoutService as unknown as AccountLockoutService,
+    loginHistoryService as unknown as LoginHistoryService,
+  );
+
+  beforeAll(async () => {
+    users.set('ana@example.com', new User({
+      id: '1',
+      email: 'ana@example.com',
+      name: 'Ana',
+      password: await bcrypt.hash('correct-password', 4),
+    }));
+    users.set('sso@example.com', new User({ id: '2', email: 'sso@example.com', name: 'Sso', password: null }));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([
+    ['an unknown email', 'nobody@example.com', null],
+    ['an account without a password', 'sso@example.com', '2'],
+    ['a wrong password', 'ana@example.com', '1'],
+  ])('counts a failure against the email for %s', async (_case, email, userId) => {
+    await expect(
+      useCase.execute({ email, password: 'wrong-password', client }),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(accountLockoutService.registerFailure).toHaveBeenCalledWith(
+      email,
+      userId ? expect.objectContaining({ id: userId }) : null,
+    );
+    expect(loginHistoryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'failure', email, failureReason: LOGIN_FAILURE_INVALID_CREDENTIALS }),
+    );
+  });
+
+  it('answers an unknown email that reached the threshold as locked', async () => {
+    accountLockoutService.registerFailure.mockResolvedValueOnce(true);
+
+    await expect(
+      useCase.execute({ email: 'nobody@example.com', password: 'wrong-password', client }),
+    ).rejects.toThrow(TooManyRequestsException);
+  });
+
+  it('checks the lock before looking at the password, even for unknown emails', async () => {
+    accountLockoutService.assertNotLocked.mockRejectedValueOnce(
+      new TooManyRequestsException('locked', 60),
+    );
+
+    await expect(
+      useCase.execute({ email: 'nobody@example.com', password: 'wrong-password', client }),
+    ).rejects.toThrow(TooManyRequestsException);
+    expect(accountLockoutService.assertNotLocked).toHaveBeenCalledWith('nobody@example.com');
+    expect(accountLockoutService.registerFailure).not.toHaveBeenCalled();
+  });
+
+  it('clears the failures of the email after a valid password', async () => {
+    await expect(
+      useCase.execute({ email: 'ana@example.com', password: 'correct-password', client }),
+    ).resolves.toMatchObject({ user: { id: '1' }, mfaRequired: false });
+    expect(accountLockoutService.reset).toHaveBeenCalledWith('ana@example.com');
+  });
+});
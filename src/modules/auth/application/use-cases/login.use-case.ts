@@ -1,15 +1,29 @@
 import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
-import { PublicUser, toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { envConfig } from '@/config/env.config';
+import { PublicUser, toPublicUser, type User } from '@/modules/users/domain/entities/user.entity';
 import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { TooManyRequestsException } from '@/shared/http/exceptions/too-many-requests.exception';
+import { ACCOUNT_LOCKED_MESSAGE } from '../constants/account-lockout.constants';
+import {
+  LOGIN_FAILURE_ACCOUNT_LOCKED,
+  LOGIN_FAILURE_EMAIL_UNVERIFIED,
+  LOGIN_FAILURE_INVALID_CREDENTIALS,
+} from '../constants/login-history.constants';
+import { AccountLockoutService } from '../services/account-lockout.service';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { LoginHistoryService, type LoginClientContext } from '../services/login-history.service';
+import { MfaService } from '../services/mfa.service';
 
 export interface LoginInput {
   email: string;
   password: string;
+  client: LoginClientContext;
 }
 
 export interface LoginOutput {
   user: PublicUser;
+  mfaRequired: boolean;
 }
 
 @Injectable()
@@ -17,27 +31,78 @@ export class LoginUseCase {
   constructor(
     @Inject(USER_REPOSITORY)
     private readonly userRepository: IUserRepository,
+    private readonly mfaService: MfaService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly accountLockoutService: AccountLockoutService,
+    private readonly loginHistoryService: LoginHistoryService,
   ) { }
 
+  /**
+   * The lock and the failure counter are keyed by the email, so unknown
+   * emails and accounts without a password go through the same checks and
+   * responses as a wrong password.
+   */
   async execute(input: LoginInput): Promise<LoginOutput> {
     const user = await this.userRepository.findByEmail(input.email);
 
-    if (!user) {
-      throw new UnauthorizedException('Invalid credentials');
+    try {
+      await this.accountLockoutService.assertNotLocked(input.email);
+    } catch (error) {
+      await this.recordFailure(input, user, LOGIN_FAILURE_ACCOUNT_LOCKED);
+      throw error;
     }
 
-    if (!user.password) {
-      throw new UnauthorizedException('Invalid credentials');
+    if (!user?.password || !(await bcrypt.compare(input.password, user.password))) {
+      return this.rejectInvalidCredentials(input, user);
     }
 
-    const isPasswordValid = await bcrypt.compare(input.password, user.password);
+    await this.accountLockoutService.reset(input.email);
 
-    if (!isPasswordValid) {
-      throw new UnauthorizedException('Invalid credentials');
+    try {
+      this.emailVerificationService.assertCanLogin(user);
+    } catch (error) {
+      await this.recordFailure(input, user, LOGIN_FAILURE_EMAIL_UNVERIFIED);
+      throw error;
     }
 
+    const mfaRequired = await this.mfaService.isEnabled(user.id);
+
+    await this.loginHistoryService.record({
+      method: 'password',
+      outcome: mfaRequired ? 'mfa_required' : 'success',
+      client: input.client,
+      user,
+    });
+
     return {
       user: toPublicUser(user),
+      mfaRequired,
     };
   }
+
+  private async rejectInvalidCredentials(input: LoginInput, user: User | null): Promise<never> {
+    const locked = await this.accountLockoutService.registerFailure(input.email, user);
+
+    await this.recordFailure(input, user, LOGIN_FAILURE_INVALID_CREDENTIALS);
+
+    if (locked) {
+      throw new TooManyRequestsException(
+        ACCOUNT_LOCKED_MESSAGE,
+        envConfig.auth.lockout.durationSeconds,
+      );
+    }
+
+    throw new UnauthorizedException('Invalid credentials');
+  }
+
+  private recordFailure(input: LoginInput, user: User | null, failureReason: string): Promise<void> {
+    return this.loginHistoryService.record({
+      method: 'password',
+      outcome: 'failure',
+      client: input.client,
+      user,
+      email: input.email,
+      failureReason,
+    });
+  }
 }
@@ -0,0 +1,118 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { RefreshToken } from '@/modules/auth/domain/entities/refresh-token.entity';
+import type { IRefreshTokenRepository } from '@/modules/auth/domain/repositories/refresh-token.repository.interface';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { User } from '@/modules/users/domain/entities/user.entity';
+import type { IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { TooManyRequestsException } from '@/shared/http/exceptions/too-many-requests.exception';
+import {
+  LOGIN_FAILURE_ACCOUNT_DELETION_DUE,
+  LOGIN_FAILURE_TOKEN_REUSED,
+} from '../constants/login-history.constants';
+import type { AccountLockoutService } from '../services/account-lockout.service';
+import type { AuthTokensService } from '../services/auth-tokens.service';
+import type { EmailVerificationService } from '../services/email-verification.service';
+import type { LoginHistoryService } from '../services/login-history.service';
+import { hashRefreshToken } from '../utils/refresh-token.util';
+import { RefreshAuthTokensUseCase } from './refresh-auth-tokens.use-case';
+
+describe('RefreshAuthTokensUseCase', () => {
+  const client = { ip: '127.0.0.1', userAgent: 'jest' };
+  const tokens = { accessToken: 'access', refreshToken: 'next-refresh' };
+  let storedToken: RefreshToken;
+  let user: User;
+  const refreshTokenRepository = {
+    findByTokenHash: jest.fn((tokenHash: string) =>
+      Promise.resolve(tokenHash === storedToken.tokenHash ? storedToken : null),
+    ),
+    revokeFamily: jest.fn(() => Promise.resolve()),
+  };
+  const authTokensService = { rotate: jest.fn(() => Promise.resolve(tokens)) };
+  const emailVerificationService = { assertCanLogin: jest.fn() };
+  const accountLockoutService = { assertNotLocked: jest.fn(() => Promise.resolve()) };
+  const loginHistoryService = { record: jest.fn(() => Promise.resolve()) };
+  const useCase = new RefreshAuthTokensUseCase(
+    refreshTokenRepository as unknown as IRefreshTokenRepository,
+    { findById: () => Promise.resolve(user) } as unknown as IUserRepository,
+    { findAccessibleByIdForUser: () => Promise.resolve(null) } as unknown as IOrganizationRepository,
+    authTokensService as unknown as AuthTokensService,
+    loginHistoryService as unknown as LoginHistoryService,
+    emailVerificationService as unknown as EmailVerificationService,
+    accountLockoutService as unknown as AccountLockoutService,
+  );
+  const refresh = () => useCase.execute({ refreshToken: 'refresh', client });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storedToken = new RefreshToken({
+      id: '1',
+      userId: '10',
+      familyId: 'family',
+      tokenHash: hashRefreshToken('refresh'),
+      mfaVerified: false,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    user = new User({ id: '10', email: 'ana@example.com', name: 'Ana', emailVerifiedAt: new Date() });
+  });
+
+  it('rotates a valid token', async () => {
+    await expect(refresh()).resolves.toMatchObject({ data: { tokens } });
+    expect(authTokensService.rotate).toHaveBeenCalledWith(
+      storedToken,
+      expect.objectContaining({ userId: '10', authenticated: true }),
+    );
+  });
+
+  it('revokes the whole family when a rotated token is presented again', async () => {
+    storedToken.revokedAt = new Date();
+
+    await expect(refresh()).rejects.toThrow(UnauthorizedException);
+    expect(refreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family', expect.any(Date));
+    expect(loginHistoryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'failure', failureReason: LOGIN_FAILURE_TOKEN_REUSED }),
+    );
+    expect(authTokensService.rotate).not.toHaveBeenCalled();
+  });
+
+  it('revokes the family when the token lost a concurrent rotation', async () => {
+    authTokensService.rotate.mockResolvedValueOnce(null as unknown as typeof tokens);
+
+    await expect(refresh()).rejects.toThrow(UnauthorizedException);
+    expect(refreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family', expect.any(Date));
+  });
+
+  it('revokes the family once the scheduled deletion is due', async () => {
+    user.deletionScheduledAt = new Date(Date.now() - 1000);
+
+    await expect(refresh()).rejects.toThrow(UnauthorizedException);
+    expect(refreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family', expect.any(Date));
+    expect(loginHistoryService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ failureReason: LOGIN_FAILURE_ACCOUNT_DELETION_DUE }),
+    );
+  });
+
+  it('keeps refreshing during the deletion grace period', async () => {
+    user.deletionScheduledAt = new Date(Date.now() + 86_400_000);
+
+    await expect(refresh()).resolves.toMatchObject({ data: { tokens } });
+  });
+
+  it('applies the email verification requirement', async () => {
+    emailVerificationService.assertCanLogin.mockImplementationOnce(() => {
+      throw new ForbiddenException('Email not verified');
+    });
+
+    await expect(refresh()).rejects.toThrow(ForbiddenException);
+    expect(authTokensService.rotate).not.toHaveBeenCalled();
+  });
+
+  it('refuses locked accounts', async () => {
+    accountLockoutService.assertNotLocked.mockRejectedValueOnce(
+      new TooManyRequestsException('locked', 60),
+    );
+
+    await expect(refresh()).rejects.toThrow(TooManyRequestsException);
+    expect(accountLockoutService.assertNotLocked).toHaveBeenCalledWith('ana@example.com');
+    expect(authTokensService.rotate).not.toHaveBeenCalled();
+  });
+});
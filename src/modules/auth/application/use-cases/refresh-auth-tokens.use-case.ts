@@ -0,0 +1,180 @@
+import { ConflictException, Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+  type OrganizationAccess,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  type IRefreshTokenRepository,
+  REFRESH_TOKEN_REPOSITORY,
+} from '../../domain/repositories/refresh-token.repository.interface';
+import { AUTH_TOKEN_REFRESHED_MESSAGE, REFRESH_TOKEN_INVALID_MESSAGE } from '../constants/auth-token.constants';
+import {
+  LOGIN_FAILURE_ACCOUNT_DELETION_DUE,
+  LOGIN_FAILURE_ACCOUNT_LOCKED,
+  LOGIN_FAILURE_EMAIL_UNVERIFIED,
+  LOGIN_FAILURE_INVALID_TOKEN,
+  LOGIN_FAILURE_TOKEN_REUSED,
+} from '../constants/login-history.constants';
+import { AccountLockoutService } from '../services/account-lockout.service';
+import { AuthTokensService } from '../services/auth-tokens.service';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { LoginHistoryService, type LoginClientContext } from '../services/login-history.service';
+import { hashRefreshToken } from '../utils/refresh-token.util';
+
+export interface RefreshAuthTokensInput {
+  refreshToken: string;
+  organizationId?: string;
+  client: LoginClientContext;
+}
+
+@Injectable()
+export class RefreshAuthTokensUseCase {
+  constructor(
+    @Inject(REFRESH_TOKEN_REPOSITORY)
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly authTokensService: AuthTokensService,
+    private readonly loginHistoryService: LoginHistoryService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly accountLockoutService: AccountLockoutService,
+  ) { }
+
+  async execute(input: RefreshAuthTokensInput) {
+    const now = new Date();
+    const currentToken = await this.refreshTokenRepository.findByTokenHash(
+      hashRefreshToken(input.refreshToken),
+    );
+
+    if (!currentToken || currentToken.expiresAt <= now) {
+      await this.recordFailure(input, LOGIN_FAILURE_INVALID_TOKEN, currentToken?.userId);
+      throw new UnauthorizedException(REFRESH_TOKEN_INVALID_MESSAGE);
+    }
+
+    // A revoked token being presented again means it leaked: kill the whole family.
+    if (currentToken.revokedAt) {
+      await this.refreshTokenRepository.revokeFamily(currentToken.familyId, now);
+      await this.recordFailure(input, LOGIN_FAILURE_TOKEN_REUSED, currentToken.userId);
+      throw new UnauthorizedException(REFRESH_TOKEN_INVALID_MESSAGE);
+    }
+
+    const user = await this.userRepository.findById(currentToken.userId);
+    if (!user) {
+      await this.refreshTokenRepository.revokeFamily(currentToken.familyId, now);
+      throw new UnauthorizedException(REFRESH_TOKEN_INVALID_MESSAGE);
+    }
+
+    // During the grace period the account stays usable so the deletion can be
+    // cancelled; once it is due, the family dies with the account.
+    if (user.deletionScheduledAt && user.deletionScheduledAt <= now) {
+      await this.refreshTokenRepository.revokeFamily(currentToken.familyId, now);
+      await this.recordFailure(input, LOGIN_FAILURE_ACCOUNT_DELETION_DUE, user.id);
+      throw new UnauthorizedException(REFRESH_TOKEN_INVALID_MESSAGE);
+    }
+
+    // The same checks as a password login, applied on every rotation.
+    try {
+      this.emailVerificationService.assertCanLogin(user);
+    } catch (error) {
+      await this.recordFailure(input, LOGIN_FAILURE_EMAIL_UNVERIFIED, user.id);
+      throw error;
+    }
+
+    try {
+      await this.accountLockoutService.assertNotLocked(user.email);
+    } catch (error) {
+      await this.recordFailure(input, LOGIN_FAILURE_ACCOUNT_LOCKED, user.id);
+      throw error;
+    }
+
+    const access = await this.resolveOrganizationAccess(
+      user.id,
+      input.organizationId,
+      currentToken.currentOrganizationId,
+    );
+
+    const tokens = await this.authTokensService.rotate(currentToken, {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      currentOrganizationId: access?.organization.id,
+      currentOrganizationName: access?.organization.name,
+      currentOrganizationRole: access?.role,
+      authenticated: true,
+      mfaVerified: currentToken.mfaVerified,
+    });
+
+    if (!tokens) {
+      await this.refreshTokenRepository.revokeFamily(currentToken.familyId, now);
+      await this.recordFailure(input, LOGIN_FAILURE_TOKEN_REUSED, user.id);
+      throw new UnauthorizedException(REFRESH_TOKEN_INVALID_MESSAGE);
+    }
+
+    await this.loginHistoryService.record({
+      method: 'refresh_token',
+      outcome: 'success',
+      client: input.client,
+      user,
+    });
+
+    return {
+      data: {
+        user: toPublicUser(user),
+        currentOrganization: access
+          ? {
+            id: access.organization.id,
+            name: access.organization.name,
+            role: access.role,
+          }
+          : null,
+        tokens,
+      },
+      message: AUTH_TOKEN_REFRESHED_MESSAGE,
+    };
+  }
+
+  private recordFailure(
+    input: RefreshAuthTokensInput,
+    failureReason: string,
+    userId?: string,
+  ): Promise<void> {
+    return this.loginHistoryService.record({
+      method: 'refresh_token',
+      outcome: 'failure',
+      client: input.client,
+      userId,
+      failureReason,
+    });
+  }
+
+  private async resolveOrganizationAccess(
+    userId: string,
+    requestedOrganizationId?: string,
+    storedOrganizationId?: string | null,
+  ): Promise<OrganizationAccess | null> {
+    if (requestedOrganizationId) {
+      const access = await this.organizationRepository.findAccessibleByIdForUser(
+        requestedOrganizationId,
+        userId,
+      );
+
+      if (!access) {
+        throw new ConflictException('Organization is not accessible');
+      }
+
+      return access;
+    }
+
+    if (!storedOrganizationId) {
+      return null;
+    }
+
+    // The stored organization may no longer be accessible; fall back to no selection.
+    return this.organizationRepository.findAccessibleByIdForUser(storedOrganizationId, userId);
+  }
+}
@@ -0,0 +1,35 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  type IUserMfaRepository,
+  USER_MFA_REPOSITORY,
+} from '../../domain/repositories/user-mfa.repository.interface';
+import { MFA_INVALID_CODE_MESSAGE, MFA_RECOVERY_CODE_COUNT } from '../constants/mfa.constants';
+import { MfaService } from '../services/mfa.service';
+import { generateRecoveryCodes } from '../utils/recovery-code.util';
+
+@Injectable()
+export class RegenerateRecoveryCodesUseCase {
+  constructor(
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(userId: string, code: string) {
+    const isValid = await this.mfaService.verifySecondFactor(userId, { code });
+
+    if (!isValid) {
+      throw new BadRequestException(MFA_INVALID_CODE_MESSAGE);
+    }
+
+    const { rawCodes, codeHashes } = generateRecoveryCodes(MFA_RECOVERY_CODE_COUNT);
+    await this.userMfaRepository.replaceRecoveryCodes(userId, codeHashes);
+
+    return {
+      data: {
+        recoveryCodes: rawCodes,
+      },
+      message: 'Recovery codes regenerated. Previous codes are no longer valid.',
+    };
+  }
+}
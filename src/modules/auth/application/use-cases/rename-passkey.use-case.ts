@@ -0,0 +1,26 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+
+@Injectable()
+export class RenamePasskeyUseCase {
+  constructor(
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+  ) { }
+
+  async execute(userId: string, id: string, name: string) {
+    const credential = await this.webAuthnCredentialRepository.rename(id, userId, name);
+
+    if (!credential) {
+      throw new NotFoundException('Passkey not found');
+    }
+
+    return {
+      data: credential,
+      message: 'Passkey renamed successfully',
+    };
+  }
+}
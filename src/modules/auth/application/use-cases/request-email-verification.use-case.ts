@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  EMAIL_VERIFICATION_REQUEST_MESSAGE,
+  EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS,
+} from '../constants/email-verification.constants';
+import {
+  EMAIL_VERIFICATION_TOKEN_REPOSITORY,
+  type IEmailVerificationTokenRepository,
+} from '../../domain/repositories/email-verification-token.repository.interface';
+import { EmailVerificationService } from '../services/email-verification.service';
+
+export interface RequestEmailVerificationInput {
+  email: string;
+}
+
+@Injectable()
+export class RequestEmailVerificationUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(EMAIL_VERIFICATION_TOKEN_REPOSITORY)
+    private readonly emailVerificationTokenRepository: IEmailVerificationTokenRepository,
+    private readonly emailVerificationService: EmailVerificationService,
+  ) { }
+
+  async execute(input: RequestEmailVerificationInput) {
+    const user = await this.userRepository.findByEmail(input.email);
+
+    if (!user || user.emailVerifiedAt) {
+      return {
+        message: EMAIL_VERIFICATION_REQUEST_MESSAGE,
+      };
+    }
+
+    // Throttled silently so the response does not reveal whether the account exists.
+    const latestToken = await this.emailVerificationTokenRepository.findLatestByUserId(user.id);
+    const resendAvailableAt = latestToken
+      ? latestToken.createdAt.getTime() + EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS * 1000
+      : 0;
+
+    if (resendAvailableAt <= Date.now()) {
+      await this.emailVerificationService.send(user);
+    }
+
+    return {
+      message: EMAIL_VERIFICATION_REQUEST_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Inject, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  MAGIC_LINK_REQUEST_MESSAGE,
+  MAGIC_LINK_TOKEN_TTL_MINUTES,
+  MAGIC_LINK_UNAVAILABLE_MESSAGE,
+} from '../constants/magic-link.constants';
+import {
+  MAGIC_LINK_TOKEN_REPOSITORY,
+  type IMagicLinkTokenRepository,
+} from '../../domain/repositories/magic-link-token.repository.interface';
+import { generateMagicLinkToken, hashMagicLinkSecret } from '../utils/magic-link-token.util';
+
+export interface RequestMagicLinkInput {
+  email: string;
+  nonce: string;
+}
+
+@Injectable()
+export class RequestMagicLinkUseCase {
+  private readonly logger = new Logger(RequestMagicLinkUseCase.name);
+
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(MAGIC_LINK_TOKEN_REPOSITORY)
+    private readonly magicLinkTokenRepository: IMagicLinkTokenRepository,
+    private readonly emailQueueService: EmailQueueService,
+  ) { }
+
+  async execute(input: RequestMagicLinkInput) {
+    if (!envConfig.email.enabled) {
+      throw new ServiceUnavailableException(MAGIC_LINK_UNAVAILABLE_MESSAGE);
+    }
+
+    const user = await this.userRepository.findByEmail(input.email);
+
+    if (!user) {
+      return {
+        message: MAGIC_LINK_REQUEST_MESSAGE,
+      };
+    }
+
+    const { rawToken, tokenHash } = generateMagicLinkToken();
+    const expiresAt = new Date(Date.now() + MAGIC_LINK_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await this.magicLinkTokenRepository.deleteByUserId(user.id);
+    await this.magicLinkTokenRepository.create({
+      userId: user.id,
+      tokenHash,
+      nonceHash: hashMagicLinkSecret(input.nonce),
+      expiresAt,
+    });
+
+    await this.enqueueMagicLinkEmail({
+      email: user.email,
+      name: user.name,
+      signInUrl: buildMagicLinkUrl(rawToken),
+      expiresInMinutes: MAGIC_LINK_TOKEN_TTL_MINUTES,
+    });
+
+    return {
+      message: MAGIC_LINK_REQUEST_MESSAGE,
+    };
+  }
+
+  private async enqueueMagicLinkEmail(input: {
+    email: string;
+    name: string;
+    signInUrl: string;
+    expiresInMinutes: number;
+  }): Promise<void> {
+    try {
+      await this.emailQueueService.enqueueMagicLinkEmail(input);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(`Failed to enqueue magic link email for ${input.email}: ${message}`, stack);
+    }
+  }
+}
+
+function buildMagicLinkUrl(token: string): string {
+  const appUrl = envConfig.appUrl.replace(/\/$/, '');
+  return `${appUrl}/magic-link?token=${encodeURIComponent(token)}`;
+}
@@ -1,9 +1,9 @@
 import { BadRequestException, Inject, Injectable } from '@nestjs/common';
-import * as bcrypt from 'bcrypt';
 import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
 import { hashPasswordResetToken } from '../utils/password-reset-token.util';
 import { type IPasswordResetTokenRepository, PASSWORD_RESET_TOKEN_REPOSITORY } from '../../domain/repositories/password-reset-token.repository.interface';
 import { PASSWORD_RESET_SUCCESS_MESSAGE, PASSWORD_RESET_TOKEN_INVALID_MESSAGE } from '../constants/password-reset.constants';
+import { PasswordService } from '../services/password.service';
 
 export interface ResetPasswordInput {
   token: string;
@@ -17,6 +17,7 @@ export class ResetPasswordUseCase {
     private readonly userRepository: IUserRepository,
     @Inject(PASSWORD_RESET_TOKEN_REPOSITORY)
     private readonly passwordResetTokenRepository: IPasswordResetTokenRepository,
+    private readonly passwordService: PasswordService,
   ) { }
 
   async execute(input: ResetPasswordInput) {
@@ -35,16 +36,7 @@ export class ResetPasswordUseCase {
       throw new BadRequestException(PASSWORD_RESET_TOKEN_INVALID_MESSAGE);
     }
 
-    const hashedPassword = await bcrypt.hash(input.password, 10);
-
-    const updatedUser = await this.userRepository.update(user.id, {
-      password: hashedPassword,
-    });
-
-    if (!updatedUser) {
-      throw new BadRequestException(PASSWORD_RESET_TOKEN_INVALID_MESSAGE);
-    }
-
+    await this.passwordService.applyPasswordChange(user, input.password);
     await this.passwordResetTokenRepository.deleteByUserId(user.id);
 
     return {
@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { WsGateway } from '@/modules/ws/ws.gateway';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { OTHER_SESSIONS_REVOKED_MESSAGE } from '../constants/session.constants';
+
+@Injectable()
+export class RevokeOtherSessionsUseCase {
+  constructor(
+    private readonly sessionRegistryService: SessionRegistryService,
+    private readonly wsGateway: WsGateway,
+  ) { }
+
+  async execute(userId: string, currentSessionId?: string) {
+    const revokedHandles = await this.sessionRegistryService.revokeAll(userId, currentSessionId);
+
+    this.wsGateway.disconnectSessions(revokedHandles);
+
+    return {
+      data: { revoked: revokedHandles.length },
+      message: OTHER_SESSIONS_REVOKED_MESSAGE,
+    };
+  }
+}
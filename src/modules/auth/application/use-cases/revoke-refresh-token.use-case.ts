@@ -0,0 +1,33 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  type IRefreshTokenRepository,
+  REFRESH_TOKEN_REPOSITORY,
+} from '../../domain/repositories/refresh-token.repository.interface';
+import { AUTH_TOKEN_REVOKED_MESSAGE } from '../constants/auth-token.constants';
+import { hashRefreshToken } from '../utils/refresh-token.util';
+
+export interface RevokeRefreshTokenInput {
+  refreshToken: string;
+}
+
+@Injectable()
+export class RevokeRefreshTokenUseCase {
+  constructor(
+    @Inject(REFRESH_TOKEN_REPOSITORY)
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+  ) { }
+
+  async execute(input: RevokeRefreshTokenInput) {
+    const refreshToken = await this.refreshTokenRepository.findByTokenHash(
+      hashRefreshToken(input.refreshToken),
+    );
+
+    if (refreshToken) {
+      await this.refreshTokenRepository.revokeFamily(refreshToken.familyId, new Date());
+    }
+
+    return {
+      message: AUTH_TOKEN_REVOKED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { WsGateway } from '@/modules/ws/ws.gateway';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { toSessionHandle } from '@/shared/session-registry/session-registry.util';
+import {
+  SESSION_NOT_FOUND_MESSAGE,
+  SESSION_REVOKE_CURRENT_MESSAGE,
+  SESSION_REVOKED_MESSAGE,
+} from '../constants/session.constants';
+
+@Injectable()
+export class RevokeSessionUseCase {
+  constructor(
+    private readonly sessionRegistryService: SessionRegistryService,
+    private readonly wsGateway: WsGateway,
+  ) { }
+
+  async execute(userId: string, sessionHandle: string, currentSessionId?: string) {
+    if (currentSessionId && toSessionHandle(currentSessionId) === sessionHandle) {
+      throw new BadRequestException(SESSION_REVOKE_CURRENT_MESSAGE);
+    }
+
+    const revoked = await this.sessionRegistryService.revoke(userId, sessionHandle);
+
+    if (!revoked) {
+      throw new NotFoundException(SESSION_NOT_FOUND_MESSAGE);
+    }
+
+    this.wsGateway.disconnectSessions([sessionHandle]);
+
+    return {
+      message: SESSION_REVOKED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  PASSWORD_ALREADY_SET_MESSAGE,
+  PASSWORD_SET_MESSAGE,
+} from '../constants/password.constants';
+import { PasswordService } from '../services/password.service';
+import { ReauthenticationService } from '../services/reauthentication.service';
+
+export interface SetPasswordInput {
+  password: string;
+  mfaCode?: string;
+  recoveryCode?: string;
+}
+
+@Injectable()
+export class SetPasswordUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly passwordService: PasswordService,
+  ) { }
+
+  async execute(userId: string, input: SetPasswordInput, currentSessionId?: string) {
+    const existingUser = await this.userRepository.findById(userId);
+
+    if (!existingUser) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (existingUser.password) {
+      throw new ConflictException(PASSWORD_ALREADY_SET_MESSAGE);
+    }
+
+    // Password-less accounts confirm with their second factor when MFA is enabled.
+    const user = await this.reauthenticationService.assertReauthenticated(userId, {
+      mfaCode: input.mfaCode,
+      recoveryCode: input.recoveryCode,
+    });
+    const result = await this.passwordService.applyPasswordChange(user, input.password, {
+      currentSessionId,
+    });
+
+    return {
+      data: { revokedSessions: result.revokedSessions },
+      message: PASSWORD_SET_MESSAGE,
+    };
+  }
+}
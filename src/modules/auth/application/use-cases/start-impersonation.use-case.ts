@@ -0,0 +1,87 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  IMPERSONATION_SESSION_REPOSITORY,
+  type IImpersonationSessionRepository,
+} from '../../domain/repositories/impersonation-session.repository.interface';
+import {
+  IMPERSONATION_OWNER_TARGET_MESSAGE,
+  IMPERSONATION_SELF_MESSAGE,
+  IMPERSONATION_STARTED_MESSAGE,
+  IMPERSONATION_TARGET_NOT_FOUND_MESSAGE,
+} from '../constants/impersonation.constants';
+
+export interface StartImpersonationInput {
+  impersonatorId: string;
+  organizationId: string;
+  targetUserId: string;
+  reason: string;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+@Injectable()
+export class StartImpersonationUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(IMPERSONATION_SESSION_REPOSITORY)
+    private readonly impersonationSessionRepository: IImpersonationSessionRepository,
+  ) { }
+
+  async execute(input: StartImpersonationInput) {
+    if (input.targetUserId === input.impersonatorId) {
+      throw new BadRequestException(IMPERSONATION_SELF_MESSAGE);
+    }
+
+    const [user, access] = await Promise.all([
+      this.userRepository.findById(input.targetUserId, input.organizationId),
+      this.organizationRepository.findAccessibleByIdForUser(
+        input.organizationId,
+        input.targetUserId,
+      ),
+    ]);
+
+    if (!user || !access) {
+      throw new NotFoundException(IMPERSONATION_TARGET_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role === 'owner') {
+      throw new ForbiddenException(IMPERSONATION_OWNER_TARGET_MESSAGE);
+    }
+
+    const impersonation = await this.impersonationSessionRepository.create({
+      impersonatorId: input.impersonatorId,
+      targetUserId: user.id,
+      organizationId: input.organizationId,
+      reason: input.reason,
+      ip: input.ip,
+      userAgent: input.userAgent,
+    });
+
+    return {
+      data: {
+        impersonation,
+        user: toPublicUser(user),
+        organization: access,
+      },
+      message: IMPERSONATION_STARTED_MESSAGE,
+    };
+  }
+}
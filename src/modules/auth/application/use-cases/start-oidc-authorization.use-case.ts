@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { OidcService } from '../services/oidc.service';
+
+export interface StartOidcAuthorizationInput {
+  providerId: string;
+  returnTo?: string;
+}
+
+@Injectable()
+export class StartOidcAuthorizationUseCase {
+  constructor(private readonly oidcService: OidcService) { }
+
+  execute(input: StartOidcAuthorizationInput) {
+    return this.oidcService.createAuthorizationUrl(input.providerId, input.returnTo);
+  }
+}
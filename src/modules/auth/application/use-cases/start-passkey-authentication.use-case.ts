@@ -0,0 +1,54 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+import { WebAuthnChallengeService } from '../services/webauthn-challenge.service';
+
+@Injectable()
+export class StartPasskeyAuthenticationUseCase {
+  constructor(
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+    private readonly webAuthnChallengeService: WebAuthnChallengeService,
+  ) { }
+
+  /**
+   * Without a user id the options allow any discoverable credential (primary
+   * login); with one they are restricted to that user's passkeys (second factor).
+   */
+  async execute(userId?: string) {
+    const { webauthn } = envConfig.auth;
+    const credentials = userId
+      ? await this.webAuthnCredentialRepository.listForUser(userId)
+      : [];
+
+    if (userId && credentials.length === 0) {
+      throw new BadRequestException('No passkeys registered for this user');
+    }
+
+    const { challengeId, challenge } = await this.webAuthnChallengeService.create(
+      'authentication',
+      userId,
+    );
+
+    return {
+      data: {
+        challengeId,
+        options: {
+          challenge,
+          rpId: webauthn.rpId,
+          timeout: webauthn.challengeTtlSeconds * 1000,
+          userVerification: userId ? ('preferred' as const) : ('required' as const),
+          allowCredentials: credentials.map((credential) => ({
+            type: 'public-key' as const,
+            id: credential.credentialId,
+            transports: credential.transports ?? undefined,
+          })),
+        },
+      },
+      message: 'Passkey authentication options generated',
+    };
+  }
+}
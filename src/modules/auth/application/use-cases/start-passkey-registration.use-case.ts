@@ -0,0 +1,66 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+import { WebAuthnChallengeService } from '../services/webauthn-challenge.service';
+import { WEBAUTHN_SUPPORTED_ALGORITHMS } from '../utils/webauthn.util';
+
+export interface StartPasskeyRegistrationInput {
+  userId: string;
+  email: string;
+  name?: string;
+}
+
+@Injectable()
+export class StartPasskeyRegistrationUseCase {
+  constructor(
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+    private readonly webAuthnChallengeService: WebAuthnChallengeService,
+  ) { }
+
+  async execute(input: StartPasskeyRegistrationInput) {
+    const { webauthn } = envConfig.auth;
+    const existingCredentials = await this.webAuthnCredentialRepository.listForUser(input.userId);
+    const { challengeId, challenge } = await this.webAuthnChallengeService.create(
+      'registration',
+      input.userId,
+    );
+
+    return {
+      data: {
+        challengeId,
+        options: {
+          challenge,
+          rp: {
+            id: webauthn.rpId,
+            name: webauthn.rpName,
+          },
+          user: {
+            id: Buffer.from(input.userId, 'utf8').toString('base64url'),
+            name: input.email,
+            displayName: input.name || input.email,
+          },
+          pubKeyCredParams: WEBAUTHN_SUPPORTED_ALGORITHMS.map((alg) => ({
+            type: 'public-key' as const,
+            alg,
+          })),
+          timeout: webauthn.challengeTtlSeconds * 1000,
+          attestation: 'none' as const,
+          authenticatorSelection: {
+            residentKey: 'required' as const,
+            userVerification: 'required' as const,
+          },
+          excludeCredentials: existingCredentials.map((credential) => ({
+            type: 'public-key' as const,
+            id: credential.credentialId,
+            transports: credential.transports ?? undefined,
+          })),
+        },
+      },
+      message: 'Passkey registration options generated',
+    };
+  }
+}
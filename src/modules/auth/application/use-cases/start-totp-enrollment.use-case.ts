@@ -0,0 +1,46 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  type IUserMfaRepository,
+  USER_MFA_REPOSITORY,
+} from '../../domain/repositories/user-mfa.repository.interface';
+import { MfaService } from '../services/mfa.service';
+import { buildTotpUri, generateTotpSecret } from '../utils/totp.util';
+
+export interface StartTotpEnrollmentInput {
+  userId: string;
+  email: string;
+}
+
+@Injectable()
+export class StartTotpEnrollmentUseCase {
+  constructor(
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(input: StartTotpEnrollmentInput) {
+    if (await this.mfaService.isEnabled(input.userId)) {
+      throw new ConflictException('Multi-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userMfaRepository.savePendingTotpFactor(
+      input.userId,
+      this.mfaService.encryptSecret(secret),
+    );
+
+    return {
+      data: {
+        secret,
+        otpauthUri: buildTotpUri({
+          secret,
+          accountName: input.email,
+          issuer: envConfig.auth.mfa.issuer,
+        }),
+      },
+      message: 'Scan the secret with an authenticator app and confirm with a code',
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  USER_IDENTITY_REPOSITORY,
+  type IUserIdentityRepository,
+} from '../../domain/repositories/user-identity.repository.interface';
+import {
+  type IWebAuthnCredentialRepository,
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+} from '../../domain/repositories/webauthn-credential.repository.interface';
+import {
+  IDENTITY_LAST_LOGIN_METHOD_MESSAGE,
+  IDENTITY_NOT_FOUND_MESSAGE,
+  IDENTITY_UNLINKED_MESSAGE,
+} from '../constants/identity.constants';
+
+@Injectable()
+export class UnlinkIdentityUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(USER_IDENTITY_REPOSITORY)
+    private readonly userIdentityRepository: IUserIdentityRepository,
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+  ) { }
+
+  async execute(userId: string, provider: string) {
+    const [user, identities, passkeys] = await Promise.all([
+      this.userRepository.findById(userId),
+      this.userIdentityRepository.listForUser(userId),
+      this.webAuthnCredentialRepository.listForUser(userId),
+    ]);
+
+    if (!user || !identities.some((identity) => identity.provider === provider)) {
+      throw new NotFoundException(IDENTITY_NOT_FOUND_MESSAGE);
+    }
+
+    const remainingLoginMethods =
+      (user.password ? 1 : 0) +
+      identities.filter((identity) => identity.provider !== provider).length +
+      passkeys.length;
+
+    if (remainingLoginMethods === 0) {
+      throw new ConflictException(IDENTITY_LAST_LOGIN_METHOD_MESSAGE);
+    }
+
+    if (!(await this.userIdentityRepository.delete(userId, provider))) {
+      throw new NotFoundException(IDENTITY_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: IDENTITY_UNLINKED_MESSAGE,
+    };
+  }
+}
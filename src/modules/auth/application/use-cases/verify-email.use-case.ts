@@ -0,0 +1,53 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  EMAIL_VERIFICATION_SUCCESS_MESSAGE,
+  EMAIL_VERIFICATION_TOKEN_INVALID_MESSAGE,
+} from '../constants/email-verification.constants';
+import {
+  EMAIL_VERIFICATION_TOKEN_REPOSITORY,
+  type IEmailVerificationTokenRepository,
+} from '../../domain/repositories/email-verification-token.repository.interface';
+import { hashEmailVerificationToken } from '../utils/email-verification-token.util';
+
+@Injectable()
+export class VerifyEmailUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(EMAIL_VERIFICATION_TOKEN_REPOSITORY)
+    private readonly emailVerificationTokenRepository: IEmailVerificationTokenRepository,
+  ) { }
+
+  async execute(token: string) {
+    const verificationToken = await this.emailVerificationTokenRepository.findValidByTokenHash(
+      hashEmailVerificationToken(token),
+      new Date(),
+    );
+
+    if (!verificationToken) {
+      throw new BadRequestException(EMAIL_VERIFICATION_TOKEN_INVALID_MESSAGE);
+    }
+
+    const user = await this.userRepository.findById(verificationToken.userId);
+    if (!user) {
+      throw new BadRequestException(EMAIL_VERIFICATION_TOKEN_INVALID_MESSAGE);
+    }
+
+    const updatedUser = user.emailVerifiedAt
+      ? user
+      : await this.userRepository.update(user.id, { emailVerifiedAt: new Date() });
+
+    if (!updatedUser) {
+      throw new BadRequestException(EMAIL_VERIFICATION_TOKEN_INVALID_MESSAGE);
+    }
+
+    await this.emailVerificationTokenRepository.deleteByUserId(user.id);
+
+    return {
+      data: toPublicUser(updatedUser),
+      message: EMAIL_VERIFICATION_SUCCESS_MESSAGE,
+    };
+  }
+}
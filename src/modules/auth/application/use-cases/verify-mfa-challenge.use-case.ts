@@ -0,0 +1,32 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { MFA_INVALID_CODE_MESSAGE } from '../constants/mfa.constants';
+import { MfaService, type SecondFactorInput } from '../services/mfa.service';
+
+@Injectable()
+export class VerifyMfaChallengeUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly mfaService: MfaService,
+  ) { }
+
+  async execute(userId: string, input: SecondFactorInput) {
+    const isValid = await this.mfaService.verifySecondFactor(userId, input);
+
+    if (!isValid) {
+      throw new UnauthorizedException(MFA_INVALID_CODE_MESSAGE);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException(MFA_INVALID_CODE_MESSAGE);
+    }
+
+    return {
+      user: toPublicUser(user),
+      message: 'Multi-factor authentication successful',
+    };
+  }
+}
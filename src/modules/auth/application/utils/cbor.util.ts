@@ -0,0 +1,178 @@
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Decodes a single CBOR item and fails when trailing bytes are present.
+ */
+export function decodeCbor(input: Buffer): CborValue {
+  const [value, offset] = decodeCborItem(input, 0);
+
+  if (offset !== input.length) {
+    throw new Error('Unexpected trailing bytes after CBOR item.');
+  }
+
+  return value;
+}
+
+/**
+ * Minimal CBOR (RFC 8949) decoder covering the subset used by WebAuthn:
+ * integers, byte/text strings, arrays, maps, tags and simple values.
+ * Returns the decoded value and the offset right after it.
+ */
+export function decodeCborItem(input: Buffer, offset: number): [CborValue, number] {
+  const initialByte = readUint(input, offset, 1);
+  const majorType = initialByte >> 5;
+  const additionalInfo = initialByte & 0x1f;
+  let cursor = offset + 1;
+
+  if (majorType === 7) {
+    return decodeSimpleValue(input, additionalInfo, cursor);
+  }
+
+  const [argument, argumentEnd] = readArgument(input, additionalInfo, cursor);
+  cursor = argumentEnd;
+
+  switch (majorType) {
+    case 0:
+      return [argument, cursor];
+    case 1:
+      return [typeof argument === 'bigint' ? -1n - argument : -1 - argument, cursor];
+    case 2:
+    case 3: {
+      const length = toLength(argument);
+      const end = cursor + length;
+
+      if (end > input.length) {
+        throw new Error('CBOR string exceeds input length.');
+      }
+
+      const bytes = input.subarray(cursor, end);
+      return [majorType === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), end];
+    }
+    case 4: {
+      const items: CborValue[] = [];
+
+      for (let index = 0; index < toLength(argument); index += 1) {
+        const [item, next] = decodeCborItem(input, cursor);
+        items.push(item);
+        cursor = next;
+      }
+
+      return [items, cursor];
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+
+      for (let index = 0; index < toLength(argument); index += 1) {
+        const [key, afterKey] = decodeCborItem(input, cursor);
+        const [value, afterValue] = decodeCborItem(input, afterKey);
+        map.set(key, value);
+        cursor = afterValue;
+      }
+
+      return [map, cursor];
+    }
+    case 6:
+      return decodeCborItem(input, cursor);
+    default:
+      throw new Error(`Unsupported CBOR major type ${majorType}.`);
+  }
+}
+
+function decodeSimpleValue(
+  input: Buffer,
+  additionalInfo: number,
+  cursor: number,
+): [CborValue, number] {
+  switch (additionalInfo) {
+    case 20:
+      return [false, cursor];
+    case 21:
+      return [true, cursor];
+    case 22:
+      return [null, cursor];
+    case 23:
+      return [undefined, cursor];
+    case 25:
+      return [readHalfFloat(readUint(input, cursor, 2)), cursor + 2];
+    case 26:
+      ensureAvailable(input, cursor, 4);
+      return [input.readFloatBE(cursor), cursor + 4];
+    case 27:
+      ensureAvailable(input, cursor, 8);
+      return [input.readDoubleBE(cursor), cursor + 8];
+    default:
+      throw new Error(`Unsupported CBOR simple value ${additionalInfo}.`);
+  }
+}
+
+function readArgument(
+  input: Buffer,
+  additionalInfo: number,
+  cursor: number,
+): [number | bigint, number] {
+  if (additionalInfo < 24) {
+    return [additionalInfo, cursor];
+  }
+
+  switch (additionalInfo) {
+    case 24:
+      return [readUint(input, cursor, 1), cursor + 1];
+    case 25:
+      return [readUint(input, cursor, 2), cursor + 2];
+    case 26:
+      return [readUint(input, cursor, 4), cursor + 4];
+    case 27: {
+      ensureAvailable(input, cursor, 8);
+      const value = input.readBigUInt64BE(cursor);
+
+      return [value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, cursor + 8];
+    }
+    default:
+      throw new Error('Indefinite-length CBOR items are not supported.');
+  }
+}
+
+function readUint(input: Buffer, offset: number, byteLength: 1 | 2 | 4): number {
+  ensureAvailable(input, offset, byteLength);
+
+  return input.readUIntBE(offset, byteLength);
+}
+
+function ensureAvailable(input: Buffer, offset: number, byteLength: number): void {
+  if (offset + byteLength > input.length) {
+    throw new Error('Unexpected end of CBOR input.');
+  }
+}
+
+function toLength(value: number | bigint): number {
+  if (typeof value === 'bigint') {
+    throw new Error('CBOR length is too large.');
+  }
+
+  return value;
+}
+
+function readHalfFloat(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
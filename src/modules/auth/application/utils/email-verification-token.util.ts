@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from 'crypto';
+
+export function generateEmailVerificationToken(): {
+  rawToken: string;
+  tokenHash: string;
+} {
+  const rawToken = randomBytes(32).toString('hex');
+
+  return {
+    rawToken,
+    tokenHash: hashEmailVerificationToken(rawToken),
+  };
+}
+
+export function hashEmailVerificationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,37 @@
+import { computeDeviceFingerprint, truncateUserAgent } from './login-device.util';
+
+describe('login-device.util', () => {
+  const chromeOnMac =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+
+  it('keeps the fingerprint stable across browser and OS updates', () => {
+    const fingerprint = computeDeviceFingerprint(chromeOnMac);
+
+    expect(fingerprint).toHaveLength(64);
+    expect(computeDeviceFingerprint(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_6_1) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.6778.86 Safari/537.36',
+    )).toEqual(fingerprint);
+  });
+
+  it('tells different browsers and platforms apart', () => {
+    const fingerprint = computeDeviceFingerprint(chromeOnMac);
+
+    expect(computeDeviceFingerprint(
+      'Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0',
+    )).not.toEqual(fingerprint);
+    expect(computeDeviceFingerprint(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+    )).not.toEqual(fingerprint);
+  });
+
+  it('returns null without a usable user agent', () => {
+    expect(computeDeviceFingerprint(undefined)).toBeNull();
+    expect(computeDeviceFingerprint('  ')).toBeNull();
+    expect(computeDeviceFingerprint('1.2.3')).toBeNull();
+  });
+
+  it('truncates long user agents', () => {
+    expect(truncateUserAgent('x'.repeat(600))).toHaveLength(500);
+    expect(truncateUserAgent(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { createHash } from 'crypto';
+
+const USER_AGENT_MAX_LENGTH = 500;
+
+/**
+ * Identifies the browser a login came from by hashing its user agent with
+ * every version number removed, so routine browser and OS updates do not
+ * look like a new device. The IP address is left out on purpose: it changes
+ * too often on mobile networks to tell devices apart.
+ */
+export function computeDeviceFingerprint(userAgent?: string | null): string | null {
+  const normalized = userAgent
+    ?.toLowerCase()
+    .replace(/\d+(?:[._]\d+)*/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!normalized) {
+    return null;
+  }
+
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export function truncateUserAgent(userAgent?: string | null): string | null {
+  return userAgent ? userAgent.slice(0, USER_AGENT_MAX_LENGTH) : null;
+}
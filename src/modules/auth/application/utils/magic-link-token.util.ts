@@ -0,0 +1,25 @@
+import { createHash, randomBytes } from 'crypto';
+
+export function generateMagicLinkToken(): {
+  rawToken: string;
+  tokenHash: string;
+} {
+  const rawToken = randomBytes(32).toString('hex');
+
+  return {
+    rawToken,
+    tokenHash: hashMagicLinkSecret(rawToken),
+  };
+}
+
+/**
+ * Random value stored in a cookie on the requesting browser; only the hash
+ * is persisted so a forwarded link cannot be consumed elsewhere.
+ */
+export function generateMagicLinkNonce(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashMagicLinkSecret(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
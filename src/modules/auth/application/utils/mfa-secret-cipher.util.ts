@@ -0,0 +1,44 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const CIPHER_VERSION = 'v1';
+
+/**
+ * Encrypts a TOTP secret at rest with AES-256-GCM using a key derived from
+ * the configured key material.
+ */
+export function encryptMfaSecret(secret: string, keyMaterial: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [
+    CIPHER_VERSION,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join(':');
+}
+
+export function decryptMfaSecret(payload: string, keyMaterial: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+
+  if (version !== CIPHER_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error('Unsupported MFA secret payload.');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(keyMaterial),
+    Buffer.from(iv, 'base64url'),
+  );
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+function deriveKey(keyMaterial: string): Buffer {
+  return createHash('sha256').update(keyMaterial).digest();
+}
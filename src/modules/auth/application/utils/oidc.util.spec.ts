@@ -0,0 +1,107 @@
+import { generateKeyPairSync, type KeyObject, sign } from 'crypto';
+import {
+  assertOidcIdTokenClaims,
+  computePkceChallenge,
+  decodeOidcJwt,
+  OidcTokenError,
+  selectOidcJwk,
+  verifyOidcJwtSignature,
+  type OidcIdTokenClaims,
+  type OidcJwk,
+} from './oidc.util';
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(
+  claims: OidcIdTokenClaims,
+  privateKey: KeyObject,
+  header: { alg: string; kid?: string },
+): string {
+  const signingInput = `${encodeSegment({ typ: 'JWT', ...header })}.${encodeSegment(claims)}`;
+  const signature = header.alg === 'ES256'
+    ? sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    : sign('sha256', Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+describe('oidc.util', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const claims: OidcIdTokenClaims = {
+    iss: 'https://login.example.com',
+    sub: 'user-123',
+    aud: 'client-abc',
+    exp: nowSeconds + 300,
+    iat: nowSeconds,
+    nonce: 'nonce-xyz',
+  };
+  const expectation = {
+    issuers: ['https://login.example.com'],
+    clientId: 'client-abc',
+    nonce: 'nonce-xyz',
+    now,
+  };
+
+  it('computes the S256 PKCE challenge from RFC 7636', () => {
+    expect(computePkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+    );
+  });
+
+  it('verifies RS256 and ES256 signatures against the matching JWKS key', () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const keys: OidcJwk[] = [
+      { ...(rsa.publicKey.export({ format: 'jwk' }) as OidcJwk), kid: 'rsa-1', use: 'sig' },
+      { ...(ec.publicKey.export({ format: 'jwk' }) as OidcJwk), kid: 'ec-1' },
+    ];
+
+    for (const [alg, kid, privateKey] of [
+      ['RS256', 'rsa-1', rsa.privateKey],
+      ['ES256', 'ec-1', ec.privateKey],
+    ] as const) {
+      const jwt = decodeOidcJwt(signJwt(claims, privateKey, { alg, kid }));
+      const jwk = selectOidcJwk(keys, jwt.header);
+
+      expect(jwk?.kid).toBe(kid);
+      expect(verifyOidcJwtSignature(jwt, jwk as OidcJwk)).toBe(true);
+    }
+  });
+
+  it('rejects tampered payloads and unknown key ids', () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...(rsa.publicKey.export({ format: 'jwk' }) as OidcJwk), kid: 'rsa-1' };
+    const token = signJwt(claims, rsa.privateKey, { alg: 'RS256', kid: 'rsa-1' });
+    const [header, , signature] = token.split('.');
+    const tampered = decodeOidcJwt(`${header}.${encodeSegment({ ...claims, sub: 'attacker' })}.${signature}`);
+
+    expect(verifyOidcJwtSignature(tampered, jwk)).toBe(false);
+    expect(selectOidcJwk([jwk], { alg: 'RS256', kid: 'rotated' })).toBeNull();
+    expect(selectOidcJwk([jwk], { alg: 'none' })).toBeNull();
+  });
+
+  it('accepts valid claims and rejects issuer, audience, nonce and expiry mismatches', () => {
+    expect(() => assertOidcIdTokenClaims(claims, expectation)).not.toThrow();
+
+    const invalidCases: OidcIdTokenClaims[] = [
+      { ...claims, iss: 'https://evil.example.com' },
+      { ...claims, aud: 'other-client' },
+      { ...claims, aud: ['client-abc', 'other-client'] },
+      { ...claims, nonce: 'replayed' },
+      { ...claims, exp: nowSeconds - 120 },
+      { ...claims, sub: undefined },
+    ];
+
+    for (const invalidClaims of invalidCases) {
+      expect(() => assertOidcIdTokenClaims(invalidClaims, expectation)).toThrow(OidcTokenError);
+    }
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(() => decodeOidcJwt('not-a-jwt')).toThrow(OidcTokenError);
+    expect(() => decodeOidcJwt('a.b.c')).toThrow(OidcTokenError);
+  });
+});
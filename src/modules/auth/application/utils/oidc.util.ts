@@ -0,0 +1,212 @@
+import {
+  createHash,
+  createPublicKey,
+  type JsonWebKey,
+  randomBytes,
+  verify,
+} from 'crypto';
+
+export interface OidcJwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface OidcJwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface OidcIdTokenClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  azp?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+}
+
+export interface DecodedOidcJwt {
+  header: OidcJwtHeader;
+  claims: OidcIdTokenClaims;
+  signingInput: string;
+  signature: Buffer;
+}
+
+export interface OidcIdTokenExpectation {
+  issuers: string[];
+  clientId: string;
+  nonce?: string;
+  now: Date;
+  clockToleranceSeconds?: number;
+}
+
+interface JwsAlgorithm {
+  hash: string | null;
+  keyType: string;
+  padding?: number;
+  dsaEncoding?: 'ieee-p1363';
+}
+
+const RSA_PKCS1_PADDING = 1;
+const RSA_PKCS1_PSS_PADDING = 6;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+
+const JWS_ALGORITHMS: Record<string, JwsAlgorithm> = {
+  RS256: { hash: 'sha256', keyType: 'RSA', padding: RSA_PKCS1_PADDING },
+  RS384: { hash: 'sha384', keyType: 'RSA', padding: RSA_PKCS1_PADDING },
+  RS512: { hash: 'sha512', keyType: 'RSA', padding: RSA_PKCS1_PADDING },
+  PS256: { hash: 'sha256', keyType: 'RSA', padding: RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', keyType: 'RSA', padding: RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', keyType: 'RSA', padding: RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', keyType: 'EC', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', keyType: 'EC', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', keyType: 'EC', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { hash: null, keyType: 'OKP' },
+};
+
+export const OIDC_SUPPORTED_ALGORITHMS = Object.keys(JWS_ALGORITHMS);
+
+export class OidcTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcTokenError';
+  }
+}
+
+export function generateOidcSecret(byteLength = 32): string {
+  return randomBytes(byteLength).toString('base64url');
+}
+
+/**
+ * Derives the S256 PKCE code challenge (RFC 7636) for a code verifier.
+ */
+export function computePkceChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export function decodeOidcJwt(token: string): DecodedOidcJwt {
+  const segments = token.split('.');
+
+  if (segments.length !== 3) {
+    throw new OidcTokenError('Malformed ID token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8')) as OidcJwtHeader,
+      claims: JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as OidcIdTokenClaims,
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+      signature: Buffer.from(encodedSignature, 'base64url'),
+    };
+  } catch {
+    throw new OidcTokenError('Malformed ID token');
+  }
+}
+
+/**
+ * Picks the JWKS key matching the token header. Keys are matched by `kid`
+ * when present, otherwise the only signing key of the right type is used.
+ */
+export function selectOidcJwk(keys: OidcJwk[], header: OidcJwtHeader): OidcJwk | null {
+  const algorithm = header.alg ? JWS_ALGORITHMS[header.alg] : undefined;
+
+  if (!algorithm) {
+    return null;
+  }
+
+  const candidates = keys.filter((key) =>
+    key.kty === algorithm.keyType &&
+    (key.use === undefined || key.use === 'sig') &&
+    (key.alg === undefined || key.alg === header.alg),
+  );
+
+  if (header.kid) {
+    return candidates.find((key) => key.kid === header.kid) ?? null;
+  }
+
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+export function verifyOidcJwtSignature(jwt: DecodedOidcJwt, jwk: OidcJwk): boolean {
+  const algorithm = jwt.header.alg ? JWS_ALGORITHMS[jwt.header.alg] : undefined;
+
+  if (!algorithm) {
+    throw new OidcTokenError(`Unsupported ID token algorithm "${jwt.header.alg ?? 'none'}"`);
+  }
+
+  try {
+    const key = createPublicKey({ key: jwk, format: 'jwk' });
+
+    return verify(
+      algorithm.hash,
+      Buffer.from(jwt.signingInput),
+      {
+        key,
+        padding: algorithm.padding,
+        dsaEncoding: algorithm.dsaEncoding,
+      },
+      jwt.signature,
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the ID token claims required by OpenID Connect Core §3.1.3.7.
+ */
+export function assertOidcIdTokenClaims(
+  claims: OidcIdTokenClaims,
+  expectation: OidcIdTokenExpectation,
+): void {
+  const tolerance = expectation.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor(expectation.now.getTime() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (!claims.iss || !expectation.issuers.includes(claims.iss)) {
+    throw new OidcTokenError('Invalid ID token issuer');
+  }
+
+  if (!audiences.includes(expectation.clientId)) {
+    throw new OidcTokenError('Invalid ID token audience');
+  }
+
+  if (audiences.length > 1 && claims.azp !== expectation.clientId) {
+    throw new OidcTokenError('Invalid ID token authorized party');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance < nowSeconds) {
+    throw new OidcTokenError('ID token has expired');
+  }
+
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > nowSeconds) {
+    throw new OidcTokenError('ID token is not yet valid');
+  }
+
+  if (typeof claims.iat === 'number' && claims.iat - tolerance > nowSeconds) {
+    throw new OidcTokenError('ID token was issued in the future');
+  }
+
+  if (expectation.nonce !== undefined && claims.nonce !== expectation.nonce) {
+    throw new OidcTokenError('ID token nonce mismatch');
+  }
+
+  if (!claims.sub) {
+    throw new OidcTokenError('ID token is missing the subject');
+  }
+}
+
+export function isOidcEmailVerified(claims: OidcIdTokenClaims): boolean {
+  return claims.email_verified === true || claims.email_verified === 'true';
+}
@@ -0,0 +1,22 @@
+import { createHash, randomBytes } from 'crypto';
+
+export function generateRecoveryCodes(count: number): {
+  rawCodes: string[];
+  codeHashes: string[];
+} {
+  const rawCodes = Array.from({ length: count }, () => {
+    const value = randomBytes(5).toString('hex');
+    return `${value.slice(0, 5)}-${value.slice(5)}`;
+  });
+
+  return {
+    rawCodes,
+    codeHashes: rawCodes.map((code) => hashRecoveryCode(code)),
+  };
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalizedCode = code.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+
+  return createHash('sha256').update(normalizedCode).digest('hex');
+}
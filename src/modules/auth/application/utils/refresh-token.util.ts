@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from 'crypto';
+
+export function generateRefreshToken(): {
+  rawToken: string;
+  tokenHash: string;
+} {
+  const rawToken = randomBytes(48).toString('base64url');
+
+  return {
+    rawToken,
+    tokenHash: hashRefreshToken(rawToken),
+  };
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
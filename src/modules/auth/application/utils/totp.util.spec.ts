@@ -0,0 +1,44 @@
+import {
+  buildTotpUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+} from './totp.util';
+
+describe('totp.util', () => {
+  // RFC 6238 SHA1 reference secret: ASCII "12345678901234567890"
+  const secret = encodeBase32(Buffer.from('12345678901234567890'));
+
+  it('round-trips base32 encoding', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(decodeBase32(secret).toString()).toBe('12345678901234567890');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    const options = { digits: 8 };
+
+    expect(generateTotpCode(secret, getTotpStep(new Date(59 * 1000)), options)).toBe('94287082');
+    expect(generateTotpCode(secret, getTotpStep(new Date(1111111109 * 1000)), options)).toBe('07081804');
+    expect(generateTotpCode(secret, getTotpStep(new Date(1234567890 * 1000)), options)).toBe('89005924');
+  });
+
+  it('verifies codes inside the drift window and returns the matched step', () => {
+    const now = new Date(1234567890 * 1000);
+    const step = getTotpStep(now);
+    const previousCode = generateTotpCode(secret, step - 1);
+
+    expect(verifyTotpCode(secret, previousCode, { now })).toBe(step - 1);
+    expect(verifyTotpCode(secret, generateTotpCode(secret, step - 2), { now })).toBeNull();
+    expect(verifyTotpCode(secret, 'abcdef', { now })).toBeNull();
+  });
+
+  it('builds otpauth URIs', () => {
+    expect(
+      buildTotpUri({ secret: 'ABC', accountName: 'user@example.com', issuer: 'Acme API' }),
+    ).toBe(
+      'otpauth://totp/Acme%20API%3Auser%40example.com?secret=ABC&issuer=Acme+API&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
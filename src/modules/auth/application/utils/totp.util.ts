@@ -0,0 +1,136 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  periodSeconds?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  now?: Date;
+  window?: number;
+}
+
+export function generateTotpSecret(byteLength = 20): string {
+  return encodeBase32(randomBytes(byteLength));
+}
+
+export function getTotpStep(now: Date, periodSeconds = 30): number {
+  return Math.floor(now.getTime() / 1000 / periodSeconds);
+}
+
+/**
+ * RFC 6238 TOTP (HMAC-SHA1) for the given time step.
+ */
+export function generateTotpCode(
+  secret: string,
+  step: number,
+  options: TotpOptions = {},
+): string {
+  const digits = options.digits ?? 6;
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Returns the matched time step so callers can reject replays, or null.
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  options: VerifyTotpOptions = {},
+): number | null {
+  const normalizedCode = code.replace(/\s+/g, '');
+  const digits = options.digits ?? 6;
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalizedCode)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(options.now ?? new Date(), options.periodSeconds);
+  const window = options.window ?? 1;
+
+  for (let drift = -window; drift <= window; drift += 1) {
+    const step = currentStep + drift;
+    const expected = Buffer.from(generateTotpCode(secret, step, options));
+
+    if (timingSafeEqual(expected, Buffer.from(normalizedCode))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function buildTotpUri(input: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+  digits?: number;
+  periodSeconds?: number;
+}): string {
+  const label = encodeURIComponent(`${input.issuer}:${input.accountName}`);
+  const params = new URLSearchParams({
+    secret: input.secret,
+    issuer: input.issuer,
+    algorithm: 'SHA1',
+    digits: String(input.digits ?? 6),
+    period: String(input.periodSeconds ?? 30),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function decodeBase32(input: string): Buffer {
+  const normalized = input.toUpperCase().replace(/=+$/g, '').replace(/\s+/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error('Invalid base32 character.');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,143 @@
+import {
+  parseAuthenticatorData,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnVerificationError,
+  type AuthenticationCredentialJson,
+  type RegistrationCredentialJson,
+} from './webauthn.util';
+
+// Recorded from a software authenticator for rpId "localhost".
+const REGISTRATION_CHALLENGE = 'edqh8Q8mTqlC7WIsiO1qUYZF-wyv7F44Fp7f-7n8bR0';
+const REGISTRATION: RegistrationCredentialJson = {
+  id: '3F0DA0hn5e3TiAn1M50uwg',
+  rawId: '3F0DA0hn5e3TiAn1M50uwg',
+  type: 'public-key',
+  response: {
+    clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiZWRxaDhROG1UcWxDN1dJc2lPMXFVWVpGLXd5djdGNDRGcDdmLTduOGJSMCIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    attestationObject: 'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NFAAAAAAAAAAAAAAAAAAAAAAAAAAAAENxdAwNIZ-Xt04gJ9TOdLsKlAQIDJiABIVggGCyPdAhcGfpGpjDcjSN03G6rmdpzuvwdI2bXYMTDm7YiWCCzKCmiefAWw3b5bjAN_cM3AgIOdBpoLUDzBmsnjwCqDw',
+    transports: ['internal'],
+  },
+};
+
+const AUTHENTICATION_CHALLENGE = 'BccrbHWSPwrlqfLccDZrAWJPo7HnfNHDk-dCWTiRrkc';
+const ASSERTION: AuthenticationCredentialJson = {
+  id: '3F0DA0hn5e3TiAn1M50uwg',
+  rawId: '3F0DA0hn5e3TiAn1M50uwg',
+  type: 'public-key',
+  response: {
+    clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiQmNjcmJIV1NQd3JscWZMY2NEWnJBV0pQbzdIbmZOSERrLWRDV1RpUnJrYyIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAAAQ',
+    signature: 'MEYCIQCjP822jdHZ4ev4L_IFJvTQFGkyNtvE9MF8LgywmAtpvwIhAJfuNnqK1GCPDUXhdgmlj3tJBwYyzySNJbwKpPH0SS4D',
+    userHandle: 'MTkyNTAxMjM0NTY3ODkwMTI0OA',
+  },
+};
+
+const PACKED_REGISTRATION_CHALLENGE = 'EAJ3wfOQhQebcQELmCy8XUHkoF0EqIpWCIgKANd50sg';
+const PACKED_REGISTRATION: RegistrationCredentialJson = {
+  id: 'B5sVMFNUYW_OFn2Z4OBkSw',
+  rawId: 'B5sVMFNUYW_OFn2Z4OBkSw',
+  type: 'public-key',
+  response: {
+    clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiRUFKM3dmT1FoUWViY1FFTG1DeThYVUhrb0YwRXFJcFdDSWdLQU5kNTBzZyIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+    attestationObject: 'o2NmbXRmcGFja2VkZ2F0dFN0bXSiY2FsZydjc2lnWECbYH3bY8XXF2efsnkcO8P_BHcVW15ceF0-XFuZDAwO6o0YaFFVTUiEBfehachP4F-z28X4iCcG6d1oIoIljr0DaGF1dGhEYXRhWHFJlg3liA6MaHQ0Fw9kdmBbj-SuuaKGMseZXPO6gx2XY0UAAAAAAAAAAAAAAAAAAAAAAAAAAAAQB5sVMFNUYW_OFn2Z4OBkS6QBAQMnIAYhWCBuM8Gf9QEcV6pIki0Z3FWOeqJzrQjPbXM6iDJ5nwHzNg',
+  },
+};
+
+describe('webauthn.util', () => {
+  const expectation = {
+    origins: ['http://localhost:3000'],
+    rpId: 'localhost',
+    requireUserVerification: true,
+  };
+
+  it('verifies a registration with "none" attestation', () => {
+    const result = verifyRegistrationResponse(REGISTRATION, {
+      ...expectation,
+      challenge: REGISTRATION_CHALLENGE,
+    });
+
+    expect(result.credentialId).toBe(REGISTRATION.id);
+    expect(result.attestationFormat).toBe('none');
+    expect(result.signCount).toBe(0);
+    expect(result.userVerified).toBe(true);
+    expect(result.aaguid).toBe('00000000-0000-0000-0000-000000000000');
+  });
+
+  it('verifies a registration with packed self attestation', () => {
+    const result = verifyRegistrationResponse(PACKED_REGISTRATION, {
+      ...expectation,
+      challenge: PACKED_REGISTRATION_CHALLENGE,
+    });
+
+    expect(result.credentialId).toBe(PACKED_REGISTRATION.id);
+    expect(result.attestationFormat).toBe('packed');
+  });
+
+  it('rejects registrations for another challenge, origin or rp id', () => {
+    expect(() =>
+      verifyRegistrationResponse(REGISTRATION, { ...expectation, challenge: AUTHENTICATION_CHALLENGE }),
+    ).toThrow(WebAuthnVerificationError);
+    expect(() =>
+      verifyRegistrationResponse(REGISTRATION, {
+        ...expectation,
+        challenge: REGISTRATION_CHALLENGE,
+        origins: ['https://evil.example'],
+      }),
+    ).toThrow('Unexpected origin');
+    expect(() =>
+      verifyRegistrationResponse(REGISTRATION, {
+        ...expectation,
+        challenge: REGISTRATION_CHALLENGE,
+        rpId: 'example.com',
+      }),
+    ).toThrow('Relying party id mismatch');
+  });
+
+  it('verifies an assertion with the registered public key', () => {
+    const { publicKey } = verifyRegistrationResponse(REGISTRATION, {
+      ...expectation,
+      challenge: REGISTRATION_CHALLENGE,
+    });
+    const result = verifyAuthenticationResponse(
+      ASSERTION,
+      { ...expectation, challenge: AUTHENTICATION_CHALLENGE },
+      { publicKey, signCount: 0 },
+    );
+
+    expect(result).toEqual({ signCount: 1, userVerified: true, backedUp: false });
+  });
+
+  it('rejects assertions with a regressed counter or a tampered signature', () => {
+    const { publicKey } = verifyRegistrationResponse(REGISTRATION, {
+      ...expectation,
+      challenge: REGISTRATION_CHALLENGE,
+    });
+    const assertionExpectation = { ...expectation, challenge: AUTHENTICATION_CHALLENGE };
+    const signature = Buffer.from(ASSERTION.response.signature, 'base64url');
+    signature[signature.length - 1] ^= 0xff;
+
+    expect(() =>
+      verifyAuthenticationResponse(ASSERTION, assertionExpectation, { publicKey, signCount: 1 }),
+    ).toThrow('Signature counter did not increase; the authenticator may be cloned');
+    expect(() =>
+      verifyAuthenticationResponse(
+        {
+          ...ASSERTION,
+          response: { ...ASSERTION.response, signature: signature.toString('base64url') },
+        },
+        assertionExpectation,
+        { publicKey, signCount: 0 },
+      ),
+    ).toThrow('Invalid assertion signature');
+  });
+
+  it('parses authenticator data flags and counter', () => {
+    const data = parseAuthenticatorData(Buffer.from(ASSERTION.response.authenticatorData, 'base64url'));
+
+    expect(data.userPresent).toBe(true);
+    expect(data.userVerified).toBe(true);
+    expect(data.signCount).toBe(1);
+    expect(data.attestedCredential).toBeUndefined();
+  });
+});
@@ -0,0 +1,470 @@
+import {
+  createHash,
+  createPublicKey,
+  type KeyObject,
+  randomBytes,
+  timingSafeEqual,
+  verify,
+  X509Certificate,
+} from 'crypto';
+import { type CborValue, decodeCbor, decodeCborItem } from './cbor.util';
+
+export const COSE_ALGORITHM_ES256 = -7;
+export const COSE_ALGORITHM_EDDSA = -8;
+export const COSE_ALGORITHM_RS256 = -257;
+
+export const WEBAUTHN_SUPPORTED_ALGORITHMS = [
+  COSE_ALGORITHM_ES256,
+  COSE_ALGORITHM_EDDSA,
+  COSE_ALGORITHM_RS256,
+] as const;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnVerificationError';
+  }
+}
+
+export interface RegistrationCredentialJson {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredentialJson {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface WebAuthnExpectation {
+  challenge: string;
+  origins: string[];
+  rpId: string;
+  requireUserVerification: boolean;
+}
+
+export interface StoredWebAuthnCredential {
+  publicKey: string;
+  signCount: number;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    publicKey: Buffer;
+  };
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  aaguid: string;
+  attestationFormat: string;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+export function generateWebAuthnChallenge(byteLength = 32): string {
+  return randomBytes(byteLength).toString('base64url');
+}
+
+/**
+ * Verifies a `navigator.credentials.create()` response. Supports the `none`
+ * and `packed` attestation formats; attestation trust chains are not evaluated.
+ */
+export function verifyRegistrationResponse(
+  credential: RegistrationCredentialJson,
+  expected: WebAuthnExpectation,
+): VerifiedRegistration {
+  const clientDataJson = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+  verifyClientData(clientDataJson, 'webauthn.create', expected);
+
+  const attestation = decodeCbor(decodeBase64Url(credential.response.attestationObject, 'attestationObject'));
+  if (!(attestation instanceof Map)) {
+    throw new WebAuthnVerificationError('Malformed attestation object');
+  }
+
+  const format = attestation.get('fmt');
+  const attestationStatement = attestation.get('attStmt');
+  const rawAuthenticatorData = attestation.get('authData');
+
+  if (
+    typeof format !== 'string' ||
+    !(attestationStatement instanceof Map) ||
+    !Buffer.isBuffer(rawAuthenticatorData)
+  ) {
+    throw new WebAuthnVerificationError('Malformed attestation object');
+  }
+
+  const authenticatorData = parseAuthenticatorData(rawAuthenticatorData);
+  verifyAuthenticatorFlags(authenticatorData, expected);
+
+  const attestedCredential = authenticatorData.attestedCredential;
+  if (!attestedCredential) {
+    throw new WebAuthnVerificationError('Attested credential data is missing');
+  }
+
+  const credentialId = attestedCredential.credentialId.toString('base64url');
+  if (credential.id !== credentialId) {
+    throw new WebAuthnVerificationError('Credential id does not match the authenticator data');
+  }
+
+  const { algorithm, key } = importCosePublicKey(attestedCredential.publicKey);
+  const signedData = Buffer.concat([rawAuthenticatorData, sha256(clientDataJson)]);
+
+  if (format === 'packed') {
+    verifyPackedAttestation(attestationStatement, signedData, algorithm, key);
+  } else if (format !== 'none') {
+    throw new WebAuthnVerificationError(`Unsupported attestation format "${format}"`);
+  }
+
+  return {
+    credentialId,
+    publicKey: attestedCredential.publicKey.toString('base64url'),
+    signCount: authenticatorData.signCount,
+    aaguid: attestedCredential.aaguid,
+    attestationFormat: format,
+    userVerified: authenticatorData.userVerified,
+    backupEligible: authenticatorData.backupEligible,
+    backedUp: authenticatorData.backedUp,
+  };
+}
+
+/**
+ * Verifies a `navigator.credentials.get()` assertion against a stored
+ * credential, including the signature counter regression check.
+ */
+export function verifyAuthenticationResponse(
+  credential: AuthenticationCredentialJson,
+  expected: WebAuthnExpectation,
+  stored: StoredWebAuthnCredential,
+): VerifiedAuthentication {
+  const clientDataJson = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+  verifyClientData(clientDataJson, 'webauthn.get', expected);
+
+  const rawAuthenticatorData = decodeBase64Url(credential.response.authenticatorData, 'authenticatorData');
+  const authenticatorData = parseAuthenticatorData(rawAuthenticatorData);
+  verifyAuthenticatorFlags(authenticatorData, expected);
+
+  const { algorithm, key } = importCosePublicKey(Buffer.from(stored.publicKey, 'base64url'));
+  const isValid = verifySignature(
+    algorithm,
+    key,
+    Buffer.concat([rawAuthenticatorData, sha256(clientDataJson)]),
+    decodeBase64Url(credential.response.signature, 'signature'),
+  );
+
+  if (!isValid) {
+    throw new WebAuthnVerificationError('Invalid assertion signature');
+  }
+
+  if (
+    (authenticatorData.signCount > 0 || stored.signCount > 0) &&
+    authenticatorData.signCount <= stored.signCount
+  ) {
+    throw new WebAuthnVerificationError('Signature counter did not increase; the authenticator may be cloned');
+  }
+
+  return {
+    signCount: authenticatorData.signCount,
+    userVerified: authenticatorData.userVerified,
+    backedUp: authenticatorData.backedUp,
+  };
+}
+
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new WebAuthnVerificationError('Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags,
+    signCount: data.readUInt32BE(33),
+    userPresent: Boolean(flags & FLAG_USER_PRESENT),
+    userVerified: Boolean(flags & FLAG_USER_VERIFIED),
+    backupEligible: Boolean(flags & FLAG_BACKUP_ELIGIBLE),
+    backedUp: Boolean(flags & FLAG_BACKED_UP),
+  };
+  let offset = 37;
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    if (data.length < offset + 18) {
+      throw new WebAuthnVerificationError('Attested credential data is truncated');
+    }
+
+    const aaguid = data.subarray(offset, offset + 16).toString('hex');
+    const credentialIdLength = data.readUInt16BE(offset + 16);
+    const credentialIdStart = offset + 18;
+    const credentialIdEnd = credentialIdStart + credentialIdLength;
+
+    if (data.length < credentialIdEnd) {
+      throw new WebAuthnVerificationError('Attested credential data is truncated');
+    }
+
+    const [, publicKeyEnd] = decodeOrThrow(() => decodeCborItem(data, credentialIdEnd));
+
+    result.attestedCredential = {
+      aaguid: formatAaguid(aaguid),
+      credentialId: data.subarray(credentialIdStart, credentialIdEnd),
+      publicKey: data.subarray(credentialIdEnd, publicKeyEnd),
+    };
+    offset = publicKeyEnd;
+  }
+
+  if (flags & FLAG_EXTENSION_DATA) {
+    const [, extensionsEnd] = decodeOrThrow(() => decodeCborItem(data, offset));
+    offset = extensionsEnd;
+  }
+
+  if (offset !== data.length) {
+    throw new WebAuthnVerificationError('Unexpected trailing bytes in authenticator data');
+  }
+
+  return result;
+}
+
+function verifyClientData(
+  clientDataJson: Buffer,
+  expectedType: 'webauthn.create' | 'webauthn.get',
+  expected: WebAuthnExpectation,
+): void {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown; crossOrigin?: unknown };
+
+  try {
+    clientData = JSON.parse(clientDataJson.toString('utf8')) as typeof clientData;
+  } catch {
+    throw new WebAuthnVerificationError('Malformed client data');
+  }
+
+  if (clientData.type !== expectedType) {
+    throw new WebAuthnVerificationError('Unexpected client data type');
+  }
+
+  if (
+    typeof clientData.challenge !== 'string' ||
+    !safeEqual(Buffer.from(clientData.challenge, 'base64url'), Buffer.from(expected.challenge, 'base64url'))
+  ) {
+    throw new WebAuthnVerificationError('Challenge mismatch');
+  }
+
+  if (typeof clientData.origin !== 'string' || !expected.origins.includes(clientData.origin)) {
+    throw new WebAuthnVerificationError('Unexpected origin');
+  }
+
+  if (clientData.crossOrigin === true) {
+    throw new WebAuthnVerificationError('Cross-origin ceremonies are not allowed');
+  }
+}
+
+function verifyAuthenticatorFlags(
+  authenticatorData: AuthenticatorData,
+  expected: WebAuthnExpectation,
+): void {
+  if (!safeEqual(authenticatorData.rpIdHash, sha256(Buffer.from(expected.rpId, 'utf8')))) {
+    throw new WebAuthnVerificationError('Relying party id mismatch');
+  }
+
+  if (!authenticatorData.userPresent) {
+    throw new WebAuthnVerificationError('User presence is required');
+  }
+
+  if (expected.requireUserVerification && !authenticatorData.userVerified) {
+    throw new WebAuthnVerificationError('User verification is required');
+  }
+}
+
+function verifyPackedAttestation(
+  statement: Map<CborValue, CborValue>,
+  signedData: Buffer,
+  credentialAlgorithm: number,
+  credentialKey: KeyObject,
+): void {
+  const algorithm = statement.get('alg');
+  const signature = statement.get('sig');
+  const certificates = statement.get('x5c');
+
+  if (typeof algorithm !== 'number' || !Buffer.isBuffer(signature)) {
+    throw new WebAuthnVerificationError('Malformed packed attestation statement');
+  }
+
+  if (Array.isArray(certificates) && certificates.length > 0) {
+    const [leafCertificate] = certificates;
+
+    if (!Buffer.isBuffer(leafCertificate)) {
+      throw new WebAuthnVerificationError('Malformed packed attestation certificate');
+    }
+
+    const certificateKey = decodeOrThrow(() => new X509Certificate(leafCertificate).publicKey);
+    if (!verifySignature(algorithm, certificateKey, signedData, signature)) {
+      throw new WebAuthnVerificationError('Invalid attestation signature');
+    }
+
+    return;
+  }
+
+  if (algorithm !== credentialAlgorithm) {
+    throw new WebAuthnVerificationError('Self attestation algorithm does not match the credential key');
+  }
+
+  if (!verifySignature(algorithm, credentialKey, signedData, signature)) {
+    throw new WebAuthnVerificationError('Invalid attestation signature');
+  }
+}
+
+function importCosePublicKey(coseKey: Buffer): { algorithm: number; key: KeyObject } {
+  const parsed = decodeOrThrow(() => decodeCbor(coseKey));
+
+  if (!(parsed instanceof Map)) {
+    throw new WebAuthnVerificationError('Malformed credential public key');
+  }
+
+  const keyType = parsed.get(1);
+  const algorithm = parsed.get(3);
+
+  if (typeof algorithm !== 'number' || !(WEBAUTHN_SUPPORTED_ALGORITHMS as readonly number[]).includes(algorithm)) {
+    throw new WebAuthnVerificationError('Unsupported credential algorithm');
+  }
+
+  const jwk = decodeOrThrow(() => {
+    if (keyType === 2 && algorithm === COSE_ALGORITHM_ES256 && parsed.get(-1) === 1) {
+      return {
+        kty: 'EC',
+        crv: 'P-256',
+        x: toBase64Url(parsed.get(-2)),
+        y: toBase64Url(parsed.get(-3)),
+      };
+    }
+
+    if (keyType === 1 && algorithm === COSE_ALGORITHM_EDDSA && parsed.get(-1) === 6) {
+      return {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: toBase64Url(parsed.get(-2)),
+      };
+    }
+
+    if (keyType === 3 && algorithm === COSE_ALGORITHM_RS256) {
+      return {
+        kty: 'RSA',
+        n: toBase64Url(parsed.get(-1)),
+        e: toBase64Url(parsed.get(-2)),
+      };
+    }
+
+    throw new WebAuthnVerificationError('Unsupported credential key type');
+  });
+
+  return {
+    algorithm,
+    key: decodeOrThrow(() => createPublicKey({ key: jwk, format: 'jwk' })),
+  };
+}
+
+function verifySignature(
+  algorithm: number,
+  key: KeyObject,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  try {
+    if (algorithm === COSE_ALGORITHM_ES256) {
+      return verify('sha256', data, { key, dsaEncoding: 'der' }, signature);
+    }
+
+    if (algorithm === COSE_ALGORITHM_RS256) {
+      return verify('sha256', data, key, signature);
+    }
+
+    if (algorithm === COSE_ALGORITHM_EDDSA) {
+      return verify(null, data, key, signature);
+    }
+  } catch {
+    return false;
+  }
+
+  return false;
+}
+
+function decodeBase64Url(value: string, field: string): Buffer {
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(value)) {
+    throw new WebAuthnVerificationError(`Malformed ${field}`);
+  }
+
+  return Buffer.from(value, 'base64url');
+}
+
+function decodeOrThrow<T>(decode: () => T): T {
+  try {
+    return decode();
+  } catch (error) {
+    if (error instanceof WebAuthnVerificationError) {
+      throw error;
+    }
+
+    throw new WebAuthnVerificationError('Malformed credential data');
+  }
+}
+
+function toBase64Url(value: CborValue): string {
+  if (!Buffer.isBuffer(value)) {
+    throw new WebAuthnVerificationError('Malformed credential public key');
+  }
+
+  return value.toString('base64url');
+}
+
+function formatAaguid(hex: string): string {
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+function sha256(value: Buffer): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function safeEqual(left: Buffer, right: Buffer): boolean {
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -1,15 +1,72 @@
 import { Module } from '@nestjs/common';
 import { EmailsModule } from '@/modules/emails/emails.module';
 import { CreateUserUseCase } from '@/modules/users/application/use-cases/create-user.use-case';
+import { OrganizationInvitationService } from '@/modules/organizations/application/services/organization-invitation.service';
+import { OrganizationsPersistenceModule } from '@/modules/organizations/infrastructure/persistence/organizations-persistence.module';
+import { PermissionsModule } from '@/modules/permissions/permissions.module';
+import { PlansModule } from '@/modules/plans/plans.module';
 import { UsersPersistenceModule } from '@/modules/users/infrastructure/persistence/users-persistence.module';
+import { WsModule } from '@/modules/ws/ws.module';
 import { LoginUseCase } from './application/use-cases/login.use-case';
 import { LoginWithGoogleUseCase } from './application/use-cases/login-with-google.use-case';
+import { ListOidcProvidersUseCase } from './application/use-cases/list-oidc-providers.use-case';
+import { LoginWithOidcUseCase } from './application/use-cases/login-with-oidc.use-case';
+import { StartOidcAuthorizationUseCase } from './application/use-cases/start-oidc-authorization.use-case';
+import { ListIdentitiesUseCase } from './application/use-cases/list-identities.use-case';
+import { LinkGoogleIdentityUseCase } from './application/use-cases/link-google-identity.use-case';
+import { UnlinkIdentityUseCase } from './application/use-cases/unlink-identity.use-case';
+import { ChangePasswordUseCase } from './application/use-cases/change-password.use-case';
+import { SetPasswordUseCase } from './application/use-cases/set-password.use-case';
+import { GetPasswordPolicyUseCase } from './application/use-cases/get-password-policy.use-case';
 import { RequestPasswordResetUseCase } from './application/use-cases/request-password-reset.use-case';
 import { ResetPasswordUseCase } from './application/use-cases/reset-password.use-case';
-import { GoogleAuthService } from './application/services/google-auth.service';
+import { RefreshAuthTokensUseCase } from './application/use-cases/refresh-auth-tokens.use-case';
+import { RevokeRefreshTokenUseCase } from './application/use-cases/revoke-refresh-token.use-case';
+import { AccountLockoutService } from './application/services/account-lockout.service';
+import { AuthTokensService } from './application/services/auth-tokens.service';
+import { EmailVerificationService } from './application/services/email-verification.service';
+import { MfaService } from './application/services/mfa.service';
+import { OidcProviderRegistry } from './application/services/oidc-provider-registry.service';
+import { OidcService } from './application/services/oidc.service';
+import { UserIdentityService } from './application/services/user-identity.service';
+import { ReauthenticationService } from './application/services/reauthentication.service';
+import { PasswordService } from './application/services/password.service';
+import { ImpersonationAuditService } from './application/services/impersonation-audit.service';
+import { LoginHistoryService } from './application/services/login-history.service';
+import { StartImpersonationUseCase } from './application/use-cases/start-impersonation.use-case';
+import { EndImpersonationUseCase } from './application/use-cases/end-impersonation.use-case';
+import { WebAuthnChallengeService } from './application/services/webauthn-challenge.service';
+import { GetMfaStatusUseCase } from './application/use-cases/get-mfa-status.use-case';
+import { StartTotpEnrollmentUseCase } from './application/use-cases/start-totp-enrollment.use-case';
+import { ConfirmTotpEnrollmentUseCase } from './application/use-cases/confirm-totp-enrollment.use-case';
+import { RegenerateRecoveryCodesUseCase } from './application/use-cases/regenerate-recovery-codes.use-case';
+import { DisableMfaUseCase } from './application/use-cases/disable-mfa.use-case';
+import { VerifyMfaChallengeUseCase } from './application/use-cases/verify-mfa-challenge.use-case';
+import { StartPasskeyRegistrationUseCase } from './application/use-cases/start-passkey-registration.use-case';
+import { FinishPasskeyRegistrationUseCase } from './application/use-cases/finish-passkey-registration.use-case';
+import { StartPasskeyAuthenticationUseCase } from './application/use-cases/start-passkey-authentication.use-case';
+import { FinishPasskeyAuthenticationUseCase } from './application/use-cases/finish-passkey-authentication.use-case';
+import { ListPasskeysUseCase } from './application/use-cases/list-passkeys.use-case';
+import { RenamePasskeyUseCase } from './application/use-cases/rename-passkey.use-case';
+import { DeletePasskeyUseCase } from './application/use-cases/delete-passkey.use-case';
+import { RequestMagicLinkUseCase } from './application/use-cases/request-magic-link.use-case';
+import { ConsumeMagicLinkUseCase } from './application/use-cases/consume-magic-link.use-case';
+import { ListLoginHistoryUseCase } from './application/use-cases/list-login-history.use-case';
+import { ListSessionsUseCase } from './application/use-cases/list-sessions.use-case';
+import { RevokeSessionUseCase } from './application/use-cases/revoke-session.use-case';
+import { RevokeOtherSessionsUseCase } from './application/use-cases/revoke-other-sessions.use-case';
+import { VerifyEmailUseCase } from './application/use-cases/verify-email.use-case';
+import { RequestEmailVerificationUseCase } from './application/use-cases/request-email-verification.use-case';
 import { ValidatePasswordResetTokenUseCase } from './application/use-cases/validate-password-reset-token.use-case';
 import { AuthPersistenceModule } from './infrastructure/persistence/auth-persistence.module';
 import { AuthController } from './presentation/http/controllers/auth.controller';
+import { MfaController } from './presentation/http/controllers/mfa.controller';
+import { PasskeysController } from './presentation/http/controllers/passkeys.controller';
+import { SessionsController } from './presentation/http/controllers/sessions.controller';
+import { IdentitiesController } from './presentation/http/controllers/identities.controller';
+import { PasswordController } from './presentation/http/controllers/password.controller';
+import { ImpersonationController } from './presentation/http/controllers/impersonation.controller';
+import { LoginHistoryController } from './presentation/http/controllers/login-history.controller';
 
 /**
  * Auth Application Module
@@ -17,16 +74,80 @@ import { AuthController } from './presentation/http/controllers/auth.controller'
  * Main authentication module for the auth feature.
  */
 @Module({
-  imports: [UsersPersistenceModule, AuthPersistenceModule, EmailsModule],
+  imports: [
+    UsersPersistenceModule,
+    OrganizationsPersistenceModule,
+    PermissionsModule,
+    PlansModule,
+    AuthPersistenceModule,
+    EmailsModule,
+    WsModule,
+  ],
   providers: [
     CreateUserUseCase,
     LoginUseCase,
     LoginWithGoogleUseCase,
+    ListOidcProvidersUseCase,
+    StartOidcAuthorizationUseCase,
+    LoginWithOidcUseCase,
+    ListIdentitiesUseCase,
+    LinkGoogleIdentityUseCase,
+    UnlinkIdentityUseCase,
+    ChangePasswordUseCase,
+    SetPasswordUseCase,
+    GetPasswordPolicyUseCase,
     RequestPasswordResetUseCase,
     ValidatePasswordResetTokenUseCase,
     ResetPasswordUseCase,
-    GoogleAuthService,
+    RefreshAuthTokensUseCase,
+    RevokeRefreshTokenUseCase,
+    GetMfaStatusUseCase,
+    StartTotpEnrollmentUseCase,
+    ConfirmTotpEnrollmentUseCase,
+    RegenerateRecoveryCodesUseCase,
+    DisableMfaUseCase,
+    VerifyMfaChallengeUseCase,
+    StartPasskeyRegistrationUseCase,
+    FinishPasskeyRegistrationUseCase,
+    StartPasskeyAuthenticationUseCase,
+    FinishPasskeyAuthenticationUseCase,
+    ListPasskeysUseCase,
+    RenamePasskeyUseCase,
+    DeletePasskeyUseCase,
+    VerifyEmailUseCase,
+    RequestEmailVerificationUseCase,
+    RequestMagicLinkUseCase,
+    ConsumeMagicLinkUseCase,
+    ListSessionsUseCase,
+    RevokeSessionUseCase,
+    RevokeOtherSessionsUseCase,
+    ListLoginHistoryUseCase,
+    StartImpersonationUseCase,
+    EndImpersonationUseCase,
+    AuthTokensService,
+    MfaService,
+    WebAuthnChallengeService,
+    OidcProviderRegistry,
+    OidcService,
+    UserIdentityService,
+    ReauthenticationService,
+    PasswordService,
+    EmailVerificationService,
+    AccountLockoutService,
+    ImpersonationAuditService,
+    LoginHistoryService,
+    OrganizationInvitationService,
+  ],
+  controllers: [
+    AuthController,
+    MfaController,
+    PasskeysController,
+    SessionsController,
+    IdentitiesController,
+    PasswordController,
+    ImpersonationController,
+    LoginHistoryController,
   ],
-  controllers: [AuthController],
+  exports: [ImpersonationAuditService],
 })
 export class AuthModule {}
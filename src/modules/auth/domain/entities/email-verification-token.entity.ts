@@ -0,0 +1,11 @@
+export class EmailVerificationToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+
+  constructor(partial: Partial<EmailVerificationToken> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,18 @@
+export type ImpersonationEndReason = 'stopped' | 'logout';
+
+export class ImpersonationSession {
+  id: string;
+  impersonatorId: string | null;
+  targetUserId: string | null;
+  organizationId: string | null;
+  reason: string;
+  ip?: string | null;
+  userAgent?: string | null;
+  startedAt: Date;
+  endedAt?: Date | null;
+  endReason?: ImpersonationEndReason | null;
+
+  constructor(partial: Partial<ImpersonationSession> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,31 @@
+export type LoginMethod =
+  | 'password'
+  | 'google'
+  | 'oidc'
+  | 'passkey'
+  | 'magic_link'
+  | 'mfa'
+  | 'refresh_token';
+
+/**
+ * `mfa_required` marks a correct first factor whose login is still waiting
+ * for the second one; the completed login is recorded with method `mfa`.
+ */
+export type LoginOutcome = 'success' | 'failure' | 'mfa_required';
+
+export class LoginEvent {
+  id: string;
+  userId: string | null;
+  email?: string | null;
+  method: LoginMethod;
+  outcome: LoginOutcome;
+  failureReason?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  deviceFingerprint?: string | null;
+  createdAt: Date;
+
+  constructor(partial: Partial<LoginEvent> = {}) {
+    Object.assign(this, partial);
+  }
+}
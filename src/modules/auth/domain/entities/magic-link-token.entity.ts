@@ -0,0 +1,13 @@
+export class MagicLinkToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  nonceHash: string;
+  expiresAt: Date;
+  consumedAt: Date | null;
+  createdAt: Date;
+
+  constructor(partial: Partial<MagicLinkToken> = {}) {
+    Object.assign(this, partial);
+  }
+}
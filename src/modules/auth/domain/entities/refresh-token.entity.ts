@@ -0,0 +1,16 @@
+export class RefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  currentOrganizationId?: string | null;
+  mfaVerified: boolean;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedById?: string | null;
+  createdAt: Date;
+
+  constructor(partial: Partial<RefreshToken> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,14 @@
+export class UserIdentity {
+  id: string;
+  userId: string;
+  provider: string;
+  subject: string;
+  email?: string | null;
+  lastLoginAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<UserIdentity> = {}) {
+    Object.assign(this, partial);
+  }
+}
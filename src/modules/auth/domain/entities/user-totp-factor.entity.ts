@@ -0,0 +1,13 @@
+export class UserTotpFactor {
+  id: string;
+  userId: string;
+  encryptedSecret: string;
+  confirmedAt?: Date | null;
+  lastUsedStep?: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<UserTotpFactor> = {}) {
+    Object.assign(this, partial);
+  }
+}
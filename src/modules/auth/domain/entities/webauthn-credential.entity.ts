@@ -0,0 +1,19 @@
+export class WebAuthnCredential {
+  id: string;
+  userId: string;
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  name: string;
+  transports?: string[] | null;
+  aaguid?: string | null;
+  backupEligible: boolean;
+  backedUp: boolean;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<WebAuthnCredential> = {}) {
+    Object.assign(this, partial);
+  }
+}
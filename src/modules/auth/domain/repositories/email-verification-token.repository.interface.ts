@@ -0,0 +1,19 @@
+import { EmailVerificationToken } from '../entities/email-verification-token.entity';
+
+export interface CreateEmailVerificationTokenData {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+export interface IEmailVerificationTokenRepository {
+  create(data: CreateEmailVerificationTokenData): Promise<EmailVerificationToken>;
+  findValidByTokenHash(
+    tokenHash: string,
+    now: Date,
+  ): Promise<EmailVerificationToken | null>;
+  findLatestByUserId(userId: string): Promise<EmailVerificationToken | null>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const EMAIL_VERIFICATION_TOKEN_REPOSITORY = Symbol('EMAIL_VERIFICATION_TOKEN_REPOSITORY');
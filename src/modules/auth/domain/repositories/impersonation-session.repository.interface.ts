@@ -0,0 +1,31 @@
+import {
+  ImpersonationSession,
+  type ImpersonationEndReason,
+} from '../entities/impersonation-session.entity';
+
+export interface CreateImpersonationSessionData {
+  impersonatorId: string;
+  targetUserId: string;
+  organizationId: string;
+  reason: string;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface RecordImpersonationActionData {
+  impersonationSessionId: string;
+  method: string;
+  path: string;
+  statusCode: number;
+}
+
+export interface IImpersonationSessionRepository {
+  create(data: CreateImpersonationSessionData): Promise<ImpersonationSession>;
+  /**
+   * Closes an open impersonation. Returns false when it was already ended.
+   */
+  end(id: string, reason: ImpersonationEndReason, now: Date): Promise<boolean>;
+  recordAction(data: RecordImpersonationActionData): Promise<void>;
+}
+
+export const IMPERSONATION_SESSION_REPOSITORY = Symbol('IMPERSONATION_SESSION_REPOSITORY');
@@ -0,0 +1,40 @@
+import {
+  LoginEvent,
+  type LoginMethod,
+  type LoginOutcome,
+} from '../entities/login-event.entity';
+
+export interface CreateLoginEventData {
+  userId?: string | null;
+  email?: string | null;
+  method: LoginMethod;
+  outcome: LoginOutcome;
+  failureReason?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  deviceFingerprint?: string | null;
+}
+
+export interface ListLoginEventsFilters {
+  userId: string;
+  pageCount: number;
+  recordsPerPage: number;
+}
+
+export interface ListLoginEventsResult {
+  data: LoginEvent[];
+  total: number;
+}
+
+export interface ILoginEventRepository {
+  create(data: CreateLoginEventData): Promise<LoginEvent>;
+  listForUser(filters: ListLoginEventsFilters): Promise<ListLoginEventsResult>;
+  /**
+   * Whether the user has any successful login, optionally restricted to one
+   * device fingerprint.
+   */
+  hasSuccessfulLogin(userId: string, deviceFingerprint?: string): Promise<boolean>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const LOGIN_EVENT_REPOSITORY = Symbol('LOGIN_EVENT_REPOSITORY');
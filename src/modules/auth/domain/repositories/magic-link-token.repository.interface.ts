@@ -0,0 +1,20 @@
+import { MagicLinkToken } from '../entities/magic-link-token.entity';
+
+export interface CreateMagicLinkTokenData {
+  userId: string;
+  tokenHash: string;
+  nonceHash: string;
+  expiresAt: Date;
+}
+
+export interface IMagicLinkTokenRepository {
+  create(data: CreateMagicLinkTokenData): Promise<MagicLinkToken>;
+  /**
+   * Marks a valid, unconsumed token as used when both the token and the
+   * browser nonce match. Returns the owning user id, or null when nothing matched.
+   */
+  consume(tokenHash: string, nonceHash: string, now: Date): Promise<string | null>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const MAGIC_LINK_TOKEN_REPOSITORY = Symbol('MAGIC_LINK_TOKEN_REPOSITORY');
@@ -0,0 +1,13 @@
+export interface IPasswordHistoryRepository {
+  /**
+   * Returns the most recent password hashes of the user, newest first.
+   */
+  listRecentHashes(userId: string, limit: number): Promise<string[]>;
+  /**
+   * Stores a password hash and prunes the history down to `keep` entries.
+   */
+  record(userId: string, passwordHash: string, keep: number): Promise<void>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const PASSWORD_HISTORY_REPOSITORY = Symbol('PASSWORD_HISTORY_REPOSITORY');
@@ -0,0 +1,29 @@
+import { RefreshToken } from '../entities/refresh-token.entity';
+
+export interface CreateRefreshTokenData {
+  userId: string;
+  familyId?: string;
+  tokenHash: string;
+  currentOrganizationId?: string | null;
+  mfaVerified?: boolean;
+  expiresAt: Date;
+}
+
+export interface IRefreshTokenRepository {
+  create(data: CreateRefreshTokenData): Promise<RefreshToken>;
+  findByTokenHash(tokenHash: string): Promise<RefreshToken | null>;
+  /**
+   * Revokes the current token and issues its replacement in the same family.
+   * Returns null when the current token was already revoked concurrently.
+   */
+  rotate(
+    current: RefreshToken,
+    data: Omit<CreateRefreshTokenData, 'userId' | 'familyId'>,
+    now: Date,
+  ): Promise<RefreshToken | null>;
+  revokeFamily(familyId: string, now: Date): Promise<void>;
+  revokeByUserId(userId: string, now: Date): Promise<void>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const REFRESH_TOKEN_REPOSITORY = Symbol('REFRESH_TOKEN_REPOSITORY');
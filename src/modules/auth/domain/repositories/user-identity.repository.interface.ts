@@ -0,0 +1,20 @@
+import { UserIdentity } from '../entities/user-identity.entity';
+
+export interface CreateUserIdentityData {
+  userId: string;
+  provider: string;
+  subject: string;
+  email?: string | null;
+  lastLoginAt?: Date | null;
+}
+
+export interface IUserIdentityRepository {
+  create(data: CreateUserIdentityData): Promise<UserIdentity>;
+  findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | null>;
+  listForUser(userId: string): Promise<UserIdentity[]>;
+  recordLogin(id: string, email: string | null, now: Date): Promise<void>;
+  delete(userId: string, provider: string): Promise<boolean>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const USER_IDENTITY_REPOSITORY = Symbol('USER_IDENTITY_REPOSITORY');
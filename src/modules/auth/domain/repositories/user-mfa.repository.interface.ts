@@ -0,0 +1,17 @@
+import { UserTotpFactor } from '../entities/user-totp-factor.entity';
+
+export interface IUserMfaRepository {
+  findTotpFactor(userId: string): Promise<UserTotpFactor | null>;
+  /**
+   * Replaces any existing factor of the user with a new unconfirmed one.
+   */
+  savePendingTotpFactor(userId: string, encryptedSecret: string): Promise<UserTotpFactor>;
+  confirmTotpFactor(userId: string, lastUsedStep: number, now: Date): Promise<void>;
+  updateLastUsedStep(userId: string, lastUsedStep: number): Promise<void>;
+  deleteMfa(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+}
+
+export const USER_MFA_REPOSITORY = Symbol('USER_MFA_REPOSITORY');
@@ -0,0 +1,34 @@
+import { WebAuthnCredential } from '../entities/webauthn-credential.entity';
+
+export interface CreateWebAuthnCredentialData {
+  userId: string;
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  name: string;
+  transports?: string[] | null;
+  aaguid?: string | null;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+export interface IWebAuthnCredentialRepository {
+  create(data: CreateWebAuthnCredentialData): Promise<WebAuthnCredential>;
+  listForUser(userId: string): Promise<WebAuthnCredential[]>;
+  findByCredentialId(credentialId: string): Promise<WebAuthnCredential | null>;
+  rename(id: string, userId: string, name: string): Promise<WebAuthnCredential | null>;
+  delete(id: string, userId: string): Promise<boolean>;
+  /**
+   * Stores the new signature counter only if it is still greater than the
+   * persisted one, so concurrent assertions cannot roll the counter back.
+   */
+  recordUsage(
+    id: string,
+    previousSignCount: number,
+    data: { signCount: number; backedUp: boolean },
+    now: Date,
+  ): Promise<boolean>;
+  deleteByUserId(userId: string): Promise<number>;
+}
+
+export const WEBAUTHN_CREDENTIAL_REPOSITORY = Symbol('WEBAUTHN_CREDENTIAL_REPOSITORY');
@@ -1,14 +1,79 @@
 import { Module } from '@nestjs/common';
+import { EMAIL_VERIFICATION_TOKEN_REPOSITORY } from '@/modules/auth/domain/repositories/email-verification-token.repository.interface';
+import { IMPERSONATION_SESSION_REPOSITORY } from '@/modules/auth/domain/repositories/impersonation-session.repository.interface';
+import { LOGIN_EVENT_REPOSITORY } from '@/modules/auth/domain/repositories/login-event.repository.interface';
+import { MAGIC_LINK_TOKEN_REPOSITORY } from '@/modules/auth/domain/repositories/magic-link-token.repository.interface';
+import { PASSWORD_HISTORY_REPOSITORY } from '@/modules/auth/domain/repositories/password-history.repository.interface';
 import { PASSWORD_RESET_TOKEN_REPOSITORY } from '@/modules/auth/domain/repositories/password-reset-token.repository.interface';
+import { REFRESH_TOKEN_REPOSITORY } from '@/modules/auth/domain/repositories/refresh-token.repository.interface';
+import { USER_IDENTITY_REPOSITORY } from '@/modules/auth/domain/repositories/user-identity.repository.interface';
+import { USER_MFA_REPOSITORY } from '@/modules/auth/domain/repositories/user-mfa.repository.interface';
+import { WEBAUTHN_CREDENTIAL_REPOSITORY } from '@/modules/auth/domain/repositories/webauthn-credential.repository.interface';
+import { EmailVerificationTokenRepository } from './repositories/email-verification-token.repository';
+import { ImpersonationSessionRepository } from './repositories/impersonation-session.repository';
+import { LoginEventRepository } from './repositories/login-event.repository';
+import { MagicLinkTokenRepository } from './repositories/magic-link-token.repository';
+import { PasswordHistoryRepository } from './repositories/password-history.repository';
 import { PasswordResetTokenRepository } from './repositories/password-reset-token.repository';
+import { RefreshTokenRepository } from './repositories/refresh-token.repository';
+import { UserIdentityRepository } from './repositories/user-identity.repository';
+import { UserMfaRepository } from './repositories/user-mfa.repository';
+import { WebAuthnCredentialRepository } from './repositories/webauthn-credential.repository';
 
 @Module({
   providers: [
+    {
+      provide: EMAIL_VERIFICATION_TOKEN_REPOSITORY,
+      useClass: EmailVerificationTokenRepository,
+    },
+    {
+      provide: IMPERSONATION_SESSION_REPOSITORY,
+      useClass: ImpersonationSessionRepository,
+    },
+    {
+      provide: LOGIN_EVENT_REPOSITORY,
+      useClass: LoginEventRepository,
+    },
+    {
+      provide: MAGIC_LINK_TOKEN_REPOSITORY,
+      useClass: MagicLinkTokenRepository,
+    },
+    {
+      provide: PASSWORD_HISTORY_REPOSITORY,
+      useClass: PasswordHistoryRepository,
+    },
     {
       provide: PASSWORD_RESET_TOKEN_REPOSITORY,
       useClass: PasswordResetTokenRepository,
     },
+    {
+      provide: REFRESH_TOKEN_REPOSITORY,
+      useClass: RefreshTokenRepository,
+    },
+    {
+      provide: USER_IDENTITY_REPOSITORY,
+      useClass: UserIdentityRepository,
+    },
+    {
+      provide: USER_MFA_REPOSITORY,
+      useClass: UserMfaRepository,
+    },
+    {
+      provide: WEBAUTHN_CREDENTIAL_REPOSITORY,
+      useClass: WebAuthnCredentialRepository,
+    },
+  ],
+  exports: [
+    EMAIL_VERIFICATION_TOKEN_REPOSITORY,
+    IMPERSONATION_SESSION_REPOSITORY,
+    LOGIN_EVENT_REPOSITORY,
+    MAGIC_LINK_TOKEN_REPOSITORY,
+    PASSWORD_HISTORY_REPOSITORY,
+    PASSWORD_RESET_TOKEN_REPOSITORY,
+    REFRESH_TOKEN_REPOSITORY,
+    USER_IDENTITY_REPOSITORY,
+    USER_MFA_REPOSITORY,
+    WEBAUTHN_CREDENTIAL_REPOSITORY,
   ],
-  exports: [PASSWORD_RESET_TOKEN_REPOSITORY],
 })
 export class AuthPersistenceModule {}
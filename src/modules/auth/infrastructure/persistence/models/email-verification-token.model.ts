@@ -0,0 +1,20 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const EmailVerificationTokenModel = defineModel({
+  name: 'EmailVerificationToken',
+  table: 'email_verification_tokens',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    tokenHash: col.text(),
+    expiresAt: col.timestamp(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type EmailVerificationTokenRecord = InferModelShape<
+  typeof EmailVerificationTokenModel
+>;
@@ -0,0 +1,19 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const ImpersonationActionModel = defineModel({
+  name: 'ImpersonationAction',
+  table: 'impersonation_actions',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    impersonationSessionId: snowflakeIdColumn(),
+    method: col.text(),
+    path: col.text(),
+    statusCode: col.int(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type ImpersonationActionRecord = InferModelShape<typeof ImpersonationActionModel>;
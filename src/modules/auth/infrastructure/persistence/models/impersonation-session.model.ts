@@ -0,0 +1,23 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const ImpersonationSessionModel = defineModel({
+  name: 'ImpersonationSession',
+  table: 'impersonation_sessions',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    impersonatorId: snowflakeIdColumn().nullable(),
+    targetUserId: snowflakeIdColumn().nullable(),
+    organizationId: snowflakeIdColumn().nullable(),
+    reason: col.text(),
+    ip: col.text().nullable(),
+    userAgent: col.text().nullable(),
+    startedAt: col.timestamp().generated(),
+    endedAt: col.timestamp().nullable(),
+    endReason: col.text().nullable(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type ImpersonationSessionRecord = InferModelShape<typeof ImpersonationSessionModel>;
@@ -0,0 +1,23 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const LoginEventModel = defineModel({
+  name: 'LoginEvent',
+  table: 'login_events',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn().nullable(),
+    email: col.text().nullable(),
+    method: col.text(),
+    outcome: col.text(),
+    failureReason: col.text().nullable(),
+    ip: col.text().nullable(),
+    userAgent: col.text().nullable(),
+    deviceFingerprint: col.text().nullable(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type LoginEventRecord = InferModelShape<typeof LoginEventModel>;
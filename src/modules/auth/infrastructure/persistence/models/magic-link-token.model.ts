@@ -0,0 +1,22 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const MagicLinkTokenModel = defineModel({
+  name: 'MagicLinkToken',
+  table: 'magic_link_tokens',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    tokenHash: col.text(),
+    nonceHash: col.text(),
+    expiresAt: col.timestamp(),
+    consumedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type MagicLinkTokenRecord = InferModelShape<
+  typeof MagicLinkTokenModel
+>;
@@ -0,0 +1,17 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const PasswordHistoryModel = defineModel({
+  name: 'PasswordHistory',
+  table: 'password_history',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    passwordHash: col.text(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type PasswordHistoryRecord = InferModelShape<typeof PasswordHistoryModel>;
@@ -0,0 +1,23 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const RefreshTokenModel = defineModel({
+  name: 'RefreshToken',
+  table: 'refresh_tokens',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    familyId: snowflakeIdColumn(),
+    tokenHash: col.text(),
+    currentOrganizationId: snowflakeIdColumn().nullable(),
+    mfaVerified: col.boolean(),
+    expiresAt: col.timestamp(),
+    revokedAt: col.timestamp().nullable(),
+    replacedById: snowflakeIdColumn().nullable(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type RefreshTokenRecord = InferModelShape<typeof RefreshTokenModel>;
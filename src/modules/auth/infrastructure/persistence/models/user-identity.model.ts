@@ -0,0 +1,21 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const UserIdentityModel = defineModel({
+  name: 'UserIdentity',
+  table: 'user_identities',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    provider: col.text(),
+    subject: col.text(),
+    email: col.text().nullable(),
+    lastLoginAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type UserIdentityRecord = InferModelShape<typeof UserIdentityModel>;
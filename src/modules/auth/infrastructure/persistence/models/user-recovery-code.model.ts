@@ -0,0 +1,18 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const UserRecoveryCodeModel = defineModel({
+  name: 'UserRecoveryCode',
+  table: 'user_recovery_codes',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    codeHash: col.text(),
+    usedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type UserRecoveryCodeRecord = InferModelShape<typeof UserRecoveryCodeModel>;
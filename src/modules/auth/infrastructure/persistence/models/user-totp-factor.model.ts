@@ -0,0 +1,20 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const UserTotpFactorModel = defineModel({
+  name: 'UserTotpFactor',
+  table: 'user_totp_factors',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    encryptedSecret: col.text(),
+    confirmedAt: col.timestamp().nullable(),
+    lastUsedStep: col.int().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type UserTotpFactorRecord = InferModelShape<typeof UserTotpFactorModel>;
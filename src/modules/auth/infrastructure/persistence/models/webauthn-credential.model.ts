@@ -0,0 +1,30 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const WebAuthnCredentialModel = defineModel({
+  name: 'WebAuthnCredential',
+  table: 'webauthn_credentials',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    credentialId: col.text(),
+    publicKey: col.text(),
+    signCount: col
+      .custom<number, 'bigint'>('bigint')
+      .nativeType('bigint')
+      .hydrate((value) => Number(value))
+      .serialize((value) => BigInt(value)),
+    name: col.text(),
+    transports: col.custom<string[], 'text[]'>('text[]').nativeType('text[]').nullable(),
+    aaguid: col.text().nullable(),
+    backupEligible: col.boolean(),
+    backedUp: col.boolean(),
+    lastUsedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type WebAuthnCredentialRecord = InferModelShape<typeof WebAuthnCredentialModel>;
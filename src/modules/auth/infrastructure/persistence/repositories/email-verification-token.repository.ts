@@ -0,0 +1,95 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { EmailVerificationToken } from '@/modules/auth/domain/entities/email-verification-token.entity';
+import type {
+  CreateEmailVerificationTokenData,
+  IEmailVerificationTokenRepository,
+} from '@/modules/auth/domain/repositories/email-verification-token.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  EmailVerificationTokenModel,
+  type EmailVerificationTokenRecord,
+} from '../models/email-verification-token.model';
+
+@Injectable()
+export class EmailVerificationTokenRepository implements IEmailVerificationTokenRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateEmailVerificationTokenData): Promise<EmailVerificationToken> {
+    const rows = await this.objxSession.execute(
+      EmailVerificationTokenModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId: data.userId,
+          tokenHash: data.tokenHash,
+          expiresAt: data.expiresAt,
+        })
+        .returning(({ id, userId, tokenHash, expiresAt, createdAt }) => [
+          id,
+          userId,
+          tokenHash,
+          expiresAt,
+          createdAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Email verification token insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async findValidByTokenHash(tokenHash: string, now: Date): Promise<EmailVerificationToken | null> {
+    const rows = await this.objxSession.execute(
+      EmailVerificationTokenModel
+        .query()
+        .where(({ tokenHash: storedTokenHash, expiresAt }, op) =>
+          op.and(
+            op.eq(storedTokenHash, tokenHash),
+            op.gt(expiresAt, now),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findLatestByUserId(userId: string): Promise<EmailVerificationToken | null> {
+    const rows = await this.objxSession.execute(
+      EmailVerificationTokenModel
+        .query()
+        .where(({ userId: tokenUserId }, op) => op.eq(tokenUserId, userId))
+        .orderBy(({ createdAt }) => createdAt, 'desc')
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      EmailVerificationTokenModel
+        .delete()
+        .where(({ userId: tokenUserId }, op) => op.eq(tokenUserId, userId)),
+    );
+  }
+
+  private mapRow(row: EmailVerificationTokenRecord): EmailVerificationToken {
+    return new EmailVerificationToken({
+      id: row.id,
+      userId: row.userId,
+      tokenHash: row.tokenHash,
+      expiresAt: row.expiresAt,
+      createdAt: row.createdAt,
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ImpersonationSession,
+  type ImpersonationEndReason,
+} from '@/modules/auth/domain/entities/impersonation-session.entity';
+import type {
+  CreateImpersonationSessionData,
+  IImpersonationSessionRepository,
+  RecordImpersonationActionData,
+} from '@/modules/auth/domain/repositories/impersonation-session.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { ImpersonationActionModel } from '../models/impersonation-action.model';
+import {
+  ImpersonationSessionModel,
+  type ImpersonationSessionRecord,
+} from '../models/impersonation-session.model';
+
+@Injectable()
+export class ImpersonationSessionRepository implements IImpersonationSessionRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateImpersonationSessionData): Promise<ImpersonationSession> {
+    const rows = await this.objxSession.execute(
+      ImpersonationSessionModel
+        .insert({
+          id: generateSnowflakeId(),
+          impersonatorId: data.impersonatorId,
+          targetUserId: data.targetUserId,
+          organizationId: data.organizationId,
+          reason: data.reason,
+          ip: data.ip ?? null,
+          userAgent: data.userAgent ?? null,
+        })
+        .returning(({
+          id,
+          impersonatorId,
+          targetUserId,
+          organizationId,
+          reason,
+          ip,
+          userAgent,
+          startedAt,
+          endedAt,
+          endReason,
+        }) => [
+          id,
+          impersonatorId,
+          targetUserId,
+          organizationId,
+          reason,
+          ip,
+          userAgent,
+          startedAt,
+          endedAt,
+          endReason,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Impersonation session insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async end(id: string, reason: ImpersonationEndReason, now: Date): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      ImpersonationSessionModel
+        .update({
+          endedAt: now,
+          endReason: reason,
+        })
+        .where(({ id: sessionId, endedAt }, op) =>
+          op.and(
+            op.eq(sessionId, id),
+            op.isNull(endedAt),
+          ),
+        )
+        .returning(({ id: sessionId }) => [sessionId]),
+    );
+
+    return rows.length > 0;
+  }
+
+  async recordAction(data: RecordImpersonationActionData): Promise<void> {
+    await this.objxSession.execute(
+      ImpersonationActionModel.insert({
+        id: generateSnowflakeId(),
+        impersonationSessionId: data.impersonationSessionId,
+        method: data.method,
+        path: data.path,
+        statusCode: data.statusCode,
+      }),
+    );
+  }
+
+  private mapRow(row: ImpersonationSessionRecord): ImpersonationSession {
+    return new ImpersonationSession({
+      id: row.id,
+      impersonatorId: row.impersonatorId ?? null,
+      targetUserId: row.targetUserId ?? null,
+      organizationId: row.organizationId ?? null,
+      reason: row.reason,
+      ip: row.ip ?? null,
+      userAgent: row.userAgent ?? null,
+      startedAt: row.startedAt,
+      endedAt: row.endedAt ?? null,
+      endReason: (row.endReason as ImpersonationEndReason | null) ?? null,
+    });
+  }
+}
@@ -0,0 +1,141 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
+import {
+  LoginEvent,
+  type LoginMethod,
+  type LoginOutcome,
+} from '@/modules/auth/domain/entities/login-event.entity';
+import type {
+  CreateLoginEventData,
+  ILoginEventRepository,
+  ListLoginEventsFilters,
+  ListLoginEventsResult,
+} from '@/modules/auth/domain/repositories/login-event.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { LoginEventModel, type LoginEventRecord } from '../models/login-event.model';
+
+@Injectable()
+export class LoginEventRepository implements ILoginEventRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateLoginEventData): Promise<LoginEvent> {
+    const rows = await this.objxSession.execute(
+      LoginEventModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId: data.userId ?? null,
+          email: data.email ?? null,
+          method: data.method,
+          outcome: data.outcome,
+          failureReason: data.failureReason ?? null,
+          ip: data.ip ?? null,
+          userAgent: data.userAgent ?? null,
+          deviceFingerprint: data.deviceFingerprint ?? null,
+        })
+        .returning(({
+          id,
+          userId,
+          email,
+          method,
+          outcome,
+          failureReason,
+          ip,
+          userAgent,
+          deviceFingerprint,
+          createdAt,
+        }) => [
+          id,
+          userId,
+          email,
+          method,
+          outcome,
+          failureReason,
+          ip,
+          userAgent,
+          deviceFingerprint,
+          createdAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Login event insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async listForUser(filters: ListLoginEventsFilters): Promise<ListLoginEventsResult> {
+    const [countRows, rows] = await Promise.all([
+      this.objxSession.execute(
+        LoginEventModel
+          .query()
+          .where(({ userId }, op) => op.eq(userId, filters.userId))
+          .selectExpr('total', ({ id }) => expr.count<number>(id)),
+      ),
+      this.objxSession.execute(
+        LoginEventModel
+          .query()
+          .where(({ userId }, op) => op.eq(userId, filters.userId))
+          .orderBy(({ createdAt }) => createdAt, 'desc')
+          .offset((filters.pageCount - 1) * filters.recordsPerPage)
+          .limit(filters.recordsPerPage),
+      ),
+    ]);
+
+    return {
+      data: rows.map((row) => this.mapRow(row)),
+      total: Number(countRows[0]?.total ?? 0),
+    };
+  }
+
+  async hasSuccessfulLogin(userId: string, deviceFingerprint?: string): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      LoginEventModel
+        .query()
+        .where(({ userId: eventUserId, outcome, deviceFingerprint: fingerprint }, op) =>
+          deviceFingerprint === undefined
+            ? op.and(
+              op.eq(eventUserId, userId),
+              op.eq(outcome, 'success'),
+            )
+            : op.and(
+              op.eq(eventUserId, userId),
+              op.eq(outcome, 'success'),
+              op.eq(fingerprint, deviceFingerprint),
+            ),
+        )
+        .limit(1),
+    );
+
+    return rows.length > 0;
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      LoginEventModel
+        .delete()
+        .where(({ userId: eventUserId }, op) => op.eq(eventUserId, userId)),
+    );
+  }
+
+  private mapRow(row: LoginEventRecord): LoginEvent {
+    return new LoginEvent({
+      id: row.id,
+      userId: row.userId ?? null,
+      email: row.email ?? null,
+      method: row.method as LoginMethod,
+      outcome: row.outcome as LoginOutcome,
+      failureReason: row.failureReason ?? null,
+      ip: row.ip ?? null,
+      userAgent: row.userAgent ?? null,
+      deviceFingerprint: row.deviceFingerprint ?? null,
+      createdAt: row.createdAt,
+    });
+  }
+}
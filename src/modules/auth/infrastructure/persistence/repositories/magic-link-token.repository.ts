@@ -0,0 +1,89 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { MagicLinkToken } from '@/modules/auth/domain/entities/magic-link-token.entity';
+import type {
+  CreateMagicLinkTokenData,
+  IMagicLinkTokenRepository,
+} from '@/modules/auth/domain/repositories/magic-link-token.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  MagicLinkTokenModel,
+  type MagicLinkTokenRecord,
+} from '../models/magic-link-token.model';
+
+@Injectable()
+export class MagicLinkTokenRepository implements IMagicLinkTokenRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateMagicLinkTokenData): Promise<MagicLinkToken> {
+    const rows = await this.objxSession.execute(
+      MagicLinkTokenModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId: data.userId,
+          tokenHash: data.tokenHash,
+          nonceHash: data.nonceHash,
+          expiresAt: data.expiresAt,
+          consumedAt: null,
+        })
+        .returning(({ id, userId, tokenHash, nonceHash, expiresAt, consumedAt, createdAt }) => [
+          id,
+          userId,
+          tokenHash,
+          nonceHash,
+          expiresAt,
+          consumedAt,
+          createdAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Magic link token insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async consume(tokenHash: string, nonceHash: string, now: Date): Promise<string | null> {
+    const rows = await this.objxSession.execute(
+      MagicLinkTokenModel
+        .update({ consumedAt: now })
+        .where(({ tokenHash: storedTokenHash, nonceHash: storedNonceHash, expiresAt, consumedAt }, op) =>
+          op.and(
+            op.eq(storedTokenHash, tokenHash),
+            op.eq(storedNonceHash, nonceHash),
+            op.gt(expiresAt, now),
+            op.isNull(consumedAt),
+          ),
+        )
+        .returning(({ userId }) => [userId]),
+    );
+
+    return rows[0]?.userId ?? null;
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      MagicLinkTokenModel
+        .delete()
+        .where(({ userId: tokenUserId }, op) => op.eq(tokenUserId, userId)),
+    );
+  }
+
+  private mapRow(row: MagicLinkTokenRecord): MagicLinkToken {
+    return new MagicLinkToken({
+      id: row.id,
+      userId: row.userId,
+      tokenHash: row.tokenHash,
+      nonceHash: row.nonceHash,
+      expiresAt: row.expiresAt,
+      consumedAt: row.consumedAt ?? null,
+      createdAt: row.createdAt,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { IPasswordHistoryRepository } from '@/modules/auth/domain/repositories/password-history.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { PasswordHistoryModel } from '../models/password-history.model';
+
+@Injectable()
+export class PasswordHistoryRepository implements IPasswordHistoryRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async listRecentHashes(userId: string, limit: number): Promise<string[]> {
+    const rows = await this.objxSession.execute(
+      PasswordHistoryModel
+        .query()
+        .where(({ userId: historyUserId }, op) => op.eq(historyUserId, userId))
+        .orderBy(({ createdAt }) => createdAt, 'desc')
+        .limit(limit),
+    );
+
+    return rows.map((row) => row.passwordHash);
+  }
+
+  record(userId: string, passwordHash: string, keep: number): Promise<void> {
+    return this.objxSession.transaction(async (trxSession) => {
+      await trxSession.execute(
+        PasswordHistoryModel.insert({
+          id: generateSnowflakeId(),
+          userId,
+          passwordHash,
+        }),
+      );
+
+      const rows = await trxSession.execute(
+        PasswordHistoryModel
+          .query()
+          .where(({ userId: historyUserId }, op) => op.eq(historyUserId, userId))
+          .orderBy(({ createdAt }) => createdAt, 'desc'),
+      );
+      const staleIds = rows.slice(keep).map((row) => row.id);
+
+      if (staleIds.length === 0) {
+        return;
+      }
+
+      await trxSession.execute(
+        PasswordHistoryModel
+          .delete()
+          .where(({ id }, op) => op.in(id, staleIds)),
+      );
+    });
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      PasswordHistoryModel
+        .delete()
+        .where(({ userId: historyUserId }, op) => op.eq(historyUserId, userId)),
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { RefreshToken } from '@/modules/auth/domain/entities/refresh-token.entity';
+import type {
+  CreateRefreshTokenData,
+  IRefreshTokenRepository,
+} from '@/modules/auth/domain/repositories/refresh-token.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  RefreshTokenModel,
+  type RefreshTokenRecord,
+} from '../models/refresh-token.model';
+
+@Injectable()
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  create(data: CreateRefreshTokenData): Promise<RefreshToken> {
+    return this.insertWithExecutor(this.objxSession, generateSnowflakeId(), data);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    const rows = await this.objxSession.execute(
+      RefreshTokenModel
+        .query()
+        .where(({ tokenHash: storedTokenHash }, op) => op.eq(storedTokenHash, tokenHash))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  rotate(
+    current: RefreshToken,
+    data: Omit<CreateRefreshTokenData, 'userId' | 'familyId'>,
+    now: Date,
+  ): Promise<RefreshToken | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const replacementId = generateSnowflakeId();
+      const revokedRows = await trxSession.execute(
+        RefreshTokenModel
+          .update({
+            revokedAt: now,
+            replacedById: replacementId,
+          })
+          .where(({ id, revokedAt }, op) =>
+            op.and(
+              op.eq(id, current.id),
+              op.isNull(revokedAt),
+            ),
+          )
+          .returning(({ id }) => [id]),
+      );
+
+      if (revokedRows.length === 0) {
+        return null;
+      }
+
+      return this.insertWithExecutor(trxSession, replacementId, {
+        ...data,
+        userId: current.userId,
+        familyId: current.familyId,
+      });
+    });
+  }
+
+  async revokeFamily(familyId: string, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      RefreshTokenModel
+        .update({ revokedAt: now })
+        .where(({ familyId: tokenFamilyId, revokedAt }, op) =>
+          op.and(
+            op.eq(tokenFamilyId, familyId),
+            op.isNull(revokedAt),
+          ),
+        ),
+    );
+  }
+
+  async revokeByUserId(userId: string, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      RefreshTokenModel
+        .update({ revokedAt: now })
+        .where(({ userId: tokenUserId, revokedAt }, op) =>
+          op.and(
+            op.eq(tokenUserId, userId),
+            op.isNull(revokedAt),
+          ),
+        ),
+    );
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      RefreshTokenModel
+        .delete()
+        .where(({ userId: tokenUserId }, op) => op.eq(tokenUserId, userId)),
+    );
+  }
+
+  private async insertWithExecutor(
+    executor: ObjxSession,
+    id: string,
+    data: CreateRefreshTokenData,
+  ): Promise<RefreshToken> {
+    const rows = await executor.execute(
+      RefreshTokenModel
+        .insert({
+          id,
+          userId: data.userId,
+          familyId: data.familyId ?? id,
+          tokenHash: data.tokenHash,
+          currentOrganizationId: data.currentOrganizationId ?? null,
+          mfaVerified: data.mfaVerified ?? false,
+          expiresAt: data.expiresAt,
+        })
+        .returning(({
+          id: tokenId,
+          userId,
+          familyId,
+          tokenHash,
+          currentOrganizationId,
+          mfaVerified,
+          expiresAt,
+          revokedAt,
+          replacedById,
+          createdAt,
+        }) => [
+          tokenId,
+          userId,
+          familyId,
+          tokenHash,
+          currentOrganizationId,
+          mfaVerified,
+          expiresAt,
+          revokedAt,
+          replacedById,
+          createdAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Refresh token insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  private mapRow(row: RefreshTokenRecord): RefreshToken {
+    return new RefreshToken({
+      id: row.id,
+      userId: row.userId,
+      familyId: row.familyId,
+      tokenHash: row.tokenHash,
+      currentOrganizationId: row.currentOrganizationId ?? null,
+      mfaVerified: row.mfaVerified,
+      expiresAt: row.expiresAt,
+      revokedAt: row.revokedAt ?? null,
+      replacedById: row.replacedById ?? null,
+      createdAt: row.createdAt,
+    });
+  }
+}
@@ -0,0 +1,137 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { UserIdentity } from '@/modules/auth/domain/entities/user-identity.entity';
+import type {
+  CreateUserIdentityData,
+  IUserIdentityRepository,
+} from '@/modules/auth/domain/repositories/user-identity.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  UserIdentityModel,
+  type UserIdentityRecord,
+} from '../models/user-identity.model';
+
+@Injectable()
+export class UserIdentityRepository implements IUserIdentityRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateUserIdentityData): Promise<UserIdentity> {
+    const rows = await this.objxSession.execute(
+      UserIdentityModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId: data.userId,
+          provider: data.provider,
+          subject: data.subject,
+          email: data.email ?? null,
+          lastLoginAt: data.lastLoginAt ?? null,
+        })
+        .returning(({
+          id,
+          userId,
+          provider,
+          subject,
+          email,
+          lastLoginAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          userId,
+          provider,
+          subject,
+          email,
+          lastLoginAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('User identity insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | null> {
+    const rows = await this.objxSession.execute(
+      UserIdentityModel
+        .query()
+        .where(({ provider: identityProvider, subject: identitySubject }, op) =>
+          op.and(
+            op.eq(identityProvider, provider),
+            op.eq(identitySubject, subject),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async listForUser(userId: string): Promise<UserIdentity[]> {
+    const rows = await this.objxSession.execute(
+      UserIdentityModel
+        .query()
+        .where(({ userId: identityUserId }, op) => op.eq(identityUserId, userId))
+        .orderBy(({ createdAt }) => createdAt, 'asc'),
+    );
+
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  async recordLogin(id: string, email: string | null, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      UserIdentityModel
+        .update({
+          email,
+          lastLoginAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: identityId }, op) => op.eq(identityId, id)),
+    );
+  }
+
+  async delete(userId: string, provider: string): Promise<boolean> {
+    const deletedRows = await this.objxSession.execute(
+      UserIdentityModel
+        .delete()
+        .where(({ userId: identityUserId, provider: identityProvider }, op) =>
+          op.and(
+            op.eq(identityUserId, userId),
+            op.eq(identityProvider, provider),
+          ),
+        ),
+    );
+
+    return deletedRows > 0;
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      UserIdentityModel
+        .delete()
+        .where(({ userId: identityUserId }, op) => op.eq(identityUserId, userId)),
+    );
+  }
+
+  private mapRow(row: UserIdentityRecord): UserIdentity {
+    return new UserIdentity({
+      id: row.id,
+      userId: row.userId,
+      provider: row.provider,
+      subject: row.subject,
+      email: row.email ?? null,
+      lastLoginAt: row.lastLoginAt ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+}
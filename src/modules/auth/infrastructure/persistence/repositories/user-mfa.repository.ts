@@ -0,0 +1,182 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
+import { UserTotpFactor } from '@/modules/auth/domain/entities/user-totp-factor.entity';
+import type { IUserMfaRepository } from '@/modules/auth/domain/repositories/user-mfa.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { UserRecoveryCodeModel } from '../models/user-recovery-code.model';
+import {
+  UserTotpFactorModel,
+  type UserTotpFactorRecord,
+} from '../models/user-totp-factor.model';
+
+@Injectable()
+export class UserMfaRepository implements IUserMfaRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async findTotpFactor(userId: string): Promise<UserTotpFactor | null> {
+    const rows = await this.objxSession.execute(
+      UserTotpFactorModel
+        .query()
+        .where(({ userId: factorUserId }, op) => op.eq(factorUserId, userId))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapTotpFactorRow(row) : null;
+  }
+
+  savePendingTotpFactor(userId: string, encryptedSecret: string): Promise<UserTotpFactor> {
+    return this.objxSession.transaction(async (trxSession) => {
+      await trxSession.execute(
+        UserTotpFactorModel
+          .delete()
+          .where(({ userId: factorUserId }, op) => op.eq(factorUserId, userId)),
+      );
+
+      const rows = await trxSession.execute(
+        UserTotpFactorModel
+          .insert({
+            id: generateSnowflakeId(),
+            userId,
+            encryptedSecret,
+          })
+          .returning(({
+            id,
+            userId: factorUserId,
+            encryptedSecret: storedSecret,
+            confirmedAt,
+            lastUsedStep,
+            createdAt,
+            updatedAt,
+          }) => [
+            id,
+            factorUserId,
+            storedSecret,
+            confirmedAt,
+            lastUsedStep,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      if (!row) {
+        throw new Error('TOTP factor insert did not return a row.');
+      }
+
+      return this.mapTotpFactorRow(row);
+    });
+  }
+
+  async confirmTotpFactor(userId: string, lastUsedStep: number, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      UserTotpFactorModel
+        .update({
+          confirmedAt: now,
+          lastUsedStep,
+          updatedAt: now,
+        })
+        .where(({ userId: factorUserId }, op) => op.eq(factorUserId, userId)),
+    );
+  }
+
+  async updateLastUsedStep(userId: string, lastUsedStep: number): Promise<void> {
+    await this.objxSession.execute(
+      UserTotpFactorModel
+        .update({
+          lastUsedStep,
+          updatedAt: new Date(),
+        })
+        .where(({ userId: factorUserId }, op) => op.eq(factorUserId, userId)),
+    );
+  }
+
+  deleteMfa(userId: string): Promise<void> {
+    return this.objxSession.transaction(async (trxSession) => {
+      await trxSession.execute(
+        UserRecoveryCodeModel
+          .delete()
+          .where(({ userId: codeUserId }, op) => op.eq(codeUserId, userId)),
+      );
+      await trxSession.execute(
+        UserTotpFactorModel
+          .delete()
+          .where(({ userId: factorUserId }, op) => op.eq(factorUserId, userId)),
+      );
+    });
+  }
+
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    return this.objxSession.transaction(async (trxSession) => {
+      await trxSession.execute(
+        UserRecoveryCodeModel
+          .delete()
+          .where(({ userId: codeUserId }, op) => op.eq(codeUserId, userId)),
+      );
+
+      if (codeHashes.length === 0) {
+        return;
+      }
+
+      await trxSession.execute(
+        UserRecoveryCodeModel.insert(
+          codeHashes.map((codeHash) => ({
+            id: generateSnowflakeId(),
+            userId,
+            codeHash,
+          })),
+        ),
+      );
+    });
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      UserRecoveryCodeModel
+        .update({ usedAt: now })
+        .where(({ userId: codeUserId, codeHash: storedCodeHash, usedAt }, op) =>
+          op.and(
+            op.eq(codeUserId, userId),
+            op.eq(storedCodeHash, codeHash),
+            op.isNull(usedAt),
+          ),
+        )
+        .returning(({ id }) => [id]),
+    );
+
+    return rows.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const rows = await this.objxSession.execute(
+      UserRecoveryCodeModel
+        .query()
+        .where(({ userId: codeUserId, usedAt }, op) =>
+          op.and(
+            op.eq(codeUserId, userId),
+            op.isNull(usedAt),
+          ),
+        )
+        .selectExpr('total', ({ id }) => expr.count<number>(id)),
+    );
+
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  private mapTotpFactorRow(row: UserTotpFactorRecord): UserTotpFactor {
+    return new UserTotpFactor({
+      id: row.id,
+      userId: row.userId,
+      encryptedSecret: row.encryptedSecret,
+      confirmedAt: row.confirmedAt ?? null,
+      lastUsedStep: row.lastUsedStep ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+}
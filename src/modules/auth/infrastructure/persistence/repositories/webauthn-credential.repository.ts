@@ -0,0 +1,213 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { WebAuthnCredential } from '@/modules/auth/domain/entities/webauthn-credential.entity';
+import type {
+  CreateWebAuthnCredentialData,
+  IWebAuthnCredentialRepository,
+} from '@/modules/auth/domain/repositories/webauthn-credential.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  WebAuthnCredentialModel,
+  type WebAuthnCredentialRecord,
+} from '../models/webauthn-credential.model';
+
+@Injectable()
+export class WebAuthnCredentialRepository implements IWebAuthnCredentialRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateWebAuthnCredentialData): Promise<WebAuthnCredential> {
+    const rows = await this.objxSession.execute(
+      WebAuthnCredentialModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId: data.userId,
+          credentialId: data.credentialId,
+          publicKey: data.publicKey,
+          signCount: data.signCount,
+          name: data.name,
+          transports: data.transports ?? null,
+          aaguid: data.aaguid ?? null,
+          backupEligible: data.backupEligible,
+          backedUp: data.backedUp,
+        })
+        .returning(({
+          id,
+          userId,
+          credentialId,
+          publicKey,
+          signCount,
+          name,
+          transports,
+          aaguid,
+          backupEligible,
+          backedUp,
+          lastUsedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          userId,
+          credentialId,
+          publicKey,
+          signCount,
+          name,
+          transports,
+          aaguid,
+          backupEligible,
+          backedUp,
+          lastUsedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('WebAuthn credential insert did not return a row.');
+    }
+
+    return this.mapRow(row);
+  }
+
+  async listForUser(userId: string): Promise<WebAuthnCredential[]> {
+    const rows = await this.objxSession.execute(
+      WebAuthnCredentialModel
+        .query()
+        .where(({ userId: credentialUserId }, op) => op.eq(credentialUserId, userId))
+        .orderBy(({ createdAt }) => createdAt, 'desc'),
+    );
+
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  async findByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+    const rows = await this.objxSession.execute(
+      WebAuthnCredentialModel
+        .query()
+        .where(({ credentialId: storedCredentialId }, op) => op.eq(storedCredentialId, credentialId))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async rename(id: string, userId: string, name: string): Promise<WebAuthnCredential | null> {
+    const rows = await this.objxSession.execute(
+      WebAuthnCredentialModel
+        .update({
+          name,
+          updatedAt: new Date(),
+        })
+        .where(({ id: credentialRowId, userId: credentialUserId }, op) =>
+          op.and(
+            op.eq(credentialRowId, id),
+            op.eq(credentialUserId, userId),
+          ),
+        )
+        .returning(({
+          id: credentialRowId,
+          userId: credentialUserId,
+          credentialId,
+          publicKey,
+          signCount,
+          name: credentialName,
+          transports,
+          aaguid,
+          backupEligible,
+          backedUp,
+          lastUsedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          credentialRowId,
+          credentialUserId,
+          credentialId,
+          publicKey,
+          signCount,
+          credentialName,
+          transports,
+          aaguid,
+          backupEligible,
+          backedUp,
+          lastUsedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    return row ? this.mapRow(row) : null;
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const deletedRows = await this.objxSession.execute(
+      WebAuthnCredentialModel
+        .delete()
+        .where(({ id: credentialRowId, userId: credentialUserId }, op) =>
+          op.and(
+            op.eq(credentialRowId, id),
+            op.eq(credentialUserId, userId),
+          ),
+        ),
+    );
+
+    return deletedRows > 0;
+  }
+
+  async recordUsage(
+    id: string,
+    previousSignCount: number,
+    data: { signCount: number; backedUp: boolean },
+    now: Date,
+  ): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      WebAuthnCredentialModel
+        .update({
+          signCount: data.signCount,
+          backedUp: data.backedUp,
+          lastUsedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: credentialRowId, signCount }, op) =>
+          op.and(
+            op.eq(credentialRowId, id),
+            op.eq(signCount, previousSignCount),
+          ),
+        )
+        .returning(({ id: credentialRowId }) => [credentialRowId]),
+    );
+
+    return rows.length > 0;
+  }
+
+  deleteByUserId(userId: string): Promise<number> {
+    return this.objxSession.execute(
+      WebAuthnCredentialModel
+        .delete()
+        .where(({ userId: credentialUserId }, op) => op.eq(credentialUserId, userId)),
+    );
+  }
+
+  private mapRow(row: WebAuthnCredentialRecord): WebAuthnCredential {
+    return new WebAuthnCredential({
+      id: row.id,
+      userId: row.userId,
+      credentialId: row.credentialId,
+      publicKey: row.publicKey,
+      signCount: row.signCount,
+      name: row.name,
+      transports: row.transports ?? null,
+      aaguid: row.aaguid ?? null,
+      backupEligible: row.backupEligible,
+      backedUp: row.backedUp,
+      lastUsedAt: row.lastUsedAt ?? null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+}
@@ -1,41 +1,149 @@
-import { Body, Controller, Get, HttpCode, HttpStatus, Post, Query, Req, Res } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Redirect,
+  Req,
+  Res,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
 import { CreateUserUseCase } from '@/modules/users/application/use-cases/create-user.use-case';
 import { LoginUseCase } from '@/modules/auth/application/use-cases/login.use-case';
 import { LoginWithGoogleUseCase } from '@/modules/auth/application/use-cases/login-with-google.use-case';
+import { ListOidcProvidersUseCase } from '@/modules/auth/application/use-cases/list-oidc-providers.use-case';
+import { LoginWithOidcUseCase } from '@/modules/auth/application/use-cases/login-with-oidc.use-case';
+import { StartOidcAuthorizationUseCase } from '@/modules/auth/application/use-cases/start-oidc-authorization.use-case';
+import { ImpersonationAuditService } from '@/modules/auth/application/services/impersonation-audit.service';
+import {
+  LoginHistoryService,
+  type LoginClientContext,
+} from '@/modules/auth/application/services/login-history.service';
+import {
+  LOGIN_FAILURE_INVALID_SECOND_FACTOR,
+  LOGIN_FAILURE_PROVIDER_ERROR,
+} from '@/modules/auth/application/constants/login-history.constants';
+import type { LoginMethod, LoginOutcome } from '@/modules/auth/domain/entities/login-event.entity';
+import { GetPasswordPolicyUseCase } from '@/modules/auth/application/use-cases/get-password-policy.use-case';
 import { RequestPasswordResetUseCase } from '@/modules/auth/application/use-cases/request-password-reset.use-case';
 import { ResetPasswordUseCase } from '@/modules/auth/application/use-cases/reset-password.use-case';
+import { RequestEmailVerificationUseCase } from '@/modules/auth/application/use-cases/request-email-verification.use-case';
+import { ConsumeMagicLinkUseCase } from '@/modules/auth/application/use-cases/consume-magic-link.use-case';
+import { RequestMagicLinkUseCase } from '@/modules/auth/application/use-cases/request-magic-link.use-case';
+import { VerifyEmailUseCase } from '@/modules/auth/application/use-cases/verify-email.use-case';
 import { ValidatePasswordResetTokenUseCase } from '@/modules/auth/application/use-cases/validate-password-reset-token.use-case';
-import { toUserResponseDto, UserResponse } from '@/modules/users/presentation/http/dtos';
-import { ApiDoc, Public } from '@/shared/http/decorators';
+import { RefreshAuthTokensUseCase } from '@/modules/auth/application/use-cases/refresh-auth-tokens.use-case';
+import { RevokeRefreshTokenUseCase } from '@/modules/auth/application/use-cases/revoke-refresh-token.use-case';
+import { AuthTokensService } from '@/modules/auth/application/services/auth-tokens.service';
+import { LOGIN_RATE_LIMIT } from '@/modules/auth/application/constants/account-lockout.constants';
+import { AUTH_TOKEN_ISSUED_MESSAGE } from '@/modules/auth/application/constants/auth-token.constants';
+import {
+  MAGIC_LINK_NONCE_COOKIE_NAME,
+  MAGIC_LINK_TOKEN_TTL_MINUTES,
+} from '@/modules/auth/application/constants/magic-link.constants';
+import {
+  OIDC_LOGIN_PATH,
+  OIDC_STATE_COOKIE_NAME,
+} from '@/modules/auth/application/constants/oidc.constants';
+import { generateMagicLinkNonce } from '@/modules/auth/application/utils/magic-link-token.util';
+import {
+  MFA_INVALID_CODE_MESSAGE,
+  MFA_MAX_VERIFY_ATTEMPTS,
+  MFA_PENDING_INVALID_MESSAGE,
+  MFA_REQUIRED_MESSAGE,
+} from '@/modules/auth/application/constants/mfa.constants';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import { MfaService } from '@/modules/auth/application/services/mfa.service';
+import { FinishPasskeyAuthenticationUseCase } from '@/modules/auth/application/use-cases/finish-passkey-authentication.use-case';
+import { StartPasskeyAuthenticationUseCase } from '@/modules/auth/application/use-cases/start-passkey-authentication.use-case';
+import { VerifyMfaChallengeUseCase } from '@/modules/auth/application/use-cases/verify-mfa-challenge.use-case';
+import { OrganizationInvitationService } from '@/modules/organizations/application/services/organization-invitation.service';
+import type { PublicUser } from '@/modules/users/domain/entities/user.entity';
+import { toUserResponseDto, UserResponse, UserResponseDto } from '@/modules/users/presentation/http/dtos';
+import { ApiDoc, Public, RateLimit, SkipCsrf } from '@/shared/http/decorators';
 import { ResponseHelper } from '@/shared/http/helpers/response-helper';
 import {
   AuthResponseDto,
+  AuthTokenResponseDto,
+  ConsumeMagicLinkDto,
+  CsrfTokenResponseDto,
   ForgotPasswordDto,
   ForgotPasswordResponseDto,
   GoogleLoginDto,
+  GoogleTokenLoginDto,
   LoginDto,
+  OidcAuthorizeQueryDto,
+  OidcCallbackQueryDto,
+  OidcProviderListResponseDto,
+  OidcProviderParamDto,
+  PasskeyAuthenticationDto,
+  PasskeyAuthenticationOptionsResponseDto,
+  PasswordPolicyResponseDto,
+  RefreshAuthTokenDto,
   RegisterDto,
+  RequestMagicLinkDto,
+  RequestMagicLinkResponseDto,
+  ResendEmailVerificationDto,
+  ResendEmailVerificationResponseDto,
   ResetPasswordDto,
   ResetPasswordResponseDto,
+  RevokeRefreshTokenDto,
+  RevokeRefreshTokenResponseDto,
+  SecondFactorDto,
+  toAuthTokensResponseDto,
+  TokenLoginDto,
   ValidatePasswordResetTokenDto,
   ValidatePasswordResetTokenResponseDto,
+  VerifyEmailDto,
 } from '../dtos';
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { envConfig } from '@/config/env.config';
+import { CSRF_HEADER_NAME, generateCsrfToken } from '@/shared/csrf/csrf.util';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { toSessionHandle } from '@/shared/session-registry/session-registry.util';
 import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
+import { WsGateway } from '@/modules/ws/ws.gateway';
+import type { AppPendingMfaSession } from '@/shared/context/app-session-context';
+import { getSessionFromRequest } from '@/shared/context/execution-context-session.util';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly sessionStorageService: SessionStorageService,
+    private readonly sessionRegistryService: SessionRegistryService,
+    private readonly wsGateway: WsGateway,
     private readonly createUserUseCase: CreateUserUseCase,
     private readonly loginUseCase: LoginUseCase,
     private readonly loginWithGoogleUseCase: LoginWithGoogleUseCase,
     private readonly requestPasswordResetUseCase: RequestPasswordResetUseCase,
     private readonly validatePasswordResetTokenUseCase: ValidatePasswordResetTokenUseCase,
     private readonly resetPasswordUseCase: ResetPasswordUseCase,
+    private readonly authTokensService: AuthTokensService,
+    private readonly refreshAuthTokensUseCase: RefreshAuthTokensUseCase,
+    private readonly revokeRefreshTokenUseCase: RevokeRefreshTokenUseCase,
+    private readonly verifyMfaChallengeUseCase: VerifyMfaChallengeUseCase,
+    private readonly mfaService: MfaService,
+    private readonly startPasskeyAuthenticationUseCase: StartPasskeyAuthenticationUseCase,
+    private readonly finishPasskeyAuthenticationUseCase: FinishPasskeyAuthenticationUseCase,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly verifyEmailUseCase: VerifyEmailUseCase,
+    private readonly requestEmailVerificationUseCase: RequestEmailVerificationUseCase,
+    private readonly requestMagicLinkUseCase: RequestMagicLinkUseCase,
+    private readonly consumeMagicLinkUseCase: ConsumeMagicLinkUseCase,
+    private readonly listOidcProvidersUseCase: ListOidcProvidersUseCase,
+    private readonly startOidcAuthorizationUseCase: StartOidcAuthorizationUseCase,
+    private readonly loginWithOidcUseCase: LoginWithOidcUseCase,
+    private readonly getPasswordPolicyUseCase: GetPasswordPolicyUseCase,
+    private readonly impersonationAuditService: ImpersonationAuditService,
+    private readonly loginHistoryService: LoginHistoryService,
+    private readonly organizationInvitationService: OrganizationInvitationService,
   ) { }
 
   @Public()
@@ -43,40 +151,73 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiDoc({
     summary: 'Check session',
-    description: 'Check if this session is authenticated'
+    description: 'Check if this session or bearer access token is authenticated. While impersonating, `impersonation` holds the real user and when it started.'
   })
   me(@Req() req: FastifyRequest) {
-    const user = req.session.authenticated
+    const session = getSessionFromRequest(req) ?? {};
+    const user = session.authenticated
       ? {
-          id: req.session.userId,
-          email: req.session.email,
-          name: req.session.name,
+          id: session.userId,
+          email: session.email,
+          name: session.name,
         }
       : null;
-    const currentOrganization = req.session.currentOrganizationId
+    const currentOrganization = session.currentOrganizationId
       ? {
-          id: req.session.currentOrganizationId,
-          name: req.session.currentOrganizationName,
-          role: req.session.currentOrganizationRole,
+          id: session.currentOrganizationId,
+          name: session.currentOrganizationName,
+          role: session.currentOrganizationRole,
+        }
+      : null;
+
+    const impersonation = session.impersonatorId && req.session.impersonation
+      ? {
+          impersonator: {
+            id: session.impersonatorId,
+            email: req.session.impersonation.impersonatorEmail,
+            name: req.session.impersonation.impersonatorName,
+          },
+          startedAt: new Date(req.session.impersonation.startedAt).toISOString(),
         }
       : null;
 
     return ResponseHelper.success({
       user,
       currentOrganization,
-      authenticated: req.session.authenticated ?? false,
+      impersonation,
+      authenticated: session.authenticated ?? false,
     });
   }
 
+  @Public()
+  @Get('csrf')
+  @ApiDoc({
+    summary: 'Get CSRF token',
+    description: `Returns the CSRF token of the current cookie session, creating it on first use. Logging in starts a new session with a new token, so fetch it again afterwards. Send it in the \`${CSRF_HEADER_NAME}\` header on every POST, PUT, PATCH and DELETE made with the session cookie. Requests authenticated with a bearer token or an API key do not need it.`,
+    response: CsrfTokenResponseDto,
+  })
+  async csrf(@Req() request: FastifyRequest) {
+    if (!request.session.csrfToken) {
+      request.session.csrfToken = generateCsrfToken();
+      await request.session.save();
+    }
+
+    return ResponseHelper.success(
+      { csrfToken: request.session.csrfToken, headerName: CSRF_HEADER_NAME },
+      'CSRF token retrieved successfully',
+    );
+  }
+
   @Public()
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
   @ApiDoc({
     summary: 'User register',
-    description: 'Create a new user account and authenticate the session.',
+    description: 'Create a new user account and authenticate the session. When email verification is required for login the session is not authenticated and `emailVerificationRequired` is returned instead. With `invitationToken` the email must match the organization invitation, and the new account joins that organization.',
     response: AuthResponseDto,
     commonResponses: [
       'badRequest',
+      'forbidden',
       {
         type: 'conflict',
         description: 'User email already exists',
@@ -87,14 +228,35 @@ export class AuthController {
     @Req() request: FastifyRequest,
     @Body() registerDto: RegisterDto,
   ): Promise<AuthResponseDto> {
-    const result = await this.createUserUseCase.execute(registerDto);
+    const { invitationToken, ...input } = registerDto;
+
+    // Checked up front so a bad invitation does not leave a half-finished signup behind.
+    if (invitationToken) {
+      await this.organizationInvitationService.assertAcceptableBy(invitationToken, input.email);
+    }
+
+    const result = await this.createUserUseCase.execute(input);
     const user = toUserResponseDto(result.data);
 
-    this.setAuthenticatedSession(request, user);
-    await request.session.save();
+    if (invitationToken) {
+      await this.organizationInvitationService.accept(invitationToken, result.data);
+    }
+
+    if (this.emailVerificationService.isLoginBlocked(result.data)) {
+      return {
+        user,
+        mfaRequired: false,
+        emailVerificationRequired: true,
+        message: result.message,
+      };
+    }
+
+    await this.setAuthenticatedSession(request, user);
+    await this.saveAuthenticatedSession(request);
 
     return {
       user,
+      mfaRequired: false,
       message: result.message,
     };
   }
@@ -102,9 +264,10 @@ export class AuthController {
   @Public()
   @Post('login')
   @HttpCode(HttpStatus.OK)
+  @RateLimit(LOGIN_RATE_LIMIT)
   @ApiDoc({
     summary: 'User login',
-    description: 'Authenticate user with email and password. Returns user data without sensitive information.',
+    description: 'Authenticate user with email and password. Returns user data without sensitive information. When the user has MFA enabled the session stays pending until `POST /auth/mfa/verify`.',
     response: AuthResponseDto,
     commonResponses: [
       'badRequest',
@@ -112,6 +275,14 @@ export class AuthController {
         type: 'unauthorized',
         description: 'Invalid credentials',
       },
+      {
+        type: 'forbidden',
+        description: 'Email address is not verified',
+      },
+      {
+        type: 'tooManyRequests',
+        description: 'Too many attempts or account temporarily locked',
+      },
     ],
   })
   async login(
@@ -121,14 +292,28 @@ export class AuthController {
     const result = await this.loginUseCase.execute({
       email: loginDto.email,
       password: loginDto.password,
+      client: getLoginClient(request),
     });
 
     const user = toUserResponseDto(result.user);
-    this.setAuthenticatedSession(request, user);
-    await request.session.save();
+
+    if (result.mfaRequired) {
+      this.setPendingMfaSession(request, user);
+      await request.session.save();
+
+      return {
+        user,
+        mfaRequired: true,
+        message: MFA_REQUIRED_MESSAGE,
+      };
+    }
+
+    await this.setAuthenticatedSession(request, user);
+    await this.saveAuthenticatedSession(request);
 
     return {
-      user: toUserResponseDto(result.user),
+      user,
+      mfaRequired: false,
       message: 'Login successful',
     };
   }
@@ -158,18 +343,437 @@ export class AuthController {
   ): Promise<AuthResponseDto> {
     const result = await this.loginWithGoogleUseCase.execute({
       idToken: googleLoginDto.idToken,
+      client: getLoginClient(request),
     });
 
     const user = toUserResponseDto(result.user);
-    this.setAuthenticatedSession(request, user);
-    await request.session.save();
+
+    if (result.mfaRequired) {
+      this.setPendingMfaSession(request, user);
+      await request.session.save();
+
+      return {
+        user,
+        mfaRequired: true,
+        message: MFA_REQUIRED_MESSAGE,
+      };
+    }
+
+    await this.setAuthenticatedSession(request, user);
+    await this.saveAuthenticatedSession(request);
 
     return {
       user,
+      mfaRequired: false,
       message: result.message,
     };
   }
 
+  @Public()
+  @Get('oidc/providers')
+  @ApiDoc({
+    summary: 'List identity providers',
+    description: 'Lists the OpenID Connect providers available for redirect sign-in.',
+    response: OidcProviderListResponseDto,
+  })
+  listOidcProviders() {
+    const result = this.listOidcProvidersUseCase.execute();
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Public()
+  @Get('password-policy')
+  @ApiDoc({
+    summary: 'Get password policy',
+    description: 'Returns the rules applied when a password is set, so clients can render them. Violations are returned as `{ code, message }` entries in `data` of the 400 response.',
+    response: PasswordPolicyResponseDto,
+  })
+  getPasswordPolicy() {
+    const result = this.getPasswordPolicyUseCase.execute();
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Public()
+  @Get('oidc/:provider/authorize')
+  @Redirect()
+  @ApiDoc({
+    summary: 'Start identity provider sign-in',
+    description: 'Redirects the browser to the provider authorization endpoint using the authorization code flow with PKCE. The request is bound to this browser with a state cookie. `returnTo` is the application path opened after sign-in.',
+    commonResponses: ['badRequest', 'notFound'],
+    params: [{ name: 'provider', description: 'Identity provider id', example: 'google' }],
+    query: [{ name: 'returnTo', description: 'Application path to open after sign-in', example: '/dashboard' }],
+  })
+  async startOidcAuthorization(
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Param() params: OidcProviderParamDto,
+    @Query() dto: OidcAuthorizeQueryDto,
+  ) {
+    const { authorizationUrl, state } = await this.startOidcAuthorizationUseCase.execute({
+      providerId: params.provider,
+      returnTo: dto.returnTo,
+    });
+
+    reply.setCookie(OIDC_STATE_COOKIE_NAME, state, {
+      httpOnly: true,
+      secure: envConfig.session.cookie.secure,
+      // The callback is a cross-site top-level navigation, which strict cookies would not survive.
+      sameSite: envConfig.session.cookie.sameSite === 'none' ? 'none' : 'lax',
+      path: envConfig.session.cookie.path,
+      domain: envConfig.session.cookie.domain,
+      maxAge: envConfig.auth.oidc.stateTtlSeconds,
+    });
+
+    return { url: authorizationUrl, statusCode: HttpStatus.FOUND };
+  }
+
+  @Public()
+  @Get('oidc/:provider/callback')
+  @Redirect()
+  @ApiDoc({
+    summary: 'Identity provider callback',
+    description: `Redirect URI registered at the provider. Validates the state and the ID token, signs the user in and redirects to \`returnTo\`. When MFA is required it redirects to \`${OIDC_LOGIN_PATH}?mfaRequired=true\`; failures redirect to \`${OIDC_LOGIN_PATH}?error=oidc_failed\`.`,
+    params: [{ name: 'provider', description: 'Identity provider id', example: 'google' }],
+  })
+  async completeOidcAuthorization(
+    @Req() request: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Param() params: OidcProviderParamDto,
+    @Query() dto: OidcCallbackQueryDto,
+  ) {
+    const browserState = request.cookies[OIDC_STATE_COOKIE_NAME];
+
+    reply.clearCookie(OIDC_STATE_COOKIE_NAME, {
+      path: envConfig.session.cookie.path,
+      domain: envConfig.session.cookie.domain,
+    });
+
+    let result: Awaited<ReturnType<LoginWithOidcUseCase['execute']>>;
+
+    try {
+      result = await this.loginWithOidcUseCase.execute({
+        providerId: params.provider,
+        code: dto.code,
+        state: dto.state,
+        browserState,
+        providerError: dto.error,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await this.loginHistoryService.record({
+          method: 'oidc',
+          outcome: 'failure',
+          client: getLoginClient(request),
+          failureReason: LOGIN_FAILURE_PROVIDER_ERROR,
+        });
+
+        return { url: buildAppUrl(OIDC_LOGIN_PATH, { error: 'oidc_failed' }), statusCode: HttpStatus.FOUND };
+      }
+
+      throw error;
+    }
+
+    const user = toUserResponseDto(result.user);
+
+    await this.recordLogin(request, 'oidc', result.mfaRequired ? 'mfa_required' : 'success', user);
+
+    if (result.mfaRequired) {
+      this.setPendingMfaSession(request, user);
+      await request.session.save();
+
+      return {
+        url: buildAppUrl(OIDC_LOGIN_PATH, { mfaRequired: 'true', returnTo: result.returnTo }),
+        statusCode: HttpStatus.FOUND,
+      };
+    }
+
+    await this.setAuthenticatedSession(request, user);
+    await this.saveAuthenticatedSession(request);
+
+    return { url: buildAppUrl(result.returnTo ?? '/'), statusCode: HttpStatus.FOUND };
+  }
+
+  @Public()
+  @Post('mfa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Verify MFA challenge',
+    description: 'Completes a pending login with a TOTP code or a one-time recovery code and authenticates the session.',
+    body: SecondFactorDto,
+    response: AuthResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid code or no pending MFA login',
+      },
+    ],
+  })
+  async verifyMfa(
+    @Req() request: FastifyRequest,
+    @Body() dto: SecondFactorDto,
+  ): Promise<AuthResponseDto> {
+    return this.completePendingMfa(request, (userId) =>
+      this.verifyMfaChallengeUseCase.execute(userId, dto),
+    );
+  }
+
+  @Public()
+  @Post('mfa/passkey/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Start passkey MFA challenge',
+    description: 'Returns assertion options restricted to the passkeys of the user with a pending login.',
+    response: PasskeyAuthenticationOptionsResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'No pending MFA login',
+      },
+    ],
+  })
+  async startPasskeyMfa(@Req() request: FastifyRequest) {
+    const pending = await this.getPendingMfa(request);
+    const result = await this.startPasskeyAuthenticationUseCase.execute(pending.userId);
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Public()
+  @Post('mfa/passkey/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Verify passkey MFA challenge',
+    description: 'Completes a pending login with a passkey assertion used as the second factor.',
+    body: PasskeyAuthenticationDto,
+    response: AuthResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid assertion or no pending MFA login',
+      },
+    ],
+  })
+  async verifyPasskeyMfa(
+    @Req() request: FastifyRequest,
+    @Body() dto: PasskeyAuthenticationDto,
+  ): Promise<AuthResponseDto> {
+    return this.completePendingMfa(request, (userId) =>
+      this.finishPasskeyAuthenticationUseCase.execute(dto, userId),
+    );
+  }
+
+  @Public()
+  @Post('passkeys/authentication/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Start passkey login',
+    description: 'Returns `PublicKeyCredentialRequestOptions` for a discoverable credential login and a `challengeId` to send back with the assertion.',
+    response: PasskeyAuthenticationOptionsResponseDto,
+  })
+  async startPasskeyLogin() {
+    const result = await this.startPasskeyAuthenticationUseCase.execute();
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Public()
+  @Post('passkeys/authentication')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Login with passkey',
+    description: 'Verifies a user-verified passkey assertion and authenticates the session. Counts as multi-factor authentication.',
+    body: PasskeyAuthenticationDto,
+    response: AuthResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid passkey assertion',
+      },
+    ],
+  })
+  async loginWithPasskey(
+    @Req() request: FastifyRequest,
+    @Body() dto: PasskeyAuthenticationDto,
+  ): Promise<AuthResponseDto> {
+    const result = await this.finishPasskeyAuthenticationUseCase.execute(dto);
+    const user = toUserResponseDto(result.user);
+
+    await this.recordLogin(request, 'passkey', 'success', user);
+    await this.setAuthenticatedSession(request, user, true);
+    await this.saveAuthenticatedSession(request);
+
+    return {
+      user,
+      mfaRequired: false,
+      message: result.message,
+    };
+  }
+
+  @Public()
+  @SkipCsrf()
+  @Post('token')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(LOGIN_RATE_LIMIT)
+  @ApiDoc({
+    summary: 'Issue access tokens',
+    description: 'Authenticate with email and password and return a bearer access token with a rotating refresh token. Does not create a cookie session. Users with MFA enabled must also send `mfaCode` or `recoveryCode`.',
+    response: AuthTokenResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid credentials',
+      },
+      {
+        type: 'tooManyRequests',
+        description: 'Too many attempts or account temporarily locked',
+      },
+    ],
+  })
+  async issueToken(
+    @Req() request: FastifyRequest,
+    @Body() dto: TokenLoginDto,
+  ) {
+    const result = await this.loginUseCase.execute({
+      email: dto.email,
+      password: dto.password,
+      client: getLoginClient(request),
+    });
+
+    if (result.mfaRequired) {
+      await this.verifyTokenSecondFactor(request, result.user, dto);
+    }
+
+    return this.buildTokenResponse(result.user, result.mfaRequired);
+  }
+
+  @Public()
+  @SkipCsrf()
+  @Post('token/google')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Issue access tokens with Google',
+    description: 'Authenticate or create a user with a Google ID token and return a bearer access token with a rotating refresh token. Users with MFA enabled must also send `mfaCode` or `recoveryCode`.',
+    response: AuthTokenResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid Google token',
+      },
+      {
+        type: 'conflict',
+        description: 'Google account conflict',
+      },
+    ],
+  })
+  async issueTokenWithGoogle(
+    @Req() request: FastifyRequest,
+    @Body() dto: GoogleTokenLoginDto,
+  ) {
+    const result = await this.loginWithGoogleUseCase.execute({
+      idToken: dto.idToken,
+      client: getLoginClient(request),
+    });
+
+    if (result.mfaRequired) {
+      await this.verifyTokenSecondFactor(request, result.user, dto);
+    }
+
+    return this.buildTokenResponse(result.user, result.mfaRequired);
+  }
+
+  @Public()
+  @SkipCsrf()
+  @Post('token/passkey')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Issue access tokens with passkey',
+    description: 'Verifies a user-verified passkey assertion obtained from `POST /auth/passkeys/authentication/options` and returns a bearer access token with a rotating refresh token.',
+    body: PasskeyAuthenticationDto,
+    response: AuthTokenResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid passkey assertion',
+      },
+    ],
+  })
+  async issueTokenWithPasskey(
+    @Req() request: FastifyRequest,
+    @Body() dto: PasskeyAuthenticationDto,
+  ) {
+    const result = await this.finishPasskeyAuthenticationUseCase.execute(dto);
+
+    await this.recordLogin(request, 'passkey', 'success', result.user);
+
+    return this.buildTokenResponse(result.user, true);
+  }
+
+  @Public()
+  @SkipCsrf()
+  @Post('token/refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Refresh access tokens',
+    description: 'Exchanges a refresh token for a new token pair. The presented refresh token is rotated; reusing a rotated token revokes its whole family. Optionally selects the organization embedded in the new access token.',
+    response: AuthTokenResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid, expired or reused refresh token',
+      },
+      {
+        type: 'conflict',
+        description: 'Organization is not accessible',
+      },
+    ],
+  })
+  async refreshToken(
+    @Req() request: FastifyRequest,
+    @Body() dto: RefreshAuthTokenDto,
+  ) {
+    const result = await this.refreshAuthTokensUseCase.execute({
+      refreshToken: dto.refreshToken,
+      organizationId: dto.organizationId,
+      client: getLoginClient(request),
+    });
+
+    return ResponseHelper.success(
+      {
+        user: toUserResponseDto(result.data.user),
+        currentOrganization: result.data.currentOrganization,
+        tokens: toAuthTokensResponseDto(result.data.tokens),
+      },
+      result.message,
+    );
+  }
+
+  @Public()
+  @SkipCsrf()
+  @Post('token/revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Revoke refresh token',
+    description: 'Revokes the refresh token family. Always returns a success response; access tokens already issued remain valid until they expire.',
+    response: RevokeRefreshTokenResponseDto,
+    commonResponses: ['badRequest'],
+  })
+  async revokeToken(@Body() dto: RevokeRefreshTokenDto) {
+    const result = await this.revokeRefreshTokenUseCase.execute({
+      refreshToken: dto.refreshToken,
+    });
+
+    return ResponseHelper.success({ revoked: true }, result.message);
+  }
+
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   @ApiDoc({
@@ -181,6 +785,19 @@ export class AuthController {
     @Res({ passthrough: true }) reply: FastifyReply,
   ) {
     this.clearAuthenticatedSessionContext();
+
+    const { sessionId, userId, impersonatorId, impersonation } = request.session;
+    if (impersonation) {
+      await this.impersonationAuditService.end(impersonation.id, 'logout');
+    }
+
+    // Impersonating sessions are indexed under the real user.
+    const ownerId = impersonatorId ?? userId;
+    if (ownerId) {
+      await this.sessionRegistryService.forget(ownerId, sessionId);
+      this.wsGateway.disconnectSessions([toSessionHandle(sessionId)]);
+    }
+
     await new Promise<void>((resolve, reject) => {
       request.session.destroy((err) => {
         if (err) {
@@ -199,11 +816,16 @@ export class AuthController {
   @Public()
   @Post('forgot-password')
   @HttpCode(HttpStatus.OK)
+  @RateLimit({
+    name: 'forgot-password',
+    windowSeconds: 900,
+    limits: { ip: 10, email: 3 },
+  })
   @ApiDoc({
     summary: 'Request password reset',
     description: 'Requests a password reset link and always returns a generic success response.',
     response: ForgotPasswordResponseDto,
-    commonResponses: ['badRequest'],
+    commonResponses: ['badRequest', 'tooManyRequests'],
   })
   async forgotPassword(@Body() dto: ForgotPasswordDto) {
     const result = await this.requestPasswordResetUseCase.execute({
@@ -216,11 +838,16 @@ export class AuthController {
   @Public()
   @Get('reset-password/validate')
   @HttpCode(HttpStatus.OK)
+  @RateLimit({
+    name: 'reset-password-validate',
+    windowSeconds: 60,
+    limits: { ip: 20 },
+  })
   @ApiDoc({
     summary: 'Validate password reset token',
     description: 'Validates whether the password reset token received by email is still valid.',
     response: ValidatePasswordResetTokenResponseDto,
-    commonResponses: ['badRequest'],
+    commonResponses: ['badRequest', 'tooManyRequests'],
     query: [
       {
         name: 'token',
@@ -260,14 +887,288 @@ export class AuthController {
     return ResponseHelper.success({ completed: true }, result.message);
   }
 
-  private setAuthenticatedSession(request: FastifyRequest, user: UserResponse) {
-    request.session.userId = user.id;
-    request.session.email = user.email;
-    request.session.name = user.name;
+  @Public()
+  @Post('magic-link')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({
+    name: 'magic-link',
+    windowSeconds: 900,
+    limits: { ip: 10, email: 3 },
+  })
+  @ApiDoc({
+    summary: 'Request magic sign-in link',
+    description: 'Emails a single-use sign-in link and binds it to this browser with a nonce cookie. Always returns a generic success response.',
+    body: RequestMagicLinkDto,
+    response: RequestMagicLinkResponseDto,
+    commonResponses: ['badRequest', 'tooManyRequests'],
+  })
+  async requestMagicLink(
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Body() dto: RequestMagicLinkDto,
+  ) {
+    const nonce = generateMagicLinkNonce();
+    const result = await this.requestMagicLinkUseCase.execute({
+      email: dto.email,
+      nonce,
+    });
+
+    // Set for unknown emails too, so the response does not reveal whether the account exists.
+    reply.setCookie(MAGIC_LINK_NONCE_COOKIE_NAME, nonce, {
+      httpOnly: true,
+      secure: envConfig.session.cookie.secure,
+      sameSite: envConfig.session.cookie.sameSite,
+      path: envConfig.session.cookie.path,
+      domain: envConfig.session.cookie.domain,
+      maxAge: MAGIC_LINK_TOKEN_TTL_MINUTES * 60,
+    });
+
+    return ResponseHelper.success({ submitted: true }, result.message);
+  }
+
+  @Public()
+  @Post('magic-link/consume')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Sign in with magic link',
+    description: 'Exchanges a magic link token for an authenticated session. Must be called from the browser that requested the link. When the user has MFA enabled the session stays pending until `POST /auth/mfa/verify`.',
+    body: ConsumeMagicLinkDto,
+    response: AuthResponseDto,
+    commonResponses: [
+      'badRequest',
+      {
+        type: 'unauthorized',
+        description: 'Invalid or expired sign-in link',
+      },
+    ],
+  })
+  async consumeMagicLink(
+    @Req() request: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+    @Body() dto: ConsumeMagicLinkDto,
+  ): Promise<AuthResponseDto> {
+    const result = await this.consumeMagicLinkUseCase.execute({
+      token: dto.token,
+      nonce: request.cookies[MAGIC_LINK_NONCE_COOKIE_NAME],
+    });
+
+    reply.clearCookie(MAGIC_LINK_NONCE_COOKIE_NAME, {
+      path: envConfig.session.cookie.path,
+      domain: envConfig.session.cookie.domain,
+    });
+
+    const user = toUserResponseDto(result.user);
+
+    await this.recordLogin(request, 'magic_link', result.mfaRequired ? 'mfa_required' : 'success', user);
+
+    if (result.mfaRequired) {
+      this.setPendingMfaSession(request, user);
+      await request.session.save();
+
+      return {
+        user,
+        mfaRequired: true,
+        message: MFA_REQUIRED_MESSAGE,
+      };
+    }
+
+    await this.setAuthenticatedSession(request, user);
+    await this.saveAuthenticatedSession(request);
+
+    return {
+      user,
+      mfaRequired: false,
+      message: result.message,
+    };
+  }
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Verify email address',
+    description: 'Marks the user email as verified using the single-use token received by email.',
+    body: VerifyEmailDto,
+    response: UserResponseDto,
+    commonResponses: ['badRequest'],
+  })
+  async verifyEmail(@Body() dto: VerifyEmailDto) {
+    const result = await this.verifyEmailUseCase.execute(dto.token);
+
+    return ResponseHelper.success(toUserResponseDto(result.data), result.message);
+  }
+
+  @Public()
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Resend verification email',
+    description: 'Sends a new verification link to an unverified account. Requests are throttled per account and always return a generic success response.',
+    body: ResendEmailVerificationDto,
+    response: ResendEmailVerificationResponseDto,
+    commonResponses: ['badRequest'],
+  })
+  async resendEmailVerification(@Body() dto: ResendEmailVerificationDto) {
+    const result = await this.requestEmailVerificationUseCase.execute({
+      email: dto.email,
+    });
+
+    return ResponseHelper.success({ submitted: true }, result.message);
+  }
+
+  private async getPendingMfa(request: FastifyRequest): Promise<AppPendingMfaSession> {
+    const pending = request.session.mfaPending;
+
+    if (!pending || pending.expiresAt <= Date.now() || pending.attempts >= MFA_MAX_VERIFY_ATTEMPTS) {
+      request.session.mfaPending = undefined;
+      await request.session.save();
+      throw new UnauthorizedException(MFA_PENDING_INVALID_MESSAGE);
+    }
+
+    return pending;
+  }
+
+  private async completePendingMfa(
+    request: FastifyRequest,
+    verify: (userId: string) => Promise<{ user: PublicUser; message: string }>,
+  ): Promise<AuthResponseDto> {
+    const pending = await this.getPendingMfa(request);
+
+    try {
+      const result = await verify(pending.userId);
+      const user = toUserResponseDto(result.user);
+
+      await this.recordLogin(request, 'mfa', 'success', user);
+      await this.setAuthenticatedSession(request, user, true);
+      await this.saveAuthenticatedSession(request);
+
+      return {
+        user,
+        mfaRequired: false,
+        message: result.message,
+      };
+    } catch (error) {
+      await this.loginHistoryService.record({
+        method: 'mfa',
+        outcome: 'failure',
+        client: getLoginClient(request),
+        userId: pending.userId,
+        failureReason: LOGIN_FAILURE_INVALID_SECOND_FACTOR,
+      });
+      request.session.mfaPending = { ...pending, attempts: pending.attempts + 1 };
+      await request.session.save();
+      throw error;
+    }
+  }
+
+  private async verifyTokenSecondFactor(
+    request: FastifyRequest,
+    user: PublicUser,
+    dto: { mfaCode?: string; recoveryCode?: string },
+  ): Promise<void> {
+    if (!dto.mfaCode && !dto.recoveryCode) {
+      throw new UnauthorizedException(MFA_REQUIRED_MESSAGE);
+    }
+
+    const isValid = await this.mfaService.verifySecondFactor(user.id, {
+      code: dto.mfaCode,
+      recoveryCode: dto.mfaCode ? undefined : dto.recoveryCode,
+    });
+
+    if (!isValid) {
+      await this.loginHistoryService.record({
+        method: 'mfa',
+        outcome: 'failure',
+        client: getLoginClient(request),
+        user,
+        failureReason: LOGIN_FAILURE_INVALID_SECOND_FACTOR,
+      });
+      throw new UnauthorizedException(MFA_INVALID_CODE_MESSAGE);
+    }
+
+    await this.recordLogin(request, 'mfa', 'success', user);
+  }
+
+  private recordLogin(
+    request: FastifyRequest,
+    method: LoginMethod,
+    outcome: LoginOutcome,
+    user: { id: string; email: string; name: string },
+  ): Promise<void> {
+    return this.loginHistoryService.record({
+      method,
+      outcome,
+      client: getLoginClient(request),
+      user,
+    });
+  }
+
+  private async buildTokenResponse(user: PublicUser, mfaVerified: boolean) {
+    const tokens = await this.authTokensService.issue({
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      authenticated: true,
+      mfaVerified,
+    });
+
+    return ResponseHelper.success(
+      {
+        user: toUserResponseDto(user),
+        currentOrganization: null,
+        tokens: toAuthTokensResponseDto(tokens),
+      },
+      AUTH_TOKEN_ISSUED_MESSAGE,
+    );
+  }
+
+  private setPendingMfaSession(request: FastifyRequest, user: UserResponse) {
+    this.clearSessionUser(request);
+    request.session.mfaPending = {
+      userId: user.id,
+      expiresAt: Date.now() + envConfig.auth.mfa.pendingTtlSeconds * 1000,
+      attempts: 0,
+    };
+  }
+
+  private clearSessionUser(request: FastifyRequest) {
+    request.session.userId = undefined;
+    request.session.email = undefined;
+    request.session.name = undefined;
     request.session.currentOrganizationId = undefined;
     request.session.currentOrganizationName = undefined;
     request.session.currentOrganizationRole = undefined;
+    request.session.authenticated = false;
+    request.session.mfaVerified = undefined;
+    request.session.sessionTrackedAt = undefined;
+    request.session.impersonatorId = undefined;
+    request.session.impersonationOrganizationId = undefined;
+    request.session.impersonation = undefined;
+  }
+
+  /**
+   * Moves the user into a brand new session: `regenerate` drops the previous
+   * session id, so one planted before the login is useless, and a new CSRF
+   * token is issued for the authenticated session.
+   */
+  private async setAuthenticatedSession(
+    request: FastifyRequest,
+    user: UserResponse,
+    mfaVerified = false,
+  ) {
+    const { sessionId, userId, impersonatorId } = request.session;
+    const previousOwnerId = impersonatorId ?? userId;
+
+    if (previousOwnerId) {
+      await this.sessionRegistryService.forget(previousOwnerId, sessionId);
+    }
+
+    await request.session.regenerate();
+    request.session.userId = user.id;
+    request.session.email = user.email;
+    request.session.name = user.name;
     request.session.authenticated = true;
+    request.session.mfaVerified = mfaVerified;
+    request.session.csrfToken = generateCsrfToken();
 
     this.sessionStorageService.updateStorageData({
       userId: user.id,
@@ -277,9 +1178,21 @@ export class AuthController {
       currentOrganizationName: undefined,
       currentOrganizationRole: undefined,
       authenticated: true,
+      mfaVerified,
+      impersonatorId: undefined,
+      impersonationOrganizationId: undefined,
     });
   }
 
+  /**
+   * Persists a freshly authenticated cookie session and records it in the
+   * per-user session index.
+   */
+  private async saveAuthenticatedSession(request: FastifyRequest) {
+    await this.sessionRegistryService.track(request);
+    await request.session.save();
+  }
+
   private clearAuthenticatedSessionContext() {
     this.sessionStorageService.setStorageData({});
   }
@@ -291,3 +1204,22 @@ export class AuthController {
     });
   }
 }
+
+function getLoginClient(request: FastifyRequest): LoginClientContext {
+  return {
+    ip: request.ip ?? null,
+    userAgent: request.headers['user-agent'] ?? null,
+  };
+}
+
+function buildAppUrl(path: string, query: Record<string, string | undefined> = {}): string {
+  const url = new URL(`${envConfig.appUrl.replace(/\/$/, '')}${path}`);
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  return url.toString();
+}
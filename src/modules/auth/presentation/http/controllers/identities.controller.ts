@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { LinkGoogleIdentityUseCase } from '@/modules/auth/application/use-cases/link-google-identity.use-case';
+import { ListIdentitiesUseCase } from '@/modules/auth/application/use-cases/list-identities.use-case';
+import { UnlinkIdentityUseCase } from '@/modules/auth/application/use-cases/unlink-identity.use-case';
+import {
+  IdentityListResponseDto,
+  IdentityResponseDto,
+  LinkGoogleIdentityDto,
+  OidcProviderParamDto,
+  toIdentityResponseDto,
+} from '@/modules/auth/presentation/http/dtos';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Authentication')
+@Controller('auth/identities')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class IdentitiesController {
+  constructor(
+    private readonly listIdentitiesUseCase: ListIdentitiesUseCase,
+    private readonly linkGoogleIdentityUseCase: LinkGoogleIdentityUseCase,
+    private readonly unlinkIdentityUseCase: UnlinkIdentityUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List linked identities',
+    description: 'Lists the external identity provider accounts linked to the current user.',
+    response: IdentityListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async list(@CurrentUser('id') userId: string) {
+    const result = await this.listIdentitiesUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      result.data.map((item) => toIdentityResponseDto(item.identity, item.providerName)),
+      result.message,
+    );
+  }
+
+  @Post('google')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Link Google account',
+    description: 'Links a Google account to the current user from a Google ID token. Requires re-authentication: the current password, or the TOTP/recovery code for passwordless accounts with MFA enabled.',
+    body: LinkGoogleIdentityDto,
+    response: IdentityResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'tooManyRequests'],
+  })
+  async linkGoogle(
+    @CurrentUser('id') userId: string,
+    @Body() dto: LinkGoogleIdentityDto,
+  ) {
+    const result = await this.linkGoogleIdentityUseCase.execute(userId, dto);
+
+    return ResponseHelper.success(
+      toIdentityResponseDto(result.data.identity, result.data.providerName),
+      result.message,
+    );
+  }
+
+  @Delete(':provider')
+  @ApiDoc({
+    summary: 'Unlink identity',
+    description: 'Removes the linked account of an identity provider. Refused when it is the last sign-in method of an account without password or passkeys.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound', 'conflict'],
+    params: [
+      {
+        name: 'provider',
+        description: 'Identity provider ID',
+        example: 'google',
+      },
+    ],
+  })
+  async unlink(
+    @CurrentUser('id') userId: string,
+    @Param() params: OidcProviderParamDto,
+  ) {
+    const result = await this.unlinkIdentityUseCase.execute(userId, params.provider);
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
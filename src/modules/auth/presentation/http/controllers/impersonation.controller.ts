@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import {
+  IMPERSONATION_COOKIE_SESSION_REQUIRED_MESSAGE,
+  IMPERSONATION_NOT_ACTIVE_MESSAGE,
+} from '@/modules/auth/application/constants/impersonation.constants';
+import { EndImpersonationUseCase } from '@/modules/auth/application/use-cases/end-impersonation.use-case';
+import { StartImpersonationUseCase } from '@/modules/auth/application/use-cases/start-impersonation.use-case';
+import {
+  ImpersonationResponseDto,
+  ImpersonationUserIdParamDto,
+  StartImpersonationDto,
+} from '@/modules/auth/presentation/http/dtos';
+import { toUserResponseDto } from '@/modules/users/presentation/http/dtos/user-response.dto';
+import { WsGateway } from '@/modules/ws/ws.gateway';
+import { isCredentialAuthenticatedRequest } from '@/shared/context/execution-context-session.util';
+import {
+  ApiDoc,
+  BlockDuringImpersonation,
+  CurrentOrganization,
+  CurrentUser,
+  RequireInteractiveSession,
+  RequireOrganizationPermissions,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+import { toSessionHandle } from '@/shared/session-registry/session-registry.util';
+import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
+
+@ApiTags('Authentication')
+@Controller('auth/impersonate')
+@RequireInteractiveSession()
+export class ImpersonationController {
+  constructor(
+    private readonly sessionStorageService: SessionStorageService,
+    private readonly wsGateway: WsGateway,
+    private readonly startImpersonationUseCase: StartImpersonationUseCase,
+    private readonly endImpersonationUseCase: EndImpersonationUseCase,
+  ) { }
+
+  @Post(':userId')
+  @HttpCode(HttpStatus.OK)
+  @BlockDuringImpersonation()
+  @RequireOrganizationPermissions('users.impersonate')
+  @ApiDoc({
+    summary: 'Start impersonation',
+    description: 'Switches the current cookie session to another member of the current organization for support purposes. The impersonated session stays in that organization: `POST /organizations/current` and `X-Organization-Id` cannot select another one. Requires `users.impersonate`; owners cannot be impersonated. The start, the end and every write request are recorded in the impersonation audit trail. Password, MFA, passkey, identity, session and API key endpoints are blocked until `DELETE /auth/impersonate`.',
+    body: StartImpersonationDto,
+    response: ImpersonationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'userId',
+        description: 'ID of the user to impersonate',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async start(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: ImpersonationUserIdParamDto,
+    @Body() dto: StartImpersonationDto,
+  ) {
+    this.assertCookieSession(request);
+
+    const result = await this.startImpersonationUseCase.execute({
+      impersonatorId: userId,
+      organizationId,
+      targetUserId: params.userId,
+      reason: dto.reason,
+      ip: request.ip ?? null,
+      userAgent: request.headers['user-agent'] ?? null,
+    });
+    const { impersonation, user, organization } = result.data;
+    const session = request.session;
+    const impersonator = {
+      id: userId,
+      email: session.email,
+      name: session.name,
+    };
+
+    session.impersonation = {
+      id: impersonation.id,
+      impersonatorEmail: session.email,
+      impersonatorName: session.name,
+      currentOrganizationId: session.currentOrganizationId,
+      currentOrganizationName: session.currentOrganizationName,
+      currentOrganizationRole: session.currentOrganizationRole,
+      mfaVerified: session.mfaVerified,
+      startedAt: impersonation.startedAt.getTime(),
+    };
+    this.setSessionIdentity(request, {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      currentOrganizationId: organization.organization.id,
+      currentOrganizationName: organization.organization.name,
+      currentOrganizationRole: organization.role,
+      mfaVerified: session.mfaVerified,
+      impersonatorId: userId,
+      impersonationOrganizationId: organization.organization.id,
+    });
+    await session.save();
+    this.wsGateway.disconnectSessions([toSessionHandle(session.sessionId)]);
+
+    return ResponseHelper.success(
+      {
+        id: impersonation.id,
+        user: toUserResponseDto(user),
+        impersonator,
+        startedAt: impersonation.startedAt.toISOString(),
+      },
+      result.message,
+    );
+  }
+
+  @Delete()
+  @ApiDoc({
+    summary: 'End impersonation',
+    description: 'Restores the original user, organization and MFA state of the current session.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
+  })
+  async end(@Req() request: FastifyRequest) {
+    this.assertCookieSession(request);
+
+    const session = request.session;
+    const { impersonation, impersonatorId } = session;
+
+    if (!impersonation || !impersonatorId) {
+      throw new BadRequestException(IMPERSONATION_NOT_ACTIVE_MESSAGE);
+    }
+
+    const result = await this.endImpersonationUseCase.execute(impersonation.id);
+
+    session.impersonation = undefined;
+    this.setSessionIdentity(request, {
+      userId: impersonatorId,
+      email: impersonation.impersonatorEmail,
+      name: impersonation.impersonatorName,
+      currentOrganizationId: impersonation.currentOrganizationId,
+      currentOrganizationName: impersonation.currentOrganizationName,
+      currentOrganizationRole: impersonation.currentOrganizationRole,
+      mfaVerified: impersonation.mfaVerified,
+      impersonatorId: undefined,
+      impersonationOrganizationId: undefined,
+    });
+    await session.save();
+    this.wsGateway.disconnectSessions([toSessionHandle(session.sessionId)]);
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  private assertCookieSession(request: FastifyRequest): void {
+    if (isCredentialAuthenticatedRequest(request)) {
+      throw new ForbiddenException(IMPERSONATION_COOKIE_SESSION_REQUIRED_MESSAGE);
+    }
+  }
+
+  private setSessionIdentity(
+    request: FastifyRequest,
+    identity: {
+      userId: string;
+      email?: string;
+      name?: string;
+      currentOrganizationId?: string;
+      currentOrganizationName?: string;
+      currentOrganizationRole?: string;
+      mfaVerified?: boolean;
+      impersonatorId?: string;
+      impersonationOrganizationId?: string;
+    },
+  ): void {
+    Object.assign(request.session, identity);
+    this.sessionStorageService.updateStorageData(identity);
+  }
+}
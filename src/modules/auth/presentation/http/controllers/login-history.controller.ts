@@ -0,0 +1,51 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { ListLoginHistoryUseCase } from '@/modules/auth/application/use-cases/list-login-history.use-case';
+import {
+  ListLoginHistoryDto,
+  LoginEventResponseDto,
+  toLoginEventResponseDto,
+} from '@/modules/auth/presentation/http/dtos';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Authentication')
+@Controller('auth/login-history')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class LoginHistoryController {
+  constructor(
+    private readonly listLoginHistoryUseCase: ListLoginHistoryUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List login history',
+    description: 'Lists the successful and failed sign-in attempts on the current account, newest first, with method, outcome, IP and device. Token refreshes are included.',
+    response: LoginEventResponseDto,
+    isPaginated: true,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
+    query: [
+      { name: 'pageCount', description: 'Page number', example: 1 },
+      { name: 'recordsPerPage', description: 'Page size', example: 25 },
+    ],
+  })
+  async list(
+    @CurrentUser('id') userId: string,
+    @Query() dto: ListLoginHistoryDto,
+  ) {
+    const result = await this.listLoginHistoryUseCase.execute({
+      userId,
+      pageCount: dto.pageCount,
+      recordsPerPage: dto.recordsPerPage,
+    });
+
+    return ResponseHelper.paginated(
+      result.data.map(toLoginEventResponseDto),
+      result.pageCount,
+      result.recordsPerPage,
+      result.total,
+      result.message,
+    );
+  }
+}
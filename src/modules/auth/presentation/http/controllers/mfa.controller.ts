@@ -0,0 +1,141 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import { ConfirmTotpEnrollmentUseCase } from '@/modules/auth/application/use-cases/confirm-totp-enrollment.use-case';
+import { DisableMfaUseCase } from '@/modules/auth/application/use-cases/disable-mfa.use-case';
+import { GetMfaStatusUseCase } from '@/modules/auth/application/use-cases/get-mfa-status.use-case';
+import { RegenerateRecoveryCodesUseCase } from '@/modules/auth/application/use-cases/regenerate-recovery-codes.use-case';
+import { StartTotpEnrollmentUseCase } from '@/modules/auth/application/use-cases/start-totp-enrollment.use-case';
+import {
+  MfaCodeDto,
+  MfaStatusResponseDto,
+  RecoveryCodesResponseDto,
+  SecondFactorDto,
+  TotpEnrollmentResponseDto,
+} from '@/modules/auth/presentation/http/dtos';
+import type { AppCurrentUser } from '@/shared/context/app-session-context';
+import { isCredentialAuthenticatedRequest } from '@/shared/context/execution-context-session.util';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Authentication')
+@Controller('auth/mfa')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class MfaController {
+  constructor(
+    private readonly getMfaStatusUseCase: GetMfaStatusUseCase,
+    private readonly startTotpEnrollmentUseCase: StartTotpEnrollmentUseCase,
+    private readonly confirmTotpEnrollmentUseCase: ConfirmTotpEnrollmentUseCase,
+    private readonly regenerateRecoveryCodesUseCase: RegenerateRecoveryCodesUseCase,
+    private readonly disableMfaUseCase: DisableMfaUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'Get MFA status',
+    response: MfaStatusResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async status(@CurrentUser('id') userId: string) {
+    const result = await this.getMfaStatusUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      {
+        ...result.data,
+        confirmedAt: result.data.confirmedAt?.toISOString() ?? null,
+      },
+      result.message,
+    );
+  }
+
+  @Post('totp/enroll')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Start TOTP enrollment',
+    description: 'Generates a new TOTP secret and `otpauth://` URI. MFA is not enabled until the enrollment is confirmed with a valid code.',
+    response: TotpEnrollmentResponseDto,
+    commonResponses: ['unauthorized', 'forbidden', 'conflict'],
+  })
+  async startEnrollment(@CurrentUser() user: AppCurrentUser) {
+    const result = await this.startTotpEnrollmentUseCase.execute({
+      userId: user.id,
+      email: user.email ?? user.id,
+    });
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Post('totp/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Confirm TOTP enrollment',
+    description: 'Enables MFA and returns one-time recovery codes. The codes are shown only once.',
+    body: MfaCodeDto,
+    response: RecoveryCodesResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async confirmEnrollment(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Body() dto: MfaCodeDto,
+  ) {
+    const result = await this.confirmTotpEnrollmentUseCase.execute(userId, dto.code);
+
+    if (!isCredentialAuthenticatedRequest(request)) {
+      request.session.mfaVerified = true;
+      await request.session.save();
+    }
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Post('recovery-codes/regenerate')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Regenerate recovery codes',
+    description: 'Invalidates all previous recovery codes and returns a new set. Requires a current TOTP code.',
+    body: MfaCodeDto,
+    response: RecoveryCodesResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
+  })
+  async regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() dto: MfaCodeDto,
+  ) {
+    const result = await this.regenerateRecoveryCodesUseCase.execute(userId, dto.code);
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Delete('totp')
+  @ApiDoc({
+    summary: 'Disable MFA',
+    description: 'Removes the TOTP factor and all recovery codes. Requires a current TOTP code or a recovery code.',
+    body: SecondFactorDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
+  })
+  async disable(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Body() dto: SecondFactorDto,
+  ) {
+    const result = await this.disableMfaUseCase.execute(userId, dto);
+
+    if (!isCredentialAuthenticatedRequest(request)) {
+      request.session.mfaVerified = false;
+      await request.session.save();
+    }
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { DeletePasskeyUseCase } from '@/modules/auth/application/use-cases/delete-passkey.use-case';
+import { FinishPasskeyRegistrationUseCase } from '@/modules/auth/application/use-cases/finish-passkey-registration.use-case';
+import { ListPasskeysUseCase } from '@/modules/auth/application/use-cases/list-passkeys.use-case';
+import { RenamePasskeyUseCase } from '@/modules/auth/application/use-cases/rename-passkey.use-case';
+import { StartPasskeyRegistrationUseCase } from '@/modules/auth/application/use-cases/start-passkey-registration.use-case';
+import {
+  FinishPasskeyRegistrationDto,
+  PasskeyIdParamDto,
+  PasskeyListResponseDto,
+  PasskeyRegistrationOptionsResponseDto,
+  PasskeyResponseDto,
+  RenamePasskeyDto,
+  toPasskeyResponseDto,
+} from '@/modules/auth/presentation/http/dtos';
+import type { AppCurrentUser } from '@/shared/context/app-session-context';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Authentication')
+@Controller('auth/passkeys')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class PasskeysController {
+  constructor(
+    private readonly listPasskeysUseCase: ListPasskeysUseCase,
+    private readonly startPasskeyRegistrationUseCase: StartPasskeyRegistrationUseCase,
+    private readonly finishPasskeyRegistrationUseCase: FinishPasskeyRegistrationUseCase,
+    private readonly renamePasskeyUseCase: RenamePasskeyUseCase,
+    private readonly deletePasskeyUseCase: DeletePasskeyUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List passkeys',
+    response: PasskeyListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async list(@CurrentUser('id') userId: string) {
+    const result = await this.listPasskeysUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      result.data.map((credential) => toPasskeyResponseDto(credential)),
+      result.message,
+    );
+  }
+
+  @Post('registration/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Start passkey registration',
+    description: 'Returns `PublicKeyCredentialCreationOptions` for `navigator.credentials.create()` and a `challengeId` to send back with the attestation.',
+    response: PasskeyRegistrationOptionsResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async startRegistration(@CurrentUser() user: AppCurrentUser) {
+    const result = await this.startPasskeyRegistrationUseCase.execute({
+      userId: user.id,
+      email: user.email ?? user.id,
+      name: user.name,
+    });
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Post('registration')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiDoc({
+    summary: 'Finish passkey registration',
+    description: 'Verifies the attestation response locally and stores the credential public key and signature counter.',
+    body: FinishPasskeyRegistrationDto,
+    response: PasskeyResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async finishRegistration(
+    @CurrentUser('id') userId: string,
+    @Body() dto: FinishPasskeyRegistrationDto,
+  ) {
+    const result = await this.finishPasskeyRegistrationUseCase.execute(userId, dto);
+
+    return ResponseHelper.success(toPasskeyResponseDto(result.data), result.message);
+  }
+
+  @Patch(':id')
+  @ApiDoc({
+    summary: 'Rename passkey',
+    body: RenamePasskeyDto,
+    response: PasskeyResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'id',
+        description: 'Passkey ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async rename(
+    @CurrentUser('id') userId: string,
+    @Param() params: PasskeyIdParamDto,
+    @Body() dto: RenamePasskeyDto,
+  ) {
+    const result = await this.renamePasskeyUseCase.execute(userId, params.id, dto.name);
+
+    return ResponseHelper.success(toPasskeyResponseDto(result.data), result.message);
+  }
+
+  @Delete(':id')
+  @ApiDoc({
+    summary: 'Remove passkey',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'id',
+        description: 'Passkey ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param() params: PasskeyIdParamDto,
+  ) {
+    const result = await this.deletePasskeyUseCase.execute(userId, params.id);
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
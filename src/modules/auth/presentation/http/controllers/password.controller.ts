@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import { ChangePasswordUseCase } from '@/modules/auth/application/use-cases/change-password.use-case';
+import { SetPasswordUseCase } from '@/modules/auth/application/use-cases/set-password.use-case';
+import {
+  ChangePasswordDto,
+  PasswordChangeResponseDto,
+  SetPasswordDto,
+} from '@/modules/auth/presentation/http/dtos';
+import { isCredentialAuthenticatedRequest } from '@/shared/context/execution-context-session.util';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Authentication')
+@Controller('auth/password')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class PasswordController {
+  constructor(
+    private readonly changePasswordUseCase: ChangePasswordUseCase,
+    private readonly setPasswordUseCase: SetPasswordUseCase,
+  ) { }
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Change password',
+    description: 'Changes the password of the current user after checking the current one. The last passwords cannot be reused (`AUTH_PASSWORD_HISTORY_SIZE`). Every other session is signed out, refresh tokens are revoked and a notification email is sent.',
+    body: ChangePasswordDto,
+    response: PasswordChangeResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'tooManyRequests'],
+  })
+  async change(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Body() dto: ChangePasswordDto,
+  ) {
+    const result = await this.changePasswordUseCase.execute(userId, dto, getCookieSessionId(request));
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Post('set')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Set password',
+    description: 'Adds a password to an account created through an identity provider or a magic link. Accounts with MFA enabled must confirm with `mfaCode` or `recoveryCode`. Every other session is signed out and a notification email is sent.',
+    body: SetPasswordDto,
+    response: PasswordChangeResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async set(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Body() dto: SetPasswordDto,
+  ) {
+    const result = await this.setPasswordUseCase.execute(userId, dto, getCookieSessionId(request));
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+}
+
+function getCookieSessionId(request: FastifyRequest): string | undefined {
+  return isCredentialAuthenticatedRequest(request) ? undefined : request.session.sessionId;
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import { ListSessionsUseCase } from '@/modules/auth/application/use-cases/list-sessions.use-case';
+import { RevokeOtherSessionsUseCase } from '@/modules/auth/application/use-cases/revoke-other-sessions.use-case';
+import { RevokeSessionUseCase } from '@/modules/auth/application/use-cases/revoke-session.use-case';
+import {
+  RevokeOtherSessionsResponseDto,
+  SessionIdParamDto,
+  SessionListResponseDto,
+  toSessionResponseDto,
+} from '@/modules/auth/presentation/http/dtos';
+import { isCredentialAuthenticatedRequest } from '@/shared/context/execution-context-session.util';
+import { ApiDoc, BlockDuringImpersonation, CurrentUser, RequireInteractiveSession } from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Authentication')
+@Controller('auth/sessions')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class SessionsController {
+  constructor(
+    private readonly listSessionsUseCase: ListSessionsUseCase,
+    private readonly revokeSessionUseCase: RevokeSessionUseCase,
+    private readonly revokeOtherSessionsUseCase: RevokeOtherSessionsUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List active sessions',
+    description: 'Lists the cookie sessions of the current user with device, IP, user agent and activity timestamps. The session making the request is flagged as `current`.',
+    response: SessionListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async list(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+  ) {
+    const result = await this.listSessionsUseCase.execute(userId, getCookieSessionId(request));
+
+    return ResponseHelper.success(
+      result.data.map((session) => toSessionResponseDto(session)),
+      result.message,
+    );
+  }
+
+  @Delete()
+  @ApiDoc({
+    summary: 'Log out everywhere else',
+    description: 'Revokes every session of the current user except the one making the request and disconnects their websockets.',
+    response: RevokeOtherSessionsResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async revokeOthers(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+  ) {
+    const result = await this.revokeOtherSessionsUseCase.execute(userId, getCookieSessionId(request));
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
+  @Delete(':id')
+  @ApiDoc({
+    summary: 'Revoke session',
+    description: 'Revokes another session of the current user and disconnects its websockets. Use `POST /auth/logout` for the current session.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'id',
+        description: 'Session ID',
+      },
+    ],
+  })
+  async revoke(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Param() params: SessionIdParamDto,
+  ) {
+    const result = await this.revokeSessionUseCase.execute(
+      userId,
+      params.id,
+      getCookieSessionId(request),
+    );
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
+
+function getCookieSessionId(request: FastifyRequest): string | undefined {
+  return isCredentialAuthenticatedRequest(request) ? undefined : request.session.sessionId;
+}
@@ -5,10 +5,15 @@ import { UserResponseSchema } from '@/modules/users/presentation/http/dtos/user-
 /**
  * Zod schema for authentication response
  *
- * Returns authenticated user data
+ * Returns authenticated user data. When `mfaRequired` is true the session is
+ * pending until `POST /auth/mfa/verify` succeeds. When `emailVerificationRequired`
+ * is true the account was created but the session is not authenticated until the
+ * email address is verified.
  */
 export const AuthResponseSchema = z.object({
   user: UserResponseSchema,
+  mfaRequired: z.boolean().default(false),
+  emailVerificationRequired: z.boolean().optional(),
   message: z.string().default('Authentication successful'),
 });
 
@@ -23,6 +28,7 @@ export const AuthResponseSchema = z.object({
  *     "email": "user@example.com",
  *     "name": "Jane Doe"
  *   },
+ *   "mfaRequired": false,
  *   "message": "Authentication successful"
  * }
  * ```
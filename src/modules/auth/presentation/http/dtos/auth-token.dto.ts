@@ -0,0 +1,75 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { UserResponseSchema } from '@/modules/users/presentation/http/dtos/user-response.dto';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const refreshTokenSchema = z
+  .string({
+    message: 'Refresh token is required',
+  })
+  .trim()
+  .min(1, 'Refresh token is required');
+
+export const RefreshAuthTokenSchema = z.object({
+  refreshToken: refreshTokenSchema,
+  organizationId: snowflakeIdSchema.optional(),
+});
+
+export const RevokeRefreshTokenSchema = z.object({
+  refreshToken: refreshTokenSchema,
+});
+
+export const AuthTokensSchema = z.object({
+  tokenType: z.literal('Bearer'),
+  accessToken: z.string(),
+  accessTokenExpiresAt: z.iso.datetime(),
+  expiresIn: z.number().int(),
+  refreshToken: z.string(),
+  refreshTokenExpiresAt: z.iso.datetime(),
+});
+
+/**
+ * Zod schema for token authentication response
+ *
+ * Returns the authenticated user, the organization embedded in the access
+ * token and the token pair.
+ */
+export const AuthTokenResponseSchema = z.object({
+  user: UserResponseSchema,
+  currentOrganization: z
+    .object({
+      id: snowflakeIdSchema,
+      name: z.string(),
+      role: z.string(),
+    })
+    .nullable(),
+  tokens: AuthTokensSchema,
+});
+
+export type AuthTokensResponse = z.infer<typeof AuthTokensSchema>;
+
+type AuthTokensInput = {
+  tokenType: 'Bearer';
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  expiresIn: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+};
+
+export function toAuthTokensResponseDto(tokens: AuthTokensInput): AuthTokensResponse {
+  return {
+    ...tokens,
+    accessTokenExpiresAt: tokens.accessTokenExpiresAt.toISOString(),
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt.toISOString(),
+  };
+}
+
+export const RevokeRefreshTokenResponseSchema = z.object({
+  revoked: z.boolean().default(true),
+});
+
+export class RefreshAuthTokenDto extends createZodDto(RefreshAuthTokenSchema) { }
+export class RevokeRefreshTokenDto extends createZodDto(RevokeRefreshTokenSchema) { }
+export class AuthTokenResponseDto extends createZodDto(AuthTokenResponseSchema) { }
+export class RevokeRefreshTokenResponseDto extends createZodDto(RevokeRefreshTokenResponseSchema) { }
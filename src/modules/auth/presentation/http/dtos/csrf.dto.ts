@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const CsrfTokenResponseSchema = z.object({
+  csrfToken: z.string(),
+  headerName: z.string(),
+});
+
+export class CsrfTokenResponseDto extends createZodDto(CsrfTokenResponseSchema) { }
@@ -0,0 +1,26 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { userEmailSchema } from '@/modules/users/presentation/http/dtos/create-user.dto';
+
+export const VerifyEmailSchema = z.object({
+  token: z
+    .string({
+      message: 'Token is required',
+    })
+    .trim()
+    .min(1, 'Token cannot be empty'),
+});
+
+export const ResendEmailVerificationSchema = z.object({
+  email: userEmailSchema,
+});
+
+export const ResendEmailVerificationResponseSchema = z.object({
+  submitted: z.boolean().default(true),
+});
+
+export class VerifyEmailDto extends createZodDto(VerifyEmailSchema) { }
+export class ResendEmailVerificationDto extends createZodDto(ResendEmailVerificationSchema) { }
+export class ResendEmailVerificationResponseDto extends createZodDto(
+  ResendEmailVerificationResponseSchema,
+) { }
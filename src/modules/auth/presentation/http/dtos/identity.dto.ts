@@ -0,0 +1,41 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { UserIdentity } from '@/modules/auth/domain/entities/user-identity.entity';
+import { GoogleLoginSchema } from './google-login.dto';
+import { tokenSecondFactorShape } from './mfa.dto';
+
+export const LinkGoogleIdentitySchema = GoogleLoginSchema.extend({
+  password: z.string().min(1, 'Current password is required').max(100, 'Password is too long').optional(),
+  ...tokenSecondFactorShape,
+});
+
+export const IdentityResponseSchema = z.object({
+  id: z.string(),
+  provider: z.string(),
+  providerName: z.string(),
+  email: z.string().nullable(),
+  lastLoginAt: z.iso.datetime().nullable(),
+  createdAt: z.iso.datetime(),
+});
+
+export const IdentityListResponseSchema = z.array(IdentityResponseSchema);
+
+export type IdentityResponse = z.infer<typeof IdentityResponseSchema>;
+
+export function toIdentityResponseDto(
+  identity: UserIdentity,
+  providerName: string,
+): IdentityResponse {
+  return {
+    id: identity.id,
+    provider: identity.provider,
+    providerName,
+    email: identity.email ?? null,
+    lastLoginAt: identity.lastLoginAt?.toISOString() ?? null,
+    createdAt: identity.createdAt.toISOString(),
+  };
+}
+
+export class LinkGoogleIdentityDto extends createZodDto(LinkGoogleIdentitySchema) { }
+export class IdentityResponseDto extends createZodDto(IdentityResponseSchema) { }
+export class IdentityListResponseDto extends createZodDto(IdentityListResponseSchema) { }
@@ -0,0 +1,31 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { UserResponseSchema } from '@/modules/users/presentation/http/dtos/user-response.dto';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+export const ImpersonationUserIdParamSchema = z.object({
+  userId: snowflakeIdSchema,
+});
+
+export const StartImpersonationSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(3, 'Reason must be at least 3 characters')
+    .max(500, 'Reason is too long'),
+});
+
+export const ImpersonationResponseSchema = z.object({
+  id: z.string(),
+  user: UserResponseSchema,
+  impersonator: z.object({
+    id: z.string(),
+    email: z.string().optional(),
+    name: z.string().optional(),
+  }),
+  startedAt: z.iso.datetime(),
+});
+
+export class ImpersonationUserIdParamDto extends createZodDto(ImpersonationUserIdParamSchema) { }
+export class StartImpersonationDto extends createZodDto(StartImpersonationSchema) { }
+export class ImpersonationResponseDto extends createZodDto(ImpersonationResponseSchema) { }
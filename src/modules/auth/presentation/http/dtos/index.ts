@@ -1,5 +1,17 @@
 export * from './auth-response.dto';
+export * from './auth-token.dto';
+export * from './csrf.dto';
+export * from './email-verification.dto';
 export * from './forgot-password.dto';
 export * from './google-login.dto';
+export * from './identity.dto';
+export * from './impersonation.dto';
 export * from './login.dto';
+export * from './login-history.dto';
+export * from './magic-link.dto';
+export * from './mfa.dto';
+export * from './oidc.dto';
+export * from './passkey.dto';
+export * from './password.dto';
 export * from './register.dto';
+export * from './session.dto';
@@ -0,0 +1,38 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { LoginEvent } from '@/modules/auth/domain/entities/login-event.entity';
+import { describeUserAgent } from '@/shared/session-registry/session-registry.util';
+
+export const ListLoginHistorySchema = z.object({
+  pageCount: z.coerce.number().int().min(1).default(1),
+  recordsPerPage: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const LoginEventResponseSchema = z.object({
+  id: z.string(),
+  method: z.enum(['password', 'google', 'oidc', 'passkey', 'magic_link', 'mfa', 'refresh_token']),
+  outcome: z.enum(['success', 'failure', 'mfa_required']),
+  failureReason: z.string().nullable(),
+  device: z.string(),
+  ip: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.iso.datetime(),
+});
+
+export type LoginEventResponse = z.infer<typeof LoginEventResponseSchema>;
+
+export function toLoginEventResponseDto(event: LoginEvent): LoginEventResponse {
+  return {
+    id: event.id,
+    method: event.method,
+    outcome: event.outcome,
+    failureReason: event.failureReason ?? null,
+    device: describeUserAgent(event.userAgent),
+    ip: event.ip ?? null,
+    userAgent: event.userAgent ?? null,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+export class ListLoginHistoryDto extends createZodDto(ListLoginHistorySchema) { }
+export class LoginEventResponseDto extends createZodDto(LoginEventResponseSchema) { }
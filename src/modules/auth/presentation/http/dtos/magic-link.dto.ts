@@ -0,0 +1,24 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { userEmailSchema } from '@/modules/users/presentation/http/dtos/create-user.dto';
+
+export const RequestMagicLinkSchema = z.object({
+  email: userEmailSchema,
+});
+
+export const ConsumeMagicLinkSchema = z.object({
+  token: z
+    .string({
+      message: 'Token is required',
+    })
+    .trim()
+    .min(1, 'Token cannot be empty'),
+});
+
+export const RequestMagicLinkResponseSchema = z.object({
+  submitted: z.boolean().default(true),
+});
+
+export class RequestMagicLinkDto extends createZodDto(RequestMagicLinkSchema) { }
+export class ConsumeMagicLinkDto extends createZodDto(ConsumeMagicLinkSchema) { }
+export class RequestMagicLinkResponseDto extends createZodDto(RequestMagicLinkResponseSchema) { }
@@ -0,0 +1,63 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { LoginSchema } from './login.dto';
+import { GoogleLoginSchema } from './google-login.dto';
+
+const totpCodeSchema = z
+  .string({
+    message: 'Authentication code is required',
+  })
+  .trim()
+  .regex(/^\d{6}$/, 'Authentication code must have 6 digits');
+
+const recoveryCodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Recovery code cannot be empty')
+  .max(32, 'Recovery code is too long');
+
+export const MfaCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const SecondFactorSchema = z
+  .object({
+    code: totpCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  })
+  .refine((value) => Boolean(value.code) !== Boolean(value.recoveryCode), {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  });
+
+export const tokenSecondFactorShape = {
+  mfaCode: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional(),
+};
+
+export const TokenLoginSchema = LoginSchema.extend(tokenSecondFactorShape);
+export const GoogleTokenLoginSchema = GoogleLoginSchema.extend(tokenSecondFactorShape);
+
+export const MfaStatusResponseSchema = z.object({
+  enabled: z.boolean(),
+  enrollmentPending: z.boolean(),
+  confirmedAt: z.iso.datetime().nullable(),
+  recoveryCodesRemaining: z.number().int(),
+});
+
+export const TotpEnrollmentResponseSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+});
+
+export const RecoveryCodesResponseSchema = z.object({
+  recoveryCodes: z.array(z.string()),
+});
+
+export class MfaCodeDto extends createZodDto(MfaCodeSchema) { }
+export class SecondFactorDto extends createZodDto(SecondFactorSchema) { }
+export class TokenLoginDto extends createZodDto(TokenLoginSchema) { }
+export class GoogleTokenLoginDto extends createZodDto(GoogleTokenLoginSchema) { }
+export class MfaStatusResponseDto extends createZodDto(MfaStatusResponseSchema) { }
+export class TotpEnrollmentResponseDto extends createZodDto(TotpEnrollmentResponseSchema) { }
+export class RecoveryCodesResponseDto extends createZodDto(RecoveryCodesResponseSchema) { }
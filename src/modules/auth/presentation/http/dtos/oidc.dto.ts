@@ -0,0 +1,32 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const OidcProviderParamSchema = z.object({
+  provider: z.string().regex(/^[a-z0-9-]+$/, 'Invalid identity provider'),
+});
+
+export const OidcAuthorizeQuerySchema = z.object({
+  returnTo: z
+    .string()
+    .max(2048)
+    .regex(/^\/(?![/\\])/, 'returnTo must be a path on the application')
+    .optional(),
+});
+
+export const OidcCallbackQuerySchema = z.object({
+  code: z.string().max(4096).optional(),
+  state: z.string().max(512).optional(),
+  error: z.string().max(256).optional(),
+});
+
+export const OidcProviderResponseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const OidcProviderListResponseSchema = z.array(OidcProviderResponseSchema);
+
+export class OidcProviderParamDto extends createZodDto(OidcProviderParamSchema) { }
+export class OidcAuthorizeQueryDto extends createZodDto(OidcAuthorizeQuerySchema) { }
+export class OidcCallbackQueryDto extends createZodDto(OidcCallbackQuerySchema) { }
+export class OidcProviderListResponseDto extends createZodDto(OidcProviderListResponseSchema) { }
@@ -0,0 +1,152 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { WebAuthnCredential } from '@/modules/auth/domain/entities/webauthn-credential.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const DateTimeStringSchema = z.iso.datetime();
+
+const base64UrlSchema = z
+  .string()
+  .min(1)
+  .regex(/^[A-Za-z0-9_-]+={0,2}$/, 'Value must be base64url encoded');
+
+const passkeyNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name cannot be empty')
+  .max(120, 'Name must be at most 120 characters');
+
+const challengeIdSchema = z.string({
+  message: 'Challenge id is required',
+}).min(1);
+
+const credentialDescriptorSchema = z.object({
+  type: z.literal('public-key'),
+  id: z.string(),
+  transports: z.array(z.string()).optional(),
+});
+
+export const RegistrationCredentialSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    attestationObject: base64UrlSchema,
+    transports: z.array(z.string().max(32)).max(10).optional(),
+  }),
+});
+
+export const AuthenticationCredentialSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    authenticatorData: base64UrlSchema,
+    signature: base64UrlSchema,
+    userHandle: base64UrlSchema.nullable().optional(),
+  }),
+});
+
+export const FinishPasskeyRegistrationSchema = z.object({
+  challengeId: challengeIdSchema,
+  name: passkeyNameSchema.optional(),
+  credential: RegistrationCredentialSchema,
+});
+
+export const PasskeyAuthenticationSchema = z.object({
+  challengeId: challengeIdSchema,
+  credential: AuthenticationCredentialSchema,
+});
+
+export const RenamePasskeySchema = z.object({
+  name: passkeyNameSchema,
+});
+
+export const PasskeyIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const PasskeyRegistrationOptionsResponseSchema = z.object({
+  challengeId: z.string(),
+  options: z.object({
+    challenge: z.string(),
+    rp: z.object({
+      id: z.string(),
+      name: z.string(),
+    }),
+    user: z.object({
+      id: z.string(),
+      name: z.string(),
+      displayName: z.string(),
+    }),
+    pubKeyCredParams: z.array(
+      z.object({
+        type: z.literal('public-key'),
+        alg: z.number().int(),
+      }),
+    ),
+    timeout: z.number().int(),
+    attestation: z.literal('none'),
+    authenticatorSelection: z.object({
+      residentKey: z.literal('required'),
+      userVerification: z.literal('required'),
+    }),
+    excludeCredentials: z.array(credentialDescriptorSchema),
+  }),
+});
+
+export const PasskeyAuthenticationOptionsResponseSchema = z.object({
+  challengeId: z.string(),
+  options: z.object({
+    challenge: z.string(),
+    rpId: z.string(),
+    timeout: z.number().int(),
+    userVerification: z.enum(['required', 'preferred']),
+    allowCredentials: z.array(credentialDescriptorSchema),
+  }),
+});
+
+export const PasskeyResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  name: z.string(),
+  transports: z.array(z.string()).nullable(),
+  aaguid: z.string().nullable(),
+  backedUp: z.boolean(),
+  lastUsedAt: DateTimeStringSchema.nullable(),
+  createdAt: DateTimeStringSchema,
+});
+
+export const PasskeyListResponseSchema = z.array(PasskeyResponseSchema);
+
+export type PasskeyResponse = z.infer<typeof PasskeyResponseSchema>;
+
+export function toPasskeyResponseDto(credential: WebAuthnCredential): PasskeyResponse {
+  return {
+    id: credential.id,
+    name: credential.name,
+    transports: credential.transports ?? null,
+    aaguid: credential.aaguid ?? null,
+    backedUp: credential.backedUp,
+    lastUsedAt: normalizeNullableDateTime(credential.lastUsedAt),
+    createdAt: normalizeDateTime(credential.createdAt),
+  };
+}
+
+function normalizeDateTime(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function normalizeNullableDateTime(value?: Date | string | null): string | null {
+  return value ? normalizeDateTime(value) : null;
+}
+
+export class FinishPasskeyRegistrationDto extends createZodDto(FinishPasskeyRegistrationSchema) { }
+export class PasskeyAuthenticationDto extends createZodDto(PasskeyAuthenticationSchema) { }
+export class RenamePasskeyDto extends createZodDto(RenamePasskeySchema) { }
+export class PasskeyIdParamDto extends createZodDto(PasskeyIdParamSchema) { }
+export class PasskeyRegistrationOptionsResponseDto extends createZodDto(PasskeyRegistrationOptionsResponseSchema) { }
+export class PasskeyAuthenticationOptionsResponseDto extends createZodDto(PasskeyAuthenticationOptionsResponseSchema) { }
+export class PasskeyResponseDto extends createZodDto(PasskeyResponseSchema) { }
+export class PasskeyListResponseDto extends createZodDto(PasskeyListResponseSchema) { }
@@ -0,0 +1,41 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { userPasswordSchema } from '@/modules/users/presentation/http/dtos/create-user.dto';
+import { tokenSecondFactorShape } from './mfa.dto';
+
+export const ChangePasswordSchema = z.object({
+  currentPassword: z
+    .string({
+      message: 'Current password is required',
+    })
+    .min(1, 'Current password is required')
+    .max(100, 'Password is too long'),
+  newPassword: userPasswordSchema,
+});
+
+export const SetPasswordSchema = z.object({
+  password: userPasswordSchema,
+  ...tokenSecondFactorShape,
+});
+
+export const PasswordChangeResponseSchema = z.object({
+  revokedSessions: z.number().int(),
+});
+
+export const PasswordPolicyResponseSchema = z.object({
+  minLength: z.number().int(),
+  maxLength: z.number().int(),
+  requireLowercase: z.boolean(),
+  requireUppercase: z.boolean(),
+  requireDigit: z.boolean(),
+  requireSymbol: z.boolean(),
+  disallowPersonalInfo: z.boolean(),
+  rejectBreached: z.boolean(),
+  maxAgeDays: z.number().int(),
+  historySize: z.number().int(),
+});
+
+export class ChangePasswordDto extends createZodDto(ChangePasswordSchema) { }
+export class SetPasswordDto extends createZodDto(SetPasswordSchema) { }
+export class PasswordChangeResponseDto extends createZodDto(PasswordChangeResponseSchema) { }
+export class PasswordPolicyResponseDto extends createZodDto(PasswordPolicyResponseSchema) { }
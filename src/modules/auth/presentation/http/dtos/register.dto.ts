@@ -10,6 +10,7 @@ export const RegisterSchema = z.object({
   email: userEmailSchema,
   password: userPasswordSchema,
   name: userNameSchema,
+  invitationToken: z.string().trim().min(1, 'Invitation token cannot be empty').optional(),
 });
 
 /**
@@ -23,5 +24,8 @@ export const RegisterSchema = z.object({
  *   "name": "Jane Doe"
  * }
  * ```
+ *
+ * `invitationToken` comes from an organization invitation email; the account
+ * joins that organization as soon as it is created.
  */
 export class RegisterDto extends createZodDto(RegisterSchema) {}
@@ -0,0 +1,42 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { ActiveSession } from '@/shared/session-registry/session-registry.service';
+
+export const SessionIdParamSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{32}$/, 'Invalid session id'),
+});
+
+export const SessionResponseSchema = z.object({
+  id: z.string(),
+  device: z.string(),
+  ip: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.iso.datetime(),
+  lastSeenAt: z.iso.datetime(),
+  current: z.boolean(),
+});
+
+export const SessionListResponseSchema = z.array(SessionResponseSchema);
+
+export const RevokeOtherSessionsResponseSchema = z.object({
+  revoked: z.number().int(),
+});
+
+export type SessionResponse = z.infer<typeof SessionResponseSchema>;
+
+export function toSessionResponseDto(session: ActiveSession): SessionResponse {
+  return {
+    id: session.id,
+    device: session.device,
+    ip: session.ip,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    current: session.current,
+  };
+}
+
+export class SessionIdParamDto extends createZodDto(SessionIdParamSchema) { }
+export class SessionResponseDto extends createZodDto(SessionResponseSchema) { }
+export class SessionListResponseDto extends createZodDto(SessionListResponseSchema) { }
+export class RevokeOtherSessionsResponseDto extends createZodDto(RevokeOtherSessionsResponseSchema) { }
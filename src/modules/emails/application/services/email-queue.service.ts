@@ -3,11 +3,33 @@ import { Injectable, Logger } from '@nestjs/common';
 import type { Queue } from 'bull';
 import { envConfig } from '@/config/env.config';
 import { EMAIL_JOB_SEND, EMAIL_QUEUE_NAME } from '../constants/email-queue.constants';
+import { buildAccountDeletionCancelledEmail } from '../templates/account-deletion-cancelled-email.template';
+import { buildAccountDeletionScheduledEmail } from '../templates/account-deletion-scheduled-email.template';
+import { buildAccountLockedEmail } from '../templates/account-locked-email.template';
+import { buildDataExportReadyEmail } from '../templates/data-export-ready-email.template';
+import { buildEmailChangedEmail } from '../templates/email-changed-email.template';
+import { buildMagicLinkEmail } from '../templates/magic-link-email.template';
+import { buildNewDeviceLoginEmail } from '../templates/new-device-login-email.template';
+import { buildOrganizationInvitationEmail } from '../templates/organization-invitation-email.template';
+import { buildOrganizationOwnershipTransferEmail } from '../templates/organization-ownership-transfer-email.template';
+import { buildPasswordChangedEmail } from '../templates/password-changed-email.template';
 import { buildPasswordResetEmail } from '../templates/password-reset-email.template';
+import { buildVerifyEmail } from '../templates/verify-email.template';
 import { buildWelcomeEmail } from '../templates/welcome-email.template';
 import type {
+  AccountDeletionCancelledEmailInput,
+  AccountDeletionScheduledEmailInput,
+  AccountLockedEmailInput,
+  DataExportReadyEmailInput,
+  EmailChangedEmailInput,
+  MagicLinkEmailInput,
+  NewDeviceLoginEmailInput,
+  OrganizationInvitationEmailInput,
+  OrganizationOwnershipTransferEmailInput,
+  PasswordChangedEmailInput,
   PasswordResetEmailInput,
   SendEmailJobData,
+  VerifyEmailInput,
   WelcomeEmailInput,
 } from '../types/send-email-job.type';
 
@@ -38,6 +60,50 @@ export class EmailQueueService {
   async enqueuePasswordResetEmail(input: PasswordResetEmailInput): Promise<void> {
     await this.enqueue(buildPasswordResetEmail(input));
   }
+
+  async enqueuePasswordChangedEmail(input: PasswordChangedEmailInput): Promise<void> {
+    await this.enqueue(buildPasswordChangedEmail(input));
+  }
+
+  async enqueueEmailChangedEmail(input: EmailChangedEmailInput): Promise<void> {
+    await this.enqueue(buildEmailChangedEmail(input));
+  }
+
+  async enqueueAccountLockedEmail(input: AccountLockedEmailInput): Promise<void> {
+    await this.enqueue(buildAccountLockedEmail(input));
+  }
+
+  async enqueueNewDeviceLoginEmail(input: NewDeviceLoginEmailInput): Promise<void> {
+    await this.enqueue(buildNewDeviceLoginEmail(input));
+  }
+
+  async enqueueAccountDeletionScheduledEmail(input: AccountDeletionScheduledEmailInput): Promise<void> {
+    await this.enqueue(buildAccountDeletionScheduledEmail(input));
+  }
+
+  async enqueueAccountDeletionCancelledEmail(input: AccountDeletionCancelledEmailInput): Promise<void> {
+    await this.enqueue(buildAccountDeletionCancelledEmail(input));
+  }
+
+  async enqueueDataExportReadyEmail(input: DataExportReadyEmailInput): Promise<void> {
+    await this.enqueue(buildDataExportReadyEmail(input));
+  }
+
+  async enqueueMagicLinkEmail(input: MagicLinkEmailInput): Promise<void> {
+    await this.enqueue(buildMagicLinkEmail(input));
+  }
+
+  async enqueueVerifyEmail(input: VerifyEmailInput): Promise<void> {
+    await this.enqueue(buildVerifyEmail(input));
+  }
+
+  async enqueueOrganizationInvitationEmail(input: OrganizationInvitationEmailInput): Promise<void> {
+    await this.enqueue(buildOrganizationInvitationEmail(input));
+  }
+
+  async enqueueOrganizationOwnershipTransferEmail(input: OrganizationOwnershipTransferEmailInput): Promise<void> {
+    await this.enqueue(buildOrganizationOwnershipTransferEmail(input));
+  }
 }
 
 function formatRecipients(recipients: string | string[]): string {
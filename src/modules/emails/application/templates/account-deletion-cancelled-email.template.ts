@@ -0,0 +1,35 @@
+import type { AccountDeletionCancelledEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildAccountDeletionCancelledEmail(
+  input: AccountDeletionCancelledEmailInput,
+): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.accountUrl);
+  const organizationNames = input.organizationNames.join(', ');
+  const safeOrganizationNames = input.organizationNames.map(escapeHtml).join(', ');
+
+  return {
+    to: input.email,
+    subject: 'Your account deletion was cancelled',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      `We could not delete your account because you are the only owner of: ${organizationNames}.`,
+      `Transfer the ownership or delete these organizations, then request the deletion again: ${input.accountUrl}`,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      `<p>We could not delete your account because you are the only owner of: ${safeOrganizationNames}.</p>`,
+      `<p>Transfer the ownership or delete these organizations, then <a href="${safeUrl}">request the deletion again</a>.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
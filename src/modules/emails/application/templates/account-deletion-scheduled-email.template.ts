@@ -0,0 +1,34 @@
+import type { AccountDeletionScheduledEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildAccountDeletionScheduledEmail(
+  input: AccountDeletionScheduledEmailInput,
+): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.cancelUrl);
+  const deletionDate = input.deletionScheduledAt.toUTCString();
+
+  return {
+    to: input.email,
+    subject: 'Your account is scheduled for deletion',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      `Your account and its personal data will be permanently deleted on ${deletionDate}.`,
+      `If you changed your mind, sign in and cancel the deletion before then: ${input.cancelUrl}`,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      `<p>Your account and its personal data will be permanently deleted on ${deletionDate}.</p>`,
+      `<p>If you changed your mind, <a href="${safeUrl}">sign in and cancel the deletion</a> before then.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,33 @@
+import type { AccountLockedEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildAccountLockedEmail(input: AccountLockedEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.resetUrl);
+
+  return {
+    to: input.email,
+    subject: 'Your account has been temporarily locked',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      'We detected several failed sign-in attempts on your account, so it has been temporarily locked.',
+      `You can try again in ${input.lockedMinutes} minutes.`,
+      `If this was not you, reset your password: ${input.resetUrl}`,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      '<p>We detected several failed sign-in attempts on your account, so it has been temporarily locked.</p>',
+      `<p>You can try again in ${input.lockedMinutes} minutes.</p>`,
+      `<p>If this was not you, <a href="${safeUrl}">reset your password</a>.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,31 @@
+import type { DataExportReadyEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildDataExportReadyEmail(input: DataExportReadyEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.downloadUrl);
+  const expirationDate = input.expiresAt.toUTCString();
+
+  return {
+    to: input.email,
+    subject: 'Your data export is ready',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      `The copy of your data you requested is ready. Sign in to download it before ${expirationDate}:`,
+      input.downloadUrl,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      `<p>The copy of your data you requested is ready. <a href="${safeUrl}">Sign in to download it</a> before ${expirationDate}.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
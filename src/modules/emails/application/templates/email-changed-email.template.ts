@@ -0,0 +1,31 @@
+import type { EmailChangedEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildEmailChangedEmail(input: EmailChangedEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeNewEmail = escapeHtml(input.newEmail);
+
+  return {
+    to: input.email,
+    subject: 'Your account email was changed',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      `The email of your account was just changed to ${input.newEmail}. This address no longer signs in to it.`,
+      'If this was not you, contact the administrators of your organization right away.',
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      `<p>The email of your account was just changed to <strong>${safeNewEmail}</strong>. This address no longer signs in to it.</p>`,
+      '<p>If this was not you, contact the administrators of your organization right away.</p>',
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,36 @@
+import type { MagicLinkEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildMagicLinkEmail(input: MagicLinkEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.signInUrl);
+
+  return {
+    to: input.email,
+    subject: 'Your sign-in link',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      'We received a request to sign in to your account.',
+      `Use the link below to sign in: ${input.signInUrl}`,
+      `This link expires in ${input.expiresInMinutes} minutes and only works in the browser where it was requested.`,
+      '',
+      'If you did not request this link, you can safely ignore this message.',
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      '<p>We received a request to sign in to your account.</p>',
+      `<p><a href="${safeUrl}">Sign in</a></p>`,
+      `<p>This link expires in ${input.expiresInMinutes} minutes and only works in the browser where it was requested.</p>`,
+      '<p>If you did not request this link, you can safely ignore this message.</p>',
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,41 @@
+import type { NewDeviceLoginEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildNewDeviceLoginEmail(input: NewDeviceLoginEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.resetUrl);
+  const details = [
+    `Time: ${input.signedInAt.toUTCString()}`,
+    `Method: ${input.method}`,
+    `IP address: ${input.ip ?? 'unknown'}`,
+    `Device: ${input.userAgent ?? 'unknown'}`,
+  ];
+
+  return {
+    to: input.email,
+    subject: 'New sign-in to your account',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      'Your account was just signed in to from a device we have not seen before.',
+      '',
+      ...details,
+      '',
+      `If this was not you, reset your password right away: ${input.resetUrl}`,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      '<p>Your account was just signed in to from a device we have not seen before.</p>',
+      `<ul>${details.map((detail) => `<li>${escapeHtml(detail)}</li>`).join('')}</ul>`,
+      `<p>If this was not you, <a href="${safeUrl}">reset your password</a> right away.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
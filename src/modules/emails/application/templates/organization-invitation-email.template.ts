@@ -0,0 +1,45 @@
+import type { OrganizationInvitationEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildOrganizationInvitationEmail(
+  input: OrganizationInvitationEmailInput,
+): SendEmailJobData {
+  const safeOrganizationName = escapeHtml(input.organizationName);
+  const safeUrl = escapeHtml(input.acceptUrl);
+  const inviter = input.inviterName
+    ? `${input.inviterName} invited you`
+    : 'You have been invited';
+  const safeInviter = input.inviterName
+    ? `${escapeHtml(input.inviterName)} invited you`
+    : 'You have been invited';
+  const expirationDate = input.expiresAt.toUTCString();
+
+  return {
+    to: input.email,
+    subject: `Join ${input.organizationName}`,
+    text: [
+      'Hello,',
+      '',
+      `${inviter} to join ${input.organizationName}.`,
+      `Use the link below to accept or decline the invitation: ${input.acceptUrl}`,
+      `This invitation expires on ${expirationDate}. If you do not have an account yet, you can create one with this email address from the same link.`,
+      '',
+      'If you were not expecting this invitation, you can safely ignore this message.',
+    ].join('\n'),
+    html: [
+      '<p>Hello,</p>',
+      `<p>${safeInviter} to join <strong>${safeOrganizationName}</strong>.</p>`,
+      `<p><a href="${safeUrl}">View invitation</a></p>`,
+      `<p>This invitation expires on ${expirationDate}. If you do not have an account yet, you can create one with this email address from the same link.</p>`,
+      '<p>If you were not expecting this invitation, you can safely ignore this message.</p>',
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -0,0 +1,38 @@
+import type { OrganizationOwnershipTransferEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildOrganizationOwnershipTransferEmail(
+  input: OrganizationOwnershipTransferEmailInput,
+): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeRequesterName = escapeHtml(input.requesterName);
+  const safeOrganizationName = escapeHtml(input.organizationName);
+  const safeUrl = escapeHtml(input.reviewUrl);
+  const expirationDate = input.expiresAt.toUTCString();
+
+  return {
+    to: input.email,
+    subject: `Become the owner of ${input.organizationName}`,
+    text: [
+      `Hello ${input.name},`,
+      '',
+      `${input.requesterName} wants to transfer the ownership of ${input.organizationName} to you.`,
+      `Use the link below to accept or decline: ${input.reviewUrl}`,
+      `This request expires on ${expirationDate}. If you accept, ${input.requesterName} will stay in the organization as an admin.`,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      `<p>${safeRequesterName} wants to transfer the ownership of <strong>${safeOrganizationName}</strong> to you.</p>`,
+      `<p><a href="${safeUrl}">Review the request</a></p>`,
+      `<p>This request expires on ${expirationDate}. If you accept, ${safeRequesterName} will stay in the organization as an admin.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
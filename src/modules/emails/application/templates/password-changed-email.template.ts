@@ -0,0 +1,31 @@
+import type { PasswordChangedEmailInput, SendEmailJobData } from '../types/send-email-job.type';
+
+export function buildPasswordChangedEmail(input: PasswordChangedEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.resetUrl);
+
+  return {
+    to: input.email,
+    subject: 'Your password was changed',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      'The password of your account was just changed and your other sessions were signed out.',
+      `If this was not you, reset your password right away: ${input.resetUrl}`,
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      '<p>The password of your account was just changed and your other sessions were signed out.</p>',
+      `<p>If this was not you, <a href="${safeUrl}">reset your password</a> right away.</p>`,
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
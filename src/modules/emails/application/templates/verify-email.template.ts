@@ -0,0 +1,37 @@
+import type { SendEmailJobData, VerifyEmailInput } from '../types/send-email-job.type';
+
+export function buildVerifyEmail(input: VerifyEmailInput): SendEmailJobData {
+  const safeName = escapeHtml(input.name);
+  const safeUrl = escapeHtml(input.verifyUrl);
+  const expiresInHours = Math.round(input.expiresInMinutes / 60);
+
+  return {
+    to: input.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hello ${input.name},`,
+      '',
+      'Please confirm that this email address belongs to you.',
+      `Use the link below to verify it: ${input.verifyUrl}`,
+      `This link expires in ${expiresInHours} hours.`,
+      '',
+      'If you did not create an account, you can safely ignore this message.',
+    ].join('\n'),
+    html: [
+      `<p>Hello ${safeName},</p>`,
+      '<p>Please confirm that this email address belongs to you.</p>',
+      `<p><a href="${safeUrl}">Verify email address</a></p>`,
+      `<p>This link expires in ${expiresInHours} hours.</p>`,
+      '<p>If you did not create an account, you can safely ignore this message.</p>',
+    ].join(''),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -20,3 +20,85 @@ export interface PasswordResetEmailInput {
   resetUrl: string;
   expiresInMinutes: number;
 }
+
+export interface VerifyEmailInput {
+  email: string;
+  name: string;
+  verifyUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface MagicLinkEmailInput {
+  email: string;
+  name: string;
+  signInUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface AccountLockedEmailInput {
+  email: string;
+  name: string;
+  lockedMinutes: number;
+  resetUrl: string;
+}
+
+export interface PasswordChangedEmailInput {
+  email: string;
+  name: string;
+  resetUrl: string;
+}
+
+/** Sent to the previous address after an email change. */
+export interface EmailChangedEmailInput {
+  email: string;
+  name: string;
+  newEmail: string;
+}
+
+export interface AccountDeletionScheduledEmailInput {
+  email: string;
+  name: string;
+  deletionScheduledAt: Date;
+  cancelUrl: string;
+}
+
+export interface AccountDeletionCancelledEmailInput {
+  email: string;
+  name: string;
+  organizationNames: string[];
+  accountUrl: string;
+}
+
+export interface DataExportReadyEmailInput {
+  email: string;
+  name: string;
+  downloadUrl: string;
+  expiresAt: Date;
+}
+
+export interface NewDeviceLoginEmailInput {
+  email: string;
+  name: string;
+  signedInAt: Date;
+  method: string;
+  ip?: string | null;
+  userAgent?: string | null;
+  resetUrl: string;
+}
+
+export interface OrganizationInvitationEmailInput {
+  email: string;
+  organizationName: string;
+  inviterName?: string | null;
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+export interface OrganizationOwnershipTransferEmailInput {
+  email: string;
+  name: string;
+  organizationName: string;
+  requesterName: string;
+  reviewUrl: string;
+  expiresAt: Date;
+}
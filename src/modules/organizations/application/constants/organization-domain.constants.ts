@@ -0,0 +1,16 @@
+export const ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE = 'Organization domain not found';
+export const ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE =
+  'Only organization owners can manage domains and join requests';
+export const ORGANIZATION_DOMAIN_ALREADY_CLAIMED_MESSAGE =
+  'This domain was already added to the organization';
+export const ORGANIZATION_DOMAIN_VERIFIED_ELSEWHERE_MESSAGE =
+  'This domain is already verified by another organization';
+export const ORGANIZATION_DOMAIN_RECORD_NOT_FOUND_MESSAGE =
+  'The verification TXT record was not found. DNS changes can take a while to propagate.';
+export const ORGANIZATION_DOMAIN_LOOKUP_FAILED_MESSAGE =
+  'Could not look up the DNS records of this domain. Try again later.';
+export const ORGANIZATION_DOMAIN_NOT_JOINABLE_MESSAGE =
+  'This organization cannot be joined with your email address';
+export const ORGANIZATION_JOIN_REQUEST_NOT_FOUND_MESSAGE = 'Join request not found';
+export const ORGANIZATION_JOIN_REQUEST_PENDING_MESSAGE =
+  'A join request for this organization is already pending';
@@ -0,0 +1,7 @@
+export const ORGANIZATION_INVITATION_TTL_HOURS = 168;
+export const ORGANIZATION_INVITATION_INVALID_MESSAGE = 'Invalid or expired invitation';
+export const ORGANIZATION_INVITATION_NOT_FOUND_MESSAGE = 'Organization invitation not found';
+export const ORGANIZATION_INVITATION_EMAIL_MISMATCH_MESSAGE =
+  'This invitation was sent to a different email address';
+export const ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE =
+  'User is already a member of this organization';
@@ -0,0 +1,3 @@
+export const ORGANIZATION_LAST_OWNER_MESSAGE =
+  'An organization must keep at least one owner. Make another member an owner first.';
+export const ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE = 'Organization member not found';
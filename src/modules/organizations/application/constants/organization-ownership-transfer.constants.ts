@@ -0,0 +1,7 @@
+export const ORGANIZATION_OWNERSHIP_TRANSFER_TTL_HOURS = 72;
+export const ORGANIZATION_OWNERSHIP_TRANSFER_INVALID_MESSAGE =
+  'Invalid or expired ownership transfer';
+export const ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE =
+  'Ownership transfer not found';
+export const ORGANIZATION_OWNERSHIP_TRANSFER_PENDING_MESSAGE =
+  'An ownership transfer is already pending for this organization. Cancel it first.';
@@ -0,0 +1,4 @@
+export const ORGANIZATION_TEAM_NOT_FOUND_MESSAGE = 'Organization team not found';
+export const ORGANIZATION_TEAM_NAME_TAKEN_MESSAGE =
+  'Another team of the organization already uses this name';
+export const ORGANIZATION_TEAM_MEMBER_NOT_FOUND_MESSAGE = 'The user is not a member of this team';
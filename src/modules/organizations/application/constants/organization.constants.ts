@@ -0,0 +1,12 @@
+export const ORGANIZATION_QUEUE_NAME = 'organizations';
+export const ORGANIZATION_JOB_PURGE = 'purge';
+
+export const ORGANIZATION_NOT_FOUND_MESSAGE = 'Organization not found for current user';
+export const ORGANIZATION_SLUG_TAKEN_MESSAGE = 'This slug is already in use by another organization';
+export const ORGANIZATION_UPDATED_MESSAGE = 'Organization updated successfully';
+export const ORGANIZATION_DELETED_MESSAGE = 'Organization deleted successfully';
+export const ORGANIZATION_RESTORED_MESSAGE = 'Organization restored successfully';
+export const ORGANIZATION_NOT_RESTORABLE_MESSAGE =
+  'Organization not found among the deleted organizations you own, or it can no longer be restored';
+export const ORGANIZATION_SELECTION_COOKIE_SESSION_REQUIRED_MESSAGE =
+  'Bearer and API key requests select the organization with the X-Organization-Id header';
@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { OrganizationDomain } from '@/modules/organizations/domain/entities/organization-domain.entity';
+import type { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import {
+  ORGANIZATION_DOMAIN_REPOSITORY,
+  type IOrganizationDomainRepository,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { getEmailDomain } from '../utils/organization-domain.util';
+
+export interface JoinableOrganization {
+  domain: OrganizationDomain;
+  organization: Organization;
+}
+
+/**
+ * Matches the verified email of a user against the verified domains of
+ * organizations.
+ */
+@Injectable()
+export class OrganizationDomainJoinService {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_DOMAIN_REPOSITORY)
+    private readonly organizationDomainRepository: IOrganizationDomainRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) {}
+
+  async findJoinable(userId: string): Promise<JoinableOrganization | null> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user?.emailVerifiedAt) {
+      return null;
+    }
+
+    const emailDomain = getEmailDomain(user.email);
+    const domain = emailDomain
+      ? await this.organizationDomainRepository.findVerifiedByDomain(emailDomain)
+      : null;
+
+    if (!domain) {
+      return null;
+    }
+
+    const organization = await this.organizationRepository.findById(domain.organizationId);
+
+    return organization && !organization.deletedAt ? { domain, organization } : null;
+  }
+}
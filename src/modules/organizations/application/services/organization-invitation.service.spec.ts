@@ -0,0 +1,106 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import { OrganizationInvitation } from '@/modules/organizations/domain/entities/organization-invitation.entity';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type { IOrganizationInvitationRepository } from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import { hashOrganizationInvitationToken } from '../utils/organization-invitation-token.util';
+import { OrganizationInvitationService } from './organization-invitation.service';
+
+jest.mock('@/config/env.config', () => ({
+  envConfig: { appUrl: 'http://localhost:3000' },
+}));
+
+describe('OrganizationInvitationService', () => {
+  const user = { id: '20', email: 'ana@example.com' };
+  const organization = new Organization({ id: '100', name: 'Acme' });
+  let invitation: OrganizationInvitation;
+  const organizationInvitationRepository = {
+    findByTokenHash: jest.fn((tokenHash: string) =>
+      Promise.resolve(tokenHash === invitation.tokenHash ? invitation : null),
+    ),
+    accept: jest.fn(() => Promise.resolve({ organization, role: 'member' })),
+  };
+  const organizationRepository = {
+    findById: jest.fn(() => Promise.resolve(organization)),
+    findAccessibleByIdForUser: jest.fn(() => Promise.resolve(null)),
+  };
+  const entitlementsService = { assertSeatAvailable: jest.fn(() => Promise.resolve()) };
+  const service = new OrganizationInvitationService(
+    organizationInvitationRepository as unknown as IOrganizationInvitationRepository,
+    organizationRepository as unknown as IOrganizationRepository,
+    {} as EmailQueueService,
+    entitlementsService as unknown as EntitlementsService,
+  );
+
+  beforeEach(() => {
+    invitation = new OrganizationInvitation({
+      id: '500',
+      organizationId: organization.id,
+      email: user.email,
+      roleCodes: ['org_member'],
+      tokenHash: hashOrganizationInvitationToken('raw-token'),
+      status: 'pending',
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    organization.deletedAt = null;
+    jest.clearAllMocks();
+  });
+
+  it('accepts a pending invitation for the invited address', async () => {
+    await expect(service.accept('raw-token', { ...user, email: 'Ana@Example.com ' }))
+      .resolves.toEqual({ organization, role: 'member' });
+    expect(entitlementsService.assertSeatAvailable).toHaveBeenCalledWith(organization.id);
+    expect(organizationInvitationRepository.accept).toHaveBeenCalledWith(
+      invitation.id,
+      user.id,
+      expect.any(Date),
+    );
+  });
+
+  it.each([
+    ['unknown', () => 'other-token'],
+    ['expired', () => {
+      invitation.expiresAt = new Date(Date.now() - 1);
+      return 'raw-token';
+    }],
+    ['revoked', () => {
+      invitation.status = 'revoked';
+      return 'raw-token';
+    }],
+    ['for a deleted organization', () => {
+      organization.deletedAt = new Date();
+      return 'raw-token';
+    }],
+  ])('rejects %s invitations', async (_label, prepare) => {
+    await expect(service.accept(prepare(), user)).rejects.toThrow(BadRequestException);
+    expect(organizationInvitationRepository.accept).not.toHaveBeenCalled();
+  });
+
+  it('rejects invitations sent to another address', async () => {
+    await expect(service.accept('raw-token', { ...user, email: 'bob@example.com' }))
+      .rejects.toThrow(ForbiddenException);
+    expect(organizationInvitationRepository.accept).not.toHaveBeenCalled();
+  });
+
+  it('rejects users who are already members', async () => {
+    organizationRepository.findAccessibleByIdForUser.mockResolvedValueOnce({
+      organization,
+      role: 'member',
+    } as never);
+
+    await expect(service.accept('raw-token', user)).rejects.toThrow(ConflictException);
+    expect(organizationInvitationRepository.accept).not.toHaveBeenCalled();
+  });
+
+  it('rejects invitations answered concurrently', async () => {
+    organizationInvitationRepository.accept.mockResolvedValueOnce(null as never);
+
+    await expect(service.accept('raw-token', user)).rejects.toThrow(BadRequestException);
+  });
+});
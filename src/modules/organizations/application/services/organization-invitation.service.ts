@@ -0,0 +1,135 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import type { OrganizationInvitation } from '@/modules/organizations/domain/entities/organization-invitation.entity';
+import {
+  ORGANIZATION_INVITATION_REPOSITORY,
+  type IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+  type OrganizationAccess,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import {
+  ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE,
+  ORGANIZATION_INVITATION_EMAIL_MISMATCH_MESSAGE,
+  ORGANIZATION_INVITATION_INVALID_MESSAGE,
+} from '../constants/organization-invitation.constants';
+import { hashOrganizationInvitationToken } from '../utils/organization-invitation-token.util';
+
+export interface SendOrganizationInvitationInput {
+  invitation: OrganizationInvitation;
+  rawToken: string;
+  organizationName: string;
+  inviterName?: string | null;
+}
+
+/**
+ * Shared by the invitation endpoints and by registration, which can accept
+ * an invitation for the address that is being registered.
+ */
+@Injectable()
+export class OrganizationInvitationService {
+  private readonly logger = new Logger(OrganizationInvitationService.name);
+
+  constructor(
+    @Inject(ORGANIZATION_INVITATION_REPOSITORY)
+    private readonly organizationInvitationRepository: IOrganizationInvitationRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly emailQueueService: EmailQueueService,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async findAnswerable(rawToken: string, now = new Date()): Promise<OrganizationInvitation> {
+    const invitation = await this.organizationInvitationRepository.findByTokenHash(
+      hashOrganizationInvitationToken(rawToken),
+    );
+
+    if (!invitation || invitation.status !== 'pending' || invitation.expiresAt <= now) {
+      throw new BadRequestException(ORGANIZATION_INVITATION_INVALID_MESSAGE);
+    }
+
+    const organization = await this.organizationRepository.findById(invitation.organizationId);
+
+    if (!organization || organization.deletedAt) {
+      throw new BadRequestException(ORGANIZATION_INVITATION_INVALID_MESSAGE);
+    }
+
+    return invitation;
+  }
+
+  async assertAcceptableBy(rawToken: string, email: string): Promise<OrganizationInvitation> {
+    const invitation = await this.findAnswerable(rawToken);
+
+    if (invitation.email !== email.trim().toLowerCase()) {
+      throw new ForbiddenException(ORGANIZATION_INVITATION_EMAIL_MISMATCH_MESSAGE);
+    }
+
+    // The seat held by the invitation is only taken once it is accepted.
+    await this.entitlementsService.assertSeatAvailable(invitation.organizationId);
+
+    return invitation;
+  }
+
+  async accept(
+    rawToken: string,
+    user: { id: string; email: string },
+  ): Promise<OrganizationAccess> {
+    const invitation = await this.assertAcceptableBy(rawToken, user.email);
+    const existingAccess = await this.organizationRepository.findAccessibleByIdForUser(
+      invitation.organizationId,
+      user.id,
+    );
+
+    if (existingAccess) {
+      throw new ConflictException(ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE);
+    }
+
+    const access = await this.organizationInvitationRepository.accept(
+      invitation.id,
+      user.id,
+      new Date(),
+    );
+
+    if (!access) {
+      throw new BadRequestException(ORGANIZATION_INVITATION_INVALID_MESSAGE);
+    }
+
+    return access;
+  }
+
+  async send(input: SendOrganizationInvitationInput): Promise<void> {
+    try {
+      await this.emailQueueService.enqueueOrganizationInvitationEmail({
+        email: input.invitation.email,
+        organizationName: input.organizationName,
+        inviterName: input.inviterName,
+        acceptUrl: buildInvitationUrl(input.rawToken),
+        expiresAt: input.invitation.expiresAt,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(
+        `Failed to enqueue organization invitation email for ${input.invitation.email}: ${message}`,
+        stack,
+      );
+    }
+  }
+}
+
+function buildInvitationUrl(token: string): string {
+  const appUrl = envConfig.appUrl.replace(/\/$/, '');
+  return `${appUrl}/invitations?token=${encodeURIComponent(token)}`;
+}
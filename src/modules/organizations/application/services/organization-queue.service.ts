@@ -0,0 +1,42 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable } from '@nestjs/common';
+import type { Queue } from 'bull';
+import {
+  ORGANIZATION_JOB_PURGE,
+  ORGANIZATION_QUEUE_NAME,
+} from '../constants/organization.constants';
+import type { OrganizationJobData } from '../types/organization-job.type';
+
+@Injectable()
+export class OrganizationQueueService {
+  constructor(
+    @InjectQueue(ORGANIZATION_QUEUE_NAME)
+    private readonly organizationQueue: Queue<OrganizationJobData>,
+  ) {}
+
+  /**
+   * Schedules the purge of a soft-deleted organization. Only one purge job
+   * exists per organization, so rescheduling replaces the previous one.
+   */
+  async schedulePurge(organizationId: string, runAt: Date): Promise<void> {
+    await this.cancelPurge(organizationId);
+    await this.organizationQueue.add(
+      ORGANIZATION_JOB_PURGE,
+      { organizationId },
+      {
+        jobId: getPurgeJobId(organizationId),
+        delay: Math.max(runAt.getTime() - Date.now(), 0),
+      },
+    );
+  }
+
+  async cancelPurge(organizationId: string): Promise<void> {
+    const job = await this.organizationQueue.getJob(getPurgeJobId(organizationId));
+
+    await job?.remove();
+  }
+}
+
+function getPurgeJobId(organizationId: string): string {
+  return `purge:${organizationId}`;
+}
@@ -0,0 +1,5 @@
+export interface OrganizationPurgeJobData {
+  organizationId: string;
+}
+
+export type OrganizationJobData = OrganizationPurgeJobData;
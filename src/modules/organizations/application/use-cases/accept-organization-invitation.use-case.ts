@@ -0,0 +1,27 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { OrganizationInvitationService } from '../services/organization-invitation.service';
+
+@Injectable()
+export class AcceptOrganizationInvitationUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly organizationInvitationService: OrganizationInvitationService,
+  ) {}
+
+  async execute(userId: string, token: string) {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const access = await this.organizationInvitationService.accept(token, user);
+
+    return {
+      data: access,
+      message: 'Organization invitation accepted successfully',
+    };
+  }
+}
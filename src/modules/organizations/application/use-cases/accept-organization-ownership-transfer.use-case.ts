@@ -0,0 +1,59 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+  type IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_INVALID_MESSAGE,
+  ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE,
+} from '../constants/organization-ownership-transfer.constants';
+
+@Injectable()
+export class AcceptOrganizationOwnershipTransferUseCase {
+  constructor(
+    @Inject(ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY)
+    private readonly organizationOwnershipTransferRepository: IOrganizationOwnershipTransferRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) {}
+
+  async execute(userId: string, transferId: string) {
+    const transfer = await this.organizationOwnershipTransferRepository.findById(transferId);
+
+    if (!transfer || transfer.toUserId !== userId) {
+      throw new NotFoundException(ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE);
+    }
+
+    const now = new Date();
+    const organizationAccess = await this.organizationRepository.findAccessibleByIdForUser(
+      transfer.organizationId,
+      userId,
+    );
+
+    if (
+      transfer.status !== 'pending' ||
+      transfer.expiresAt <= now ||
+      !organizationAccess ||
+      !(await this.organizationOwnershipTransferRepository.accept(transfer.id, now))
+    ) {
+      throw new BadRequestException(ORGANIZATION_OWNERSHIP_TRANSFER_INVALID_MESSAGE);
+    }
+
+    return {
+      data: {
+        organization: organizationAccess.organization,
+        role: 'owner' as const,
+      },
+      message: 'You are now an owner of the organization',
+    };
+  }
+}
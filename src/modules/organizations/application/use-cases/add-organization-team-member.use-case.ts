@@ -0,0 +1,50 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import { ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE } from '../constants/organization-membership.constants';
+import { ORGANIZATION_TEAM_NOT_FOUND_MESSAGE } from '../constants/organization-team.constants';
+
+export interface OrganizationTeamMemberInput {
+  organizationId: string;
+  teamId: string;
+  userId: string;
+}
+
+@Injectable()
+export class AddOrganizationTeamMemberUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(input: OrganizationTeamMemberInput) {
+    const team = await this.organizationTeamRepository.findById(
+      input.teamId,
+      input.organizationId,
+    );
+
+    if (!team) {
+      throw new NotFoundException(ORGANIZATION_TEAM_NOT_FOUND_MESSAGE);
+    }
+
+    const added = await this.organizationTeamRepository.addMember(
+      team.id,
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!added) {
+      throw new NotFoundException(ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Member added to the team successfully',
+    };
+  }
+}
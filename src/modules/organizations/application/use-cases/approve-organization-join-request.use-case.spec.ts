@@ -0,0 +1,61 @@
+import { ForbiddenException } from '@nestjs/common';
+import { OrganizationJoinRequest } from '@/modules/organizations/domain/entities/organization-join-request.entity';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type { IOrganizationJoinRequestRepository } from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ENTITLEMENT_SEAT_LIMIT_MESSAGE } from '@/modules/plans/application/constants/plan.constants';
+import type { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import { ApproveOrganizationJoinRequestUseCase } from './approve-organization-join-request.use-case';
+
+describe('ApproveOrganizationJoinRequestUseCase', () => {
+  const organization = new Organization({ id: '100', name: 'Acme' });
+  const joinRequest = new OrganizationJoinRequest({
+    id: '700',
+    organizationId: organization.id,
+    userId: '30',
+    roleCode: 'org_member',
+    status: 'pending',
+  });
+  const organizationRepository = {
+    findAccessibleByIdForUser: jest.fn((_organizationId: string, userId: string) =>
+      Promise.resolve(userId === '1' ? { organization, role: 'owner' } : null),
+    ),
+  };
+  const organizationJoinRequestRepository = {
+    findById: jest.fn(() => Promise.resolve(joinRequest)),
+    approve: jest.fn(() => Promise.resolve({ organization, role: 'member' })),
+  };
+  const entitlementsService = {
+    getEntitlements: jest.fn(() => Promise.resolve({ seatLimit: 5 })),
+  };
+  const useCase = new ApproveOrganizationJoinRequestUseCase(
+    organizationRepository as unknown as IOrganizationRepository,
+    organizationJoinRequestRepository as unknown as IOrganizationJoinRequestRepository,
+    entitlementsService as unknown as EntitlementsService,
+  );
+  const input = { userId: '1', organizationId: organization.id, joinRequestId: joinRequest.id };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('checks the seat limit inside the approval transaction', async () => {
+    await useCase.execute(input);
+
+    expect(organizationJoinRequestRepository.approve).toHaveBeenCalledWith(
+      joinRequest.id,
+      organization.id,
+      '1',
+      expect.any(Date),
+      5,
+    );
+  });
+
+  it('refuses the approval when the plan has no seat left', async () => {
+    organizationJoinRequestRepository.approve.mockRejectedValueOnce(
+      new ForbiddenException(ENTITLEMENT_SEAT_LIMIT_MESSAGE),
+    );
+
+    await expect(useCase.execute(input)).rejects.toThrow(ENTITLEMENT_SEAT_LIMIT_MESSAGE);
+  });
+});
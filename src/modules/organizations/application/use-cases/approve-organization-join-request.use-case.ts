@@ -0,0 +1,89 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+  type IOrganizationJoinRequestRepository,
+} from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import {
+  ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE,
+  ORGANIZATION_JOIN_REQUEST_NOT_FOUND_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE } from '../constants/organization-invitation.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+
+export interface RespondToOrganizationJoinRequestInput {
+  userId: string;
+  organizationId: string;
+  joinRequestId: string;
+}
+
+@Injectable()
+export class ApproveOrganizationJoinRequestUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_JOIN_REQUEST_REPOSITORY)
+    private readonly organizationJoinRequestRepository: IOrganizationJoinRequestRepository,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async execute(input: RespondToOrganizationJoinRequestInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const joinRequest = await this.organizationJoinRequestRepository.findById(
+      input.joinRequestId,
+      input.organizationId,
+    );
+
+    if (!joinRequest || joinRequest.status !== 'pending') {
+      throw new NotFoundException(ORGANIZATION_JOIN_REQUEST_NOT_FOUND_MESSAGE);
+    }
+
+    if (
+      await this.organizationRepository.findAccessibleByIdForUser(
+        input.organizationId,
+        joinRequest.userId,
+      )
+    ) {
+      throw new ConflictException(ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE);
+    }
+
+    const { seatLimit } = await this.entitlementsService.getEntitlements(input.organizationId);
+    const approvedAccess = await this.organizationJoinRequestRepository.approve(
+      joinRequest.id,
+      input.organizationId,
+      input.userId,
+      new Date(),
+      seatLimit,
+    );
+
+    if (!approvedAccess) {
+      throw new NotFoundException(ORGANIZATION_JOIN_REQUEST_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Join request approved successfully',
+    };
+  }
+}
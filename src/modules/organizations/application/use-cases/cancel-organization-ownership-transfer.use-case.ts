@@ -0,0 +1,55 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+  type IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE } from '../constants/organization-ownership-transfer.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+
+@Injectable()
+export class CancelOrganizationOwnershipTransferUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY)
+    private readonly organizationOwnershipTransferRepository: IOrganizationOwnershipTransferRepository,
+  ) {}
+
+  async execute(userId: string, organizationId: string) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      organizationId,
+      userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can cancel an ownership transfer');
+    }
+
+    const transfer =
+      await this.organizationOwnershipTransferRepository.findPendingByOrganization(organizationId);
+    const cancelled = transfer
+      ? await this.organizationOwnershipTransferRepository.close(transfer.id, 'cancelled', new Date())
+      : false;
+
+    if (!cancelled) {
+      throw new NotFoundException(ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Ownership transfer cancelled successfully',
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import type { OrganizationDomainJoinPolicy } from '@/modules/organizations/domain/entities/organization-domain.entity';
+import {
+  ORGANIZATION_DOMAIN_REPOSITORY,
+  type IOrganizationDomainRepository,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import {
+  ORGANIZATION_DOMAIN_ALREADY_CLAIMED_MESSAGE,
+  ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE,
+  ORGANIZATION_DOMAIN_VERIFIED_ELSEWHERE_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+import {
+  generateOrganizationDomainVerificationToken,
+  withOrganizationDomainVerificationRecord,
+} from '../utils/organization-domain.util';
+
+export interface CreateOrganizationDomainInput {
+  userId: string;
+  organizationId: string;
+  domain: string;
+  joinPolicy: OrganizationDomainJoinPolicy;
+  defaultRoleCode: SystemRoleCode;
+}
+
+@Injectable()
+export class CreateOrganizationDomainUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_DOMAIN_REPOSITORY)
+    private readonly organizationDomainRepository: IOrganizationDomainRepository,
+  ) {}
+
+  async execute(input: CreateOrganizationDomainInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const [existingDomain, verifiedDomain] = await Promise.all([
+      this.organizationDomainRepository.findByDomain(input.organizationId, input.domain),
+      this.organizationDomainRepository.findVerifiedByDomain(input.domain),
+    ]);
+
+    if (existingDomain) {
+      throw new ConflictException(ORGANIZATION_DOMAIN_ALREADY_CLAIMED_MESSAGE);
+    }
+
+    if (verifiedDomain) {
+      throw new ConflictException(ORGANIZATION_DOMAIN_VERIFIED_ELSEWHERE_MESSAGE);
+    }
+
+    const domain = await this.organizationDomainRepository.create({
+      organizationId: input.organizationId,
+      domain: input.domain,
+      verificationToken: generateOrganizationDomainVerificationToken(),
+      joinPolicy: input.joinPolicy,
+      defaultRoleCode: input.defaultRoleCode,
+      createdByUserId: input.userId,
+    });
+
+    return {
+      data: withOrganizationDomainVerificationRecord(domain),
+      message: 'Organization domain added. Publish the TXT record and verify it.',
+    };
+  }
+}
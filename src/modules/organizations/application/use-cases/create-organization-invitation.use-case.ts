@@ -0,0 +1,114 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_INVITATION_REPOSITORY,
+  type IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  DEFAULT_ORGANIZATION_OWNER_ROLE_CODE,
+  type SystemRoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE,
+  ORGANIZATION_INVITATION_TTL_HOURS,
+} from '../constants/organization-invitation.constants';
+import { OrganizationInvitationService } from '../services/organization-invitation.service';
+import { generateOrganizationInvitationToken } from '../utils/organization-invitation-token.util';
+
+export interface CreateOrganizationInvitationInput {
+  organizationId: string;
+  inviterId: string;
+  email: string;
+  roleCodes: SystemRoleCode[];
+}
+
+@Injectable()
+export class CreateOrganizationInvitationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_INVITATION_REPOSITORY)
+    private readonly organizationInvitationRepository: IOrganizationInvitationRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly organizationInvitationService: OrganizationInvitationService,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async execute(input: CreateOrganizationInvitationInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.inviterId,
+    );
+
+    if (!access) {
+      throw new NotFoundException('Organization not found for current user');
+    }
+
+    if (input.roleCodes.includes(DEFAULT_ORGANIZATION_OWNER_ROLE_CODE) && access.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can invite other owners');
+    }
+
+    const now = new Date();
+    const [inviter, invitee, pendingInvitation] = await Promise.all([
+      this.userRepository.findById(input.inviterId),
+      this.userRepository.findByEmail(input.email),
+      this.organizationInvitationRepository.findPendingByEmail(input.organizationId, input.email),
+    ]);
+
+    if (
+      invitee &&
+      (await this.organizationRepository.findAccessibleByIdForUser(input.organizationId, invitee.id))
+    ) {
+      throw new ConflictException(ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE);
+    }
+
+    if (pendingInvitation) {
+      if (pendingInvitation.expiresAt > now) {
+        throw new ConflictException(
+          'A pending invitation already exists for this email. Resend it instead.',
+        );
+      }
+
+      // Only one pending invitation per address is allowed; an expired one is replaced.
+      await this.organizationInvitationRepository.close(pendingInvitation.id, 'revoked', now);
+    }
+
+    await this.entitlementsService.assertSeatAvailable(input.organizationId, {
+      includePendingInvitations: true,
+    });
+
+    const { rawToken, tokenHash } = generateOrganizationInvitationToken();
+    const invitation = await this.organizationInvitationRepository.create({
+      organizationId: input.organizationId,
+      email: input.email,
+      roleCodes: input.roleCodes,
+      tokenHash,
+      invitedByUserId: input.inviterId,
+      expiresAt: new Date(now.getTime() + ORGANIZATION_INVITATION_TTL_HOURS * 60 * 60 * 1000),
+    });
+
+    await this.organizationInvitationService.send({
+      invitation,
+      rawToken,
+      organizationName: access.organization.name,
+      inviterName: inviter?.name,
+    });
+
+    return {
+      data: invitation,
+      message: 'Organization invitation sent successfully',
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  ReauthenticationService,
+  type ReauthenticationInput,
+} from '@/modules/auth/application/services/reauthentication.service';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+  type IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE } from '../constants/organization-membership.constants';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_PENDING_MESSAGE,
+  ORGANIZATION_OWNERSHIP_TRANSFER_TTL_HOURS,
+} from '../constants/organization-ownership-transfer.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+
+export interface CreateOrganizationOwnershipTransferInput {
+  organizationId: string;
+  userId: string;
+  toUserId: string;
+  reauthentication: ReauthenticationInput;
+}
+
+@Injectable()
+export class CreateOrganizationOwnershipTransferUseCase {
+  private readonly logger = new Logger(CreateOrganizationOwnershipTransferUseCase.name);
+
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY)
+    private readonly organizationOwnershipTransferRepository: IOrganizationOwnershipTransferRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly emailQueueService: EmailQueueService,
+  ) {}
+
+  async execute(input: CreateOrganizationOwnershipTransferInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can transfer ownership');
+    }
+
+    if (input.toUserId === input.userId) {
+      throw new BadRequestException('You cannot transfer ownership to yourself');
+    }
+
+    const requester = await this.reauthenticationService.assertReauthenticated(
+      input.userId,
+      input.reauthentication,
+    );
+    const [recipientAccess, recipient] = await Promise.all([
+      this.organizationRepository.findAccessibleByIdForUser(input.organizationId, input.toUserId),
+      this.userRepository.findById(input.toUserId),
+    ]);
+
+    if (!recipientAccess || !recipient) {
+      throw new NotFoundException(ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE);
+    }
+
+    if (recipientAccess.role === 'owner') {
+      throw new ConflictException('This member is already an owner of the organization');
+    }
+
+    const now = new Date();
+    const pendingTransfer =
+      await this.organizationOwnershipTransferRepository.findPendingByOrganization(
+        input.organizationId,
+      );
+
+    if (pendingTransfer) {
+      if (pendingTransfer.expiresAt > now) {
+        throw new ConflictException(ORGANIZATION_OWNERSHIP_TRANSFER_PENDING_MESSAGE);
+      }
+
+      // Only one pending transfer per organization is allowed; an expired one is replaced.
+      await this.organizationOwnershipTransferRepository.close(pendingTransfer.id, 'cancelled', now);
+    }
+
+    const transfer = await this.organizationOwnershipTransferRepository.create({
+      organizationId: input.organizationId,
+      fromUserId: input.userId,
+      toUserId: input.toUserId,
+      expiresAt: new Date(
+        now.getTime() + ORGANIZATION_OWNERSHIP_TRANSFER_TTL_HOURS * 60 * 60 * 1000,
+      ),
+    });
+
+    try {
+      await this.emailQueueService.enqueueOrganizationOwnershipTransferEmail({
+        email: recipient.email,
+        name: recipient.name,
+        organizationName: access.organization.name,
+        requesterName: requester.name,
+        reviewUrl: `${envConfig.appUrl.replace(/\/$/, '')}/ownership-transfers/${transfer.id}`,
+        expiresAt: transfer.expiresAt,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(
+        `Failed to enqueue ownership transfer email for transfer ${transfer.id}: ${message}`,
+        stack,
+      );
+    }
+
+    return {
+      data: transfer,
+      message: 'Ownership transfer requested successfully',
+    };
+  }
+}
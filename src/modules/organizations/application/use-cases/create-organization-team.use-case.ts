@@ -0,0 +1,49 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import { ORGANIZATION_TEAM_NAME_TAKEN_MESSAGE } from '../constants/organization-team.constants';
+
+export interface CreateOrganizationTeamInput {
+  organizationId: string;
+  name: string;
+  description?: string | null;
+  roleCodes: SystemRoleCode[];
+}
+
+@Injectable()
+export class CreateOrganizationTeamUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(input: CreateOrganizationTeamInput) {
+    const existingTeam = await this.organizationTeamRepository.findByName(
+      input.organizationId,
+      input.name,
+    );
+
+    if (existingTeam) {
+      throw new ConflictException(ORGANIZATION_TEAM_NAME_TAKEN_MESSAGE);
+    }
+
+    const team = await this.organizationTeamRepository.create({
+      organizationId: input.organizationId,
+      name: input.name,
+      description: input.description ?? null,
+      roleCodes: input.roleCodes,
+    });
+
+    return {
+      data: team,
+      message: 'Organization team created successfully',
+    };
+  }
+}
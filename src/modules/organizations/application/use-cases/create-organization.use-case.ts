@@ -1,8 +1,10 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
 import {
   ORGANIZATION_REPOSITORY,
   type IOrganizationRepository,
 } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
 
 export interface CreateOrganizationInput {
   name: string;
@@ -13,9 +15,20 @@ export class CreateOrganizationUseCase {
   constructor(
     @Inject(ORGANIZATION_REPOSITORY)
     private readonly organizationRepository: IOrganizationRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly emailVerificationService: EmailVerificationService,
   ) {}
 
   async execute(userId: string, input: CreateOrganizationInput) {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    this.emailVerificationService.assertCanCreateOrganization(user);
+
     const organization = await this.organizationRepository.createForUser({
       name: input.name,
       userId,
@@ -0,0 +1,33 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_INVITATION_REPOSITORY,
+  type IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import { ORGANIZATION_INVITATION_INVALID_MESSAGE } from '../constants/organization-invitation.constants';
+import { OrganizationInvitationService } from '../services/organization-invitation.service';
+
+@Injectable()
+export class DeclineOrganizationInvitationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_INVITATION_REPOSITORY)
+    private readonly organizationInvitationRepository: IOrganizationInvitationRepository,
+    private readonly organizationInvitationService: OrganizationInvitationService,
+  ) {}
+
+  async execute(token: string) {
+    const invitation = await this.organizationInvitationService.findAnswerable(token);
+    const declined = await this.organizationInvitationRepository.close(
+      invitation.id,
+      'declined',
+      new Date(),
+    );
+
+    if (!declined) {
+      throw new BadRequestException(ORGANIZATION_INVITATION_INVALID_MESSAGE);
+    }
+
+    return {
+      message: 'Organization invitation declined',
+    };
+  }
+}
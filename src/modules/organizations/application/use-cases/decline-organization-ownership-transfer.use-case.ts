@@ -0,0 +1,44 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+  type IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_INVALID_MESSAGE,
+  ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE,
+} from '../constants/organization-ownership-transfer.constants';
+
+@Injectable()
+export class DeclineOrganizationOwnershipTransferUseCase {
+  constructor(
+    @Inject(ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY)
+    private readonly organizationOwnershipTransferRepository: IOrganizationOwnershipTransferRepository,
+  ) {}
+
+  async execute(userId: string, transferId: string) {
+    const transfer = await this.organizationOwnershipTransferRepository.findById(transferId);
+
+    if (!transfer || transfer.toUserId !== userId) {
+      throw new NotFoundException(ORGANIZATION_OWNERSHIP_TRANSFER_NOT_FOUND_MESSAGE);
+    }
+
+    const declined = await this.organizationOwnershipTransferRepository.close(
+      transfer.id,
+      'declined',
+      new Date(),
+    );
+
+    if (!declined) {
+      throw new BadRequestException(ORGANIZATION_OWNERSHIP_TRANSFER_INVALID_MESSAGE);
+    }
+
+    return {
+      message: 'Ownership transfer declined',
+    };
+  }
+}
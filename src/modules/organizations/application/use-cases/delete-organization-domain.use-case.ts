@@ -0,0 +1,63 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_DOMAIN_REPOSITORY,
+  type IOrganizationDomainRepository,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE,
+  ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+
+export interface DeleteOrganizationDomainInput {
+  userId: string;
+  organizationId: string;
+  domainId: string;
+}
+
+@Injectable()
+export class DeleteOrganizationDomainUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_DOMAIN_REPOSITORY)
+    private readonly organizationDomainRepository: IOrganizationDomainRepository,
+  ) {}
+
+  async execute(input: DeleteOrganizationDomainInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const deleted = await this.organizationDomainRepository.delete(
+      input.domainId,
+      input.organizationId,
+    );
+
+    if (!deleted) {
+      throw new NotFoundException(ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Organization domain removed successfully',
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import { ORGANIZATION_TEAM_NOT_FOUND_MESSAGE } from '../constants/organization-team.constants';
+
+export interface DeleteOrganizationTeamInput {
+  organizationId: string;
+  teamId: string;
+}
+
+@Injectable()
+export class DeleteOrganizationTeamUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(input: DeleteOrganizationTeamInput) {
+    const deleted = await this.organizationTeamRepository.delete(
+      input.teamId,
+      input.organizationId,
+    );
+
+    if (!deleted) {
+      throw new NotFoundException(ORGANIZATION_TEAM_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Organization team deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { ForbiddenException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  ReauthenticationService,
+  type ReauthenticationInput,
+} from '@/modules/auth/application/services/reauthentication.service';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+  type IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  ORGANIZATION_DELETED_MESSAGE,
+  ORGANIZATION_NOT_FOUND_MESSAGE,
+} from '../constants/organization.constants';
+import { OrganizationQueueService } from '../services/organization-queue.service';
+
+export interface DeleteOrganizationInput {
+  userId: string;
+  organizationId: string;
+  reauthentication: ReauthenticationInput;
+}
+
+@Injectable()
+export class DeleteOrganizationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY)
+    private readonly organizationOwnershipTransferRepository: IOrganizationOwnershipTransferRepository,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly organizationQueueService: OrganizationQueueService,
+  ) {}
+
+  async execute(input: DeleteOrganizationInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can delete the organization');
+    }
+
+    await this.reauthenticationService.assertReauthenticated(
+      input.userId,
+      input.reauthentication,
+    );
+
+    const now = new Date();
+    const purgeScheduledAt = new Date(
+      now.getTime() + envConfig.organization.deletionGraceDays * 86_400_000,
+    );
+    const deleted = await this.organizationRepository.softDelete(
+      input.organizationId,
+      purgeScheduledAt,
+      now,
+    );
+
+    if (!deleted) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    const pendingTransfer =
+      await this.organizationOwnershipTransferRepository.findPendingByOrganization(
+        input.organizationId,
+      );
+
+    if (pendingTransfer) {
+      await this.organizationOwnershipTransferRepository.close(pendingTransfer.id, 'cancelled', now);
+    }
+
+    await this.organizationQueueService.schedulePurge(input.organizationId, purgeScheduledAt);
+
+    return {
+      data: { purgeScheduledAt },
+      message: ORGANIZATION_DELETED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { ORGANIZATION_INVITATION_INVALID_MESSAGE } from '../constants/organization-invitation.constants';
+import { OrganizationInvitationService } from '../services/organization-invitation.service';
+
+@Injectable()
+export class GetOrganizationInvitationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly organizationInvitationService: OrganizationInvitationService,
+  ) {}
+
+  async execute(token: string) {
+    const invitation = await this.organizationInvitationService.findAnswerable(token);
+    const [organization, invitee] = await Promise.all([
+      this.organizationRepository.findById(invitation.organizationId),
+      this.userRepository.findByEmail(invitation.email),
+    ]);
+
+    if (!organization) {
+      throw new BadRequestException(ORGANIZATION_INVITATION_INVALID_MESSAGE);
+    }
+
+    return {
+      data: {
+        invitation,
+        organization,
+        accountExists: invitee !== null,
+      },
+      message: 'Organization invitation retrieved successfully',
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import { ORGANIZATION_TEAM_NOT_FOUND_MESSAGE } from '../constants/organization-team.constants';
+
+export interface GetOrganizationTeamInput {
+  organizationId: string;
+  teamId: string;
+}
+
+@Injectable()
+export class GetOrganizationTeamUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(input: GetOrganizationTeamInput) {
+    const team = await this.organizationTeamRepository.findById(
+      input.teamId,
+      input.organizationId,
+    );
+
+    if (!team) {
+      throw new NotFoundException(ORGANIZATION_TEAM_NOT_FOUND_MESSAGE);
+    }
+
+    const members = await this.organizationTeamRepository.listMembers(team.id);
+
+    return {
+      data: { team, members },
+      message: 'Organization team retrieved successfully',
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+  type IOrganizationJoinRequestRepository,
+} from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import {
+  ORGANIZATION_DOMAIN_NOT_JOINABLE_MESSAGE,
+  ORGANIZATION_JOIN_REQUEST_PENDING_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE } from '../constants/organization-invitation.constants';
+import { OrganizationDomainJoinService } from '../services/organization-domain-join.service';
+
+@Injectable()
+export class JoinOrganizationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_JOIN_REQUEST_REPOSITORY)
+    private readonly organizationJoinRequestRepository: IOrganizationJoinRequestRepository,
+    private readonly organizationDomainJoinService: OrganizationDomainJoinService,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async execute(userId: string, organizationId: string) {
+    const joinable = await this.organizationDomainJoinService.findJoinable(userId);
+
+    if (!joinable || joinable.organization.id !== organizationId) {
+      throw new NotFoundException(ORGANIZATION_DOMAIN_NOT_JOINABLE_MESSAGE);
+    }
+
+    if (await this.organizationRepository.findAccessibleByIdForUser(organizationId, userId)) {
+      throw new ConflictException(ORGANIZATION_INVITATION_ALREADY_MEMBER_MESSAGE);
+    }
+
+    const joinRequestData = {
+      organizationId,
+      userId,
+      domainId: joinable.domain.id,
+      roleCode: joinable.domain.defaultRoleCode,
+    };
+
+    if (joinable.domain.joinPolicy === 'auto_join') {
+      const { seatLimit } = await this.entitlementsService.getEntitlements(organizationId);
+      const access = await this.organizationJoinRequestRepository.join(
+        joinRequestData,
+        new Date(),
+        seatLimit,
+      );
+
+      if (!access) {
+        throw new NotFoundException(ORGANIZATION_DOMAIN_NOT_JOINABLE_MESSAGE);
+      }
+
+      return {
+        data: {
+          status: 'joined' as const,
+          organization: access.organization,
+        },
+        message: 'You joined the organization',
+      };
+    }
+
+    if (await this.organizationJoinRequestRepository.findPendingForUser(organizationId, userId)) {
+      throw new ConflictException(ORGANIZATION_JOIN_REQUEST_PENDING_MESSAGE);
+    }
+
+    await this.organizationJoinRequestRepository.create(joinRequestData);
+
+    return {
+      data: {
+        status: 'pending' as const,
+        organization: joinable.organization,
+      },
+      message: 'Join request sent. An owner of the organization has to approve it.',
+    };
+  }
+}
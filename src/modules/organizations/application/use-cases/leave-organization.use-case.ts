@@ -0,0 +1,26 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE } from '../constants/organization-membership.constants';
+
+@Injectable()
+export class LeaveOrganizationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) {}
+
+  async execute(userId: string, organizationId: string) {
+    const removed = await this.organizationRepository.removeMember(organizationId, userId);
+
+    if (!removed) {
+      throw new NotFoundException(ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'You have left the organization',
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+
+@Injectable()
+export class ListDeletedOrganizationsUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) {}
+
+  async execute(userId: string) {
+    const organizations = await this.organizationRepository.listDeletedForOwner(
+      userId,
+      new Date(),
+    );
+
+    return {
+      data: organizations,
+      message: 'Deleted organizations retrieved successfully',
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+  type IOrganizationJoinRequestRepository,
+} from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { OrganizationDomainJoinService } from '../services/organization-domain-join.service';
+
+@Injectable()
+export class ListJoinableOrganizationsUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_JOIN_REQUEST_REPOSITORY)
+    private readonly organizationJoinRequestRepository: IOrganizationJoinRequestRepository,
+    private readonly organizationDomainJoinService: OrganizationDomainJoinService,
+  ) {}
+
+  async execute(userId: string) {
+    const joinable = await this.organizationDomainJoinService.findJoinable(userId);
+    const access = joinable
+      ? await this.organizationRepository.findAccessibleByIdForUser(
+        joinable.organization.id,
+        userId,
+      )
+      : null;
+
+    if (!joinable || access) {
+      return {
+        data: [],
+        message: 'Joinable organizations retrieved successfully',
+      };
+    }
+
+    const pendingRequest = await this.organizationJoinRequestRepository.findPendingForUser(
+      joinable.organization.id,
+      userId,
+    );
+
+    return {
+      data: [
+        {
+          ...joinable,
+          requestPending: pendingRequest !== null,
+        },
+      ],
+      message: 'Joinable organizations retrieved successfully',
+    };
+  }
+}
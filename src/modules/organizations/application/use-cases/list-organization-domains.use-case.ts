@@ -0,0 +1,56 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_DOMAIN_REPOSITORY,
+  type IOrganizationDomainRepository,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE } from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+import { withOrganizationDomainVerificationRecord } from '../utils/organization-domain.util';
+
+export interface ListOrganizationDomainsInput {
+  userId: string;
+  organizationId: string;
+}
+
+@Injectable()
+export class ListOrganizationDomainsUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_DOMAIN_REPOSITORY)
+    private readonly organizationDomainRepository: IOrganizationDomainRepository,
+  ) {}
+
+  async execute(input: ListOrganizationDomainsInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const domains = await this.organizationDomainRepository.listByOrganization(
+      input.organizationId,
+    );
+
+    return {
+      data: domains.map(withOrganizationDomainVerificationRecord),
+      message: 'Organization domains retrieved successfully',
+    };
+  }
+}
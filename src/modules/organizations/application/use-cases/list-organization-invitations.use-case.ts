@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_INVITATION_REPOSITORY,
+  type IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+
+@Injectable()
+export class ListOrganizationInvitationsUseCase {
+  constructor(
+    @Inject(ORGANIZATION_INVITATION_REPOSITORY)
+    private readonly organizationInvitationRepository: IOrganizationInvitationRepository,
+  ) {}
+
+  async execute(organizationId: string) {
+    const invitations = await this.organizationInvitationRepository.listPending(organizationId);
+
+    return {
+      data: invitations,
+      message: 'Organization invitations retrieved successfully',
+    };
+  }
+}
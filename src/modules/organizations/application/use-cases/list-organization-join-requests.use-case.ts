@@ -0,0 +1,55 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+  type IOrganizationJoinRequestRepository,
+} from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE } from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+
+export interface ListOrganizationJoinRequestsInput {
+  userId: string;
+  organizationId: string;
+}
+
+@Injectable()
+export class ListOrganizationJoinRequestsUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_JOIN_REQUEST_REPOSITORY)
+    private readonly organizationJoinRequestRepository: IOrganizationJoinRequestRepository,
+  ) {}
+
+  async execute(input: ListOrganizationJoinRequestsInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const joinRequests = await this.organizationJoinRequestRepository.listPending(
+      input.organizationId,
+    );
+
+    return {
+      data: joinRequests,
+      message: 'Join requests retrieved successfully',
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+  type ListOrganizationMembersFilters,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  PERMISSIONS_REPOSITORY,
+  type IPermissionsRepository,
+} from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+
+@Injectable()
+export class ListOrganizationMembersUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(PERMISSIONS_REPOSITORY)
+    private readonly permissionsRepository: IPermissionsRepository,
+  ) {}
+
+  async execute(input: ListOrganizationMembersFilters) {
+    const result = await this.organizationRepository.listMembers(input);
+    const snapshots = await this.permissionsRepository.listPermissionSnapshots(
+      input.organizationId,
+      result.data.map((member) => member.userId),
+    );
+    const snapshotByUserId = new Map(
+      snapshots.map((snapshot) => [snapshot.userId, snapshot]),
+    );
+
+    return {
+      data: result.data.map((member) => ({
+        ...member,
+        roleCodes: snapshotByUserId.get(member.userId)?.roleCodes ?? [],
+        effectivePermissionCodes:
+          snapshotByUserId.get(member.userId)?.effectivePermissionCodes ?? [],
+      })),
+      pageCount: input.pageCount,
+      recordsPerPage: input.recordsPerPage,
+      total: result.total,
+      message: 'Organization members retrieved successfully',
+    };
+  }
+}
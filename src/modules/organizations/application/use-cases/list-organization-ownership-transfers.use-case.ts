@@ -0,0 +1,60 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { OrganizationOwnershipTransfer } from '@/modules/organizations/domain/entities/organization-ownership-transfer.entity';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+  type IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+
+export interface PendingOrganizationOwnershipTransfer {
+  transfer: OrganizationOwnershipTransfer;
+  organizationName: string;
+  requesterName: string | null;
+}
+
+@Injectable()
+export class ListOrganizationOwnershipTransfersUseCase {
+  constructor(
+    @Inject(ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY)
+    private readonly organizationOwnershipTransferRepository: IOrganizationOwnershipTransferRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  async execute(userId: string) {
+    const transfers = await this.organizationOwnershipTransferRepository.listPendingForRecipient(
+      userId,
+      new Date(),
+    );
+    const pendingTransfers = await Promise.all(
+      transfers.map(async (transfer) => {
+        const [organization, requester] = await Promise.all([
+          this.organizationRepository.findById(transfer.organizationId),
+          this.userRepository.findById(transfer.fromUserId),
+        ]);
+
+        return organization && !organization.deletedAt
+          ? {
+            transfer,
+            organizationName: organization.name,
+            requesterName: requester?.name ?? null,
+          }
+          : null;
+      }),
+    );
+
+    return {
+      data: pendingTransfers.filter(
+        (pendingTransfer): pendingTransfer is PendingOrganizationOwnershipTransfer =>
+          pendingTransfer !== null,
+      ),
+      message: 'Ownership transfers retrieved successfully',
+    };
+  }
+}
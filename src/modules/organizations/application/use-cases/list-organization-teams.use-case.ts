@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+
+@Injectable()
+export class ListOrganizationTeamsUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(organizationId: string) {
+    const teams = await this.organizationTeamRepository.listByOrganization(organizationId);
+
+    return {
+      data: teams,
+      message: 'Organization teams retrieved successfully',
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+  type IOrganizationJoinRequestRepository,
+} from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE,
+  ORGANIZATION_JOIN_REQUEST_NOT_FOUND_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+import type { RespondToOrganizationJoinRequestInput } from './approve-organization-join-request.use-case';
+
+@Injectable()
+export class RejectOrganizationJoinRequestUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_JOIN_REQUEST_REPOSITORY)
+    private readonly organizationJoinRequestRepository: IOrganizationJoinRequestRepository,
+  ) {}
+
+  async execute(input: RespondToOrganizationJoinRequestInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const rejected = await this.organizationJoinRequestRepository.reject(
+      input.joinRequestId,
+      input.organizationId,
+      input.userId,
+      new Date(),
+    );
+
+    if (!rejected) {
+      throw new NotFoundException(ORGANIZATION_JOIN_REQUEST_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Join request rejected successfully',
+    };
+  }
+}
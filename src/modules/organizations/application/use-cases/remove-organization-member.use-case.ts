@@ -0,0 +1,60 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE } from '../constants/organization-membership.constants';
+
+export interface RemoveOrganizationMemberInput {
+  organizationId: string;
+  actorId: string;
+  userId: string;
+}
+
+@Injectable()
+export class RemoveOrganizationMemberUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) {}
+
+  async execute(input: RemoveOrganizationMemberInput) {
+    if (input.userId === input.actorId) {
+      throw new BadRequestException(
+        'Use POST /organizations/current/leave to leave the organization',
+      );
+    }
+
+    const [actorAccess, memberAccess] = await Promise.all([
+      this.organizationRepository.findAccessibleByIdForUser(input.organizationId, input.actorId),
+      this.organizationRepository.findAccessibleByIdForUser(input.organizationId, input.userId),
+    ]);
+
+    if (!actorAccess || !memberAccess) {
+      throw new NotFoundException(ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE);
+    }
+
+    if (memberAccess.role === 'owner' && actorAccess.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can remove other owners');
+    }
+
+    const removed = await this.organizationRepository.removeMember(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!removed) {
+      throw new NotFoundException(ORGANIZATION_MEMBER_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Organization member removed successfully',
+    };
+  }
+}
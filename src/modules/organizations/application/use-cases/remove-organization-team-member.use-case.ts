@@ -0,0 +1,47 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import {
+  ORGANIZATION_TEAM_MEMBER_NOT_FOUND_MESSAGE,
+  ORGANIZATION_TEAM_NOT_FOUND_MESSAGE,
+} from '../constants/organization-team.constants';
+import type { OrganizationTeamMemberInput } from './add-organization-team-member.use-case';
+
+@Injectable()
+export class RemoveOrganizationTeamMemberUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(input: OrganizationTeamMemberInput) {
+    const team = await this.organizationTeamRepository.findById(
+      input.teamId,
+      input.organizationId,
+    );
+
+    if (!team) {
+      throw new NotFoundException(ORGANIZATION_TEAM_NOT_FOUND_MESSAGE);
+    }
+
+    const removed = await this.organizationTeamRepository.removeMember(
+      team.id,
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!removed) {
+      throw new NotFoundException(ORGANIZATION_TEAM_MEMBER_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Member removed from the team successfully',
+    };
+  }
+}
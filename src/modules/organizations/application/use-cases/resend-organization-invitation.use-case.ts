@@ -0,0 +1,84 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { OrganizationInvitation } from '@/modules/organizations/domain/entities/organization-invitation.entity';
+import {
+  ORGANIZATION_INVITATION_REPOSITORY,
+  type IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { USER_REPOSITORY, type IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  ORGANIZATION_INVITATION_NOT_FOUND_MESSAGE,
+  ORGANIZATION_INVITATION_TTL_HOURS,
+} from '../constants/organization-invitation.constants';
+import { OrganizationInvitationService } from '../services/organization-invitation.service';
+import { generateOrganizationInvitationToken } from '../utils/organization-invitation-token.util';
+
+export interface ResendOrganizationInvitationInput {
+  organizationId: string;
+  invitationId: string;
+  senderId: string;
+}
+
+@Injectable()
+export class ResendOrganizationInvitationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_INVITATION_REPOSITORY)
+    private readonly organizationInvitationRepository: IOrganizationInvitationRepository,
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly organizationInvitationService: OrganizationInvitationService,
+  ) {}
+
+  async execute(input: ResendOrganizationInvitationInput) {
+    const [invitation, organization, sender] = await Promise.all([
+      this.organizationInvitationRepository.findById(input.invitationId, input.organizationId),
+      this.organizationRepository.findById(input.organizationId),
+      this.userRepository.findById(input.senderId),
+    ]);
+
+    if (!invitation || invitation.status !== 'pending' || !organization) {
+      throw new NotFoundException(ORGANIZATION_INVITATION_NOT_FOUND_MESSAGE);
+    }
+
+    // Only the token hash is stored, so resending issues a new link and
+    // invalidates the previous one.
+    const now = new Date();
+    const { rawToken, tokenHash } = generateOrganizationInvitationToken();
+    const expiresAt = new Date(now.getTime() + ORGANIZATION_INVITATION_TTL_HOURS * 60 * 60 * 1000);
+    const rotated = await this.organizationInvitationRepository.rotateToken(
+      invitation.id,
+      tokenHash,
+      expiresAt,
+      now,
+    );
+
+    if (!rotated) {
+      throw new NotFoundException(ORGANIZATION_INVITATION_NOT_FOUND_MESSAGE);
+    }
+
+    const resentInvitation = new OrganizationInvitation({
+      ...invitation,
+      tokenHash,
+      expiresAt,
+      lastSentAt: now,
+      updatedAt: now,
+    });
+
+    await this.organizationInvitationService.send({
+      invitation: resentInvitation,
+      rawToken,
+      organizationName: organization.name,
+      inviterName: sender?.name,
+    });
+
+    return {
+      data: resentInvitation,
+      message: 'Organization invitation resent successfully',
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  ORGANIZATION_NOT_RESTORABLE_MESSAGE,
+  ORGANIZATION_RESTORED_MESSAGE,
+} from '../constants/organization.constants';
+import { OrganizationQueueService } from '../services/organization-queue.service';
+
+@Injectable()
+export class RestoreOrganizationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly organizationQueueService: OrganizationQueueService,
+  ) {}
+
+  async execute(userId: string, organizationId: string) {
+    const now = new Date();
+    const deletedOrganizations = await this.organizationRepository.listDeletedForOwner(userId, now);
+
+    if (!deletedOrganizations.some((organization) => organization.id === organizationId)) {
+      throw new NotFoundException(ORGANIZATION_NOT_RESTORABLE_MESSAGE);
+    }
+
+    const organization = await this.organizationRepository.restore(organizationId, now);
+
+    if (!organization) {
+      throw new NotFoundException(ORGANIZATION_NOT_RESTORABLE_MESSAGE);
+    }
+
+    await this.organizationQueueService.cancelPurge(organizationId);
+
+    return {
+      data: {
+        organization,
+        role: 'owner' as const,
+      },
+      message: ORGANIZATION_RESTORED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ORGANIZATION_INVITATION_REPOSITORY,
+  type IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import { ORGANIZATION_INVITATION_NOT_FOUND_MESSAGE } from '../constants/organization-invitation.constants';
+
+@Injectable()
+export class RevokeOrganizationInvitationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_INVITATION_REPOSITORY)
+    private readonly organizationInvitationRepository: IOrganizationInvitationRepository,
+  ) {}
+
+  async execute(organizationId: string, invitationId: string) {
+    const invitation = await this.organizationInvitationRepository.findById(
+      invitationId,
+      organizationId,
+    );
+    const revoked = invitation
+      ? await this.organizationInvitationRepository.close(invitation.id, 'revoked', new Date())
+      : false;
+
+    if (!revoked) {
+      throw new NotFoundException(ORGANIZATION_INVITATION_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      message: 'Organization invitation revoked successfully',
+    };
+  }
+}
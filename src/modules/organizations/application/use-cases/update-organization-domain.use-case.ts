@@ -0,0 +1,73 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import type { OrganizationDomainJoinPolicy } from '@/modules/organizations/domain/entities/organization-domain.entity';
+import {
+  ORGANIZATION_DOMAIN_REPOSITORY,
+  type IOrganizationDomainRepository,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import {
+  ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE,
+  ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+import { withOrganizationDomainVerificationRecord } from '../utils/organization-domain.util';
+
+export interface UpdateOrganizationDomainInput {
+  userId: string;
+  organizationId: string;
+  domainId: string;
+  joinPolicy?: OrganizationDomainJoinPolicy;
+  defaultRoleCode?: SystemRoleCode;
+}
+
+@Injectable()
+export class UpdateOrganizationDomainUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_DOMAIN_REPOSITORY)
+    private readonly organizationDomainRepository: IOrganizationDomainRepository,
+  ) {}
+
+  async execute(input: UpdateOrganizationDomainInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const domain = await this.organizationDomainRepository.update(
+      input.domainId,
+      input.organizationId,
+      {
+        joinPolicy: input.joinPolicy,
+        defaultRoleCode: input.defaultRoleCode,
+      },
+    );
+
+    if (!domain) {
+      throw new NotFoundException(ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      data: withOrganizationDomainVerificationRecord(domain),
+      message: 'Organization domain updated successfully',
+    };
+  }
+}
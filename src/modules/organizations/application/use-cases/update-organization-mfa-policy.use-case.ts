@@ -0,0 +1,66 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+
+export interface UpdateOrganizationMfaPolicyInput {
+  userId: string;
+  organizationId: string;
+  required: boolean;
+  mfaVerified: boolean;
+}
+
+@Injectable()
+export class UpdateOrganizationMfaPolicyUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) {}
+
+  async execute(input: UpdateOrganizationMfaPolicyInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException('Organization not found for current user');
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can change the MFA policy');
+    }
+
+    // Prevents owners from locking themselves out of their own organization.
+    if (input.required && !input.mfaVerified) {
+      throw new ForbiddenException(
+        'Enable multi-factor authentication and sign in with it before requiring it for the organization',
+      );
+    }
+
+    const organization = await this.organizationRepository.updateMfaRequirement(
+      input.organizationId,
+      input.required,
+    );
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found for current user');
+    }
+
+    return {
+      data: {
+        organization,
+        role: access.role,
+      },
+      message: input.required
+        ? 'Multi-factor authentication is now required for this organization'
+        : 'Multi-factor authentication is no longer required for this organization',
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_TEAM_REPOSITORY,
+  type IOrganizationTeamRepository,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import {
+  ORGANIZATION_TEAM_NAME_TAKEN_MESSAGE,
+  ORGANIZATION_TEAM_NOT_FOUND_MESSAGE,
+} from '../constants/organization-team.constants';
+
+export interface UpdateOrganizationTeamInput {
+  organizationId: string;
+  teamId: string;
+  name?: string;
+  description?: string | null;
+  roleCodes?: SystemRoleCode[];
+}
+
+@Injectable()
+export class UpdateOrganizationTeamUseCase {
+  constructor(
+    @Inject(ORGANIZATION_TEAM_REPOSITORY)
+    private readonly organizationTeamRepository: IOrganizationTeamRepository,
+  ) {}
+
+  async execute(input: UpdateOrganizationTeamInput) {
+    if (input.name !== undefined) {
+      const existingTeam = await this.organizationTeamRepository.findByName(
+        input.organizationId,
+        input.name,
+      );
+
+      if (existingTeam && existingTeam.id !== input.teamId) {
+        throw new ConflictException(ORGANIZATION_TEAM_NAME_TAKEN_MESSAGE);
+      }
+    }
+
+    const team = await this.organizationTeamRepository.update(
+      input.teamId,
+      input.organizationId,
+      {
+        name: input.name,
+        description: input.description,
+        roleCodes: input.roleCodes,
+      },
+    );
+
+    if (!team) {
+      throw new NotFoundException(ORGANIZATION_TEAM_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      data: team,
+      message: 'Organization team updated successfully',
+    };
+  }
+}
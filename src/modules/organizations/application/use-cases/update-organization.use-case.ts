@@ -0,0 +1,83 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import {
+  ORGANIZATION_NOT_FOUND_MESSAGE,
+  ORGANIZATION_SLUG_TAKEN_MESSAGE,
+  ORGANIZATION_UPDATED_MESSAGE,
+} from '../constants/organization.constants';
+
+export interface UpdateOrganizationInput {
+  userId: string;
+  organizationId: string;
+  name?: string;
+  slug?: string | null;
+}
+
+@Injectable()
+export class UpdateOrganizationUseCase {
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly sessionRegistryService: SessionRegistryService,
+  ) {}
+
+  async execute(input: UpdateOrganizationInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can update the organization');
+    }
+
+    if (input.slug) {
+      const slugOwner = await this.organizationRepository.findBySlug(input.slug);
+
+      if (slugOwner && slugOwner.id !== input.organizationId) {
+        throw new ConflictException(ORGANIZATION_SLUG_TAKEN_MESSAGE);
+      }
+    }
+
+    const organization = await this.organizationRepository.update(input.organizationId, {
+      name: input.name,
+      slug: input.slug,
+    });
+
+    if (!organization) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (organization.name !== access.organization.name) {
+      const memberIds = await this.organizationRepository.listMemberUserIds(organization.id);
+
+      await this.sessionRegistryService.refreshOrganizationName(
+        memberIds,
+        organization.id,
+        organization.name,
+      );
+    }
+
+    return {
+      data: {
+        organization,
+        role: access.role,
+      },
+      message: ORGANIZATION_UPDATED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_DOMAIN_REPOSITORY,
+  type IOrganizationDomainRepository,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  DNS_TXT_RESOLVER,
+  type DnsTxtResolver,
+} from '@/modules/organizations/domain/services/dns-txt-resolver.interface';
+import {
+  ORGANIZATION_DOMAIN_LOOKUP_FAILED_MESSAGE,
+  ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE,
+  ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE,
+  ORGANIZATION_DOMAIN_RECORD_NOT_FOUND_MESSAGE,
+  ORGANIZATION_DOMAIN_VERIFIED_ELSEWHERE_MESSAGE,
+} from '../constants/organization-domain.constants';
+import { ORGANIZATION_NOT_FOUND_MESSAGE } from '../constants/organization.constants';
+import {
+  buildOrganizationDomainVerificationRecord,
+  withOrganizationDomainVerificationRecord,
+} from '../utils/organization-domain.util';
+
+export interface VerifyOrganizationDomainInput {
+  userId: string;
+  organizationId: string;
+  domainId: string;
+}
+
+@Injectable()
+export class VerifyOrganizationDomainUseCase {
+  private readonly logger = new Logger(VerifyOrganizationDomainUseCase.name);
+
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(ORGANIZATION_DOMAIN_REPOSITORY)
+    private readonly organizationDomainRepository: IOrganizationDomainRepository,
+    @Inject(DNS_TXT_RESOLVER)
+    private readonly dnsTxtResolver: DnsTxtResolver,
+  ) {}
+
+  async execute(input: VerifyOrganizationDomainInput) {
+    const access = await this.organizationRepository.findAccessibleByIdForUser(
+      input.organizationId,
+      input.userId,
+    );
+
+    if (!access) {
+      throw new NotFoundException(ORGANIZATION_NOT_FOUND_MESSAGE);
+    }
+
+    if (access.role !== 'owner') {
+      throw new ForbiddenException(ORGANIZATION_DOMAIN_OWNER_ONLY_MESSAGE);
+    }
+
+    const domain = await this.organizationDomainRepository.findById(
+      input.domainId,
+      input.organizationId,
+    );
+
+    if (!domain) {
+      throw new NotFoundException(ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE);
+    }
+
+    if (domain.status === 'verified') {
+      return {
+        data: withOrganizationDomainVerificationRecord(domain),
+        message: 'Organization domain is already verified',
+      };
+    }
+
+    const verifiedDomain = await this.organizationDomainRepository.findVerifiedByDomain(
+      domain.domain,
+    );
+
+    if (verifiedDomain) {
+      throw new ConflictException(ORGANIZATION_DOMAIN_VERIFIED_ELSEWHERE_MESSAGE);
+    }
+
+    const record = buildOrganizationDomainVerificationRecord(
+      domain.domain,
+      domain.verificationToken,
+    );
+    const publishedRecords = await this.resolveRecords(record.name);
+
+    if (!publishedRecords.includes(record.value)) {
+      throw new BadRequestException(ORGANIZATION_DOMAIN_RECORD_NOT_FOUND_MESSAGE);
+    }
+
+    const now = new Date();
+
+    if (!(await this.organizationDomainRepository.markVerified(domain.id, now))) {
+      throw new NotFoundException(ORGANIZATION_DOMAIN_NOT_FOUND_MESSAGE);
+    }
+
+    domain.status = 'verified';
+    domain.verifiedAt = now;
+    domain.updatedAt = now;
+
+    return {
+      data: withOrganizationDomainVerificationRecord(domain),
+      message: 'Organization domain verified successfully',
+    };
+  }
+
+  private async resolveRecords(hostname: string): Promise<string[]> {
+    try {
+      return await this.dnsTxtResolver.resolveTxt(hostname);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      this.logger.warn(`TXT lookup failed for ${hostname}: ${message}`);
+      throw new BadRequestException(ORGANIZATION_DOMAIN_LOOKUP_FAILED_MESSAGE);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  buildOrganizationDomainVerificationRecord,
+  generateOrganizationDomainVerificationToken,
+  getEmailDomain,
+} from './organization-domain.util';
+
+describe('organization-domain.util', () => {
+  it('extracts the lowercased domain of an email address', () => {
+    expect(getEmailDomain('Jane.Doe@Example.COM')).toBe('example.com');
+    expect(getEmailDomain('"odd@local"@sub.example.com')).toBe('sub.example.com');
+  });
+
+  it('returns null when the address has no domain', () => {
+    expect(getEmailDomain('jane')).toBeNull();
+    expect(getEmailDomain('jane@')).toBeNull();
+  });
+
+  it('generates distinct hex verification tokens', () => {
+    const token = generateOrganizationDomainVerificationToken();
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateOrganizationDomainVerificationToken()).not.toEqual(token);
+  });
+
+  it('builds the TXT record on a dedicated label', () => {
+    expect(buildOrganizationDomainVerificationRecord('example.com', 'abc123', 'acme')).toEqual({
+      type: 'TXT',
+      name: '_acme-verification.example.com',
+      value: 'acme-domain-verification=abc123',
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { randomBytes } from 'crypto';
+import { envConfig } from '@/config/env.config';
+import type { OrganizationDomain } from '@/modules/organizations/domain/entities/organization-domain.entity';
+
+export interface OrganizationDomainVerificationRecord {
+  type: 'TXT';
+  name: string;
+  value: string;
+}
+
+export function generateOrganizationDomainVerificationToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/** Lowercased part after the last `@`, or null when the address has none. */
+export function getEmailDomain(email: string): string | null {
+  const separatorIndex = email.lastIndexOf('@');
+
+  if (separatorIndex < 0 || separatorIndex === email.length - 1) {
+    return null;
+  }
+
+  return email.slice(separatorIndex + 1).trim().toLowerCase();
+}
+
+/**
+ * The record is published on a dedicated `_<app>-verification` label so it
+ * does not clash with the SPF and other TXT records of the domain itself.
+ */
+export function buildOrganizationDomainVerificationRecord(
+  domain: string,
+  token: string,
+  appSlug = envConfig.app.slug,
+): OrganizationDomainVerificationRecord {
+  return {
+    type: 'TXT',
+    name: `_${appSlug}-verification.${domain}`,
+    value: `${appSlug}-domain-verification=${token}`,
+  };
+}
+
+export function withOrganizationDomainVerificationRecord(domain: OrganizationDomain): {
+  domain: OrganizationDomain;
+  verificationRecord: OrganizationDomainVerificationRecord;
+} {
+  return {
+    domain,
+    verificationRecord: buildOrganizationDomainVerificationRecord(
+      domain.domain,
+      domain.verificationToken,
+    ),
+  };
+}
@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from 'crypto';
+
+export function generateOrganizationInvitationToken(): {
+  rawToken: string;
+  tokenHash: string;
+} {
+  const rawToken = randomBytes(32).toString('hex');
+
+  return {
+    rawToken,
+    tokenHash: hashOrganizationInvitationToken(rawToken),
+  };
+}
+
+export function hashOrganizationInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,33 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+
+export const ORGANIZATION_DOMAIN_STATUSES = ['pending', 'verified'] as const;
+
+export const ORGANIZATION_DOMAIN_JOIN_POLICIES = ['auto_join', 'request'] as const;
+
+export type OrganizationDomainStatus = (typeof ORGANIZATION_DOMAIN_STATUSES)[number];
+
+export type OrganizationDomainJoinPolicy = (typeof ORGANIZATION_DOMAIN_JOIN_POLICIES)[number];
+
+/**
+ * An email domain claimed by an organization. Users with a verified email on
+ * a `verified` domain can join with `defaultRoleCode`, right away or after an
+ * owner approves their request depending on `joinPolicy`. A domain can be
+ * verified by a single organization at a time.
+ */
+export class OrganizationDomain {
+  id: string;
+  organizationId: string;
+  domain: string;
+  verificationToken: string;
+  status: OrganizationDomainStatus;
+  joinPolicy: OrganizationDomainJoinPolicy;
+  defaultRoleCode: SystemRoleCode;
+  createdByUserId: string | null;
+  verifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationDomain> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,35 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+
+export const ORGANIZATION_INVITATION_STATUSES = [
+  'pending',
+  'accepted',
+  'declined',
+  'revoked',
+] as const;
+
+export type OrganizationInvitationStatus =
+  (typeof ORGANIZATION_INVITATION_STATUSES)[number];
+
+/**
+ * Expiry is not a stored status: a `pending` invitation past `expiresAt` can
+ * no longer be answered, but it can still be resent or revoked.
+ */
+export class OrganizationInvitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  roleCodes: SystemRoleCode[];
+  tokenHash: string;
+  status: OrganizationInvitationStatus;
+  invitedByUserId: string | null;
+  acceptedByUserId: string | null;
+  expiresAt: Date;
+  lastSentAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationInvitation> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,31 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+
+export const ORGANIZATION_JOIN_REQUEST_STATUSES = [
+  'pending',
+  'approved',
+  'rejected',
+] as const;
+
+export type OrganizationJoinRequestStatus =
+  (typeof ORGANIZATION_JOIN_REQUEST_STATUSES)[number];
+
+/**
+ * Created when a user joins through a verified domain. Auto-joins are stored
+ * as `approved` without `respondedByUserId`.
+ */
+export class OrganizationJoinRequest {
+  id: string;
+  organizationId: string;
+  userId: string;
+  domainId: string | null;
+  roleCode: SystemRoleCode;
+  status: OrganizationJoinRequestStatus;
+  respondedByUserId: string | null;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationJoinRequest> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,25 @@
+export const ORGANIZATION_OWNERSHIP_TRANSFER_STATUSES = [
+  'pending',
+  'accepted',
+  'declined',
+  'cancelled',
+] as const;
+
+export type OrganizationOwnershipTransferStatus =
+  (typeof ORGANIZATION_OWNERSHIP_TRANSFER_STATUSES)[number];
+
+export class OrganizationOwnershipTransfer {
+  id: string;
+  organizationId: string;
+  fromUserId: string;
+  toUserId: string;
+  status: OrganizationOwnershipTransferStatus;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationOwnershipTransfer> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,20 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+
+/**
+ * A group of members inside an organization. Roles granted to the team are
+ * inherited by every member on top of their own roles.
+ */
+export class OrganizationTeam {
+  id: string;
+  organizationId: string;
+  name: string;
+  description: string | null;
+  roleCodes: SystemRoleCode[];
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationTeam> = {}) {
+    Object.assign(this, partial);
+  }
+}
@@ -1,6 +1,15 @@
+/**
+ * A soft-deleted organization (`deletedAt` set) is hidden from its members
+ * and can be restored by an owner until `purgeScheduledAt`, when it is
+ * removed for good.
+ */
 export class Organization {
   id: string;
   name: string;
+  slug: string | null;
+  requireMfa: boolean;
+  deletedAt: Date | null;
+  purgeScheduledAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 
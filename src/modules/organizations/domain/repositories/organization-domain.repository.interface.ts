@@ -0,0 +1,41 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import type {
+  OrganizationDomain,
+  OrganizationDomainJoinPolicy,
+} from '../entities/organization-domain.entity';
+
+export interface CreateOrganizationDomainData {
+  organizationId: string;
+  domain: string;
+  verificationToken: string;
+  joinPolicy: OrganizationDomainJoinPolicy;
+  defaultRoleCode: SystemRoleCode;
+  createdByUserId: string;
+}
+
+export interface UpdateOrganizationDomainData {
+  joinPolicy?: OrganizationDomainJoinPolicy;
+  defaultRoleCode?: SystemRoleCode;
+}
+
+export interface IOrganizationDomainRepository {
+  create(data: CreateOrganizationDomainData): Promise<OrganizationDomain>;
+  findById(id: string, organizationId: string): Promise<OrganizationDomain | null>;
+  findByDomain(organizationId: string, domain: string): Promise<OrganizationDomain | null>;
+  /** The organization that verified the domain, whether or not it was soft-deleted. */
+  findVerifiedByDomain(domain: string): Promise<OrganizationDomain | null>;
+  listByOrganization(organizationId: string): Promise<OrganizationDomain[]>;
+  /**
+   * Moves a pending domain to `verified`. Returns false when it was already
+   * verified or removed in the meantime.
+   */
+  markVerified(id: string, now: Date): Promise<boolean>;
+  update(
+    id: string,
+    organizationId: string,
+    data: UpdateOrganizationDomainData,
+  ): Promise<OrganizationDomain | null>;
+  delete(id: string, organizationId: string): Promise<boolean>;
+}
+
+export const ORGANIZATION_DOMAIN_REPOSITORY = Symbol('ORGANIZATION_DOMAIN_REPOSITORY');
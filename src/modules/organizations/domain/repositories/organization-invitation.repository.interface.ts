@@ -0,0 +1,53 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import type {
+  OrganizationInvitation,
+  OrganizationInvitationStatus,
+} from '../entities/organization-invitation.entity';
+import type { OrganizationAccess } from './organization.repository.interface';
+
+export interface CreateOrganizationInvitationData {
+  organizationId: string;
+  email: string;
+  roleCodes: SystemRoleCode[];
+  tokenHash: string;
+  invitedByUserId: string;
+  expiresAt: Date;
+}
+
+export interface IOrganizationInvitationRepository {
+  create(data: CreateOrganizationInvitationData): Promise<OrganizationInvitation>;
+  findById(id: string, organizationId: string): Promise<OrganizationInvitation | null>;
+  findByTokenHash(tokenHash: string): Promise<OrganizationInvitation | null>;
+  findPendingByEmail(
+    organizationId: string,
+    email: string,
+  ): Promise<OrganizationInvitation | null>;
+  listPending(organizationId: string): Promise<OrganizationInvitation[]>;
+  /**
+   * Replaces the token of a pending invitation and pushes its expiry forward.
+   * Returns false when the invitation is no longer pending.
+   */
+  rotateToken(
+    id: string,
+    tokenHash: string,
+    expiresAt: Date,
+    now: Date,
+  ): Promise<boolean>;
+  /**
+   * Moves a pending invitation to `declined` or `revoked`. Returns false when
+   * the invitation is no longer pending.
+   */
+  close(
+    id: string,
+    status: Extract<OrganizationInvitationStatus, 'declined' | 'revoked'>,
+    now: Date,
+  ): Promise<boolean>;
+  /**
+   * Marks an answerable invitation as accepted and creates the membership with
+   * the invited roles in the same transaction. Returns null when the
+   * invitation was answered, revoked or expired in the meantime.
+   */
+  accept(id: string, userId: string, now: Date): Promise<OrganizationAccess | null>;
+}
+
+export const ORGANIZATION_INVITATION_REPOSITORY = Symbol('ORGANIZATION_INVITATION_REPOSITORY');
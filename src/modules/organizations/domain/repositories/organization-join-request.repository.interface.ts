@@ -0,0 +1,63 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import type { OrganizationJoinRequest } from '../entities/organization-join-request.entity';
+import type { OrganizationAccess } from './organization.repository.interface';
+
+export interface CreateOrganizationJoinRequestData {
+  organizationId: string;
+  userId: string;
+  domainId: string;
+  roleCode: SystemRoleCode;
+}
+
+export interface PendingOrganizationJoinRequest {
+  request: OrganizationJoinRequest;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface IOrganizationJoinRequestRepository {
+  create(data: CreateOrganizationJoinRequestData): Promise<OrganizationJoinRequest>;
+  /**
+   * Creates the membership with the requested role right away and records an
+   * `approved` request for it, in one transaction. Returns null when the
+   * organization was soft-deleted in the meantime. Throws when the members
+   * and pending invitations already fill `seatLimit`, counted in the same
+   * transaction.
+   */
+  join(
+    data: CreateOrganizationJoinRequestData,
+    now: Date,
+    seatLimit: number | null,
+  ): Promise<OrganizationAccess | null>;
+  findById(id: string, organizationId: string): Promise<OrganizationJoinRequest | null>;
+  findPendingForUser(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationJoinRequest | null>;
+  /** Oldest first, with the requesting user. */
+  listPending(organizationId: string): Promise<PendingOrganizationJoinRequest[]>;
+  /**
+   * Marks a pending request as approved and creates the membership in the
+   * same transaction. Returns null when the request is no longer pending.
+   * Throws when the plan has no seat left, like `join`.
+   */
+  approve(
+    id: string,
+    organizationId: string,
+    respondedByUserId: string,
+    now: Date,
+    seatLimit: number | null,
+  ): Promise<OrganizationAccess | null>;
+  /** Returns false when the request is no longer pending. */
+  reject(
+    id: string,
+    organizationId: string,
+    respondedByUserId: string,
+    now: Date,
+  ): Promise<boolean>;
+}
+
+export const ORGANIZATION_JOIN_REQUEST_REPOSITORY = Symbol('ORGANIZATION_JOIN_REQUEST_REPOSITORY');
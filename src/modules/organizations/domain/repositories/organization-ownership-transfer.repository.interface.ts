@@ -0,0 +1,38 @@
+import type {
+  OrganizationOwnershipTransfer,
+  OrganizationOwnershipTransferStatus,
+} from '../entities/organization-ownership-transfer.entity';
+
+export interface CreateOrganizationOwnershipTransferData {
+  organizationId: string;
+  fromUserId: string;
+  toUserId: string;
+  expiresAt: Date;
+}
+
+export interface IOrganizationOwnershipTransferRepository {
+  create(data: CreateOrganizationOwnershipTransferData): Promise<OrganizationOwnershipTransfer>;
+  findById(id: string): Promise<OrganizationOwnershipTransfer | null>;
+  findPendingByOrganization(organizationId: string): Promise<OrganizationOwnershipTransfer | null>;
+  listPendingForRecipient(toUserId: string, now: Date): Promise<OrganizationOwnershipTransfer[]>;
+  /**
+   * Moves a pending transfer to `declined` or `cancelled`. Returns false when
+   * the transfer is no longer pending.
+   */
+  close(
+    id: string,
+    status: Extract<OrganizationOwnershipTransferStatus, 'declined' | 'cancelled'>,
+    now: Date,
+  ): Promise<boolean>;
+  /**
+   * Marks an answerable transfer as accepted and, in the same transaction,
+   * gives the recipient the owner role and moves the requester from owner to
+   * admin. Returns false when the transfer was answered or expired, or when
+   * the requester is no longer an owner or the recipient no longer a member.
+   */
+  accept(id: string, now: Date): Promise<boolean>;
+}
+
+export const ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY = Symbol(
+  'ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY',
+);
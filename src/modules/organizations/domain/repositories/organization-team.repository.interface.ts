@@ -0,0 +1,45 @@
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import type { OrganizationTeam } from '../entities/organization-team.entity';
+
+export interface CreateOrganizationTeamData {
+  organizationId: string;
+  name: string;
+  description: string | null;
+  roleCodes: SystemRoleCode[];
+}
+
+export interface UpdateOrganizationTeamData {
+  name?: string;
+  description?: string | null;
+  /** Replaces every role granted to the team. */
+  roleCodes?: SystemRoleCode[];
+}
+
+export interface OrganizationTeamMember {
+  userId: string;
+  name: string;
+  email: string;
+  addedAt: Date;
+}
+
+export interface IOrganizationTeamRepository {
+  create(data: CreateOrganizationTeamData): Promise<OrganizationTeam>;
+  findById(id: string, organizationId: string): Promise<OrganizationTeam | null>;
+  findByName(organizationId: string, name: string): Promise<OrganizationTeam | null>;
+  listByOrganization(organizationId: string): Promise<OrganizationTeam[]>;
+  update(
+    id: string,
+    organizationId: string,
+    data: UpdateOrganizationTeamData,
+  ): Promise<OrganizationTeam | null>;
+  delete(id: string, organizationId: string): Promise<boolean>;
+  listMembers(id: string): Promise<OrganizationTeamMember[]>;
+  /**
+   * Adds a member of the organization to the team. Returns false when the user
+   * is not a member of the organization; adding a current team member is a no-op.
+   */
+  addMember(id: string, organizationId: string, userId: string): Promise<boolean>;
+  removeMember(id: string, organizationId: string, userId: string): Promise<boolean>;
+}
+
+export const ORGANIZATION_TEAM_REPOSITORY = Symbol('ORGANIZATION_TEAM_REPOSITORY');
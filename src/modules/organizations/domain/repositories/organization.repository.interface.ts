@@ -16,13 +16,73 @@ export interface CreateOrganizationData {
   role?: OrganizationMembershipRole;
 }
 
+export interface UpdateOrganizationData {
+  name?: string;
+  slug?: string | null;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationMembershipRole;
+  joinedAt: Date;
+}
+
+export interface ListOrganizationMembersFilters {
+  organizationId: string;
+  /** Case-insensitive match on name or email. */
+  search?: string;
+  pageCount: number;
+  recordsPerPage: number;
+}
+
+export interface ListOrganizationMembersResult {
+  data: OrganizationMember[];
+  total: number;
+}
+
 export interface IOrganizationRepository {
   createForUser(data: CreateOrganizationData): Promise<OrganizationAccess>;
+  /** Also returns soft-deleted organizations. */
+  findById(organizationId: string): Promise<Organization | null>;
+  findBySlug(slug: string): Promise<Organization | null>;
+  /** Soft-deleted organizations are excluded from this and the lookup below. */
   listForUser(userId: string): Promise<OrganizationAccess[]>;
   findAccessibleByIdForUser(
     organizationId: string,
     userId: string,
   ): Promise<OrganizationAccess | null>;
+  countOwners(organizationId: string): Promise<number>;
+  listMembers(filters: ListOrganizationMembersFilters): Promise<ListOrganizationMembersResult>;
+  /**
+   * Deletes the membership with its roles and permission overrides. Returns
+   * false when the user is not a member; throws a ConflictException instead
+   * of removing the last owner.
+   */
+  removeMember(organizationId: string, userId: string): Promise<boolean>;
+  /**
+   * Removes every membership of the user, with their permission overrides.
+   * Throws a ConflictException, removing nothing, when the user is the last
+   * owner of an organization.
+   */
+  removeUserFromAllOrganizations(userId: string): Promise<number>;
+  updateMfaRequirement(organizationId: string, required: boolean): Promise<Organization | null>;
+  /** Returns null when the organization does not exist or is soft-deleted. */
+  update(organizationId: string, data: UpdateOrganizationData): Promise<Organization | null>;
+  listMemberUserIds(organizationId: string): Promise<string[]>;
+  /** Returns false when the organization is already soft-deleted. */
+  softDelete(organizationId: string, purgeScheduledAt: Date, now: Date): Promise<boolean>;
+  /** Soft-deleted organizations the user owns that can still be restored. */
+  listDeletedForOwner(userId: string, now: Date): Promise<Organization[]>;
+  /** Returns null when the organization is not soft-deleted or its restore window ended. */
+  restore(organizationId: string, now: Date): Promise<Organization | null>;
+  /**
+   * Hard-deletes a soft-deleted organization whose restore window ended,
+   * together with its report settings, permission overrides and memberships.
+   * Returns false when the organization was restored or is not due yet.
+   */
+  purge(organizationId: string, now: Date): Promise<boolean>;
 }
 
 export const ORGANIZATION_REPOSITORY = Symbol('ORGANIZATION_REPOSITORY');
@@ -0,0 +1,9 @@
+export interface DnsTxtResolver {
+  /**
+   * Returns the TXT records published for `hostname`, with the strings of
+   * each record joined. Resolves to an empty list when there are none.
+   */
+  resolveTxt(hostname: string): Promise<string[]>;
+}
+
+export const DNS_TXT_RESOLVER = Symbol('DNS_TXT_RESOLVER');
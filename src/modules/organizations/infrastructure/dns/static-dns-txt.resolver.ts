@@ -0,0 +1,19 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import type { DnsTxtResolver } from '@/modules/organizations/domain/services/dns-txt-resolver.interface';
+
+/**
+ * Answers from `ORGANIZATION_DOMAIN_STATIC_TXT_RECORDS` instead of DNS, so
+ * domains can be verified locally and in tests.
+ */
+@Injectable()
+export class StaticDnsTxtResolver implements DnsTxtResolver {
+  private readonly logger = new Logger(StaticDnsTxtResolver.name);
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async resolveTxt(hostname: string): Promise<string[]> {
+    this.logger.warn(`DNS lookups are disabled. Using static TXT records for ${hostname}`);
+
+    return envConfig.organization.domainVerification.staticTxtRecords[hostname.toLowerCase()] ?? [];
+  }
+}
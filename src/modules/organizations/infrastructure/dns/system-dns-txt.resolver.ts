@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { resolveTxt } from 'dns/promises';
+import type { DnsTxtResolver } from '@/modules/organizations/domain/services/dns-txt-resolver.interface';
+
+const MISSING_RECORD_ERROR_CODES = new Set(['ENODATA', 'ENOTFOUND']);
+
+@Injectable()
+export class SystemDnsTxtResolver implements DnsTxtResolver {
+  async resolveTxt(hostname: string): Promise<string[]> {
+    try {
+      const records = await resolveTxt(hostname);
+      return records.map((chunks) => chunks.join(''));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException | undefined)?.code;
+
+      if (code && MISSING_RECORD_ERROR_CODES.has(code)) {
+        return [];
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationDomainModel = defineModel({
+  name: 'OrganizationDomain',
+  table: 'organization_domains',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    organizationId: snowflakeIdColumn(),
+    domain: col.text(),
+    verificationToken: col.text(),
+    status: col.text(),
+    joinPolicy: col.text(),
+    defaultRoleCode: col.text(),
+    createdByUserId: snowflakeIdColumn().nullable(),
+    verifiedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationDomainRecord = InferModelShape<typeof OrganizationDomainModel>;
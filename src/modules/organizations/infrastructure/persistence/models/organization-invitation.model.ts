@@ -0,0 +1,28 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationInvitationModel = defineModel({
+  name: 'OrganizationInvitation',
+  table: 'organization_invitations',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    organizationId: snowflakeIdColumn(),
+    email: col.text(),
+    roleCodes: col.custom<string[], 'text[]'>('text[]').nativeType('text[]'),
+    tokenHash: col.text(),
+    status: col.text(),
+    invitedByUserId: snowflakeIdColumn().nullable(),
+    acceptedByUserId: snowflakeIdColumn().nullable(),
+    expiresAt: col.timestamp(),
+    lastSentAt: col.timestamp(),
+    respondedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationInvitationRecord = InferModelShape<
+  typeof OrganizationInvitationModel
+>;
@@ -0,0 +1,23 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationJoinRequestModel = defineModel({
+  name: 'OrganizationJoinRequest',
+  table: 'organization_join_requests',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    organizationId: snowflakeIdColumn(),
+    userId: snowflakeIdColumn(),
+    domainId: snowflakeIdColumn().nullable(),
+    roleCode: col.text(),
+    status: col.text(),
+    respondedByUserId: snowflakeIdColumn().nullable(),
+    respondedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationJoinRequestRecord = InferModelShape<typeof OrganizationJoinRequestModel>;
@@ -0,0 +1,24 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationOwnershipTransferModel = defineModel({
+  name: 'OrganizationOwnershipTransfer',
+  table: 'organization_ownership_transfers',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    organizationId: snowflakeIdColumn(),
+    fromUserId: snowflakeIdColumn(),
+    toUserId: snowflakeIdColumn(),
+    status: col.text(),
+    expiresAt: col.timestamp(),
+    respondedAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationOwnershipTransferRecord = InferModelShape<
+  typeof OrganizationOwnershipTransferModel
+>;
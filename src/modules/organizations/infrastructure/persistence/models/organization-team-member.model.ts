@@ -0,0 +1,17 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationTeamMemberModel = defineModel({
+  name: 'OrganizationTeamMember',
+  table: 'organization_team_members',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    teamId: snowflakeIdColumn(),
+    membershipId: snowflakeIdColumn(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationTeamMemberRecord = InferModelShape<typeof OrganizationTeamMemberModel>;
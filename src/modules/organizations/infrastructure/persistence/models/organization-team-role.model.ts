@@ -0,0 +1,17 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationTeamRoleModel = defineModel({
+  name: 'OrganizationTeamRole',
+  table: 'organization_team_roles',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    teamId: snowflakeIdColumn(),
+    roleId: snowflakeIdColumn(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationTeamRoleRecord = InferModelShape<typeof OrganizationTeamRoleModel>;
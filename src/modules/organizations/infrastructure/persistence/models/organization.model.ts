@@ -8,6 +8,10 @@ export const OrganizationModel = defineModel({
   columns: {
     id: snowflakeIdColumn().primary(),
     name: col.text(),
+    slug: col.text().nullable(),
+    requireMfa: col.boolean(),
+    deletedAt: col.timestamp().nullable(),
+    purgeScheduledAt: col.timestamp().nullable(),
     createdAt: col.timestamp().generated(),
     updatedAt: col.timestamp().generated(),
   },
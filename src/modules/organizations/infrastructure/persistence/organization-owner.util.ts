@@ -0,0 +1,48 @@
+import { ConflictException } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
+import { ORGANIZATION_LAST_OWNER_MESSAGE } from '@/modules/organizations/application/constants/organization-membership.constants';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { OrganizationMembershipModel } from './models/organization-membership.model';
+import { OrganizationModel } from './models/organization.model';
+
+/**
+ * Guards the "at least one `org_owner`" invariant. Call it inside the
+ * transaction of a write that removes an owner, before the write.
+ *
+ * The organization row is locked first, through an update that holds its row
+ * lock until the transaction ends: concurrent removals of two different
+ * owners wait for each other and the second one counts the owners left by
+ * the first, instead of both seeing two owners and leaving none.
+ *
+ * Owners are counted through the legacy `role` column, which every write of
+ * membership roles keeps in sync with the `org_owner` role code. Custom roles
+ * cannot reuse that code and teams cannot grant it, so they never make a
+ * member an owner.
+ */
+export async function assertNotLastOwner(
+  executor: ObjxSession,
+  organizationId: string,
+): Promise<void> {
+  await executor.execute(
+    OrganizationModel
+      .update({ updatedAt: new Date() })
+      .where(({ id }, op) => op.eq(id, organizationId)),
+  );
+
+  const rows = await executor.execute(
+    OrganizationMembershipModel
+      .query()
+      .where(({ organizationId: membershipOrganizationId, role }, op) =>
+        op.and(
+          op.eq(membershipOrganizationId, organizationId),
+          op.eq(role, 'owner'),
+        ),
+      )
+      .selectExpr('total', ({ id }) => expr.count<number>(id)),
+  );
+  const owners = Number(rows[0]?.total ?? 0);
+
+  if (owners <= 1) {
+    throw new ConflictException(ORGANIZATION_LAST_OWNER_MESSAGE);
+  }
+}
@@ -0,0 +1,59 @@
+import { ForbiddenException } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
+import { ENTITLEMENT_SEAT_LIMIT_MESSAGE } from '@/modules/plans/application/constants/plan.constants';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { OrganizationInvitationModel } from './models/organization-invitation.model';
+import { OrganizationMembershipModel } from './models/organization-membership.model';
+import { OrganizationModel } from './models/organization.model';
+
+/**
+ * Guards the seat limit of the plan. Call it inside the transaction of a write
+ * that adds a member without consuming an invitation, before the write.
+ *
+ * Like `assertNotLastOwner`, the organization row is locked first so that two
+ * concurrent joins count each other instead of both taking the last seat.
+ * Pending invitations hold a seat, the same way they do when invitations are
+ * sent. A `null` limit means unlimited and skips the lock.
+ */
+export async function assertSeatAvailable(
+  executor: ObjxSession,
+  organizationId: string,
+  seatLimit: number | null,
+  now: Date,
+): Promise<void> {
+  if (seatLimit === null) {
+    return;
+  }
+
+  await executor.execute(
+    OrganizationModel
+      .update({ updatedAt: now })
+      .where(({ id }, op) => op.eq(id, organizationId)),
+  );
+
+  const memberRows = await executor.execute(
+    OrganizationMembershipModel
+      .query()
+      .where(({ organizationId: membershipOrganizationId }, op) =>
+        op.eq(membershipOrganizationId, organizationId),
+      )
+      .selectExpr('total', ({ id }) => expr.count<number>(id)),
+  );
+  const invitationRows = await executor.execute(
+    OrganizationInvitationModel
+      .query()
+      .where(({ organizationId: invitationOrganizationId, status, expiresAt }, op) =>
+        op.and(
+          op.eq(invitationOrganizationId, organizationId),
+          op.eq(status, 'pending'),
+          op.gt(expiresAt, now),
+        ),
+      )
+      .selectExpr('total', ({ id }) => expr.count<number>(id)),
+  );
+  const reservedSeats = Number(memberRows[0]?.total ?? 0) + Number(invitationRows[0]?.total ?? 0);
+
+  if (reservedSeats >= seatLimit) {
+    throw new ForbiddenException(ENTITLEMENT_SEAT_LIMIT_MESSAGE);
+  }
+}
@@ -1,5 +1,15 @@
 import { Module } from '@nestjs/common';
+import { ORGANIZATION_DOMAIN_REPOSITORY } from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import { ORGANIZATION_INVITATION_REPOSITORY } from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import { ORGANIZATION_JOIN_REQUEST_REPOSITORY } from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import { ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY } from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import { ORGANIZATION_TEAM_REPOSITORY } from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
 import { ORGANIZATION_REPOSITORY } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { OrganizationDomainRepository } from './repositories/organization-domain.repository';
+import { OrganizationInvitationRepository } from './repositories/organization-invitation.repository';
+import { OrganizationJoinRequestRepository } from './repositories/organization-join-request.repository';
+import { OrganizationOwnershipTransferRepository } from './repositories/organization-ownership-transfer.repository';
+import { OrganizationTeamRepository } from './repositories/organization-team.repository';
 import { OrganizationRepository } from './repositories/organization.repository';
 
 @Module({
@@ -8,7 +18,34 @@ import { OrganizationRepository } from './repositories/organization.repository';
       provide: ORGANIZATION_REPOSITORY,
       useClass: OrganizationRepository,
     },
+    {
+      provide: ORGANIZATION_INVITATION_REPOSITORY,
+      useClass: OrganizationInvitationRepository,
+    },
+    {
+      provide: ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+      useClass: OrganizationOwnershipTransferRepository,
+    },
+    {
+      provide: ORGANIZATION_DOMAIN_REPOSITORY,
+      useClass: OrganizationDomainRepository,
+    },
+    {
+      provide: ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+      useClass: OrganizationJoinRequestRepository,
+    },
+    {
+      provide: ORGANIZATION_TEAM_REPOSITORY,
+      useClass: OrganizationTeamRepository,
+    },
+  ],
+  exports: [
+    ORGANIZATION_REPOSITORY,
+    ORGANIZATION_INVITATION_REPOSITORY,
+    ORGANIZATION_OWNERSHIP_TRANSFER_REPOSITORY,
+    ORGANIZATION_DOMAIN_REPOSITORY,
+    ORGANIZATION_JOIN_REQUEST_REPOSITORY,
+    ORGANIZATION_TEAM_REPOSITORY,
   ],
-  exports: [ORGANIZATION_REPOSITORY],
 })
 export class OrganizationsPersistenceModule {}
@@ -0,0 +1,240 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  OrganizationDomain,
+  type OrganizationDomainJoinPolicy,
+  type OrganizationDomainStatus,
+} from '@/modules/organizations/domain/entities/organization-domain.entity';
+import type {
+  CreateOrganizationDomainData,
+  IOrganizationDomainRepository,
+  UpdateOrganizationDomainData,
+} from '@/modules/organizations/domain/repositories/organization-domain.repository.interface';
+import type { SystemRoleCode } from '@/modules/permissions/application/constants/permissions.constants';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  OrganizationDomainModel,
+  type OrganizationDomainRecord,
+} from '../models/organization-domain.model';
+
+@Injectable()
+export class OrganizationDomainRepository implements IOrganizationDomainRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateOrganizationDomainData): Promise<OrganizationDomain> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .insert({
+          id: generateSnowflakeId(),
+          organizationId: data.organizationId,
+          domain: data.domain,
+          verificationToken: data.verificationToken,
+          status: 'pending',
+          joinPolicy: data.joinPolicy,
+          defaultRoleCode: data.defaultRoleCode,
+          createdByUserId: data.createdByUserId,
+          verifiedAt: null,
+        })
+        .returning(({
+          id,
+          organizationId,
+          domain,
+          verificationToken,
+          status,
+          joinPolicy,
+          defaultRoleCode,
+          createdByUserId,
+          verifiedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          organizationId,
+          domain,
+          verificationToken,
+          status,
+          joinPolicy,
+          defaultRoleCode,
+          createdByUserId,
+          verifiedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Organization domain insert did not return a row.');
+    }
+
+    return mapDomainRow(row);
+  }
+
+  async findById(id: string, organizationId: string): Promise<OrganizationDomain | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .query()
+        .where(({ id: domainId, organizationId: domainOrganizationId }, op) =>
+          op.and(
+            op.eq(domainId, id),
+            op.eq(domainOrganizationId, organizationId),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapDomainRow(row) : null;
+  }
+
+  async findByDomain(organizationId: string, domain: string): Promise<OrganizationDomain | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .query()
+        .where(({ organizationId: domainOrganizationId, domain: storedDomain }, op) =>
+          op.and(
+            op.eq(domainOrganizationId, organizationId),
+            op.eq(storedDomain, domain),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapDomainRow(row) : null;
+  }
+
+  async findVerifiedByDomain(domain: string): Promise<OrganizationDomain | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .query()
+        .where(({ domain: storedDomain, status }, op) =>
+          op.and(
+            op.eq(storedDomain, domain),
+            op.eq(status, 'verified'),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapDomainRow(row) : null;
+  }
+
+  async listByOrganization(organizationId: string): Promise<OrganizationDomain[]> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .query()
+        .where(({ organizationId: domainOrganizationId }, op) =>
+          op.eq(domainOrganizationId, organizationId),
+        )
+        .orderBy(({ domain }) => domain, 'asc'),
+    );
+
+    return rows.map(mapDomainRow);
+  }
+
+  async markVerified(id: string, now: Date): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .update({
+          status: 'verified',
+          verifiedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: domainId, status }, op) =>
+          op.and(
+            op.eq(domainId, id),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .returning(({ id: domainId }) => [domainId]),
+    );
+
+    return rows.length > 0;
+  }
+
+  async update(
+    id: string,
+    organizationId: string,
+    data: UpdateOrganizationDomainData,
+  ): Promise<OrganizationDomain | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .update({
+          ...(data.joinPolicy !== undefined ? { joinPolicy: data.joinPolicy } : {}),
+          ...(data.defaultRoleCode !== undefined ? { defaultRoleCode: data.defaultRoleCode } : {}),
+          updatedAt: new Date(),
+        })
+        .where(({ id: domainId, organizationId: domainOrganizationId }, op) =>
+          op.and(
+            op.eq(domainId, id),
+            op.eq(domainOrganizationId, organizationId),
+          ),
+        )
+        .returning(({
+          id: domainId,
+          organizationId: domainOrganizationId,
+          domain,
+          verificationToken,
+          status,
+          joinPolicy,
+          defaultRoleCode,
+          createdByUserId,
+          verifiedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          domainId,
+          domainOrganizationId,
+          domain,
+          verificationToken,
+          status,
+          joinPolicy,
+          defaultRoleCode,
+          createdByUserId,
+          verifiedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    return row ? mapDomainRow(row) : null;
+  }
+
+  async delete(id: string, organizationId: string): Promise<boolean> {
+    const deletedRows = await this.objxSession.execute(
+      OrganizationDomainModel
+        .delete()
+        .where(({ id: domainId, organizationId: domainOrganizationId }, op) =>
+          op.and(
+            op.eq(domainId, id),
+            op.eq(domainOrganizationId, organizationId),
+          ),
+        ),
+    );
+
+    return deletedRows > 0;
+  }
+}
+
+function mapDomainRow(row: OrganizationDomainRecord): OrganizationDomain {
+  return new OrganizationDomain({
+    id: row.id,
+    organizationId: row.organizationId,
+    domain: row.domain,
+    verificationToken: row.verificationToken,
+    status: row.status as OrganizationDomainStatus,
+    joinPolicy: row.joinPolicy as OrganizationDomainJoinPolicy,
+    defaultRoleCode: row.defaultRoleCode as SystemRoleCode,
+    createdByUserId: row.createdByUserId ?? null,
+    verifiedAt: row.verifiedAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
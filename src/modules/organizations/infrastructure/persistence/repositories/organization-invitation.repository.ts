@@ -0,0 +1,315 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  OrganizationInvitation,
+  type OrganizationInvitationStatus,
+} from '@/modules/organizations/domain/entities/organization-invitation.entity';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type {
+  CreateOrganizationInvitationData,
+  IOrganizationInvitationRepository,
+} from '@/modules/organizations/domain/repositories/organization-invitation.repository.interface';
+import type { OrganizationAccess } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  resolveLegacyOrganizationMembershipRole,
+  type SystemRoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { RoleModel } from '@/modules/permissions/infrastructure/persistence/models/role.model';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  OrganizationInvitationModel,
+  type OrganizationInvitationRecord,
+} from '../models/organization-invitation.model';
+import { OrganizationMembershipModel } from '../models/organization-membership.model';
+import { OrganizationMembershipRoleModel } from '../models/organization-membership-role.model';
+import { OrganizationModel } from '../models/organization.model';
+
+@Injectable()
+export class OrganizationInvitationRepository implements IOrganizationInvitationRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateOrganizationInvitationData): Promise<OrganizationInvitation> {
+    const now = new Date();
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .insert({
+          id: generateSnowflakeId(),
+          organizationId: data.organizationId,
+          email: data.email,
+          roleCodes: data.roleCodes,
+          tokenHash: data.tokenHash,
+          status: 'pending',
+          invitedByUserId: data.invitedByUserId,
+          acceptedByUserId: null,
+          expiresAt: data.expiresAt,
+          lastSentAt: now,
+          respondedAt: null,
+        })
+        .returning(({
+          id,
+          organizationId,
+          email,
+          roleCodes,
+          tokenHash,
+          status,
+          invitedByUserId,
+          acceptedByUserId,
+          expiresAt,
+          lastSentAt,
+          respondedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          organizationId,
+          email,
+          roleCodes,
+          tokenHash,
+          status,
+          invitedByUserId,
+          acceptedByUserId,
+          expiresAt,
+          lastSentAt,
+          respondedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Organization invitation insert did not return a row.');
+    }
+
+    return mapInvitationRow(row);
+  }
+
+  async findById(id: string, organizationId: string): Promise<OrganizationInvitation | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .query()
+        .where(({ id: invitationId, organizationId: invitationOrganizationId }, op) =>
+          op.and(
+            op.eq(invitationId, id),
+            op.eq(invitationOrganizationId, organizationId),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapInvitationRow(row) : null;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<OrganizationInvitation | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .query()
+        .where(({ tokenHash: storedTokenHash }, op) => op.eq(storedTokenHash, tokenHash))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapInvitationRow(row) : null;
+  }
+
+  async findPendingByEmail(
+    organizationId: string,
+    email: string,
+  ): Promise<OrganizationInvitation | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .query()
+        .where(({ organizationId: invitationOrganizationId, email: invitationEmail, status }, op) =>
+          op.and(
+            op.eq(invitationOrganizationId, organizationId),
+            op.eq(invitationEmail, email),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapInvitationRow(row) : null;
+  }
+
+  async listPending(organizationId: string): Promise<OrganizationInvitation[]> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .query()
+        .where(({ organizationId: invitationOrganizationId, status }, op) =>
+          op.and(
+            op.eq(invitationOrganizationId, organizationId),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .orderBy(({ createdAt }) => createdAt, 'desc'),
+    );
+
+    return rows.map(mapInvitationRow);
+  }
+
+  async rotateToken(
+    id: string,
+    tokenHash: string,
+    expiresAt: Date,
+    now: Date,
+  ): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .update({
+          tokenHash,
+          expiresAt,
+          lastSentAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: invitationId, status }, op) =>
+          op.and(
+            op.eq(invitationId, id),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .returning(({ id: invitationId }) => [invitationId]),
+    );
+
+    return rows.length > 0;
+  }
+
+  async close(
+    id: string,
+    status: Extract<OrganizationInvitationStatus, 'declined' | 'revoked'>,
+    now: Date,
+  ): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .update({
+          status,
+          respondedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: invitationId, status: currentStatus }, op) =>
+          op.and(
+            op.eq(invitationId, id),
+            op.eq(currentStatus, 'pending'),
+          ),
+        )
+        .returning(({ id: invitationId }) => [invitationId]),
+    );
+
+    return rows.length > 0;
+  }
+
+  accept(id: string, userId: string, now: Date): Promise<OrganizationAccess | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const invitationRows = await trxSession.execute(
+        OrganizationInvitationModel
+          .update({
+            status: 'accepted',
+            acceptedByUserId: userId,
+            respondedAt: now,
+            updatedAt: now,
+          })
+          .where(({ id: invitationId, status, expiresAt }, op) =>
+            op.and(
+              op.eq(invitationId, id),
+              op.eq(status, 'pending'),
+              op.gt(expiresAt, now),
+            ),
+          )
+          .returning(({ organizationId, roleCodes }) => [organizationId, roleCodes]),
+      );
+      const invitationRow = invitationRows[0];
+
+      if (!invitationRow) {
+        return null;
+      }
+
+      const organizationRows = await trxSession.execute(
+        OrganizationModel
+          .query()
+          .where(({ id: organizationId, deletedAt }, op) =>
+            op.and(
+              op.eq(organizationId, invitationRow.organizationId),
+              op.isNull(deletedAt),
+            ),
+          )
+          .limit(1),
+      );
+      const organizationRow = organizationRows[0];
+
+      if (!organizationRow) {
+        return null;
+      }
+
+      const roleCodes = invitationRow.roleCodes;
+      const role = resolveLegacyOrganizationMembershipRole(roleCodes);
+      const membershipId = generateSnowflakeId();
+
+      await trxSession.execute(
+        OrganizationMembershipModel.insert({
+          id: membershipId,
+          organizationId: invitationRow.organizationId,
+          userId,
+          role,
+        }),
+      );
+
+      const roleRows = roleCodes.length > 0
+        ? await trxSession.execute(
+          RoleModel
+            .query()
+            .where(({ code }, op) => op.in(code, roleCodes)),
+        )
+        : [];
+
+      if (roleRows.length > 0) {
+        await trxSession.execute(
+          OrganizationMembershipRoleModel.insert(
+            roleRows.map((roleRow) => ({
+              id: generateSnowflakeId(),
+              membershipId,
+              roleId: roleRow.id,
+            })),
+          ),
+        );
+      }
+
+      return {
+        organization: new Organization({
+          id: organizationRow.id,
+          name: organizationRow.name,
+          slug: organizationRow.slug ?? null,
+          requireMfa: organizationRow.requireMfa,
+          deletedAt: null,
+          purgeScheduledAt: null,
+          createdAt: organizationRow.createdAt,
+          updatedAt: organizationRow.updatedAt,
+        }),
+        role,
+      };
+    });
+  }
+}
+
+function mapInvitationRow(row: OrganizationInvitationRecord): OrganizationInvitation {
+  return new OrganizationInvitation({
+    id: row.id,
+    organizationId: row.organizationId,
+    email: row.email,
+    roleCodes: row.roleCodes as SystemRoleCode[],
+    tokenHash: row.tokenHash,
+    status: row.status as OrganizationInvitationStatus,
+    invitedByUserId: row.invitedByUserId ?? null,
+    acceptedByUserId: row.acceptedByUserId ?? null,
+    expiresAt: row.expiresAt,
+    lastSentAt: row.lastSentAt,
+    respondedAt: row.respondedAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
@@ -0,0 +1,387 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  OrganizationJoinRequest,
+  type OrganizationJoinRequestStatus,
+} from '@/modules/organizations/domain/entities/organization-join-request.entity';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type {
+  CreateOrganizationJoinRequestData,
+  IOrganizationJoinRequestRepository,
+  PendingOrganizationJoinRequest,
+} from '@/modules/organizations/domain/repositories/organization-join-request.repository.interface';
+import type {
+  OrganizationAccess,
+  OrganizationMembershipRole,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  resolveLegacyOrganizationMembershipRole,
+  type SystemRoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { RoleModel } from '@/modules/permissions/infrastructure/persistence/models/role.model';
+import {
+  UserModel,
+  type UserRecord,
+} from '@/modules/users/infrastructure/persistence/models/user.model';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  OrganizationJoinRequestModel,
+  type OrganizationJoinRequestRecord,
+} from '../models/organization-join-request.model';
+import { OrganizationMembershipModel } from '../models/organization-membership.model';
+import { OrganizationMembershipRoleModel } from '../models/organization-membership-role.model';
+import {
+  OrganizationModel,
+  type OrganizationRecord,
+} from '../models/organization.model';
+import { assertSeatAvailable } from '../organization-seat.util';
+
+@Injectable()
+export class OrganizationJoinRequestRepository implements IOrganizationJoinRequestRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(data: CreateOrganizationJoinRequestData): Promise<OrganizationJoinRequest> {
+    const rows = await this.objxSession.execute(
+      OrganizationJoinRequestModel
+        .insert({
+          id: generateSnowflakeId(),
+          organizationId: data.organizationId,
+          userId: data.userId,
+          domainId: data.domainId,
+          roleCode: data.roleCode,
+          status: 'pending',
+          respondedByUserId: null,
+          respondedAt: null,
+        })
+        .returning(({
+          id,
+          organizationId,
+          userId,
+          domainId,
+          roleCode,
+          status,
+          respondedByUserId,
+          respondedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          organizationId,
+          userId,
+          domainId,
+          roleCode,
+          status,
+          respondedByUserId,
+          respondedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Organization join request insert did not return a row.');
+    }
+
+    return mapJoinRequestRow(row);
+  }
+
+  join(
+    data: CreateOrganizationJoinRequestData,
+    now: Date,
+    seatLimit: number | null,
+  ): Promise<OrganizationAccess | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const organizationRows = await trxSession.execute(
+        OrganizationModel
+          .query()
+          .where(({ id: organizationId, deletedAt }, op) =>
+            op.and(
+              op.eq(organizationId, data.organizationId),
+              op.isNull(deletedAt),
+            ),
+          )
+          .limit(1),
+      );
+      const organizationRow = organizationRows[0];
+
+      if (!organizationRow) {
+        return null;
+      }
+
+      await assertSeatAvailable(trxSession, data.organizationId, seatLimit, now);
+
+      await trxSession.execute(
+        OrganizationJoinRequestModel.insert({
+          id: generateSnowflakeId(),
+          organizationId: data.organizationId,
+          userId: data.userId,
+          domainId: data.domainId,
+          roleCode: data.roleCode,
+          status: 'approved',
+          respondedByUserId: null,
+          respondedAt: now,
+        }),
+      );
+
+      const role = await insertMembership(
+        trxSession,
+        data.organizationId,
+        data.userId,
+        data.roleCode,
+      );
+
+      return {
+        organization: mapOrganizationRow(organizationRow),
+        role,
+      };
+    });
+  }
+
+  async findById(id: string, organizationId: string): Promise<OrganizationJoinRequest | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationJoinRequestModel
+        .query()
+        .where(({ id: requestId, organizationId: requestOrganizationId }, op) =>
+          op.and(
+            op.eq(requestId, id),
+            op.eq(requestOrganizationId, organizationId),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapJoinRequestRow(row) : null;
+  }
+
+  async findPendingForUser(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationJoinRequest | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationJoinRequestModel
+        .query()
+        .where(({ organizationId: requestOrganizationId, userId: requestUserId, status }, op) =>
+          op.and(
+            op.eq(requestOrganizationId, organizationId),
+            op.eq(requestUserId, userId),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapJoinRequestRow(row) : null;
+  }
+
+  async listPending(organizationId: string): Promise<PendingOrganizationJoinRequest[]> {
+    const rows = await this.objxSession.execute(
+      OrganizationJoinRequestModel
+        .query()
+        .where(({ organizationId: requestOrganizationId, status }, op) =>
+          op.and(
+            op.eq(requestOrganizationId, organizationId),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .orderBy(({ createdAt }) => createdAt, 'asc'),
+    );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const users = await this.objxSession.execute(
+      UserModel
+        .query()
+        .where(({ id, deletedAt }, op) =>
+          op.and(
+            op.in(id, rows.map((row) => row.userId)),
+            op.isNull(deletedAt),
+          ),
+        ),
+    );
+    const userById = new Map<string, UserRecord>(
+      users.map((user) => [user.id, user]),
+    );
+
+    return rows.flatMap((row) => {
+      const user = userById.get(row.userId);
+
+      return user
+        ? [{
+          request: mapJoinRequestRow(row),
+          user: {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+          },
+        }]
+        : [];
+    });
+  }
+
+  approve(
+    id: string,
+    organizationId: string,
+    respondedByUserId: string,
+    now: Date,
+    seatLimit: number | null,
+  ): Promise<OrganizationAccess | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const organizationRows = await trxSession.execute(
+        OrganizationModel
+          .query()
+          .where(({ id: currentOrganizationId, deletedAt }, op) =>
+            op.and(
+              op.eq(currentOrganizationId, organizationId),
+              op.isNull(deletedAt),
+            ),
+          )
+          .limit(1),
+      );
+      const organizationRow = organizationRows[0];
+
+      if (!organizationRow) {
+        return null;
+      }
+
+      await assertSeatAvailable(trxSession, organizationId, seatLimit, now);
+
+      const requestRows = await trxSession.execute(
+        OrganizationJoinRequestModel
+          .update({
+            status: 'approved',
+            respondedByUserId,
+            respondedAt: now,
+            updatedAt: now,
+          })
+          .where(({ id: requestId, organizationId: requestOrganizationId, status }, op) =>
+            op.and(
+              op.eq(requestId, id),
+              op.eq(requestOrganizationId, organizationId),
+              op.eq(status, 'pending'),
+            ),
+          )
+          .returning(({ userId, roleCode }) => [userId, roleCode]),
+      );
+      const requestRow = requestRows[0];
+
+      if (!requestRow) {
+        return null;
+      }
+
+      const role = await insertMembership(
+        trxSession,
+        organizationId,
+        requestRow.userId,
+        requestRow.roleCode as SystemRoleCode,
+      );
+
+      return {
+        organization: mapOrganizationRow(organizationRow),
+        role,
+      };
+    });
+  }
+
+  async reject(
+    id: string,
+    organizationId: string,
+    respondedByUserId: string,
+    now: Date,
+  ): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      OrganizationJoinRequestModel
+        .update({
+          status: 'rejected',
+          respondedByUserId,
+          respondedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: requestId, organizationId: requestOrganizationId, status }, op) =>
+          op.and(
+            op.eq(requestId, id),
+            op.eq(requestOrganizationId, organizationId),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .returning(({ id: requestId }) => [requestId]),
+    );
+
+    return rows.length > 0;
+  }
+}
+
+async function insertMembership(
+  executor: ObjxSession,
+  organizationId: string,
+  userId: string,
+  roleCode: SystemRoleCode,
+): Promise<OrganizationMembershipRole> {
+  const role = resolveLegacyOrganizationMembershipRole([roleCode]);
+  const membershipId = generateSnowflakeId();
+
+  await executor.execute(
+    OrganizationMembershipModel.insert({
+      id: membershipId,
+      organizationId,
+      userId,
+      role,
+    }),
+  );
+
+  const roleRows = await executor.execute(
+    RoleModel
+      .query()
+      .where(({ code }, op) => op.eq(code, roleCode))
+      .limit(1),
+  );
+  const roleRow = roleRows[0];
+
+  if (roleRow) {
+    await executor.execute(
+      OrganizationMembershipRoleModel.insert({
+        id: generateSnowflakeId(),
+        membershipId,
+        roleId: roleRow.id,
+      }),
+    );
+  }
+
+  return role;
+}
+
+function mapOrganizationRow(row: OrganizationRecord): Organization {
+  return new Organization({
+    id: row.id,
+    name: row.name,
+    slug: row.slug ?? null,
+    requireMfa: row.requireMfa,
+    deletedAt: null,
+    purgeScheduledAt: null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
+
+function mapJoinRequestRow(row: OrganizationJoinRequestRecord): OrganizationJoinRequest {
+  return new OrganizationJoinRequest({
+    id: row.id,
+    organizationId: row.organizationId,
+    userId: row.userId,
+    domainId: row.domainId ?? null,
+    roleCode: row.roleCode as SystemRoleCode,
+    status: row.status as OrganizationJoinRequestStatus,
+    respondedByUserId: row.respondedByUserId ?? null,
+    respondedAt: row.respondedAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
@@ -0,0 +1,304 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  OrganizationOwnershipTransfer,
+  type OrganizationOwnershipTransferStatus,
+} from '@/modules/organizations/domain/entities/organization-ownership-transfer.entity';
+import type {
+  CreateOrganizationOwnershipTransferData,
+  IOrganizationOwnershipTransferRepository,
+} from '@/modules/organizations/domain/repositories/organization-ownership-transfer.repository.interface';
+import {
+  DEFAULT_ORGANIZATION_ADMIN_ROLE_CODE,
+  DEFAULT_ORGANIZATION_OWNER_ROLE_CODE,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { RoleModel } from '@/modules/permissions/infrastructure/persistence/models/role.model';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { OrganizationMembershipModel } from '../models/organization-membership.model';
+import { OrganizationMembershipRoleModel } from '../models/organization-membership-role.model';
+import {
+  OrganizationOwnershipTransferModel,
+  type OrganizationOwnershipTransferRecord,
+} from '../models/organization-ownership-transfer.model';
+
+@Injectable()
+export class OrganizationOwnershipTransferRepository implements IOrganizationOwnershipTransferRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(
+    data: CreateOrganizationOwnershipTransferData,
+  ): Promise<OrganizationOwnershipTransfer> {
+    const rows = await this.objxSession.execute(
+      OrganizationOwnershipTransferModel
+        .insert({
+          id: generateSnowflakeId(),
+          organizationId: data.organizationId,
+          fromUserId: data.fromUserId,
+          toUserId: data.toUserId,
+          status: 'pending',
+          expiresAt: data.expiresAt,
+          respondedAt: null,
+        })
+        .returning(({
+          id,
+          organizationId,
+          fromUserId,
+          toUserId,
+          status,
+          expiresAt,
+          respondedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          organizationId,
+          fromUserId,
+          toUserId,
+          status,
+          expiresAt,
+          respondedAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('Organization ownership transfer insert did not return a row.');
+    }
+
+    return mapTransferRow(row);
+  }
+
+  async findById(id: string): Promise<OrganizationOwnershipTransfer | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationOwnershipTransferModel
+        .query()
+        .where(({ id: transferId }, op) => op.eq(transferId, id))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapTransferRow(row) : null;
+  }
+
+  async findPendingByOrganization(
+    organizationId: string,
+  ): Promise<OrganizationOwnershipTransfer | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationOwnershipTransferModel
+        .query()
+        .where(({ organizationId: transferOrganizationId, status }, op) =>
+          op.and(
+            op.eq(transferOrganizationId, organizationId),
+            op.eq(status, 'pending'),
+          ),
+        )
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapTransferRow(row) : null;
+  }
+
+  async listPendingForRecipient(
+    toUserId: string,
+    now: Date,
+  ): Promise<OrganizationOwnershipTransfer[]> {
+    const rows = await this.objxSession.execute(
+      OrganizationOwnershipTransferModel
+        .query()
+        .where(({ toUserId: recipientId, status, expiresAt }, op) =>
+          op.and(
+            op.eq(recipientId, toUserId),
+            op.eq(status, 'pending'),
+            op.gt(expiresAt, now),
+          ),
+        )
+        .orderBy(({ createdAt }) => createdAt, 'desc'),
+    );
+
+    return rows.map(mapTransferRow);
+  }
+
+  async close(
+    id: string,
+    status: Extract<OrganizationOwnershipTransferStatus, 'declined' | 'cancelled'>,
+    now: Date,
+  ): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      OrganizationOwnershipTransferModel
+        .update({
+          status,
+          respondedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: transferId, status: currentStatus }, op) =>
+          op.and(
+            op.eq(transferId, id),
+            op.eq(currentStatus, 'pending'),
+          ),
+        )
+        .returning(({ id: transferId }) => [transferId]),
+    );
+
+    return rows.length > 0;
+  }
+
+  accept(id: string, now: Date): Promise<boolean> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const transferRows = await trxSession.execute(
+        OrganizationOwnershipTransferModel
+          .query()
+          .where(({ id: transferId, status, expiresAt }, op) =>
+            op.and(
+              op.eq(transferId, id),
+              op.eq(status, 'pending'),
+              op.gt(expiresAt, now),
+            ),
+          )
+          .limit(1),
+      );
+      const transfer = transferRows[0];
+
+      if (!transfer) {
+        return false;
+      }
+
+      const memberships = await trxSession.execute(
+        OrganizationMembershipModel
+          .query()
+          .where(({ organizationId, userId }, op) =>
+            op.and(
+              op.eq(organizationId, transfer.organizationId),
+              op.in(userId, [transfer.fromUserId, transfer.toUserId]),
+            ),
+          ),
+      );
+      const fromMembership = memberships.find(
+        (membership) => membership.userId === transfer.fromUserId,
+      );
+      const toMembership = memberships.find(
+        (membership) => membership.userId === transfer.toUserId,
+      );
+
+      if (!fromMembership || fromMembership.role !== 'owner' || !toMembership) {
+        return false;
+      }
+
+      const updatedRows = await trxSession.execute(
+        OrganizationOwnershipTransferModel
+          .update({
+            status: 'accepted',
+            respondedAt: now,
+            updatedAt: now,
+          })
+          .where(({ id: transferId, status }, op) =>
+            op.and(
+              op.eq(transferId, id),
+              op.eq(status, 'pending'),
+            ),
+          )
+          .returning(({ id: transferId }) => [transferId]),
+      );
+
+      if (updatedRows.length === 0) {
+        return false;
+      }
+
+      const roleRows = await trxSession.execute(
+        RoleModel
+          .query()
+          .where(({ code }, op) =>
+            op.in(code, [
+              DEFAULT_ORGANIZATION_OWNER_ROLE_CODE,
+              DEFAULT_ORGANIZATION_ADMIN_ROLE_CODE,
+            ]),
+          ),
+      );
+      const ownerRole = roleRows.find((role) => role.code === DEFAULT_ORGANIZATION_OWNER_ROLE_CODE);
+      const adminRole = roleRows.find((role) => role.code === DEFAULT_ORGANIZATION_ADMIN_ROLE_CODE);
+
+      if (!ownerRole || !adminRole) {
+        throw new Error(
+          'Seeded roles "org_owner" and "org_admin" were not found. Run database seeds before transferring ownership.',
+        );
+      }
+
+      const membershipRoleRows = await trxSession.execute(
+        OrganizationMembershipRoleModel
+          .query()
+          .where(({ membershipId }, op) =>
+            op.in(membershipId, [fromMembership.id, toMembership.id]),
+          ),
+      );
+      const hasRole = (membershipId: string, roleId: string) =>
+        membershipRoleRows.some((row) => row.membershipId === membershipId && row.roleId === roleId);
+
+      // The recipient is promoted first so the organization never lacks an owner.
+      if (!hasRole(toMembership.id, ownerRole.id)) {
+        await trxSession.execute(
+          OrganizationMembershipRoleModel.insert({
+            id: generateSnowflakeId(),
+            membershipId: toMembership.id,
+            roleId: ownerRole.id,
+          }),
+        );
+      }
+
+      await trxSession.execute(
+        OrganizationMembershipModel
+          .update({ role: 'owner' })
+          .where(({ id: membershipId }, op) => op.eq(membershipId, toMembership.id)),
+      );
+      await trxSession.execute(
+        OrganizationMembershipRoleModel
+          .delete()
+          .where(({ membershipId, roleId }, op) =>
+            op.and(
+              op.eq(membershipId, fromMembership.id),
+              op.eq(roleId, ownerRole.id),
+            ),
+          ),
+      );
+
+      if (!hasRole(fromMembership.id, adminRole.id)) {
+        await trxSession.execute(
+          OrganizationMembershipRoleModel.insert({
+            id: generateSnowflakeId(),
+            membershipId: fromMembership.id,
+            roleId: adminRole.id,
+          }),
+        );
+      }
+
+      await trxSession.execute(
+        OrganizationMembershipModel
+          .update({ role: 'member' })
+          .where(({ id: membershipId }, op) => op.eq(membershipId, fromMembership.id)),
+      );
+
+      return true;
+    });
+  }
+}
+
+function mapTransferRow(
+  row: OrganizationOwnershipTransferRecord,
+): OrganizationOwnershipTransfer {
+  return new OrganizationOwnershipTransfer({
+    id: row.id,
+    organizationId: row.organizationId,
+    fromUserId: row.fromUserId,
+    toUserId: row.toUserId,
+    status: row.status as OrganizationOwnershipTransferStatus,
+    expiresAt: row.expiresAt,
+    respondedAt: row.respondedAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
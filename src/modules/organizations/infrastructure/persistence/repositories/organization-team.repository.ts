@@ -0,0 +1,435 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { OrganizationTeam } from '@/modules/organizations/domain/entities/organization-team.entity';
+import type {
+  CreateOrganizationTeamData,
+  IOrganizationTeamRepository,
+  OrganizationTeamMember,
+  UpdateOrganizationTeamData,
+} from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import {
+  isSystemRoleCode,
+  type SystemRoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import {
+  RoleModel,
+  type RoleRecord,
+} from '@/modules/permissions/infrastructure/persistence/models/role.model';
+import {
+  UserModel,
+  type UserRecord,
+} from '@/modules/users/infrastructure/persistence/models/user.model';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  OrganizationMembershipModel,
+  type OrganizationMembershipRecord,
+} from '../models/organization-membership.model';
+import { OrganizationTeamMemberModel } from '../models/organization-team-member.model';
+import { OrganizationTeamRoleModel } from '../models/organization-team-role.model';
+import {
+  OrganizationTeamModel,
+  type OrganizationTeamRecord,
+} from '../models/organization-team.model';
+
+@Injectable()
+export class OrganizationTeamRepository implements IOrganizationTeamRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  create(data: CreateOrganizationTeamData): Promise<OrganizationTeam> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const roleRows = await findRoles(trxSession, data.roleCodes);
+      const rows = await trxSession.execute(
+        OrganizationTeamModel
+          .insert({
+            id: generateSnowflakeId(),
+            organizationId: data.organizationId,
+            name: data.name,
+            description: data.description,
+          })
+          .returning(({
+            id,
+            organizationId,
+            name,
+            description,
+            createdAt,
+            updatedAt,
+          }) => [
+            id,
+            organizationId,
+            name,
+            description,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      if (!row) {
+        throw new Error('Organization team insert did not return a row.');
+      }
+
+      await replaceTeamRoles(trxSession, row.id, roleRows);
+
+      const [team] = await loadTeams(trxSession, [row]);
+
+      return team;
+    });
+  }
+
+  async findById(id: string, organizationId: string): Promise<OrganizationTeam | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationTeamModel
+        .query()
+        .where(({ id: teamId, organizationId: teamOrganizationId }, op) =>
+          op.and(
+            op.eq(teamId, id),
+            op.eq(teamOrganizationId, organizationId),
+          ),
+        )
+        .limit(1),
+    );
+    const [team] = await loadTeams(this.objxSession, rows);
+
+    return team ?? null;
+  }
+
+  async findByName(organizationId: string, name: string): Promise<OrganizationTeam | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationTeamModel
+        .query()
+        .where(({ organizationId: teamOrganizationId, name: teamName }, op) =>
+          op.and(
+            op.eq(teamOrganizationId, organizationId),
+            op.eq(teamName, name),
+          ),
+        )
+        .limit(1),
+    );
+    const [team] = await loadTeams(this.objxSession, rows);
+
+    return team ?? null;
+  }
+
+  async listByOrganization(organizationId: string): Promise<OrganizationTeam[]> {
+    const rows = await this.objxSession.execute(
+      OrganizationTeamModel
+        .query()
+        .where(({ organizationId: teamOrganizationId }, op) =>
+          op.eq(teamOrganizationId, organizationId),
+        )
+        .orderBy(({ name }) => name, 'asc'),
+    );
+
+    return loadTeams(this.objxSession, rows);
+  }
+
+  update(
+    id: string,
+    organizationId: string,
+    data: UpdateOrganizationTeamData,
+  ): Promise<OrganizationTeam | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const roleRows = data.roleCodes !== undefined
+        ? await findRoles(trxSession, data.roleCodes)
+        : undefined;
+      const rows = await trxSession.execute(
+        OrganizationTeamModel
+          .update({
+            ...(data.name !== undefined ? { name: data.name } : {}),
+            ...(data.description !== undefined ? { description: data.description } : {}),
+            updatedAt: new Date(),
+          })
+          .where(({ id: teamId, organizationId: teamOrganizationId }, op) =>
+            op.and(
+              op.eq(teamId, id),
+              op.eq(teamOrganizationId, organizationId),
+            ),
+          )
+          .returning(({
+            id: teamId,
+            organizationId: teamOrganizationId,
+            name,
+            description,
+            createdAt,
+            updatedAt,
+          }) => [
+            teamId,
+            teamOrganizationId,
+            name,
+            description,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      if (!row) {
+        return null;
+      }
+
+      if (roleRows) {
+        await replaceTeamRoles(trxSession, row.id, roleRows);
+      }
+
+      const [team] = await loadTeams(trxSession, [row]);
+
+      return team;
+    });
+  }
+
+  async delete(id: string, organizationId: string): Promise<boolean> {
+    const deletedCount = await this.objxSession.execute(
+      OrganizationTeamModel
+        .delete()
+        .where(({ id: teamId, organizationId: teamOrganizationId }, op) =>
+          op.and(
+            op.eq(teamId, id),
+            op.eq(teamOrganizationId, organizationId),
+          ),
+        ),
+    );
+
+    return deletedCount > 0;
+  }
+
+  async listMembers(id: string): Promise<OrganizationTeamMember[]> {
+    const teamMemberRows = await this.objxSession.execute(
+      OrganizationTeamMemberModel
+        .query()
+        .where(({ teamId }, op) => op.eq(teamId, id)),
+    );
+
+    if (teamMemberRows.length === 0) {
+      return [];
+    }
+
+    const memberships = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ id: membershipId }, op) =>
+          op.in(membershipId, teamMemberRows.map((row) => row.membershipId)),
+        ),
+    );
+    const users = memberships.length > 0
+      ? await this.objxSession.execute(
+        UserModel
+          .query()
+          .where(({ id: userId, deletedAt }, op) =>
+            op.and(
+              op.in(userId, memberships.map((membership) => membership.userId)),
+              op.isNull(deletedAt),
+            ),
+          ),
+      )
+      : [];
+    const membershipById = new Map<string, OrganizationMembershipRecord>(
+      memberships.map((membership) => [membership.id, membership]),
+    );
+    const userById = new Map<string, UserRecord>(
+      users.map((user) => [user.id, user]),
+    );
+
+    return teamMemberRows
+      .flatMap((row) => {
+        const membership = membershipById.get(row.membershipId);
+        const user = membership ? userById.get(membership.userId) : undefined;
+
+        return user
+          ? [{
+            userId: user.id,
+            name: user.name,
+            email: user.email,
+            addedAt: row.createdAt,
+          }]
+          : [];
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  addMember(id: string, organizationId: string, userId: string): Promise<boolean> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const membership = await findMembership(trxSession, organizationId, userId);
+
+      if (!membership) {
+        return false;
+      }
+
+      const existingRows = await trxSession.execute(
+        OrganizationTeamMemberModel
+          .query()
+          .where(({ teamId, membershipId }, op) =>
+            op.and(
+              op.eq(teamId, id),
+              op.eq(membershipId, membership.id),
+            ),
+          )
+          .limit(1),
+      );
+
+      if (existingRows.length === 0) {
+        await trxSession.execute(
+          OrganizationTeamMemberModel.insert({
+            id: generateSnowflakeId(),
+            teamId: id,
+            membershipId: membership.id,
+          }),
+        );
+      }
+
+      return true;
+    });
+  }
+
+  async removeMember(id: string, organizationId: string, userId: string): Promise<boolean> {
+    const membership = await findMembership(this.objxSession, organizationId, userId);
+
+    if (!membership) {
+      return false;
+    }
+
+    const deletedCount = await this.objxSession.execute(
+      OrganizationTeamMemberModel
+        .delete()
+        .where(({ teamId, membershipId }, op) =>
+          op.and(
+            op.eq(teamId, id),
+            op.eq(membershipId, membership.id),
+          ),
+        ),
+    );
+
+    return deletedCount > 0;
+  }
+}
+
+async function findMembership(
+  executor: ObjxSession,
+  organizationId: string,
+  userId: string,
+): Promise<OrganizationMembershipRecord | null> {
+  const rows = await executor.execute(
+    OrganizationMembershipModel
+      .query()
+      .where(({ organizationId: membershipOrganizationId, userId: membershipUserId }, op) =>
+        op.and(
+          op.eq(membershipOrganizationId, organizationId),
+          op.eq(membershipUserId, userId),
+        ),
+      )
+      .limit(1),
+  );
+
+  return rows[0] ?? null;
+}
+
+async function findRoles(
+  executor: ObjxSession,
+  roleCodes: readonly SystemRoleCode[],
+): Promise<readonly RoleRecord[]> {
+  const normalizedRoleCodes = Array.from(new Set(roleCodes));
+
+  if (normalizedRoleCodes.length === 0) {
+    return [];
+  }
+
+  const roleRows = await executor.execute(
+    RoleModel
+      .query()
+      .where(({ code }, op) => op.in(code, normalizedRoleCodes)),
+  );
+
+  if (roleRows.length !== normalizedRoleCodes.length) {
+    const knownRoleCodes = new Set(roleRows.map((role) => role.code));
+    const invalidRoleCodes = normalizedRoleCodes.filter(
+      (roleCode) => !knownRoleCodes.has(roleCode),
+    );
+    throw new BadRequestException(
+      `Unknown role codes: ${invalidRoleCodes.join(', ')}`,
+    );
+  }
+
+  return roleRows;
+}
+
+async function replaceTeamRoles(
+  executor: ObjxSession,
+  teamId: string,
+  roleRows: readonly RoleRecord[],
+): Promise<void> {
+  await executor.execute(
+    OrganizationTeamRoleModel
+      .delete()
+      .where(({ teamId: roleTeamId }, op) => op.eq(roleTeamId, teamId)),
+  );
+
+  if (roleRows.length > 0) {
+    await executor.execute(
+      OrganizationTeamRoleModel.insert(
+        roleRows.map((role) => ({
+          id: generateSnowflakeId(),
+          teamId,
+          roleId: role.id,
+        })),
+      ),
+    );
+  }
+}
+
+/** Resolves the role codes and member counts of several teams at once. */
+async function loadTeams(
+  executor: ObjxSession,
+  rows: readonly OrganizationTeamRecord[],
+): Promise<OrganizationTeam[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const teamIds = rows.map((row) => row.id);
+  const [teamRoleRows, teamMemberRows] = await Promise.all([
+    executor.execute(
+      OrganizationTeamRoleModel
+        .query()
+        .where(({ teamId }, op) => op.in(teamId, teamIds)),
+    ),
+    executor.execute(
+      OrganizationTeamMemberModel
+        .query()
+        .where(({ teamId }, op) => op.in(teamId, teamIds)),
+    ),
+  ]);
+  const roleIds = Array.from(new Set(teamRoleRows.map((teamRole) => teamRole.roleId)));
+  const roleRows = roleIds.length > 0
+    ? await executor.execute(
+      RoleModel
+        .query()
+        .where(({ id }, op) => op.in(id, roleIds)),
+    )
+    : [];
+  const roleCodeById = new Map<string, string>(
+    roleRows.map((role) => [role.id, role.code]),
+  );
+
+  return rows.map((row) => new OrganizationTeam({
+    id: row.id,
+    organizationId: row.organizationId,
+    name: row.name,
+    description: row.description ?? null,
+    roleCodes: teamRoleRows
+      .filter((teamRole) => teamRole.teamId === row.id)
+      .map((teamRole) => roleCodeById.get(teamRole.roleId))
+      .filter((code): code is string => code !== undefined)
+      .filter(isSystemRoleCode)
+      .sort(),
+    memberCount: teamMemberRows.filter((teamMember) => teamMember.teamId === row.id).length,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }));
+}
@@ -1,11 +1,15 @@
 import { Inject, Injectable } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
 import { DEFAULT_ORGANIZATION_OWNER_ROLE_CODE } from '@/modules/permissions/application/constants/permissions.constants';
 import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
 import type {
   CreateOrganizationData,
   IOrganizationRepository,
+  ListOrganizationMembersFilters,
+  ListOrganizationMembersResult,
   OrganizationAccess,
   OrganizationMembershipRole,
+  UpdateOrganizationData,
 } from '@/modules/organizations/domain/repositories/organization.repository.interface';
 import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
 import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
@@ -19,7 +23,11 @@ import {
   OrganizationModel,
   type OrganizationRecord,
 } from '../models/organization.model';
+import { OrganizationUserPermissionModel } from '@/modules/permissions/infrastructure/persistence/models/organization-user-permission.model';
 import { RoleModel } from '@/modules/permissions/infrastructure/persistence/models/role.model';
+import { OrganizationReportSettingsModel } from '@/modules/reports/infrastructure/persistence/models/organization-report-settings.model';
+import { UserModel } from '@/modules/users/infrastructure/persistence/models/user.model';
+import { assertNotLastOwner } from '../organization-owner.util';
 
 @Injectable()
 export class OrganizationRepository implements IOrganizationRepository {
@@ -38,9 +46,22 @@ export class OrganizationRepository implements IOrganizationRepository {
             id: generateSnowflakeId(),
             name: data.name,
           })
-          .returning(({ id, name, createdAt, updatedAt }) => [
+          .returning(({
             id,
             name,
+            slug,
+            requireMfa,
+            deletedAt,
+            purgeScheduledAt,
+            createdAt,
+            updatedAt,
+          }) => [
+            id,
+            name,
+            slug,
+            requireMfa,
+            deletedAt,
+            purgeScheduledAt,
             createdAt,
             updatedAt,
           ]),
@@ -104,6 +125,18 @@ export class OrganizationRepository implements IOrganizationRepository {
     });
   }
 
+  async findById(organizationId: string): Promise<Organization | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .query()
+        .where(({ id }, op) => op.eq(id, organizationId))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapOrganizationRow(row) : null;
+  }
+
   async listForUser(userId: string): Promise<OrganizationAccess[]> {
     const memberships = await this.objxSession.execute(
       OrganizationMembershipModel
@@ -118,10 +151,13 @@ export class OrganizationRepository implements IOrganizationRepository {
     const organizations = await this.objxSession.execute(
       OrganizationModel
         .query()
-        .where(({ id }, op) =>
-          op.in(
-            id,
-            Array.from(new Set(memberships.map((membership) => membership.organizationId))),
+        .where(({ id, deletedAt }, op) =>
+          op.and(
+            op.in(
+              id,
+              Array.from(new Set(memberships.map((membership) => membership.organizationId))),
+            ),
+            op.isNull(deletedAt),
           ),
         )
         .orderBy(({ createdAt }) => createdAt, 'desc'),
@@ -167,13 +203,412 @@ export class OrganizationRepository implements IOrganizationRepository {
     const organizations = await this.objxSession.execute(
       OrganizationModel
         .query()
-        .where(({ id }, op) => op.eq(id, organizationId))
+        .where(({ id, deletedAt }, op) =>
+          op.and(
+            op.eq(id, organizationId),
+            op.isNull(deletedAt),
+          ),
+        )
         .limit(1),
     );
     const organization = organizations[0];
 
     return organization ? mapAccessRow(organization, membership) : null;
   }
+
+  async countOwners(organizationId: string): Promise<number> {
+    const rows = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ organizationId: membershipOrganizationId, role }, op) =>
+          op.and(
+            op.eq(membershipOrganizationId, organizationId),
+            op.eq(role, 'owner'),
+          ),
+        )
+        .selectExpr('total', ({ id }) => expr.count<number>(id)),
+    );
+
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  async listMembers(
+    filters: ListOrganizationMembersFilters,
+  ): Promise<ListOrganizationMembersResult> {
+    const memberships = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ organizationId }, op) => op.eq(organizationId, filters.organizationId)),
+    );
+
+    if (memberships.length === 0) {
+      return { data: [], total: 0 };
+    }
+
+    const users = await this.objxSession.execute(
+      UserModel
+        .query()
+        .where(({ id, deletedAt }, op) =>
+          op.and(
+            op.in(id, memberships.map((membership) => membership.userId)),
+            op.isNull(deletedAt),
+          ),
+        )
+        .orderBy(({ name }) => name, 'asc'),
+    );
+    const membershipByUserId = new Map<string, OrganizationMembershipRecord>(
+      memberships.map((membership) => [membership.userId, membership]),
+    );
+    const search = filters.search?.trim().toLowerCase();
+    const members = users
+      .filter((user) =>
+        !search ||
+        user.name.toLowerCase().includes(search) ||
+        user.email.toLowerCase().includes(search),
+      )
+      .map((user) => {
+        const membership = membershipByUserId.get(user.id)!;
+
+        return {
+          userId: user.id,
+          name: user.name,
+          email: user.email,
+          role: membership.role as OrganizationMembershipRole,
+          joinedAt: membership.createdAt,
+        };
+      });
+    const offset = (filters.pageCount - 1) * filters.recordsPerPage;
+
+    return {
+      data: members.slice(offset, offset + filters.recordsPerPage),
+      total: members.length,
+    };
+  }
+
+  removeMember(organizationId: string, userId: string): Promise<boolean> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const memberships = await trxSession.execute(
+        OrganizationMembershipModel
+          .query()
+          .where(({ userId: membershipUserId, organizationId: membershipOrganizationId }, op) =>
+            op.and(
+              op.eq(membershipUserId, userId),
+              op.eq(membershipOrganizationId, organizationId),
+            ),
+          )
+          .limit(1),
+      );
+      const membership = memberships[0];
+
+      if (!membership) {
+        return false;
+      }
+
+      if (membership.role === 'owner') {
+        await assertNotLastOwner(trxSession, organizationId);
+      }
+
+      await trxSession.execute(
+        OrganizationUserPermissionModel
+          .delete()
+          .where(({ organizationId: permissionOrganizationId, userId: permissionUserId }, op) =>
+            op.and(
+              op.eq(permissionOrganizationId, organizationId),
+              op.eq(permissionUserId, userId),
+            ),
+          ),
+      );
+      // Membership roles cascade from the membership row.
+      await trxSession.execute(
+        OrganizationMembershipModel
+          .delete()
+          .where(({ id }, op) => op.eq(id, membership.id)),
+      );
+
+      return true;
+    });
+  }
+
+  removeUserFromAllOrganizations(userId: string): Promise<number> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const ownedMemberships = await trxSession.execute(
+        OrganizationMembershipModel
+          .query()
+          .where(({ userId: membershipUserId, role }, op) =>
+            op.and(
+              op.eq(membershipUserId, userId),
+              op.eq(role, 'owner'),
+            ),
+          )
+          // A stable order keeps two erasures from locking the same organizations in opposite orders.
+          .orderBy(({ organizationId }) => organizationId, 'asc'),
+      );
+
+      for (const membership of ownedMemberships) {
+        await assertNotLastOwner(trxSession, membership.organizationId);
+      }
+
+      await trxSession.execute(
+        OrganizationUserPermissionModel
+          .delete()
+          .where(({ userId: permissionUserId }, op) => op.eq(permissionUserId, userId)),
+      );
+
+      // Membership roles cascade from the membership rows.
+      return trxSession.execute(
+        OrganizationMembershipModel
+          .delete()
+          .where(({ userId: membershipUserId }, op) => op.eq(membershipUserId, userId)),
+      );
+    });
+  }
+
+  async updateMfaRequirement(
+    organizationId: string,
+    required: boolean,
+  ): Promise<Organization | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .update({
+          requireMfa: required,
+          updatedAt: new Date(),
+        })
+        .where(({ id }, op) => op.eq(id, organizationId))
+        .returning(({
+          id,
+          name,
+          slug,
+          requireMfa,
+          deletedAt,
+          purgeScheduledAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          name,
+          slug,
+          requireMfa,
+          deletedAt,
+          purgeScheduledAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    return row ? mapOrganizationRow(row) : null;
+  }
+
+  async findBySlug(slug: string): Promise<Organization | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .query()
+        .where(({ slug: organizationSlug }, op) => op.eq(organizationSlug, slug))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapOrganizationRow(row) : null;
+  }
+
+  async update(
+    organizationId: string,
+    data: UpdateOrganizationData,
+  ): Promise<Organization | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .update({
+          ...(data.name !== undefined ? { name: data.name } : {}),
+          ...(data.slug !== undefined ? { slug: data.slug } : {}),
+          updatedAt: new Date(),
+        })
+        .where(({ id, deletedAt }, op) =>
+          op.and(
+            op.eq(id, organizationId),
+            op.isNull(deletedAt),
+          ),
+        )
+        .returning(({
+          id,
+          name,
+          slug,
+          requireMfa,
+          deletedAt,
+          purgeScheduledAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          name,
+          slug,
+          requireMfa,
+          deletedAt,
+          purgeScheduledAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    return row ? mapOrganizationRow(row) : null;
+  }
+
+  async listMemberUserIds(organizationId: string): Promise<string[]> {
+    const memberships = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ organizationId: membershipOrganizationId }, op) =>
+          op.eq(membershipOrganizationId, organizationId),
+        ),
+    );
+
+    return memberships.map((membership) => membership.userId);
+  }
+
+  async softDelete(
+    organizationId: string,
+    purgeScheduledAt: Date,
+    now: Date,
+  ): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .update({
+          deletedAt: now,
+          purgeScheduledAt,
+          updatedAt: now,
+        })
+        .where(({ id, deletedAt }, op) =>
+          op.and(
+            op.eq(id, organizationId),
+            op.isNull(deletedAt),
+          ),
+        )
+        .returning(({ id }) => [id]),
+    );
+
+    return rows.length > 0;
+  }
+
+  async listDeletedForOwner(userId: string, now: Date): Promise<Organization[]> {
+    const memberships = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ userId: membershipUserId, role }, op) =>
+          op.and(
+            op.eq(membershipUserId, userId),
+            op.eq(role, 'owner'),
+          ),
+        ),
+    );
+
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .query()
+        .where(({ id, purgeScheduledAt }, op) =>
+          op.and(
+            op.in(id, memberships.map((membership) => membership.organizationId)),
+            op.gt(purgeScheduledAt, now),
+          ),
+        )
+        .orderBy(({ deletedAt }) => deletedAt, 'desc'),
+    );
+
+    return rows.map(mapOrganizationRow);
+  }
+
+  async restore(organizationId: string, now: Date): Promise<Organization | null> {
+    const rows = await this.objxSession.execute(
+      OrganizationModel
+        .update({
+          deletedAt: null,
+          purgeScheduledAt: null,
+          updatedAt: now,
+        })
+        .where(({ id, purgeScheduledAt }, op) =>
+          op.and(
+            op.eq(id, organizationId),
+            op.gt(purgeScheduledAt, now),
+          ),
+        )
+        .returning(({
+          id,
+          name,
+          slug,
+          requireMfa,
+          deletedAt,
+          purgeScheduledAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          name,
+          slug,
+          requireMfa,
+          deletedAt,
+          purgeScheduledAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    return row ? mapOrganizationRow(row) : null;
+  }
+
+  purge(organizationId: string, now: Date): Promise<boolean> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const rows = await trxSession.execute(
+        OrganizationModel
+          .query()
+          .where(({ id, purgeScheduledAt }, op) =>
+            op.and(
+              op.eq(id, organizationId),
+              op.lte(purgeScheduledAt, now),
+            ),
+          )
+          .limit(1),
+      );
+
+      if (!rows[0]) {
+        return false;
+      }
+
+      await trxSession.execute(
+        OrganizationReportSettingsModel
+          .delete()
+          .where(({ organizationId: settingsOrganizationId }, op) =>
+            op.eq(settingsOrganizationId, organizationId),
+          ),
+      );
+      await trxSession.execute(
+        OrganizationUserPermissionModel
+          .delete()
+          .where(({ organizationId: permissionOrganizationId }, op) =>
+            op.eq(permissionOrganizationId, organizationId),
+          ),
+      );
+      // Membership roles cascade from the membership rows; invitations,
+      // ownership transfers and API keys cascade from the organization row.
+      await trxSession.execute(
+        OrganizationMembershipModel
+          .delete()
+          .where(({ organizationId: membershipOrganizationId }, op) =>
+            op.eq(membershipOrganizationId, organizationId),
+          ),
+      );
+      await trxSession.execute(
+        OrganizationModel
+          .delete()
+          .where(({ id }, op) => op.eq(id, organizationId)),
+      );
+
+      return true;
+    });
+  }
 }
 
 function generateMembershipRoleId(membershipId: string): string {
@@ -194,6 +629,10 @@ function mapOrganizationRow(row: OrganizationRecord): Organization {
   return new Organization({
     id: row.id,
     name: row.name,
+    slug: row.slug ?? null,
+    requireMfa: row.requireMfa,
+    deletedAt: row.deletedAt ?? null,
+    purgeScheduledAt: row.purgeScheduledAt ?? null,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   });
@@ -0,0 +1,46 @@
+import { OnQueueFailed, Process, Processor } from '@nestjs/bull';
+import { Inject, Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  ORGANIZATION_JOB_PURGE,
+  ORGANIZATION_QUEUE_NAME,
+} from '../../application/constants/organization.constants';
+import type {
+  OrganizationJobData,
+  OrganizationPurgeJobData,
+} from '../../application/types/organization-job.type';
+
+@Processor(ORGANIZATION_QUEUE_NAME)
+export class OrganizationProcessor {
+  private readonly logger = new Logger(OrganizationProcessor.name);
+
+  constructor(
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+  ) { }
+
+  /**
+   * Runs when the restore window ends. The repository re-checks the schedule,
+   * so a job left behind by a restored organization does nothing.
+   */
+  @Process(ORGANIZATION_JOB_PURGE)
+  async handlePurge(job: Job<OrganizationPurgeJobData>): Promise<void> {
+    const { organizationId } = job.data;
+    const purged = await this.organizationRepository.purge(organizationId, new Date());
+
+    if (purged) {
+      this.logger.log(`Organization ${organizationId} purged`);
+    }
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job<OrganizationJobData>, error: Error): void {
+    const jobId = job?.id ?? 'unknown';
+
+    this.logger.error(`Organization job ${jobId} failed: ${error.message}`, error.stack);
+  }
+}
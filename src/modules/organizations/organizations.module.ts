@@ -1,19 +1,166 @@
+import { BullModule } from '@nestjs/bull';
 import { Module } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import { AccountLockoutService } from '@/modules/auth/application/services/account-lockout.service';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import { MfaService } from '@/modules/auth/application/services/mfa.service';
+import { ReauthenticationService } from '@/modules/auth/application/services/reauthentication.service';
+import { AuthPersistenceModule } from '@/modules/auth/infrastructure/persistence/auth-persistence.module';
+import { EmailsModule } from '@/modules/emails/emails.module';
+import { PermissionsModule } from '@/modules/permissions/permissions.module';
+import { PermissionsPersistenceModule } from '@/modules/permissions/infrastructure/persistence/permissions-persistence.module';
+import { PlansModule } from '@/modules/plans/plans.module';
+import { UsersPersistenceModule } from '@/modules/users/infrastructure/persistence/users-persistence.module';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import { ORGANIZATION_QUEUE_NAME } from './application/constants/organization.constants';
+import { OrganizationDomainJoinService } from './application/services/organization-domain-join.service';
+import { OrganizationInvitationService } from './application/services/organization-invitation.service';
+import { OrganizationQueueService } from './application/services/organization-queue.service';
+import { AcceptOrganizationInvitationUseCase } from './application/use-cases/accept-organization-invitation.use-case';
+import { ApproveOrganizationJoinRequestUseCase } from './application/use-cases/approve-organization-join-request.use-case';
+import { AcceptOrganizationOwnershipTransferUseCase } from './application/use-cases/accept-organization-ownership-transfer.use-case';
+import { AddOrganizationTeamMemberUseCase } from './application/use-cases/add-organization-team-member.use-case';
+import { CancelOrganizationOwnershipTransferUseCase } from './application/use-cases/cancel-organization-ownership-transfer.use-case';
+import { CreateOrganizationInvitationUseCase } from './application/use-cases/create-organization-invitation.use-case';
+import { CreateOrganizationDomainUseCase } from './application/use-cases/create-organization-domain.use-case';
+import { CreateOrganizationOwnershipTransferUseCase } from './application/use-cases/create-organization-ownership-transfer.use-case';
+import { CreateOrganizationTeamUseCase } from './application/use-cases/create-organization-team.use-case';
 import { CreateOrganizationUseCase } from './application/use-cases/create-organization.use-case';
+import { DeclineOrganizationInvitationUseCase } from './application/use-cases/decline-organization-invitation.use-case';
+import { DeclineOrganizationOwnershipTransferUseCase } from './application/use-cases/decline-organization-ownership-transfer.use-case';
+import { DeleteOrganizationDomainUseCase } from './application/use-cases/delete-organization-domain.use-case';
+import { DeleteOrganizationTeamUseCase } from './application/use-cases/delete-organization-team.use-case';
+import { DeleteOrganizationUseCase } from './application/use-cases/delete-organization.use-case';
 import { GetCurrentOrganizationUseCase } from './application/use-cases/get-current-organization.use-case';
+import { GetOrganizationInvitationUseCase } from './application/use-cases/get-organization-invitation.use-case';
+import { GetOrganizationTeamUseCase } from './application/use-cases/get-organization-team.use-case';
+import { JoinOrganizationUseCase } from './application/use-cases/join-organization.use-case';
+import { LeaveOrganizationUseCase } from './application/use-cases/leave-organization.use-case';
+import { ListDeletedOrganizationsUseCase } from './application/use-cases/list-deleted-organizations.use-case';
+import { ListJoinableOrganizationsUseCase } from './application/use-cases/list-joinable-organizations.use-case';
+import { ListOrganizationInvitationsUseCase } from './application/use-cases/list-organization-invitations.use-case';
+import { ListOrganizationDomainsUseCase } from './application/use-cases/list-organization-domains.use-case';
+import { ListOrganizationMembersUseCase } from './application/use-cases/list-organization-members.use-case';
+import { ListOrganizationJoinRequestsUseCase } from './application/use-cases/list-organization-join-requests.use-case';
+import { ListOrganizationOwnershipTransfersUseCase } from './application/use-cases/list-organization-ownership-transfers.use-case';
+import { ListOrganizationTeamsUseCase } from './application/use-cases/list-organization-teams.use-case';
 import { ListOrganizationsUseCase } from './application/use-cases/list-organizations.use-case';
+import { RejectOrganizationJoinRequestUseCase } from './application/use-cases/reject-organization-join-request.use-case';
+import { RemoveOrganizationMemberUseCase } from './application/use-cases/remove-organization-member.use-case';
+import { RemoveOrganizationTeamMemberUseCase } from './application/use-cases/remove-organization-team-member.use-case';
+import { ResendOrganizationInvitationUseCase } from './application/use-cases/resend-organization-invitation.use-case';
+import { RestoreOrganizationUseCase } from './application/use-cases/restore-organization.use-case';
+import { RevokeOrganizationInvitationUseCase } from './application/use-cases/revoke-organization-invitation.use-case';
 import { SwitchCurrentOrganizationUseCase } from './application/use-cases/switch-current-organization.use-case';
+import { UpdateOrganizationDomainUseCase } from './application/use-cases/update-organization-domain.use-case';
+import { UpdateOrganizationMfaPolicyUseCase } from './application/use-cases/update-organization-mfa-policy.use-case';
+import { UpdateOrganizationTeamUseCase } from './application/use-cases/update-organization-team.use-case';
+import { UpdateOrganizationUseCase } from './application/use-cases/update-organization.use-case';
+import { VerifyOrganizationDomainUseCase } from './application/use-cases/verify-organization-domain.use-case';
+import { DNS_TXT_RESOLVER } from './domain/services/dns-txt-resolver.interface';
+import { StaticDnsTxtResolver } from './infrastructure/dns/static-dns-txt.resolver';
+import { SystemDnsTxtResolver } from './infrastructure/dns/system-dns-txt.resolver';
 import { OrganizationsPersistenceModule } from './infrastructure/persistence/organizations-persistence.module';
+import { OrganizationProcessor } from './infrastructure/processors/organization.processor';
+import { InvitationsController } from './presentation/http/controllers/invitations.controller';
+import { JoinableOrganizationsController } from './presentation/http/controllers/joinable-organizations.controller';
+import { OrganizationDomainsController } from './presentation/http/controllers/organization-domains.controller';
+import { OrganizationInvitationsController } from './presentation/http/controllers/organization-invitations.controller';
+import { OrganizationJoinRequestsController } from './presentation/http/controllers/organization-join-requests.controller';
+import { OrganizationMembersController } from './presentation/http/controllers/organization-members.controller';
+import { OrganizationTeamsController } from './presentation/http/controllers/organization-teams.controller';
 import { OrganizationsController } from './presentation/http/controllers/organizations.controller';
+import { OwnershipTransfersController } from './presentation/http/controllers/ownership-transfers.controller';
 
 @Module({
-  imports: [OrganizationsPersistenceModule],
+  imports: [
+    BullModule.registerQueue({
+      name: ORGANIZATION_QUEUE_NAME,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: true,
+      },
+    }),
+    OrganizationsPersistenceModule,
+    PermissionsModule,
+    PermissionsPersistenceModule,
+    PlansModule,
+    UsersPersistenceModule,
+    AuthPersistenceModule,
+    EmailsModule,
+  ],
   providers: [
     CreateOrganizationUseCase,
     ListOrganizationsUseCase,
     GetCurrentOrganizationUseCase,
     SwitchCurrentOrganizationUseCase,
+    UpdateOrganizationMfaPolicyUseCase,
+    CreateOrganizationInvitationUseCase,
+    ListOrganizationInvitationsUseCase,
+    ResendOrganizationInvitationUseCase,
+    RevokeOrganizationInvitationUseCase,
+    GetOrganizationInvitationUseCase,
+    AcceptOrganizationInvitationUseCase,
+    DeclineOrganizationInvitationUseCase,
+    ListOrganizationMembersUseCase,
+    RemoveOrganizationMemberUseCase,
+    LeaveOrganizationUseCase,
+    UpdateOrganizationUseCase,
+    DeleteOrganizationUseCase,
+    ListDeletedOrganizationsUseCase,
+    RestoreOrganizationUseCase,
+    CreateOrganizationOwnershipTransferUseCase,
+    CancelOrganizationOwnershipTransferUseCase,
+    ListOrganizationOwnershipTransfersUseCase,
+    AcceptOrganizationOwnershipTransferUseCase,
+    DeclineOrganizationOwnershipTransferUseCase,
+    ListOrganizationDomainsUseCase,
+    CreateOrganizationDomainUseCase,
+    VerifyOrganizationDomainUseCase,
+    UpdateOrganizationDomainUseCase,
+    DeleteOrganizationDomainUseCase,
+    ListOrganizationJoinRequestsUseCase,
+    ApproveOrganizationJoinRequestUseCase,
+    RejectOrganizationJoinRequestUseCase,
+    ListJoinableOrganizationsUseCase,
+    JoinOrganizationUseCase,
+    ListOrganizationTeamsUseCase,
+    CreateOrganizationTeamUseCase,
+    GetOrganizationTeamUseCase,
+    UpdateOrganizationTeamUseCase,
+    DeleteOrganizationTeamUseCase,
+    AddOrganizationTeamMemberUseCase,
+    RemoveOrganizationTeamMemberUseCase,
+    OrganizationInvitationService,
+    OrganizationDomainJoinService,
+    OrganizationQueueService,
+    OrganizationProcessor,
+    CurrentOrganizationGuard,
+    EmailVerificationService,
+    AccountLockoutService,
+    MfaService,
+    ReauthenticationService,
+    {
+      provide: DNS_TXT_RESOLVER,
+      useClass: envConfig.organization.domainVerification.resolver === 'static'
+        ? StaticDnsTxtResolver
+        : SystemDnsTxtResolver,
+    },
+  ],
+  controllers: [
+    OrganizationsController,
+    OrganizationInvitationsController,
+    OrganizationMembersController,
+    InvitationsController,
+    OwnershipTransfersController,
+    OrganizationDomainsController,
+    OrganizationJoinRequestsController,
+    JoinableOrganizationsController,
+    OrganizationTeamsController,
   ],
-  controllers: [OrganizationsController],
 })
 export class OrganizationsModule {}
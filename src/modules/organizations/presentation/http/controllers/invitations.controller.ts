@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import { AcceptOrganizationInvitationUseCase } from '@/modules/organizations/application/use-cases/accept-organization-invitation.use-case';
+import { DeclineOrganizationInvitationUseCase } from '@/modules/organizations/application/use-cases/decline-organization-invitation.use-case';
+import { GetOrganizationInvitationUseCase } from '@/modules/organizations/application/use-cases/get-organization-invitation.use-case';
+import {
+  OrganizationInvitationPreviewResponseDto,
+  OrganizationInvitationTokenDto,
+  OrganizationResponseDto,
+  toOrganizationInvitationPreviewResponseDto,
+  toOrganizationResponseDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import { getSessionFromRequest } from '@/shared/context/execution-context-session.util';
+import {
+  ApiDoc,
+  BlockDuringImpersonation,
+  CurrentUser,
+  Public,
+  RateLimit,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const INVITATION_TOKEN_RATE_LIMIT = {
+  name: 'organization-invitation-token',
+  windowSeconds: 60,
+  limits: { ip: 20 },
+};
+
+/**
+ * Endpoints used by the invitee, identified by the token from the email
+ * instead of the current organization.
+ */
+@ApiTags('Organizations')
+@Controller('organizations/invitations')
+export class InvitationsController {
+  constructor(
+    private readonly getOrganizationInvitationUseCase: GetOrganizationInvitationUseCase,
+    private readonly acceptOrganizationInvitationUseCase: AcceptOrganizationInvitationUseCase,
+    private readonly declineOrganizationInvitationUseCase: DeclineOrganizationInvitationUseCase,
+  ) { }
+
+  @Public()
+  @Get()
+  @RateLimit(INVITATION_TOKEN_RATE_LIMIT)
+  @ApiDoc({
+    summary: 'Preview organization invitation',
+    description: 'Resolves the token from the invitation email. When `accountExists` is false the invitee should register through `POST /auth/register` with `invitationToken`, which creates the account and joins the organization; otherwise they sign in and call `POST /organizations/invitations/accept`.',
+    response: OrganizationInvitationPreviewResponseDto,
+    commonResponses: ['badRequest', 'tooManyRequests'],
+    query: [
+      {
+        name: 'token',
+        description: 'Invitation token',
+      },
+    ],
+  })
+  async preview(@Query() dto: OrganizationInvitationTokenDto) {
+    const result = await this.getOrganizationInvitationUseCase.execute(dto.token);
+
+    return ResponseHelper.success(
+      toOrganizationInvitationPreviewResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Post('accept')
+  @HttpCode(HttpStatus.OK)
+  @BlockDuringImpersonation()
+  @RateLimit(INVITATION_TOKEN_RATE_LIMIT)
+  @ApiDoc({
+    summary: 'Accept organization invitation',
+    description: 'Joins the invited organization with the invited roles. The signed-in user email must match the invitation.',
+    body: OrganizationInvitationTokenDto,
+    response: OrganizationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'tooManyRequests'],
+  })
+  async accept(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Body() dto: OrganizationInvitationTokenDto,
+  ) {
+    const result = await this.acceptOrganizationInvitationUseCase.execute(userId, dto.token);
+
+    return ResponseHelper.success(
+      toOrganizationResponseDto(result.data, getSessionFromRequest(request)?.currentOrganizationId),
+      result.message,
+    );
+  }
+
+  @Public()
+  @Post('decline')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(INVITATION_TOKEN_RATE_LIMIT)
+  @ApiDoc({
+    summary: 'Decline organization invitation',
+    description: 'Does not require an account: holding the token from the email is enough.',
+    body: OrganizationInvitationTokenDto,
+    commonResponses: ['badRequest', 'tooManyRequests'],
+  })
+  async decline(@Body() dto: OrganizationInvitationTokenDto) {
+    const result = await this.declineOrganizationInvitationUseCase.execute(dto.token);
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { JoinOrganizationUseCase } from '@/modules/organizations/application/use-cases/join-organization.use-case';
+import { ListJoinableOrganizationsUseCase } from '@/modules/organizations/application/use-cases/list-joinable-organizations.use-case';
+import {
+  JoinableOrganizationIdParamDto,
+  JoinableOrganizationListResponseDto,
+  JoinOrganizationResponseDto,
+  toJoinableOrganizationResponseDto,
+  toJoinOrganizationResponseDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import {
+  ApiDoc,
+  BlockDuringImpersonation,
+  CurrentUser,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+/**
+ * Organizations the current user can join because they verified the domain
+ * of the user's email address.
+ */
+@ApiTags('Organizations')
+@Controller('organizations/joinable')
+export class JoinableOrganizationsController {
+  constructor(
+    private readonly listJoinableOrganizationsUseCase: ListJoinableOrganizationsUseCase,
+    private readonly joinOrganizationUseCase: JoinOrganizationUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List joinable organizations',
+    description: 'Empty until the email address of the current user is verified, and for organizations the user already belongs to.',
+    response: JoinableOrganizationListResponseDto,
+    commonResponses: ['unauthorized'],
+  })
+  async findAll(@CurrentUser('id') userId: string) {
+    const result = await this.listJoinableOrganizationsUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      result.data.map(toJoinableOrganizationResponseDto),
+      result.message,
+    );
+  }
+
+  @Post(':organizationId/join')
+  @HttpCode(HttpStatus.OK)
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Join organization by email domain',
+    description: 'With the `auto_join` policy the user becomes a member right away (`status: joined`); with `request` a join request is queued for the owners (`status: pending`).',
+    response: JoinOrganizationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [
+      {
+        name: 'organizationId',
+        description: 'Organization ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async join(
+    @CurrentUser('id') userId: string,
+    @Param() params: JoinableOrganizationIdParamDto,
+  ) {
+    const result = await this.joinOrganizationUseCase.execute(userId, params.organizationId);
+
+    return ResponseHelper.success(
+      toJoinOrganizationResponseDto(result.data),
+      result.message,
+    );
+  }
+}
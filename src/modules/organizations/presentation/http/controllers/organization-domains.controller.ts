@@ -0,0 +1,185 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { CreateOrganizationDomainUseCase } from '@/modules/organizations/application/use-cases/create-organization-domain.use-case';
+import { DeleteOrganizationDomainUseCase } from '@/modules/organizations/application/use-cases/delete-organization-domain.use-case';
+import { ListOrganizationDomainsUseCase } from '@/modules/organizations/application/use-cases/list-organization-domains.use-case';
+import { UpdateOrganizationDomainUseCase } from '@/modules/organizations/application/use-cases/update-organization-domain.use-case';
+import { VerifyOrganizationDomainUseCase } from '@/modules/organizations/application/use-cases/verify-organization-domain.use-case';
+import {
+  CreateOrganizationDomainDto,
+  OrganizationDomainIdParamDto,
+  OrganizationDomainListResponseDto,
+  OrganizationDomainResponseDto,
+  toOrganizationDomainResponseDto,
+  UpdateOrganizationDomainDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentOrganization,
+  CurrentUser,
+  RequireEntitlement,
+  RequireInteractiveSession,
+} from '@/shared/http/decorators';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const DOMAIN_ID_PARAM = {
+  name: 'id',
+  description: 'Organization domain ID',
+  example: '1925012345678901248',
+};
+
+@ApiTags('Organizations')
+@Controller('organizations/current/domains')
+@RequireEntitlement('organization_domains')
+export class OrganizationDomainsController {
+  constructor(
+    private readonly listOrganizationDomainsUseCase: ListOrganizationDomainsUseCase,
+    private readonly createOrganizationDomainUseCase: CreateOrganizationDomainUseCase,
+    private readonly verifyOrganizationDomainUseCase: VerifyOrganizationDomainUseCase,
+    private readonly updateOrganizationDomainUseCase: UpdateOrganizationDomainUseCase,
+    private readonly deleteOrganizationDomainUseCase: DeleteOrganizationDomainUseCase,
+  ) { }
+
+  @Get()
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'List organization domains',
+    description: 'Owner only. Includes the TXT record each domain must publish to be verified.',
+    response: OrganizationDomainListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+  })
+  async findAll(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+  ) {
+    const result = await this.listOrganizationDomainsUseCase.execute({ userId, organizationId });
+
+    return ResponseHelper.success(
+      result.data.map(toOrganizationDomainResponseDto),
+      result.message,
+    );
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @ApiDoc({
+    summary: 'Add organization domain',
+    description: 'Owner only. Claims an email domain for the current organization. Publish the returned `verificationRecord` in the DNS of the domain and call `POST /organizations/current/domains/{id}/verify`. Once verified, users with a verified email on the domain can join: right away with `auto_join`, or after an owner approves their request with `request`. They join with `defaultRoleCode`, which cannot be `org_owner`.',
+    body: CreateOrganizationDomainDto,
+    response: OrganizationDomainResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+  })
+  async create(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: CreateOrganizationDomainDto,
+  ) {
+    const result = await this.createOrganizationDomainUseCase.execute({
+      userId,
+      organizationId,
+      domain: dto.domain,
+      joinPolicy: dto.joinPolicy,
+      defaultRoleCode: dto.defaultRoleCode,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationDomainResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Post(':id/verify')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'Verify organization domain',
+    description: 'Owner only. Looks up the TXT record of the domain. A domain can be verified by a single organization.',
+    response: OrganizationDomainResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [DOMAIN_ID_PARAM],
+  })
+  async verify(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationDomainIdParamDto,
+  ) {
+    const result = await this.verifyOrganizationDomainUseCase.execute({
+      userId,
+      organizationId,
+      domainId: params.id,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationDomainResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Patch(':id')
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @ApiDoc({
+    summary: 'Update organization domain',
+    description: 'Owner only. Changes how users join through the domain. Pending join requests keep the role they were created with.',
+    body: UpdateOrganizationDomainDto,
+    response: OrganizationDomainResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [DOMAIN_ID_PARAM],
+  })
+  async update(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationDomainIdParamDto,
+    @Body() dto: UpdateOrganizationDomainDto,
+  ) {
+    const result = await this.updateOrganizationDomainUseCase.execute({
+      userId,
+      organizationId,
+      domainId: params.id,
+      joinPolicy: dto.joinPolicy,
+      defaultRoleCode: dto.defaultRoleCode,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationDomainResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @ApiDoc({
+    summary: 'Remove organization domain',
+    description: 'Owner only. Existing members and pending join requests are kept.',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [DOMAIN_ID_PARAM],
+  })
+  async remove(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationDomainIdParamDto,
+  ) {
+    const result = await this.deleteOrganizationDomainUseCase.execute({
+      userId,
+      organizationId,
+      domainId: params.id,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { CreateOrganizationInvitationUseCase } from '@/modules/organizations/application/use-cases/create-organization-invitation.use-case';
+import { ListOrganizationInvitationsUseCase } from '@/modules/organizations/application/use-cases/list-organization-invitations.use-case';
+import { ResendOrganizationInvitationUseCase } from '@/modules/organizations/application/use-cases/resend-organization-invitation.use-case';
+import { RevokeOrganizationInvitationUseCase } from '@/modules/organizations/application/use-cases/revoke-organization-invitation.use-case';
+import {
+  CreateOrganizationInvitationDto,
+  OrganizationInvitationIdParamDto,
+  OrganizationInvitationListResponseDto,
+  OrganizationInvitationResponseDto,
+  toOrganizationInvitationResponseDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentOrganization,
+  CurrentUser,
+  RequireOrganizationPermissions,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const INVITATION_ID_PARAM = {
+  name: 'id',
+  description: 'Organization invitation ID',
+  example: '1925012345678901248',
+};
+
+@ApiTags('Organizations')
+@Controller('organizations/current/invitations')
+export class OrganizationInvitationsController {
+  constructor(
+    private readonly createOrganizationInvitationUseCase: CreateOrganizationInvitationUseCase,
+    private readonly listOrganizationInvitationsUseCase: ListOrganizationInvitationsUseCase,
+    private readonly resendOrganizationInvitationUseCase: ResendOrganizationInvitationUseCase,
+    private readonly revokeOrganizationInvitationUseCase: RevokeOrganizationInvitationUseCase,
+  ) { }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Invite to organization',
+    description: 'Emails an invitation link to join the current organization with the given roles. Only owners can invite with `org_owner`. Invitations expire after 7 days.',
+    body: CreateOrganizationInvitationDto,
+    response: OrganizationInvitationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async create(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: CreateOrganizationInvitationDto,
+  ) {
+    const result = await this.createOrganizationInvitationUseCase.execute({
+      organizationId,
+      inviterId: userId,
+      email: dto.email,
+      roleCodes: dto.roleCodes,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationInvitationResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Get()
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'List pending organization invitations',
+    description: 'Includes expired invitations that were never answered so they can be resent or revoked.',
+    response: OrganizationInvitationListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async findAll(@CurrentOrganization('id') organizationId: string) {
+    const result = await this.listOrganizationInvitationsUseCase.execute(organizationId);
+    const now = new Date();
+
+    return ResponseHelper.success(
+      result.data.map((invitation) => toOrganizationInvitationResponseDto(invitation, now)),
+      result.message,
+    );
+  }
+
+  @Post(':id/resend')
+  @HttpCode(HttpStatus.OK)
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Resend organization invitation',
+    description: 'Emails a new link and restarts the expiry. The previous link stops working.',
+    response: OrganizationInvitationResponseDto,
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [INVITATION_ID_PARAM],
+  })
+  async resend(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationInvitationIdParamDto,
+  ) {
+    const result = await this.resendOrganizationInvitationUseCase.execute({
+      organizationId,
+      invitationId: params.id,
+      senderId: userId,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationInvitationResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Delete(':id')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Revoke organization invitation',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [INVITATION_ID_PARAM],
+  })
+  async revoke(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationInvitationIdParamDto,
+  ) {
+    const result = await this.revokeOrganizationInvitationUseCase.execute(
+      organizationId,
+      params.id,
+    );
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
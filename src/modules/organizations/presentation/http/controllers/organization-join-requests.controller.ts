@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { ApproveOrganizationJoinRequestUseCase } from '@/modules/organizations/application/use-cases/approve-organization-join-request.use-case';
+import { ListOrganizationJoinRequestsUseCase } from '@/modules/organizations/application/use-cases/list-organization-join-requests.use-case';
+import { RejectOrganizationJoinRequestUseCase } from '@/modules/organizations/application/use-cases/reject-organization-join-request.use-case';
+import {
+  OrganizationJoinRequestIdParamDto,
+  OrganizationJoinRequestListResponseDto,
+  toOrganizationJoinRequestResponseDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentOrganization,
+  CurrentUser,
+} from '@/shared/http/decorators';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const JOIN_REQUEST_ID_PARAM = {
+  name: 'id',
+  description: 'Join request ID',
+  example: '1925012345678901248',
+};
+
+/**
+ * Approval queue for users who asked to join through a verified domain with
+ * the `request` policy.
+ */
+@ApiTags('Organizations')
+@Controller('organizations/current/join-requests')
+export class OrganizationJoinRequestsController {
+  constructor(
+    private readonly listOrganizationJoinRequestsUseCase: ListOrganizationJoinRequestsUseCase,
+    private readonly approveOrganizationJoinRequestUseCase: ApproveOrganizationJoinRequestUseCase,
+    private readonly rejectOrganizationJoinRequestUseCase: RejectOrganizationJoinRequestUseCase,
+  ) { }
+
+  @Get()
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'List pending join requests',
+    description: 'Owner only. Oldest first.',
+    response: OrganizationJoinRequestListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+  })
+  async findAll(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+  ) {
+    const result = await this.listOrganizationJoinRequestsUseCase.execute({
+      userId,
+      organizationId,
+    });
+
+    return ResponseHelper.success(
+      result.data.map(toOrganizationJoinRequestResponseDto),
+      result.message,
+    );
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'Approve join request',
+    description: 'Owner only. Adds the user to the organization with the role of the request.',
+    commonResponses: ['unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [JOIN_REQUEST_ID_PARAM],
+  })
+  async approve(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationJoinRequestIdParamDto,
+  ) {
+    const result = await this.approveOrganizationJoinRequestUseCase.execute({
+      userId,
+      organizationId,
+      joinRequestId: params.id,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'Reject join request',
+    description: 'Owner only. The user can send a new request later.',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [JOIN_REQUEST_ID_PARAM],
+  })
+  async reject(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationJoinRequestIdParamDto,
+  ) {
+    const result = await this.rejectOrganizationJoinRequestUseCase.execute({
+      userId,
+      organizationId,
+      joinRequestId: params.id,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { ListOrganizationMembersUseCase } from '@/modules/organizations/application/use-cases/list-organization-members.use-case';
+import { RemoveOrganizationMemberUseCase } from '@/modules/organizations/application/use-cases/remove-organization-member.use-case';
+import {
+  ListOrganizationMembersDto,
+  OrganizationMemberResponseDto,
+  toOrganizationMemberResponseDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import { OrganizationMemberUserIdParamDto } from '@/modules/permissions/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentOrganization,
+  CurrentUser,
+  RequireOrganizationPermissions,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Organizations')
+@Controller('organizations/current/members')
+export class OrganizationMembersController {
+  constructor(
+    private readonly listOrganizationMembersUseCase: ListOrganizationMembersUseCase,
+    private readonly removeOrganizationMemberUseCase: RemoveOrganizationMemberUseCase,
+  ) { }
+
+  @Get()
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'List organization members',
+    description: 'Lists members of the current organization ordered by name, with their role codes and effective permissions (roles plus overrides).',
+    response: OrganizationMemberResponseDto,
+    isPaginated: true,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
+    query: [
+      { name: 'search', description: 'Filters by name or email' },
+      { name: 'pageCount', description: 'Page number', example: 1 },
+      { name: 'recordsPerPage', description: 'Page size', example: 25 },
+    ],
+  })
+  async findAll(
+    @CurrentOrganization('id') organizationId: string,
+    @Query() dto: ListOrganizationMembersDto,
+  ) {
+    const result = await this.listOrganizationMembersUseCase.execute({
+      organizationId,
+      search: dto.search,
+      pageCount: dto.pageCount,
+      recordsPerPage: dto.recordsPerPage,
+    });
+
+    return ResponseHelper.paginated(
+      result.data.map(toOrganizationMemberResponseDto),
+      result.pageCount,
+      result.recordsPerPage,
+      result.total,
+      result.message,
+    );
+  }
+
+  @Delete(':userId')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Remove organization member',
+    description: 'Removes the member together with their roles and permission overrides. Only owners can remove other owners, and the last owner can never be removed.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [
+      {
+        name: 'userId',
+        description: 'Organization member user ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async remove(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationMemberUserIdParamDto,
+  ) {
+    const result = await this.removeOrganizationMemberUseCase.execute({
+      organizationId,
+      actorId: userId,
+      userId: params.userId,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { AddOrganizationTeamMemberUseCase } from '@/modules/organizations/application/use-cases/add-organization-team-member.use-case';
+import { CreateOrganizationTeamUseCase } from '@/modules/organizations/application/use-cases/create-organization-team.use-case';
+import { DeleteOrganizationTeamUseCase } from '@/modules/organizations/application/use-cases/delete-organization-team.use-case';
+import { GetOrganizationTeamUseCase } from '@/modules/organizations/application/use-cases/get-organization-team.use-case';
+import { ListOrganizationTeamsUseCase } from '@/modules/organizations/application/use-cases/list-organization-teams.use-case';
+import { RemoveOrganizationTeamMemberUseCase } from '@/modules/organizations/application/use-cases/remove-organization-team-member.use-case';
+import { UpdateOrganizationTeamUseCase } from '@/modules/organizations/application/use-cases/update-organization-team.use-case';
+import {
+  CreateOrganizationTeamDto,
+  OrganizationTeamDetailResponseDto,
+  OrganizationTeamIdParamDto,
+  OrganizationTeamListResponseDto,
+  OrganizationTeamMemberParamDto,
+  OrganizationTeamResponseDto,
+  toOrganizationTeamDetailResponseDto,
+  toOrganizationTeamResponseDto,
+  UpdateOrganizationTeamDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentOrganization,
+  RequireEntitlement,
+  RequireOrganizationPermissions,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const TEAM_ID_PARAM = {
+  name: 'id',
+  description: 'Organization team ID',
+  example: '1925012345678901248',
+};
+
+const TEAM_MEMBER_USER_ID_PARAM = {
+  name: 'userId',
+  description: 'Organization member user ID',
+  example: '1925012345678901248',
+};
+
+@ApiTags('Organizations')
+@Controller('organizations/current/teams')
+@RequireEntitlement('organization_teams')
+export class OrganizationTeamsController {
+  constructor(
+    private readonly listOrganizationTeamsUseCase: ListOrganizationTeamsUseCase,
+    private readonly createOrganizationTeamUseCase: CreateOrganizationTeamUseCase,
+    private readonly getOrganizationTeamUseCase: GetOrganizationTeamUseCase,
+    private readonly updateOrganizationTeamUseCase: UpdateOrganizationTeamUseCase,
+    private readonly deleteOrganizationTeamUseCase: DeleteOrganizationTeamUseCase,
+    private readonly addOrganizationTeamMemberUseCase: AddOrganizationTeamMemberUseCase,
+    private readonly removeOrganizationTeamMemberUseCase: RemoveOrganizationTeamMemberUseCase,
+  ) { }
+
+  @Get()
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'List organization teams',
+    description: 'Lists the teams of the current organization ordered by name, with the roles they grant and their member count.',
+    response: OrganizationTeamListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async findAll(@CurrentOrganization('id') organizationId: string) {
+    const result = await this.listOrganizationTeamsUseCase.execute(organizationId);
+
+    return ResponseHelper.success(
+      result.data.map(toOrganizationTeamResponseDto),
+      result.message,
+    );
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Create organization team',
+    description: 'Every member of the team inherits `roleCodes` on top of their own roles. Teams cannot grant `org_owner`.',
+    body: CreateOrganizationTeamDto,
+    response: OrganizationTeamResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async create(
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: CreateOrganizationTeamDto,
+  ) {
+    const result = await this.createOrganizationTeamUseCase.execute({
+      organizationId,
+      name: dto.name,
+      description: dto.description,
+      roleCodes: dto.roleCodes,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationTeamResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Get(':id')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Get organization team',
+    description: 'Includes the members of the team ordered by name.',
+    response: OrganizationTeamDetailResponseDto,
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [TEAM_ID_PARAM],
+  })
+  async findOne(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationTeamIdParamDto,
+  ) {
+    const result = await this.getOrganizationTeamUseCase.execute({
+      organizationId,
+      teamId: params.id,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationTeamDetailResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Patch(':id')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Update organization team',
+    description: 'When `roleCodes` is sent it replaces every role granted by the team, which applies to all of its members on their next request.',
+    body: UpdateOrganizationTeamDto,
+    response: OrganizationTeamResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [TEAM_ID_PARAM],
+  })
+  async update(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationTeamIdParamDto,
+    @Body() dto: UpdateOrganizationTeamDto,
+  ) {
+    const result = await this.updateOrganizationTeamUseCase.execute({
+      organizationId,
+      teamId: params.id,
+      name: dto.name,
+      description: dto.description,
+      roleCodes: dto.roleCodes,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationTeamResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Delete(':id')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Delete organization team',
+    description: 'Members keep their own roles and lose the ones granted by the team.',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+    params: [TEAM_ID_PARAM],
+  })
+  async remove(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationTeamIdParamDto,
+  ) {
+    const result = await this.deleteOrganizationTeamUseCase.execute({
+      organizationId,
+      teamId: params.id,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  @Put(':id/members/:userId')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Add organization team member',
+    description: 'The user must be a member of the organization. Adding a current team member has no effect.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [TEAM_ID_PARAM, TEAM_MEMBER_USER_ID_PARAM],
+  })
+  async addMember(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationTeamMemberParamDto,
+  ) {
+    const result = await this.addOrganizationTeamMemberUseCase.execute({
+      organizationId,
+      teamId: params.id,
+      userId: params.userId,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  @Delete(':id/members/:userId')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Remove organization team member',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [TEAM_ID_PARAM, TEAM_MEMBER_USER_ID_PARAM],
+  })
+  async removeMember(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationTeamMemberParamDto,
+  ) {
+    const result = await this.removeOrganizationTeamMemberUseCase.execute({
+      organizationId,
+      teamId: params.id,
+      userId: params.userId,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
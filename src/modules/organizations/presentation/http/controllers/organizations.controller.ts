@@ -1,20 +1,65 @@
-import { Body, Controller, Get, HttpCode, HttpStatus, Post, Req } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
 import type { FastifyRequest } from 'fastify';
+import { ORGANIZATION_SELECTION_COOKIE_SESSION_REQUIRED_MESSAGE } from '@/modules/organizations/application/constants/organization.constants';
+import { CancelOrganizationOwnershipTransferUseCase } from '@/modules/organizations/application/use-cases/cancel-organization-ownership-transfer.use-case';
+import { CreateOrganizationOwnershipTransferUseCase } from '@/modules/organizations/application/use-cases/create-organization-ownership-transfer.use-case';
 import { CreateOrganizationUseCase } from '@/modules/organizations/application/use-cases/create-organization.use-case';
+import { DeleteOrganizationUseCase } from '@/modules/organizations/application/use-cases/delete-organization.use-case';
 import { GetCurrentOrganizationUseCase } from '@/modules/organizations/application/use-cases/get-current-organization.use-case';
+import { LeaveOrganizationUseCase } from '@/modules/organizations/application/use-cases/leave-organization.use-case';
+import { ListDeletedOrganizationsUseCase } from '@/modules/organizations/application/use-cases/list-deleted-organizations.use-case';
 import { ListOrganizationsUseCase } from '@/modules/organizations/application/use-cases/list-organizations.use-case';
+import { RestoreOrganizationUseCase } from '@/modules/organizations/application/use-cases/restore-organization.use-case';
 import { SwitchCurrentOrganizationUseCase } from '@/modules/organizations/application/use-cases/switch-current-organization.use-case';
+import { UpdateOrganizationMfaPolicyUseCase } from '@/modules/organizations/application/use-cases/update-organization-mfa-policy.use-case';
+import { UpdateOrganizationUseCase } from '@/modules/organizations/application/use-cases/update-organization.use-case';
 import type { OrganizationAccess } from '@/modules/organizations/domain/repositories/organization.repository.interface';
 import {
   CreateOrganizationDto,
+  CreateOrganizationOwnershipTransferDto,
+  DeletedOrganizationListResponseDto,
+  DeleteOrganizationDto,
+  OrganizationDeletionResponseDto,
+  OrganizationIdParamDto,
   type OrganizationResponse,
   OrganizationListResponseDto,
+  OrganizationOwnershipTransferResponseDto,
   OrganizationResponseDto,
   SelectCurrentOrganizationDto,
+  toDeletedOrganizationResponseDto,
+  toOrganizationOwnershipTransferResponseDto,
   toOrganizationResponseDto,
+  UpdateOrganizationDto,
+  UpdateOrganizationMfaPolicyDto,
 } from '@/modules/organizations/presentation/http/dtos';
-import { ApiDoc, CurrentUser } from '@/shared/http/decorators';
+import {
+  getSessionFromRequest,
+  isCredentialAuthenticatedRequest,
+} from '@/shared/context/execution-context-session.util';
+import {
+  ApiDoc,
+  BlockDuringImpersonation,
+  CurrentOrganization,
+  CurrentUser,
+  RequireInteractiveSession,
+} from '@/shared/http/decorators';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import { RequestedOrganizationGuard } from '@/shared/http/guards/requested-organization.guard';
 import { ResponseHelper, type ApiResponseDto } from '@/shared/http/helpers/response-helper';
 import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
 
@@ -27,15 +72,24 @@ export class OrganizationsController {
     private readonly listOrganizationsUseCase: ListOrganizationsUseCase,
     private readonly getCurrentOrganizationUseCase: GetCurrentOrganizationUseCase,
     private readonly switchCurrentOrganizationUseCase: SwitchCurrentOrganizationUseCase,
+    private readonly updateOrganizationMfaPolicyUseCase: UpdateOrganizationMfaPolicyUseCase,
+    private readonly leaveOrganizationUseCase: LeaveOrganizationUseCase,
+    private readonly updateOrganizationUseCase: UpdateOrganizationUseCase,
+    private readonly deleteOrganizationUseCase: DeleteOrganizationUseCase,
+    private readonly listDeletedOrganizationsUseCase: ListDeletedOrganizationsUseCase,
+    private readonly restoreOrganizationUseCase: RestoreOrganizationUseCase,
+    private readonly createOrganizationOwnershipTransferUseCase: CreateOrganizationOwnershipTransferUseCase,
+    private readonly cancelOrganizationOwnershipTransferUseCase: CancelOrganizationOwnershipTransferUseCase,
   ) { }
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @BlockDuringImpersonation()
   @ApiDoc({
     summary: 'Create organization',
     body: CreateOrganizationDto,
     response: OrganizationResponseDto,
-    commonResponses: ['badRequest', 'unauthorized'],
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
   })
   async create(
     @Req() request: FastifyRequest,
@@ -44,30 +98,31 @@ export class OrganizationsController {
   ) {
     const result = await this.createOrganizationUseCase.execute(userId, dto);
 
-    this.setCurrentOrganizationSession(request, result.data);
-    await request.session.save();
+    await this.setCurrentOrganizationSession(request, result.data);
 
     return ResponseHelper.success(
       toOrganizationResponseDto(
         result.data,
-        request.session.currentOrganizationId,
+        getSessionFromRequest(request)?.currentOrganizationId,
       ),
       result.message,
     );
   }
 
   @Get()
+  @UseGuards(RequestedOrganizationGuard)
   @ApiDoc({
     summary: 'List organizations for current user',
+    description: 'The organization selected with `X-Organization-Id`, or else by the session or token, is flagged as current.',
     response: OrganizationListResponseDto,
-    commonResponses: ['unauthorized'],
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
   })
   async findAll(
     @Req() request: FastifyRequest,
     @CurrentUser('id') userId: string,
   ): Promise<ApiResponseDto<OrganizationResponse[]>> {
     const result = await this.listOrganizationsUseCase.execute(userId);
-    const currentOrganizationId = request.session.currentOrganizationId;
+    const currentOrganizationId = getSessionFromRequest(request)?.currentOrganizationId;
     const data = result.data.map((organization) =>
       toOrganizationResponseDto(organization, currentOrganizationId),
     );
@@ -75,56 +130,105 @@ export class OrganizationsController {
     return ResponseHelper.success(data, result.message);
   }
 
+  @Get('deleted')
+  @ApiDoc({
+    summary: 'List deleted organizations',
+    description: 'Organizations you own that were deleted and can still be restored, with the date they will be purged.',
+    response: DeletedOrganizationListResponseDto,
+    commonResponses: ['unauthorized'],
+  })
+  async findDeleted(@CurrentUser('id') userId: string) {
+    const result = await this.listDeletedOrganizationsUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      result.data.map(toDeletedOrganizationResponseDto),
+      result.message,
+    );
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequireInteractiveSession()
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Restore deleted organization',
+    description: 'Owner only. Cancels the purge of an organization deleted less than `ORGANIZATION_DELETION_GRACE_DAYS` ago and makes it accessible to its members again.',
+    params: [
+      {
+        name: 'id',
+        description: 'Organization id',
+      },
+    ],
+    response: OrganizationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+  })
+  async restore(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Param() params: OrganizationIdParamDto,
+  ) {
+    const result = await this.restoreOrganizationUseCase.execute(userId, params.id);
+
+    return ResponseHelper.success(
+      toOrganizationResponseDto(result.data, getSessionFromRequest(request)?.currentOrganizationId),
+      result.message,
+    );
+  }
+
   @Get('current')
+  @UseGuards(RequestedOrganizationGuard)
   @ApiDoc({
     summary: 'Get current organization from session',
+    description: 'Returns the organization selected with `X-Organization-Id`, or else by the session or token.',
     response: OrganizationResponseDto,
-    commonResponses: ['unauthorized'],
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
   })
   async getCurrent(
     @Req() request: FastifyRequest,
     @CurrentUser('id') userId: string,
   ) {
+    const currentOrganizationId = getSessionFromRequest(request)?.currentOrganizationId;
     const result = await this.getCurrentOrganizationUseCase.execute(
       userId,
-      request.session.currentOrganizationId,
+      currentOrganizationId,
     );
 
     if (!result.data) {
-      this.clearCurrentOrganizationSession(request);
-      await request.session.save();
+      await this.clearCurrentOrganizationSession(request);
       return ResponseHelper.success(null, result.message);
     }
 
     return ResponseHelper.success(
-      toOrganizationResponseDto(
-        result.data,
-        request.session.currentOrganizationId,
-      ),
+      toOrganizationResponseDto(result.data, currentOrganizationId),
       result.message,
     );
   }
 
   @Post('current')
   @HttpCode(HttpStatus.OK)
+  @BlockDuringImpersonation()
   @ApiDoc({
     summary: 'Set current organization on session',
+    description: 'Cookie sessions only. Bearer and API key requests select the organization per request with the `X-Organization-Id` header.',
     body: SelectCurrentOrganizationDto,
     response: OrganizationResponseDto,
-    commonResponses: ['badRequest', 'unauthorized', 'notFound'],
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
   })
   async setCurrent(
     @Req() request: FastifyRequest,
     @CurrentUser('id') userId: string,
     @Body() dto: SelectCurrentOrganizationDto,
   ) {
+    if (isCredentialAuthenticatedRequest(request)) {
+      throw new ForbiddenException(ORGANIZATION_SELECTION_COOKIE_SESSION_REQUIRED_MESSAGE);
+    }
+
     const result = await this.switchCurrentOrganizationUseCase.execute(
       userId,
       dto.organizationId,
     );
 
-    this.setCurrentOrganizationSession(request, result.data);
-    await request.session.save();
+    await this.setCurrentOrganizationSession(request, result.data);
 
     return ResponseHelper.success(
       toOrganizationResponseDto(
@@ -135,10 +239,179 @@ export class OrganizationsController {
     );
   }
 
-  private setCurrentOrganizationSession(
+  @Patch('current')
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @ApiDoc({
+    summary: 'Update current organization',
+    description: 'Owner only. Renames the organization and/or sets its slug (`null` clears it). A new name is also written to the active sessions of every member that has the organization selected.',
+    body: UpdateOrganizationDto,
+    response: OrganizationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+  })
+  async update(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: UpdateOrganizationDto,
+  ) {
+    const result = await this.updateOrganizationUseCase.execute({
+      userId,
+      organizationId,
+      name: dto.name,
+      slug: dto.slug,
+    });
+
+    if (request.session.currentOrganizationId === organizationId) {
+      await this.setCurrentOrganizationSession(request, result.data);
+    }
+
+    return ResponseHelper.success(
+      toOrganizationResponseDto(result.data, organizationId),
+      result.message,
+    );
+  }
+
+  @Delete('current')
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Delete current organization',
+    description: 'Owner only. Confirm with your current password, or with `mfaCode`/`recoveryCode` when the account has no password. The organization is hidden from all members right away and can be restored through `POST /organizations/{id}/restore` for `ORGANIZATION_DELETION_GRACE_DAYS`; after that it is purged together with its report settings, permission overrides, memberships and invitations.',
+    body: DeleteOrganizationDto,
+    response: OrganizationDeletionResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound', 'tooManyRequests'],
+  })
+  async remove(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: DeleteOrganizationDto,
+  ) {
+    const result = await this.deleteOrganizationUseCase.execute({
+      userId,
+      organizationId,
+      reauthentication: dto,
+    });
+
+    await this.clearCurrentOrganizationSessionIfSelected(request, organizationId);
+
+    return ResponseHelper.success(
+      { purgeScheduledAt: result.data.purgeScheduledAt.toISOString() },
+      result.message,
+    );
+  }
+
+  @Post('current/transfer-ownership')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Request ownership transfer',
+    description: 'Owner only. Asks another member to become owner; confirm with your current password, or with `mfaCode`/`recoveryCode` when the account has no password. The member is emailed and must accept through `POST /organizations/ownership-transfers/{id}/accept` within 72 hours. On acceptance you stay in the organization as `org_admin`. Only one transfer can be pending per organization.',
+    body: CreateOrganizationOwnershipTransferDto,
+    response: OrganizationOwnershipTransferResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound', 'tooManyRequests'],
+  })
+  async transferOwnership(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: CreateOrganizationOwnershipTransferDto,
+  ) {
+    const { userId: toUserId, ...reauthentication } = dto;
+    const result = await this.createOrganizationOwnershipTransferUseCase.execute({
+      organizationId,
+      userId,
+      toUserId,
+      reauthentication,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationOwnershipTransferResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Delete('current/transfer-ownership')
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'Cancel ownership transfer',
+    description: 'Owner only. Cancels the pending ownership transfer of the current organization.',
+    commonResponses: ['unauthorized', 'forbidden', 'notFound'],
+  })
+  async cancelOwnershipTransfer(
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+  ) {
+    const result = await this.cancelOrganizationOwnershipTransferUseCase.execute(
+      userId,
+      organizationId,
+    );
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  @Put('current/mfa-policy')
+  @UseGuards(CurrentOrganizationGuard)
+  @RequireInteractiveSession()
+  @ApiDoc({
+    summary: 'Update organization MFA policy',
+    description: 'Owner only. When required, members must complete multi-factor authentication before accessing organization-scoped endpoints. Enabling it requires the caller to be signed in with MFA.',
+    body: UpdateOrganizationMfaPolicyDto,
+    response: OrganizationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+  })
+  async updateMfaPolicy(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: UpdateOrganizationMfaPolicyDto,
+  ) {
+    const result = await this.updateOrganizationMfaPolicyUseCase.execute({
+      userId,
+      organizationId,
+      required: dto.required,
+      mfaVerified: getSessionFromRequest(request)?.mfaVerified === true,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationResponseDto(result.data, organizationId),
+      result.message,
+    );
+  }
+
+  @Post('current/leave')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(CurrentOrganizationGuard)
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Leave current organization',
+    description: 'Removes the current user from the current organization and clears it from the session. The last owner cannot leave.',
+    commonResponses: ['unauthorized', 'forbidden', 'conflict', 'notFound'],
+  })
+  async leave(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @CurrentOrganization('id') organizationId: string,
+  ) {
+    const result = await this.leaveOrganizationUseCase.execute(userId, organizationId);
+
+    await this.clearCurrentOrganizationSessionIfSelected(request, organizationId);
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  // Bearer and API key requests have no cookie session to write the selection to.
+  private async setCurrentOrganizationSession(
     request: FastifyRequest,
     access: OrganizationAccess,
-  ): void {
+  ): Promise<void> {
+    if (isCredentialAuthenticatedRequest(request)) {
+      return;
+    }
+
     request.session.currentOrganizationId = access.organization.id;
     request.session.currentOrganizationName = access.organization.name;
     request.session.currentOrganizationRole = access.role;
@@ -148,9 +421,26 @@ export class OrganizationsController {
       currentOrganizationName: access.organization.name,
       currentOrganizationRole: access.role,
     });
+    await request.session.save();
   }
 
-  private clearCurrentOrganizationSession(request: FastifyRequest): void {
+  // The organization may have come from `X-Organization-Id`; another one selected in the session stays.
+  private async clearCurrentOrganizationSessionIfSelected(
+    request: FastifyRequest,
+    organizationId: string,
+  ): Promise<void> {
+    if (request.session.currentOrganizationId !== organizationId) {
+      return;
+    }
+
+    await this.clearCurrentOrganizationSession(request);
+  }
+
+  private async clearCurrentOrganizationSession(request: FastifyRequest): Promise<void> {
+    if (isCredentialAuthenticatedRequest(request)) {
+      return;
+    }
+
     request.session.currentOrganizationId = undefined;
     request.session.currentOrganizationName = undefined;
     request.session.currentOrganizationRole = undefined;
@@ -160,5 +450,6 @@ export class OrganizationsController {
       currentOrganizationName: undefined,
       currentOrganizationRole: undefined,
     });
+    await request.session.save();
   }
 }
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { FastifyRequest } from 'fastify';
+import { AcceptOrganizationOwnershipTransferUseCase } from '@/modules/organizations/application/use-cases/accept-organization-ownership-transfer.use-case';
+import { DeclineOrganizationOwnershipTransferUseCase } from '@/modules/organizations/application/use-cases/decline-organization-ownership-transfer.use-case';
+import { ListOrganizationOwnershipTransfersUseCase } from '@/modules/organizations/application/use-cases/list-organization-ownership-transfers.use-case';
+import {
+  OrganizationOwnershipTransferIdParamDto,
+  OrganizationResponseDto,
+  PendingOrganizationOwnershipTransferListResponseDto,
+  toOrganizationResponseDto,
+  toPendingOrganizationOwnershipTransferResponseDto,
+} from '@/modules/organizations/presentation/http/dtos';
+import { getSessionFromRequest } from '@/shared/context/execution-context-session.util';
+import {
+  ApiDoc,
+  BlockDuringImpersonation,
+  CurrentUser,
+  RequireInteractiveSession,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+/**
+ * Endpoints used by the member receiving an ownership transfer, which may
+ * target an organization other than the current one.
+ */
+@ApiTags('Organizations')
+@Controller('organizations/ownership-transfers')
+export class OwnershipTransfersController {
+  constructor(
+    private readonly listOrganizationOwnershipTransfersUseCase: ListOrganizationOwnershipTransfersUseCase,
+    private readonly acceptOrganizationOwnershipTransferUseCase: AcceptOrganizationOwnershipTransferUseCase,
+    private readonly declineOrganizationOwnershipTransferUseCase: DeclineOrganizationOwnershipTransferUseCase,
+  ) { }
+
+  @Get()
+  @ApiDoc({
+    summary: 'List ownership transfers addressed to me',
+    description: 'Pending, unexpired ownership transfers where the current user is the recipient.',
+    response: PendingOrganizationOwnershipTransferListResponseDto,
+    commonResponses: ['unauthorized'],
+  })
+  async findAll(@CurrentUser('id') userId: string) {
+    const result = await this.listOrganizationOwnershipTransfersUseCase.execute(userId);
+
+    return ResponseHelper.success(
+      result.data.map(toPendingOrganizationOwnershipTransferResponseDto),
+      result.message,
+    );
+  }
+
+  @Post(':id/accept')
+  @HttpCode(HttpStatus.OK)
+  @RequireInteractiveSession()
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Accept ownership transfer',
+    description: 'Makes the current user an owner of the organization; the member who requested the transfer becomes `org_admin`.',
+    params: [
+      {
+        name: 'id',
+        description: 'Ownership transfer id',
+      },
+    ],
+    response: OrganizationResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+  })
+  async accept(
+    @Req() request: FastifyRequest,
+    @CurrentUser('id') userId: string,
+    @Param() params: OrganizationOwnershipTransferIdParamDto,
+  ) {
+    const result = await this.acceptOrganizationOwnershipTransferUseCase.execute(
+      userId,
+      params.id,
+    );
+
+    return ResponseHelper.success(
+      toOrganizationResponseDto(result.data, getSessionFromRequest(request)?.currentOrganizationId),
+      result.message,
+    );
+  }
+
+  @Post(':id/decline')
+  @HttpCode(HttpStatus.OK)
+  @BlockDuringImpersonation()
+  @ApiDoc({
+    summary: 'Decline ownership transfer',
+    params: [
+      {
+        name: 'id',
+        description: 'Ownership transfer id',
+      },
+    ],
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+  })
+  async decline(
+    @CurrentUser('id') userId: string,
+    @Param() params: OrganizationOwnershipTransferIdParamDto,
+  ) {
+    const result = await this.declineOrganizationOwnershipTransferUseCase.execute(
+      userId,
+      params.id,
+    );
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
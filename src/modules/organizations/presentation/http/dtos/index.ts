@@ -1,3 +1,12 @@
 export * from './create-organization.dto';
+export * from './organization-deletion.dto';
+export * from './organization-domain.dto';
+export * from './organization-invitation.dto';
+export * from './organization-join-request.dto';
+export * from './organization-member.dto';
+export * from './organization-ownership-transfer.dto';
 export * from './organization-response.dto';
+export * from './organization-team.dto';
 export * from './select-current-organization.dto';
+export * from './update-organization-mfa-policy.dto';
+export * from './update-organization.dto';
@@ -0,0 +1,52 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { tokenSecondFactorShape } from '@/modules/auth/presentation/http/dtos/mfa.dto';
+import type { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+export const reauthenticationShape = {
+  password: z.string().min(1, 'Current password is required').max(100, 'Password is too long').optional(),
+  ...tokenSecondFactorShape,
+};
+
+export const DeleteOrganizationSchema = z.object(reauthenticationShape);
+
+export const OrganizationIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const OrganizationDeletionResponseSchema = z.object({
+  purgeScheduledAt: z.iso.datetime(),
+});
+
+export const DeletedOrganizationResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  name: z.string(),
+  slug: z.string().nullable(),
+  deletedAt: z.iso.datetime(),
+  purgeScheduledAt: z.iso.datetime(),
+});
+
+export const DeletedOrganizationListResponseSchema = z.array(
+  DeletedOrganizationResponseSchema,
+);
+
+export type DeletedOrganizationResponse = z.infer<typeof DeletedOrganizationResponseSchema>;
+
+export function toDeletedOrganizationResponseDto(
+  organization: Organization,
+): DeletedOrganizationResponse {
+  return {
+    id: organization.id,
+    name: organization.name,
+    slug: organization.slug,
+    deletedAt: organization.deletedAt!.toISOString(),
+    purgeScheduledAt: organization.purgeScheduledAt!.toISOString(),
+  };
+}
+
+export class DeleteOrganizationDto extends createZodDto(DeleteOrganizationSchema) { }
+export class OrganizationIdParamDto extends createZodDto(OrganizationIdParamSchema) { }
+export class OrganizationDeletionResponseDto extends createZodDto(OrganizationDeletionResponseSchema) { }
+export class DeletedOrganizationResponseDto extends createZodDto(DeletedOrganizationResponseSchema) { }
+export class DeletedOrganizationListResponseDto extends createZodDto(DeletedOrganizationListResponseSchema) { }
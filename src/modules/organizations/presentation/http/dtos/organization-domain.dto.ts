@@ -0,0 +1,111 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import {
+  ORGANIZATION_DOMAIN_JOIN_POLICIES,
+  ORGANIZATION_DOMAIN_STATUSES,
+  type OrganizationDomain,
+} from '@/modules/organizations/domain/entities/organization-domain.entity';
+import {
+  DEFAULT_ORGANIZATION_MEMBER_ROLE_CODE,
+  DEFAULT_ORGANIZATION_OWNER_ROLE_CODE,
+  SYSTEM_ROLE_CODES,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const organizationDomainNameSchema = z
+  .string({
+    message: 'Domain is required',
+  })
+  .trim()
+  .toLowerCase()
+  .max(253, 'Domain is too long')
+  .regex(
+    /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/,
+    'Domain must be a valid hostname such as example.com',
+  );
+
+export const organizationDomainJoinPolicySchema = z.enum(ORGANIZATION_DOMAIN_JOIN_POLICIES);
+
+export const organizationDomainRoleCodeSchema = z
+  .enum(SYSTEM_ROLE_CODES)
+  .refine((code) => code !== DEFAULT_ORGANIZATION_OWNER_ROLE_CODE, {
+    message: 'Members joining through a domain cannot become owners',
+  });
+
+export const CreateOrganizationDomainSchema = z.object({
+  domain: organizationDomainNameSchema,
+  joinPolicy: organizationDomainJoinPolicySchema.default('request'),
+  defaultRoleCode: organizationDomainRoleCodeSchema.default(DEFAULT_ORGANIZATION_MEMBER_ROLE_CODE),
+});
+
+export const UpdateOrganizationDomainSchema = z
+  .object({
+    joinPolicy: organizationDomainJoinPolicySchema.optional(),
+    defaultRoleCode: organizationDomainRoleCodeSchema.optional(),
+  })
+  .refine((value) => value.joinPolicy !== undefined || value.defaultRoleCode !== undefined, {
+    message: 'Provide a joinPolicy or a defaultRoleCode',
+    path: ['joinPolicy'],
+  });
+
+export const OrganizationDomainIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const OrganizationDomainResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  domain: z.string(),
+  status: z.enum(ORGANIZATION_DOMAIN_STATUSES),
+  joinPolicy: organizationDomainJoinPolicySchema,
+  defaultRoleCode: z.enum(SYSTEM_ROLE_CODES),
+  verificationRecord: z.object({
+    type: z.literal('TXT'),
+    name: z.string(),
+    value: z.string(),
+  }),
+  verifiedAt: z.iso.datetime().nullable(),
+  createdAt: z.iso.datetime(),
+});
+
+export const OrganizationDomainListResponseSchema = z.array(OrganizationDomainResponseSchema);
+
+export type OrganizationDomainResponse = z.infer<typeof OrganizationDomainResponseSchema>;
+
+export function toOrganizationDomainResponseDto({
+  domain,
+  verificationRecord,
+}: {
+  domain: OrganizationDomain;
+  verificationRecord: { type: 'TXT'; name: string; value: string };
+}): OrganizationDomainResponse {
+  return {
+    id: domain.id,
+    domain: domain.domain,
+    status: domain.status,
+    joinPolicy: domain.joinPolicy,
+    defaultRoleCode: domain.defaultRoleCode,
+    verificationRecord,
+    verifiedAt: domain.verifiedAt?.toISOString() ?? null,
+    createdAt: domain.createdAt.toISOString(),
+  };
+}
+
+export class CreateOrganizationDomainDto extends createZodDto(
+  CreateOrganizationDomainSchema,
+) { }
+
+export class UpdateOrganizationDomainDto extends createZodDto(
+  UpdateOrganizationDomainSchema,
+) { }
+
+export class OrganizationDomainIdParamDto extends createZodDto(
+  OrganizationDomainIdParamSchema,
+) { }
+
+export class OrganizationDomainResponseDto extends createZodDto(
+  OrganizationDomainResponseSchema,
+) { }
+
+export class OrganizationDomainListResponseDto extends createZodDto(
+  OrganizationDomainListResponseSchema,
+) { }
@@ -0,0 +1,124 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { OrganizationInvitation } from '@/modules/organizations/domain/entities/organization-invitation.entity';
+import type { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import {
+  DEFAULT_ORGANIZATION_MEMBER_ROLE_CODE,
+  SYSTEM_ROLE_CODES,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { userEmailSchema } from '@/modules/users/presentation/http/dtos/create-user.dto';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const InvitationTokenSchema = z
+  .string({
+    message: 'Token is required',
+  })
+  .trim()
+  .min(1, 'Token cannot be empty');
+
+export const CreateOrganizationInvitationSchema = z.object({
+  email: userEmailSchema,
+  roleCodes: z
+    .array(z.enum(SYSTEM_ROLE_CODES))
+    .min(1, 'At least one role is required')
+    .refine((value) => new Set(value).size === value.length, {
+      message: 'roleCodes must not contain duplicates',
+    })
+    .default([DEFAULT_ORGANIZATION_MEMBER_ROLE_CODE]),
+});
+
+export const OrganizationInvitationIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const OrganizationInvitationTokenSchema = z.object({
+  token: InvitationTokenSchema,
+});
+
+export const OrganizationInvitationResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  email: z.email(),
+  roleCodes: z.array(z.enum(SYSTEM_ROLE_CODES)),
+  expired: z.boolean(),
+  invitedByUserId: snowflakeIdSchema.nullable(),
+  expiresAt: z.iso.datetime(),
+  lastSentAt: z.iso.datetime(),
+  createdAt: z.iso.datetime(),
+});
+
+export const OrganizationInvitationListResponseSchema = z.array(
+  OrganizationInvitationResponseSchema,
+);
+
+export const OrganizationInvitationPreviewResponseSchema = z.object({
+  organization: z.object({
+    id: snowflakeIdSchema,
+    name: z.string(),
+  }),
+  email: z.email(),
+  roleCodes: z.array(z.enum(SYSTEM_ROLE_CODES)),
+  expiresAt: z.iso.datetime(),
+  accountExists: z.boolean(),
+});
+
+export type OrganizationInvitationResponse = z.infer<typeof OrganizationInvitationResponseSchema>;
+export type OrganizationInvitationPreviewResponse = z.infer<
+  typeof OrganizationInvitationPreviewResponseSchema
+>;
+
+export function toOrganizationInvitationResponseDto(
+  invitation: OrganizationInvitation,
+  now = new Date(),
+): OrganizationInvitationResponse {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    roleCodes: invitation.roleCodes,
+    expired: invitation.expiresAt <= now,
+    invitedByUserId: invitation.invitedByUserId,
+    expiresAt: invitation.expiresAt.toISOString(),
+    lastSentAt: invitation.lastSentAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+export function toOrganizationInvitationPreviewResponseDto(preview: {
+  invitation: OrganizationInvitation;
+  organization: Organization;
+  accountExists: boolean;
+}): OrganizationInvitationPreviewResponse {
+  return {
+    organization: {
+      id: preview.organization.id,
+      name: preview.organization.name,
+    },
+    email: preview.invitation.email,
+    roleCodes: preview.invitation.roleCodes,
+    expiresAt: preview.invitation.expiresAt.toISOString(),
+    accountExists: preview.accountExists,
+  };
+}
+
+export class CreateOrganizationInvitationDto extends createZodDto(
+  CreateOrganizationInvitationSchema,
+) { }
+
+export class OrganizationInvitationIdParamDto extends createZodDto(
+  OrganizationInvitationIdParamSchema,
+) { }
+
+export class OrganizationInvitationTokenDto extends createZodDto(
+  OrganizationInvitationTokenSchema,
+) { }
+
+export class OrganizationInvitationResponseDto extends createZodDto(
+  OrganizationInvitationResponseSchema,
+) { }
+
+export class OrganizationInvitationListResponseDto extends createZodDto(
+  OrganizationInvitationListResponseSchema,
+) { }
+
+export class OrganizationInvitationPreviewResponseDto extends createZodDto(
+  OrganizationInvitationPreviewResponseSchema,
+) { }
@@ -0,0 +1,121 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { OrganizationDomain } from '@/modules/organizations/domain/entities/organization-domain.entity';
+import type { OrganizationJoinRequest } from '@/modules/organizations/domain/entities/organization-join-request.entity';
+import type { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import { SYSTEM_ROLE_CODES } from '@/modules/permissions/application/constants/permissions.constants';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+import { organizationDomainJoinPolicySchema } from './organization-domain.dto';
+
+const organizationSummarySchema = z.object({
+  id: snowflakeIdSchema,
+  name: z.string(),
+});
+
+export const OrganizationJoinRequestIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const JoinableOrganizationIdParamSchema = z.object({
+  organizationId: snowflakeIdSchema,
+});
+
+export const OrganizationJoinRequestResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  user: z.object({
+    id: snowflakeIdSchema,
+    name: z.string(),
+    email: z.email(),
+  }),
+  roleCode: z.enum(SYSTEM_ROLE_CODES),
+  createdAt: z.iso.datetime(),
+});
+
+export const OrganizationJoinRequestListResponseSchema = z.array(
+  OrganizationJoinRequestResponseSchema,
+);
+
+export const JoinableOrganizationResponseSchema = z.object({
+  organization: organizationSummarySchema,
+  domain: z.string(),
+  joinPolicy: organizationDomainJoinPolicySchema,
+  roleCode: z.enum(SYSTEM_ROLE_CODES),
+  requestPending: z.boolean(),
+});
+
+export const JoinableOrganizationListResponseSchema = z.array(
+  JoinableOrganizationResponseSchema,
+);
+
+export const JoinOrganizationResponseSchema = z.object({
+  status: z.enum(['joined', 'pending']),
+  organization: organizationSummarySchema,
+});
+
+export type OrganizationJoinRequestResponse = z.infer<
+  typeof OrganizationJoinRequestResponseSchema
+>;
+export type JoinableOrganizationResponse = z.infer<typeof JoinableOrganizationResponseSchema>;
+export type JoinOrganizationResponse = z.infer<typeof JoinOrganizationResponseSchema>;
+
+export function toOrganizationJoinRequestResponseDto(pendingRequest: {
+  request: OrganizationJoinRequest;
+  user: { id: string; name: string; email: string };
+}): OrganizationJoinRequestResponse {
+  return {
+    id: pendingRequest.request.id,
+    user: pendingRequest.user,
+    roleCode: pendingRequest.request.roleCode,
+    createdAt: pendingRequest.request.createdAt.toISOString(),
+  };
+}
+
+export function toJoinableOrganizationResponseDto(joinable: {
+  organization: Organization;
+  domain: OrganizationDomain;
+  requestPending: boolean;
+}): JoinableOrganizationResponse {
+  return {
+    organization: {
+      id: joinable.organization.id,
+      name: joinable.organization.name,
+    },
+    domain: joinable.domain.domain,
+    joinPolicy: joinable.domain.joinPolicy,
+    roleCode: joinable.domain.defaultRoleCode,
+    requestPending: joinable.requestPending,
+  };
+}
+
+export function toJoinOrganizationResponseDto(result: {
+  status: 'joined' | 'pending';
+  organization: Organization;
+}): JoinOrganizationResponse {
+  return {
+    status: result.status,
+    organization: {
+      id: result.organization.id,
+      name: result.organization.name,
+    },
+  };
+}
+
+export class OrganizationJoinRequestIdParamDto extends createZodDto(
+  OrganizationJoinRequestIdParamSchema,
+) { }
+
+export class JoinableOrganizationIdParamDto extends createZodDto(
+  JoinableOrganizationIdParamSchema,
+) { }
+
+export class OrganizationJoinRequestListResponseDto extends createZodDto(
+  OrganizationJoinRequestListResponseSchema,
+) { }
+
+export class JoinableOrganizationListResponseDto extends createZodDto(
+  JoinableOrganizationListResponseSchema,
+) { }
+
+export class JoinOrganizationResponseDto extends createZodDto(
+  JoinOrganizationResponseSchema,
+) { }
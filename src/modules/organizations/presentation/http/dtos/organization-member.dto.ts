@@ -0,0 +1,50 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import {
+  ORGANIZATION_MEMBERSHIP_ROLES,
+  type OrganizationMember,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  PERMISSION_CODES,
+  type PermissionCode,
+  type RoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+export const ListOrganizationMembersSchema = z.object({
+  search: z.string().trim().max(255).optional(),
+  pageCount: z.coerce.number().int().min(1).default(1),
+  recordsPerPage: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const OrganizationMemberResponseSchema = z.object({
+  userId: snowflakeIdSchema,
+  name: z.string(),
+  email: z.email(),
+  role: z.enum(ORGANIZATION_MEMBERSHIP_ROLES),
+  roleCodes: z.array(z.string()),
+  effectivePermissionCodes: z.array(z.enum(PERMISSION_CODES)),
+  joinedAt: z.iso.datetime(),
+});
+
+export type OrganizationMemberResponse = z.infer<typeof OrganizationMemberResponseSchema>;
+
+export function toOrganizationMemberResponseDto(
+  member: OrganizationMember & {
+    roleCodes: RoleCode[];
+    effectivePermissionCodes: PermissionCode[];
+  },
+): OrganizationMemberResponse {
+  return {
+    userId: member.userId,
+    name: member.name,
+    email: member.email,
+    role: member.role,
+    roleCodes: member.roleCodes,
+    effectivePermissionCodes: member.effectivePermissionCodes,
+    joinedAt: member.joinedAt.toISOString(),
+  };
+}
+
+export class ListOrganizationMembersDto extends createZodDto(ListOrganizationMembersSchema) { }
+export class OrganizationMemberResponseDto extends createZodDto(OrganizationMemberResponseSchema) { }
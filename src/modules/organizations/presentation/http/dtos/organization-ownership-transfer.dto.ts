@@ -0,0 +1,86 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import {
+  ORGANIZATION_OWNERSHIP_TRANSFER_STATUSES,
+  type OrganizationOwnershipTransfer,
+} from '@/modules/organizations/domain/entities/organization-ownership-transfer.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+import { reauthenticationShape } from './organization-deletion.dto';
+
+export const CreateOrganizationOwnershipTransferSchema = z.object({
+  userId: snowflakeIdSchema,
+  ...reauthenticationShape,
+});
+
+export const OrganizationOwnershipTransferIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const OrganizationOwnershipTransferResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  organizationId: snowflakeIdSchema,
+  fromUserId: snowflakeIdSchema,
+  toUserId: snowflakeIdSchema,
+  status: z.enum(ORGANIZATION_OWNERSHIP_TRANSFER_STATUSES),
+  expiresAt: z.iso.datetime(),
+  createdAt: z.iso.datetime(),
+});
+
+export const PendingOrganizationOwnershipTransferResponseSchema =
+  OrganizationOwnershipTransferResponseSchema.extend({
+    organizationName: z.string(),
+    requesterName: z.string().nullable(),
+  });
+
+export const PendingOrganizationOwnershipTransferListResponseSchema = z.array(
+  PendingOrganizationOwnershipTransferResponseSchema,
+);
+
+export type OrganizationOwnershipTransferResponse = z.infer<
+  typeof OrganizationOwnershipTransferResponseSchema
+>;
+export type PendingOrganizationOwnershipTransferResponse = z.infer<
+  typeof PendingOrganizationOwnershipTransferResponseSchema
+>;
+
+export function toOrganizationOwnershipTransferResponseDto(
+  transfer: OrganizationOwnershipTransfer,
+): OrganizationOwnershipTransferResponse {
+  return {
+    id: transfer.id,
+    organizationId: transfer.organizationId,
+    fromUserId: transfer.fromUserId,
+    toUserId: transfer.toUserId,
+    status: transfer.status,
+    expiresAt: transfer.expiresAt.toISOString(),
+    createdAt: transfer.createdAt.toISOString(),
+  };
+}
+
+export function toPendingOrganizationOwnershipTransferResponseDto(pendingTransfer: {
+  transfer: OrganizationOwnershipTransfer;
+  organizationName: string;
+  requesterName: string | null;
+}): PendingOrganizationOwnershipTransferResponse {
+  return {
+    ...toOrganizationOwnershipTransferResponseDto(pendingTransfer.transfer),
+    organizationName: pendingTransfer.organizationName,
+    requesterName: pendingTransfer.requesterName,
+  };
+}
+
+export class CreateOrganizationOwnershipTransferDto extends createZodDto(
+  CreateOrganizationOwnershipTransferSchema,
+) { }
+
+export class OrganizationOwnershipTransferIdParamDto extends createZodDto(
+  OrganizationOwnershipTransferIdParamSchema,
+) { }
+
+export class OrganizationOwnershipTransferResponseDto extends createZodDto(
+  OrganizationOwnershipTransferResponseSchema,
+) { }
+
+export class PendingOrganizationOwnershipTransferListResponseDto extends createZodDto(
+  PendingOrganizationOwnershipTransferListResponseSchema,
+) { }
@@ -10,8 +10,10 @@ export const OrganizationRoleSchema = z.enum(ORGANIZATION_MEMBERSHIP_ROLES);
 export const OrganizationResponseSchema = z.object({
   id: snowflakeIdSchema,
   name: z.string(),
+  slug: z.string().nullable(),
   role: OrganizationRoleSchema,
   isCurrent: z.boolean(),
+  requireMfa: z.boolean(),
   createdAt: DateTimeStringSchema,
   updatedAt: DateTimeStringSchema,
 });
@@ -29,8 +31,10 @@ export function toOrganizationResponseDto(
   return {
     id: access.organization.id,
     name: access.organization.name,
+    slug: access.organization.slug,
     role: access.role,
     isCurrent: access.organization.id === currentOrganizationId,
+    requireMfa: access.organization.requireMfa,
     createdAt: normalizeDateTime(access.organization.createdAt),
     updatedAt: normalizeDateTime(access.organization.updatedAt),
   };
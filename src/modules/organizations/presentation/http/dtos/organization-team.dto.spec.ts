@@ -0,0 +1,35 @@
+import {
+  CreateOrganizationTeamSchema,
+  UpdateOrganizationTeamSchema,
+} from './organization-team.dto';
+
+describe('organization team DTOs', () => {
+  it('accepts system roles other than org_owner', () => {
+    expect(
+      CreateOrganizationTeamSchema.parse({ name: ' Suporte ', roleCodes: ['org_admin'] }),
+    ).toEqual({ name: 'Suporte', roleCodes: ['org_admin'] });
+    expect(CreateOrganizationTeamSchema.parse({ name: 'Vendas' }).roleCodes).toEqual([]);
+  });
+
+  it('rejects teams granting org_owner', () => {
+    const created = CreateOrganizationTeamSchema.safeParse({
+      name: 'Donos',
+      roleCodes: ['org_member', 'org_owner'],
+    });
+    const updated = UpdateOrganizationTeamSchema.safeParse({ roleCodes: ['org_owner'] });
+
+    expect(created.success).toBe(false);
+    expect(created.error?.issues[0].message).toBe('Teams cannot grant the org_owner role');
+    expect(updated.success).toBe(false);
+  });
+
+  it('rejects custom role codes', () => {
+    expect(
+      CreateOrganizationTeamSchema.safeParse({ name: 'Financeiro', roleCodes: ['financeiro'] }).success,
+    ).toBe(false);
+  });
+
+  it('requires at least one field on updates', () => {
+    expect(UpdateOrganizationTeamSchema.safeParse({}).success).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { OrganizationTeam } from '@/modules/organizations/domain/entities/organization-team.entity';
+import type { OrganizationTeamMember } from '@/modules/organizations/domain/repositories/organization-team.repository.interface';
+import {
+  DEFAULT_ORGANIZATION_OWNER_ROLE_CODE,
+  SYSTEM_ROLE_CODES,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const organizationTeamNameSchema = z
+  .string({
+    message: 'Name is required',
+  })
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must have at most 100 characters');
+
+const organizationTeamDescriptionSchema = z
+  .string()
+  .trim()
+  .max(500, 'Description must have at most 500 characters')
+  .nullable();
+
+export const organizationTeamRoleCodesSchema = z
+  .array(z.enum(SYSTEM_ROLE_CODES))
+  .refine((codes) => !codes.includes(DEFAULT_ORGANIZATION_OWNER_ROLE_CODE), {
+    message: 'Teams cannot grant the org_owner role',
+  });
+
+export const CreateOrganizationTeamSchema = z.object({
+  name: organizationTeamNameSchema,
+  description: organizationTeamDescriptionSchema.optional(),
+  roleCodes: organizationTeamRoleCodesSchema.default([]),
+});
+
+export const UpdateOrganizationTeamSchema = z
+  .object({
+    name: organizationTeamNameSchema.optional(),
+    description: organizationTeamDescriptionSchema.optional(),
+    roleCodes: organizationTeamRoleCodesSchema.optional(),
+  })
+  .refine(
+    (value) =>
+      value.name !== undefined ||
+      value.description !== undefined ||
+      value.roleCodes !== undefined,
+    {
+      message: 'Provide a name, a description or roleCodes',
+      path: ['name'],
+    },
+  );
+
+export const OrganizationTeamIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const OrganizationTeamMemberParamSchema = z.object({
+  id: snowflakeIdSchema,
+  userId: snowflakeIdSchema,
+});
+
+export const OrganizationTeamResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  name: z.string(),
+  description: z.string().nullable(),
+  roleCodes: z.array(z.enum(SYSTEM_ROLE_CODES)),
+  memberCount: z.number().int(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const OrganizationTeamListResponseSchema = z.array(OrganizationTeamResponseSchema);
+
+export const OrganizationTeamDetailResponseSchema = OrganizationTeamResponseSchema.extend({
+  members: z.array(
+    z.object({
+      userId: snowflakeIdSchema,
+      name: z.string(),
+      email: z.email(),
+      addedAt: z.iso.datetime(),
+    }),
+  ),
+});
+
+export type OrganizationTeamResponse = z.infer<typeof OrganizationTeamResponseSchema>;
+export type OrganizationTeamDetailResponse = z.infer<typeof OrganizationTeamDetailResponseSchema>;
+
+export function toOrganizationTeamResponseDto(team: OrganizationTeam): OrganizationTeamResponse {
+  return {
+    id: team.id,
+    name: team.name,
+    description: team.description,
+    roleCodes: team.roleCodes,
+    memberCount: team.memberCount,
+    createdAt: team.createdAt.toISOString(),
+    updatedAt: team.updatedAt.toISOString(),
+  };
+}
+
+export function toOrganizationTeamDetailResponseDto({
+  team,
+  members,
+}: {
+  team: OrganizationTeam;
+  members: OrganizationTeamMember[];
+}): OrganizationTeamDetailResponse {
+  return {
+    ...toOrganizationTeamResponseDto(team),
+    members: members.map((member) => ({
+      userId: member.userId,
+      name: member.name,
+      email: member.email,
+      addedAt: member.addedAt.toISOString(),
+    })),
+  };
+}
+
+export class CreateOrganizationTeamDto extends createZodDto(
+  CreateOrganizationTeamSchema,
+) { }
+
+export class UpdateOrganizationTeamDto extends createZodDto(
+  UpdateOrganizationTeamSchema,
+) { }
+
+export class OrganizationTeamIdParamDto extends createZodDto(
+  OrganizationTeamIdParamSchema,
+) { }
+
+export class OrganizationTeamMemberParamDto extends createZodDto(
+  OrganizationTeamMemberParamSchema,
+) { }
+
+export class OrganizationTeamResponseDto extends createZodDto(
+  OrganizationTeamResponseSchema,
+) { }
+
+export class OrganizationTeamListResponseDto extends createZodDto(
+  OrganizationTeamListResponseSchema,
+) { }
+
+export class OrganizationTeamDetailResponseDto extends createZodDto(
+  OrganizationTeamDetailResponseSchema,
+) { }
@@ -0,0 +1,12 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const UpdateOrganizationMfaPolicySchema = z.object({
+  required: z.boolean({
+    message: 'Required must be a boolean',
+  }),
+});
+
+export class UpdateOrganizationMfaPolicyDto extends createZodDto(
+  UpdateOrganizationMfaPolicySchema,
+) {}
@@ -0,0 +1,30 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { CreateOrganizationSchema } from './create-organization.dto';
+
+export const organizationSlugSchema = z
+  .string({
+    message: 'Slug must be a string',
+  })
+  .trim()
+  .toLowerCase()
+  .min(3, 'Slug must have at least 3 characters')
+  .max(63, 'Slug is too long')
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    'Slug may only contain lowercase letters, digits and single hyphens between them',
+  );
+
+export const UpdateOrganizationSchema = z
+  .object({
+    name: CreateOrganizationSchema.shape.name.optional(),
+    slug: organizationSlugSchema.nullable().optional(),
+  })
+  .refine((value) => value.name !== undefined || value.slug !== undefined, {
+    message: 'Provide a name or a slug',
+    path: ['name'],
+  });
+
+export class UpdateOrganizationDto extends createZodDto(
+  UpdateOrganizationSchema,
+) {}
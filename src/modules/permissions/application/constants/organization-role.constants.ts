@@ -0,0 +1,9 @@
+export const ORGANIZATION_ROLE_NOT_FOUND_MESSAGE = 'Organization role not found';
+export const ORGANIZATION_ROLE_CODE_TAKEN_MESSAGE =
+  'The code is already used by a system role or another role of the organization';
+export const ORGANIZATION_ROLE_IN_USE_MESSAGE =
+  'Members still hold this role. Reassign them to another role with `reassignTo`.';
+export const ORGANIZATION_ROLE_INVALID_REASSIGNMENT_MESSAGE =
+  'Members can only be reassigned to another existing role other than org_owner';
+export const ORGANIZATION_ROLE_PERMISSION_NOT_HELD_MESSAGE =
+  'Roles can only grant permissions you hold on every resource';
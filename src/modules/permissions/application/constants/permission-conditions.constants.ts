@@ -0,0 +1,61 @@
+import type { PermissionCode, PermissionFeatureCode } from './permissions.constants';
+
+/** The subset of the MongoDB query language accepted in permission conditions. */
+export const PERMISSION_CONDITION_OPERATORS = [
+  '$eq',
+  '$ne',
+  '$in',
+  '$nin',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+] as const;
+
+/** Operators accepted on list fields and with list variables. */
+export const PERMISSION_CONDITION_LIST_OPERATORS = ['$eq', '$ne', '$in', '$nin'] as const;
+
+/**
+ * Placeholders written as `${user.id}` and resolved when the ability of a
+ * member is built. `user.teamIds` is a list: on its own it reads as `$in`.
+ */
+export const PERMISSION_CONDITION_VARIABLES = [
+  'user.id',
+  'user.teamIds',
+  'organization.id',
+] as const;
+
+export const PERMISSION_CONDITION_LIST_VARIABLES = ['user.teamIds'] as const;
+
+export const PERMISSION_CONDITION_FIELD_TYPES = ['value', 'list'] as const;
+
+/**
+ * Fields conditions may test, per feature. Features that are not listed do not
+ * accept conditions: their resources cannot be checked nor filtered yet.
+ */
+export const PERMISSION_CONDITION_FIELDS: Partial<
+  Record<PermissionFeatureCode, Readonly<Record<string, PermissionConditionFieldType>>>
+> = {
+  users: {
+    id: 'value',
+    email: 'value',
+    name: 'value',
+    teamIds: 'list',
+  },
+};
+
+/**
+ * Permissions whose routes check each resource, through `@CheckAbility` with a
+ * subject resolver or `buildPermissionQueryFilter` on listings. Routes behind
+ * `@RequireOrganizationPermissions` only check the feature and would ignore
+ * the conditions, so conditions on any other permission are rejected. Add a
+ * code here together with the resolver or filter of its routes.
+ */
+export const PERMISSION_CONDITION_CODES: readonly PermissionCode[] = [
+  'users.read',
+  'users.manage',
+];
+
+export type PermissionConditionOperator = (typeof PERMISSION_CONDITION_OPERATORS)[number];
+export type PermissionConditionVariable = (typeof PERMISSION_CONDITION_VARIABLES)[number];
+export type PermissionConditionFieldType = (typeof PERMISSION_CONDITION_FIELD_TYPES)[number];
@@ -15,6 +15,7 @@ export const PERMISSION_ACTION_CODES = [
   'delete',
   'manage',
   'export',
+  'impersonate',
 ] as const;
 
 export const PERMISSION_CODES = [
@@ -23,10 +24,14 @@ export const PERMISSION_CODES = [
   'report_settings.read',
   'report_settings.update',
   'users.read',
+  'users.manage',
+  'users.impersonate',
 ] as const;
 
 export const PERMISSION_OVERRIDE_EFFECTS = ['allow', 'deny'] as const;
 
+export const PERMISSION_SOURCE_TYPES = ['role', 'team', 'override'] as const;
+
 export const SYSTEM_ROLE_CODES = [
   'org_owner',
   'org_admin',
@@ -34,14 +39,25 @@ export const SYSTEM_ROLE_CODES = [
   'org_report_manager',
 ] as const;
 
+/**
+ * Codes of the roles an organization creates itself. They are unique inside
+ * the organization and cannot reuse a system role code.
+ */
+export const CUSTOM_ROLE_CODE_PATTERN = /^[a-z][a-z0-9_]*$/;
+export const CUSTOM_ROLE_CODE_MAX_LENGTH = 64;
+
 export const DEFAULT_ORGANIZATION_OWNER_ROLE_CODE = 'org_owner';
+export const DEFAULT_ORGANIZATION_ADMIN_ROLE_CODE = 'org_admin';
 export const DEFAULT_ORGANIZATION_MEMBER_ROLE_CODE = 'org_member';
 
 export type PermissionFeatureCode = (typeof PERMISSION_FEATURE_CODES)[number];
 export type PermissionActionCode = (typeof PERMISSION_ACTION_CODES)[number];
 export type PermissionCode = (typeof PERMISSION_CODES)[number];
 export type PermissionOverrideEffect = (typeof PERMISSION_OVERRIDE_EFFECTS)[number];
+export type PermissionSourceType = (typeof PERMISSION_SOURCE_TYPES)[number];
 export type SystemRoleCode = (typeof SYSTEM_ROLE_CODES)[number];
+/** A system role code or the code of a custom role of the organization. */
+export type RoleCode = string;
 
 const FEATURE_CODE_SET = new Set<string>(PERMISSION_FEATURE_CODES);
 const ACTION_CODE_SET = new Set<string>(PERMISSION_ACTION_CODES);
@@ -0,0 +1,79 @@
+import type {
+  IPermissionsRepository,
+  OrganizationPermissionSnapshot,
+} from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
+import { PermissionsAbilityFactory } from './permissions-ability.factory';
+import { PermissionsRequestContextService } from './permissions-request-context.service';
+
+describe('PermissionsAbilityFactory', () => {
+  const snapshot: OrganizationPermissionSnapshot = {
+    userId: '1',
+    organizationId: '100',
+    legacyRole: 'member',
+    roleCodes: ['org_admin'],
+    teams: [],
+    overrides: [],
+    effectivePermissionCodes: ['users.read', 'users.manage'],
+    permissionSources: [
+      { permissionCode: 'users.read', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+      { permissionCode: 'users.manage', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+    ],
+  };
+  const getPermissionSnapshotForUser = jest.fn(() => Promise.resolve(snapshot));
+  const permissionsRequestContextService = new PermissionsRequestContextService();
+  const factory = new PermissionsAbilityFactory(
+    { getPermissionSnapshotForUser } as unknown as IPermissionsRepository,
+    new SessionStorageService(),
+    permissionsRequestContextService,
+  );
+  const session: AppSessionContext = {
+    authenticated: true,
+    userId: '1',
+    currentOrganizationId: '100',
+  };
+  const apiKeySession: AppSessionContext = { ...session, apiKeyScopes: ['users.read'] };
+
+  beforeEach(() => {
+    getPermissionSnapshotForUser.mockClear();
+  });
+
+  it('grants the whole snapshot to interactive sessions', async () => {
+    const permissions = await factory.buildForSession(session);
+
+    expect(permissions.effectivePermissionCodes).toEqual(['users.read', 'users.manage']);
+    expect(permissions.ability.can('manage', 'users')).toBe(true);
+  });
+
+  it('restricts API key sessions to the key scopes', async () => {
+    const permissions = await factory.buildForSession(apiKeySession);
+
+    expect(permissions.effectivePermissionCodes).toEqual(['users.read']);
+    expect(permissions.permissionSources.map(({ permissionCode }) => permissionCode)).toEqual([
+      'users.read',
+    ]);
+    expect(permissions.ability.can('read', 'users')).toBe(true);
+    expect(permissions.ability.can('manage', 'users')).toBe(false);
+  });
+
+  it('never serves an unscoped cached result to an API key session', async () => {
+    await permissionsRequestContextService.run(async () => {
+      await factory.buildForSession(session);
+      const permissions = await factory.buildForSession(apiKeySession);
+
+      expect(permissions.ability.can('manage', 'users')).toBe(false);
+      expect(getPermissionSnapshotForUser).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('reuses the result within a request for the same session', async () => {
+    await permissionsRequestContextService.run(async () => {
+      const first = await factory.buildForSession(apiKeySession);
+      const second = await factory.buildForSession({ ...apiKeySession });
+
+      expect(second).toBe(first);
+      expect(getPermissionSnapshotForUser).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -7,14 +7,17 @@ import {
   Inject,
   Injectable,
 } from '@nestjs/common';
+import { parsePermissionCode } from '@/modules/permissions/application/constants/permissions.constants';
 import {
-  parsePermissionCode,
-  type PermissionCode,
-} from '@/modules/permissions/application/constants/permissions.constants';
-import { type IPermissionsRepository, PERMISSIONS_REPOSITORY } from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+  type IPermissionsRepository,
+  type OrganizationPermissionSnapshot,
+  PERMISSIONS_REPOSITORY,
+} from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
 import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
 import type { AppAbility } from '../types/ability.types';
 import type { ResolvedPermissionsContext } from '../types/resolved-permissions-context.type';
+import { interpolatePermissionConditions } from '../utils/permission-conditions.util';
 import { PermissionsRequestContextService } from './permissions-request-context.service';
 
 @Injectable()
@@ -26,9 +29,19 @@ export class PermissionsAbilityFactory {
     private readonly permissionsRequestContextService: PermissionsRequestContextService,
   ) { }
 
-  async buildCurrent(): Promise<ResolvedPermissionsContext> {
-    const session = this.sessionStorageService.getStorageData();
+  buildCurrent(): Promise<ResolvedPermissionsContext> {
+    return this.buildForSession(this.sessionStorageService.getStorageData());
+  }
 
+  /**
+   * Resolves the permissions of the session user in its current organization.
+   * API key sessions are restricted to the intersection with the key scopes.
+   * Only the final result is cached for the request, keyed by the scopes too,
+   * so an unscoped snapshot is never served to an API key session.
+   */
+  async buildForSession(
+    session?: AppSessionContext,
+  ): Promise<ResolvedPermissionsContext> {
     if (!session?.userId) {
       throw new ConflictException('Current user context is not available');
     }
@@ -37,27 +50,42 @@ export class PermissionsAbilityFactory {
       throw new ConflictException('Current organization is not selected');
     }
 
-    return this.buildForUserInOrganization(
+    const cacheKey = JSON.stringify([
       session.userId,
       session.currentOrganizationId,
-    );
-  }
-
-  async buildForUserInOrganization(
-    userId: string,
-    organizationId: string,
-  ): Promise<ResolvedPermissionsContext> {
+      session.apiKeyScopes ?? null,
+    ]);
     const cachedPermissions =
-      this.permissionsRequestContextService.getResolvedPermissions();
+      this.permissionsRequestContextService.getResolvedPermissions(cacheKey);
 
-    if (
-      cachedPermissions &&
-      cachedPermissions.userId === userId &&
-      cachedPermissions.organizationId === organizationId
-    ) {
+    if (cachedPermissions) {
       return cachedPermissions;
     }
 
+    const snapshot = await this.loadSnapshot(
+      session.userId,
+      session.currentOrganizationId,
+    );
+    const scopedSnapshot = session.apiKeyScopes
+      ? this.restrictToScopes(snapshot, session.apiKeyScopes)
+      : snapshot;
+    const resolvedPermissions: ResolvedPermissionsContext = {
+      ...scopedSnapshot,
+      ability: this.createAbility(scopedSnapshot),
+    };
+
+    this.permissionsRequestContextService.setResolvedPermissions(
+      cacheKey,
+      resolvedPermissions,
+    );
+
+    return resolvedPermissions;
+  }
+
+  private async loadSnapshot(
+    userId: string,
+    organizationId: string,
+  ): Promise<OrganizationPermissionSnapshot> {
     const snapshot = await this.permissionsRepository.getPermissionSnapshotForUser(
       userId,
       organizationId,
@@ -67,31 +95,75 @@ export class PermissionsAbilityFactory {
       throw new ConflictException('Current organization is not accessible');
     }
 
-    const resolvedPermissions: ResolvedPermissionsContext = {
-      ...snapshot,
-      ability: this.createAbility(snapshot.effectivePermissionCodes),
-    };
+    return snapshot;
+  }
 
-    this.permissionsRequestContextService.setResolvedPermissions(
-      resolvedPermissions,
-    );
+  private restrictToScopes(
+    snapshot: OrganizationPermissionSnapshot,
+    apiKeyScopes: string[],
+  ): OrganizationPermissionSnapshot {
+    const scopes = new Set(apiKeyScopes);
 
-    return resolvedPermissions;
+    return {
+      ...snapshot,
+      effectivePermissionCodes: snapshot.effectivePermissionCodes.filter(
+        (permissionCode) => scopes.has(permissionCode),
+      ),
+      permissionSources: snapshot.permissionSources.filter((permissionSource) =>
+        scopes.has(permissionSource.permissionCode),
+      ),
+    };
   }
 
-  private createAbility(
-    permissionCodes: readonly PermissionCode[],
-  ): AppAbility {
-    const { can, build } = new AbilityBuilder<AppAbility>(createMongoAbility);
+  /**
+   * A permission with at least one unconditional source is granted on every
+   * resource; otherwise it is granted once per distinct set of conditions.
+   * Conditional `deny` overrides are added last so they take precedence.
+   */
+  private createAbility(snapshot: OrganizationPermissionSnapshot): AppAbility {
+    const { can, cannot, build } = new AbilityBuilder<AppAbility>(createMongoAbility);
+    const variables = {
+      userId: snapshot.userId,
+      teamIds: snapshot.teams.map((team) => team.id),
+      organizationId: snapshot.organizationId,
+    };
 
-    permissionCodes.forEach((permissionCode) => {
+    snapshot.permissionSources.forEach(({ permissionCode, sources }) => {
       const parsedPermission = parsePermissionCode(permissionCode);
 
       if (!parsedPermission) {
         return;
       }
 
-      can(parsedPermission.action, parsedPermission.feature);
+      const conditionSets = sources.map((source) => source.conditions);
+
+      if (!conditionSets.every((conditions) => conditions !== undefined)) {
+        can(parsedPermission.action, parsedPermission.feature);
+        return;
+      }
+
+      new Map(
+        conditionSets.map((conditions) => [JSON.stringify(conditions), conditions]),
+      ).forEach((conditions) => {
+        can(
+          parsedPermission.action,
+          parsedPermission.feature,
+          interpolatePermissionConditions(conditions, variables),
+        );
+      });
+    });
+    snapshot.overrides.forEach((override) => {
+      const parsedPermission = parsePermissionCode(override.permissionCode);
+
+      if (!parsedPermission || override.effect !== 'deny' || !override.conditions) {
+        return;
+      }
+
+      cannot(
+        parsedPermission.action,
+        parsedPermission.feature,
+        interpolatePermissionConditions(override.conditions, variables),
+      );
     });
 
     return build();
@@ -3,7 +3,10 @@ import { AsyncLocalStorage } from 'async_hooks';
 import type { ResolvedPermissionsContext } from '../types/resolved-permissions-context.type';
 
 interface PermissionsRequestContextStore {
-  resolvedPermissions?: ResolvedPermissionsContext;
+  resolvedPermissions?: {
+    cacheKey: string;
+    permissions: ResolvedPermissionsContext;
+  };
 }
 
 @Injectable()
@@ -14,18 +17,25 @@ export class PermissionsRequestContextService {
     return this.storage.run({}, callback);
   }
 
-  getResolvedPermissions(): ResolvedPermissionsContext | undefined {
-    return this.storage.getStore()?.resolvedPermissions;
+  getResolvedPermissions(cacheKey: string): ResolvedPermissionsContext | undefined {
+    const resolvedPermissions = this.storage.getStore()?.resolvedPermissions;
+
+    return resolvedPermissions?.cacheKey === cacheKey
+      ? resolvedPermissions.permissions
+      : undefined;
   }
 
-  setResolvedPermissions(resolvedPermissions: ResolvedPermissionsContext): void {
+  setResolvedPermissions(
+    cacheKey: string,
+    resolvedPermissions: ResolvedPermissionsContext,
+  ): void {
     const store = this.storage.getStore();
 
     if (!store) {
       return;
     }
 
-    store.resolvedPermissions = resolvedPermissions;
+    store.resolvedPermissions = { cacheKey, permissions: resolvedPermissions };
   }
 
   clearResolvedPermissions(): void {
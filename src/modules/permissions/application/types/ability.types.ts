@@ -1,9 +1,17 @@
-import type { MongoAbility } from '@casl/ability';
+import type { ForcedSubject, MongoAbility } from '@casl/ability';
 import type {
   PermissionActionCode,
   PermissionFeatureCode,
 } from '../constants/permissions.constants';
 
-export type AppAbility = MongoAbility<
-  [PermissionActionCode, PermissionFeatureCode | 'all']
->;
+/**
+ * A resource checked against the conditions of the permissions. Tag it with
+ * CASL's `subject()`, e.g. `subject('users', user)`.
+ */
+export type AppSubjectResource = {
+  [TFeature in PermissionFeatureCode]: ForcedSubject<TFeature> & Record<string, any>;
+}[PermissionFeatureCode];
+
+export type AppSubject = PermissionFeatureCode | 'all' | AppSubjectResource;
+
+export type AppAbility = MongoAbility<[PermissionActionCode, AppSubject]>;
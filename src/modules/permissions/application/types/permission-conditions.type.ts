@@ -0,0 +1,25 @@
+import type { PermissionConditionOperator } from '../constants/permission-conditions.constants';
+
+export type PermissionConditionValue = string | number | boolean | null;
+
+/** A value, compared for equality, or operators combined with AND. */
+export type PermissionFieldCondition =
+  | PermissionConditionValue
+  | {
+    [TOperator in PermissionConditionOperator]?:
+      | PermissionConditionValue
+      | PermissionConditionValue[];
+  };
+
+/**
+ * Attribute conditions of a grant, keyed by field and combined with AND, e.g.
+ * `{ "teamIds": { "$in": "${user.teamIds}" } }`.
+ */
+export type PermissionConditions = Record<string, PermissionFieldCondition>;
+
+/** Values of the condition placeholders for one member. */
+export interface PermissionConditionVariables {
+  userId: string;
+  teamIds: string[];
+  organizationId: string;
+}
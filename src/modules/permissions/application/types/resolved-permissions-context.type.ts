@@ -1,22 +1,23 @@
 import type { OrganizationMembershipRole } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type {
+  EffectivePermissionSource,
+  OrganizationPermissionSnapshotTeam,
+  PermissionOverrideAssignment,
+} from '@/modules/permissions/domain/repositories/permissions.repository.interface';
 import type { AppAbility } from './ability.types';
 import type {
   PermissionCode,
-  PermissionOverrideEffect,
-  SystemRoleCode,
+  RoleCode,
 } from '../constants/permissions.constants';
 
-export interface PermissionOverrideAssignment {
-  permissionCode: PermissionCode;
-  effect: PermissionOverrideEffect;
-}
-
 export interface ResolvedPermissionsContext {
   userId: string;
   organizationId: string;
   legacyRole: OrganizationMembershipRole;
-  roleCodes: SystemRoleCode[];
+  roleCodes: RoleCode[];
+  teams: OrganizationPermissionSnapshotTeam[];
   overrides: PermissionOverrideAssignment[];
   effectivePermissionCodes: PermissionCode[];
+  permissionSources: EffectivePermissionSource[];
   ability: AppAbility;
 }
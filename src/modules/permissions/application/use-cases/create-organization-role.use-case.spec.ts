@@ -0,0 +1,105 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { OrganizationRole } from '@/modules/permissions/domain/entities/organization-role.entity';
+import type { IOrganizationRoleRepository } from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import type { OrganizationPermissionSnapshot } from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import type { PermissionsAbilityFactory } from '../services/permissions-ability.factory';
+import { CreateOrganizationRoleUseCase } from './create-organization-role.use-case';
+
+describe('CreateOrganizationRoleUseCase', () => {
+  const existingRole = new OrganizationRole({ id: '10', organizationId: '100', code: 'financeiro' });
+  const organizationRoleRepository = {
+    findByCode: jest.fn((organizationId: string, code: string) =>
+      Promise.resolve(
+        organizationId === existingRole.organizationId && code === existingRole.code
+          ? existingRole
+          : null,
+      ),
+    ),
+    create: jest.fn((data: Partial<OrganizationRole>) =>
+      Promise.resolve(new OrganizationRole({ ...data, id: '11', isSystem: false, memberCount: 0 })),
+    ),
+  };
+  let callerPermissions: Pick<OrganizationPermissionSnapshot, 'permissionSources' | 'overrides'>;
+  const useCase = new CreateOrganizationRoleUseCase(
+    organizationRoleRepository as unknown as IOrganizationRoleRepository,
+    { buildCurrent: () => Promise.resolve(callerPermissions) } as unknown as PermissionsAbilityFactory,
+  );
+
+  beforeEach(() => {
+    callerPermissions = {
+      permissionSources: [
+        { permissionCode: 'organization_members.manage', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+        { permissionCode: 'users.read', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+        { permissionCode: 'reports.export', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+      ],
+      overrides: [],
+    };
+    jest.clearAllMocks();
+  });
+
+  it('creates a role scoped to the organization', async () => {
+    const result = await useCase.execute({
+      organizationId: '100',
+      code: 'suporte',
+      name: 'Suporte',
+      permissionCodes: ['users.read'],
+      permissionConditions: { 'users.read': { teamIds: { $in: '${user.teamIds}' } } },
+    });
+
+    expect(result.data).toMatchObject({ organizationId: '100', code: 'suporte', isSystem: false });
+    expect(organizationRoleRepository.create).toHaveBeenCalledWith({
+      organizationId: '100',
+      code: 'suporte',
+      name: 'Suporte',
+      description: null,
+      permissionCodes: ['users.read'],
+      permissionConditions: { 'users.read': { teamIds: { $in: '${user.teamIds}' } } },
+    });
+  });
+
+  it.each(['org_owner', 'org_admin'])('rejects the system role code %s', async (code) => {
+    await expect(
+      useCase.execute({ organizationId: '100', code, name: 'Fake', permissionCodes: [] }),
+    ).rejects.toThrow(ConflictException);
+    expect(organizationRoleRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a code already used in the organization only', async () => {
+    await expect(
+      useCase.execute({ organizationId: '100', code: 'financeiro', name: 'Dup', permissionCodes: [] }),
+    ).rejects.toThrow(ConflictException);
+    await expect(
+      useCase.execute({ organizationId: '200', code: 'financeiro', name: 'Other', permissionCodes: [] }),
+    ).resolves.toMatchObject({ data: { organizationId: '200', code: 'financeiro' } });
+  });
+
+  it('rejects permissions the caller does not hold', async () => {
+    const error = await useCase.execute({
+      organizationId: '100',
+      code: 'suporte',
+      name: 'Suporte',
+      permissionCodes: ['users.read', 'users.impersonate', 'users.manage'],
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toMatchObject({
+      errors: [{ permissionCode: 'users.impersonate' }, { permissionCode: 'users.manage' }],
+    });
+    expect(organizationRoleRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects permissions the caller holds only under conditions or with a deny', async () => {
+    callerPermissions.permissionSources.push({
+      permissionCode: 'users.manage',
+      sources: [{ type: 'override', conditions: { teamIds: { $in: '${user.teamIds}' } } }],
+    });
+    callerPermissions.overrides.push({ permissionCode: 'reports.export', effect: 'deny', conditions: { id: '1' } });
+
+    for (const permissionCode of ['users.manage', 'reports.export'] as const) {
+      await expect(
+        useCase.execute({ organizationId: '100', code: 'suporte', name: 'Suporte', permissionCodes: [permissionCode] }),
+      ).rejects.toThrow(ForbiddenException);
+    }
+    expect(organizationRoleRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_ROLE_REPOSITORY,
+  type IOrganizationRoleRepository,
+} from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import {
+  ORGANIZATION_ROLE_CODE_TAKEN_MESSAGE,
+  ORGANIZATION_ROLE_PERMISSION_NOT_HELD_MESSAGE,
+} from '../constants/organization-role.constants';
+import {
+  isSystemRoleCode,
+  type PermissionCode,
+  type RoleCode,
+} from '../constants/permissions.constants';
+import { PermissionsAbilityFactory } from '../services/permissions-ability.factory';
+import type { PermissionConditions } from '../types/permission-conditions.type';
+import { listUngrantablePermissionCodes } from '../utils/permission-grant.util';
+
+export interface CreateOrganizationRoleInput {
+  organizationId: string;
+  code: RoleCode;
+  name: string;
+  description?: string | null;
+  permissionCodes: PermissionCode[];
+  permissionConditions?: Partial<Record<PermissionCode, PermissionConditions>>;
+}
+
+@Injectable()
+export class CreateOrganizationRoleUseCase {
+  constructor(
+    @Inject(ORGANIZATION_ROLE_REPOSITORY)
+    private readonly organizationRoleRepository: IOrganizationRoleRepository,
+    private readonly permissionsAbilityFactory: PermissionsAbilityFactory,
+  ) {}
+
+  /** Runs in the request of the member creating the role, who must hold its permissions. */
+  async execute(input: CreateOrganizationRoleInput) {
+    const ungrantableCodes = listUngrantablePermissionCodes(
+      await this.permissionsAbilityFactory.buildCurrent(),
+      input.permissionCodes,
+    );
+
+    if (ungrantableCodes.length > 0) {
+      throw new ForbiddenException({
+        message: ORGANIZATION_ROLE_PERMISSION_NOT_HELD_MESSAGE,
+        errors: ungrantableCodes.map((permissionCode) => ({ permissionCode })),
+      });
+    }
+
+    if (
+      isSystemRoleCode(input.code) ||
+      (await this.organizationRoleRepository.findByCode(input.organizationId, input.code))
+    ) {
+      throw new ConflictException(ORGANIZATION_ROLE_CODE_TAKEN_MESSAGE);
+    }
+
+    const role = await this.organizationRoleRepository.create({
+      organizationId: input.organizationId,
+      code: input.code,
+      name: input.name,
+      description: input.description ?? null,
+      permissionCodes: input.permissionCodes,
+      permissionConditions: input.permissionConditions ?? {},
+    });
+
+    return {
+      data: role,
+      message: 'Organization role created successfully',
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrganizationRole } from '@/modules/permissions/domain/entities/organization-role.entity';
+import type { IOrganizationRoleRepository } from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import { DeleteOrganizationRoleUseCase } from './delete-organization-role.use-case';
+
+describe('DeleteOrganizationRoleUseCase', () => {
+  const roles = [
+    new OrganizationRole({ id: '1', organizationId: null, code: 'org_owner', isSystem: true }),
+    new OrganizationRole({ id: '3', organizationId: null, code: 'org_member', isSystem: true }),
+    new OrganizationRole({ id: '10', organizationId: '100', code: 'financeiro', isSystem: false }),
+  ];
+  let memberCount: number;
+  const organizationRoleRepository = {
+    findCustomById: jest.fn((id: string, organizationId: string) => {
+      const role = roles.find((candidate) =>
+        !candidate.isSystem && candidate.id === id && candidate.organizationId === organizationId,
+      );
+
+      return Promise.resolve(role ? new OrganizationRole({ ...role, memberCount }) : null);
+    }),
+    findByCode: jest.fn((_organizationId: string, code: string) =>
+      Promise.resolve(roles.find((candidate) => candidate.code === code) ?? null),
+    ),
+    delete: jest.fn(() => Promise.resolve(true)),
+  };
+  const useCase = new DeleteOrganizationRoleUseCase(
+    organizationRoleRepository as unknown as IOrganizationRoleRepository,
+  );
+
+  beforeEach(() => {
+    memberCount = 0;
+    jest.clearAllMocks();
+  });
+
+  it('deletes an unused custom role', async () => {
+    await useCase.execute({ organizationId: '100', roleId: '10' });
+
+    expect(organizationRoleRepository.delete).toHaveBeenCalledWith('10', '100', undefined);
+  });
+
+  it('does not delete system roles or roles of another organization', async () => {
+    await expect(useCase.execute({ organizationId: '100', roleId: '1' }))
+      .rejects.toThrow(NotFoundException);
+    await expect(useCase.execute({ organizationId: '200', roleId: '10' }))
+      .rejects.toThrow(NotFoundException);
+    expect(organizationRoleRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('requires a reassignment while members hold the role', async () => {
+    memberCount = 2;
+
+    await expect(useCase.execute({ organizationId: '100', roleId: '10' }))
+      .rejects.toThrow(ConflictException);
+    await useCase.execute({ organizationId: '100', roleId: '10', reassignTo: 'org_member' });
+
+    expect(organizationRoleRepository.delete).toHaveBeenCalledWith('10', '100', '3');
+  });
+
+  it.each(['org_owner', 'financeiro', 'missing'])(
+    'refuses to reassign the members to %s',
+    async (reassignTo) => {
+      memberCount = 2;
+
+      await expect(useCase.execute({ organizationId: '100', roleId: '10', reassignTo }))
+        .rejects.toThrow(BadRequestException);
+      expect(organizationRoleRepository.delete).not.toHaveBeenCalled();
+    },
+  );
+});
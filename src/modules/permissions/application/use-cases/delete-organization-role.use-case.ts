@@ -0,0 +1,78 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_ROLE_REPOSITORY,
+  type IOrganizationRoleRepository,
+} from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import {
+  ORGANIZATION_ROLE_IN_USE_MESSAGE,
+  ORGANIZATION_ROLE_INVALID_REASSIGNMENT_MESSAGE,
+  ORGANIZATION_ROLE_NOT_FOUND_MESSAGE,
+} from '../constants/organization-role.constants';
+import {
+  DEFAULT_ORGANIZATION_OWNER_ROLE_CODE,
+  type RoleCode,
+} from '../constants/permissions.constants';
+
+export interface DeleteOrganizationRoleInput {
+  organizationId: string;
+  roleId: string;
+  /** Role granted to the members holding the deleted role. */
+  reassignTo?: RoleCode;
+}
+
+@Injectable()
+export class DeleteOrganizationRoleUseCase {
+  constructor(
+    @Inject(ORGANIZATION_ROLE_REPOSITORY)
+    private readonly organizationRoleRepository: IOrganizationRoleRepository,
+  ) {}
+
+  async execute(input: DeleteOrganizationRoleInput) {
+    const role = await this.organizationRoleRepository.findCustomById(
+      input.roleId,
+      input.organizationId,
+    );
+
+    if (!role) {
+      throw new NotFoundException(ORGANIZATION_ROLE_NOT_FOUND_MESSAGE);
+    }
+
+    let reassignToRoleId: string | undefined;
+
+    if (role.memberCount > 0) {
+      if (!input.reassignTo) {
+        throw new ConflictException(ORGANIZATION_ROLE_IN_USE_MESSAGE);
+      }
+
+      // Ownership is only handed over through the ownership transfer flow.
+      const targetRole = input.reassignTo !== DEFAULT_ORGANIZATION_OWNER_ROLE_CODE
+        ? await this.organizationRoleRepository.findByCode(
+          input.organizationId,
+          input.reassignTo,
+        )
+        : null;
+
+      if (!targetRole || targetRole.id === role.id) {
+        throw new BadRequestException(ORGANIZATION_ROLE_INVALID_REASSIGNMENT_MESSAGE);
+      }
+
+      reassignToRoleId = targetRole.id;
+    }
+
+    await this.organizationRoleRepository.delete(
+      role.id,
+      input.organizationId,
+      reassignToRoleId,
+    );
+
+    return {
+      message: 'Organization role deleted successfully',
+    };
+  }
+}
@@ -1,29 +1,29 @@
-import {
-  Inject,
-  Injectable,
-  NotFoundException,
-} from '@nestjs/common';
-import {
-  PERMISSIONS_REPOSITORY,
-  type IPermissionsRepository,
-} from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import { Injectable } from '@nestjs/common';
+import { PermissionsAbilityFactory } from '@/modules/permissions/application/services/permissions-ability.factory';
+import type { OrganizationPermissionSnapshot } from '@/modules/permissions/domain/repositories/permissions.repository.interface';
 
 @Injectable()
 export class GetCurrentPermissionsUseCase {
   constructor(
-    @Inject(PERMISSIONS_REPOSITORY)
-    private readonly permissionsRepository: IPermissionsRepository,
+    private readonly permissionsAbilityFactory: PermissionsAbilityFactory,
   ) {}
 
-  async execute(userId: string, organizationId: string) {
-    const snapshot = await this.permissionsRepository.getPermissionSnapshotForUser(
-      userId,
-      organizationId,
-    );
-
-    if (!snapshot) {
-      throw new NotFoundException('Current organization member access not found');
-    }
+  /**
+   * Resolves through the same path as the permission guards, so API key
+   * sessions only see the permissions their scopes grant.
+   */
+  async execute() {
+    const permissions = await this.permissionsAbilityFactory.buildCurrent();
+    const snapshot: OrganizationPermissionSnapshot = {
+      userId: permissions.userId,
+      organizationId: permissions.organizationId,
+      legacyRole: permissions.legacyRole,
+      roleCodes: permissions.roleCodes,
+      teams: permissions.teams,
+      overrides: permissions.overrides,
+      effectivePermissionCodes: permissions.effectivePermissionCodes,
+      permissionSources: permissions.permissionSources,
+    };
 
     return {
       data: snapshot,
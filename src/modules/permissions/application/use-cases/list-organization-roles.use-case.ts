@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  ORGANIZATION_ROLE_REPOSITORY,
+  type IOrganizationRoleRepository,
+} from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+
+@Injectable()
+export class ListOrganizationRolesUseCase {
+  constructor(
+    @Inject(ORGANIZATION_ROLE_REPOSITORY)
+    private readonly organizationRoleRepository: IOrganizationRoleRepository,
+  ) {}
+
+  async execute(organizationId: string) {
+    const roles = await this.organizationRoleRepository.listForOrganization(organizationId);
+
+    return {
+      data: roles,
+      message: 'Organization roles retrieved successfully',
+    };
+  }
+}
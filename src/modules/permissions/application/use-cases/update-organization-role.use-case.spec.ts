@@ -0,0 +1,47 @@
+import { ForbiddenException } from '@nestjs/common';
+import { OrganizationRole } from '@/modules/permissions/domain/entities/organization-role.entity';
+import type { IOrganizationRoleRepository } from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import type { PermissionsAbilityFactory } from '../services/permissions-ability.factory';
+import { UpdateOrganizationRoleUseCase } from './update-organization-role.use-case';
+
+describe('UpdateOrganizationRoleUseCase', () => {
+  const organizationRoleRepository = {
+    update: jest.fn(() => Promise.resolve(new OrganizationRole({ id: '10', code: 'suporte' }))),
+  };
+  const buildCurrent = jest.fn(() => Promise.resolve({
+    permissionSources: [
+      { permissionCode: 'organization_members.manage', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+      { permissionCode: 'users.read', sources: [{ type: 'role', roleCode: 'org_admin' }] },
+    ],
+    overrides: [],
+  }));
+  const useCase = new UpdateOrganizationRoleUseCase(
+    organizationRoleRepository as unknown as IOrganizationRoleRepository,
+    { buildCurrent } as unknown as PermissionsAbilityFactory,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects adding a permission the caller does not hold', async () => {
+    await expect(
+      useCase.execute({ organizationId: '100', roleId: '10', permissionCodes: ['users.read', 'users.impersonate'] }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(organizationRoleRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('updates permissions the caller holds', async () => {
+    await useCase.execute({ organizationId: '100', roleId: '10', permissionCodes: ['users.read'] });
+
+    expect(organizationRoleRepository.update).toHaveBeenCalledWith('10', '100', expect.objectContaining({
+      permissionCodes: ['users.read'],
+    }));
+  });
+
+  it('does not check permissions when only the name changes', async () => {
+    await useCase.execute({ organizationId: '100', roleId: '10', name: 'Suporte N2' });
+
+    expect(buildCurrent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_ROLE_REPOSITORY,
+  type IOrganizationRoleRepository,
+} from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import {
+  ORGANIZATION_ROLE_NOT_FOUND_MESSAGE,
+  ORGANIZATION_ROLE_PERMISSION_NOT_HELD_MESSAGE,
+} from '../constants/organization-role.constants';
+import type { PermissionCode } from '../constants/permissions.constants';
+import { PermissionsAbilityFactory } from '../services/permissions-ability.factory';
+import type { PermissionConditions } from '../types/permission-conditions.type';
+import { listUngrantablePermissionCodes } from '../utils/permission-grant.util';
+
+export interface UpdateOrganizationRoleInput {
+  organizationId: string;
+  roleId: string;
+  name?: string;
+  description?: string | null;
+  permissionCodes?: PermissionCode[];
+  permissionConditions?: Partial<Record<PermissionCode, PermissionConditions>>;
+}
+
+@Injectable()
+export class UpdateOrganizationRoleUseCase {
+  constructor(
+    @Inject(ORGANIZATION_ROLE_REPOSITORY)
+    private readonly organizationRoleRepository: IOrganizationRoleRepository,
+    private readonly permissionsAbilityFactory: PermissionsAbilityFactory,
+  ) {}
+
+  /** Runs in the request of the member changing the role, who must hold its new permissions. */
+  async execute(input: UpdateOrganizationRoleInput) {
+    if (input.permissionCodes) {
+      const ungrantableCodes = listUngrantablePermissionCodes(
+        await this.permissionsAbilityFactory.buildCurrent(),
+        input.permissionCodes,
+      );
+
+      if (ungrantableCodes.length > 0) {
+        throw new ForbiddenException({
+          message: ORGANIZATION_ROLE_PERMISSION_NOT_HELD_MESSAGE,
+          errors: ungrantableCodes.map((permissionCode) => ({ permissionCode })),
+        });
+      }
+    }
+
+    const role = await this.organizationRoleRepository.update(
+      input.roleId,
+      input.organizationId,
+      {
+        name: input.name,
+        description: input.description,
+        permissionCodes: input.permissionCodes,
+        permissionConditions: input.permissionConditions,
+      },
+    );
+
+    if (!role) {
+      throw new NotFoundException(ORGANIZATION_ROLE_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      data: role,
+      message: 'Organization role updated successfully',
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  interpolatePermissionConditions,
+  listPermissionConditionsIssues,
+} from './permission-conditions.util';
+
+describe('permission-conditions.util', () => {
+  const variables = {
+    userId: '1001',
+    teamIds: ['2001', '2002'],
+    organizationId: '3001',
+  };
+
+  it('replaces placeholders with the values of the member', () => {
+    expect(
+      interpolatePermissionConditions(
+        {
+          id: { $ne: '${user.id}' },
+          organizationId: '${organization.id}',
+          name: 'Jane',
+        },
+        variables,
+      ),
+    ).toEqual({
+      id: { $ne: '1001' },
+      organizationId: '3001',
+      name: 'Jane',
+    });
+  });
+
+  it('reads a list placeholder compared for equality as $in', () => {
+    expect(
+      interpolatePermissionConditions({ teamIds: '${user.teamIds}' }, variables),
+    ).toEqual({ teamIds: { $in: ['2001', '2002'] } });
+  });
+
+  it('flattens list placeholders inside $in and $nin', () => {
+    expect(
+      interpolatePermissionConditions(
+        {
+          teamIds: { $in: '${user.teamIds}' },
+          id: { $nin: ['${user.id}', '1002'] },
+        },
+        variables,
+      ),
+    ).toEqual({
+      teamIds: { $in: ['2001', '2002'] },
+      id: { $nin: ['1001', '1002'] },
+    });
+  });
+
+  it('keeps unknown placeholders as plain strings', () => {
+    expect(
+      interpolatePermissionConditions({ id: '${user.email}' }, variables),
+    ).toEqual({ id: '${user.email}' });
+  });
+
+  it('accepts known fields and placeholders', () => {
+    expect(
+      listPermissionConditionsIssues('users.read', {
+        id: { $ne: '${user.id}' },
+        teamIds: { $in: '${user.teamIds}' },
+      }),
+    ).toEqual([]);
+  });
+
+  it('rejects conditions on features without condition fields', () => {
+    expect(
+      listPermissionConditionsIssues('report_settings.read', { id: '1' }),
+    ).toEqual(['Conditions are not supported on report_settings.read']);
+  });
+
+  it('rejects conditions on permissions whose routes do not check each resource', () => {
+    expect(
+      listPermissionConditionsIssues('users.impersonate', { id: '${user.id}' }),
+    ).toEqual(['Conditions are not supported on users.impersonate']);
+  });
+
+  it('rejects empty conditions and unknown fields', () => {
+    expect(listPermissionConditionsIssues('users.read', {})).toEqual([
+      'Conditions must test at least one field',
+    ]);
+    expect(listPermissionConditionsIssues('users.read', { password: 'x' })).toEqual([
+      'Unknown condition field "password" on users',
+    ]);
+  });
+
+  it('restricts list fields to equality and membership operators', () => {
+    expect(
+      listPermissionConditionsIssues('users.read', { teamIds: { $gt: '1' } }),
+    ).toEqual(['Condition on "teamIds" only accepts $eq, $ne, $in, $nin']);
+  });
+
+  it('rejects unknown placeholders and lists used as single values', () => {
+    expect(
+      listPermissionConditionsIssues('users.read', {
+        id: { $eq: '${user.teamIds}' },
+        email: '${user.email}',
+      }),
+    ).toEqual([
+      '"${user.teamIds}" is a list and can only be used with $in or $nin on "id"',
+      'Unknown condition variable "${user.email}" on "email"',
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  PERMISSION_CONDITION_CODES,
+  PERMISSION_CONDITION_FIELDS,
+  PERMISSION_CONDITION_LIST_OPERATORS,
+  PERMISSION_CONDITION_LIST_VARIABLES,
+  PERMISSION_CONDITION_VARIABLES,
+  type PermissionConditionVariable,
+} from '../constants/permission-conditions.constants';
+import {
+  parsePermissionCode,
+  type PermissionCode,
+} from '../constants/permissions.constants';
+import type {
+  PermissionConditions,
+  PermissionConditionValue,
+  PermissionConditionVariables,
+  PermissionFieldCondition,
+} from '../types/permission-conditions.type';
+
+const CONDITION_VARIABLE_PATTERN = /^\$\{([^}]+)\}$/;
+const LIST_OPERATOR_SET = new Set<string>(PERMISSION_CONDITION_LIST_OPERATORS);
+const LIST_VARIABLE_SET = new Set<string>(PERMISSION_CONDITION_LIST_VARIABLES);
+const LIST_OPERATORS_LABEL = PERMISSION_CONDITION_LIST_OPERATORS.join(', ');
+
+/**
+ * Checks that the permission accepts conditions and the fields and
+ * placeholders they use. The structure itself (operators, value types) is
+ * left to the request schema.
+ */
+export function listPermissionConditionsIssues(
+  permissionCode: PermissionCode,
+  conditions: PermissionConditions,
+): string[] {
+  const featureCode = parsePermissionCode(permissionCode)?.feature;
+  const fields = featureCode ? PERMISSION_CONDITION_FIELDS[featureCode] : undefined;
+
+  if (!featureCode || !fields || !PERMISSION_CONDITION_CODES.includes(permissionCode)) {
+    return [`Conditions are not supported on ${permissionCode}`];
+  }
+
+  const entries = Object.entries(conditions);
+
+  if (entries.length === 0) {
+    return ['Conditions must test at least one field'];
+  }
+
+  return entries.flatMap(([field, condition]) => {
+    const fieldType = Object.hasOwn(fields, field) ? fields[field] : undefined;
+
+    if (!fieldType) {
+      return [`Unknown condition field "${field}" on ${featureCode}`];
+    }
+
+    if (!isOperatorCondition(condition)) {
+      return listVariableIssues(field, condition, true);
+    }
+
+    const operands = Object.entries(condition);
+
+    if (operands.length === 0) {
+      return [`Condition on "${field}" must use at least one operator`];
+    }
+
+    return operands.flatMap(([operator, operand]) => {
+      const acceptsList = operator === '$in' || operator === '$nin';
+
+      if (fieldType === 'list' && !LIST_OPERATOR_SET.has(operator)) {
+        return [`Condition on "${field}" only accepts ${LIST_OPERATORS_LABEL}`];
+      }
+
+      if (Array.isArray(operand)) {
+        return operand.flatMap((value) => listVariableIssues(field, value, true));
+      }
+
+      return listVariableIssues(field, operand ?? null, acceptsList);
+    });
+  });
+}
+
+/**
+ * Replaces the `${…}` placeholders with the values of the member. A list
+ * placeholder compared for equality becomes `$in`, and lists inside `$in` or
+ * `$nin` are flattened. Unknown placeholders are kept as plain strings.
+ */
+export function interpolatePermissionConditions(
+  conditions: PermissionConditions,
+  variables: PermissionConditionVariables,
+): PermissionConditions {
+  return Object.fromEntries(
+    Object.entries(conditions).map(([field, condition]) => {
+      if (!isOperatorCondition(condition)) {
+        const value = resolveConditionValue(condition, variables);
+
+        return [field, Array.isArray(value) ? { $in: value } : value];
+      }
+
+      return [
+        field,
+        Object.fromEntries(
+          Object.entries(condition).map(([operator, operand]) => [
+            operator,
+            Array.isArray(operand)
+              ? operand.flatMap((value) => resolveConditionValue(value, variables))
+              : resolveConditionValue(operand ?? null, variables),
+          ]),
+        ),
+      ];
+    }),
+  );
+}
+
+function isOperatorCondition(
+  condition: PermissionFieldCondition,
+): condition is Exclude<PermissionFieldCondition, PermissionConditionValue> {
+  return condition !== null && typeof condition === 'object';
+}
+
+function parseConditionVariable(value: PermissionConditionValue): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  return CONDITION_VARIABLE_PATTERN.exec(value)?.[1] ?? null;
+}
+
+function isConditionVariable(variable: string): variable is PermissionConditionVariable {
+  return (PERMISSION_CONDITION_VARIABLES as readonly string[]).includes(variable);
+}
+
+function listVariableIssues(
+  field: string,
+  value: PermissionConditionValue,
+  acceptsList: boolean,
+): string[] {
+  const variable = parseConditionVariable(value);
+
+  if (variable === null) {
+    return [];
+  }
+
+  if (!isConditionVariable(variable)) {
+    return [`Unknown condition variable "\${${variable}}" on "${field}"`];
+  }
+
+  if (!acceptsList && LIST_VARIABLE_SET.has(variable)) {
+    return [`"\${${variable}}" is a list and can only be used with $in or $nin on "${field}"`];
+  }
+
+  return [];
+}
+
+function resolveConditionValue(
+  value: PermissionConditionValue,
+  variables: PermissionConditionVariables,
+): PermissionConditionValue | PermissionConditionValue[] {
+  switch (parseConditionVariable(value)) {
+    case 'user.id':
+      return variables.userId;
+    case 'user.teamIds':
+      return [...variables.teamIds];
+    case 'organization.id':
+      return variables.organizationId;
+    default:
+      return value;
+  }
+}
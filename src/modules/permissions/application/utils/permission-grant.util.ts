@@ -0,0 +1,25 @@
+import type { OrganizationPermissionSnapshot } from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import type { PermissionCode } from '../constants/permissions.constants';
+
+/**
+ * Lists the codes the member cannot hand out through a role: a member only
+ * grants what they hold on every resource, so a permission held under
+ * conditions, or restricted by a conditional deny, is not grantable.
+ */
+export function listUngrantablePermissionCodes(
+  snapshot: OrganizationPermissionSnapshot,
+  permissionCodes: readonly PermissionCode[],
+): PermissionCode[] {
+  const grantableCodes = new Set(
+    snapshot.permissionSources
+      .filter(({ permissionCode, sources }) =>
+        sources.some((source) => source.conditions === undefined) &&
+        !snapshot.overrides.some((override) =>
+          override.permissionCode === permissionCode && override.effect === 'deny',
+        ),
+      )
+      .map(({ permissionCode }) => permissionCode),
+  );
+
+  return [...new Set(permissionCodes)].filter((permissionCode) => !grantableCodes.has(permissionCode));
+}
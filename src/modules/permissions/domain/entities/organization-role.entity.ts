@@ -0,0 +1,30 @@
+import type {
+  PermissionCode,
+  RoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
+
+/**
+ * A role that can be granted to organization members. System roles have no
+ * `organizationId` and are shared by every organization; custom roles belong
+ * to the organization that created them.
+ */
+export class OrganizationRole {
+  id: string;
+  organizationId: string | null;
+  code: RoleCode;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  permissionCodes: PermissionCode[];
+  /** Conditions of the permissions granted on matching resources only. */
+  permissionConditions: Partial<Record<PermissionCode, PermissionConditions>>;
+  /** Members of the organization holding the role directly. */
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationRole> = {}) {
+    Object.assign(this, partial);
+  }
+}
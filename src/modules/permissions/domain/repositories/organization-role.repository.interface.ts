@@ -0,0 +1,45 @@
+import type {
+  PermissionCode,
+  RoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
+import type { OrganizationRole } from '../entities/organization-role.entity';
+
+export interface CreateOrganizationRoleData {
+  organizationId: string;
+  code: RoleCode;
+  name: string;
+  description: string | null;
+  permissionCodes: PermissionCode[];
+  permissionConditions: Partial<Record<PermissionCode, PermissionConditions>>;
+}
+
+export interface UpdateOrganizationRoleData {
+  name?: string;
+  description?: string | null;
+  /** Replaces every permission of the role, and their conditions, when set. */
+  permissionCodes?: PermissionCode[];
+  permissionConditions?: Partial<Record<PermissionCode, PermissionConditions>>;
+}
+
+export interface IOrganizationRoleRepository {
+  /** System roles followed by the custom roles of the organization, by code. */
+  listForOrganization(organizationId: string): Promise<OrganizationRole[]>;
+  /** Finds a system role or a custom role of the organization. */
+  findByCode(organizationId: string, code: RoleCode): Promise<OrganizationRole | null>;
+  /** Finds a custom role of the organization; system roles are never returned. */
+  findCustomById(id: string, organizationId: string): Promise<OrganizationRole | null>;
+  create(data: CreateOrganizationRoleData): Promise<OrganizationRole>;
+  update(
+    id: string,
+    organizationId: string,
+    data: UpdateOrganizationRoleData,
+  ): Promise<OrganizationRole | null>;
+  /**
+   * Deletes a custom role. When `reassignToRoleId` is set, members holding
+   * the role are granted that role first.
+   */
+  delete(id: string, organizationId: string, reassignToRoleId?: string): Promise<boolean>;
+}
+
+export const ORGANIZATION_ROLE_REPOSITORY = Symbol('ORGANIZATION_ROLE_REPOSITORY');
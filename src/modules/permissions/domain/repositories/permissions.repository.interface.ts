@@ -2,8 +2,11 @@ import type { OrganizationMembershipRole } from '@/modules/organizations/domain/
 import type {
   PermissionCode,
   PermissionOverrideEffect,
+  PermissionSourceType,
+  RoleCode,
   SystemRoleCode,
 } from '@/modules/permissions/application/constants/permissions.constants';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
 
 export interface PermissionCatalogFeature {
   code: string;
@@ -38,31 +41,75 @@ export interface PermissionCatalog {
   roles: PermissionCatalogRole[];
 }
 
+/**
+ * With `conditions`, an `allow` only grants the matching resources and a
+ * `deny` only withholds them; without, it applies to every resource.
+ */
 export interface PermissionOverrideAssignment {
   permissionCode: PermissionCode;
   effect: PermissionOverrideEffect;
+  conditions: PermissionConditions | null;
+}
+
+export interface OrganizationPermissionSnapshotTeam {
+  id: string;
+  name: string;
+  roleCodes: RoleCode[];
+}
+
+/**
+ * Something that grants a permission: a role held directly (`roleCode`), a
+ * role inherited from a team (`roleCode`, `teamId`, `teamName`) or an allow
+ * override. `conditions` limits the grant to the matching resources.
+ */
+export interface PermissionSource {
+  type: PermissionSourceType;
+  roleCode?: RoleCode;
+  teamId?: string;
+  teamName?: string;
+  conditions?: PermissionConditions;
+}
+
+export interface EffectivePermissionSource {
+  permissionCode: PermissionCode;
+  sources: PermissionSource[];
 }
 
 export interface OrganizationPermissionSnapshot {
   userId: string;
   organizationId: string;
   legacyRole: OrganizationMembershipRole;
-  roleCodes: SystemRoleCode[];
+  /** Roles held directly by the member; team roles are listed under `teams`. */
+  roleCodes: RoleCode[];
+  teams: OrganizationPermissionSnapshotTeam[];
   overrides: PermissionOverrideAssignment[];
+  /** Permissions granted on at least part of the resources. */
   effectivePermissionCodes: PermissionCode[];
+  /** One entry per effective permission. */
+  permissionSources: EffectivePermissionSource[];
 }
 
 export interface ReplaceOrganizationMemberAccessInput {
-  roleCodes: SystemRoleCode[];
+  /** System roles and custom roles of the organization. */
+  roleCodes: RoleCode[];
   overrides: PermissionOverrideAssignment[];
 }
 
 export interface IPermissionsRepository {
+  /** Lists the system roles only; custom roles belong to their organization. */
   getCatalog(): Promise<PermissionCatalog>;
   getPermissionSnapshotForUser(
     userId: string,
     organizationId: string,
   ): Promise<OrganizationPermissionSnapshot | null>;
+  listPermissionSnapshots(
+    organizationId: string,
+    userIds: string[],
+  ): Promise<OrganizationPermissionSnapshot[]>;
+  /**
+   * Throws a ConflictException when the change would leave the organization
+   * without an `org_owner`.
+   */
   replaceOrganizationMemberAccess(
     userId: string,
     organizationId: string,
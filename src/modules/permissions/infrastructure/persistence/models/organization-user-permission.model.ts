@@ -1,5 +1,6 @@
 import { col, defineModel, type InferModelShape } from '@qbobjx/core';
 import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
 import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
 
 export const OrganizationUserPermissionModel = defineModel({
@@ -11,6 +12,7 @@ export const OrganizationUserPermissionModel = defineModel({
     userId: snowflakeIdColumn(),
     permissionId: snowflakeIdColumn(),
     effect: col.text(),
+    conditions: col.custom<PermissionConditions, 'jsonb'>('jsonb').nativeType('jsonb').nullable(),
     createdAt: col.timestamp().generated(),
   },
   plugins: [createSnakeCaseNamingPlugin()],
@@ -1,5 +1,6 @@
 import { col, defineModel, type InferModelShape } from '@qbobjx/core';
 import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
 import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
 
 export const RolePermissionModel = defineModel({
@@ -9,6 +10,7 @@ export const RolePermissionModel = defineModel({
     id: snowflakeIdColumn().primary(),
     roleId: snowflakeIdColumn(),
     permissionId: snowflakeIdColumn(),
+    conditions: col.custom<PermissionConditions, 'jsonb'>('jsonb').nativeType('jsonb').nullable(),
     createdAt: col.timestamp().generated(),
   },
   plugins: [createSnakeCaseNamingPlugin()],
@@ -7,6 +7,8 @@ export const RoleModel = defineModel({
   table: 'roles',
   columns: {
     id: snowflakeIdColumn().primary(),
+    /** Set on custom roles; system roles are shared by every organization. */
+    organizationId: snowflakeIdColumn().nullable(),
     code: col.text(),
     name: col.text(),
     description: col.text().nullable(),
@@ -0,0 +1,130 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+} from '@casl/ability';
+import type { AppAbility } from '@/modules/permissions/application/types/ability.types';
+import {
+  buildPermissionQueryFilter,
+  type PermissionQueryOperators,
+} from './permission-conditions-query.util';
+
+interface Columns {
+  id: string;
+  name: string;
+}
+
+const op: PermissionQueryOperators<string> = {
+  and: (...predicates) => `(${predicates.join(' and ')})`,
+  or: (...predicates) => `(${predicates.join(' or ')})`,
+  not: (predicate) => `not ${predicate}`,
+  eq: (column, value) => `${String(column)} = ${String(value)}`,
+  in: (column, values) => `${String(column)} in [${values.join(', ')}]`,
+  gt: (column, value) => `${String(column)} > ${String(value)}`,
+  gte: (column, value) => `${String(column)} >= ${String(value)}`,
+  lte: (column, value) => `${String(column)} <= ${String(value)}`,
+  isNull: (column) => `${String(column)} is null`,
+};
+const columns: Columns = { id: 'id', name: 'name' };
+const teamMemberIds: Record<string, string[]> = {
+  t1: ['u1', 'u2'],
+  t2: ['u3'],
+};
+const fields = {
+  id: { column: ({ id }: Columns) => id },
+  name: { column: ({ name }: Columns) => name },
+  teamIds: {
+    column: ({ id }: Columns) => id,
+    resolveValues: (teamIds: unknown[]) =>
+      Promise.resolve(teamIds.flatMap((teamId) => teamMemberIds[String(teamId)] ?? [])),
+  },
+};
+
+function buildAbility(define: (builder: AbilityBuilder<AppAbility>) => void): AppAbility {
+  const builder = new AbilityBuilder<AppAbility>(createMongoAbility);
+
+  define(builder);
+
+  return builder.build();
+}
+
+describe('permission-conditions-query.util', () => {
+  it('matches nothing when the ability does not grant the action', async () => {
+    const filter = await buildPermissionQueryFilter(
+      buildAbility(({ can }) => can('read', 'reports')),
+      'read',
+      'users',
+      fields,
+    );
+
+    expect(filter).toEqual({ matchesAny: false });
+  });
+
+  it('matches every row when a grant has no conditions', async () => {
+    const filter = await buildPermissionQueryFilter(
+      buildAbility(({ can }) => {
+        can('read', 'users', { id: 'u1' });
+        can('read', 'users');
+      }),
+      'read',
+      'users',
+      fields,
+    );
+
+    expect(filter).toEqual({ matchesAny: true });
+  });
+
+  it('combines grants with OR and withheld resources with AND NOT', async () => {
+    const filter = await buildPermissionQueryFilter(
+      buildAbility(({ can, cannot }) => {
+        can('read', 'users', { id: 'u1' });
+        can('read', 'users', { name: { $lt: 'm' } });
+        cannot('read', 'users', { name: null });
+      }),
+      'read',
+      'users',
+      fields,
+    );
+
+    expect(filter.where?.(columns, op)).toBe(
+      '(not name is null and (not name >= m or id = u1))',
+    );
+  });
+
+  it('resolves list fields into the values of their column', async () => {
+    const filter = await buildPermissionQueryFilter(
+      buildAbility(({ can }) => {
+        can('read', 'users', { teamIds: { $in: ['t1', 't2'] }, id: { $ne: 'u2' } });
+      }),
+      'read',
+      'users',
+      fields,
+    );
+
+    expect(filter.where?.(columns, op)).toBe('(id in [u1, u2, u3] and not id = u2)');
+  });
+
+  it('treats empty lists as conditions nothing matches', async () => {
+    const filter = await buildPermissionQueryFilter(
+      buildAbility(({ can }) => {
+        can('read', 'users', { teamIds: { $in: [] } });
+        can('read', 'users', { teamIds: 't3' });
+      }),
+      'read',
+      'users',
+      fields,
+    );
+
+    expect(filter).toEqual({ matchesAny: false });
+  });
+
+  it('rejects fields without a mapping', async () => {
+    await expect(
+      buildPermissionQueryFilter(
+        buildAbility(({ can }) => can('read', 'users', { password: 'x' })),
+        'read',
+        'users',
+        fields,
+      ),
+    ).rejects.toThrow('Permission conditions on users use an unmapped field: password');
+  });
+});
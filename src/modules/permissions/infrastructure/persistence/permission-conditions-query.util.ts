@@ -0,0 +1,201 @@
+import { rulesToAST } from '@casl/ability/extra';
+import type {
+  PermissionActionCode,
+  PermissionFeatureCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import type { AppAbility } from '@/modules/permissions/application/types/ability.types';
+
+type AbilityConditionNode = NonNullable<ReturnType<typeof rulesToAST>>;
+
+type ComparisonOperator = 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte';
+
+type PermissionQueryNode =
+  | { type: 'and'; nodes: PermissionQueryNode[] }
+  | { type: 'or'; nodes: PermissionQueryNode[] }
+  | { type: 'not'; node: PermissionQueryNode }
+  | { type: 'compare'; field: string; operator: ComparisonOperator; value: unknown };
+
+type ResolvedNode = PermissionQueryNode | boolean;
+
+/** The Objx operators the translation relies on. */
+export interface PermissionQueryOperators<TPredicate> {
+  and(...predicates: TPredicate[]): TPredicate;
+  or(...predicates: TPredicate[]): TPredicate;
+  not(predicate: TPredicate): TPredicate;
+  eq(column: unknown, value: unknown): TPredicate;
+  in(column: unknown, values: readonly unknown[]): TPredicate;
+  gt(column: unknown, value: unknown): TPredicate;
+  gte(column: unknown, value: unknown): TPredicate;
+  lte(column: unknown, value: unknown): TPredicate;
+  isNull(column: unknown): TPredicate;
+}
+
+/** How a field of the conditions maps to the columns of a query. */
+export interface PermissionQueryField<TColumns> {
+  column: (columns: TColumns) => unknown;
+  /**
+   * Set for list fields that are not columns, e.g. the teams of a user:
+   * receives the values a condition looks for and returns the `column` values
+   * of the matching rows. Only `$eq`, `$ne`, `$in` and `$nin` are supported.
+   */
+  resolveValues?: (values: unknown[]) => Promise<unknown[]>;
+}
+
+export interface PermissionQueryFilter<TColumns> {
+  /** False when the ability grants no row: the query can be skipped. */
+  matchesAny: boolean;
+  /** Objx `where` callback narrowing a query; undefined when every row is granted. */
+  where?: <TPredicate>(columns: TColumns, op: PermissionQueryOperators<TPredicate>) => TPredicate;
+}
+
+/**
+ * Translates the rules of an ability for one action and feature into a filter
+ * for the queries of a repository. `cannot` rules win over `can` rules, as in
+ * the ability itself.
+ */
+export async function buildPermissionQueryFilter<TColumns>(
+  ability: AppAbility,
+  action: PermissionActionCode,
+  featureCode: PermissionFeatureCode,
+  fields: Readonly<Record<string, PermissionQueryField<TColumns>>>,
+): Promise<PermissionQueryFilter<TColumns>> {
+  const ast = rulesToAST(ability, action, featureCode);
+
+  if (!ast) {
+    return { matchesAny: false };
+  }
+
+  const node = await resolveNode(ast, featureCode, fields);
+
+  if (typeof node === 'boolean') {
+    return { matchesAny: node };
+  }
+
+  return {
+    matchesAny: true,
+    where: (columns, op) => toPredicate(node, fields, columns, op),
+  };
+}
+
+async function resolveNode<TColumns>(
+  condition: AbilityConditionNode,
+  featureCode: PermissionFeatureCode,
+  fields: Readonly<Record<string, PermissionQueryField<TColumns>>>,
+): Promise<ResolvedNode> {
+  if (condition.operator === 'and' || condition.operator === 'or') {
+    const nodes = await Promise.all(
+      (condition.value as AbilityConditionNode[]).map((child) =>
+        resolveNode(child, featureCode, fields),
+      ),
+    );
+
+    return combineNodes(condition.operator, nodes);
+  }
+
+  if (condition.operator === 'not') {
+    const [child] = condition.value as AbilityConditionNode[];
+    const node = await resolveNode(child, featureCode, fields);
+
+    return typeof node === 'boolean' ? !node : { type: 'not', node };
+  }
+
+  const field = (condition as { field?: unknown }).field;
+  const operator = condition.operator as ComparisonOperator;
+  const mapping = typeof field === 'string' && Object.hasOwn(fields, field)
+    ? fields[field]
+    : undefined;
+
+  if (!mapping || typeof field !== 'string') {
+    throw new Error(`Permission conditions on ${featureCode} use an unmapped field: ${String(field)}`);
+  }
+
+  if (!['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte'].includes(operator)) {
+    throw new Error(`Permission conditions on ${featureCode} use an unsupported operator: ${operator}`);
+  }
+
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+
+  if (mapping.resolveValues) {
+    if (!['eq', 'ne', 'in', 'nin'].includes(operator)) {
+      throw new Error(`Permission conditions on ${featureCode}.${field} only support equality and membership`);
+    }
+
+    const resolvedValues = values.length > 0 ? await mapping.resolveValues(values) : [];
+    const isNegated = operator === 'ne' || operator === 'nin';
+
+    if (resolvedValues.length === 0) {
+      return isNegated;
+    }
+
+    return { type: 'compare', field, operator: isNegated ? 'nin' : 'in', value: resolvedValues };
+  }
+
+  if ((operator === 'in' || operator === 'nin') && values.length === 0) {
+    return operator === 'nin';
+  }
+
+  return { type: 'compare', field, operator, value: condition.value };
+}
+
+/** Folds constant children: an empty `and` grants everything, an empty `or` nothing. */
+function combineNodes(type: 'and' | 'or', nodes: ResolvedNode[]): ResolvedNode {
+  const absorbing = type === 'or';
+
+  if (nodes.some((node) => node === absorbing)) {
+    return absorbing;
+  }
+
+  const remainingNodes = nodes.filter(
+    (node): node is PermissionQueryNode => typeof node !== 'boolean',
+  );
+
+  if (remainingNodes.length === 0) {
+    return !absorbing;
+  }
+
+  if (remainingNodes.length === 1) {
+    return remainingNodes[0];
+  }
+
+  return type === 'and'
+    ? { type: 'and', nodes: remainingNodes }
+    : { type: 'or', nodes: remainingNodes };
+}
+
+function toPredicate<TColumns, TPredicate>(
+  node: PermissionQueryNode,
+  fields: Readonly<Record<string, PermissionQueryField<TColumns>>>,
+  columns: TColumns,
+  op: PermissionQueryOperators<TPredicate>,
+): TPredicate {
+  if (node.type === 'and' || node.type === 'or') {
+    const predicates = node.nodes.map((child) => toPredicate(child, fields, columns, op));
+
+    return node.type === 'and' ? op.and(...predicates) : op.or(...predicates);
+  }
+
+  if (node.type === 'not') {
+    return op.not(toPredicate(node.node, fields, columns, op));
+  }
+
+  const column = fields[node.field].column(columns);
+
+  switch (node.operator) {
+    case 'eq':
+      return node.value === null ? op.isNull(column) : op.eq(column, node.value);
+    case 'ne':
+      return op.not(node.value === null ? op.isNull(column) : op.eq(column, node.value));
+    case 'in':
+      return op.in(column, node.value as unknown[]);
+    case 'nin':
+      return op.not(op.in(column, node.value as unknown[]));
+    case 'gt':
+      return op.gt(column, node.value);
+    case 'gte':
+      return op.gte(column, node.value);
+    case 'lt':
+      return op.not(op.gte(column, node.value));
+    case 'lte':
+      return op.lte(column, node.value);
+  }
+}
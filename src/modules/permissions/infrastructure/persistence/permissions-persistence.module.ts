@@ -1,5 +1,7 @@
 import { Module } from '@nestjs/common';
+import { ORGANIZATION_ROLE_REPOSITORY } from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
 import { PERMISSIONS_REPOSITORY } from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import { OrganizationRoleRepository } from './repositories/organization-role.repository';
 import { PermissionsRepository } from './repositories/permissions.repository';
 
 @Module({
@@ -8,7 +10,11 @@ import { PermissionsRepository } from './repositories/permissions.repository';
       provide: PERMISSIONS_REPOSITORY,
       useClass: PermissionsRepository,
     },
+    {
+      provide: ORGANIZATION_ROLE_REPOSITORY,
+      useClass: OrganizationRoleRepository,
+    },
   ],
-  exports: [PERMISSIONS_REPOSITORY],
+  exports: [PERMISSIONS_REPOSITORY, ORGANIZATION_ROLE_REPOSITORY],
 })
 export class PermissionsPersistenceModule {}
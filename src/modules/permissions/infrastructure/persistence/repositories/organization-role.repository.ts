@@ -0,0 +1,405 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { OrganizationMembershipRoleModel } from '@/modules/organizations/infrastructure/persistence/models/organization-membership-role.model';
+import { OrganizationMembershipModel } from '@/modules/organizations/infrastructure/persistence/models/organization-membership.model';
+import {
+  isPermissionCode,
+  type PermissionCode,
+  type RoleCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
+import { OrganizationRole } from '@/modules/permissions/domain/entities/organization-role.entity';
+import type {
+  CreateOrganizationRoleData,
+  IOrganizationRoleRepository,
+  UpdateOrganizationRoleData,
+} from '@/modules/permissions/domain/repositories/organization-role.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  PermissionModel,
+  type PermissionRecord,
+} from '../models/permission.model';
+import { RolePermissionModel } from '../models/role-permission.model';
+import { RoleModel, type RoleRecord } from '../models/role.model';
+
+@Injectable()
+export class OrganizationRoleRepository implements IOrganizationRoleRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async listForOrganization(organizationId: string): Promise<OrganizationRole[]> {
+    const [systemRows, customRows] = await Promise.all([
+      this.objxSession.execute(
+        RoleModel
+          .query()
+          .where(({ organizationId: roleOrganizationId }, op) => op.isNull(roleOrganizationId))
+          .orderBy(({ code }) => code, 'asc'),
+      ),
+      this.objxSession.execute(
+        RoleModel
+          .query()
+          .where(({ organizationId: roleOrganizationId }, op) =>
+            op.eq(roleOrganizationId, organizationId),
+          )
+          .orderBy(({ code }) => code, 'asc'),
+      ),
+    ]);
+
+    return loadRoles(this.objxSession, organizationId, [...systemRows, ...customRows]);
+  }
+
+  async findByCode(organizationId: string, code: RoleCode): Promise<OrganizationRole | null> {
+    const rows = await this.objxSession.execute(
+      RoleModel
+        .query()
+        .where(({ code: roleCode }, op) => op.eq(roleCode, code)),
+    );
+    const row = rows.find(
+      (role) => role.organizationId === null || role.organizationId === organizationId,
+    );
+    const [role] = row ? await loadRoles(this.objxSession, organizationId, [row]) : [];
+
+    return role ?? null;
+  }
+
+  async findCustomById(id: string, organizationId: string): Promise<OrganizationRole | null> {
+    const rows = await this.objxSession.execute(
+      RoleModel
+        .query()
+        .where(({ id: roleId, organizationId: roleOrganizationId }, op) =>
+          op.and(
+            op.eq(roleId, id),
+            op.eq(roleOrganizationId, organizationId),
+          ),
+        )
+        .limit(1),
+    );
+    const [role] = await loadRoles(this.objxSession, organizationId, rows);
+
+    return role ?? null;
+  }
+
+  create(data: CreateOrganizationRoleData): Promise<OrganizationRole> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const permissionRows = await findPermissions(trxSession, data.permissionCodes);
+      const rows = await trxSession.execute(
+        RoleModel
+          .insert({
+            id: generateSnowflakeId(),
+            organizationId: data.organizationId,
+            code: data.code,
+            name: data.name,
+            description: data.description,
+            isSystem: false,
+          })
+          .returning(({
+            id,
+            organizationId,
+            code,
+            name,
+            description,
+            isSystem,
+            createdAt,
+            updatedAt,
+          }) => [
+            id,
+            organizationId,
+            code,
+            name,
+            description,
+            isSystem,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      if (!row) {
+        throw new Error('Organization role insert did not return a row.');
+      }
+
+      await replaceRolePermissions(
+        trxSession,
+        row.id,
+        permissionRows,
+        data.permissionConditions,
+      );
+
+      const [role] = await loadRoles(trxSession, data.organizationId, [row]);
+
+      return role;
+    });
+  }
+
+  update(
+    id: string,
+    organizationId: string,
+    data: UpdateOrganizationRoleData,
+  ): Promise<OrganizationRole | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      const permissionRows = data.permissionCodes !== undefined
+        ? await findPermissions(trxSession, data.permissionCodes)
+        : undefined;
+      const rows = await trxSession.execute(
+        RoleModel
+          .update({
+            ...(data.name !== undefined ? { name: data.name } : {}),
+            ...(data.description !== undefined ? { description: data.description } : {}),
+            updatedAt: new Date(),
+          })
+          .where(({ id: roleId, organizationId: roleOrganizationId }, op) =>
+            op.and(
+              op.eq(roleId, id),
+              op.eq(roleOrganizationId, organizationId),
+            ),
+          )
+          .returning(({
+            id: roleId,
+            organizationId: roleOrganizationId,
+            code,
+            name,
+            description,
+            isSystem,
+            createdAt,
+            updatedAt,
+          }) => [
+            roleId,
+            roleOrganizationId,
+            code,
+            name,
+            description,
+            isSystem,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      if (!row) {
+        return null;
+      }
+
+      if (permissionRows) {
+        await replaceRolePermissions(
+          trxSession,
+          row.id,
+          permissionRows,
+          data.permissionConditions ?? {},
+        );
+      }
+
+      const [role] = await loadRoles(trxSession, organizationId, [row]);
+
+      return role;
+    });
+  }
+
+  delete(id: string, organizationId: string, reassignToRoleId?: string): Promise<boolean> {
+    return this.objxSession.transaction(async (trxSession) => {
+      if (reassignToRoleId) {
+        const heldRows = await trxSession.execute(
+          OrganizationMembershipRoleModel
+            .query()
+            .where(({ roleId }, op) => op.eq(roleId, id)),
+        );
+        const membershipIds = heldRows.map((membershipRole) => membershipRole.membershipId);
+        const alreadyReassignedRows = membershipIds.length > 0
+          ? await trxSession.execute(
+            OrganizationMembershipRoleModel
+              .query()
+              .where(({ roleId, membershipId }, op) =>
+                op.and(
+                  op.eq(roleId, reassignToRoleId),
+                  op.in(membershipId, membershipIds),
+                ),
+              ),
+          )
+          : [];
+        const alreadyReassigned = new Set(
+          alreadyReassignedRows.map((membershipRole) => membershipRole.membershipId),
+        );
+        const pendingMembershipIds = membershipIds.filter(
+          (membershipId) => !alreadyReassigned.has(membershipId),
+        );
+
+        if (pendingMembershipIds.length > 0) {
+          await trxSession.execute(
+            OrganizationMembershipRoleModel.insert(
+              pendingMembershipIds.map((membershipId) => ({
+                id: generateSnowflakeId(),
+                membershipId,
+                roleId: reassignToRoleId,
+              })),
+            ),
+          );
+        }
+      }
+
+      // Grants of the role to members and teams are removed by the cascade.
+      const deletedCount = await trxSession.execute(
+        RoleModel
+          .delete()
+          .where(({ id: roleId, organizationId: roleOrganizationId }, op) =>
+            op.and(
+              op.eq(roleId, id),
+              op.eq(roleOrganizationId, organizationId),
+            ),
+          ),
+      );
+
+      return deletedCount > 0;
+    });
+  }
+}
+
+async function findPermissions(
+  executor: ObjxSession,
+  permissionCodes: readonly PermissionCode[],
+): Promise<readonly PermissionRecord[]> {
+  const normalizedPermissionCodes = Array.from(new Set(permissionCodes));
+
+  if (normalizedPermissionCodes.length === 0) {
+    return [];
+  }
+
+  const permissionRows = await executor.execute(
+    PermissionModel
+      .query()
+      .where(({ code }, op) => op.in(code, normalizedPermissionCodes)),
+  );
+
+  if (permissionRows.length !== normalizedPermissionCodes.length) {
+    const knownPermissionCodes = new Set(permissionRows.map((permission) => permission.code));
+    const invalidPermissionCodes = normalizedPermissionCodes.filter(
+      (permissionCode) => !knownPermissionCodes.has(permissionCode),
+    );
+    throw new BadRequestException(
+      `Unknown permission codes: ${invalidPermissionCodes.join(', ')}`,
+    );
+  }
+
+  return permissionRows;
+}
+
+async function replaceRolePermissions(
+  executor: ObjxSession,
+  roleId: string,
+  permissionRows: readonly PermissionRecord[],
+  permissionConditions: Partial<Record<PermissionCode, PermissionConditions>>,
+): Promise<void> {
+  await executor.execute(
+    RolePermissionModel
+      .delete()
+      .where(({ roleId: permissionRoleId }, op) => op.eq(permissionRoleId, roleId)),
+  );
+
+  if (permissionRows.length > 0) {
+    await executor.execute(
+      RolePermissionModel.insert(
+        permissionRows.map((permission) => ({
+          id: generateSnowflakeId(),
+          roleId,
+          permissionId: permission.id,
+          conditions: isPermissionCode(permission.code)
+            ? permissionConditions[permission.code] ?? null
+            : null,
+        })),
+      ),
+    );
+  }
+}
+
+/**
+ * Resolves the permissions of several roles, with their conditions, and how
+ * many members of the organization hold each of them.
+ */
+async function loadRoles(
+  executor: ObjxSession,
+  organizationId: string,
+  rows: readonly RoleRecord[],
+): Promise<OrganizationRole[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const roleIds = rows.map((row) => row.id);
+  const [rolePermissionRows, membershipRows] = await Promise.all([
+    executor.execute(
+      RolePermissionModel
+        .query()
+        .where(({ roleId }, op) => op.in(roleId, roleIds)),
+    ),
+    executor.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ organizationId: membershipOrganizationId }, op) =>
+          op.eq(membershipOrganizationId, organizationId),
+        ),
+    ),
+  ]);
+  const permissionIds = Array.from(
+    new Set(rolePermissionRows.map((rolePermission) => rolePermission.permissionId)),
+  );
+  const membershipIds = membershipRows.map((membership) => membership.id);
+  const [permissionRows, membershipRoleRows] = await Promise.all([
+    permissionIds.length > 0
+      ? executor.execute(
+        PermissionModel
+          .query()
+          .where(({ id }, op) => op.in(id, permissionIds)),
+      )
+      : Promise.resolve([] as readonly PermissionRecord[]),
+    membershipIds.length > 0
+      ? executor.execute(
+        OrganizationMembershipRoleModel
+          .query()
+          .where(({ roleId, membershipId }, op) =>
+            op.and(
+              op.in(roleId, roleIds),
+              op.in(membershipId, membershipIds),
+            ),
+          ),
+      )
+      : Promise.resolve([]),
+  ]);
+  const permissionCodeById = new Map<string, string>(
+    permissionRows.map((permission) => [permission.id, permission.code]),
+  );
+
+  return rows.map((row) => {
+    const grants = rolePermissionRows
+      .filter((rolePermission) => rolePermission.roleId === row.id)
+      .map((rolePermission) => ({
+        code: permissionCodeById.get(rolePermission.permissionId),
+        conditions: rolePermission.conditions ?? null,
+      }))
+      .filter((grant): grant is { code: PermissionCode; conditions: PermissionConditions | null } =>
+        grant.code !== undefined && isPermissionCode(grant.code),
+      );
+
+    return new OrganizationRole({
+      id: row.id,
+      organizationId: row.organizationId ?? null,
+      code: row.code,
+      name: row.name,
+      description: row.description ?? null,
+      isSystem: row.isSystem,
+      permissionCodes: grants.map((grant) => grant.code).sort(),
+      permissionConditions: Object.fromEntries(
+        grants
+          .filter((grant) => grant.conditions !== null)
+          .map((grant) => [grant.code, grant.conditions]),
+      ),
+      memberCount: membershipRoleRows.filter((membershipRole) => membershipRole.roleId === row.id).length,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  });
+}
@@ -3,17 +3,22 @@ import {
   Inject,
   Injectable,
 } from '@nestjs/common';
+import { assertNotLastOwner } from '@/modules/organizations/infrastructure/persistence/organization-owner.util';
 import {
   isPermissionCode,
   isSystemRoleCode,
   resolveLegacyOrganizationMembershipRole,
   type PermissionCode,
+  type RoleCode,
   type SystemRoleCode,
 } from '@/modules/permissions/application/constants/permissions.constants';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
 import type {
   IPermissionsRepository,
   OrganizationPermissionSnapshot,
   PermissionCatalog,
+  PermissionOverrideAssignment,
+  PermissionSource,
   ReplaceOrganizationMemberAccessInput,
 } from '@/modules/permissions/domain/repositories/permissions.repository.interface';
 import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
@@ -24,6 +29,12 @@ import {
   type OrganizationMembershipRecord,
 } from '@/modules/organizations/infrastructure/persistence/models/organization-membership.model';
 import { OrganizationMembershipRoleModel } from '@/modules/organizations/infrastructure/persistence/models/organization-membership-role.model';
+import { OrganizationTeamMemberModel } from '@/modules/organizations/infrastructure/persistence/models/organization-team-member.model';
+import { OrganizationTeamRoleModel } from '@/modules/organizations/infrastructure/persistence/models/organization-team-role.model';
+import {
+  OrganizationTeamModel,
+  type OrganizationTeamRecord,
+} from '@/modules/organizations/infrastructure/persistence/models/organization-team.model';
 import {
   OrganizationUserPermissionModel,
 } from '../models/organization-user-permission.model';
@@ -60,6 +71,7 @@ export class PermissionsRepository implements IPermissionsRepository {
       this.objxSession.execute(
         RoleModel
           .query()
+          .where(({ organizationId }, op) => op.isNull(organizationId))
           .orderBy(({ code }) => code, 'asc'),
       ),
     ]);
@@ -123,6 +135,30 @@ export class PermissionsRepository implements IPermissionsRepository {
     });
   }
 
+  listPermissionSnapshots(
+    organizationId: string,
+    userIds: string[],
+  ): Promise<OrganizationPermissionSnapshot[]> {
+    if (userIds.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    return this.objxSession.transaction(async (trxSession) => {
+      const memberships = await trxSession.execute(
+        OrganizationMembershipModel
+          .query()
+          .where(({ userId, organizationId: membershipOrganizationId }, op) =>
+            op.and(
+              op.eq(membershipOrganizationId, organizationId),
+              op.in(userId, userIds),
+            ),
+          ),
+      );
+
+      return this.buildSnapshots(trxSession, organizationId, memberships);
+    });
+  }
+
   async replaceOrganizationMemberAccess(
     userId: string,
     organizationId: string,
@@ -150,11 +186,14 @@ export class PermissionsRepository implements IPermissionsRepository {
       }
 
       const roleRows = normalizedRoleCodes.length > 0
-        ? await trxSession.execute(
+        ? (await trxSession.execute(
           RoleModel
             .query()
             .where(({ code }, op) => op.in(code, normalizedRoleCodes))
             .orderBy(({ code }) => code, 'asc'),
+        )).filter(
+          // Custom roles of other organizations may reuse the same codes.
+          (role) => role.organizationId === null || role.organizationId === organizationId,
         )
         : [];
       const permissionRows = normalizedOverrides.length > 0
@@ -235,6 +274,7 @@ export class PermissionsRepository implements IPermissionsRepository {
               userId,
               permissionId: permissionIdByCode.get(override.permissionCode)!,
               effect: override.effect,
+              conditions: override.conditions,
             })),
           ),
         );
@@ -244,6 +284,10 @@ export class PermissionsRepository implements IPermissionsRepository {
         normalizedRoleCodes,
       );
 
+      if (membership.role === 'owner' && legacyRole !== 'owner') {
+        await assertNotLastOwner(trxSession, organizationId);
+      }
+
       await trxSession.execute(
         OrganizationMembershipModel
           .update({ role: legacyRole })
@@ -285,11 +329,41 @@ export class PermissionsRepository implements IPermissionsRepository {
     userId: string,
     organizationId: string,
   ): Promise<OrganizationPermissionSnapshot> {
-    const [membershipRoleRows, overrideRows] = await Promise.all([
+    const [snapshot] = await this.buildSnapshots(
+      executor,
+      organizationId,
+      [{ ...membership, userId }],
+    );
+
+    return snapshot;
+  }
+
+  /**
+   * Resolves the snapshots of several members with a fixed number of queries.
+   * Snapshots are returned in the order of `memberships`.
+   *
+   * Effective permissions are the union of the permissions of the direct
+   * roles and of the roles of every team of the member, followed by the
+   * overrides: `allow` adds a permission and `deny` removes it whatever
+   * granted it. A `deny` with conditions keeps the permission; the ability
+   * withholds the matching resources instead.
+   */
+  private async buildSnapshots(
+    executor: ObjxSession,
+    organizationId: string,
+    memberships: readonly OrganizationMembershipRecord[],
+  ): Promise<OrganizationPermissionSnapshot[]> {
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const membershipIds = memberships.map((membership) => membership.id);
+    const userIds = Array.from(new Set(memberships.map((membership) => membership.userId)));
+    const [membershipRoleRows, overrideRows, teamMemberRows] = await Promise.all([
       executor.execute(
         OrganizationMembershipRoleModel
           .query()
-          .where(({ membershipId }, op) => op.eq(membershipId, membership.id)),
+          .where(({ membershipId }, op) => op.in(membershipId, membershipIds)),
       ),
       executor.execute(
         OrganizationUserPermissionModel
@@ -297,13 +371,41 @@ export class PermissionsRepository implements IPermissionsRepository {
           .where(({ organizationId: currentOrganizationId, userId: currentUserId }, op) =>
             op.and(
               op.eq(currentOrganizationId, organizationId),
-              op.eq(currentUserId, userId),
+              op.in(currentUserId, userIds),
             ),
           ),
       ),
+      executor.execute(
+        OrganizationTeamMemberModel
+          .query()
+          .where(({ membershipId }, op) => op.in(membershipId, membershipIds)),
+      ),
+    ]);
+    const teamIds = Array.from(
+      new Set(teamMemberRows.map((teamMember) => teamMember.teamId)),
+    );
+    const [teamRows, teamRoleRows] = await Promise.all([
+      teamIds.length > 0
+        ? executor.execute(
+          OrganizationTeamModel
+            .query()
+            .where(({ id }, op) => op.in(id, teamIds))
+            .orderBy(({ name }) => name, 'asc'),
+        )
+        : Promise.resolve([] as readonly OrganizationTeamRecord[]),
+      teamIds.length > 0
+        ? executor.execute(
+          OrganizationTeamRoleModel
+            .query()
+            .where(({ teamId }, op) => op.in(teamId, teamIds)),
+        )
+        : Promise.resolve([]),
     ]);
     const roleIds = Array.from(
-      new Set(membershipRoleRows.map((membershipRole) => membershipRole.roleId)),
+      new Set([
+        ...membershipRoleRows.map((membershipRole) => membershipRole.roleId),
+        ...teamRoleRows.map((teamRole) => teamRole.roleId),
+      ]),
     );
     const [roleRows, rolePermissionRows] = await Promise.all([
       roleIds.length > 0
@@ -338,48 +440,134 @@ export class PermissionsRepository implements IPermissionsRepository {
     const permissionCodeById = new Map(
       permissionRows.map((permission) => [permission.id, permission.code]),
     );
-
-    const roleCodes = roleRows
-      .map((role) => role.code)
-      .filter(isSystemRoleCode)
-      .sort();
-    const overrides = overrideRows
-      .map((override) => ({
-        permissionCode: permissionCodeById.get(override.permissionId),
-        effect: override.effect,
-      }))
-      .filter(
-        (override): override is {
-          permissionCode: PermissionCode;
-          effect: 'allow' | 'deny';
-        } =>
-          !!override.permissionCode &&
-          isPermissionCode(override.permissionCode) &&
-          (override.effect === 'allow' || override.effect === 'deny'),
-      )
-      .sort((a, b) => a.permissionCode.localeCompare(b.permissionCode));
-    const effectivePermissionCodes = new Set<PermissionCode>(
+    const roleById = new Map<string, RoleRecord>(roleRows.map((role) => [role.id, role]));
+    const toRoleCodes = (ids: Iterable<string>): RoleCode[] =>
+      Array.from(ids)
+        .map((roleId) => roleById.get(roleId)?.code)
+        .filter((code): code is string => code !== undefined)
+        .sort();
+    const permissionGrantsOfRole = (
+      roleId: string,
+    ): { permissionCode: PermissionCode; conditions: PermissionConditions | null }[] =>
       rolePermissionRows
-        .map((rolePermission) => permissionCodeById.get(rolePermission.permissionId))
-        .filter(isPermissionCode),
-    );
+        .filter((rolePermission) => rolePermission.roleId === roleId)
+        .map((rolePermission) => ({
+          permissionCode: permissionCodeById.get(rolePermission.permissionId),
+          conditions: rolePermission.conditions ?? null,
+        }))
+        .filter(
+          (grant): grant is { permissionCode: PermissionCode; conditions: PermissionConditions | null } =>
+            !!grant.permissionCode && isPermissionCode(grant.permissionCode),
+        );
+    const teams = teamRows.map((team) => ({
+      id: team.id,
+      name: team.name,
+      roleIds: teamRoleRows
+        .filter((teamRole) => teamRole.teamId === team.id)
+        .map((teamRole) => teamRole.roleId),
+    }));
 
-    overrides.forEach((override) => {
-      if (override.effect === 'allow') {
-        effectivePermissionCodes.add(override.permissionCode);
-        return;
-      }
+    return memberships.map((membership) => {
+      const membershipRoleIds = new Set<string>(
+        membershipRoleRows
+          .filter((membershipRole) => membershipRole.membershipId === membership.id)
+          .map((membershipRole) => membershipRole.roleId),
+      );
+      const membershipTeamIds = new Set<string>(
+        teamMemberRows
+          .filter((teamMember) => teamMember.membershipId === membership.id)
+          .map((teamMember) => teamMember.teamId),
+      );
+      const membershipTeams = teams.filter((team) => membershipTeamIds.has(team.id));
+      const overrides = overrideRows
+        .filter((override) => override.userId === membership.userId)
+        .map((override) => ({
+          permissionCode: permissionCodeById.get(override.permissionId),
+          effect: override.effect,
+          conditions: override.conditions ?? null,
+        }))
+        .filter(
+          (override): override is PermissionOverrideAssignment =>
+            !!override.permissionCode &&
+            isPermissionCode(override.permissionCode) &&
+            (override.effect === 'allow' || override.effect === 'deny'),
+        )
+        .sort((a, b) => a.permissionCode.localeCompare(b.permissionCode));
+      const sourcesByPermissionCode = new Map<PermissionCode, PermissionSource[]>();
+      const addSource = (permissionCode: PermissionCode, source: PermissionSource) => {
+        sourcesByPermissionCode.set(permissionCode, [
+          ...(sourcesByPermissionCode.get(permissionCode) ?? []),
+          source,
+        ]);
+      };
 
-      effectivePermissionCodes.delete(override.permissionCode);
-    });
+      membershipRoleIds.forEach((roleId) => {
+        const [roleCode] = toRoleCodes([roleId]);
 
-    return {
-      userId,
-      organizationId,
-      legacyRole: membership.role === 'owner' ? 'owner' : 'member',
-      roleCodes,
-      overrides,
-      effectivePermissionCodes: Array.from(effectivePermissionCodes).sort(),
-    };
+        if (!roleCode) {
+          return;
+        }
+
+        permissionGrantsOfRole(roleId).forEach(({ permissionCode, conditions }) => {
+          addSource(permissionCode, {
+            type: 'role',
+            roleCode,
+            ...(conditions ? { conditions } : {}),
+          });
+        });
+      });
+      membershipTeams.forEach((team) => {
+        team.roleIds.forEach((roleId) => {
+          const [roleCode] = toRoleCodes([roleId]);
+
+          if (!roleCode) {
+            return;
+          }
+
+          permissionGrantsOfRole(roleId).forEach(({ permissionCode, conditions }) => {
+            addSource(permissionCode, {
+              type: 'team',
+              roleCode,
+              teamId: team.id,
+              teamName: team.name,
+              ...(conditions ? { conditions } : {}),
+            });
+          });
+        });
+      });
+      overrides.forEach((override) => {
+        if (override.effect === 'allow') {
+          addSource(override.permissionCode, {
+            type: 'override',
+            ...(override.conditions ? { conditions: override.conditions } : {}),
+          });
+          return;
+        }
+
+        if (!override.conditions) {
+          sourcesByPermissionCode.delete(override.permissionCode);
+        }
+      });
+
+      const effectivePermissionCodes = Array.from(sourcesByPermissionCode.keys()).sort();
+
+      return {
+        userId: membership.userId,
+        organizationId,
+        legacyRole: membership.role === 'owner' ? 'owner' : 'member',
+        roleCodes: toRoleCodes(membershipRoleIds),
+        teams: membershipTeams.map((team) => ({
+          id: team.id,
+          name: team.name,
+          roleCodes: toRoleCodes(team.roleIds),
+        })),
+        overrides,
+        effectivePermissionCodes,
+        permissionSources: effectivePermissionCodes.map((permissionCode) => ({
+          permissionCode,
+          sources: sourcesByPermissionCode.get(permissionCode) ?? [],
+        })),
+      };
+    });
   }
 }
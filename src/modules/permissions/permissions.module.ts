@@ -2,20 +2,30 @@ import { Module } from '@nestjs/common';
 import { OrganizationsPersistenceModule } from '@/modules/organizations/infrastructure/persistence/organizations-persistence.module';
 import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
 import { PermissionsGuard } from '@/shared/http/guards/permissions.guard';
+import { PoliciesGuard } from '@/shared/http/guards/policies.guard';
 import { PermissionsContextInterceptor } from './application/interceptors/permissions-context.interceptor';
 import { PermissionsAbilityFactory } from './application/services/permissions-ability.factory';
 import { PermissionsRequestContextService } from './application/services/permissions-request-context.service';
+import { CreateOrganizationRoleUseCase } from './application/use-cases/create-organization-role.use-case';
+import { DeleteOrganizationRoleUseCase } from './application/use-cases/delete-organization-role.use-case';
 import { GetCurrentPermissionsUseCase } from './application/use-cases/get-current-permissions.use-case';
 import { GetOrganizationMemberAccessUseCase } from './application/use-cases/get-organization-member-access.use-case';
 import { GetPermissionCatalogUseCase } from './application/use-cases/get-permission-catalog.use-case';
+import { ListOrganizationRolesUseCase } from './application/use-cases/list-organization-roles.use-case';
 import { UpdateOrganizationMemberAccessUseCase } from './application/use-cases/update-organization-member-access.use-case';
+import { UpdateOrganizationRoleUseCase } from './application/use-cases/update-organization-role.use-case';
 import { PermissionsPersistenceModule } from './infrastructure/persistence/permissions-persistence.module';
 import { OrganizationMemberAccessController } from './presentation/http/controllers/organization-member-access.controller';
+import { OrganizationRolesController } from './presentation/http/controllers/organization-roles.controller';
 import { PermissionsController } from './presentation/http/controllers/permissions.controller';
 
 @Module({
   imports: [OrganizationsPersistenceModule, PermissionsPersistenceModule],
-  controllers: [PermissionsController, OrganizationMemberAccessController],
+  controllers: [
+    PermissionsController,
+    OrganizationMemberAccessController,
+    OrganizationRolesController,
+  ],
   providers: [
     PermissionsRequestContextService,
     PermissionsContextInterceptor,
@@ -24,8 +34,13 @@ import { PermissionsController } from './presentation/http/controllers/permissio
     GetCurrentPermissionsUseCase,
     GetOrganizationMemberAccessUseCase,
     UpdateOrganizationMemberAccessUseCase,
+    ListOrganizationRolesUseCase,
+    CreateOrganizationRoleUseCase,
+    UpdateOrganizationRoleUseCase,
+    DeleteOrganizationRoleUseCase,
     CurrentOrganizationGuard,
     PermissionsGuard,
+    PoliciesGuard,
   ],
   exports: [
     PermissionsRequestContextService,
@@ -33,6 +48,7 @@ import { PermissionsController } from './presentation/http/controllers/permissio
     PermissionsAbilityFactory,
     CurrentOrganizationGuard,
     PermissionsGuard,
+    PoliciesGuard,
   ],
 })
 export class PermissionsModule {}
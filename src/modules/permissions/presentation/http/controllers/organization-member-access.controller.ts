@@ -58,6 +58,7 @@ export class OrganizationMemberAccessController {
   @RequireOrganizationPermissions('organization_members.manage')
   @ApiDoc({
     summary: 'Replace organization member access',
+    description: '`roleCodes` accepts system roles and custom roles of the current organization.',
     body: UpdateOrganizationMemberAccessDto,
     response: PermissionSnapshotResponseDto,
     commonResponses: ['badRequest', 'unauthorized', 'conflict', 'forbidden', 'notFound'],
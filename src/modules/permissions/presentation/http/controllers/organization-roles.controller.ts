@@ -0,0 +1,147 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { CreateOrganizationRoleUseCase } from '@/modules/permissions/application/use-cases/create-organization-role.use-case';
+import { DeleteOrganizationRoleUseCase } from '@/modules/permissions/application/use-cases/delete-organization-role.use-case';
+import { ListOrganizationRolesUseCase } from '@/modules/permissions/application/use-cases/list-organization-roles.use-case';
+import { UpdateOrganizationRoleUseCase } from '@/modules/permissions/application/use-cases/update-organization-role.use-case';
+import {
+  CreateOrganizationRoleDto,
+  DeleteOrganizationRoleQueryDto,
+  OrganizationRoleIdParamDto,
+  OrganizationRoleListResponseDto,
+  OrganizationRoleResponseDto,
+  toOrganizationRoleResponseDto,
+  UpdateOrganizationRoleDto,
+} from '@/modules/permissions/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentOrganization,
+  RequireOrganizationPermissions,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const ROLE_ID_PARAM = {
+  name: 'id',
+  description: 'Custom organization role ID',
+  example: '1925012345678901248',
+};
+
+@ApiTags('Permissions')
+@Controller('organizations/current/roles')
+export class OrganizationRolesController {
+  constructor(
+    private readonly listOrganizationRolesUseCase: ListOrganizationRolesUseCase,
+    private readonly createOrganizationRoleUseCase: CreateOrganizationRoleUseCase,
+    private readonly updateOrganizationRoleUseCase: UpdateOrganizationRoleUseCase,
+    private readonly deleteOrganizationRoleUseCase: DeleteOrganizationRoleUseCase,
+  ) { }
+
+  @Get()
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'List organization roles',
+    description: 'Lists the system roles followed by the custom roles of the current organization, with their permissions and how many members hold each one.',
+    response: OrganizationRoleListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async findAll(@CurrentOrganization('id') organizationId: string) {
+    const result = await this.listOrganizationRolesUseCase.execute(organizationId);
+
+    return ResponseHelper.success(
+      result.data.map(toOrganizationRoleResponseDto),
+      result.message,
+    );
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Create organization role',
+    description: 'Creates a custom role composed from the permission catalog. The code is unique inside the organization and cannot reuse a system role code. `permissionConditions` limits a permission of the role to the resources matching its conditions; only `users.read` and `users.manage` accept conditions. You can only grant permissions you hold on every resource (403 otherwise), so `users.manage` and `users.impersonate` stay with the owners.',
+    body: CreateOrganizationRoleDto,
+    response: OrganizationRoleResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async create(
+    @CurrentOrganization('id') organizationId: string,
+    @Body() dto: CreateOrganizationRoleDto,
+  ) {
+    const result = await this.createOrganizationRoleUseCase.execute({
+      organizationId,
+      code: dto.code,
+      name: dto.name,
+      description: dto.description,
+      permissionCodes: dto.permissionCodes,
+      permissionConditions: dto.permissionConditions,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationRoleResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Patch(':id')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Update organization role',
+    description: 'Only custom roles can be changed. When `permissionCodes` is sent it replaces every permission of the role, and their `permissionConditions`, which applies to its members on their next request. The new permissions must be held by you on every resource (403 otherwise).',
+    body: UpdateOrganizationRoleDto,
+    response: OrganizationRoleResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [ROLE_ID_PARAM],
+  })
+  async update(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationRoleIdParamDto,
+    @Body() dto: UpdateOrganizationRoleDto,
+  ) {
+    const result = await this.updateOrganizationRoleUseCase.execute({
+      organizationId,
+      roleId: params.id,
+      name: dto.name,
+      description: dto.description,
+      permissionCodes: dto.permissionCodes,
+      permissionConditions: dto.permissionConditions,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationRoleResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Delete(':id')
+  @RequireOrganizationPermissions('organization_members.manage')
+  @ApiDoc({
+    summary: 'Delete organization role',
+    description: 'Only custom roles can be deleted. When members hold the role, send `reassignTo` with the code of the role they should receive instead; `org_owner` is not accepted.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [ROLE_ID_PARAM],
+  })
+  async remove(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: OrganizationRoleIdParamDto,
+    @Query() query: DeleteOrganizationRoleQueryDto,
+  ) {
+    const result = await this.deleteOrganizationRoleUseCase.execute({
+      organizationId,
+      roleId: params.id,
+      reassignTo: query.reassignTo,
+    });
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -10,11 +10,7 @@ import {
   PermissionCatalogResponseDto,
   PermissionSnapshotResponseDto,
 } from '@/modules/permissions/presentation/http/dtos';
-import {
-  ApiDoc,
-  CurrentOrganization,
-  CurrentUser,
-} from '@/shared/http/decorators';
+import { ApiDoc } from '@/shared/http/decorators';
 import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
 import { ResponseHelper } from '@/shared/http/helpers/response-helper';
 
@@ -42,16 +38,10 @@ export class PermissionsController {
   @ApiDoc({
     summary: 'Get current user permissions for the selected organization',
     response: PermissionSnapshotResponseDto,
-    commonResponses: ['unauthorized', 'conflict', 'notFound'],
+    commonResponses: ['unauthorized', 'conflict'],
   })
-  async getCurrentPermissions(
-    @CurrentUser('id') userId: string,
-    @CurrentOrganization('id') organizationId: string,
-  ) {
-    const result = await this.getCurrentPermissionsUseCase.execute(
-      userId,
-      organizationId,
-    );
+  async getCurrentPermissions() {
+    const result = await this.getCurrentPermissionsUseCase.execute();
 
     return ResponseHelper.success(result.data, result.message);
   }
@@ -1,4 +1,6 @@
 export * from './organization-member-user-id-param.dto';
+export * from './organization-role.dto';
 export * from './permission-catalog-response.dto';
+export * from './permission-conditions.dto';
 export * from './permission-snapshot-response.dto';
 export * from './update-organization-member-access.dto';
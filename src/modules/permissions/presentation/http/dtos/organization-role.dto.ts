@@ -0,0 +1,177 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import {
+  CUSTOM_ROLE_CODE_MAX_LENGTH,
+  CUSTOM_ROLE_CODE_PATTERN,
+  isPermissionCode,
+  PERMISSION_CODES,
+  type PermissionCode,
+} from '@/modules/permissions/application/constants/permissions.constants';
+import type { OrganizationRole } from '@/modules/permissions/domain/entities/organization-role.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+import {
+  PermissionConditionsSchema,
+  refinePermissionConditions,
+} from './permission-conditions.dto';
+
+/** A system role code or the code of a custom role of the organization. */
+export const roleCodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Role code is required')
+  .max(CUSTOM_ROLE_CODE_MAX_LENGTH, `Role code must have at most ${CUSTOM_ROLE_CODE_MAX_LENGTH} characters`)
+  .regex(
+    CUSTOM_ROLE_CODE_PATTERN,
+    'Role code must start with a lowercase letter and contain only lowercase letters, digits and underscores',
+  );
+
+const organizationRoleNameSchema = z
+  .string({
+    message: 'Name is required',
+  })
+  .trim()
+  .min(1, 'Name is required')
+  .max(128, 'Name must have at most 128 characters');
+
+const organizationRoleDescriptionSchema = z
+  .string()
+  .trim()
+  .max(500, 'Description must have at most 500 characters')
+  .nullable();
+
+const organizationRolePermissionCodesSchema = z
+  .array(z.enum(PERMISSION_CODES))
+  .refine((codes) => new Set(codes).size === codes.length, {
+    message: 'permissionCodes must not contain duplicates',
+  });
+
+/** Conditions of the permissions of the role, keyed by permission code. */
+const organizationRolePermissionConditionsSchema = z.partialRecord(
+  z.enum(PERMISSION_CODES),
+  PermissionConditionsSchema,
+);
+
+function refineOrganizationRolePermissionConditions(
+  value: {
+    permissionCodes?: PermissionCode[];
+    permissionConditions?: z.infer<typeof organizationRolePermissionConditionsSchema>;
+  },
+  ctx: z.RefinementCtx,
+): void {
+  const permissionCodes = new Set(value.permissionCodes ?? []);
+
+  Object.entries(value.permissionConditions ?? {}).forEach(([permissionCode, conditions]) => {
+    if (!conditions || !isPermissionCode(permissionCode)) {
+      return;
+    }
+
+    if (!permissionCodes.has(permissionCode)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${permissionCode} must be listed in permissionCodes to have conditions`,
+        path: ['permissionConditions', permissionCode],
+      });
+      return;
+    }
+
+    refinePermissionConditions(
+      permissionCode,
+      conditions,
+      ctx,
+      ['permissionConditions', permissionCode],
+    );
+  });
+}
+
+export const CreateOrganizationRoleSchema = z
+  .object({
+    code: roleCodeSchema,
+    name: organizationRoleNameSchema,
+    description: organizationRoleDescriptionSchema.optional(),
+    permissionCodes: organizationRolePermissionCodesSchema.default([]),
+    permissionConditions: organizationRolePermissionConditionsSchema.optional(),
+  })
+  .superRefine(refineOrganizationRolePermissionConditions);
+
+export const UpdateOrganizationRoleSchema = z
+  .object({
+    name: organizationRoleNameSchema.optional(),
+    description: organizationRoleDescriptionSchema.optional(),
+    permissionCodes: organizationRolePermissionCodesSchema.optional(),
+    permissionConditions: organizationRolePermissionConditionsSchema.optional(),
+  })
+  .refine(
+    (value) =>
+      value.name !== undefined ||
+      value.description !== undefined ||
+      value.permissionCodes !== undefined,
+    {
+      message: 'Provide a name, a description or permissionCodes',
+      path: ['name'],
+    },
+  )
+  .superRefine(refineOrganizationRolePermissionConditions);
+
+export const OrganizationRoleIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const DeleteOrganizationRoleQuerySchema = z.object({
+  reassignTo: roleCodeSchema.optional(),
+});
+
+export const OrganizationRoleResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  code: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  isSystem: z.boolean(),
+  permissionCodes: z.array(z.enum(PERMISSION_CODES)),
+  permissionConditions: organizationRolePermissionConditionsSchema,
+  memberCount: z.number().int(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const OrganizationRoleListResponseSchema = z.array(OrganizationRoleResponseSchema);
+
+export type OrganizationRoleResponse = z.infer<typeof OrganizationRoleResponseSchema>;
+
+export function toOrganizationRoleResponseDto(role: OrganizationRole): OrganizationRoleResponse {
+  return {
+    id: role.id,
+    code: role.code,
+    name: role.name,
+    description: role.description,
+    isSystem: role.isSystem,
+    permissionCodes: role.permissionCodes,
+    permissionConditions: role.permissionConditions,
+    memberCount: role.memberCount,
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString(),
+  };
+}
+
+export class CreateOrganizationRoleDto extends createZodDto(
+  CreateOrganizationRoleSchema,
+) {}
+
+export class UpdateOrganizationRoleDto extends createZodDto(
+  UpdateOrganizationRoleSchema,
+) {}
+
+export class OrganizationRoleIdParamDto extends createZodDto(
+  OrganizationRoleIdParamSchema,
+) {}
+
+export class DeleteOrganizationRoleQueryDto extends createZodDto(
+  DeleteOrganizationRoleQuerySchema,
+) {}
+
+export class OrganizationRoleResponseDto extends createZodDto(
+  OrganizationRoleResponseSchema,
+) {}
+
+export class OrganizationRoleListResponseDto extends createZodDto(
+  OrganizationRoleListResponseSchema,
+) {}
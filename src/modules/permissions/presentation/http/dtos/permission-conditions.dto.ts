@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { PERMISSION_CONDITION_OPERATORS } from '@/modules/permissions/application/constants/permission-conditions.constants';
+import type { PermissionCode } from '@/modules/permissions/application/constants/permissions.constants';
+import type { PermissionConditions } from '@/modules/permissions/application/types/permission-conditions.type';
+import { listPermissionConditionsIssues } from '@/modules/permissions/application/utils/permission-conditions.util';
+
+const PermissionConditionValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+]);
+
+export const PermissionConditionsSchema = z.record(
+  z.string(),
+  z.union([
+    PermissionConditionValueSchema,
+    z.partialRecord(
+      z.enum(PERMISSION_CONDITION_OPERATORS),
+      z.union([
+        PermissionConditionValueSchema,
+        z.array(PermissionConditionValueSchema),
+      ]),
+    ),
+  ]),
+);
+
+/** Reports conditions the permission does not accept. */
+export function refinePermissionConditions(
+  permissionCode: PermissionCode,
+  conditions: PermissionConditions,
+  ctx: z.RefinementCtx,
+  path: PropertyKey[],
+): void {
+  listPermissionConditionsIssues(permissionCode, conditions).forEach((message) => {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message,
+      path,
+    });
+  });
+}
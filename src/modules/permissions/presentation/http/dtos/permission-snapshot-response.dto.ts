@@ -6,22 +6,45 @@ import {
 import {
   PERMISSION_CODES,
   PERMISSION_OVERRIDE_EFFECTS,
-  SYSTEM_ROLE_CODES,
+  PERMISSION_SOURCE_TYPES,
 } from '@/modules/permissions/application/constants/permissions.constants';
 import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+import { PermissionConditionsSchema } from './permission-conditions.dto';
 
 export const PermissionOverrideAssignmentSchema = z.object({
   permissionCode: z.enum(PERMISSION_CODES),
   effect: z.enum(PERMISSION_OVERRIDE_EFFECTS),
+  conditions: PermissionConditionsSchema.nullable(),
+});
+
+export const PermissionSnapshotTeamSchema = z.object({
+  id: snowflakeIdSchema,
+  name: z.string(),
+  roleCodes: z.array(z.string()),
+});
+
+export const EffectivePermissionSourceSchema = z.object({
+  permissionCode: z.enum(PERMISSION_CODES),
+  sources: z.array(
+    z.object({
+      type: z.enum(PERMISSION_SOURCE_TYPES),
+      roleCode: z.string().optional(),
+      teamId: snowflakeIdSchema.optional(),
+      teamName: z.string().optional(),
+      conditions: PermissionConditionsSchema.optional(),
+    }),
+  ),
 });
 
 export const PermissionSnapshotResponseSchema = z.object({
   userId: snowflakeIdSchema,
   organizationId: snowflakeIdSchema,
   legacyRole: z.enum(ORGANIZATION_MEMBERSHIP_ROLES),
-  roleCodes: z.array(z.enum(SYSTEM_ROLE_CODES)),
+  roleCodes: z.array(z.string()),
+  teams: z.array(PermissionSnapshotTeamSchema),
   overrides: z.array(PermissionOverrideAssignmentSchema),
   effectivePermissionCodes: z.array(z.enum(PERMISSION_CODES)),
+  permissionSources: z.array(EffectivePermissionSourceSchema),
 });
 
 export class PermissionSnapshotResponseDto extends createZodDto(
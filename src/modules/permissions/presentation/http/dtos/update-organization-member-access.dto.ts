@@ -3,11 +3,15 @@ import { z } from 'zod';
 import {
   PERMISSION_CODES,
   PERMISSION_OVERRIDE_EFFECTS,
-  SYSTEM_ROLE_CODES,
 } from '@/modules/permissions/application/constants/permissions.constants';
+import { roleCodeSchema } from './organization-role.dto';
+import {
+  PermissionConditionsSchema,
+  refinePermissionConditions,
+} from './permission-conditions.dto';
 
-const UniqueSystemRoleCodesSchema = z
-  .array(z.enum(SYSTEM_ROLE_CODES))
+const UniqueRoleCodesSchema = z
+  .array(roleCodeSchema)
   .superRefine((value, ctx) => {
     const uniqueValues = new Set(value);
 
@@ -24,6 +28,7 @@ const UniquePermissionOverridesSchema = z
     z.object({
       permissionCode: z.enum(PERMISSION_CODES),
       effect: z.enum(PERMISSION_OVERRIDE_EFFECTS),
+      conditions: PermissionConditionsSchema.nullable().default(null),
     }),
   )
   .superRefine((value, ctx) => {
@@ -37,10 +42,21 @@ const UniquePermissionOverridesSchema = z
         message: 'overrides must not contain duplicate permissionCode values',
       });
     }
+
+    value.forEach((override, index) => {
+      if (override.conditions) {
+        refinePermissionConditions(
+          override.permissionCode,
+          override.conditions,
+          ctx,
+          [index, 'conditions'],
+        );
+      }
+    });
   });
 
 export const UpdateOrganizationMemberAccessSchema = z.object({
-  roleCodes: UniqueSystemRoleCodesSchema.default([]),
+  roleCodes: UniqueRoleCodesSchema.default([]),
   overrides: UniquePermissionOverridesSchema.default([]),
 });
 
@@ -0,0 +1,23 @@
+export const ENTITLEMENT_FEATURE_CODES = [
+  'reports.pdf',
+  'reports.spreadsheet',
+  'organization_teams',
+  'organization_domains',
+] as const;
+
+export type EntitlementFeatureCode = (typeof ENTITLEMENT_FEATURE_CODES)[number];
+
+export function isEntitlementFeatureCode(code: string): code is EntitlementFeatureCode {
+  return (ENTITLEMENT_FEATURE_CODES as readonly string[]).includes(code);
+}
+
+export const PLAN_NOT_FOUND_MESSAGE = 'Plan not found';
+export const PLAN_CODE_TAKEN_MESSAGE = 'Another plan already uses this code';
+export const PLAN_IN_USE_MESSAGE =
+  'This plan is assigned to organizations. Move them to another plan first.';
+export const ENTITLEMENT_FEATURE_UNAVAILABLE_MESSAGE =
+  'This feature is not included in the organization plan';
+export const ENTITLEMENT_SEAT_LIMIT_MESSAGE =
+  'The organization plan has no seats left. Remove members or upgrade the plan.';
+export const ENTITLEMENT_REPORT_EXPORT_LIMIT_MESSAGE =
+  'The organization reached the monthly report export limit of its plan';
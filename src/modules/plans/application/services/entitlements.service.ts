@@ -0,0 +1,178 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import type { Plan } from '@/modules/plans/domain/entities/plan.entity';
+import {
+  ORGANIZATION_USAGE_REPOSITORY,
+  type IOrganizationUsageRepository,
+} from '@/modules/plans/domain/repositories/organization-usage.repository.interface';
+import {
+  PLAN_REPOSITORY,
+  type IPlanRepository,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+import {
+  ENTITLEMENT_FEATURE_CODES,
+  ENTITLEMENT_FEATURE_UNAVAILABLE_MESSAGE,
+  ENTITLEMENT_REPORT_EXPORT_LIMIT_MESSAGE,
+  ENTITLEMENT_SEAT_LIMIT_MESSAGE,
+  type EntitlementFeatureCode,
+} from '../constants/plan.constants';
+import { getMonthlyUsagePeriod } from '../utils/usage-period.util';
+
+export interface OrganizationEntitlements {
+  plan: Plan | null;
+  seatLimit: number | null;
+  monthlyReportExportLimit: number | null;
+  features: EntitlementFeatureCode[];
+}
+
+export interface OrganizationUsage {
+  entitlements: OrganizationEntitlements;
+  seats: {
+    used: number;
+    pendingInvitations: number;
+  };
+  reportExports: {
+    used: number;
+    periodStart: Date;
+    periodEnd: Date;
+  };
+}
+
+export interface RecordReportExportInput {
+  organizationId: string;
+  userId?: string | null;
+  reportCode: string;
+  format: string;
+}
+
+/**
+ * Resolves what the plan of an organization allows and enforces its limits.
+ * Organizations without a plan, when no default plan exists either, are not
+ * restricted.
+ */
+@Injectable()
+export class EntitlementsService {
+  constructor(
+    @Inject(PLAN_REPOSITORY)
+    private readonly planRepository: IPlanRepository,
+    @Inject(ORGANIZATION_USAGE_REPOSITORY)
+    private readonly organizationUsageRepository: IOrganizationUsageRepository,
+  ) {}
+
+  async getEntitlements(organizationId: string): Promise<OrganizationEntitlements> {
+    const plan = await this.planRepository.findForOrganization(organizationId);
+
+    if (!plan) {
+      return {
+        plan: null,
+        seatLimit: null,
+        monthlyReportExportLimit: null,
+        features: [...ENTITLEMENT_FEATURE_CODES],
+      };
+    }
+
+    return {
+      plan,
+      seatLimit: plan.seatLimit,
+      monthlyReportExportLimit: plan.monthlyReportExportLimit,
+      features: plan.features,
+    };
+  }
+
+  async getUsage(organizationId: string, now = new Date()): Promise<OrganizationUsage> {
+    const period = getMonthlyUsagePeriod(now);
+    const [entitlements, members, pendingInvitations, reportExports] = await Promise.all([
+      this.getEntitlements(organizationId),
+      this.organizationUsageRepository.countMembers(organizationId),
+      this.organizationUsageRepository.countPendingInvitations(organizationId, now),
+      this.organizationUsageRepository.countReportExportsSince(organizationId, period.start),
+    ]);
+
+    return {
+      entitlements,
+      seats: {
+        used: members,
+        pendingInvitations,
+      },
+      reportExports: {
+        used: reportExports,
+        periodStart: period.start,
+        periodEnd: period.end,
+      },
+    };
+  }
+
+  async hasFeatures(
+    organizationId: string,
+    featureCodes: readonly EntitlementFeatureCode[],
+  ): Promise<boolean> {
+    const entitlements = await this.getEntitlements(organizationId);
+
+    return featureCodes.every((featureCode) => entitlements.features.includes(featureCode));
+  }
+
+  async assertFeature(
+    organizationId: string,
+    featureCode: EntitlementFeatureCode,
+  ): Promise<void> {
+    if (!(await this.hasFeatures(organizationId, [featureCode]))) {
+      throw new ForbiddenException(ENTITLEMENT_FEATURE_UNAVAILABLE_MESSAGE);
+    }
+  }
+
+  /**
+   * Checks that one more member fits in the plan. Pending invitations hold a
+   * seat when `includePendingInvitations` is set, so that sending invitations
+   * cannot overbook the organization.
+   */
+  async assertSeatAvailable(
+    organizationId: string,
+    options: { includePendingInvitations?: boolean } = {},
+  ): Promise<void> {
+    const entitlements = await this.getEntitlements(organizationId);
+
+    if (entitlements.seatLimit === null) {
+      return;
+    }
+
+    const [members, pendingInvitations] = await Promise.all([
+      this.organizationUsageRepository.countMembers(organizationId),
+      options.includePendingInvitations
+        ? this.organizationUsageRepository.countPendingInvitations(organizationId, new Date())
+        : Promise.resolve(0),
+    ]);
+
+    if (members + pendingInvitations >= entitlements.seatLimit) {
+      throw new ForbiddenException(ENTITLEMENT_SEAT_LIMIT_MESSAGE);
+    }
+  }
+
+  async assertReportExportAvailable(organizationId: string, now = new Date()): Promise<void> {
+    const entitlements = await this.getEntitlements(organizationId);
+
+    if (entitlements.monthlyReportExportLimit === null) {
+      return;
+    }
+
+    const exports = await this.organizationUsageRepository.countReportExportsSince(
+      organizationId,
+      getMonthlyUsagePeriod(now).start,
+    );
+
+    if (exports >= entitlements.monthlyReportExportLimit) {
+      throw new ForbiddenException(ENTITLEMENT_REPORT_EXPORT_LIMIT_MESSAGE);
+    }
+  }
+
+  recordReportExport(input: RecordReportExportInput): Promise<void> {
+    return this.organizationUsageRepository.recordReportExport({
+      organizationId: input.organizationId,
+      userId: input.userId ?? null,
+      reportCode: input.reportCode,
+      format: input.format,
+    });
+  }
+}
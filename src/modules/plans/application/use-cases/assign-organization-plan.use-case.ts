@@ -0,0 +1,56 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  PLAN_REPOSITORY,
+  type IPlanRepository,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+import { PLAN_NOT_FOUND_MESSAGE } from '../constants/plan.constants';
+import { EntitlementsService } from '../services/entitlements.service';
+
+export interface AssignOrganizationPlanInput {
+  organizationId: string;
+  /** `null` removes the assignment so the default plan applies. */
+  planId: string | null;
+  assignedByUserId: string;
+}
+
+@Injectable()
+export class AssignOrganizationPlanUseCase {
+  constructor(
+    @Inject(PLAN_REPOSITORY)
+    private readonly planRepository: IPlanRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async execute(input: AssignOrganizationPlanInput) {
+    const organization = await this.organizationRepository.findById(input.organizationId);
+
+    if (!organization || organization.deletedAt) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (input.planId && !(await this.planRepository.findById(input.planId))) {
+      throw new NotFoundException(PLAN_NOT_FOUND_MESSAGE);
+    }
+
+    await this.planRepository.assignToOrganization(
+      organization.id,
+      input.planId,
+      input.assignedByUserId,
+    );
+
+    return {
+      data: await this.entitlementsService.getEntitlements(organization.id),
+      message: 'Organization plan updated successfully',
+    };
+  }
+}
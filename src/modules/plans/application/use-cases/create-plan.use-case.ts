@@ -0,0 +1,54 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import {
+  PLAN_REPOSITORY,
+  type IPlanRepository,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+import {
+  PLAN_CODE_TAKEN_MESSAGE,
+  type EntitlementFeatureCode,
+} from '../constants/plan.constants';
+
+export interface CreatePlanInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  seatLimit?: number | null;
+  monthlyReportExportLimit?: number | null;
+  features: EntitlementFeatureCode[];
+  isDefault?: boolean;
+}
+
+@Injectable()
+export class CreatePlanUseCase {
+  constructor(
+    @Inject(PLAN_REPOSITORY)
+    private readonly planRepository: IPlanRepository,
+  ) {}
+
+  async execute(input: CreatePlanInput) {
+    const existingPlan = await this.planRepository.findByCode(input.code);
+
+    if (existingPlan) {
+      throw new ConflictException(PLAN_CODE_TAKEN_MESSAGE);
+    }
+
+    const plan = await this.planRepository.create({
+      code: input.code,
+      name: input.name,
+      description: input.description ?? null,
+      seatLimit: input.seatLimit ?? null,
+      monthlyReportExportLimit: input.monthlyReportExportLimit ?? null,
+      features: Array.from(new Set(input.features)),
+      isDefault: input.isDefault ?? false,
+    });
+
+    return {
+      data: plan,
+      message: 'Plan created successfully',
+    };
+  }
+}
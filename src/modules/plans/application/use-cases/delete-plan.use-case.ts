@@ -0,0 +1,40 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  PLAN_REPOSITORY,
+  type IPlanRepository,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+import {
+  PLAN_IN_USE_MESSAGE,
+  PLAN_NOT_FOUND_MESSAGE,
+} from '../constants/plan.constants';
+
+@Injectable()
+export class DeletePlanUseCase {
+  constructor(
+    @Inject(PLAN_REPOSITORY)
+    private readonly planRepository: IPlanRepository,
+  ) {}
+
+  async execute(planId: string) {
+    const plan = await this.planRepository.findById(planId);
+
+    if (!plan) {
+      throw new NotFoundException(PLAN_NOT_FOUND_MESSAGE);
+    }
+
+    if (await this.planRepository.countOrganizations(plan.id) > 0) {
+      throw new ConflictException(PLAN_IN_USE_MESSAGE);
+    }
+
+    await this.planRepository.delete(plan.id);
+
+    return {
+      message: 'Plan deleted successfully',
+    };
+  }
+}
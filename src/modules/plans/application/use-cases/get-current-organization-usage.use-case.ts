@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { EntitlementsService } from '../services/entitlements.service';
+
+@Injectable()
+export class GetCurrentOrganizationUsageUseCase {
+  constructor(private readonly entitlementsService: EntitlementsService) {}
+
+  async execute(organizationId: string) {
+    const usage = await this.entitlementsService.getUsage(organizationId);
+
+    return {
+      data: usage,
+      message: 'Organization usage retrieved successfully',
+    };
+  }
+}
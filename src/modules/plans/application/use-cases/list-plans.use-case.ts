@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  PLAN_REPOSITORY,
+  type IPlanRepository,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+
+@Injectable()
+export class ListPlansUseCase {
+  constructor(
+    @Inject(PLAN_REPOSITORY)
+    private readonly planRepository: IPlanRepository,
+  ) {}
+
+  async execute() {
+    const plans = await this.planRepository.list();
+
+    return {
+      data: plans,
+      message: 'Plans retrieved successfully',
+    };
+  }
+}
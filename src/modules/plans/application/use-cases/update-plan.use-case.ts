@@ -0,0 +1,53 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  PLAN_REPOSITORY,
+  type IPlanRepository,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+import {
+  PLAN_NOT_FOUND_MESSAGE,
+  type EntitlementFeatureCode,
+} from '../constants/plan.constants';
+
+export interface UpdatePlanInput {
+  planId: string;
+  name?: string;
+  description?: string | null;
+  seatLimit?: number | null;
+  monthlyReportExportLimit?: number | null;
+  features?: EntitlementFeatureCode[];
+  isDefault?: boolean;
+}
+
+@Injectable()
+export class UpdatePlanUseCase {
+  constructor(
+    @Inject(PLAN_REPOSITORY)
+    private readonly planRepository: IPlanRepository,
+  ) {}
+
+  async execute(input: UpdatePlanInput) {
+    const plan = await this.planRepository.update(input.planId, {
+      name: input.name,
+      description: input.description,
+      seatLimit: input.seatLimit,
+      monthlyReportExportLimit: input.monthlyReportExportLimit,
+      features: input.features !== undefined
+        ? Array.from(new Set(input.features))
+        : undefined,
+      isDefault: input.isDefault,
+    });
+
+    if (!plan) {
+      throw new NotFoundException(PLAN_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      data: plan,
+      message: 'Plan updated successfully',
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { getMonthlyUsagePeriod } from './usage-period.util';
+
+describe('usage-period.util', () => {
+  it('spans the UTC calendar month of the given date', () => {
+    expect(getMonthlyUsagePeriod(new Date('2026-10-19T15:30:00.000Z'))).toEqual({
+      start: new Date('2026-10-01T00:00:00.000Z'),
+      end: new Date('2026-11-01T00:00:00.000Z'),
+    });
+  });
+
+  it('rolls over to the next year in December', () => {
+    expect(getMonthlyUsagePeriod(new Date('2026-12-31T23:59:59.999Z'))).toEqual({
+      start: new Date('2026-12-01T00:00:00.000Z'),
+      end: new Date('2027-01-01T00:00:00.000Z'),
+    });
+  });
+
+  it('includes the first instant of the month', () => {
+    const period = getMonthlyUsagePeriod(new Date('2026-03-01T00:00:00.000Z'));
+
+    expect(period.start).toEqual(new Date('2026-03-01T00:00:00.000Z'));
+  });
+});
@@ -0,0 +1,12 @@
+export interface UsagePeriod {
+  start: Date;
+  end: Date;
+}
+
+/** The calendar month, in UTC, that contains `now`. `end` is exclusive. */
+export function getMonthlyUsagePeriod(now: Date): UsagePeriod {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
@@ -0,0 +1,22 @@
+import type { EntitlementFeatureCode } from '@/modules/plans/application/constants/plan.constants';
+
+/**
+ * What an organization may use. A `null` limit means unlimited. The plan
+ * flagged `isDefault` applies to organizations without an assigned plan.
+ */
+export class Plan {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  seatLimit: number | null;
+  monthlyReportExportLimit: number | null;
+  features: EntitlementFeatureCode[];
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<Plan> = {}) {
+    Object.assign(this, partial);
+  }
+}
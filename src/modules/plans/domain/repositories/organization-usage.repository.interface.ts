@@ -0,0 +1,15 @@
+export interface RecordReportExportData {
+  organizationId: string;
+  userId: string | null;
+  reportCode: string;
+  format: string;
+}
+
+export interface IOrganizationUsageRepository {
+  countMembers(organizationId: string): Promise<number>;
+  countPendingInvitations(organizationId: string, now: Date): Promise<number>;
+  countReportExportsSince(organizationId: string, since: Date): Promise<number>;
+  recordReportExport(data: RecordReportExportData): Promise<void>;
+}
+
+export const ORGANIZATION_USAGE_REPOSITORY = Symbol('ORGANIZATION_USAGE_REPOSITORY');
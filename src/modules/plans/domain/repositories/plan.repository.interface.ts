@@ -0,0 +1,35 @@
+import type { EntitlementFeatureCode } from '@/modules/plans/application/constants/plan.constants';
+import type { Plan } from '../entities/plan.entity';
+
+export interface CreatePlanData {
+  code: string;
+  name: string;
+  description: string | null;
+  seatLimit: number | null;
+  monthlyReportExportLimit: number | null;
+  features: EntitlementFeatureCode[];
+  isDefault: boolean;
+}
+
+export type UpdatePlanData = Partial<Omit<CreatePlanData, 'code'>>;
+
+export interface IPlanRepository {
+  /** Flagging a plan as default clears the flag of the previous default plan. */
+  create(data: CreatePlanData): Promise<Plan>;
+  findById(id: string): Promise<Plan | null>;
+  findByCode(code: string): Promise<Plan | null>;
+  list(): Promise<Plan[]>;
+  update(id: string, data: UpdatePlanData): Promise<Plan | null>;
+  delete(id: string): Promise<boolean>;
+  countOrganizations(id: string): Promise<number>;
+  /** The assigned plan, or the default plan when none was assigned. */
+  findForOrganization(organizationId: string): Promise<Plan | null>;
+  /** A `null` plan removes the assignment, falling back to the default plan. */
+  assignToOrganization(
+    organizationId: string,
+    planId: string | null,
+    assignedByUserId: string,
+  ): Promise<void>;
+}
+
+export const PLAN_REPOSITORY = Symbol('PLAN_REPOSITORY');
@@ -0,0 +1,19 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationPlanModel = defineModel({
+  name: 'OrganizationPlan',
+  table: 'organization_plans',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    organizationId: snowflakeIdColumn(),
+    planId: snowflakeIdColumn(),
+    assignedByUserId: snowflakeIdColumn().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationPlanRecord = InferModelShape<typeof OrganizationPlanModel>;
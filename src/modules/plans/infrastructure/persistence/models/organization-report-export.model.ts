@@ -0,0 +1,21 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const OrganizationReportExportModel = defineModel({
+  name: 'OrganizationReportExport',
+  table: 'organization_report_exports',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    organizationId: snowflakeIdColumn(),
+    userId: snowflakeIdColumn().nullable(),
+    reportCode: col.text(),
+    format: col.text(),
+    createdAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type OrganizationReportExportRecord = InferModelShape<
+  typeof OrganizationReportExportModel
+>;
@@ -0,0 +1,23 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const PlanModel = defineModel({
+  name: 'Plan',
+  table: 'plans',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    code: col.text(),
+    name: col.text(),
+    description: col.text().nullable(),
+    seatLimit: col.int().nullable(),
+    monthlyReportExportLimit: col.int().nullable(),
+    features: col.custom<string[], 'text[]'>('text[]').nativeType('text[]'),
+    isDefault: col.boolean(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type PlanRecord = InferModelShape<typeof PlanModel>;
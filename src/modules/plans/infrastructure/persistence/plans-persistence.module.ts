@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ORGANIZATION_USAGE_REPOSITORY } from '@/modules/plans/domain/repositories/organization-usage.repository.interface';
+import { PLAN_REPOSITORY } from '@/modules/plans/domain/repositories/plan.repository.interface';
+import { OrganizationUsageRepository } from './repositories/organization-usage.repository';
+import { PlanRepository } from './repositories/plan.repository';
+
+@Module({
+  providers: [
+    {
+      provide: PLAN_REPOSITORY,
+      useClass: PlanRepository,
+    },
+    {
+      provide: ORGANIZATION_USAGE_REPOSITORY,
+      useClass: OrganizationUsageRepository,
+    },
+  ],
+  exports: [PLAN_REPOSITORY, ORGANIZATION_USAGE_REPOSITORY],
+})
+export class PlansPersistenceModule {}
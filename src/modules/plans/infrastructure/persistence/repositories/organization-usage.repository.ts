@@ -0,0 +1,78 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
+import { OrganizationInvitationModel } from '@/modules/organizations/infrastructure/persistence/models/organization-invitation.model';
+import { OrganizationMembershipModel } from '@/modules/organizations/infrastructure/persistence/models/organization-membership.model';
+import type {
+  IOrganizationUsageRepository,
+  RecordReportExportData,
+} from '@/modules/plans/domain/repositories/organization-usage.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { OrganizationReportExportModel } from '../models/organization-report-export.model';
+
+@Injectable()
+export class OrganizationUsageRepository implements IOrganizationUsageRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async countMembers(organizationId: string): Promise<number> {
+    const rows = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ organizationId: membershipOrganizationId }, op) =>
+          op.eq(membershipOrganizationId, organizationId),
+        )
+        .selectExpr('total', ({ id }) => expr.count<number>(id)),
+    );
+
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  async countPendingInvitations(organizationId: string, now: Date): Promise<number> {
+    const rows = await this.objxSession.execute(
+      OrganizationInvitationModel
+        .query()
+        .where(({ organizationId: invitationOrganizationId, status, expiresAt }, op) =>
+          op.and(
+            op.eq(invitationOrganizationId, organizationId),
+            op.eq(status, 'pending'),
+            op.gt(expiresAt, now),
+          ),
+        )
+        .selectExpr('total', ({ id }) => expr.count<number>(id)),
+    );
+
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  async countReportExportsSince(organizationId: string, since: Date): Promise<number> {
+    const rows = await this.objxSession.execute(
+      OrganizationReportExportModel
+        .query()
+        .where(({ organizationId: exportOrganizationId, createdAt }, op) =>
+          op.and(
+            op.eq(exportOrganizationId, organizationId),
+            op.gte(createdAt, since),
+          ),
+        )
+        .selectExpr('total', ({ id }) => expr.count<number>(id)),
+    );
+
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  async recordReportExport(data: RecordReportExportData): Promise<void> {
+    await this.objxSession.execute(
+      OrganizationReportExportModel.insert({
+        id: generateSnowflakeId(),
+        organizationId: data.organizationId,
+        userId: data.userId,
+        reportCode: data.reportCode,
+        format: data.format,
+      }),
+    );
+  }
+}
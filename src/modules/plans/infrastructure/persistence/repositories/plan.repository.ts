@@ -0,0 +1,258 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { expr } from '@qbobjx/core';
+import { isEntitlementFeatureCode } from '@/modules/plans/application/constants/plan.constants';
+import { Plan } from '@/modules/plans/domain/entities/plan.entity';
+import type {
+  CreatePlanData,
+  IPlanRepository,
+  UpdatePlanData,
+} from '@/modules/plans/domain/repositories/plan.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import { OrganizationPlanModel } from '../models/organization-plan.model';
+import { PlanModel, type PlanRecord } from '../models/plan.model';
+
+@Injectable()
+export class PlanRepository implements IPlanRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  create(data: CreatePlanData): Promise<Plan> {
+    return this.objxSession.transaction(async (trxSession) => {
+      if (data.isDefault) {
+        await clearDefaultPlan(trxSession);
+      }
+
+      const rows = await trxSession.execute(
+        PlanModel
+          .insert({
+            id: generateSnowflakeId(),
+            code: data.code,
+            name: data.name,
+            description: data.description,
+            seatLimit: data.seatLimit,
+            monthlyReportExportLimit: data.monthlyReportExportLimit,
+            features: data.features,
+            isDefault: data.isDefault,
+          })
+          .returning(({
+            id,
+            code,
+            name,
+            description,
+            seatLimit,
+            monthlyReportExportLimit,
+            features,
+            isDefault,
+            createdAt,
+            updatedAt,
+          }) => [
+            id,
+            code,
+            name,
+            description,
+            seatLimit,
+            monthlyReportExportLimit,
+            features,
+            isDefault,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      if (!row) {
+        throw new Error('Plan insert did not return a row.');
+      }
+
+      return mapPlanRow(row);
+    });
+  }
+
+  async findById(id: string): Promise<Plan | null> {
+    const rows = await this.objxSession.execute(
+      PlanModel
+        .query()
+        .where(({ id: planId }, op) => op.eq(planId, id))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapPlanRow(row) : null;
+  }
+
+  async findByCode(code: string): Promise<Plan | null> {
+    const rows = await this.objxSession.execute(
+      PlanModel
+        .query()
+        .where(({ code: planCode }, op) => op.eq(planCode, code))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapPlanRow(row) : null;
+  }
+
+  async list(): Promise<Plan[]> {
+    const rows = await this.objxSession.execute(
+      PlanModel
+        .query()
+        .orderBy(({ name }) => name, 'asc'),
+    );
+
+    return rows.map(mapPlanRow);
+  }
+
+  update(id: string, data: UpdatePlanData): Promise<Plan | null> {
+    return this.objxSession.transaction(async (trxSession) => {
+      if (data.isDefault) {
+        await clearDefaultPlan(trxSession);
+      }
+
+      const rows = await trxSession.execute(
+        PlanModel
+          .update({
+            ...(data.name !== undefined ? { name: data.name } : {}),
+            ...(data.description !== undefined ? { description: data.description } : {}),
+            ...(data.seatLimit !== undefined ? { seatLimit: data.seatLimit } : {}),
+            ...(data.monthlyReportExportLimit !== undefined
+              ? { monthlyReportExportLimit: data.monthlyReportExportLimit }
+              : {}),
+            ...(data.features !== undefined ? { features: data.features } : {}),
+            ...(data.isDefault !== undefined ? { isDefault: data.isDefault } : {}),
+            updatedAt: new Date(),
+          })
+          .where(({ id: planId }, op) => op.eq(planId, id))
+          .returning(({
+            id: planId,
+            code,
+            name,
+            description,
+            seatLimit,
+            monthlyReportExportLimit,
+            features,
+            isDefault,
+            createdAt,
+            updatedAt,
+          }) => [
+            planId,
+            code,
+            name,
+            description,
+            seatLimit,
+            monthlyReportExportLimit,
+            features,
+            isDefault,
+            createdAt,
+            updatedAt,
+          ]),
+      );
+      const row = rows[0];
+
+      return row ? mapPlanRow(row) : null;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deletedCount = await this.objxSession.execute(
+      PlanModel
+        .delete()
+        .where(({ id: planId }, op) => op.eq(planId, id)),
+    );
+
+    return deletedCount > 0;
+  }
+
+  async countOrganizations(id: string): Promise<number> {
+    const rows = await this.objxSession.execute(
+      OrganizationPlanModel
+        .query()
+        .where(({ planId }, op) => op.eq(planId, id))
+        .selectExpr('total', ({ id: organizationPlanId }) => expr.count<number>(organizationPlanId)),
+    );
+
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  async findForOrganization(organizationId: string): Promise<Plan | null> {
+    const assignments = await this.objxSession.execute(
+      OrganizationPlanModel
+        .query()
+        .where(({ organizationId: assignedOrganizationId }, op) =>
+          op.eq(assignedOrganizationId, organizationId),
+        )
+        .limit(1),
+    );
+    const assignment = assignments[0];
+    const rows = await this.objxSession.execute(
+      assignment
+        ? PlanModel
+          .query()
+          .where(({ id }, op) => op.eq(id, assignment.planId))
+          .limit(1)
+        : PlanModel
+          .query()
+          .where(({ isDefault }, op) => op.eq(isDefault, true))
+          .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapPlanRow(row) : null;
+  }
+
+  assignToOrganization(
+    organizationId: string,
+    planId: string | null,
+    assignedByUserId: string,
+  ): Promise<void> {
+    return this.objxSession.transaction(async (trxSession) => {
+      await trxSession.execute(
+        OrganizationPlanModel
+          .delete()
+          .where(({ organizationId: assignedOrganizationId }, op) =>
+            op.eq(assignedOrganizationId, organizationId),
+          ),
+      );
+
+      if (planId) {
+        await trxSession.execute(
+          OrganizationPlanModel.insert({
+            id: generateSnowflakeId(),
+            organizationId,
+            planId,
+            assignedByUserId,
+          }),
+        );
+      }
+    });
+  }
+}
+
+async function clearDefaultPlan(executor: ObjxSession): Promise<void> {
+  await executor.execute(
+    PlanModel
+      .update({
+        isDefault: false,
+        updatedAt: new Date(),
+      })
+      .where(({ isDefault }, op) => op.eq(isDefault, true)),
+  );
+}
+
+function mapPlanRow(row: PlanRecord): Plan {
+  return new Plan({
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    description: row.description ?? null,
+    seatLimit: row.seatLimit ?? null,
+    monthlyReportExportLimit: row.monthlyReportExportLimit ?? null,
+    features: row.features.filter(isEntitlementFeatureCode),
+    isDefault: row.isDefault,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
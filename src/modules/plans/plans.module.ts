@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { OrganizationsPersistenceModule } from '@/modules/organizations/infrastructure/persistence/organizations-persistence.module';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import { EntitlementsGuard } from '@/shared/http/guards/entitlements.guard';
+import { PlatformAdminGuard } from '@/shared/http/guards/platform-admin.guard';
+import { EntitlementsService } from './application/services/entitlements.service';
+import { AssignOrganizationPlanUseCase } from './application/use-cases/assign-organization-plan.use-case';
+import { CreatePlanUseCase } from './application/use-cases/create-plan.use-case';
+import { DeletePlanUseCase } from './application/use-cases/delete-plan.use-case';
+import { GetCurrentOrganizationUsageUseCase } from './application/use-cases/get-current-organization-usage.use-case';
+import { ListPlansUseCase } from './application/use-cases/list-plans.use-case';
+import { UpdatePlanUseCase } from './application/use-cases/update-plan.use-case';
+import { PlansPersistenceModule } from './infrastructure/persistence/plans-persistence.module';
+import { OrganizationUsageController } from './presentation/http/controllers/organization-usage.controller';
+import { PlansAdminController } from './presentation/http/controllers/plans-admin.controller';
+
+/**
+ * Plans Module
+ *
+ * Plans assigned to organizations by platform administrators, with the seat,
+ * report export and feature limits they carry. Exports the entitlements
+ * service and guard used by modules that enforce those limits.
+ */
+@Module({
+  imports: [PlansPersistenceModule, OrganizationsPersistenceModule],
+  providers: [
+    EntitlementsService,
+    EntitlementsGuard,
+    CurrentOrganizationGuard,
+    PlatformAdminGuard,
+    ListPlansUseCase,
+    CreatePlanUseCase,
+    UpdatePlanUseCase,
+    DeletePlanUseCase,
+    AssignOrganizationPlanUseCase,
+    GetCurrentOrganizationUsageUseCase,
+  ],
+  controllers: [PlansAdminController, OrganizationUsageController],
+  exports: [EntitlementsService, EntitlementsGuard],
+})
+export class PlansModule {}
@@ -0,0 +1,39 @@
+import {
+  Controller,
+  Get,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { GetCurrentOrganizationUsageUseCase } from '@/modules/plans/application/use-cases/get-current-organization-usage.use-case';
+import {
+  OrganizationUsageResponseDto,
+  toOrganizationUsageResponseDto,
+} from '@/modules/plans/presentation/http/dtos';
+import { ApiDoc, CurrentOrganization } from '@/shared/http/decorators';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+@ApiTags('Organizations')
+@Controller('organizations/current/usage')
+export class OrganizationUsageController {
+  constructor(
+    private readonly getCurrentOrganizationUsageUseCase: GetCurrentOrganizationUsageUseCase,
+  ) { }
+
+  @Get()
+  @UseGuards(CurrentOrganizationGuard)
+  @ApiDoc({
+    summary: 'Get current organization usage',
+    description: 'Compares the consumption of the current organization with the limits of its plan. Pending invitations hold a seat; report exports are counted per calendar month (UTC). A `null` limit means unlimited.',
+    response: OrganizationUsageResponseDto,
+    commonResponses: ['unauthorized', 'forbidden', 'conflict'],
+  })
+  async findOne(@CurrentOrganization('id') organizationId: string) {
+    const result = await this.getCurrentOrganizationUsageUseCase.execute(organizationId);
+
+    return ResponseHelper.success(
+      toOrganizationUsageResponseDto(result.data),
+      result.message,
+    );
+  }
+}
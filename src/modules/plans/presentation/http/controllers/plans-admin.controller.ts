@@ -0,0 +1,158 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { AssignOrganizationPlanUseCase } from '@/modules/plans/application/use-cases/assign-organization-plan.use-case';
+import { CreatePlanUseCase } from '@/modules/plans/application/use-cases/create-plan.use-case';
+import { DeletePlanUseCase } from '@/modules/plans/application/use-cases/delete-plan.use-case';
+import { ListPlansUseCase } from '@/modules/plans/application/use-cases/list-plans.use-case';
+import { UpdatePlanUseCase } from '@/modules/plans/application/use-cases/update-plan.use-case';
+import {
+  AssignOrganizationPlanDto,
+  CreatePlanDto,
+  OrganizationEntitlementsResponseDto,
+  OrganizationIdParamDto,
+  PlanIdParamDto,
+  PlanListResponseDto,
+  PlanResponseDto,
+  toOrganizationEntitlementsResponseDto,
+  toPlanResponseDto,
+  UpdatePlanDto,
+} from '@/modules/plans/presentation/http/dtos';
+import {
+  ApiDoc,
+  CurrentUser,
+  RequirePlatformAdmin,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+
+const PLAN_ID_PARAM = {
+  name: 'id',
+  description: 'Plan ID',
+  example: '1925012345678901248',
+};
+
+@ApiTags('Plans')
+@Controller('admin')
+@RequirePlatformAdmin()
+export class PlansAdminController {
+  constructor(
+    private readonly listPlansUseCase: ListPlansUseCase,
+    private readonly createPlanUseCase: CreatePlanUseCase,
+    private readonly updatePlanUseCase: UpdatePlanUseCase,
+    private readonly deletePlanUseCase: DeletePlanUseCase,
+    private readonly assignOrganizationPlanUseCase: AssignOrganizationPlanUseCase,
+  ) { }
+
+  @Get('plans')
+  @ApiDoc({
+    summary: 'List plans',
+    description: 'Restricted to the users listed in `PLATFORM_ADMIN_USER_IDS`.',
+    response: PlanListResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async findAll() {
+    const result = await this.listPlansUseCase.execute();
+
+    return ResponseHelper.success(
+      result.data.map(toPlanResponseDto),
+      result.message,
+    );
+  }
+
+  @Post('plans')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiDoc({
+    summary: 'Create plan',
+    description: 'A `null` limit means unlimited. Flagging the plan with `isDefault` makes it apply to every organization without an assigned plan.',
+    body: CreatePlanDto,
+    response: PlanResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict'],
+  })
+  async create(@Body() dto: CreatePlanDto) {
+    const result = await this.createPlanUseCase.execute(dto);
+
+    return ResponseHelper.success(
+      toPlanResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Patch('plans/:id')
+  @ApiDoc({
+    summary: 'Update plan',
+    description: 'Changes apply immediately to every organization on the plan. Members above a lowered seat limit are kept, but no new member can join.',
+    body: UpdatePlanDto,
+    response: PlanResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [PLAN_ID_PARAM],
+  })
+  async update(
+    @Param() params: PlanIdParamDto,
+    @Body() dto: UpdatePlanDto,
+  ) {
+    const result = await this.updatePlanUseCase.execute({
+      planId: params.id,
+      ...dto,
+    });
+
+    return ResponseHelper.success(
+      toPlanResponseDto(result.data),
+      result.message,
+    );
+  }
+
+  @Delete('plans/:id')
+  @ApiDoc({
+    summary: 'Delete plan',
+    description: 'Plans still assigned to organizations cannot be deleted.',
+    commonResponses: ['unauthorized', 'forbidden', 'conflict', 'notFound'],
+    params: [PLAN_ID_PARAM],
+  })
+  async remove(@Param() params: PlanIdParamDto) {
+    const result = await this.deletePlanUseCase.execute(params.id);
+
+    return ResponseHelper.success(null, result.message);
+  }
+
+  @Put('organizations/:organizationId/plan')
+  @ApiDoc({
+    summary: 'Assign organization plan',
+    description: 'Sending `planId: null` removes the assignment and the organization falls back to the default plan.',
+    body: AssignOrganizationPlanDto,
+    response: OrganizationEntitlementsResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'organizationId',
+        description: 'Organization ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async assignOrganizationPlan(
+    @CurrentUser('id') userId: string,
+    @Param() params: OrganizationIdParamDto,
+    @Body() dto: AssignOrganizationPlanDto,
+  ) {
+    const result = await this.assignOrganizationPlanUseCase.execute({
+      organizationId: params.organizationId,
+      planId: dto.planId,
+      assignedByUserId: userId,
+    });
+
+    return ResponseHelper.success(
+      toOrganizationEntitlementsResponseDto(result.data),
+      result.message,
+    );
+  }
+}
@@ -0,0 +1,2 @@
+export * from './organization-usage.dto';
+export * from './plan.dto';
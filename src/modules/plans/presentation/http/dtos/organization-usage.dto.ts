@@ -0,0 +1,90 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { ENTITLEMENT_FEATURE_CODES } from '@/modules/plans/application/constants/plan.constants';
+import type {
+  OrganizationEntitlements,
+  OrganizationUsage,
+} from '@/modules/plans/application/services/entitlements.service';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+export const OrganizationEntitlementsResponseSchema = z.object({
+  plan: z
+    .object({
+      id: snowflakeIdSchema,
+      code: z.string(),
+      name: z.string(),
+    })
+    .nullable(),
+  seatLimit: z.number().int().nullable(),
+  monthlyReportExportLimit: z.number().int().nullable(),
+  features: z.array(z.enum(ENTITLEMENT_FEATURE_CODES)),
+});
+
+export const OrganizationUsageResponseSchema = z.object({
+  entitlements: OrganizationEntitlementsResponseSchema,
+  seats: z.object({
+    used: z.number().int(),
+    pendingInvitations: z.number().int(),
+    limit: z.number().int().nullable(),
+    remaining: z.number().int().nullable(),
+  }),
+  reportExports: z.object({
+    used: z.number().int(),
+    limit: z.number().int().nullable(),
+    remaining: z.number().int().nullable(),
+    periodStart: z.iso.datetime(),
+    periodEnd: z.iso.datetime(),
+  }),
+});
+
+export type OrganizationEntitlementsResponse = z.infer<typeof OrganizationEntitlementsResponseSchema>;
+export type OrganizationUsageResponse = z.infer<typeof OrganizationUsageResponseSchema>;
+
+export function toOrganizationEntitlementsResponseDto(
+  entitlements: OrganizationEntitlements,
+): OrganizationEntitlementsResponse {
+  return {
+    plan: entitlements.plan
+      ? {
+        id: entitlements.plan.id,
+        code: entitlements.plan.code,
+        name: entitlements.plan.name,
+      }
+      : null,
+    seatLimit: entitlements.seatLimit,
+    monthlyReportExportLimit: entitlements.monthlyReportExportLimit,
+    features: entitlements.features,
+  };
+}
+
+export function toOrganizationUsageResponseDto(usage: OrganizationUsage): OrganizationUsageResponse {
+  const { seatLimit, monthlyReportExportLimit } = usage.entitlements;
+  const reservedSeats = usage.seats.used + usage.seats.pendingInvitations;
+
+  return {
+    entitlements: toOrganizationEntitlementsResponseDto(usage.entitlements),
+    seats: {
+      used: usage.seats.used,
+      pendingInvitations: usage.seats.pendingInvitations,
+      limit: seatLimit,
+      remaining: seatLimit === null ? null : Math.max(seatLimit - reservedSeats, 0),
+    },
+    reportExports: {
+      used: usage.reportExports.used,
+      limit: monthlyReportExportLimit,
+      remaining: monthlyReportExportLimit === null
+        ? null
+        : Math.max(monthlyReportExportLimit - usage.reportExports.used, 0),
+      periodStart: usage.reportExports.periodStart.toISOString(),
+      periodEnd: usage.reportExports.periodEnd.toISOString(),
+    },
+  };
+}
+
+export class OrganizationEntitlementsResponseDto extends createZodDto(
+  OrganizationEntitlementsResponseSchema,
+) { }
+
+export class OrganizationUsageResponseDto extends createZodDto(
+  OrganizationUsageResponseSchema,
+) { }
@@ -0,0 +1,121 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { ENTITLEMENT_FEATURE_CODES } from '@/modules/plans/application/constants/plan.constants';
+import type { Plan } from '@/modules/plans/domain/entities/plan.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+const planCodeSchema = z
+  .string({
+    message: 'Code is required',
+  })
+  .trim()
+  .min(1, 'Code is required')
+  .max(50, 'Code must have at most 50 characters')
+  .regex(/^[a-z0-9]+(?:[-_][a-z0-9]+)*$/, 'Code must contain only lowercase letters, digits, hyphens and underscores');
+
+const planNameSchema = z
+  .string({
+    message: 'Name is required',
+  })
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must have at most 100 characters');
+
+const planDescriptionSchema = z
+  .string()
+  .trim()
+  .max(500, 'Description must have at most 500 characters')
+  .nullable();
+
+const planLimitSchema = z
+  .number()
+  .int('Limits must be whole numbers')
+  .min(0, 'Limits cannot be negative')
+  .nullable();
+
+const planFeaturesSchema = z.array(z.enum(ENTITLEMENT_FEATURE_CODES));
+
+export const CreatePlanSchema = z.object({
+  code: planCodeSchema,
+  name: planNameSchema,
+  description: planDescriptionSchema.optional(),
+  seatLimit: planLimitSchema.optional(),
+  monthlyReportExportLimit: planLimitSchema.optional(),
+  features: planFeaturesSchema.default([]),
+  isDefault: z.boolean().optional(),
+});
+
+export const UpdatePlanSchema = z
+  .object({
+    name: planNameSchema.optional(),
+    description: planDescriptionSchema.optional(),
+    seatLimit: planLimitSchema.optional(),
+    monthlyReportExportLimit: planLimitSchema.optional(),
+    features: planFeaturesSchema.optional(),
+    isDefault: z.boolean().optional(),
+  })
+  .refine(
+    (value) => Object.values(value).some((field) => field !== undefined),
+    {
+      message: 'Provide at least one field to update',
+      path: ['name'],
+    },
+  );
+
+export const PlanIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const OrganizationIdParamSchema = z.object({
+  organizationId: snowflakeIdSchema,
+});
+
+export const AssignOrganizationPlanSchema = z.object({
+  planId: snowflakeIdSchema.nullable(),
+});
+
+export const PlanResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  code: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  seatLimit: z.number().int().nullable(),
+  monthlyReportExportLimit: z.number().int().nullable(),
+  features: z.array(z.enum(ENTITLEMENT_FEATURE_CODES)),
+  isDefault: z.boolean(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const PlanListResponseSchema = z.array(PlanResponseSchema);
+
+export type PlanResponse = z.infer<typeof PlanResponseSchema>;
+
+export function toPlanResponseDto(plan: Plan): PlanResponse {
+  return {
+    id: plan.id,
+    code: plan.code,
+    name: plan.name,
+    description: plan.description,
+    seatLimit: plan.seatLimit,
+    monthlyReportExportLimit: plan.monthlyReportExportLimit,
+    features: plan.features,
+    isDefault: plan.isDefault,
+    createdAt: plan.createdAt.toISOString(),
+    updatedAt: plan.updatedAt.toISOString(),
+  };
+}
+
+export class CreatePlanDto extends createZodDto(CreatePlanSchema) { }
+
+export class UpdatePlanDto extends createZodDto(UpdatePlanSchema) { }
+
+export class PlanIdParamDto extends createZodDto(PlanIdParamSchema) { }
+
+export class OrganizationIdParamDto extends createZodDto(OrganizationIdParamSchema) { }
+
+export class AssignOrganizationPlanDto extends createZodDto(AssignOrganizationPlanSchema) { }
+
+export class PlanResponseDto extends createZodDto(PlanResponseSchema) { }
+
+export class PlanListResponseDto extends createZodDto(PlanListResponseSchema) { }
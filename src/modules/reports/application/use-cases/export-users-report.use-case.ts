@@ -1,4 +1,5 @@
 import { Inject, Injectable } from '@nestjs/common';
+import { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
 import {
   ORGANIZATION_REPORT_SETTINGS_REPOSITORY,
   type IOrganizationReportSettingsRepository,
@@ -21,6 +22,7 @@ export interface ExportUsersReportFilters {
 export interface ExportUsersReportInput extends ExportUsersReportFilters {
   format: ReportFormat;
   organizationName?: string;
+  userId?: string;
 }
 
 @Injectable()
@@ -30,9 +32,16 @@ export class ExportUsersReportUseCase {
     private readonly organizationReportSettingsRepository: IOrganizationReportSettingsRepository,
     private readonly usersReportDefinition: UsersReportDefinition,
     private readonly reportExportService: ReportExportService,
+    private readonly entitlementsService: EntitlementsService,
   ) {}
 
   async execute(input: ExportUsersReportInput): Promise<GeneratedReportFile> {
+    await this.entitlementsService.assertFeature(
+      input.organizationId,
+      `reports.${input.format}` as const,
+    );
+    await this.entitlementsService.assertReportExportAvailable(input.organizationId);
+
     const report = await this.usersReportDefinition.build({
       organizationId: input.organizationId,
       id: input.id,
@@ -50,7 +59,16 @@ export class ExportUsersReportUseCase {
       input.organizationName,
     );
 
-    return this.reportExportService.export(report, input.format);
+    const file = await this.reportExportService.export(report, input.format);
+
+    await this.entitlementsService.recordReportExport({
+      organizationId: input.organizationId,
+      userId: input.userId,
+      reportCode: 'users',
+      format: input.format,
+    });
+
+    return file;
   }
 
   private resolveBranding(
@@ -35,6 +35,7 @@ export interface IOrganizationReportSettingsRepository {
   findByOrganizationId(
     organizationId: string,
   ): Promise<OrganizationReportSettings | null>;
+  listUpdatedBy(userId: string): Promise<OrganizationReportSettings[]>;
   upsertSettings(
     organizationId: string,
     updatedBy: string,
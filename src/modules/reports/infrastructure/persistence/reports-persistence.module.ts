@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ORGANIZATION_REPORT_SETTINGS_REPOSITORY } from '@/modules/reports/domain/repositories/organization-report-settings.repository.interface';
+import { OrganizationReportSettingsRepository } from './repositories/organization-report-settings.repository';
+
+/**
+ * Shared persistence wiring for the reports feature.
+ */
+@Module({
+  providers: [
+    {
+      provide: ORGANIZATION_REPORT_SETTINGS_REPOSITORY,
+      useClass: OrganizationReportSettingsRepository,
+    },
+  ],
+  exports: [ORGANIZATION_REPORT_SETTINGS_REPOSITORY],
+})
+export class ReportsPersistenceModule {}
@@ -33,6 +33,17 @@ implements IOrganizationReportSettingsRepository {
     });
   }
 
+  async listUpdatedBy(userId: string): Promise<OrganizationReportSettings[]> {
+    const rows = await this.objxSession.execute(
+      OrganizationReportSettingsModel
+        .query()
+        .where(({ updatedBy }, op) => op.eq(updatedBy, userId))
+        .orderBy(({ updatedAt }) => updatedAt, 'desc'),
+    );
+
+    return rows.map((row) => this.mapRow(row));
+  }
+
   async upsertSettings(
     organizationId: string,
     updatedBy: string,
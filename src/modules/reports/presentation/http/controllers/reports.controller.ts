@@ -11,6 +11,7 @@ import { ExportUsersReportUseCase } from '@/modules/reports/application/use-case
 import { ExportUsersReportDto } from '../dtos/export-users-report.dto';
 import {
   CurrentOrganization,
+  CurrentUser,
   RequireOrganizationPermissions,
 } from '@/shared/http/decorators';
 
@@ -25,7 +26,7 @@ export class ReportsController {
   @RequireOrganizationPermissions('reports.export')
   @ApiOperation({
     summary: 'Export users report',
-    description: 'Exports the users listing as PDF or spreadsheet. Spreadsheet format currently returns CSV compatible with Excel and Google Sheets.',
+    description: 'Exports the users listing as PDF or spreadsheet. Spreadsheet format currently returns CSV compatible with Excel and Google Sheets. The format must be enabled in the organization plan and every export counts towards its monthly limit.',
   })
   @ApiQuery({
     name: 'format',
@@ -68,6 +69,7 @@ export class ReportsController {
     },
   })
   async exportUsers(
+    @CurrentUser('id') userId: string,
     @CurrentOrganization('id') organizationId: string,
     @CurrentOrganization('name') organizationName: string | undefined,
     @Query() dto: ExportUsersReportDto,
@@ -77,6 +79,7 @@ export class ReportsController {
       ...dto,
       organizationId,
       organizationName,
+      userId,
     });
 
     reply
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { OrganizationsPersistenceModule } from '@/modules/organizations/infrastructure/persistence/organizations-persistence.module';
 import { PermissionsModule } from '@/modules/permissions/permissions.module';
 import { PermissionsPersistenceModule } from '@/modules/permissions/infrastructure/persistence/permissions-persistence.module';
+import { PlansModule } from '@/modules/plans/plans.module';
 import { UsersPersistenceModule } from '@/modules/users/infrastructure/persistence/users-persistence.module';
 import { DeleteCurrentOrganizationReportLogoUseCase } from './application/use-cases/delete-current-organization-report-logo.use-case';
 import { ExportUsersReportUseCase } from './application/use-cases/export-users-report.use-case';
@@ -10,9 +11,8 @@ import { UpdateCurrentOrganizationReportSettingsUseCase } from './application/us
 import { UploadCurrentOrganizationReportLogoUseCase } from './application/use-cases/upload-current-organization-report-logo.use-case';
 import { UsersReportDefinition } from './application/definitions/users-report.definition';
 import { ReportExportService } from './application/services/report-export.service';
-import { ORGANIZATION_REPORT_SETTINGS_REPOSITORY } from './domain/repositories/organization-report-settings.repository.interface';
 import { PdfReportExporter } from './infrastructure/exporters/pdf-report.exporter';
-import { OrganizationReportSettingsRepository } from './infrastructure/persistence/repositories/organization-report-settings.repository';
+import { ReportsPersistenceModule } from './infrastructure/persistence/reports-persistence.module';
 import { SpreadsheetReportExporter } from './infrastructure/exporters/spreadsheet-report.exporter';
 import { OrganizationReportSettingsController } from './presentation/http/controllers/organization-report-settings.controller';
 import { ReportsController } from './presentation/http/controllers/reports.controller';
@@ -23,13 +23,11 @@ import { ReportsController } from './presentation/http/controllers/reports.contr
     OrganizationsPersistenceModule,
     PermissionsPersistenceModule,
     PermissionsModule,
+    PlansModule,
+    ReportsPersistenceModule,
   ],
   controllers: [ReportsController, OrganizationReportSettingsController],
   providers: [
-    {
-      provide: ORGANIZATION_REPORT_SETTINGS_REPOSITORY,
-      useClass: OrganizationReportSettingsRepository,
-    },
     UsersReportDefinition,
     ReportExportService,
     ExportUsersReportUseCase,
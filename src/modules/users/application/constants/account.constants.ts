@@ -0,0 +1,23 @@
+export const ACCOUNT_QUEUE_NAME = 'accounts';
+export const ACCOUNT_JOB_DATA_EXPORT = 'data-export';
+export const ACCOUNT_JOB_DELETE = 'delete';
+
+export const DATA_EXPORT_CONTENT_TYPE = 'application/gzip';
+export const DATA_EXPORT_FORMAT_VERSION = 1;
+
+export const DATA_EXPORT_REQUESTED_MESSAGE = 'Data export requested successfully';
+export const DATA_EXPORT_RETRIEVED_MESSAGE = 'Data export retrieved successfully';
+export const DATA_EXPORT_NOT_FOUND_MESSAGE = 'Data export not found';
+export const DATA_EXPORT_NOT_READY_MESSAGE = 'Data export is not ready for download';
+export const ACCOUNT_DELETION_SCHEDULED_MESSAGE = 'Account deletion scheduled successfully';
+export const ACCOUNT_DELETION_CANCELLED_MESSAGE = 'Account deletion cancelled successfully';
+export const ACCOUNT_DELETION_ALREADY_SCHEDULED_MESSAGE = 'Account deletion is already scheduled';
+export const ACCOUNT_DELETION_NOT_SCHEDULED_MESSAGE = 'Account deletion is not scheduled';
+export const ACCOUNT_SOLE_OWNER_MESSAGE =
+  'Transfer ownership of, or delete, the organizations you solely own first';
+export const USER_DELETED_MESSAGE = 'User deleted successfully';
+export const USER_REMOVED_MESSAGE = 'User removed from the organization successfully';
+export const USER_DELETE_SELF_MESSAGE =
+  'Use POST /organizations/current/leave to leave the organization, or DELETE /me to delete your account';
+export const USER_ERASE_SELF_MESSAGE = 'Use DELETE /me to delete your own account';
+export const USER_EMAIL_CHANGE_SELF_ONLY_MESSAGE = 'Only the account owner can change its email';
@@ -0,0 +1,86 @@
+import { ConflictException } from '@nestjs/common';
+import type { IApiKeyRepository } from '@/modules/api-keys/domain/repositories/api-key.repository.interface';
+import type { IEmailVerificationTokenRepository } from '@/modules/auth/domain/repositories/email-verification-token.repository.interface';
+import type { ILoginEventRepository } from '@/modules/auth/domain/repositories/login-event.repository.interface';
+import type { IMagicLinkTokenRepository } from '@/modules/auth/domain/repositories/magic-link-token.repository.interface';
+import type { IPasswordHistoryRepository } from '@/modules/auth/domain/repositories/password-history.repository.interface';
+import type { IPasswordResetTokenRepository } from '@/modules/auth/domain/repositories/password-reset-token.repository.interface';
+import type { IRefreshTokenRepository } from '@/modules/auth/domain/repositories/refresh-token.repository.interface';
+import type { IUserIdentityRepository } from '@/modules/auth/domain/repositories/user-identity.repository.interface';
+import type { IUserMfaRepository } from '@/modules/auth/domain/repositories/user-mfa.repository.interface';
+import type { IWebAuthnCredentialRepository } from '@/modules/auth/domain/repositories/webauthn-credential.repository.interface';
+import { ORGANIZATION_LAST_OWNER_MESSAGE } from '@/modules/organizations/application/constants/organization-membership.constants';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type {
+  IOrganizationRepository,
+  OrganizationAccess,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import type { WsGateway } from '@/modules/ws/ws.gateway';
+import type { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { ACCOUNT_SOLE_OWNER_MESSAGE } from '../constants/account.constants';
+import { AccountDeletionService } from './account-deletion.service';
+
+jest.mock('@/modules/ws/ws.gateway', () => ({ WsGateway: class {} }));
+
+describe('AccountDeletionService', () => {
+  const soleOwned = new Organization({ id: '100', name: 'Solo' });
+  const sharedOwned = new Organization({ id: '200', name: 'Shared' });
+  const memberOf = new Organization({ id: '300', name: 'Member' });
+  const owners: Record<string, number> = { '100': 1, '200': 2, '300': 3 };
+  const accesses: OrganizationAccess[] = [
+    { organization: soleOwned, role: 'owner' },
+    { organization: sharedOwned, role: 'owner' },
+    { organization: memberOf, role: 'member' },
+  ];
+  const organizationRepository = {
+    listForUser: jest.fn(() => Promise.resolve(accesses)),
+    countOwners: jest.fn((organizationId: string) => Promise.resolve(owners[organizationId])),
+    removeUserFromAllOrganizations: jest.fn(() => Promise.resolve()),
+  };
+  const userRepository = { anonymize: jest.fn(() => Promise.resolve(true)) };
+  const service = new AccountDeletionService(
+    userRepository as unknown as IUserRepository,
+    organizationRepository as unknown as IOrganizationRepository,
+    {} as IApiKeyRepository,
+    {} as IRefreshTokenRepository,
+    {} as IUserIdentityRepository,
+    {} as IWebAuthnCredentialRepository,
+    {} as IUserMfaRepository,
+    {} as IPasswordHistoryRepository,
+    {} as IPasswordResetTokenRepository,
+    {} as IEmailVerificationTokenRepository,
+    {} as IMagicLinkTokenRepository,
+    {} as ILoginEventRepository,
+    {} as SessionRegistryService,
+    {} as WsGateway,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists only the organizations the user is the last owner of', async () => {
+    await expect(service.listSoleOwnedOrganizations('1')).resolves.toEqual([soleOwned]);
+    expect(organizationRepository.countOwners).not.toHaveBeenCalledWith(memberOf.id);
+  });
+
+  it('refuses to delete the last owner, naming the organizations', async () => {
+    const error = await service.assertNoSoleOwnedOrganizations('1').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ConflictException);
+    expect((error as ConflictException).getResponse()).toEqual({
+      message: ACCOUNT_SOLE_OWNER_MESSAGE,
+      errors: [{ organizationId: soleOwned.id, name: soleOwned.name }],
+    });
+  });
+
+  it('leaves the account untouched when the repository refuses to remove the last owner', async () => {
+    organizationRepository.removeUserFromAllOrganizations.mockRejectedValueOnce(
+      new ConflictException(ORGANIZATION_LAST_OWNER_MESSAGE),
+    );
+
+    await expect(service.erase('1')).rejects.toThrow(ORGANIZATION_LAST_OWNER_MESSAGE);
+    expect(userRepository.anonymize).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common';
+import {
+  API_KEY_REPOSITORY,
+  type IApiKeyRepository,
+} from '@/modules/api-keys/domain/repositories/api-key.repository.interface';
+import {
+  EMAIL_VERIFICATION_TOKEN_REPOSITORY,
+  type IEmailVerificationTokenRepository,
+} from '@/modules/auth/domain/repositories/email-verification-token.repository.interface';
+import {
+  LOGIN_EVENT_REPOSITORY,
+  type ILoginEventRepository,
+} from '@/modules/auth/domain/repositories/login-event.repository.interface';
+import {
+  MAGIC_LINK_TOKEN_REPOSITORY,
+  type IMagicLinkTokenRepository,
+} from '@/modules/auth/domain/repositories/magic-link-token.repository.interface';
+import {
+  PASSWORD_HISTORY_REPOSITORY,
+  type IPasswordHistoryRepository,
+} from '@/modules/auth/domain/repositories/password-history.repository.interface';
+import {
+  PASSWORD_RESET_TOKEN_REPOSITORY,
+  type IPasswordResetTokenRepository,
+} from '@/modules/auth/domain/repositories/password-reset-token.repository.interface';
+import {
+  REFRESH_TOKEN_REPOSITORY,
+  type IRefreshTokenRepository,
+} from '@/modules/auth/domain/repositories/refresh-token.repository.interface';
+import {
+  USER_IDENTITY_REPOSITORY,
+  type IUserIdentityRepository,
+} from '@/modules/auth/domain/repositories/user-identity.repository.interface';
+import {
+  USER_MFA_REPOSITORY,
+  type IUserMfaRepository,
+} from '@/modules/auth/domain/repositories/user-mfa.repository.interface';
+import {
+  WEBAUTHN_CREDENTIAL_REPOSITORY,
+  type IWebAuthnCredentialRepository,
+} from '@/modules/auth/domain/repositories/webauthn-credential.repository.interface';
+import type { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import { WsGateway } from '@/modules/ws/ws.gateway';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { ACCOUNT_SOLE_OWNER_MESSAGE } from '../constants/account.constants';
+
+/**
+ * Erases accounts. Personal data is scrubbed in place instead of deleting the
+ * user row, so records that reference the user (such as `updated_by`) point
+ * at an anonymous tombstone rather than being lost through cascades.
+ */
+@Injectable()
+export class AccountDeletionService {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(API_KEY_REPOSITORY)
+    private readonly apiKeyRepository: IApiKeyRepository,
+    @Inject(REFRESH_TOKEN_REPOSITORY)
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+    @Inject(USER_IDENTITY_REPOSITORY)
+    private readonly userIdentityRepository: IUserIdentityRepository,
+    @Inject(WEBAUTHN_CREDENTIAL_REPOSITORY)
+    private readonly webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+    @Inject(USER_MFA_REPOSITORY)
+    private readonly userMfaRepository: IUserMfaRepository,
+    @Inject(PASSWORD_HISTORY_REPOSITORY)
+    private readonly passwordHistoryRepository: IPasswordHistoryRepository,
+    @Inject(PASSWORD_RESET_TOKEN_REPOSITORY)
+    private readonly passwordResetTokenRepository: IPasswordResetTokenRepository,
+    @Inject(EMAIL_VERIFICATION_TOKEN_REPOSITORY)
+    private readonly emailVerificationTokenRepository: IEmailVerificationTokenRepository,
+    @Inject(MAGIC_LINK_TOKEN_REPOSITORY)
+    private readonly magicLinkTokenRepository: IMagicLinkTokenRepository,
+    @Inject(LOGIN_EVENT_REPOSITORY)
+    private readonly loginEventRepository: ILoginEventRepository,
+    private readonly sessionRegistryService: SessionRegistryService,
+    private readonly wsGateway: WsGateway,
+  ) {}
+
+  async listSoleOwnedOrganizations(userId: string): Promise<Organization[]> {
+    const ownedAccesses = (await this.organizationRepository.listForUser(userId))
+      .filter((access) => access.role === 'owner');
+    const ownerCounts = await Promise.all(
+      ownedAccesses.map((access) => this.organizationRepository.countOwners(access.organization.id)),
+    );
+
+    return ownedAccesses
+      .filter((_, index) => ownerCounts[index] <= 1)
+      .map((access) => access.organization);
+  }
+
+  /**
+   * Refuses to delete the last owner of an organization, listing the
+   * organizations that need a new owner first.
+   */
+  async assertNoSoleOwnedOrganizations(userId: string): Promise<void> {
+    const organizations = await this.listSoleOwnedOrganizations(userId);
+
+    if (organizations.length > 0) {
+      throw new ConflictException({
+        message: ACCOUNT_SOLE_OWNER_MESSAGE,
+        errors: organizations.map((organization) => ({
+          organizationId: organization.id,
+          name: organization.name,
+        })),
+      });
+    }
+  }
+
+  /**
+   * Anonymizes the account, removes its memberships, credentials and tokens
+   * and signs out its sessions. Returns false when the account was already
+   * erased.
+   */
+  async erase(userId: string): Promise<boolean> {
+    // Memberships go first: the repository refuses to remove the last owner
+    // of an organization, and the account is left untouched in that case.
+    // The removals also run for accounts erased earlier, which finishes an
+    // erasure that failed halfway.
+    await this.organizationRepository.removeUserFromAllOrganizations(userId);
+
+    const erased = await this.userRepository.anonymize(userId, new Date());
+
+    await Promise.all([
+      this.apiKeyRepository.deleteByUserId(userId),
+      this.refreshTokenRepository.deleteByUserId(userId),
+      this.userIdentityRepository.deleteByUserId(userId),
+      this.webAuthnCredentialRepository.deleteByUserId(userId),
+      this.userMfaRepository.deleteMfa(userId),
+      this.passwordHistoryRepository.deleteByUserId(userId),
+      this.passwordResetTokenRepository.deleteByUserId(userId),
+      this.emailVerificationTokenRepository.deleteByUserId(userId),
+      this.magicLinkTokenRepository.deleteByUserId(userId),
+      this.loginEventRepository.deleteByUserId(userId),
+    ]);
+
+    if (!erased) {
+      return false;
+    }
+
+    const revokedHandles = await this.sessionRegistryService.revokeAll(userId);
+    this.wsGateway.disconnectSessions(revokedHandles);
+
+    return true;
+  }
+}
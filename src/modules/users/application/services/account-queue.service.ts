@@ -0,0 +1,47 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable } from '@nestjs/common';
+import type { Queue } from 'bull';
+import {
+  ACCOUNT_JOB_DATA_EXPORT,
+  ACCOUNT_JOB_DELETE,
+  ACCOUNT_QUEUE_NAME,
+} from '../constants/account.constants';
+import type { AccountJobData } from '../types/account-job.type';
+
+@Injectable()
+export class AccountQueueService {
+  constructor(
+    @InjectQueue(ACCOUNT_QUEUE_NAME)
+    private readonly accountQueue: Queue<AccountJobData>,
+  ) {}
+
+  async enqueueDataExport(exportId: string): Promise<void> {
+    await this.accountQueue.add(ACCOUNT_JOB_DATA_EXPORT, { exportId });
+  }
+
+  /**
+   * Schedules the anonymization of an account. Only one deletion job exists
+   * per user, so rescheduling replaces the previous one.
+   */
+  async scheduleDeletion(userId: string, runAt: Date): Promise<void> {
+    await this.cancelDeletion(userId);
+    await this.accountQueue.add(
+      ACCOUNT_JOB_DELETE,
+      { userId },
+      {
+        jobId: getDeletionJobId(userId),
+        delay: Math.max(runAt.getTime() - Date.now(), 0),
+      },
+    );
+  }
+
+  async cancelDeletion(userId: string): Promise<void> {
+    const job = await this.accountQueue.getJob(getDeletionJobId(userId));
+
+    await job?.remove();
+  }
+}
+
+function getDeletionJobId(userId: string): string {
+  return `deletion:${userId}`;
+}
@@ -0,0 +1,48 @@
+import {
+  ExecutionContext,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { subject } from '@casl/ability';
+import type { FastifyRequest } from 'fastify';
+import type { AppSubjectResource } from '@/modules/permissions/application/types/ability.types';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+import type { AbilitySubjectResolver } from '@/shared/http/guards/policies.guard';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+/**
+ * Loads the user of the `:id` route param as a `users` subject. Resolves to
+ * null when the id is invalid or the user is not a member of the current
+ * organization, leaving the not found response to the route.
+ */
+@Injectable()
+export class UserAbilitySubjectResolver
+implements AbilitySubjectResolver<AppSubjectResource | null> {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  async resolve(context: ExecutionContext): Promise<AppSubjectResource | null> {
+    const request = context
+      .switchToHttp()
+      .getRequest<FastifyRequest<{ Params: { id?: string } }>>();
+    const organizationId = getSessionFromContext(context)?.currentOrganizationId;
+    const parsedId = snowflakeIdSchema.safeParse(request.params.id);
+
+    if (!organizationId || !parsedId.success) {
+      return null;
+    }
+
+    const user = await this.userRepository.findPermissionSubject(
+      parsedId.data,
+      organizationId,
+    );
+
+    return user ? subject('users', user) : null;
+  }
+}
@@ -0,0 +1,107 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { gzipSync } from 'zlib';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  PERMISSIONS_REPOSITORY,
+  type IPermissionsRepository,
+} from '@/modules/permissions/domain/repositories/permissions.repository.interface';
+import {
+  ORGANIZATION_REPORT_SETTINGS_REPOSITORY,
+  type IOrganizationReportSettingsRepository,
+} from '@/modules/reports/domain/repositories/organization-report-settings.repository.interface';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import { DATA_EXPORT_FORMAT_VERSION } from '../constants/account.constants';
+
+export interface UserDataArchive {
+  fileName: string;
+  archive: Buffer;
+}
+
+/**
+ * Collects the personal data of a user into a gzipped JSON document: the
+ * profile, organization memberships with their roles and permission
+ * overrides, and the report settings the user last edited.
+ */
+@Injectable()
+export class UserDataExportService {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(PERMISSIONS_REPOSITORY)
+    private readonly permissionsRepository: IPermissionsRepository,
+    @Inject(ORGANIZATION_REPORT_SETTINGS_REPOSITORY)
+    private readonly reportSettingsRepository: IOrganizationReportSettingsRepository,
+  ) {}
+
+  async build(userId: string, now: Date): Promise<UserDataArchive> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [accesses, reportSettings] = await Promise.all([
+      this.organizationRepository.listForUser(userId),
+      this.reportSettingsRepository.listUpdatedBy(userId),
+    ]);
+    const snapshots = await Promise.all(
+      accesses.map((access) =>
+        this.permissionsRepository.getPermissionSnapshotForUser(userId, access.organization.id),
+      ),
+    );
+
+    const document = {
+      formatVersion: DATA_EXPORT_FORMAT_VERSION,
+      generatedAt: now.toISOString(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatarUrl: user.avatarUrl ?? null,
+        emailVerifiedAt: user.emailVerifiedAt?.toISOString() ?? null,
+        passwordChangedAt: user.passwordChangedAt?.toISOString() ?? null,
+        deletionScheduledAt: user.deletionScheduledAt?.toISOString() ?? null,
+        createdAt: user.createdAt.toISOString(),
+        updatedAt: user.updatedAt.toISOString(),
+      },
+      memberships: accesses.map((access, index) => ({
+        organizationId: access.organization.id,
+        organizationName: access.organization.name,
+        role: access.role,
+        roleCodes: snapshots[index]?.roleCodes ?? [],
+      })),
+      permissionOverrides: accesses.flatMap((access, index) =>
+        (snapshots[index]?.overrides ?? []).map((override) => ({
+          organizationId: access.organization.id,
+          permissionCode: override.permissionCode,
+          effect: override.effect,
+          conditions: override.conditions,
+        })),
+      ),
+      reportSettings: reportSettings.map((settings) => ({
+        organizationId: settings.organizationId,
+        displayName: settings.displayName ?? null,
+        headerText: settings.headerText ?? null,
+        footerText: settings.footerText ?? null,
+        legalText: settings.legalText ?? null,
+        primaryColor: settings.primaryColor ?? null,
+        secondaryColor: settings.secondaryColor ?? null,
+        logoFileName: settings.logoFileName ?? null,
+        updatedAt: settings.updatedAt.toISOString(),
+      })),
+    };
+
+    return {
+      fileName: `account-data-${user.id}-${now.toISOString().slice(0, 10)}.json.gz`,
+      archive: gzipSync(Buffer.from(JSON.stringify(document, null, 2), 'utf8')),
+    };
+  }
+}
@@ -0,0 +1,9 @@
+export interface DataExportJobData {
+  exportId: string;
+}
+
+export interface AccountDeletionJobData {
+  userId: string;
+}
+
+export type AccountJobData = DataExportJobData | AccountDeletionJobData;
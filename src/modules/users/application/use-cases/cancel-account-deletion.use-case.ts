@@ -0,0 +1,38 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  ACCOUNT_DELETION_CANCELLED_MESSAGE,
+  ACCOUNT_DELETION_NOT_SCHEDULED_MESSAGE,
+} from '../constants/account.constants';
+import { AccountQueueService } from '../services/account-queue.service';
+
+@Injectable()
+export class CancelAccountDeletionUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly accountQueueService: AccountQueueService,
+  ) {}
+
+  async execute(userId: string) {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (!user.deletionScheduledAt) {
+      throw new BadRequestException(ACCOUNT_DELETION_NOT_SCHEDULED_MESSAGE);
+    }
+
+    await this.accountQueueService.cancelDeletion(user.id);
+    await this.userRepository.update(user.id, { deletionScheduledAt: null });
+
+    return {
+      message: ACCOUNT_DELETION_CANCELLED_MESSAGE,
+    };
+  }
+}
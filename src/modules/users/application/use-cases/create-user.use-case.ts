@@ -1,5 +1,6 @@
 import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
 import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
 import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
 import {
@@ -7,6 +8,7 @@ import {
   type CreateUserData,
   type IUserRepository,
 } from '@/modules/users/domain/repositories/user.repository.interface';
+import { PasswordPolicyService } from '@/shared/password-policy/password-policy.service';
 
 export interface CreateUserInput extends Omit<CreateUserData, 'password'> {
   password: string;
@@ -20,6 +22,8 @@ export class CreateUserUseCase {
     @Inject(USER_REPOSITORY)
     private readonly userRepository: IUserRepository,
     private readonly emailQueueService: EmailQueueService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly passwordPolicyService: PasswordPolicyService,
   ) {}
 
   async execute(input: CreateUserInput) {
@@ -29,13 +33,17 @@ export class CreateUserUseCase {
       throw new ConflictException('User email already exists');
     }
 
+    this.passwordPolicyService.assertValid(input.password, input);
+
     const hashedPassword = await bcrypt.hash(input.password, 10);
     const user = await this.userRepository.create({
       ...input,
       password: hashedPassword,
+      passwordChangedAt: new Date(),
     });
 
     await this.enqueueWelcomeEmail(user.email, user.name);
+    await this.emailVerificationService.send(user);
 
     return {
       data: toPublicUser(user),
@@ -0,0 +1,51 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type {
+  IOrganizationRepository,
+  OrganizationAccess,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import { DeleteUserUseCase } from './delete-user.use-case';
+
+describe('DeleteUserUseCase', () => {
+  const organization = new Organization({ id: '100', name: 'Acme' });
+  let roles: Record<string, OrganizationAccess['role']>;
+  const organizationRepository = {
+    findAccessibleByIdForUser: jest.fn((_organizationId: string, userId: string) =>
+      Promise.resolve(roles[userId] ? { organization, role: roles[userId] } : null),
+    ),
+    removeMember: jest.fn(() => Promise.resolve(true)),
+    removeUserFromAllOrganizations: jest.fn(),
+  };
+  const useCase = new DeleteUserUseCase(
+    organizationRepository as unknown as IOrganizationRepository,
+  );
+
+  beforeEach(() => {
+    roles = { '1': 'member', '2': 'member' };
+    jest.clearAllMocks();
+  });
+
+  it('removes the membership in the current organization only', async () => {
+    await expect(useCase.execute('2', '100', '1')).resolves.toEqual({
+      message: 'User removed from the organization successfully',
+    });
+    expect(organizationRepository.removeMember).toHaveBeenCalledWith('100', '2');
+    expect(organizationRepository.removeUserFromAllOrganizations).not.toHaveBeenCalled();
+  });
+
+  it('does not touch users outside the current organization', async () => {
+    await expect(useCase.execute('3', '100', '1')).rejects.toThrow(NotFoundException);
+    expect(organizationRepository.removeMember).not.toHaveBeenCalled();
+  });
+
+  it('lets only owners remove other owners', async () => {
+    roles['2'] = 'owner';
+
+    await expect(useCase.execute('2', '100', '1')).rejects.toThrow(ForbiddenException);
+    expect(organizationRepository.removeMember).not.toHaveBeenCalled();
+  });
+
+  it('rejects removing yourself', async () => {
+    await expect(useCase.execute('1', '100', '1')).rejects.toThrow(BadRequestException);
+  });
+});
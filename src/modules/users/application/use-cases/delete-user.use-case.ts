@@ -1,25 +1,57 @@
-import { Inject, Injectable, NotFoundException } from '@nestjs/common';
 import {
-  USER_REPOSITORY,
-  type IUserRepository,
-} from '@/modules/users/domain/repositories/user.repository.interface';
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ORGANIZATION_REPOSITORY,
+  type IOrganizationRepository,
+} from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import {
+  USER_DELETE_SELF_MESSAGE,
+  USER_REMOVED_MESSAGE,
+} from '../constants/account.constants';
 
+/**
+ * Removes a user from the current organization. The account itself and its
+ * memberships elsewhere are left alone: erasing an account is reserved to its
+ * owner (`DELETE /me`) and to platform administrators.
+ */
 @Injectable()
 export class DeleteUserUseCase {
   constructor(
-    @Inject(USER_REPOSITORY)
-    private readonly userRepository: IUserRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
   ) {}
 
-  async execute(id: string) {
-    const deleted = await this.userRepository.delete(id);
+  async execute(id: string, organizationId: string, actorId: string) {
+    if (id === actorId) {
+      throw new BadRequestException(USER_DELETE_SELF_MESSAGE);
+    }
+
+    const [actorAccess, userAccess] = await Promise.all([
+      this.organizationRepository.findAccessibleByIdForUser(organizationId, actorId),
+      this.organizationRepository.findAccessibleByIdForUser(organizationId, id),
+    ]);
+
+    if (!actorAccess || !userAccess) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (userAccess.role === 'owner' && actorAccess.role !== 'owner') {
+      throw new ForbiddenException('Only organization owners can remove other owners');
+    }
+
+    const removed = await this.organizationRepository.removeMember(organizationId, id);
 
-    if (!deleted) {
+    if (!removed) {
       throw new NotFoundException('User not found');
     }
 
     return {
-      message: 'User deleted successfully',
+      message: USER_REMOVED_MESSAGE,
     };
   }
 }
@@ -0,0 +1,37 @@
+import { ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  USER_DATA_EXPORT_REPOSITORY,
+  type IUserDataExportRepository,
+} from '@/modules/users/domain/repositories/user-data-export.repository.interface';
+import {
+  DATA_EXPORT_NOT_FOUND_MESSAGE,
+  DATA_EXPORT_NOT_READY_MESSAGE,
+} from '../constants/account.constants';
+
+@Injectable()
+export class DownloadDataExportUseCase {
+  constructor(
+    @Inject(USER_DATA_EXPORT_REPOSITORY)
+    private readonly userDataExportRepository: IUserDataExportRepository,
+  ) {}
+
+  async execute(id: string, userId: string) {
+    const dataExport = await this.userDataExportRepository.findForUser(id, userId);
+
+    if (!dataExport || (dataExport.expiresAt && dataExport.expiresAt <= new Date())) {
+      throw new NotFoundException(DATA_EXPORT_NOT_FOUND_MESSAGE);
+    }
+
+    if (dataExport.status !== 'ready') {
+      throw new ConflictException(DATA_EXPORT_NOT_READY_MESSAGE);
+    }
+
+    const archive = await this.userDataExportRepository.findArchive(id, userId);
+
+    if (!archive) {
+      throw new NotFoundException(DATA_EXPORT_NOT_FOUND_MESSAGE);
+    }
+
+    return archive;
+  }
+}
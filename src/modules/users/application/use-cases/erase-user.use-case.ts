@@ -0,0 +1,31 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  USER_DELETED_MESSAGE,
+  USER_ERASE_SELF_MESSAGE,
+} from '../constants/account.constants';
+import { AccountDeletionService } from '../services/account-deletion.service';
+
+@Injectable()
+export class EraseUserUseCase {
+  constructor(
+    private readonly accountDeletionService: AccountDeletionService,
+  ) {}
+
+  async execute(id: string, actorId: string) {
+    if (id === actorId) {
+      throw new BadRequestException(USER_ERASE_SELF_MESSAGE);
+    }
+
+    await this.accountDeletionService.assertNoSoleOwnedOrganizations(id);
+
+    const erased = await this.accountDeletionService.erase(id);
+
+    if (!erased) {
+      throw new NotFoundException('User not found');
+    }
+
+    return {
+      message: USER_DELETED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  USER_DATA_EXPORT_REPOSITORY,
+  type IUserDataExportRepository,
+} from '@/modules/users/domain/repositories/user-data-export.repository.interface';
+import {
+  DATA_EXPORT_NOT_FOUND_MESSAGE,
+  DATA_EXPORT_RETRIEVED_MESSAGE,
+} from '../constants/account.constants';
+
+@Injectable()
+export class GetDataExportUseCase {
+  constructor(
+    @Inject(USER_DATA_EXPORT_REPOSITORY)
+    private readonly userDataExportRepository: IUserDataExportRepository,
+  ) {}
+
+  async execute(id: string, userId: string) {
+    const dataExport = await this.userDataExportRepository.findForUser(id, userId);
+
+    if (!dataExport) {
+      throw new NotFoundException(DATA_EXPORT_NOT_FOUND_MESSAGE);
+    }
+
+    return {
+      data: dataExport,
+      message: DATA_EXPORT_RETRIEVED_MESSAGE,
+    };
+  }
+}
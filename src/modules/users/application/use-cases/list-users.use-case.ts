@@ -1,4 +1,5 @@
 import { Inject, Injectable } from '@nestjs/common';
+import { PermissionsAbilityFactory } from '@/modules/permissions/application/services/permissions-ability.factory';
 import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
 import {
   USER_REPOSITORY,
@@ -19,10 +20,16 @@ export class ListUsersUseCase {
   constructor(
     @Inject(USER_REPOSITORY)
     private readonly userRepository: IUserRepository,
+    private readonly permissionsAbilityFactory: PermissionsAbilityFactory,
   ) {}
 
   async execute(input: ListUsersInput) {
-    const result = await this.userRepository.findAll(input);
+    // Conditions on `users.read` narrow the list, e.g. to the teams of the member.
+    const { ability } = await this.permissionsAbilityFactory.buildCurrent();
+    const result = await this.userRepository.findAll({
+      ...input,
+      ability,
+    });
 
     return {
       data: result.data.map(toPublicUser),
@@ -0,0 +1,57 @@
+import { ConflictException, Inject, Injectable } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  ReauthenticationService,
+  type ReauthenticationInput,
+} from '@/modules/auth/application/services/reauthentication.service';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  ACCOUNT_DELETION_ALREADY_SCHEDULED_MESSAGE,
+  ACCOUNT_DELETION_SCHEDULED_MESSAGE,
+} from '../constants/account.constants';
+import { AccountDeletionService } from '../services/account-deletion.service';
+import { AccountQueueService } from '../services/account-queue.service';
+
+@Injectable()
+export class RequestAccountDeletionUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly accountQueueService: AccountQueueService,
+    private readonly emailQueueService: EmailQueueService,
+  ) {}
+
+  async execute(userId: string, input: ReauthenticationInput) {
+    const user = await this.reauthenticationService.assertReauthenticated(userId, input);
+
+    if (user.deletionScheduledAt) {
+      throw new ConflictException(ACCOUNT_DELETION_ALREADY_SCHEDULED_MESSAGE);
+    }
+
+    await this.accountDeletionService.assertNoSoleOwnedOrganizations(user.id);
+
+    const deletionScheduledAt = new Date(
+      Date.now() + envConfig.account.deletionGraceDays * 86_400_000,
+    );
+
+    await this.userRepository.update(user.id, { deletionScheduledAt });
+    await this.accountQueueService.scheduleDeletion(user.id, deletionScheduledAt);
+    await this.emailQueueService.enqueueAccountDeletionScheduledEmail({
+      email: user.email,
+      name: user.name,
+      deletionScheduledAt,
+      cancelUrl: `${envConfig.appUrl.replace(/\/$/, '')}/account`,
+    });
+
+    return {
+      data: { deletionScheduledAt },
+      message: ACCOUNT_DELETION_SCHEDULED_MESSAGE,
+    };
+  }
+}
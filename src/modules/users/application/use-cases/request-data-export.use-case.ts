@@ -0,0 +1,37 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  USER_DATA_EXPORT_REPOSITORY,
+  type IUserDataExportRepository,
+} from '@/modules/users/domain/repositories/user-data-export.repository.interface';
+import { DATA_EXPORT_REQUESTED_MESSAGE } from '../constants/account.constants';
+import { AccountQueueService } from '../services/account-queue.service';
+
+@Injectable()
+export class RequestDataExportUseCase {
+  constructor(
+    @Inject(USER_DATA_EXPORT_REPOSITORY)
+    private readonly userDataExportRepository: IUserDataExportRepository,
+    private readonly accountQueueService: AccountQueueService,
+  ) {}
+
+  async execute(userId: string) {
+    await this.userDataExportRepository.deleteExpired(new Date());
+
+    const activeExport = await this.userDataExportRepository.findActiveForUser(userId);
+
+    if (activeExport) {
+      return {
+        data: activeExport,
+        message: DATA_EXPORT_REQUESTED_MESSAGE,
+      };
+    }
+
+    const dataExport = await this.userDataExportRepository.create(userId);
+    await this.accountQueueService.enqueueDataExport(dataExport.id);
+
+    return {
+      data: dataExport,
+      message: DATA_EXPORT_REQUESTED_MESSAGE,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ACCOUNT_NOT_LOCKED_MESSAGE,
+  ACCOUNT_UNLOCKED_MESSAGE,
+} from '@/modules/auth/application/constants/account-lockout.constants';
+import { AccountLockoutService } from '@/modules/auth/application/services/account-lockout.service';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+
+@Injectable()
+export class UnlockUserUseCase {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    private readonly accountLockoutService: AccountLockoutService,
+  ) {}
+
+  async execute(id: string, organizationId: string) {
+    const user = await this.userRepository.findById(id, organizationId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const unlocked = await this.accountLockoutService.unlock(user.email);
+
+    return {
+      data: { unlocked },
+      message: unlocked ? ACCOUNT_UNLOCKED_MESSAGE : ACCOUNT_NOT_LOCKED_MESSAGE,
+    };
+  }
+}
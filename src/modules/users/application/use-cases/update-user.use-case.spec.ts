@@ -0,0 +1,72 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import type { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import type { ReauthenticationService } from '@/modules/auth/application/services/reauthentication.service';
+import type { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import { User } from '@/modules/users/domain/entities/user.entity';
+import type { IUserRepository, UpdateUserData } from '@/modules/users/domain/repositories/user.repository.interface';
+import { UpdateUserUseCase } from './update-user.use-case';
+
+describe('UpdateUserUseCase', () => {
+  const ana = new User({ id: '1', email: 'ana@example.com', name: 'Ana', password: 'hash' });
+  const userRepository = {
+    findById: jest.fn((id: string) => Promise.resolve(id === ana.id ? ana : null)),
+    findByEmail: jest.fn(() => Promise.resolve(null)),
+    update: jest.fn((id: string, data: UpdateUserData) => Promise.resolve(new User({ ...ana, ...data }))),
+  };
+  const reauthenticationService = {
+    assertReauthenticated: jest.fn((_userId: string, input: { password?: string }) =>
+      input.password === 'correct-password'
+        ? Promise.resolve(ana)
+        : Promise.reject(new BadRequestException('Invalid credentials')),
+    ),
+  };
+  const emailVerificationService = { send: jest.fn(() => Promise.resolve()) };
+  const emailQueueService = { enqueueEmailChangedEmail: jest.fn(() => Promise.resolve()) };
+  const useCase = new UpdateUserUseCase(
+    userRepository as unknown as IUserRepository,
+    emailVerificationService as unknown as EmailVerificationService,
+    reauthenticationService as unknown as ReauthenticationService,
+    emailQueueService as unknown as EmailQueueService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lets managers change the name of a member without reauthentication', async () => {
+    await useCase.execute('1', '100', '2', { name: 'Ana Maria' });
+
+    expect(userRepository.update).toHaveBeenCalledWith('1', { email: undefined, name: 'Ana Maria' });
+    expect(reauthenticationService.assertReauthenticated).not.toHaveBeenCalled();
+  });
+
+  it('does not let anyone else change the email of an account', async () => {
+    await expect(
+      useCase.execute('1', '100', '2', { email: 'mallory@example.com', password: 'correct-password' }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('requires the current credentials to change the email', async () => {
+    await expect(
+      useCase.execute('1', '100', '1', { email: 'ana@new.example.com' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('notifies the previous address after an email change', async () => {
+    await useCase.execute('1', '100', '1', { email: 'ana@new.example.com', password: 'correct-password' });
+
+    expect(userRepository.update).toHaveBeenCalledWith('1', {
+      email: 'ana@new.example.com',
+      name: undefined,
+      emailVerifiedAt: null,
+    });
+    expect(emailVerificationService.send).toHaveBeenCalled();
+    expect(emailQueueService.enqueueEmailChangedEmail).toHaveBeenCalledWith({
+      email: 'ana@example.com',
+      name: 'Ana',
+      newEmail: 'ana@new.example.com',
+    });
+  });
+});
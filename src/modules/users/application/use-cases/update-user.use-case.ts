@@ -1,35 +1,66 @@
 import {
   ConflictException,
+  ForbiddenException,
   Inject,
   Injectable,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
-import * as bcrypt from 'bcrypt';
-import { toPublicUser } from '@/modules/users/domain/entities/user.entity';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import {
+  ReauthenticationService,
+  type ReauthenticationInput,
+} from '@/modules/auth/application/services/reauthentication.service';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import { toPublicUser, type User } from '@/modules/users/domain/entities/user.entity';
 import {
   USER_REPOSITORY,
   type IUserRepository,
   type UpdateUserData,
 } from '@/modules/users/domain/repositories/user.repository.interface';
+import { USER_EMAIL_CHANGE_SELF_ONLY_MESSAGE } from '../constants/account.constants';
 
-export interface UpdateUserInput extends UpdateUserData {}
+/**
+ * Passwords are not part of the profile update: they go through the password
+ * routes, which apply the password history and revoke the other sessions.
+ * Changing the email takes the credentials of the account owner, since the
+ * new address is enough to reset the password.
+ */
+export type UpdateUserInput = Pick<UpdateUserData, 'email' | 'name'> & ReauthenticationInput;
 
 @Injectable()
 export class UpdateUserUseCase {
+  private readonly logger = new Logger(UpdateUserUseCase.name);
+
   constructor(
     @Inject(USER_REPOSITORY)
     private readonly userRepository: IUserRepository,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly reauthenticationService: ReauthenticationService,
+    private readonly emailQueueService: EmailQueueService,
   ) {}
 
-  async execute(id: string, input: UpdateUserInput) {
-    const existingUser = await this.userRepository.findById(id);
+  async execute(id: string, organizationId: string, actorId: string, input: UpdateUserInput) {
+    const existingUser = await this.userRepository.findById(id, organizationId);
 
     if (!existingUser) {
       throw new NotFoundException('User not found');
     }
 
-    if (input.email && input.email !== existingUser.email) {
-      const userWithSameEmail = await this.userRepository.findByEmail(input.email);
+    const newEmail = input.email && input.email !== existingUser.email ? input.email : undefined;
+
+    if (newEmail) {
+      if (id !== actorId) {
+        throw new ForbiddenException(USER_EMAIL_CHANGE_SELF_ONLY_MESSAGE);
+      }
+
+      await this.reauthenticationService.assertReauthenticated(actorId, {
+        password: input.password,
+        mfaCode: input.mfaCode,
+        recoveryCode: input.recoveryCode,
+      });
+
+      const userWithSameEmail = await this.userRepository.findByEmail(newEmail);
 
       if (userWithSameEmail && userWithSameEmail.id !== id) {
         throw new ConflictException('User email already exists');
@@ -37,11 +68,12 @@ export class UpdateUserUseCase {
     }
 
     const updatePayload: UpdateUserData = {
-      ...input,
+      email: input.email,
+      name: input.name,
     };
 
-    if (input.password) {
-      updatePayload.password = await bcrypt.hash(input.password, 10);
+    if (newEmail) {
+      updatePayload.emailVerifiedAt = null;
     }
 
     const updatedUser = await this.userRepository.update(id, updatePayload);
@@ -50,9 +82,32 @@ export class UpdateUserUseCase {
       throw new NotFoundException('User not found');
     }
 
+    if (newEmail) {
+      await this.emailVerificationService.send(updatedUser);
+      await this.enqueueEmailChangedEmail(existingUser, updatedUser.email);
+    }
+
     return {
       data: toPublicUser(updatedUser),
       message: 'User updated successfully',
     };
   }
+
+  private async enqueueEmailChangedEmail(
+    previousUser: Pick<User, 'email' | 'name'>,
+    newEmail: string,
+  ): Promise<void> {
+    try {
+      await this.emailQueueService.enqueueEmailChangedEmail({
+        email: previousUser.email,
+        name: previousUser.name,
+        newEmail,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const stack = error instanceof Error ? error.stack : undefined;
+
+      this.logger.error(`Failed to enqueue email changed email for ${previousUser.email}: ${message}`, stack);
+    }
+  }
 }
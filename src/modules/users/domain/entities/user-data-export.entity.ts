@@ -0,0 +1,19 @@
+export type UserDataExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export class UserDataExport {
+  id: string;
+  userId: string;
+  status: UserDataExportStatus;
+  fileName?: string | null;
+  contentType?: string | null;
+  sizeBytes?: number | null;
+  error?: string | null;
+  completedAt?: Date | null;
+  expiresAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(partial: Partial<UserDataExport> = {}) {
+    Object.assign(this, partial);
+  }
+}
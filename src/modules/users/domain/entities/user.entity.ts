@@ -2,9 +2,12 @@ export class User {
   id: string;
   email: string;
   password?: string | null;
-  googleId?: string | null;
   avatarUrl?: string | null;
   name: string;
+  emailVerifiedAt?: Date | null;
+  passwordChangedAt?: Date | null;
+  deletionScheduledAt?: Date | null;
+  deletedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 
@@ -0,0 +1,31 @@
+import { UserDataExport } from '../entities/user-data-export.entity';
+
+export interface CompleteUserDataExportData {
+  fileName: string;
+  contentType: string;
+  archive: Buffer;
+  expiresAt: Date;
+}
+
+export interface UserDataExportArchive {
+  fileName: string;
+  contentType: string;
+  archive: Buffer;
+}
+
+export interface IUserDataExportRepository {
+  create(userId: string): Promise<UserDataExport>;
+  findById(id: string): Promise<UserDataExport | null>;
+  findForUser(id: string, userId: string): Promise<UserDataExport | null>;
+  /**
+   * Returns the export of the user that is still pending or processing.
+   */
+  findActiveForUser(userId: string): Promise<UserDataExport | null>;
+  findArchive(id: string, userId: string): Promise<UserDataExportArchive | null>;
+  markProcessing(id: string, now: Date): Promise<void>;
+  complete(id: string, data: CompleteUserDataExportData, now: Date): Promise<void>;
+  fail(id: string, error: string, now: Date): Promise<void>;
+  deleteExpired(now: Date): Promise<number>;
+}
+
+export const USER_DATA_EXPORT_REPOSITORY = Symbol('USER_DATA_EXPORT_REPOSITORY');
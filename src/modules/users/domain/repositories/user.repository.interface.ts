@@ -1,19 +1,23 @@
+import type { AppAbility } from '@/modules/permissions/application/types/ability.types';
 import { User } from '../entities/user.entity';
 
 export interface CreateUserData {
   email: string;
   password?: string | null;
-  googleId?: string | null;
   avatarUrl?: string | null;
   name: string;
+  emailVerifiedAt?: Date | null;
+  passwordChangedAt?: Date | null;
 }
 
 export interface UpdateUserData {
   email?: string;
   password?: string | null;
-  googleId?: string | null;
   avatarUrl?: string | null;
   name?: string;
+  emailVerifiedAt?: Date | null;
+  passwordChangedAt?: Date | null;
+  deletionScheduledAt?: Date | null;
 }
 
 export interface FindAllUsersFilters {
@@ -21,6 +25,8 @@ export interface FindAllUsersFilters {
   email?: string;
   name?: string;
   organizationId?: string;
+  /** Keeps the users the ability can `read`, following its conditions. */
+  ability?: AppAbility;
   pageCount?: number;
   recordsPerPage?: number;
   paginate?: boolean;
@@ -31,14 +37,33 @@ export interface FindAllUsersResult {
   total: number;
 }
 
+/** The attributes of a member that the conditions of `users` permissions test. */
+export interface UserPermissionSubject {
+  id: string;
+  email: string;
+  name: string;
+  /** Teams of the user in the organization. */
+  teamIds: string[];
+}
+
 export interface IUserRepository {
   findByEmail(email: string): Promise<User | null>;
-  findByGoogleId(googleId: string): Promise<User | null>;
   findById(id: string, organizationId?: string): Promise<User | null>;
+  /** Returns null when the user is not a member of the organization. */
+  findPermissionSubject(
+    id: string,
+    organizationId: string,
+  ): Promise<UserPermissionSubject | null>;
   findAll(filters: FindAllUsersFilters): Promise<FindAllUsersResult>;
   create(data: CreateUserData): Promise<User>;
   update(id: string, data: UpdateUserData): Promise<User | null>;
   delete(id: string): Promise<boolean>;
+  /**
+   * Scrubs the personal data of a user. The row itself stays as an anonymous
+   * tombstone so audit columns such as `updated_by` keep pointing at it.
+   * Returns false when the user does not exist or was already anonymized.
+   */
+  anonymize(id: string, now: Date): Promise<boolean>;
 }
 
 export const USER_REPOSITORY = Symbol('IUserRepository');
@@ -0,0 +1,25 @@
+import { col, defineModel, type InferModelShape } from '@qbobjx/core';
+import { createSnakeCaseNamingPlugin } from '@qbobjx/plugins';
+import { snowflakeIdColumn } from '@/shared/infrastructure/database/objx-columns';
+
+export const UserDataExportModel = defineModel({
+  name: 'UserDataExport',
+  table: 'user_data_exports',
+  columns: {
+    id: snowflakeIdColumn().primary(),
+    userId: snowflakeIdColumn(),
+    status: col.text(),
+    fileName: col.text().nullable(),
+    contentType: col.text().nullable(),
+    sizeBytes: col.int().nullable(),
+    archiveBlob: col.custom<Buffer, 'bytea'>('bytea').nullable(),
+    error: col.text().nullable(),
+    completedAt: col.timestamp().nullable(),
+    expiresAt: col.timestamp().nullable(),
+    createdAt: col.timestamp().generated(),
+    updatedAt: col.timestamp().generated(),
+  },
+  plugins: [createSnakeCaseNamingPlugin()],
+});
+
+export type UserDataExportRecord = InferModelShape<typeof UserDataExportModel>;
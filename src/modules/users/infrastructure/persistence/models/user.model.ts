@@ -9,9 +9,12 @@ export const UserModel = defineModel({
     id: snowflakeIdColumn().primary(),
     email: col.text(),
     password: col.text().nullable(),
-    googleId: col.text().nullable(),
     avatarUrl: col.text().nullable(),
     name: col.text(),
+    emailVerifiedAt: col.timestamp().nullable(),
+    passwordChangedAt: col.timestamp().nullable(),
+    deletionScheduledAt: col.timestamp().nullable(),
+    deletedAt: col.timestamp().nullable(),
     createdAt: col.timestamp().generated(),
     updatedAt: col.timestamp().generated(),
   },
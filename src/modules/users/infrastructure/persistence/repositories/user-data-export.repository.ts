@@ -0,0 +1,200 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  UserDataExport,
+  type UserDataExportStatus,
+} from '@/modules/users/domain/entities/user-data-export.entity';
+import type {
+  CompleteUserDataExportData,
+  IUserDataExportRepository,
+  UserDataExportArchive,
+} from '@/modules/users/domain/repositories/user-data-export.repository.interface';
+import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
+import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
+import type { ObjxSession } from '@/shared/infrastructure/database/database.types';
+import {
+  UserDataExportModel,
+  type UserDataExportRecord,
+} from '../models/user-data-export.model';
+
+@Injectable()
+export class UserDataExportRepository implements IUserDataExportRepository {
+  constructor(
+    @Inject(OBJX_SESSION)
+    private readonly objxSession: ObjxSession,
+  ) {}
+
+  async create(userId: string): Promise<UserDataExport> {
+    const rows = await this.objxSession.execute(
+      UserDataExportModel
+        .insert({
+          id: generateSnowflakeId(),
+          userId,
+          status: 'pending',
+        })
+        .returning(({
+          id,
+          userId: exportUserId,
+          status,
+          fileName,
+          contentType,
+          sizeBytes,
+          error,
+          completedAt,
+          expiresAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          exportUserId,
+          status,
+          fileName,
+          contentType,
+          sizeBytes,
+          error,
+          completedAt,
+          expiresAt,
+          createdAt,
+          updatedAt,
+        ]),
+    );
+    const row = rows[0];
+
+    if (!row) {
+      throw new Error('User data export insert did not return a row.');
+    }
+
+    return mapUserDataExportRow(row);
+  }
+
+  async findById(id: string): Promise<UserDataExport | null> {
+    const rows = await this.objxSession.execute(
+      UserDataExportModel
+        .query()
+        .where(({ id: exportId }, op) => op.eq(exportId, id))
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapUserDataExportRow(row) : null;
+  }
+
+  async findForUser(id: string, userId: string): Promise<UserDataExport | null> {
+    const row = await this.findRowForUser(id, userId);
+
+    return row ? mapUserDataExportRow(row) : null;
+  }
+
+  async findActiveForUser(userId: string): Promise<UserDataExport | null> {
+    const rows = await this.objxSession.execute(
+      UserDataExportModel
+        .query()
+        .where(({ userId: exportUserId, status }, op) =>
+          op.and(
+            op.eq(exportUserId, userId),
+            op.in(status, ['pending', 'processing']),
+          ),
+        )
+        .orderBy(({ createdAt }) => createdAt, 'desc')
+        .limit(1),
+    );
+    const row = rows[0];
+
+    return row ? mapUserDataExportRow(row) : null;
+  }
+
+  async findArchive(id: string, userId: string): Promise<UserDataExportArchive | null> {
+    const row = await this.findRowForUser(id, userId);
+
+    if (!row?.archiveBlob || !row.fileName || !row.contentType) {
+      return null;
+    }
+
+    return {
+      fileName: row.fileName,
+      contentType: row.contentType,
+      archive: row.archiveBlob,
+    };
+  }
+
+  async markProcessing(id: string, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      UserDataExportModel
+        .update({
+          status: 'processing',
+          updatedAt: now,
+        })
+        .where(({ id: exportId }, op) => op.eq(exportId, id)),
+    );
+  }
+
+  async complete(id: string, data: CompleteUserDataExportData, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      UserDataExportModel
+        .update({
+          status: 'ready',
+          fileName: data.fileName,
+          contentType: data.contentType,
+          sizeBytes: data.archive.length,
+          archiveBlob: data.archive,
+          error: null,
+          completedAt: now,
+          expiresAt: data.expiresAt,
+          updatedAt: now,
+        })
+        .where(({ id: exportId }, op) => op.eq(exportId, id)),
+    );
+  }
+
+  async fail(id: string, error: string, now: Date): Promise<void> {
+    await this.objxSession.execute(
+      UserDataExportModel
+        .update({
+          status: 'failed',
+          error: error.slice(0, 500),
+          completedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: exportId }, op) => op.eq(exportId, id)),
+    );
+  }
+
+  deleteExpired(now: Date): Promise<number> {
+    return this.objxSession.execute(
+      UserDataExportModel
+        .delete()
+        .where(({ expiresAt }, op) => op.lte(expiresAt, now)),
+    );
+  }
+
+  private async findRowForUser(id: string, userId: string): Promise<UserDataExportRecord | null> {
+    const rows = await this.objxSession.execute(
+      UserDataExportModel
+        .query()
+        .where(({ id: exportId, userId: exportUserId }, op) =>
+          op.and(
+            op.eq(exportId, id),
+            op.eq(exportUserId, userId),
+          ),
+        )
+        .limit(1),
+    );
+
+    return rows[0] ?? null;
+  }
+}
+
+function mapUserDataExportRow(row: UserDataExportRecord): UserDataExport {
+  return new UserDataExport({
+    id: row.id,
+    userId: row.userId,
+    status: row.status as UserDataExportStatus,
+    fileName: row.fileName ?? null,
+    contentType: row.contentType ?? null,
+    sizeBytes: row.sizeBytes ?? null,
+    error: row.error ?? null,
+    completedAt: row.completedAt ?? null,
+    expiresAt: row.expiresAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  });
+}
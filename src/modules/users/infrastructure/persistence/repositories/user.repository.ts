@@ -7,6 +7,7 @@ import {
   FindAllUsersResult,
   IUserRepository,
   UpdateUserData,
+  UserPermissionSubject,
 } from '@/modules/users/domain/repositories/user.repository.interface';
 import { generateSnowflakeId } from '@/shared/ids/snowflake-id.util';
 import { OBJX_SESSION } from '@/shared/infrastructure/database/database.tokens';
@@ -15,8 +16,18 @@ import {
   OrganizationMembershipModel,
   type OrganizationMembershipRecord,
 } from '@/modules/organizations/infrastructure/persistence/models/organization-membership.model';
+import { OrganizationTeamMemberModel } from '@/modules/organizations/infrastructure/persistence/models/organization-team-member.model';
+import {
+  buildPermissionQueryFilter,
+  type PermissionQueryField,
+} from '@/modules/permissions/infrastructure/persistence/permission-conditions-query.util';
 import { UserModel, type UserRecord } from '../models/user.model';
 
+const ANONYMIZED_USER_NAME = 'Deleted user';
+
+/** The columns of `users` that permission conditions are translated to. */
+type UserQueryColumns = Record<'id' | 'email' | 'name', unknown>;
+
 @Injectable()
 export class UserRepository implements IUserRepository {
   constructor(
@@ -36,16 +47,44 @@ export class UserRepository implements IUserRepository {
     return row ? mapUserRow(row) : null;
   }
 
-  async findByGoogleId(googleId: string): Promise<User | null> {
-    const rows = await this.objxSession.execute(
-      UserModel
-        .query()
-        .where(({ googleId: userGoogleId }, op) => op.eq(userGoogleId, googleId))
-        .limit(1),
+  async findPermissionSubject(
+    id: string,
+    organizationId: string,
+  ): Promise<UserPermissionSubject | null> {
+    const membership = await this.findMembershipForUserInOrganization(
+      id,
+      organizationId,
     );
+
+    if (!membership) {
+      return null;
+    }
+
+    const [rows, teamMemberRows] = await Promise.all([
+      this.objxSession.execute(
+        UserModel
+          .query()
+          .where(({ id: userId }, op) => op.eq(userId, id))
+          .limit(1),
+      ),
+      this.objxSession.execute(
+        OrganizationTeamMemberModel
+          .query()
+          .where(({ membershipId }, op) => op.eq(membershipId, membership.id)),
+      ),
+    ]);
     const row = rows[0];
 
-    return row ? mapUserRow(row) : null;
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      teamIds: teamMemberRows.map((teamMember) => teamMember.teamId),
+    };
   }
 
   async findById(
@@ -82,7 +121,19 @@ export class UserRepository implements IUserRepository {
       ? await this.findOrganizationUserIds(filters.organizationId)
       : null;
 
-    if (organizationUserIds && organizationUserIds.length === 0) {
+    const permissionFilter = filters.ability
+      ? await buildPermissionQueryFilter(
+        filters.ability,
+        'read',
+        'users',
+        this.permissionQueryFields(filters.organizationId),
+      )
+      : null;
+
+    if (
+      (organizationUserIds && organizationUserIds.length === 0) ||
+      (permissionFilter && !permissionFilter.matchesAny)
+    ) {
       return {
         data: [],
         total: 0,
@@ -98,6 +149,11 @@ export class UserRepository implements IUserRepository {
       usersQuery = usersQuery.where(({ id }, op) => op.in(id, organizationUserIds));
     }
 
+    if (permissionFilter?.where) {
+      countQuery = countQuery.where(permissionFilter.where);
+      usersQuery = usersQuery.where(permissionFilter.where);
+    }
+
     if (filters.id) {
       countQuery = countQuery.where(({ id }, op) => op.eq(id, filters.id!));
       usersQuery = usersQuery.where(({ id }, op) => op.eq(id, filters.id!));
@@ -140,17 +196,33 @@ export class UserRepository implements IUserRepository {
           id: generateSnowflakeId(),
           email: data.email,
           password: data.password ?? null,
-          googleId: data.googleId ?? null,
           avatarUrl: data.avatarUrl ?? null,
           name: data.name,
+          emailVerifiedAt: data.emailVerifiedAt ?? null,
+          passwordChangedAt: data.passwordChangedAt ?? null,
         })
-        .returning(({ id, email, password, googleId, avatarUrl, name, createdAt, updatedAt }) => [
+        .returning(({
           id,
           email,
           password,
-          googleId,
           avatarUrl,
           name,
+          emailVerifiedAt,
+          passwordChangedAt,
+          deletionScheduledAt,
+          deletedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          email,
+          password,
+          avatarUrl,
+          name,
+          emailVerifiedAt,
+          passwordChangedAt,
+          deletionScheduledAt,
+          deletedAt,
           createdAt,
           updatedAt,
         ]),
@@ -175,10 +247,6 @@ export class UserRepository implements IUserRepository {
       updatePayload.password = data.password;
     }
 
-    if (data.googleId !== undefined) {
-      updatePayload.googleId = data.googleId;
-    }
-
     if (data.avatarUrl !== undefined) {
       updatePayload.avatarUrl = data.avatarUrl;
     }
@@ -187,6 +255,18 @@ export class UserRepository implements IUserRepository {
       updatePayload.name = data.name;
     }
 
+    if (data.emailVerifiedAt !== undefined) {
+      updatePayload.emailVerifiedAt = data.emailVerifiedAt;
+    }
+
+    if (data.passwordChangedAt !== undefined) {
+      updatePayload.passwordChangedAt = data.passwordChangedAt;
+    }
+
+    if (data.deletionScheduledAt !== undefined) {
+      updatePayload.deletionScheduledAt = data.deletionScheduledAt;
+    }
+
     if (Object.keys(updatePayload).length === 0) {
       return this.findById(id);
     }
@@ -197,13 +277,28 @@ export class UserRepository implements IUserRepository {
       UserModel
         .update(updatePayload)
         .where(({ id: userId }, op) => op.eq(userId, id))
-        .returning(({ id, email, password, googleId, avatarUrl, name, createdAt, updatedAt }) => [
+        .returning(({
           id,
           email,
           password,
-          googleId,
           avatarUrl,
           name,
+          emailVerifiedAt,
+          passwordChangedAt,
+          deletionScheduledAt,
+          deletedAt,
+          createdAt,
+          updatedAt,
+        }) => [
+          id,
+          email,
+          password,
+          avatarUrl,
+          name,
+          emailVerifiedAt,
+          passwordChangedAt,
+          deletionScheduledAt,
+          deletedAt,
           createdAt,
           updatedAt,
         ]),
@@ -223,6 +318,32 @@ export class UserRepository implements IUserRepository {
     return deletedRows > 0;
   }
 
+  async anonymize(id: string, now: Date): Promise<boolean> {
+    const rows = await this.objxSession.execute(
+      UserModel
+        .update({
+          email: buildAnonymizedEmail(id),
+          name: ANONYMIZED_USER_NAME,
+          password: null,
+          avatarUrl: null,
+          emailVerifiedAt: null,
+          passwordChangedAt: null,
+          deletionScheduledAt: null,
+          deletedAt: now,
+          updatedAt: now,
+        })
+        .where(({ id: userId, deletedAt }, op) =>
+          op.and(
+            op.eq(userId, id),
+            op.isNull(deletedAt),
+          ),
+        )
+        .returning(({ id: userId }) => [userId]),
+    );
+
+    return rows.length > 0;
+  }
+
   private async findMembershipForUserInOrganization(
     userId: string,
     organizationId: string,
@@ -242,6 +363,54 @@ export class UserRepository implements IUserRepository {
     return rows[0] ?? null;
   }
 
+  /** Maps the fields of `UserPermissionSubject` to the users table. */
+  private permissionQueryFields(
+    organizationId?: string,
+  ): Record<keyof UserPermissionSubject, PermissionQueryField<UserQueryColumns>> {
+    return {
+      id: { column: ({ id }) => id },
+      email: { column: ({ email }) => email },
+      name: { column: ({ name }) => name },
+      teamIds: {
+        column: ({ id }) => id,
+        resolveValues: (teamIds) =>
+          this.findTeamUserIds(teamIds.map(String), organizationId),
+      },
+    };
+  }
+
+  private async findTeamUserIds(
+    teamIds: string[],
+    organizationId?: string,
+  ): Promise<string[]> {
+    const teamMemberRows = await this.objxSession.execute(
+      OrganizationTeamMemberModel
+        .query()
+        .where(({ teamId }, op) => op.in(teamId, teamIds)),
+    );
+    const membershipIds = Array.from(
+      new Set(teamMemberRows.map((teamMember) => teamMember.membershipId)),
+    );
+
+    if (membershipIds.length === 0) {
+      return [];
+    }
+
+    const memberships = await this.objxSession.execute(
+      OrganizationMembershipModel
+        .query()
+        .where(({ id }, op) => op.in(id, membershipIds)),
+    );
+
+    return Array.from(
+      new Set(
+        memberships
+          .filter((membership) => !organizationId || membership.organizationId === organizationId)
+          .map((membership) => membership.userId),
+      ),
+    );
+  }
+
   private async findOrganizationUserIds(
     organizationId: string,
   ): Promise<string[]> {
@@ -257,14 +426,21 @@ export class UserRepository implements IUserRepository {
   }
 }
 
+function buildAnonymizedEmail(id: string): string {
+  return `deleted-${id}@deleted.invalid`;
+}
+
 function mapUserRow(row: UserRecord): User {
   return new User({
     id: row.id,
     email: row.email,
     password: row.password,
-    googleId: row.googleId,
     avatarUrl: row.avatarUrl,
     name: row.name,
+    emailVerifiedAt: row.emailVerifiedAt ?? null,
+    passwordChangedAt: row.passwordChangedAt ?? null,
+    deletionScheduledAt: row.deletionScheduledAt ?? null,
+    deletedAt: row.deletedAt ?? null,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   });
@@ -1,5 +1,7 @@
 import { Module } from '@nestjs/common';
+import { USER_DATA_EXPORT_REPOSITORY } from '@/modules/users/domain/repositories/user-data-export.repository.interface';
 import { USER_REPOSITORY } from '@/modules/users/domain/repositories/user.repository.interface';
+import { UserDataExportRepository } from './repositories/user-data-export.repository';
 import { UserRepository } from './repositories/user.repository';
 
 /**
@@ -11,7 +13,11 @@ import { UserRepository } from './repositories/user.repository';
       provide: USER_REPOSITORY,
       useClass: UserRepository,
     },
+    {
+      provide: USER_DATA_EXPORT_REPOSITORY,
+      useClass: UserDataExportRepository,
+    },
   ],
-  exports: [USER_REPOSITORY],
+  exports: [USER_REPOSITORY, USER_DATA_EXPORT_REPOSITORY],
 })
 export class UsersPersistenceModule {}
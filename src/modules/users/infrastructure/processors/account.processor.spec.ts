@@ -0,0 +1,70 @@
+import type { Job } from 'bull';
+import type { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import { User } from '@/modules/users/domain/entities/user.entity';
+import type { IUserDataExportRepository } from '@/modules/users/domain/repositories/user-data-export.repository.interface';
+import type { IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import type { AccountDeletionService } from '../../application/services/account-deletion.service';
+import type { UserDataExportService } from '../../application/services/user-data-export.service';
+import type { AccountDeletionJobData } from '../../application/types/account-job.type';
+import { AccountProcessor } from './account.processor';
+
+describe('AccountProcessor', () => {
+  let user: User;
+  let soleOwnedOrganizations: Organization[];
+  const userRepository = {
+    findById: jest.fn(() => Promise.resolve(user)),
+    update: jest.fn(() => Promise.resolve()),
+  };
+  const accountDeletionService = {
+    listSoleOwnedOrganizations: jest.fn(() => Promise.resolve(soleOwnedOrganizations)),
+    erase: jest.fn(() => Promise.resolve()),
+  };
+  const emailQueueService = { enqueueAccountDeletionCancelledEmail: jest.fn(() => Promise.resolve()) };
+  const processor = new AccountProcessor(
+    userRepository as unknown as IUserRepository,
+    {} as IUserDataExportRepository,
+    {} as UserDataExportService,
+    accountDeletionService as unknown as AccountDeletionService,
+    emailQueueService as unknown as EmailQueueService,
+  );
+  const job = { data: { userId: '1' } } as Job<AccountDeletionJobData>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    user = new User({
+      id: '1',
+      email: 'ana@example.com',
+      name: 'Ana',
+      deletionScheduledAt: new Date(Date.now() - 1000),
+    });
+    soleOwnedOrganizations = [];
+  });
+
+  it('erases the account once the grace period is over', async () => {
+    await processor.handleDeletion(job);
+
+    expect(accountDeletionService.erase).toHaveBeenCalledWith('1');
+  });
+
+  it('leaves accounts whose deletion was cancelled or postponed', async () => {
+    user.deletionScheduledAt = new Date(Date.now() + 60_000);
+
+    await processor.handleDeletion(job);
+
+    expect(accountDeletionService.erase).not.toHaveBeenCalled();
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('cancels the deletion and tells a sole owner why', async () => {
+    soleOwnedOrganizations = [new Organization({ id: '100', name: 'Acme' })];
+
+    await processor.handleDeletion(job);
+
+    expect(accountDeletionService.erase).not.toHaveBeenCalled();
+    expect(userRepository.update).toHaveBeenCalledWith('1', { deletionScheduledAt: null });
+    expect(emailQueueService.enqueueAccountDeletionCancelledEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'ana@example.com', organizationNames: ['Acme'] }),
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { OnQueueFailed, Process, Processor } from '@nestjs/bull';
+import { Inject, Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { envConfig } from '@/config/env.config';
+import { EmailQueueService } from '@/modules/emails/application/services/email-queue.service';
+import {
+  USER_DATA_EXPORT_REPOSITORY,
+  type IUserDataExportRepository,
+} from '@/modules/users/domain/repositories/user-data-export.repository.interface';
+import {
+  USER_REPOSITORY,
+  type IUserRepository,
+} from '@/modules/users/domain/repositories/user.repository.interface';
+import {
+  ACCOUNT_JOB_DATA_EXPORT,
+  ACCOUNT_JOB_DELETE,
+  ACCOUNT_QUEUE_NAME,
+  DATA_EXPORT_CONTENT_TYPE,
+} from '../../application/constants/account.constants';
+import { AccountDeletionService } from '../../application/services/account-deletion.service';
+import { UserDataExportService } from '../../application/services/user-data-export.service';
+import type {
+  AccountDeletionJobData,
+  AccountJobData,
+  DataExportJobData,
+} from '../../application/types/account-job.type';
+
+@Processor(ACCOUNT_QUEUE_NAME)
+export class AccountProcessor {
+  private readonly logger = new Logger(AccountProcessor.name);
+
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepository: IUserRepository,
+    @Inject(USER_DATA_EXPORT_REPOSITORY)
+    private readonly userDataExportRepository: IUserDataExportRepository,
+    private readonly userDataExportService: UserDataExportService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly emailQueueService: EmailQueueService,
+  ) { }
+
+  @Process(ACCOUNT_JOB_DATA_EXPORT)
+  async handleDataExport(job: Job<DataExportJobData>): Promise<void> {
+    const dataExport = await this.userDataExportRepository.findById(job.data.exportId);
+
+    if (!dataExport || dataExport.status === 'ready') {
+      return;
+    }
+
+    const now = new Date();
+    await this.userDataExportRepository.markProcessing(dataExport.id, now);
+
+    try {
+      const { fileName, archive } = await this.userDataExportService.build(dataExport.userId, now);
+      const expiresAt = new Date(now.getTime() + envConfig.account.dataExportTtlHours * 3_600_000);
+
+      await this.userDataExportRepository.complete(
+        dataExport.id,
+        { fileName, contentType: DATA_EXPORT_CONTENT_TYPE, archive, expiresAt },
+        new Date(),
+      );
+
+      const user = await this.userRepository.findById(dataExport.userId);
+
+      if (user) {
+        await this.emailQueueService.enqueueDataExportReadyEmail({
+          email: user.email,
+          name: user.name,
+          downloadUrl: `${envConfig.appUrl.replace(/\/$/, '')}/account?dataExport=${dataExport.id}`,
+          expiresAt,
+        });
+      }
+
+      this.logger.log(`Data export ${dataExport.id} ready for user ${dataExport.userId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      await this.userDataExportRepository.fail(dataExport.id, message, new Date());
+      throw error;
+    }
+  }
+
+  /**
+   * Runs when the grace period ends. The schedule and the ownership checks
+   * are re-read, since either may have changed while the job was delayed.
+   * A user who became the sole owner of an organization in the meantime
+   * keeps the account: the schedule is cleared and the user is told why, so
+   * the account is not left past due with nothing to retry it.
+   */
+  @Process(ACCOUNT_JOB_DELETE)
+  async handleDeletion(job: Job<AccountDeletionJobData>): Promise<void> {
+    const { userId } = job.data;
+    const user = await this.userRepository.findById(userId);
+
+    if (!user?.deletionScheduledAt || user.deletionScheduledAt.getTime() > Date.now()) {
+      return;
+    }
+
+    const soleOwnedOrganizations =
+      await this.accountDeletionService.listSoleOwnedOrganizations(userId);
+
+    if (soleOwnedOrganizations.length > 0) {
+      await this.userRepository.update(userId, { deletionScheduledAt: null });
+      await this.emailQueueService.enqueueAccountDeletionCancelledEmail({
+        email: user.email,
+        name: user.name,
+        organizationNames: soleOwnedOrganizations.map((organization) => organization.name),
+        accountUrl: `${envConfig.appUrl.replace(/\/$/, '')}/account`,
+      });
+      this.logger.warn(
+        `Cancelled deletion of user ${userId}: sole owner of ${soleOwnedOrganizations.length} organization(s)`,
+      );
+      return;
+    }
+
+    await this.accountDeletionService.erase(userId);
+
+    this.logger.log(`Account ${userId} deleted`);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job<AccountJobData>, error: Error): void {
+    const jobId = job?.id ?? 'unknown';
+
+    this.logger.error(`Account job ${jobId} failed: ${error.message}`, error.stack);
+  }
+}
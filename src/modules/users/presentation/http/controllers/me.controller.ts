@@ -0,0 +1,159 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { FastifyReply } from 'fastify';
+import { CancelAccountDeletionUseCase } from '@/modules/users/application/use-cases/cancel-account-deletion.use-case';
+import { DownloadDataExportUseCase } from '@/modules/users/application/use-cases/download-data-export.use-case';
+import { GetDataExportUseCase } from '@/modules/users/application/use-cases/get-data-export.use-case';
+import { RequestAccountDeletionUseCase } from '@/modules/users/application/use-cases/request-account-deletion.use-case';
+import { RequestDataExportUseCase } from '@/modules/users/application/use-cases/request-data-export.use-case';
+import {
+  ApiDoc,
+  BlockDuringImpersonation,
+  CurrentUser,
+  RequireInteractiveSession,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+import {
+  AccountDeletionResponseDto,
+  DataExportIdParamDto,
+  DataExportResponseDto,
+  DeleteAccountDto,
+  toDataExportResponseDto,
+} from '../dtos';
+
+@ApiTags('Account')
+@Controller('me')
+@RequireInteractiveSession()
+@BlockDuringImpersonation()
+export class MeController {
+  constructor(
+    private readonly requestDataExportUseCase: RequestDataExportUseCase,
+    private readonly getDataExportUseCase: GetDataExportUseCase,
+    private readonly downloadDataExportUseCase: DownloadDataExportUseCase,
+    private readonly requestAccountDeletionUseCase: RequestAccountDeletionUseCase,
+    private readonly cancelAccountDeletionUseCase: CancelAccountDeletionUseCase,
+  ) { }
+
+  @Post('data-export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiDoc({
+    summary: 'Request data export',
+    description: 'Builds a gzipped JSON archive with your profile, organization memberships, roles, permission overrides and the report settings you last edited. The archive is generated in the background; an email is sent when it is ready and it can be downloaded for `ACCOUNT_DATA_EXPORT_TTL_HOURS`. While an export is pending, the same export is returned.',
+    response: DataExportResponseDto,
+    commonResponses: ['unauthorized', 'forbidden'],
+  })
+  async requestDataExport(@CurrentUser('id') userId: string) {
+    const result = await this.requestDataExportUseCase.execute(userId);
+
+    return ResponseHelper.success(toDataExportResponseDto(result.data), result.message);
+  }
+
+  @Get('data-export/:id')
+  @ApiDoc({
+    summary: 'Get data export',
+    response: DataExportResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'id',
+        description: 'Data export ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async getDataExport(
+    @CurrentUser('id') userId: string,
+    @Param() params: DataExportIdParamDto,
+  ) {
+    const result = await this.getDataExportUseCase.execute(params.id, userId);
+
+    return ResponseHelper.success(toDataExportResponseDto(result.data), result.message);
+  }
+
+  @Get('data-export/:id/download')
+  @ApiOperation({
+    summary: 'Download data export',
+    description: 'Downloads a ready data export archive before it expires.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Data export ID',
+    example: '1925012345678901248',
+  })
+  @ApiProduces('application/gzip')
+  @ApiOkResponse({
+    description: 'Gzipped JSON archive',
+    content: {
+      'application/gzip': {
+        schema: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  async downloadDataExport(
+    @CurrentUser('id') userId: string,
+    @Param() params: DataExportIdParamDto,
+    @Res() reply: FastifyReply,
+  ): Promise<void> {
+    const result = await this.downloadDataExportUseCase.execute(params.id, userId);
+
+    reply
+      .header('Content-Type', result.contentType)
+      .header('Content-Disposition', `attachment; filename="${result.fileName}"`)
+      .header('Content-Length', String(result.archive.length))
+      .header('Cache-Control', 'no-store')
+      .send(result.archive);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiDoc({
+    summary: 'Delete account',
+    description: 'Schedules the deletion of your account after `ACCOUNT_DELETION_GRACE_DAYS`. Confirm with your current password, or with `mfaCode`/`recoveryCode` when the account has no password. Organizations you are the only owner of must be transferred or deleted first; they are listed in `data` of the 409 response. When the grace period ends, personal data, memberships and credentials are removed and the account is kept as an anonymous record.',
+    body: DeleteAccountDto,
+    response: AccountDeletionResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'conflict', 'tooManyRequests'],
+  })
+  async deleteAccount(
+    @CurrentUser('id') userId: string,
+    @Body() dto: DeleteAccountDto,
+  ) {
+    const result = await this.requestAccountDeletionUseCase.execute(userId, dto);
+
+    return ResponseHelper.success(
+      { deletionScheduledAt: result.data.deletionScheduledAt.toISOString() },
+      result.message,
+    );
+  }
+
+  @Post('deletion/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiDoc({
+    summary: 'Cancel account deletion',
+    description: 'Cancels a scheduled account deletion during the grace period.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden'],
+  })
+  async cancelDeletion(@CurrentUser('id') userId: string) {
+    const result = await this.cancelAccountDeletionUseCase.execute(userId);
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Delete,
+  Param,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { EraseUserUseCase } from '@/modules/users/application/use-cases/erase-user.use-case';
+import {
+  ApiDoc,
+  CurrentUser,
+  RequirePlatformAdmin,
+} from '@/shared/http/decorators';
+import { ResponseHelper } from '@/shared/http/helpers/response-helper';
+import { UserIdParamDto } from '../dtos';
+
+@ApiTags('Users')
+@Controller('admin/users')
+@RequirePlatformAdmin()
+export class UsersAdminController {
+  constructor(
+    private readonly eraseUserUseCase: EraseUserUseCase,
+  ) { }
+
+  @Delete(':id')
+  @ApiDoc({
+    summary: 'Erase user',
+    description: 'Restricted to the users listed in `PLATFORM_ADMIN_USER_IDS`. Erases the account across every organization: personal data, memberships and credentials are removed and the account is kept as an anonymous record, so references such as `updated_by` stay valid. Users who are the only owner of an organization cannot be erased.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound', 'conflict'],
+    params: [
+      {
+        name: 'id',
+        description: 'User ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async erase(
+    @CurrentUser('id') userId: string,
+    @Param() params: UserIdParamDto,
+  ) {
+    const result = await this.eraseUserUseCase.execute(params.id, userId);
+
+    return ResponseHelper.success(null, result.message);
+  }
+}
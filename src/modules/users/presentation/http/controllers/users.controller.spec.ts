@@ -0,0 +1,61 @@
+import { AbilityBuilder, createMongoAbility } from '@casl/ability';
+import { ForbiddenException, type ExecutionContext } from '@nestjs/common';
+import { type ModuleRef, Reflector } from '@nestjs/core';
+import type { PermissionsAbilityFactory } from '@/modules/permissions/application/services/permissions-ability.factory';
+import type { AppAbility } from '@/modules/permissions/application/types/ability.types';
+import { UserAbilitySubjectResolver } from '@/modules/users/application/services/user-ability-subject.resolver';
+import type { IUserRepository } from '@/modules/users/domain/repositories/user.repository.interface';
+import { PoliciesGuard } from '@/shared/http/guards/policies.guard';
+import { UsersController } from './users.controller';
+
+describe('UsersController policies', () => {
+  const session = { authenticated: true, userId: '1', currentOrganizationId: '100' };
+  let ability: AppAbility;
+  const resolver = new UserAbilitySubjectResolver({
+    findPermissionSubject: (id: string) =>
+      Promise.resolve({ id, email: `${id}@example.com`, name: `User ${id}`, teamIds: [] }),
+  } as unknown as IUserRepository);
+  const guard = new PoliciesGuard(
+    new Reflector(),
+    { get: () => resolver } as unknown as ModuleRef,
+    { buildForSession: () => Promise.resolve({ ability }) } as unknown as PermissionsAbilityFactory,
+  );
+
+  function createContext(handler: (...args: never[]) => unknown, id: string): ExecutionContext {
+    const request = { params: { id }, session };
+
+    return {
+      getType: () => 'http',
+      getHandler: () => handler,
+      getClass: () => UsersController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+  }
+
+  function buildAbility(define: (builder: AbilityBuilder<AppAbility>) => void): AppAbility {
+    const builder = new AbilityBuilder<AppAbility>(createMongoAbility);
+
+    define(builder);
+
+    return builder.build();
+  }
+
+  it('rejects PATCH /users/:id without users.manage', async () => {
+    ability = buildAbility(({ can }) => can('read', 'users'));
+
+    await expect(
+      guard.canActivate(createContext(UsersController.prototype.update, '2')),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects PATCH /users/:id on users outside the conditions of users.manage', async () => {
+    ability = buildAbility(({ can }) => can('manage', 'users', { id: '3' }));
+
+    await expect(
+      guard.canActivate(createContext(UsersController.prototype.update, '2')),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      guard.canActivate(createContext(UsersController.prototype.update, '3')),
+    ).resolves.toBe(true);
+  });
+});
@@ -3,20 +3,26 @@ import {
   Controller,
   Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Param,
   Patch,
   Post,
   Query,
 } from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
+import { UserAbilitySubjectResolver } from '@/modules/users/application/services/user-ability-subject.resolver';
 import { CreateUserUseCase } from '@/modules/users/application/use-cases/create-user.use-case';
 import { DeleteUserUseCase } from '@/modules/users/application/use-cases/delete-user.use-case';
 import { FindUserUseCase } from '@/modules/users/application/use-cases/find-user.use-case';
 import { ListUsersUseCase } from '@/modules/users/application/use-cases/list-users.use-case';
+import { UnlockUserUseCase } from '@/modules/users/application/use-cases/unlock-user.use-case';
 import { UpdateUserUseCase } from '@/modules/users/application/use-cases/update-user.use-case';
 import {
   ApiDoc,
+  CheckAbility,
   CurrentOrganization,
+  CurrentUser,
   RequireOrganizationPermissions,
 } from '@/shared/http/decorators';
 import { ResponseHelper } from '@/shared/http/helpers/response-helper';
@@ -24,6 +30,7 @@ import {
   CreateUserDto,
   FindAllUsersDto,
   toUserResponseDto,
+  UnlockUserResponseDto,
   UpdateUserDto,
   UserIdParamDto,
   UserResponseDto,
@@ -38,6 +45,7 @@ export class UsersController {
     private readonly listUsersUseCase: ListUsersUseCase,
     private readonly updateUserUseCase: UpdateUserUseCase,
     private readonly deleteUserUseCase: DeleteUserUseCase,
+    private readonly unlockUserUseCase: UnlockUserUseCase,
   ) { }
 
   @Post()
@@ -53,7 +61,10 @@ export class UsersController {
   }
 
   @Get(':id')
-  @RequireOrganizationPermissions('users.read')
+  @CheckAbility(
+    (ability, user) => ability.can('read', user ?? 'users'),
+    UserAbilitySubjectResolver,
+  )
   @ApiDoc({
     summary: 'Get user by ID',
     response: UserResponseDto,
@@ -82,6 +93,7 @@ export class UsersController {
   @RequireOrganizationPermissions('users.read')
   @ApiDoc({
     summary: 'List users',
+    description: 'Only lists the users matching the conditions of your `users.read` permissions.',
     response: UserResponseDto,
     isPaginated: true,
     commonResponses: ['badRequest', 'unauthorized', 'conflict', 'forbidden'],
@@ -111,11 +123,47 @@ export class UsersController {
     );
   }
 
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @CheckAbility(
+    (ability, user) => ability.can('manage', user ?? 'users'),
+    UserAbilitySubjectResolver,
+  )
+  @ApiDoc({
+    summary: 'Unlock user sign-in',
+    description: 'Clears a temporary lockout caused by repeated failed passwords and resets the failure counter.',
+    response: UnlockUserResponseDto,
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound'],
+    params: [
+      {
+        name: 'id',
+        description: 'User ID',
+        example: '1925012345678901248',
+      },
+    ],
+  })
+  async unlock(
+    @CurrentOrganization('id') organizationId: string,
+    @Param() params: UserIdParamDto,
+  ) {
+    const result = await this.unlockUserUseCase.execute(
+      params.id,
+      organizationId,
+    );
+
+    return ResponseHelper.success(result.data, result.message);
+  }
+
   @Patch(':id')
+  @CheckAbility(
+    (ability, user) => ability.can('manage', user ?? 'users'),
+    UserAbilitySubjectResolver,
+  )
   @ApiDoc({
     summary: 'Update user',
+    description: 'Updates the name and email of a member of the current organization. Requires `users.manage` on the user. Only the account owner can change the email, confirming with the current password, or with `mfaCode`/`recoveryCode` when the account has no password; the previous address is notified. Passwords are changed through `POST /auth/password` and `POST /auth/reset-password`.',
     response: UserResponseDto,
-    commonResponses: ['badRequest', 'unauthorized'],
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound', 'conflict'],
     params: [
       {
         name: 'id',
@@ -126,17 +174,24 @@ export class UsersController {
     body: UpdateUserDto,
   })
   async update(
+    @CurrentOrganization('id') organizationId: string,
+    @CurrentUser('id') userId: string,
     @Param() params: UserIdParamDto,
     @Body() dto: UpdateUserDto,
   ) {
-    const result = await this.updateUserUseCase.execute(params.id, dto);
+    const result = await this.updateUserUseCase.execute(params.id, organizationId, userId, dto);
     return ResponseHelper.success(toUserResponseDto(result.data), result.message);
   }
 
   @Delete(':id')
+  @CheckAbility(
+    (ability, user) => ability.can('manage', user ?? 'users'),
+    UserAbilitySubjectResolver,
+  )
   @ApiDoc({
-    summary: 'Delete user',
-    commonResponses: ['badRequest', 'unauthorized'],
+    summary: 'Remove user from organization',
+    description: 'Removes the user from the current organization together with their roles and permission overrides. The account and its other memberships are kept: accounts are erased through `DELETE /me` or, by platform administrators, `DELETE /admin/users/{id}`. Only owners can remove other owners, and the last owner can never be removed.',
+    commonResponses: ['badRequest', 'unauthorized', 'forbidden', 'notFound', 'conflict'],
     params: [
       {
         name: 'id',
@@ -145,8 +200,17 @@ export class UsersController {
       },
     ],
   })
-  async delete(@Param() params: UserIdParamDto) {
-    const result = await this.deleteUserUseCase.execute(params.id);
+  async delete(
+    @CurrentOrganization('id') organizationId: string,
+    @CurrentUser('id') userId: string,
+    @Param() params: UserIdParamDto,
+  ) {
+    const result = await this.deleteUserUseCase.execute(
+      params.id,
+      organizationId,
+      userId,
+    );
+
     return ResponseHelper.success(null, result.message);
   }
 }
@@ -1,16 +1,18 @@
 import { createZodDto } from 'nestjs-zod';
 import { z } from 'zod';
+import { PASSWORD_MAX_LENGTH } from '@/shared/password-policy/password-policy.util';
 
 export const userEmailSchema = z
   .email('Must be a valid email address')
   .transform((value) => value.toLowerCase().trim());
 
+// Strength rules are enforced by PasswordPolicyService, which also knows the user's name and email.
 export const userPasswordSchema = z
   .string({
     message: 'Password is required',
   })
-  .min(6, 'Password must be at least 6 characters')
-  .max(100, 'Password is too long');
+  .min(1, 'Password is required')
+  .max(PASSWORD_MAX_LENGTH, 'Password is too long');
 
 export const userNameSchema = z
   .string({
@@ -0,0 +1,37 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import type { UserDataExport } from '@/modules/users/domain/entities/user-data-export.entity';
+import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+
+export const DataExportIdParamSchema = z.object({
+  id: snowflakeIdSchema,
+});
+
+export const DataExportResponseSchema = z.object({
+  id: snowflakeIdSchema,
+  status: z.enum(['pending', 'processing', 'ready', 'failed']),
+  fileName: z.string().nullable(),
+  sizeBytes: z.number().int().nullable(),
+  error: z.string().nullable(),
+  completedAt: z.iso.datetime().nullable(),
+  expiresAt: z.iso.datetime().nullable(),
+  createdAt: z.iso.datetime(),
+});
+
+export type DataExportResponse = z.infer<typeof DataExportResponseSchema>;
+
+export function toDataExportResponseDto(dataExport: UserDataExport): DataExportResponse {
+  return {
+    id: dataExport.id,
+    status: dataExport.status,
+    fileName: dataExport.fileName ?? null,
+    sizeBytes: dataExport.sizeBytes ?? null,
+    error: dataExport.error ?? null,
+    completedAt: dataExport.completedAt?.toISOString() ?? null,
+    expiresAt: dataExport.expiresAt?.toISOString() ?? null,
+    createdAt: dataExport.createdAt.toISOString(),
+  };
+}
+
+export class DataExportIdParamDto extends createZodDto(DataExportIdParamSchema) { }
+export class DataExportResponseDto extends createZodDto(DataExportResponseSchema) { }
@@ -0,0 +1,15 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { tokenSecondFactorShape } from '@/modules/auth/presentation/http/dtos/mfa.dto';
+
+export const DeleteAccountSchema = z.object({
+  password: z.string().min(1, 'Current password is required').max(100, 'Password is too long').optional(),
+  ...tokenSecondFactorShape,
+});
+
+export const AccountDeletionResponseSchema = z.object({
+  deletionScheduledAt: z.iso.datetime(),
+});
+
+export class DeleteAccountDto extends createZodDto(DeleteAccountSchema) { }
+export class AccountDeletionResponseDto extends createZodDto(AccountDeletionResponseSchema) { }
@@ -3,3 +3,6 @@ export * from './find-all-users.dto';
 export * from './user-response.dto';
 export * from './user-id-param.dto';
 export * from './update-user.dto';
+export * from './unlock-user-response.dto';
+export * from './data-export.dto';
+export * from './delete-account.dto';
@@ -0,0 +1,8 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const UnlockUserResponseSchema = z.object({
+  unlocked: z.boolean(),
+});
+
+export class UnlockUserResponseDto extends createZodDto(UnlockUserResponseSchema) { }
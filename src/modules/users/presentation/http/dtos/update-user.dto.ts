@@ -1,19 +1,21 @@
 import { createZodDto } from 'nestjs-zod';
 import { z } from 'zod';
+import { tokenSecondFactorShape } from '@/modules/auth/presentation/http/dtos/mfa.dto';
 import {
   userEmailSchema,
   userNameSchema,
-  userPasswordSchema,
 } from './create-user.dto';
 
 export const UpdateUserSchema = z
   .object({
     email: userEmailSchema.optional(),
-    password: userPasswordSchema.optional(),
     name: userNameSchema.optional(),
+    /** Current password, required to change the email. */
+    password: z.string().min(1, 'Current password is required').max(100, 'Password is too long').optional(),
+    ...tokenSecondFactorShape,
   })
   .refine(
-    (value) => Object.values(value).some((field) => field !== undefined),
+    (value) => value.email !== undefined || value.name !== undefined,
     {
       message: 'At least one field must be provided',
     },
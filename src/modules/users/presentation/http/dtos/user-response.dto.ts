@@ -1,6 +1,8 @@
 import { createZodDto } from 'nestjs-zod';
 import { z } from 'zod';
+import { envConfig } from '@/config/env.config';
 import { snowflakeIdSchema } from '@/shared/ids/snowflake-id.schema';
+import { isPasswordExpired } from '@/shared/password-policy/password-policy.util';
 
 const DateTimeStringSchema = z.string().datetime();
 
@@ -9,6 +11,9 @@ export const UserResponseSchema = z.object({
   email: z.email(),
   name: z.string(),
   avatarUrl: z.string().url().nullable().optional(),
+  emailVerified: z.boolean(),
+  passwordExpired: z.boolean(),
+  deletionScheduledAt: DateTimeStringSchema.nullable(),
   createdAt: DateTimeStringSchema,
   updatedAt: DateTimeStringSchema,
 });
@@ -20,6 +25,9 @@ type UserResponseInput = {
   email: string;
   name: string;
   avatarUrl?: string | null;
+  emailVerifiedAt?: Date | string | null;
+  passwordChangedAt?: Date | string | null;
+  deletionScheduledAt?: Date | string | null;
   createdAt: Date | string;
   updatedAt: Date | string;
 };
@@ -30,6 +38,13 @@ export function toUserResponseDto(user: UserResponseInput): UserResponse {
     email: user.email,
     name: user.name,
     avatarUrl: user.avatarUrl ?? null,
+    emailVerified: Boolean(user.emailVerifiedAt),
+    passwordExpired: isPasswordExpired(
+      user.passwordChangedAt ? new Date(user.passwordChangedAt) : null,
+      envConfig.auth.password.maxAgeDays,
+      new Date(),
+    ),
+    deletionScheduledAt: user.deletionScheduledAt ? normalizeDateTime(user.deletionScheduledAt) : null,
     createdAt: normalizeDateTime(user.createdAt),
     updatedAt: normalizeDateTime(user.updatedAt),
   };
@@ -1,31 +1,88 @@
+import { BullModule } from '@nestjs/bull';
 import { Module } from '@nestjs/common';
+import { ApiKeysPersistenceModule } from '@/modules/api-keys/infrastructure/persistence/api-keys-persistence.module';
+import { AccountLockoutService } from '@/modules/auth/application/services/account-lockout.service';
+import { EmailVerificationService } from '@/modules/auth/application/services/email-verification.service';
+import { MfaService } from '@/modules/auth/application/services/mfa.service';
+import { ReauthenticationService } from '@/modules/auth/application/services/reauthentication.service';
+import { AuthPersistenceModule } from '@/modules/auth/infrastructure/persistence/auth-persistence.module';
 import { EmailsModule } from '@/modules/emails/emails.module';
 import { OrganizationsPersistenceModule } from '@/modules/organizations/infrastructure/persistence/organizations-persistence.module';
 import { PermissionsModule } from '@/modules/permissions/permissions.module';
 import { PermissionsPersistenceModule } from '@/modules/permissions/infrastructure/persistence/permissions-persistence.module';
+import { ReportsPersistenceModule } from '@/modules/reports/infrastructure/persistence/reports-persistence.module';
+import { WsModule } from '@/modules/ws/ws.module';
+import { PlatformAdminGuard } from '@/shared/http/guards/platform-admin.guard';
+import { ACCOUNT_QUEUE_NAME } from './application/constants/account.constants';
+import { AccountDeletionService } from './application/services/account-deletion.service';
+import { AccountQueueService } from './application/services/account-queue.service';
+import { UserAbilitySubjectResolver } from './application/services/user-ability-subject.resolver';
+import { UserDataExportService } from './application/services/user-data-export.service';
+import { CancelAccountDeletionUseCase } from './application/use-cases/cancel-account-deletion.use-case';
 import { CreateUserUseCase } from './application/use-cases/create-user.use-case';
 import { DeleteUserUseCase } from './application/use-cases/delete-user.use-case';
+import { DownloadDataExportUseCase } from './application/use-cases/download-data-export.use-case';
+import { EraseUserUseCase } from './application/use-cases/erase-user.use-case';
 import { FindUserUseCase } from './application/use-cases/find-user.use-case';
+import { GetDataExportUseCase } from './application/use-cases/get-data-export.use-case';
 import { ListUsersUseCase } from './application/use-cases/list-users.use-case';
+import { RequestAccountDeletionUseCase } from './application/use-cases/request-account-deletion.use-case';
+import { RequestDataExportUseCase } from './application/use-cases/request-data-export.use-case';
+import { UnlockUserUseCase } from './application/use-cases/unlock-user.use-case';
 import { UpdateUserUseCase } from './application/use-cases/update-user.use-case';
 import { UsersPersistenceModule } from './infrastructure/persistence/users-persistence.module';
+import { AccountProcessor } from './infrastructure/processors/account.processor';
+import { MeController } from './presentation/http/controllers/me.controller';
+import { UsersAdminController } from './presentation/http/controllers/users-admin.controller';
 import { UsersController } from './presentation/http/controllers/users.controller';
 
 @Module({
   imports: [
+    BullModule.registerQueue({
+      name: ACCOUNT_QUEUE_NAME,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: true,
+      },
+    }),
     UsersPersistenceModule,
+    AuthPersistenceModule,
+    ApiKeysPersistenceModule,
     EmailsModule,
     OrganizationsPersistenceModule,
     PermissionsPersistenceModule,
     PermissionsModule,
+    ReportsPersistenceModule,
+    WsModule,
   ],
-  controllers: [UsersController],
+  controllers: [UsersController, UsersAdminController, MeController],
   providers: [
     CreateUserUseCase,
     FindUserUseCase,
     ListUsersUseCase,
     UpdateUserUseCase,
     DeleteUserUseCase,
+    EraseUserUseCase,
+    UnlockUserUseCase,
+    RequestDataExportUseCase,
+    GetDataExportUseCase,
+    DownloadDataExportUseCase,
+    RequestAccountDeletionUseCase,
+    CancelAccountDeletionUseCase,
+    AccountQueueService,
+    AccountDeletionService,
+    UserDataExportService,
+    UserAbilitySubjectResolver,
+    AccountProcessor,
+    EmailVerificationService,
+    AccountLockoutService,
+    MfaService,
+    ReauthenticationService,
+    PlatformAdminGuard,
   ],
 })
 export class UsersModule {}
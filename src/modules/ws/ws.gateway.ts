@@ -65,7 +65,7 @@ export class WsGateway
       return;
     }
 
-    const rooms = this.getRoomsForSession(session);
+    const rooms = this.getRoomsForSession(session, client.data.sessionHandle as string | undefined);
     if (rooms.length > 0) {
       await Promise.resolve(client.join(rooms));
     }
@@ -112,10 +112,27 @@ export class WsGateway
     this.server.to(WsGateway.getUserRoom(userId)).emit(event, payload);
   }
 
+  /**
+   * Disconnects sockets opened with any of the given (revoked) cookie sessions.
+   */
+  disconnectSessions(sessionHandles: string[]): void {
+    if (sessionHandles.length === 0) {
+      return;
+    }
+
+    this.server
+      .in(sessionHandles.map((handle) => WsGateway.getSessionRoom(handle)))
+      .disconnectSockets(true);
+  }
+
   static getUserRoom(userId: string): string {
     return `user:${userId}`;
   }
 
+  static getSessionRoom(sessionHandle: string): string {
+    return `session:${sessionHandle}`;
+  }
+
   private prepareSession(client: Socket): AppSessionContext {
     const session: AppSessionContext = {
       ...(client.data.session ?? {}),
@@ -159,8 +176,17 @@ export class WsGateway
       .sort();
   }
 
-  private getRoomsForSession(session: AuthenticatedSocketSession): string[] {
-    return [WsGateway.getUserRoom(session.userId)];
+  private getRoomsForSession(
+    session: AuthenticatedSocketSession,
+    sessionHandle?: string,
+  ): string[] {
+    const rooms = [WsGateway.getUserRoom(session.userId)];
+
+    if (sessionHandle) {
+      rooms.push(WsGateway.getSessionRoom(sessionHandle));
+    }
+
+    return rooms;
   }
 
   private isAuthenticatedSession(
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import {
+  accessTokenClaimsToSession,
+  signAccessToken,
+  verifyAccessToken,
+} from './access-token.util';
+
+@Injectable()
+export class AccessTokenService {
+  get ttlSeconds(): number {
+    return envConfig.auth.tokens.accessTokenTtlSeconds;
+  }
+
+  sign(session: AppSessionContext): { token: string; expiresAt: Date } {
+    return signAccessToken(session, {
+      secret: envConfig.auth.tokens.secret,
+      issuer: envConfig.auth.tokens.issuer,
+      ttlSeconds: this.ttlSeconds,
+    });
+  }
+
+  resolveSession(token: string): AppSessionContext | null {
+    const claims = verifyAccessToken(token, {
+      secret: envConfig.auth.tokens.secret,
+      issuer: envConfig.auth.tokens.issuer,
+    });
+
+    return claims ? accessTokenClaimsToSession(claims) : null;
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  accessTokenClaimsToSession,
+  parseAuthorizationHeader,
+  signAccessToken,
+  verifyAccessToken,
+} from './access-token.util';
+
+describe('access-token.util', () => {
+  const options = {
+    secret: 'test-secret',
+    issuer: 'api',
+  };
+  const now = new Date('2026-01-01T00:00:00.000Z');
+  const session = {
+    userId: '1925012345678901248',
+    email: 'user@example.com',
+    name: 'Jane Doe',
+    currentOrganizationId: '1925012345678901300',
+    currentOrganizationName: 'Acme',
+    currentOrganizationRole: 'owner',
+    authenticated: true,
+  };
+
+  it('signs a token that verifies back into the same session', () => {
+    const { token, expiresAt } = signAccessToken(session, { ...options, ttlSeconds: 900, now });
+    const claims = verifyAccessToken(token, { ...options, now });
+
+    expect(expiresAt).toEqual(new Date('2026-01-01T00:15:00.000Z'));
+    expect(claims).not.toBeNull();
+    expect(accessTokenClaimsToSession(claims!)).toEqual(session);
+  });
+
+  it('rejects expired tokens', () => {
+    const { token } = signAccessToken(session, { ...options, ttlSeconds: 900, now });
+
+    expect(verifyAccessToken(token, { ...options, now: new Date('2026-01-01T00:15:00.000Z') })).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret or issuer', () => {
+    const { token } = signAccessToken(session, { ...options, ttlSeconds: 900, now });
+
+    expect(verifyAccessToken(token, { ...options, secret: 'other-secret', now })).toBeNull();
+    expect(verifyAccessToken(token, { ...options, issuer: 'other-api', now })).toBeNull();
+  });
+
+  it('rejects tampered payloads', () => {
+    const { token } = signAccessToken(session, { ...options, ttlSeconds: 900, now });
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ sub: '1', iss: 'api', typ: 'access', iat: 0, exp: 9999999999 }),
+    ).toString('base64url');
+
+    expect(verifyAccessToken(`${header}.${forgedPayload}.${signature}`, { ...options, now })).toBeNull();
+    expect(verifyAccessToken('not-a-token', { ...options, now })).toBeNull();
+  });
+
+  it('parses authorization headers', () => {
+    expect(parseAuthorizationHeader('Bearer abc.def')).toEqual({ scheme: 'bearer', value: 'abc.def' });
+    expect(parseAuthorizationHeader(['ApiKey key_123'])).toEqual({ scheme: 'apikey', value: 'key_123' });
+    expect(parseAuthorizationHeader('Bearer')).toBeNull();
+    expect(parseAuthorizationHeader(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { AppSessionContext } from '../context/app-session-context';
+
+export const ACCESS_TOKEN_TYPE = 'access';
+
+export interface AccessTokenClaims {
+  sub: string;
+  email?: string;
+  name?: string;
+  org?: string;
+  orgName?: string;
+  role?: string;
+  mfa?: boolean;
+  iss: string;
+  typ: typeof ACCESS_TOKEN_TYPE;
+  iat: number;
+  exp: number;
+}
+
+export interface SignAccessTokenOptions {
+  secret: string;
+  issuer: string;
+  ttlSeconds: number;
+  now?: Date;
+}
+
+export interface VerifyAccessTokenOptions {
+  secret: string;
+  issuer: string;
+  now?: Date;
+}
+
+export interface AuthorizationCredentials {
+  scheme: string;
+  value: string;
+}
+
+const JWT_HEADER = encodeSegment({ alg: 'HS256', typ: 'JWT' });
+
+/**
+ * Signs a compact HS256 JWT carrying the authenticated session snapshot.
+ */
+export function signAccessToken(
+  session: AppSessionContext,
+  options: SignAccessTokenOptions,
+): { token: string; expiresAt: Date } {
+  if (!session.userId) {
+    throw new Error('Cannot sign an access token without a user id.');
+  }
+
+  const issuedAt = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: session.userId,
+    email: session.email,
+    name: session.name,
+    org: session.currentOrganizationId,
+    orgName: session.currentOrganizationName,
+    role: session.currentOrganizationRole,
+    mfa: session.mfaVerified || undefined,
+    iss: options.issuer,
+    typ: ACCESS_TOKEN_TYPE,
+    iat: issuedAt,
+    exp: issuedAt + options.ttlSeconds,
+  };
+  const unsignedToken = `${JWT_HEADER}.${encodeSegment(claims)}`;
+
+  return {
+    token: `${unsignedToken}.${createSignature(unsignedToken, options.secret)}`,
+    expiresAt: new Date(claims.exp * 1000),
+  };
+}
+
+/**
+ * Returns the token claims when signature, issuer, type and expiry are valid.
+ */
+export function verifyAccessToken(
+  token: string,
+  options: VerifyAccessTokenOptions,
+): AccessTokenClaims | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  const [header, payload, signature] = segments;
+  if (header !== JWT_HEADER) {
+    return null;
+  }
+
+  const expectedSignature = Buffer.from(createSignature(`${header}.${payload}`, options.secret));
+  const receivedSignature = Buffer.from(signature);
+
+  if (
+    expectedSignature.length !== receivedSignature.length ||
+    !timingSafeEqual(expectedSignature, receivedSignature)
+  ) {
+    return null;
+  }
+
+  const claims = decodeSegment(payload);
+  if (!claims || claims.typ !== ACCESS_TOKEN_TYPE || claims.iss !== options.issuer || !claims.sub) {
+    return null;
+  }
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp <= now) {
+    return null;
+  }
+
+  return claims;
+}
+
+export function accessTokenClaimsToSession(claims: AccessTokenClaims): AppSessionContext {
+  return {
+    userId: claims.sub,
+    email: claims.email,
+    name: claims.name,
+    currentOrganizationId: claims.org,
+    currentOrganizationName: claims.orgName,
+    currentOrganizationRole: claims.role,
+    authenticated: true,
+    mfaVerified: claims.mfa === true || undefined,
+  };
+}
+
+export function parseAuthorizationHeader(
+  header?: string | string[],
+): AuthorizationCredentials | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.trim().match(/^(\S+)\s+(\S+)$/);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    scheme: match[1].toLowerCase(),
+    value: match[2],
+  };
+}
+
+function createSignature(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): AccessTokenClaims | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+    return decoded && typeof decoded === 'object' ? (decoded as AccessTokenClaims) : null;
+  } catch {
+    return null;
+  }
+}
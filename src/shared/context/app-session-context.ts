@@ -6,6 +6,19 @@ export interface AppSessionContext {
   currentOrganizationName?: string;
   currentOrganizationRole?: string;
   authenticated?: boolean;
+  mfaVerified?: boolean;
+  apiKeyId?: string;
+  apiKeyScopes?: string[];
+  /**
+   * Real user behind the session while a privileged user impersonates
+   * `userId`.
+   */
+  impersonatorId?: string;
+  /**
+   * Organization an impersonation was started in. The impersonated session
+   * cannot select any other.
+   */
+  impersonationOrganizationId?: string;
 }
 
 export interface AppCurrentUser {
@@ -19,3 +32,27 @@ export interface AppCurrentOrganization {
   name?: string;
   role?: string;
 }
+
+/**
+ * Password (or federated) login that still has to pass the second factor.
+ */
+export interface AppPendingMfaSession {
+  userId: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+/**
+ * Identity of the privileged user while impersonating someone else. Restored
+ * into the session when the impersonation ends.
+ */
+export interface AppImpersonationSession {
+  id: string;
+  impersonatorEmail?: string;
+  impersonatorName?: string;
+  currentOrganizationId?: string;
+  currentOrganizationName?: string;
+  currentOrganizationRole?: string;
+  mfaVerified?: boolean;
+  startedAt: number;
+}
@@ -9,6 +9,10 @@ import {
 
 type SupportedContextType = 'http' | 'ws';
 
+export const ORGANIZATION_ID_HEADER = 'x-organization-id';
+
+const ORGANIZATION_ID_PATTERN = /^\d{1,20}$/;
+
 function getContextType(context: ExecutionContext): SupportedContextType | undefined {
   const type = context.getType<SupportedContextType | 'rpc'>();
   if (type === 'http' || type === 'ws') {
@@ -24,8 +28,7 @@ export function getSessionFromContext(
   const type = getContextType(context);
 
   if (type === 'http') {
-    const request = context.switchToHttp().getRequest<FastifyRequest>();
-    return request.session;
+    return getSessionFromRequest(context.switchToHttp().getRequest<FastifyRequest>());
   }
 
   if (type === 'ws') {
@@ -36,6 +39,16 @@ export function getSessionFromContext(
   return undefined;
 }
 
+export function getSessionFromRequest(
+  request: FastifyRequest,
+): AppSessionContext | undefined {
+  return request.organizationSession ?? request.credentialSession ?? request.session;
+}
+
+export function isCredentialAuthenticatedRequest(request: FastifyRequest): boolean {
+  return request.credentialSession !== undefined;
+}
+
 export function ensureSessionOnContext(context: ExecutionContext): AppSessionContext {
   const existingSession = getSessionFromContext(context);
   if (existingSession) {
@@ -55,7 +68,10 @@ export function setSessionOnContext(
 
   if (type === 'http') {
     const request = context.switchToHttp().getRequest<FastifyRequest>();
-    Object.assign(request.session, session);
+    Object.assign(
+      request.organizationSession ?? request.credentialSession ?? request.session,
+      session,
+    );
     return;
   }
 
@@ -65,6 +81,27 @@ export function setSessionOnContext(
   }
 }
 
+/**
+ * Reads an organization selected for a single request, from the
+ * `X-Organization-Id` header or the `organizationId` WS handshake auth field.
+ * Returns undefined when none was sent and null when the value is not an id.
+ */
+export function parseRequestedOrganizationId(value: unknown): string | null | undefined {
+  const rawValue = Array.isArray(value) ? (value[0] as unknown) : value;
+
+  if (rawValue === undefined || rawValue === null || rawValue === '') {
+    return undefined;
+  }
+
+  if (typeof rawValue !== 'string') {
+    return null;
+  }
+
+  const organizationId = rawValue.trim();
+
+  return ORGANIZATION_ID_PATTERN.test(organizationId) ? organizationId : null;
+}
+
 export function getFrontendHostFromContext(
   context: ExecutionContext,
 ): string | undefined {
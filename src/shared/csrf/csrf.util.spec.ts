@@ -0,0 +1,38 @@
+import {
+  generateCsrfToken,
+  isCsrfSafeMethod,
+  isValidCsrfToken,
+} from './csrf.util';
+
+describe('csrf.util', () => {
+  it('generates unguessable url-safe tokens', () => {
+    const token = generateCsrfToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateCsrfToken()).not.toEqual(token);
+  });
+
+  it('only treats read methods as safe', () => {
+    expect(isCsrfSafeMethod('GET')).toBe(true);
+    expect(isCsrfSafeMethod('head')).toBe(true);
+    expect(isCsrfSafeMethod('OPTIONS')).toBe(true);
+    expect(isCsrfSafeMethod('POST')).toBe(false);
+    expect(isCsrfSafeMethod('DELETE')).toBe(false);
+  });
+
+  it('matches the session token exactly', () => {
+    const token = generateCsrfToken();
+
+    expect(isValidCsrfToken(token, token)).toBe(true);
+    expect(isValidCsrfToken(token, [token, 'other'])).toBe(true);
+    expect(isValidCsrfToken(token, `${token}x`)).toBe(false);
+    expect(isValidCsrfToken(token, generateCsrfToken())).toBe(false);
+  });
+
+  it('rejects missing tokens', () => {
+    expect(isValidCsrfToken(undefined, undefined)).toBe(false);
+    expect(isValidCsrfToken(undefined, '')).toBe(false);
+    expect(isValidCsrfToken('token', undefined)).toBe(false);
+    expect(isValidCsrfToken('token', [])).toBe(false);
+  });
+});
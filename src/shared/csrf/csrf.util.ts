@@ -0,0 +1,33 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+export const CSRF_HEADER_NAME = 'x-csrf-token';
+
+const CSRF_SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export function generateCsrfToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function isCsrfSafeMethod(method: string): boolean {
+  return CSRF_SAFE_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Compares the token sent by the client with the one stored in the session
+ * in constant time. Missing tokens on either side never match.
+ */
+export function isValidCsrfToken(
+  sessionToken: string | undefined,
+  headerValue: string | string[] | undefined,
+): boolean {
+  const presentedToken = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+
+  if (!sessionToken || !presentedToken) {
+    return false;
+  }
+
+  const expected = Buffer.from(sessionToken);
+  const presented = Buffer.from(presentedToken);
+
+  return expected.length === presented.length && timingSafeEqual(expected, presented);
+}
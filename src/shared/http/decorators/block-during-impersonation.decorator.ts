@@ -0,0 +1,4 @@
+import { UseGuards } from '@nestjs/common';
+import { ImpersonationGuard } from '@/shared/http/guards/impersonation.guard';
+
+export const BlockDuringImpersonation = () => UseGuards(ImpersonationGuard);
@@ -0,0 +1,27 @@
+import {
+  applyDecorators,
+  SetMetadata,
+  UseGuards,
+  type Type,
+} from '@nestjs/common';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import {
+  type AbilityPolicyHandler,
+  type AbilitySubjectResolver,
+  CHECK_ABILITY_KEY,
+  PoliciesGuard,
+} from '@/shared/http/guards/policies.guard';
+
+/**
+ * Allows the request when `handler` returns true for the ability of the
+ * session and, with `subjectResolver`, the resource it loads. Tag resources
+ * with CASL's `subject()` so the permission conditions apply to them.
+ */
+export const CheckAbility = <TSubject = undefined>(
+  handler: AbilityPolicyHandler<TSubject>,
+  subjectResolver?: Type<AbilitySubjectResolver<TSubject>>,
+) =>
+  applyDecorators(
+    UseGuards(CurrentOrganizationGuard, PoliciesGuard),
+    SetMetadata(CHECK_ABILITY_KEY, { handler, subjectResolver }),
+  );
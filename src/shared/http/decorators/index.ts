@@ -1,7 +1,14 @@
 export * from './api-doc.decorator';
+export * from './block-during-impersonation.decorator';
 export * from './cache-key.decorator';
+export * from './check-ability.decorator';
 export * from './current-organization.decorator';
 export * from './current-user.decorator';
 export * from './public.decorator';
+export * from './rate-limit.decorator';
+export * from './require-entitlement.decorator';
+export * from './require-interactive-session.decorator';
 export * from './require-organization-permissions.decorator';
 export * from './require-permissions.decorator';
+export * from './require-platform-admin.decorator';
+export * from './skip-csrf.decorator';
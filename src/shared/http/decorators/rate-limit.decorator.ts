@@ -0,0 +1,25 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { RateLimitGuard } from '@/shared/http/guards/rate-limit.guard';
+
+export const RATE_LIMIT_METADATA = 'rate_limit';
+
+/**
+ * Request attributes a limit can be keyed by. `email` is read from the
+ * request body and normalized; requests without it skip that bucket.
+ */
+export type RateLimitKey = 'ip' | 'email';
+
+export interface RateLimitOptions {
+  /** Bucket namespace shared by every route using the same name. */
+  name: string;
+  windowSeconds: number;
+  /** Maximum requests per window for each key. */
+  limits: Partial<Record<RateLimitKey, number>>;
+  maxBlockSeconds?: number;
+}
+
+export const RateLimit = (options: RateLimitOptions) =>
+  applyDecorators(
+    SetMetadata(RATE_LIMIT_METADATA, options),
+    UseGuards(RateLimitGuard),
+  );
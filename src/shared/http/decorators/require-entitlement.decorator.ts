@@ -0,0 +1,13 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import type { EntitlementFeatureCode } from '@/modules/plans/application/constants/plan.constants';
+import { CurrentOrganizationGuard } from '@/shared/http/guards/current-organization.guard';
+import {
+  EntitlementsGuard,
+  REQUIRED_ENTITLEMENTS_KEY,
+} from '@/shared/http/guards/entitlements.guard';
+
+export const RequireEntitlement = (...featureCodes: EntitlementFeatureCode[]) =>
+  applyDecorators(
+    UseGuards(CurrentOrganizationGuard, EntitlementsGuard),
+    SetMetadata(REQUIRED_ENTITLEMENTS_KEY, featureCodes),
+  );
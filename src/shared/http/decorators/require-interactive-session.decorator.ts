@@ -0,0 +1,4 @@
+import { UseGuards } from '@nestjs/common';
+import { InteractiveSessionGuard } from '@/shared/http/guards/interactive-session.guard';
+
+export const RequireInteractiveSession = () => UseGuards(InteractiveSessionGuard);
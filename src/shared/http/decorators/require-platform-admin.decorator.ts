@@ -0,0 +1,4 @@
+import { UseGuards } from '@nestjs/common';
+import { PlatformAdminGuard } from '@/shared/http/guards/platform-admin.guard';
+
+export const RequirePlatformAdmin = () => UseGuards(PlatformAdminGuard);
@@ -6,6 +6,7 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { FastifyReply } from 'fastify';
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception';
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
@@ -34,6 +35,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
       message = exception.message;
     }
 
+    if (exception instanceof TooManyRequestsException) {
+      response.header('Retry-After', String(exception.retryAfterSeconds));
+    }
+
     response.status(status).send({
       success: false,
       message,
@@ -0,0 +1,63 @@
+import { UnauthorizedException, type ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { FastifyRequest } from 'fastify';
+import type { ApiKeyAuthService } from '@/modules/api-keys/application/services/api-key-auth.service';
+import type { AccessTokenService } from '@/shared/access-token/access-token.service';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import type { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
+import { Public } from '../decorators';
+import { AuthGuard } from './auth.guard';
+
+class TestController {
+  @Public()
+  publicRoute() {}
+
+  protectedRoute() {}
+}
+
+function createContext(handler: () => void, session: AppSessionContext): ExecutionContext {
+  const request = { headers: {}, session } as unknown as FastifyRequest;
+
+  return {
+    getType: () => 'http',
+    getHandler: () => handler,
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('AuthGuard', () => {
+  const sessionRegistryService = { track: jest.fn(() => Promise.resolve()) };
+  const guard = new AuthGuard(
+    new Reflector(),
+    {} as AccessTokenService,
+    {} as ApiKeyAuthService,
+    sessionRegistryService as unknown as SessionRegistryService,
+  );
+  const controller = new TestController();
+
+  beforeEach(() => {
+    sessionRegistryService.track.mockClear();
+  });
+
+  it('tracks the session once the request is authenticated', async () => {
+    await expect(
+      guard.canActivate(createContext(controller.protectedRoute, { authenticated: true, userId: '1' })),
+    ).resolves.toBe(true);
+    expect(sessionRegistryService.track).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not track sessions rejected by the guard', async () => {
+    await expect(
+      guard.canActivate(createContext(controller.protectedRoute, {})),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(sessionRegistryService.track).not.toHaveBeenCalled();
+  });
+
+  it('does not track sessions on public routes', async () => {
+    await expect(
+      guard.canActivate(createContext(controller.publicRoute, { authenticated: true, userId: '1' })),
+    ).resolves.toBe(true);
+    expect(sessionRegistryService.track).not.toHaveBeenCalled();
+  });
+});
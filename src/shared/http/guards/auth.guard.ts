@@ -6,14 +6,27 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { WsException } from '@nestjs/websockets';
+import type { FastifyRequest } from 'fastify';
+import { API_KEY_INVALID_MESSAGE } from '@/modules/api-keys/application/constants/api-keys.constants';
+import { ApiKeyAuthService } from '@/modules/api-keys/application/services/api-key-auth.service';
+import { AccessTokenService } from '@/shared/access-token/access-token.service';
+import { parseAuthorizationHeader } from '@/shared/access-token/access-token.util';
 import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+import { SessionRegistryService } from '@/shared/session-registry/session-registry.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 
 @Injectable()
 export class AuthGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private readonly accessTokenService: AccessTokenService,
+    private readonly apiKeyAuthService: ApiKeyAuthService,
+    private readonly sessionRegistryService: SessionRegistryService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const credentialsError = await this.resolveCredentialSession(context);
 
-  canActivate(context: ExecutionContext): boolean {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -23,6 +36,10 @@ export class AuthGuard implements CanActivate {
       return true;
     }
 
+    if (credentialsError) {
+      throw new UnauthorizedException(credentialsError);
+    }
+
     const session = getSessionFromContext(context);
 
     if (!session?.authenticated || !session?.userId) {
@@ -33,6 +50,46 @@ export class AuthGuard implements CanActivate {
       throw new UnauthorizedException('User not authenticated');
     }
 
+    // Only authenticated requests refresh the session index; public routes
+    // that log in record the new session themselves.
+    if (context.getType<'http' | 'ws'>() === 'http') {
+      await this.sessionRegistryService.track(context.switchToHttp().getRequest<FastifyRequest>());
+    }
+
     return true;
   }
+
+  /**
+   * Resolves `Authorization: Bearer` and `Authorization: ApiKey` credentials
+   * into the request session. Returns an error message when credentials were
+   * sent but could not be validated.
+   */
+  private async resolveCredentialSession(context: ExecutionContext): Promise<string | undefined> {
+    if (context.getType<'http' | 'ws'>() !== 'http') {
+      return undefined;
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    if (request.credentialSession) {
+      return undefined;
+    }
+
+    const credentials = parseAuthorizationHeader(request.headers.authorization);
+
+    if (credentials?.scheme === 'bearer') {
+      const session = this.accessTokenService.resolveSession(credentials.value);
+      request.credentialSession = session ?? {};
+
+      return session ? undefined : 'Invalid or expired access token';
+    }
+
+    if (credentials?.scheme === 'apikey') {
+      const session = await this.apiKeyAuthService.authenticate(credentials.value);
+      request.credentialSession = session ?? {};
+
+      return session ? undefined : API_KEY_INVALID_MESSAGE;
+    }
+
+    return undefined;
+  }
 }
@@ -0,0 +1,62 @@
+import { ForbiddenException, type ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { FastifyRequest } from 'fastify';
+import { CSRF_HEADER_NAME } from '@/shared/csrf/csrf.util';
+import { Public, SkipCsrf } from '../decorators';
+import { CsrfGuard } from './csrf.guard';
+
+class TestController {
+  @Public()
+  publicRoute() {}
+
+  @SkipCsrf()
+  skippedRoute() {}
+
+  protectedRoute() {}
+}
+
+function createContext(
+  handler: () => void,
+  request: Partial<FastifyRequest>,
+): ExecutionContext {
+  return {
+    getType: () => 'http',
+    getHandler: () => handler,
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function createRequest(headers: Record<string, string> = {}): Partial<FastifyRequest> {
+  return {
+    method: 'POST',
+    headers,
+    session: { authenticated: true, csrfToken: 'token' },
+  } as unknown as Partial<FastifyRequest>;
+}
+
+describe('CsrfGuard', () => {
+  const guard = new CsrfGuard(new Reflector());
+  const controller = new TestController();
+
+  it('requires the token on public routes reached with an authenticated session', () => {
+    expect(() =>
+      guard.canActivate(createContext(controller.publicRoute, createRequest())),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('accepts the session token on public routes', () => {
+    expect(
+      guard.canActivate(
+        createContext(controller.publicRoute, createRequest({ [CSRF_HEADER_NAME]: 'token' })),
+      ),
+    ).toBe(true);
+  });
+
+  it('exempts only routes marked with @SkipCsrf', () => {
+    expect(guard.canActivate(createContext(controller.skippedRoute, createRequest()))).toBe(true);
+    expect(() =>
+      guard.canActivate(createContext(controller.protectedRoute, createRequest())),
+    ).toThrow(ForbiddenException);
+  });
+});
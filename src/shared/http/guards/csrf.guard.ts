@@ -0,0 +1,59 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { FastifyRequest } from 'fastify';
+import { envConfig } from '@/config/env.config';
+import { isCredentialAuthenticatedRequest } from '@/shared/context/execution-context-session.util';
+import { CSRF_HEADER_NAME, isCsrfSafeMethod, isValidCsrfToken } from '@/shared/csrf/csrf.util';
+import { SKIP_CSRF_KEY } from '../decorators/skip-csrf.decorator';
+
+const CSRF_TOKEN_INVALID_MESSAGE = 'Invalid or missing CSRF token';
+
+/**
+ * Requires the session CSRF token in the `X-CSRF-Token` header on state
+ * changing requests made with the session cookie. Requests authenticated with
+ * `Authorization` credentials are exempt, since browsers never attach those
+ * on their own. Runs after `AuthGuard`, which resolves those credentials.
+ *
+ * `@Public` routes are checked too: a cookie session can still reach them.
+ * Only handlers marked with `@SkipCsrf` are exempt.
+ */
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!envConfig.csrf.enabled || context.getType<'http' | 'ws'>() !== 'http') {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+
+    if (
+      isCsrfSafeMethod(request.method) ||
+      isCredentialAuthenticatedRequest(request) ||
+      !request.session?.authenticated
+    ) {
+      return true;
+    }
+
+    const isExempt = this.reflector.getAllAndOverride<boolean>(SKIP_CSRF_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (isExempt) {
+      return true;
+    }
+
+    if (!isValidCsrfToken(request.session.csrfToken, request.headers[CSRF_HEADER_NAME])) {
+      throw new ForbiddenException(CSRF_TOKEN_INVALID_MESSAGE);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,106 @@
+import { ForbiddenException, type ExecutionContext } from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
+import { CurrentOrganizationGuard } from './current-organization.guard';
+
+function createRequest(
+  session: AppSessionContext,
+  headers: Record<string, string> = {},
+): FastifyRequest {
+  return {
+    headers,
+    session: { ...session, save: jest.fn().mockResolvedValue(undefined) },
+  } as unknown as FastifyRequest;
+}
+
+function createContext(request: FastifyRequest): ExecutionContext {
+  return {
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('CurrentOrganizationGuard', () => {
+  const findAccessibleByIdForUser = jest.fn((organizationId: string) =>
+    Promise.resolve({
+      organization: new Organization({ id: organizationId, name: `Org ${organizationId}`, requireMfa: false }),
+      role: 'member',
+    }),
+  );
+  const guard = new CurrentOrganizationGuard(
+    { findAccessibleByIdForUser } as unknown as IOrganizationRepository,
+    new SessionStorageService(),
+  );
+
+  beforeEach(() => {
+    findAccessibleByIdForUser.mockClear();
+  });
+
+  describe('while impersonating', () => {
+    const session: AppSessionContext = {
+      authenticated: true,
+      userId: '20',
+      currentOrganizationId: '100',
+      impersonatorId: '10',
+      impersonationOrganizationId: '100',
+    };
+
+    it('allows the organization the impersonation was started in', async () => {
+      const request = createRequest(session);
+
+      await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+      expect(findAccessibleByIdForUser).toHaveBeenCalledWith('100', '20');
+    });
+
+    it('rejects another organization selected through X-Organization-Id', async () => {
+      const request = createRequest(session, { 'x-organization-id': '200' });
+
+      await expect(guard.canActivate(createContext(request))).rejects.toThrow(ForbiddenException);
+      expect(findAccessibleByIdForUser).not.toHaveBeenCalled();
+      expect(request.organizationSession).toBeUndefined();
+    });
+
+    it('rejects a session whose selection moved away from the impersonated organization', async () => {
+      const request = createRequest({ ...session, currentOrganizationId: '200' });
+
+      await expect(guard.canActivate(createContext(request))).rejects.toThrow(ForbiddenException);
+    });
+
+    it('rejects sessions without a recorded impersonation organization', async () => {
+      const request = createRequest({ ...session, impersonationOrganizationId: undefined });
+
+      await expect(guard.canActivate(createContext(request))).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('in an organization that requires MFA', () => {
+    const session: AppSessionContext = {
+      authenticated: true,
+      userId: '20',
+      currentOrganizationId: '100',
+      apiKeyId: '9',
+    };
+
+    beforeEach(() => {
+      findAccessibleByIdForUser.mockResolvedValueOnce({
+        organization: new Organization({ id: '100', name: 'Org 100', requireMfa: true }),
+        role: 'member',
+      });
+    });
+
+    it('rejects API keys created without MFA', async () => {
+      const request = createRequest({ ...session, mfaVerified: false });
+
+      await expect(guard.canActivate(createContext(request))).rejects.toThrow(ForbiddenException);
+    });
+
+    it('allows API keys created from a session that passed MFA', async () => {
+      const request = createRequest({ ...session, mfaVerified: true });
+
+      await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+    });
+  });
+});
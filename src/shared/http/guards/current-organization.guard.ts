@@ -1,19 +1,41 @@
 import {
+  BadRequestException,
   CanActivate,
   ConflictException,
   ExecutionContext,
+  ForbiddenException,
   Inject,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
 import { WsException } from '@nestjs/websockets';
+import type { FastifyRequest } from 'fastify';
+import { IMPERSONATION_ORGANIZATION_LOCKED_MESSAGE } from '@/modules/auth/application/constants/impersonation.constants';
+import { MFA_ORGANIZATION_REQUIRED_MESSAGE } from '@/modules/auth/application/constants/mfa.constants';
 import { type IOrganizationRepository, ORGANIZATION_REPOSITORY } from '@/modules/organizations/domain/repositories/organization.repository.interface';
 import {
   getSessionFromContext,
+  getSessionFromRequest,
+  isCredentialAuthenticatedRequest,
+  ORGANIZATION_ID_HEADER,
+  parseRequestedOrganizationId,
   setSessionOnContext,
 } from '@/shared/context/execution-context-session.util';
 import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
 
+interface CurrentOrganizationSessionData {
+  currentOrganizationId?: string;
+  currentOrganizationName?: string;
+  currentOrganizationRole?: string;
+}
+
+/**
+ * Resolves the organization of the request and checks that the user can
+ * still access it. HTTP clients may pick one per request with the
+ * `X-Organization-Id` header; otherwise the session selection is used and
+ * kept in sync. An impersonated session is limited to the organization the
+ * impersonation was started in.
+ */
 @Injectable()
 export class CurrentOrganizationGuard implements CanActivate {
   constructor(
@@ -29,41 +51,99 @@ export class CurrentOrganizationGuard implements CanActivate {
       this.throwUnauthorized(context);
     }
 
-    if (!session.currentOrganizationId) {
+    const requestedOrganizationId = this.getRequestedOrganizationId(context);
+
+    // An API key bound to an organization cannot be pointed at another one.
+    if (
+      requestedOrganizationId &&
+      session.apiKeyId &&
+      session.currentOrganizationId &&
+      session.currentOrganizationId !== requestedOrganizationId
+    ) {
+      this.throwForbidden(context, 'This API key is bound to another organization');
+    }
+
+    const organizationId = requestedOrganizationId ?? session.currentOrganizationId;
+
+    // An impersonation stays in the organization it was started in.
+    if (session.impersonatorId && organizationId !== session.impersonationOrganizationId) {
+      this.throwForbidden(context, IMPERSONATION_ORGANIZATION_LOCKED_MESSAGE);
+    }
+
+    if (!organizationId) {
       this.throwConflict(context, 'Current organization is not selected');
     }
 
     const access = await this.organizationRepository.findAccessibleByIdForUser(
-      session.currentOrganizationId,
+      organizationId,
       session.userId,
     );
 
     if (!access) {
-      await this.syncCurrentOrganizationSession(context, {
-        currentOrganizationId: undefined,
-        currentOrganizationName: undefined,
-        currentOrganizationRole: undefined,
-      });
+      // A header selection only lasts for the request, so the session keeps its own.
+      if (!requestedOrganizationId) {
+        await this.syncCurrentOrganizationSession(context, {
+          currentOrganizationId: undefined,
+          currentOrganizationName: undefined,
+          currentOrganizationRole: undefined,
+        });
+      }
 
       this.throwConflict(context, 'Current organization is not accessible');
     }
 
-    await this.syncCurrentOrganizationSession(context, {
+    // API key sessions carry the MFA state of the session that created the key.
+    if (access.organization.requireMfa && !session.mfaVerified) {
+      this.throwForbidden(context, MFA_ORGANIZATION_REQUIRED_MESSAGE);
+    }
+
+    const data: CurrentOrganizationSessionData = {
       currentOrganizationId: access.organization.id,
       currentOrganizationName: access.organization.name,
       currentOrganizationRole: access.role,
-    });
+    };
+
+    if (requestedOrganizationId) {
+      this.applyRequestedOrganization(context, data);
+    } else {
+      await this.syncCurrentOrganizationSession(context, data);
+    }
 
     return true;
   }
 
+  private getRequestedOrganizationId(context: ExecutionContext): string | undefined {
+    if (context.getType<'http' | 'ws'>() !== 'http') {
+      return undefined;
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const organizationId = parseRequestedOrganizationId(request.headers[ORGANIZATION_ID_HEADER]);
+
+    if (organizationId === null) {
+      throw new BadRequestException('X-Organization-Id must be a valid organization id');
+    }
+
+    return organizationId;
+  }
+
+  private applyRequestedOrganization(
+    context: ExecutionContext,
+    data: CurrentOrganizationSessionData,
+  ): void {
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+
+    request.organizationSession = {
+      ...getSessionFromRequest(request),
+      ...data,
+    };
+
+    this.sessionStorageService.updateStorageData(data);
+  }
+
   private async syncCurrentOrganizationSession(
     context: ExecutionContext,
-    data: {
-      currentOrganizationId?: string;
-      currentOrganizationName?: string;
-      currentOrganizationRole?: string;
-    },
+    data: CurrentOrganizationSessionData,
   ): Promise<void> {
     const session = getSessionFromContext(context);
 
@@ -94,9 +174,9 @@ export class CurrentOrganizationGuard implements CanActivate {
     });
 
     if (context.getType<'http' | 'ws'>() === 'http') {
-      const request = context.switchToHttp().getRequest();
+      const request = context.switchToHttp().getRequest<FastifyRequest>();
 
-      if (typeof request.session?.save === 'function') {
+      if (!isCredentialAuthenticatedRequest(request) && typeof request.session?.save === 'function') {
         await request.session.save();
       }
     }
@@ -110,6 +190,14 @@ export class CurrentOrganizationGuard implements CanActivate {
     throw new UnauthorizedException('User not authenticated');
   }
 
+  private throwForbidden(context: ExecutionContext, message: string): never {
+    if (context.getType<'http' | 'ws'>() === 'ws') {
+      throw new WsException(message);
+    }
+
+    throw new ForbiddenException(message);
+  }
+
   private throwConflict(context: ExecutionContext, message: string): never {
     if (context.getType<'http' | 'ws'>() === 'ws') {
       throw new WsException(message);
@@ -0,0 +1,68 @@
+import {
+  CanActivate,
+  ConflictException,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import {
+  ENTITLEMENT_FEATURE_UNAVAILABLE_MESSAGE,
+  type EntitlementFeatureCode,
+} from '@/modules/plans/application/constants/plan.constants';
+import { EntitlementsService } from '@/modules/plans/application/services/entitlements.service';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+
+export const REQUIRED_ENTITLEMENTS_KEY = 'required_entitlements';
+
+/**
+ * Checks the plan of the current organization against the features set with
+ * `@RequireEntitlement()`. Runs after `CurrentOrganizationGuard`.
+ */
+@Injectable()
+export class EntitlementsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredFeatures = this.reflector.getAllAndOverride<
+      EntitlementFeatureCode[] | undefined
+    >(REQUIRED_ENTITLEMENTS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredFeatures || requiredFeatures.length === 0) {
+      return true;
+    }
+
+    const organizationId = getSessionFromContext(context)?.currentOrganizationId;
+    const isWs = context.getType<'http' | 'ws'>() === 'ws';
+
+    if (!organizationId) {
+      if (isWs) {
+        throw new WsException('Current organization is not selected');
+      }
+
+      throw new ConflictException('Current organization is not selected');
+    }
+
+    const isAllowed = await this.entitlementsService.hasFeatures(
+      organizationId,
+      requiredFeatures,
+    );
+
+    if (!isAllowed) {
+      if (isWs) {
+        throw new WsException(ENTITLEMENT_FEATURE_UNAVAILABLE_MESSAGE);
+      }
+
+      throw new ForbiddenException(ENTITLEMENT_FEATURE_UNAVAILABLE_MESSAGE);
+    }
+
+    return true;
+  }
+}
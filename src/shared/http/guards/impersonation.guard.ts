@@ -0,0 +1,31 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+
+/**
+ * Rejects requests made while impersonating another user. Used on account
+ * security endpoints that only the account owner may reach.
+ */
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const session = getSessionFromContext(context);
+
+    if (session?.impersonatorId) {
+      const message = 'This endpoint is not available while impersonating a user';
+
+      if (context.getType<'http' | 'ws'>() === 'ws') {
+        throw new WsException(message);
+      }
+
+      throw new ForbiddenException(message);
+    }
+
+    return true;
+  }
+}
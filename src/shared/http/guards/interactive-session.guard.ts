@@ -0,0 +1,31 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+
+/**
+ * Rejects requests authenticated with an API key. Used on account security
+ * endpoints that must only be reachable from an interactive login.
+ */
+@Injectable()
+export class InteractiveSessionGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const session = getSessionFromContext(context);
+
+    if (session?.apiKeyId) {
+      const message = 'This endpoint is not available with API key authentication';
+
+      if (context.getType<'http' | 'ws'>() === 'ws') {
+        throw new WsException(message);
+      }
+
+      throw new ForbiddenException(message);
+    }
+
+    return true;
+  }
+}
@@ -11,6 +11,7 @@ import {
   type PermissionCode,
 } from '@/modules/permissions/application/constants/permissions.constants';
 import { PermissionsAbilityFactory } from '@/modules/permissions/application/services/permissions-ability.factory';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
 import { REQUIRED_PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
 
 @Injectable()
@@ -33,7 +34,9 @@ export class PermissionsGuard implements CanActivate {
     }
 
     const resolvedPermissions =
-      await this.permissionsAbilityFactory.buildCurrent();
+      await this.permissionsAbilityFactory.buildForSession(
+        getSessionFromContext(context),
+      );
 
     const isAllowed = requiredPermissions.every((permissionCode) => {
       const parsedPermission = parsePermissionCode(permissionCode);
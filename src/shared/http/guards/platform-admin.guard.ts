@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { envConfig } from '@/config/env.config';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+
+/**
+ * Restricts an endpoint to the operators listed in `PLATFORM_ADMIN_USER_IDS`.
+ * API keys and impersonated sessions are rejected even for those users.
+ */
+@Injectable()
+export class PlatformAdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const session = getSessionFromContext(context);
+    const isAllowed =
+      !!session?.userId &&
+      !session.apiKeyId &&
+      !session.impersonatorId &&
+      envConfig.platform.adminUserIds.includes(session.userId);
+
+    if (!isAllowed) {
+      const message = 'This endpoint is restricted to platform administrators';
+
+      if (context.getType<'http' | 'ws'>() === 'ws') {
+        throw new WsException(message);
+      }
+
+      throw new ForbiddenException(message);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  type Type,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { PermissionsAbilityFactory } from '@/modules/permissions/application/services/permissions-ability.factory';
+import type { AppAbility } from '@/modules/permissions/application/types/ability.types';
+import { getSessionFromContext } from '@/shared/context/execution-context-session.util';
+
+export const CHECK_ABILITY_KEY = 'check_ability';
+
+export type AbilityPolicyHandler<TSubject = undefined> = (
+  ability: AppAbility,
+  subject: TSubject,
+) => boolean;
+
+/**
+ * Loads the resource a policy is checked against, e.g. from the route params.
+ * Resolvers are providers of the module that declares the controller.
+ */
+export interface AbilitySubjectResolver<TSubject> {
+  resolve(context: ExecutionContext): Promise<TSubject> | TSubject;
+}
+
+export interface AbilityPolicy<TSubject = unknown> {
+  handler: AbilityPolicyHandler<TSubject>;
+  subjectResolver?: Type<AbilitySubjectResolver<TSubject>>;
+}
+
+/**
+ * Runs the policy set with `@CheckAbility()` against the ability of the
+ * session in its current organization. Runs after `CurrentOrganizationGuard`.
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+    private readonly permissionsAbilityFactory: PermissionsAbilityFactory,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policy = this.reflector.getAllAndOverride<AbilityPolicy | undefined>(
+      CHECK_ABILITY_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!policy) {
+      return true;
+    }
+
+    const { ability } = await this.permissionsAbilityFactory.buildForSession(
+      getSessionFromContext(context),
+    );
+    const subject = policy.subjectResolver
+      ? await this.moduleRef
+        .get(policy.subjectResolver, { strict: false })
+        .resolve(context)
+      : undefined;
+
+    if (!policy.handler(ability, subject)) {
+      if (context.getType<'http' | 'ws'>() === 'ws') {
+        throw new WsException(
+          'Insufficient permissions for the current organization',
+        );
+      }
+
+      throw new ForbiddenException(
+        'Insufficient permissions for the current organization',
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,67 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { FastifyRequest } from 'fastify';
+import { TooManyRequestsException } from '@/shared/http/exceptions/too-many-requests.exception';
+import { RateLimiterService, type RateLimitBucket } from '@/shared/rate-limit/rate-limiter.service';
+import { normalizeRateLimitEmail } from '@/shared/rate-limit/rate-limit.util';
+import {
+  RATE_LIMIT_METADATA,
+  type RateLimitKey,
+  type RateLimitOptions,
+} from '../decorators/rate-limit.decorator';
+
+export const RATE_LIMIT_EXCEEDED_MESSAGE = 'Too many requests. Please try again later.';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimiterService: RateLimiterService,
+  ) { }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions | undefined>(
+      RATE_LIMIT_METADATA,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!options || context.getType<'http' | 'ws'>() !== 'http') {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const buckets: RateLimitBucket[] = [];
+
+    for (const [kind, limit] of Object.entries(options.limits) as Array<[RateLimitKey, number]>) {
+      const value = resolveKeyValue(request, kind);
+
+      if (value) {
+        buckets.push({ kind, value, limit });
+      }
+    }
+
+    const retryAfterSeconds = await this.rateLimiterService.consume(
+      {
+        name: options.name,
+        windowSeconds: options.windowSeconds,
+        maxBlockSeconds: options.maxBlockSeconds,
+      },
+      buckets,
+    );
+
+    if (retryAfterSeconds !== null) {
+      throw new TooManyRequestsException(RATE_LIMIT_EXCEEDED_MESSAGE, retryAfterSeconds);
+    }
+
+    return true;
+  }
+}
+
+function resolveKeyValue(request: FastifyRequest, kind: RateLimitKey): string | undefined {
+  if (kind === 'ip') {
+    return request.ip;
+  }
+
+  const body = request.body as { email?: unknown } | undefined;
+  return normalizeRateLimitEmail(body?.email);
+}
@@ -0,0 +1,80 @@
+import { ConflictException, ForbiddenException, type ExecutionContext } from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { Organization } from '@/modules/organizations/domain/entities/organization.entity';
+import type { IOrganizationRepository } from '@/modules/organizations/domain/repositories/organization.repository.interface';
+import type { AppSessionContext } from '@/shared/context/app-session-context';
+import { getSessionFromRequest } from '@/shared/context/execution-context-session.util';
+import { SessionStorageService } from '@/shared/session-storage/session-storage.service';
+import { RequestedOrganizationGuard } from './requested-organization.guard';
+
+function createRequest(
+  session: AppSessionContext,
+  headers: Record<string, string> = {},
+): FastifyRequest {
+  return {
+    headers,
+    session: { ...session, save: jest.fn().mockResolvedValue(undefined) },
+  } as unknown as FastifyRequest;
+}
+
+function createContext(request: FastifyRequest): ExecutionContext {
+  return {
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('RequestedOrganizationGuard', () => {
+  const accessibleOrganizationIds = new Set(['100', '200']);
+  const findAccessibleByIdForUser = jest.fn((organizationId: string) =>
+    Promise.resolve(
+      accessibleOrganizationIds.has(organizationId)
+        ? {
+          organization: new Organization({ id: organizationId, name: `Org ${organizationId}`, requireMfa: false }),
+          role: 'member',
+        }
+        : null,
+    ),
+  );
+  const guard = new RequestedOrganizationGuard(
+    { findAccessibleByIdForUser } as unknown as IOrganizationRepository,
+    new SessionStorageService(),
+  );
+  const session: AppSessionContext = {
+    authenticated: true,
+    userId: '1',
+    currentOrganizationId: '100',
+  };
+
+  beforeEach(() => {
+    findAccessibleByIdForUser.mockClear();
+  });
+
+  it('leaves requests without the header alone, even with nothing selected', async () => {
+    const request = createRequest({ ...session, currentOrganizationId: undefined });
+
+    await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+    expect(findAccessibleByIdForUser).not.toHaveBeenCalled();
+    expect(request.organizationSession).toBeUndefined();
+  });
+
+  it('makes the header selection visible through the request session', async () => {
+    const request = createRequest(session, { 'x-organization-id': '200' });
+
+    await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+    expect(getSessionFromRequest(request)?.currentOrganizationId).toBe('200');
+    expect(request.session.currentOrganizationId).toBe('100');
+  });
+
+  it('rejects organizations the user cannot access', async () => {
+    const request = createRequest(session, { 'x-organization-id': '300' });
+
+    await expect(guard.canActivate(createContext(request))).rejects.toThrow(ConflictException);
+  });
+
+  it('keeps API keys bound to their organization', async () => {
+    const request = createRequest({ ...session, apiKeyId: '9' }, { 'x-organization-id': '200' });
+
+    await expect(guard.canActivate(createContext(request))).rejects.toThrow(ForbiddenException);
+  });
+});
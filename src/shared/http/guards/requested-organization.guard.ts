@@ -0,0 +1,27 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { ORGANIZATION_ID_HEADER } from '@/shared/context/execution-context-session.util';
+import { CurrentOrganizationGuard } from './current-organization.guard';
+
+/**
+ * For routes that also work without a current organization. Only runs the
+ * `CurrentOrganizationGuard` checks when the request picks an organization
+ * with `X-Organization-Id`, so `getSessionFromRequest` returns that choice;
+ * without the header the route sees the session selection as is.
+ */
+@Injectable()
+export class RequestedOrganizationGuard extends CurrentOrganizationGuard {
+  override async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType<'http' | 'ws'>() !== 'http') {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+
+    if (request.headers[ORGANIZATION_ID_HEADER] === undefined) {
+      return true;
+    }
+
+    return super.canActivate(context);
+  }
+}
@@ -0,0 +1,25 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019120000_create_refresh_tokens_table',
+  description: 'create refresh tokens table',
+  up: [
+    `create table refresh_tokens (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      family_id bigint not null,
+      token_hash varchar(255) not null unique,
+      current_organization_id bigint null references organizations(id) on delete set null,
+      expires_at timestamp not null,
+      revoked_at timestamp null,
+      replaced_by_id bigint null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_refresh_tokens_user_id" on refresh_tokens (user_id);',
+    'create index "IDX_refresh_tokens_family_id" on refresh_tokens (family_id);',
+    'create index "IDX_refresh_tokens_expires_at" on refresh_tokens (expires_at);',
+  ],
+  down: [
+    'drop table if exists refresh_tokens;',
+  ],
+});
@@ -0,0 +1,26 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019121000_create_api_keys_table',
+  description: 'create api keys table',
+  up: [
+    `create table api_keys (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      organization_id bigint null references organizations(id) on delete cascade,
+      name varchar(120) not null,
+      token_prefix varchar(32) not null,
+      token_hash varchar(255) not null unique,
+      scopes text[] null,
+      expires_at timestamp null,
+      last_used_at timestamp null,
+      revoked_at timestamp null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_api_keys_user_id" on api_keys (user_id);',
+    'create index "IDX_api_keys_organization_id" on api_keys (organization_id);',
+  ],
+  down: [
+    'drop table if exists api_keys;',
+  ],
+});
@@ -0,0 +1,35 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019122000_create_mfa_tables',
+  description: 'create totp factors and recovery codes tables and organization mfa policy',
+  up: [
+    `create table user_totp_factors (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      encrypted_secret text not null,
+      confirmed_at timestamp null,
+      last_used_step integer null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    'create unique index "UQ_user_totp_factors_user_id" on user_totp_factors (user_id);',
+    `create table user_recovery_codes (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      code_hash varchar(255) not null,
+      used_at timestamp null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_user_recovery_codes_user_id" on user_recovery_codes (user_id);',
+    'create unique index "UQ_user_recovery_codes_user_id_code_hash" on user_recovery_codes (user_id, code_hash);',
+    'alter table organizations add column require_mfa boolean not null default false;',
+    'alter table refresh_tokens add column mfa_verified boolean not null default false;',
+  ],
+  down: [
+    'alter table refresh_tokens drop column if exists mfa_verified;',
+    'alter table organizations drop column if exists require_mfa;',
+    'drop table if exists user_recovery_codes;',
+    'drop table if exists user_totp_factors;',
+  ],
+});
@@ -0,0 +1,28 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019123000_create_webauthn_credentials',
+  description: 'create webauthn credentials table for passkeys',
+  up: [
+    `create table webauthn_credentials (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      credential_id varchar(1024) not null,
+      public_key text not null,
+      sign_count bigint not null default 0,
+      name varchar(255) not null,
+      transports text[] null,
+      aaguid varchar(36) null,
+      backup_eligible boolean not null default false,
+      backed_up boolean not null default false,
+      last_used_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    'create unique index "UQ_webauthn_credentials_credential_id" on webauthn_credentials (credential_id);',
+    'create index "IDX_webauthn_credentials_user_id" on webauthn_credentials (user_id);',
+  ],
+  down: [
+    'drop table if exists webauthn_credentials;',
+  ],
+});
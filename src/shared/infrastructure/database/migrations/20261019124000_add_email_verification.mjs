@@ -0,0 +1,23 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019124000_add_email_verification',
+  description: 'add email verification to users and create email verification tokens table',
+  up: [
+    'alter table users add column email_verified_at timestamp null;',
+    'update users set email_verified_at = now() where email_verified_at is null;',
+    `create table email_verification_tokens (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      token_hash varchar(255) not null unique,
+      expires_at timestamp not null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_email_verification_tokens_user_id" on email_verification_tokens (user_id);',
+    'create index "IDX_email_verification_tokens_expires_at" on email_verification_tokens (expires_at);',
+  ],
+  down: [
+    'drop table if exists email_verification_tokens;',
+    'alter table users drop column if exists email_verified_at;',
+  ],
+});
@@ -0,0 +1,22 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019125000_create_magic_link_tokens_table',
+  description: 'create magic link tokens table',
+  up: [
+    `create table magic_link_tokens (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      token_hash varchar(255) not null unique,
+      nonce_hash varchar(255) not null,
+      expires_at timestamp not null,
+      consumed_at timestamp null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_magic_link_tokens_user_id" on magic_link_tokens (user_id);',
+    'create index "IDX_magic_link_tokens_expires_at" on magic_link_tokens (expires_at);',
+  ],
+  down: [
+    'drop table if exists magic_link_tokens;',
+  ],
+});
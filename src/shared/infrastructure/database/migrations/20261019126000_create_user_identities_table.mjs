@@ -0,0 +1,42 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019126000_create_user_identities_table',
+  description: 'create user identities table and move google ids into it',
+  up: [
+    `create table user_identities (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      provider varchar(64) not null,
+      subject varchar(255) not null,
+      email varchar(255) null,
+      last_login_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    'create unique index "UQ_user_identities_provider_subject" on user_identities (provider, subject);',
+    'create index "IDX_user_identities_user_id" on user_identities (user_id);',
+    `insert into user_identities (id, user_id, provider, subject, email)
+     select id, id, 'google', google_id, email
+     from users
+     where google_id is not null;`,
+    'drop index if exists "IDX_users_google_id";',
+    'drop index if exists "UQ_users_google_id";',
+    'alter table users drop column if exists google_id;',
+  ],
+  down: [
+    'alter table users add column google_id varchar(255) null;',
+    `update users u
+     set google_id = ui.subject
+     from (
+       select distinct on (user_id) user_id, subject
+       from user_identities
+       where provider = 'google'
+       order by user_id, created_at
+     ) ui
+     where ui.user_id = u.id;`,
+    'create unique index "UQ_users_google_id" on users (google_id);',
+    'create index "IDX_users_google_id" on users (google_id);',
+    'drop table if exists user_identities;',
+  ],
+});
@@ -0,0 +1,18 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019127000_create_password_history_table',
+  description: 'create password history table',
+  up: [
+    `create table password_history (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      password_hash varchar(255) not null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_password_history_user_id_created_at" on password_history (user_id, created_at);',
+  ],
+  down: [
+    'drop table if exists password_history;',
+  ],
+});
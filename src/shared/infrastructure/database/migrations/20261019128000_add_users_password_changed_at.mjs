@@ -0,0 +1,13 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019128000_add_users_password_changed_at',
+  description: 'add password changed at to users',
+  up: [
+    'alter table users add column password_changed_at timestamp null;',
+    'update users set password_changed_at = updated_at where password is not null;',
+  ],
+  down: [
+    'alter table users drop column if exists password_changed_at;',
+  ],
+});
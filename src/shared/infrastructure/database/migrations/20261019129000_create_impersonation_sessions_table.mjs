@@ -0,0 +1,35 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019129000_create_impersonation_sessions_table',
+  description: 'create impersonation sessions and actions audit tables',
+  up: [
+    `create table impersonation_sessions (
+      id bigint primary key,
+      impersonator_id bigint null references users(id) on delete set null,
+      target_user_id bigint null references users(id) on delete set null,
+      organization_id bigint null references organizations(id) on delete set null,
+      reason varchar(500) not null,
+      ip varchar(64) null,
+      user_agent varchar(500) null,
+      started_at timestamp not null default now(),
+      ended_at timestamp null,
+      end_reason varchar(32) null
+    );`,
+    'create index "IDX_impersonation_sessions_impersonator_id" on impersonation_sessions (impersonator_id);',
+    'create index "IDX_impersonation_sessions_target_user_id" on impersonation_sessions (target_user_id);',
+    `create table impersonation_actions (
+      id bigint primary key,
+      impersonation_session_id bigint not null references impersonation_sessions(id) on delete cascade,
+      method varchar(16) not null,
+      path varchar(2048) not null,
+      status_code integer not null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_impersonation_actions_session_id" on impersonation_actions (impersonation_session_id, created_at);',
+  ],
+  down: [
+    'drop table if exists impersonation_actions;',
+    'drop table if exists impersonation_sessions;',
+  ],
+});
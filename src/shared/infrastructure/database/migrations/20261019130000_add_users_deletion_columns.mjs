@@ -0,0 +1,16 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019130000_add_users_deletion_columns',
+  description: 'add scheduled deletion and anonymization timestamps to users',
+  up: [
+    'alter table users add column deletion_scheduled_at timestamp null;',
+    'alter table users add column deleted_at timestamp null;',
+    'create index "IDX_users_deletion_scheduled_at" on users (deletion_scheduled_at) where deletion_scheduled_at is not null;',
+  ],
+  down: [
+    'drop index if exists "IDX_users_deletion_scheduled_at";',
+    'alter table users drop column if exists deleted_at;',
+    'alter table users drop column if exists deletion_scheduled_at;',
+  ],
+});
@@ -0,0 +1,26 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019131000_create_user_data_exports_table',
+  description: 'create user data exports table',
+  up: [
+    `create table user_data_exports (
+      id bigint primary key,
+      user_id bigint not null references users(id) on delete cascade,
+      status varchar(16) not null,
+      file_name varchar(255) null,
+      content_type varchar(100) null,
+      size_bytes integer null,
+      archive_blob bytea null,
+      error varchar(500) null,
+      completed_at timestamp null,
+      expires_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    'create index "IDX_user_data_exports_user_id_created_at" on user_data_exports (user_id, created_at);',
+  ],
+  down: [
+    'drop table if exists user_data_exports;',
+  ],
+});
@@ -0,0 +1,25 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019132000_create_login_events_table',
+  description: 'create login events history table',
+  up: [
+    `create table login_events (
+      id bigint primary key,
+      user_id bigint null references users(id) on delete cascade,
+      email varchar(255) null,
+      method varchar(32) not null,
+      outcome varchar(32) not null,
+      failure_reason varchar(64) null,
+      ip varchar(64) null,
+      user_agent varchar(500) null,
+      device_fingerprint varchar(64) null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_login_events_user_id_created_at" on login_events (user_id, created_at);',
+    'create index "IDX_login_events_user_id_device" on login_events (user_id, device_fingerprint) where outcome = \'success\';',
+  ],
+  down: [
+    'drop table if exists login_events;',
+  ],
+});
@@ -0,0 +1,30 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019133000_create_organization_invitations_table',
+  description: 'create organization invitations table',
+  up: [
+    `create table organization_invitations (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      email varchar(255) not null,
+      role_codes text[] not null,
+      token_hash varchar(255) not null unique,
+      status varchar(16) not null,
+      invited_by_user_id bigint null references users(id) on delete set null,
+      accepted_by_user_id bigint null references users(id) on delete set null,
+      expires_at timestamp not null,
+      last_sent_at timestamp not null,
+      responded_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    `create unique index "UQ_organization_invitations_pending_email"
+      on organization_invitations (organization_id, email)
+      where status = 'pending';`,
+    'create index "IDX_organization_invitations_organization_status" on organization_invitations (organization_id, status);',
+  ],
+  down: [
+    'drop table if exists organization_invitations;',
+  ],
+});
@@ -0,0 +1,20 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019134000_add_organizations_slug_and_deletion_columns',
+  description: 'add slug and soft-deletion timestamps to organizations',
+  up: [
+    'alter table organizations add column slug varchar(63) null;',
+    'alter table organizations add column deleted_at timestamp null;',
+    'alter table organizations add column purge_scheduled_at timestamp null;',
+    'create unique index "UQ_organizations_slug" on organizations (slug) where slug is not null;',
+    'create index "IDX_organizations_purge_scheduled_at" on organizations (purge_scheduled_at) where purge_scheduled_at is not null;',
+  ],
+  down: [
+    'drop index if exists "IDX_organizations_purge_scheduled_at";',
+    'drop index if exists "UQ_organizations_slug";',
+    'alter table organizations drop column if exists purge_scheduled_at;',
+    'alter table organizations drop column if exists deleted_at;',
+    'alter table organizations drop column if exists slug;',
+  ],
+});
@@ -0,0 +1,26 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019135000_create_organization_ownership_transfers_table',
+  description: 'create organization ownership transfers table',
+  up: [
+    `create table organization_ownership_transfers (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      from_user_id bigint not null references users(id) on delete cascade,
+      to_user_id bigint not null references users(id) on delete cascade,
+      status varchar(16) not null,
+      expires_at timestamp not null,
+      responded_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    `create unique index "UQ_organization_ownership_transfers_pending"
+      on organization_ownership_transfers (organization_id)
+      where status = 'pending';`,
+    'create index "IDX_organization_ownership_transfers_to_user_status" on organization_ownership_transfers (to_user_id, status);',
+  ],
+  down: [
+    'drop table if exists organization_ownership_transfers;',
+  ],
+});
@@ -0,0 +1,28 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019136000_create_organization_domains_table',
+  description: 'create organization domains table',
+  up: [
+    `create table organization_domains (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      domain varchar(253) not null,
+      verification_token varchar(64) not null,
+      status varchar(16) not null,
+      join_policy varchar(16) not null,
+      default_role_code varchar(64) not null,
+      created_by_user_id bigint null references users(id) on delete set null,
+      verified_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now(),
+      unique (organization_id, domain)
+    );`,
+    `create unique index "UQ_organization_domains_verified_domain"
+      on organization_domains (domain)
+      where status = 'verified';`,
+  ],
+  down: [
+    'drop table if exists organization_domains;',
+  ],
+});
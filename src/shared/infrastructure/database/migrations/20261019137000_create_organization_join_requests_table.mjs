@@ -0,0 +1,27 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019137000_create_organization_join_requests_table',
+  description: 'create organization join requests table',
+  up: [
+    `create table organization_join_requests (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      user_id bigint not null references users(id) on delete cascade,
+      domain_id bigint null references organization_domains(id) on delete set null,
+      role_code varchar(64) not null,
+      status varchar(16) not null,
+      responded_by_user_id bigint null references users(id) on delete set null,
+      responded_at timestamp null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now()
+    );`,
+    `create unique index "UQ_organization_join_requests_pending_user"
+      on organization_join_requests (organization_id, user_id)
+      where status = 'pending';`,
+    'create index "IDX_organization_join_requests_organization_status" on organization_join_requests (organization_id, status);',
+  ],
+  down: [
+    'drop table if exists organization_join_requests;',
+  ],
+});
@@ -0,0 +1,21 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019138000_create_organization_teams_table',
+  description: 'create organization teams table',
+  up: [
+    `create table organization_teams (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      name varchar(100) not null,
+      description varchar(500) null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now(),
+      constraint "UQ_organization_teams_organization_name"
+        unique (organization_id, name)
+    );`,
+  ],
+  down: [
+    'drop table if exists organization_teams;',
+  ],
+});
@@ -0,0 +1,20 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019139000_create_organization_team_members_table',
+  description: 'create organization team members table',
+  up: [
+    `create table organization_team_members (
+      id bigint primary key,
+      team_id bigint not null references organization_teams(id) on delete cascade,
+      membership_id bigint not null references organization_memberships(id) on delete cascade,
+      created_at timestamp not null default now(),
+      constraint "UQ_organization_team_members_team_membership"
+        unique (team_id, membership_id)
+    );`,
+    'create index "IDX_organization_team_members_membership" on organization_team_members (membership_id);',
+  ],
+  down: [
+    'drop table if exists organization_team_members;',
+  ],
+});
@@ -0,0 +1,19 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019140000_create_organization_team_roles_table',
+  description: 'create organization team roles table',
+  up: [
+    `create table organization_team_roles (
+      id bigint primary key,
+      team_id bigint not null references organization_teams(id) on delete cascade,
+      role_id bigint not null references roles(id) on delete cascade,
+      created_at timestamp not null default now(),
+      constraint "UQ_organization_team_roles_team_role"
+        unique (team_id, role_id)
+    );`,
+  ],
+  down: [
+    'drop table if exists organization_team_roles;',
+  ],
+});
@@ -0,0 +1,27 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019141000_create_plans_table',
+  description: 'create plans table',
+  up: [
+    `create table plans (
+      id bigint primary key,
+      code varchar(64) not null,
+      name varchar(100) not null,
+      description varchar(500) null,
+      seat_limit integer null,
+      monthly_report_export_limit integer null,
+      features text[] not null default '{}',
+      is_default boolean not null default false,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now(),
+      constraint "UQ_plans_code" unique (code)
+    );`,
+    `create unique index "UQ_plans_default"
+      on plans (is_default)
+      where is_default = true;`,
+  ],
+  down: [
+    'drop table if exists plans;',
+  ],
+});
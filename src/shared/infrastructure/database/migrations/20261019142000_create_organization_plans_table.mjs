@@ -0,0 +1,21 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019142000_create_organization_plans_table',
+  description: 'create organization plans table',
+  up: [
+    `create table organization_plans (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      plan_id bigint not null references plans(id) on delete restrict,
+      assigned_by_user_id bigint null references users(id) on delete set null,
+      created_at timestamp not null default now(),
+      updated_at timestamp not null default now(),
+      constraint "UQ_organization_plans_organization" unique (organization_id)
+    );`,
+    'create index "IDX_organization_plans_plan" on organization_plans (plan_id);',
+  ],
+  down: [
+    'drop table if exists organization_plans;',
+  ],
+});
@@ -0,0 +1,20 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019143000_create_organization_report_exports_table',
+  description: 'create organization report exports table',
+  up: [
+    `create table organization_report_exports (
+      id bigint primary key,
+      organization_id bigint not null references organizations(id) on delete cascade,
+      user_id bigint null references users(id) on delete set null,
+      report_code varchar(64) not null,
+      format varchar(16) not null,
+      created_at timestamp not null default now()
+    );`,
+    'create index "IDX_organization_report_exports_org_created" on organization_report_exports (organization_id, created_at);',
+  ],
+  down: [
+    'drop table if exists organization_report_exports;',
+  ],
+});
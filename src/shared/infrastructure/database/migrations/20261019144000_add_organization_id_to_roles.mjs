@@ -0,0 +1,21 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019144000_add_organization_id_to_roles',
+  description: 'scope custom roles to an organization',
+  up: [
+    'alter table roles add column organization_id bigint null references organizations(id) on delete cascade;',
+    'alter table roles drop constraint if exists roles_code_key;',
+    'create unique index "UQ_roles_system_code" on roles (code) where organization_id is null;',
+    'create unique index "UQ_roles_organization_code" on roles (organization_id, code) where organization_id is not null;',
+    'create index "IDX_roles_organization" on roles (organization_id);',
+  ],
+  down: [
+    'delete from roles where organization_id is not null;',
+    'drop index if exists "IDX_roles_organization";',
+    'drop index if exists "UQ_roles_organization_code";',
+    'drop index if exists "UQ_roles_system_code";',
+    'alter table roles add constraint roles_code_key unique (code);',
+    'alter table roles drop column if exists organization_id;',
+  ],
+});
@@ -0,0 +1,14 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019145000_add_conditions_to_permissions',
+  description: 'add attribute conditions to role permissions and permission overrides',
+  up: [
+    'alter table role_permissions add column conditions jsonb null;',
+    'alter table organization_user_permissions add column conditions jsonb null;',
+  ],
+  down: [
+    'alter table organization_user_permissions drop column if exists conditions;',
+    'alter table role_permissions drop column if exists conditions;',
+  ],
+});
@@ -0,0 +1,12 @@
+import { defineMigration } from '@qbobjx/codegen';
+
+export default defineMigration({
+  name: '20261019146000_add_mfa_verified_to_api_keys',
+  description: 'record whether an api key was created from a session that passed mfa',
+  up: [
+    'alter table api_keys add column mfa_verified boolean not null default false;',
+  ],
+  down: [
+    'alter table api_keys drop column if exists mfa_verified;',
+  ],
+});
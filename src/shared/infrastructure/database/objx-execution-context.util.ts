@@ -35,5 +35,9 @@ export function buildObjxExecutionContextValues(
     values.currentOrganizationRole = session.currentOrganizationRole;
   }
 
+  if (session.impersonatorId) {
+    values.impersonatorId = session.impersonatorId;
+  }
+
   return values;
 }
@@ -186,7 +186,7 @@ function sqlValues(row) {
   return Object.values(row).map((value) => sqlValue(value)).join(', ');
 }
 
-async function upsertByCode(context, tableName, row, mergeColumns) {
+async function upsertByCode(context, tableName, row, mergeColumns, conflictTarget = '(code)') {
   const columns = Object.keys(row).join(', ');
   const mergeAssignments = mergeColumns
     .map((column) => `${column} = excluded.${column}`)
@@ -196,7 +196,7 @@ async function upsertByCode(context, tableName, row, mergeColumns) {
   await context.execute(`
     insert into ${tableName} (${columns})
     values (${sqlValues(row)})
-    on conflict (code) do update
+    on conflict ${conflictTarget} do update
     set ${mergeAssignments};
   `);
 }
@@ -246,6 +246,10 @@ export default defineSeed({
           is_system: true,
         },
         ['name', 'description', 'is_system'],
+        // 20261019144000_add_organization_id_to_roles replaced the unique
+        // constraint on `code` with this partial index; a fresh database runs
+        // every migration before the seeds.
+        '(code) where organization_id is null',
       );
     }
 
@@ -0,0 +1,34 @@
+import { defineSeed } from '@qbobjx/codegen';
+
+const DEFAULT_ADMIN_EMAIL = 'admin@teste.local';
+
+function resolveAdminEmail() {
+  return process.env.SEED_ADMIN_EMAIL || DEFAULT_ADMIN_EMAIL;
+}
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+export default defineSeed({
+  name: '20261019124500_seed_verify_bootstrap_admin_email',
+  description: 'mark the bootstrap admin email as verified',
+  async run(context) {
+    await context.execute(`
+      update users
+      set
+        email_verified_at = coalesce(email_verified_at, now()),
+        updated_at = now()
+      where email = ${sqlString(resolveAdminEmail())};
+    `);
+  },
+  async revert(context) {
+    await context.execute(`
+      update users
+      set
+        email_verified_at = null,
+        updated_at = now()
+      where email = ${sqlString(resolveAdminEmail())};
+    `);
+  },
+});
@@ -0,0 +1,108 @@
+import { defineSeed } from '@qbobjx/codegen';
+
+const USERS_FEATURE_CODE = 'users';
+const USERS_FEATURE_DESCRIPTION = 'Read and administer users from the current organization scope';
+const PREVIOUS_USERS_FEATURE_DESCRIPTION = 'Read users from the current organization scope';
+
+const PERMISSION = {
+  id: '710000000000003006',
+  code: 'users.manage',
+  description: 'Administer user accounts, such as unlocking sign-in',
+  featureCode: USERS_FEATURE_CODE,
+  actionCode: 'manage',
+};
+
+const ROLE_PERMISSIONS = [
+  ['710000000000006001', 'org_owner'],
+  ['710000000000006002', 'org_admin'],
+];
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+export default defineSeed({
+  name: '20261019127500_seed_users_manage_permission',
+  description: 'seed users.manage permission',
+  async run(context) {
+    await context.execute(`
+      update permission_features
+      set
+        description = ${sqlString(USERS_FEATURE_DESCRIPTION)},
+        updated_at = now()
+      where code = ${sqlString(USERS_FEATURE_CODE)};
+    `);
+
+    await context.execute(`
+      insert into permissions (
+        id,
+        code,
+        description,
+        feature_id,
+        action_id
+      )
+      select
+        ${PERMISSION.id},
+        ${sqlString(PERMISSION.code)},
+        ${sqlString(PERMISSION.description)},
+        pf.id,
+        pa.id
+      from permission_features pf
+      cross join permission_actions pa
+      where pf.code = ${sqlString(PERMISSION.featureCode)}
+        and pa.code = ${sqlString(PERMISSION.actionCode)}
+      on conflict (code) do update
+      set
+        description = excluded.description,
+        feature_id = excluded.feature_id,
+        action_id = excluded.action_id,
+        updated_at = now();
+    `);
+
+    for (const [id, roleCode] of ROLE_PERMISSIONS) {
+      await context.execute(`
+        insert into role_permissions (
+          id,
+          role_id,
+          permission_id
+        )
+        select
+          ${id},
+          r.id,
+          p.id
+        from roles r
+        cross join permissions p
+        where r.code = ${sqlString(roleCode)}
+          and r.is_system = true
+          and p.code = ${sqlString(PERMISSION.code)}
+        on conflict (role_id, permission_id) do nothing;
+      `);
+    }
+  },
+  async revert(context) {
+    const permissionSubquery = `select id from permissions where code = ${sqlString(PERMISSION.code)}`;
+
+    await context.execute(`
+      delete from role_permissions
+      where permission_id in (${permissionSubquery});
+    `);
+
+    await context.execute(`
+      delete from organization_user_permissions
+      where permission_id in (${permissionSubquery});
+    `);
+
+    await context.execute(`
+      delete from permissions
+      where code = ${sqlString(PERMISSION.code)};
+    `);
+
+    await context.execute(`
+      update permission_features
+      set
+        description = ${sqlString(PREVIOUS_USERS_FEATURE_DESCRIPTION)},
+        updated_at = now()
+      where code = ${sqlString(USERS_FEATURE_CODE)};
+    `);
+  },
+});
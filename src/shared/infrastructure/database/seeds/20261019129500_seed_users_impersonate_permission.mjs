@@ -0,0 +1,118 @@
+import { defineSeed } from '@qbobjx/codegen';
+
+const ACTION = {
+  id: '710000000000002007',
+  code: 'impersonate',
+  name: 'Impersonate',
+  description: 'Act as another user for support purposes',
+};
+
+const PERMISSION = {
+  id: '710000000000003007',
+  code: 'users.impersonate',
+  description: 'Sign in as another member of the organization for support',
+  featureCode: 'users',
+};
+
+const ROLE_PERMISSIONS = [
+  ['710000000000006003', 'org_owner'],
+];
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+export default defineSeed({
+  name: '20261019129500_seed_users_impersonate_permission',
+  description: 'seed users.impersonate permission',
+  async run(context) {
+    await context.execute(`
+      insert into permission_actions (
+        id,
+        code,
+        name,
+        description
+      )
+      values (
+        ${ACTION.id},
+        ${sqlString(ACTION.code)},
+        ${sqlString(ACTION.name)},
+        ${sqlString(ACTION.description)}
+      )
+      on conflict (code) do update
+      set
+        name = excluded.name,
+        description = excluded.description,
+        updated_at = now();
+    `);
+
+    await context.execute(`
+      insert into permissions (
+        id,
+        code,
+        description,
+        feature_id,
+        action_id
+      )
+      select
+        ${PERMISSION.id},
+        ${sqlString(PERMISSION.code)},
+        ${sqlString(PERMISSION.description)},
+        pf.id,
+        pa.id
+      from permission_features pf
+      cross join permission_actions pa
+      where pf.code = ${sqlString(PERMISSION.featureCode)}
+        and pa.code = ${sqlString(ACTION.code)}
+      on conflict (code) do update
+      set
+        description = excluded.description,
+        feature_id = excluded.feature_id,
+        action_id = excluded.action_id,
+        updated_at = now();
+    `);
+
+    for (const [id, roleCode] of ROLE_PERMISSIONS) {
+      await context.execute(`
+        insert into role_permissions (
+          id,
+          role_id,
+          permission_id
+        )
+        select
+          ${id},
+          r.id,
+          p.id
+        from roles r
+        cross join permissions p
+        where r.code = ${sqlString(roleCode)}
+          and r.is_system = true
+          and p.code = ${sqlString(PERMISSION.code)}
+        on conflict (role_id, permission_id) do nothing;
+      `);
+    }
+  },
+  async revert(context) {
+    const permissionSubquery = `select id from permissions where code = ${sqlString(PERMISSION.code)}`;
+
+    await context.execute(`
+      delete from role_permissions
+      where permission_id in (${permissionSubquery});
+    `);
+
+    await context.execute(`
+      delete from organization_user_permissions
+      where permission_id in (${permissionSubquery});
+    `);
+
+    await context.execute(`
+      delete from permissions
+      where code = ${sqlString(PERMISSION.code)};
+    `);
+
+    await context.execute(`
+      delete from permission_actions
+      where code = ${sqlString(ACTION.code)};
+    `);
+  },
+});
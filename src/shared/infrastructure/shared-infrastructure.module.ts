@@ -1,4 +1,8 @@
 import { Module } from '@nestjs/common';
+import { AccessTokenModule } from '../access-token/access-token.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { SessionRegistryModule } from '../session-registry/session-registry.module';
 import { SessionStorageModule } from '../session-storage/session-storage.module';
 import { CacheServiceModule } from './cache';
 import { DatabaseModule } from './database/database.module';
@@ -10,6 +14,10 @@ import { QueueModule } from './queue/queue.module';
     CacheServiceModule,
     QueueModule,
     SessionStorageModule,
+    SessionRegistryModule,
+    RateLimitModule,
+    PasswordPolicyModule,
+    AccessTokenModule,
   ],
 })
 export class SharedInfrastructureModule { }
@@ -1,4 +1,8 @@
+import { AccessTokenService } from '@/shared/access-token/access-token.service';
+import { parseAuthorizationHeader } from '@/shared/access-token/access-token.util';
 import type { AppSessionContext } from '@/shared/context/app-session-context';
+import { parseRequestedOrganizationId } from '@/shared/context/execution-context-session.util';
+import { toSessionHandle } from '@/shared/session-registry/session-registry.util';
 import { envConfig } from '@/config/env.config';
 import { Logger } from '@nestjs/common';
 import { IoAdapter } from '@nestjs/platform-socket.io';
@@ -9,12 +13,13 @@ import { createClient, RedisClientType } from 'redis';
 import type { ServerOptions, Socket } from 'socket.io';
 
 type SessionAwareRequest = Partial<FastifyRequest> & {
-  session?: AppSessionContext;
+  session?: AppSessionContext & { sessionId?: string };
 };
 
 export class SessionIoAdapter extends IoAdapter {
   private readonly logger = new Logger(SessionIoAdapter.name);
   private readonly fastify: FastifyInstance;
+  private readonly accessTokenService: AccessTokenService;
   private pubClient?: RedisClientType;
   private subClient?: RedisClientType;
   private redisAdapter?: ReturnType<typeof createAdapter>;
@@ -22,6 +27,7 @@ export class SessionIoAdapter extends IoAdapter {
   constructor(app: NestFastifyApplication) {
     super(app);
     this.fastify = app.getHttpAdapter().getInstance();
+    this.accessTokenService = app.get(AccessTokenService);
   }
 
   async connectToRedis(): Promise<void> {
@@ -93,6 +99,17 @@ export class SessionIoAdapter extends IoAdapter {
   }
 
   private async attachSession(socket: Socket): Promise<void> {
+    await this.resolveSession(socket);
+    this.applyHandshakeOrganization(socket);
+  }
+
+  private async resolveSession(socket: Socket): Promise<void> {
+    const accessToken = this.getHandshakeAccessToken(socket);
+    if (accessToken) {
+      socket.data.session = this.accessTokenService.resolveSession(accessToken) ?? {};
+      return;
+    }
+
     const cookieHeader = this.getHeaderValue(socket.handshake.headers.cookie);
     if (!cookieHeader) {
       socket.data.session = {};
@@ -122,6 +139,9 @@ export class SessionIoAdapter extends IoAdapter {
     });
 
     const session: AppSessionContext = request.session ?? {};
+    socket.data.sessionHandle = request.session?.sessionId
+      ? toSessionHandle(request.session.sessionId)
+      : undefined;
     socket.data.session = {
       userId: session.userId,
       email: session.email,
@@ -130,9 +150,44 @@ export class SessionIoAdapter extends IoAdapter {
       currentOrganizationName: session.currentOrganizationName,
       currentOrganizationRole: session.currentOrganizationRole,
       authenticated: session.authenticated,
+      mfaVerified: session.mfaVerified,
+      impersonatorId: session.impersonatorId,
+      impersonationOrganizationId: session.impersonationOrganizationId,
+    };
+  }
+
+  /**
+   * Lets a socket work on another organization than the one selected in the
+   * session. Access is checked by `CurrentOrganizationGuard`, which also
+   * fills in the name and role.
+   */
+  private applyHandshakeOrganization(socket: Socket): void {
+    const auth = socket.handshake.auth as { organizationId?: unknown } | undefined;
+    const organizationId = parseRequestedOrganizationId(auth?.organizationId);
+    const session = socket.data.session as AppSessionContext;
+
+    if (organizationId === undefined || organizationId === session.currentOrganizationId) {
+      return;
+    }
+
+    socket.data.session = {
+      ...session,
+      currentOrganizationId: organizationId ?? undefined,
+      currentOrganizationName: undefined,
+      currentOrganizationRole: undefined,
     };
   }
 
+  private getHandshakeAccessToken(socket: Socket): string | undefined {
+    const auth = socket.handshake.auth as { token?: unknown } | undefined;
+    if (typeof auth?.token === 'string' && auth.token.trim()) {
+      return auth.token.trim().replace(/^Bearer\s+/i, '');
+    }
+
+    const credentials = parseAuthorizationHeader(socket.handshake.headers.authorization);
+    return credentials?.scheme === 'bearer' ? credentials.value : undefined;
+  }
+
   private getHeaderValue(header?: string | string[]): string | undefined {
     if (Array.isArray(header)) {
       return header[0];
@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { PasswordPolicyService } from './password-policy.service';
+
+@Global()
+@Module({
+  providers: [PasswordPolicyService],
+  exports: [PasswordPolicyService],
+})
+export class PasswordPolicyModule {}
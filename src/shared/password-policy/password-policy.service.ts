@@ -0,0 +1,72 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { BadRequestException, Injectable, type OnModuleInit } from '@nestjs/common';
+import { envConfig } from '@/config/env.config';
+import {
+  evaluatePasswordPolicy,
+  PASSWORD_MAX_LENGTH,
+  PasswordBloomFilter,
+  type PasswordPolicy,
+  type PasswordPolicyContext,
+  type PasswordPolicyViolation,
+} from './password-policy.util';
+
+export const PASSWORD_POLICY_VIOLATION_MESSAGE = 'Password does not meet the password policy';
+
+const BUNDLED_BREACHED_LIST_FILE = join(__dirname, 'data', 'common-passwords.bloom');
+
+/**
+ * Central password rules for every flow that sets a password. The breached
+ * list is a bloom filter loaded once at startup, so checks stay offline.
+ */
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+  private breachedPasswords: PasswordBloomFilter | null = null;
+
+  async onModuleInit(): Promise<void> {
+    if (!envConfig.auth.password.rejectBreached) {
+      return;
+    }
+
+    const file = envConfig.auth.password.breachedListFile ?? BUNDLED_BREACHED_LIST_FILE;
+
+    this.breachedPasswords = PasswordBloomFilter.parse(await readFile(file));
+  }
+
+  getPolicy(): PasswordPolicy {
+    const { password } = envConfig.auth;
+
+    return {
+      minLength: password.minLength,
+      maxLength: PASSWORD_MAX_LENGTH,
+      requireLowercase: password.requireLowercase,
+      requireUppercase: password.requireUppercase,
+      requireDigit: password.requireDigit,
+      requireSymbol: password.requireSymbol,
+      disallowPersonalInfo: password.disallowPersonalInfo,
+      rejectBreached: password.rejectBreached,
+      maxAgeDays: password.maxAgeDays,
+      historySize: password.historySize,
+    };
+  }
+
+  validate(password: string, context: PasswordPolicyContext = {}): PasswordPolicyViolation[] {
+    return evaluatePasswordPolicy(
+      password,
+      this.getPolicy(),
+      context,
+      (candidate) => this.breachedPasswords?.has(candidate) ?? false,
+    );
+  }
+
+  assertValid(password: string, context: PasswordPolicyContext = {}): void {
+    const violations = this.validate(password, context);
+
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        message: PASSWORD_POLICY_VIOLATION_MESSAGE,
+        errors: violations,
+      });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  evaluatePasswordPolicy,
+  isPasswordExpired,
+  PasswordBloomFilter,
+  type PasswordPolicy,
+} from './password-policy.util';
+
+describe('password-policy.util', () => {
+  const policy: PasswordPolicy = {
+    minLength: 8,
+    maxLength: 100,
+    requireLowercase: true,
+    requireUppercase: true,
+    requireDigit: true,
+    requireSymbol: true,
+    disallowPersonalInfo: true,
+    rejectBreached: true,
+    maxAgeDays: 90,
+    historySize: 5,
+  };
+
+  function codes(password: string, context = {}, isBreached?: (password: string) => boolean) {
+    return evaluatePasswordPolicy(password, policy, context, isBreached).map((violation) => violation.code);
+  }
+
+  it('accepts a password that satisfies every rule', () => {
+    expect(codes('Tr0ub4dor&3-horse')).toEqual([]);
+  });
+
+  it('reports length and character class violations', () => {
+    expect(codes('short')).toEqual(['min_length', 'uppercase', 'digit', 'symbol']);
+    expect(codes('ÄÖÜ-äöü-123')).toEqual([]);
+    expect(codes('x'.repeat(101))).toEqual(expect.arrayContaining(['max_length']));
+  });
+
+  it('rejects passwords containing the name or email of the user', () => {
+    const context = { email: 'jane.doe@example.com', name: 'Jane Doe' };
+
+    expect(codes('Jane.Doe!2026', context)).toEqual(['personal_info']);
+    expect(codes('Secret!jane.doe9', context)).toEqual(['personal_info']);
+    expect(codes('Tr0ub4dor&3-horse', context)).toEqual([]);
+    expect(codes('Tr0ub4dor&3-horse', { name: 'Al' })).toEqual([]);
+  });
+
+  it('only consults the breached list when the policy enables it', () => {
+    const isBreached = jest.fn().mockReturnValue(true);
+
+    expect(codes('Tr0ub4dor&3-horse', {}, isBreached)).toEqual(['breached']);
+    expect(
+      evaluatePasswordPolicy('Tr0ub4dor&3-horse', { ...policy, rejectBreached: false }, {}, isBreached),
+    ).toEqual([]);
+    expect(isBreached).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports expired passwords only when a max age is configured', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const changedAt = new Date('2026-07-01T12:00:00.000Z');
+
+    expect(isPasswordExpired(changedAt, 90, now)).toBe(true);
+    expect(isPasswordExpired(changedAt, 180, now)).toBe(false);
+    expect(isPasswordExpired(changedAt, 0, now)).toBe(false);
+    expect(isPasswordExpired(null, 90, now)).toBe(false);
+  });
+
+  it('round-trips a bloom filter and matches entries case-insensitively', () => {
+    const filter = PasswordBloomFilter.create(3, 0.0001);
+    filter.add('correcthorse');
+    filter.add('letmein');
+
+    const parsed = PasswordBloomFilter.parse(filter.serialize());
+
+    expect(parsed.has('CorrectHorse')).toBe(true);
+    expect(parsed.has('letmein')).toBe(true);
+    expect(parsed.has('Tr0ub4dor&3-horse')).toBe(false);
+    expect(() => PasswordBloomFilter.parse(Buffer.from('nope'))).toThrow();
+  });
+
+  it('flags common passwords in the bundled list', () => {
+    const filter = PasswordBloomFilter.parse(
+      readFileSync(join(__dirname, 'data', 'common-passwords.bloom')),
+    );
+
+    expect(filter.has('password')).toBe(true);
+    expect(filter.has('Qwerty123')).toBe(true);
+    expect(filter.has('P@ssw0rd')).toBe(true);
+    expect(filter.has('Tr0ub4dor&3-horse')).toBe(false);
+  });
+});
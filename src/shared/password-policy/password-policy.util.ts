@@ -0,0 +1,205 @@
+import { createHash } from 'crypto';
+
+export const PASSWORD_MAX_LENGTH = 100;
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  disallowPersonalInfo: boolean;
+  rejectBreached: boolean;
+  maxAgeDays: number;
+  historySize: number;
+}
+
+export interface PasswordPolicyContext {
+  email?: string | null;
+  name?: string | null;
+}
+
+export type PasswordPolicyViolationCode =
+  | 'min_length'
+  | 'max_length'
+  | 'lowercase'
+  | 'uppercase'
+  | 'digit'
+  | 'symbol'
+  | 'personal_info'
+  | 'breached';
+
+export interface PasswordPolicyViolation {
+  code: PasswordPolicyViolationCode;
+  message: string;
+}
+
+const PERSONAL_INFO_MIN_TOKEN_LENGTH = 3;
+const BLOOM_FILTER_MAGIC = 'PWBF';
+const BLOOM_FILTER_HEADER_LENGTH = 9;
+
+/**
+ * Checks a password against the policy. `isBreached` is only consulted when
+ * the policy rejects breached passwords.
+ */
+export function evaluatePasswordPolicy(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordPolicyContext = {},
+  isBreached: (password: string) => boolean = () => false,
+): PasswordPolicyViolation[] {
+  const violations: PasswordPolicyViolation[] = [];
+  const length = [...password].length;
+
+  if (length < policy.minLength) {
+    violations.push({
+      code: 'min_length',
+      message: `Password must be at least ${policy.minLength} characters`,
+    });
+  }
+
+  if (length > policy.maxLength) {
+    violations.push({
+      code: 'max_length',
+      message: `Password must be at most ${policy.maxLength} characters`,
+    });
+  }
+
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    violations.push({ code: 'lowercase', message: 'Password must contain a lowercase letter' });
+  }
+
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    violations.push({ code: 'uppercase', message: 'Password must contain an uppercase letter' });
+  }
+
+  if (policy.requireDigit && !/\p{Nd}/u.test(password)) {
+    violations.push({ code: 'digit', message: 'Password must contain a digit' });
+  }
+
+  if (policy.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+    violations.push({ code: 'symbol', message: 'Password must contain a symbol' });
+  }
+
+  if (policy.disallowPersonalInfo && containsPersonalInfo(password, context)) {
+    violations.push({
+      code: 'personal_info',
+      message: 'Password must not contain your name or email address',
+    });
+  }
+
+  if (policy.rejectBreached && isBreached(password)) {
+    violations.push({
+      code: 'breached',
+      message: 'Password is too common or appeared in a data breach',
+    });
+  }
+
+  return violations;
+}
+
+export function isPasswordExpired(
+  passwordChangedAt: Date | null | undefined,
+  maxAgeDays: number,
+  now: Date,
+): boolean {
+  if (!passwordChangedAt || maxAgeDays <= 0) {
+    return false;
+  }
+
+  return now.getTime() - passwordChangedAt.getTime() >= maxAgeDays * 86_400_000;
+}
+
+function containsPersonalInfo(password: string, context: PasswordPolicyContext): boolean {
+  const normalizedPassword = password.toLowerCase();
+  const email = context.email?.trim().toLowerCase();
+  const tokens = [
+    email,
+    email?.split('@')[0],
+    ...(context.name?.toLowerCase().split(/[^\p{L}\p{N}]+/u) ?? []),
+  ];
+
+  return tokens.some((token) =>
+    token !== undefined &&
+    token.length >= PERSONAL_INFO_MIN_TOKEN_LENGTH &&
+    normalizedPassword.includes(token),
+  );
+}
+
+/**
+ * Fixed-size bloom filter for offline breached-password lookups. Entries are
+ * lowercased, so `Password` matches a listed `password`; a hit may be a false
+ * positive at the configured rate, a miss is always exact.
+ *
+ * Binary layout: `PWBF` magic, uint32 BE bit count, uint8 hash count, bits.
+ */
+export class PasswordBloomFilter {
+  private constructor(
+    private readonly bits: Buffer,
+    private readonly bitCount: number,
+    private readonly hashCount: number,
+  ) { }
+
+  static create(expectedEntries: number, falsePositiveRate: number): PasswordBloomFilter {
+    const entries = Math.max(expectedEntries, 1);
+    const bitCount = Math.ceil((-entries * Math.log(falsePositiveRate)) / Math.LN2 ** 2);
+    const hashCount = Math.max(1, Math.round((bitCount / entries) * Math.LN2));
+
+    return new PasswordBloomFilter(Buffer.alloc(Math.ceil(bitCount / 8)), bitCount, hashCount);
+  }
+
+  static parse(buffer: Buffer): PasswordBloomFilter {
+    if (
+      buffer.length < BLOOM_FILTER_HEADER_LENGTH ||
+      buffer.toString('ascii', 0, 4) !== BLOOM_FILTER_MAGIC
+    ) {
+      throw new Error('Invalid password bloom filter');
+    }
+
+    const bitCount = buffer.readUInt32BE(4);
+    const hashCount = buffer.readUInt8(8);
+    const bits = buffer.subarray(BLOOM_FILTER_HEADER_LENGTH);
+
+    if (bitCount === 0 || hashCount === 0 || bits.length !== Math.ceil(bitCount / 8)) {
+      throw new Error('Invalid password bloom filter');
+    }
+
+    return new PasswordBloomFilter(bits, bitCount, hashCount);
+  }
+
+  add(password: string): void {
+    for (const position of this.positions(password)) {
+      this.bits[position >> 3] |= 1 << (position & 7);
+    }
+  }
+
+  has(password: string): boolean {
+    return this.positions(password).every(
+      (position) => (this.bits[position >> 3] & (1 << (position & 7))) !== 0,
+    );
+  }
+
+  serialize(): Buffer {
+    const header = Buffer.alloc(BLOOM_FILTER_HEADER_LENGTH);
+    header.write(BLOOM_FILTER_MAGIC, 0, 'ascii');
+    header.writeUInt32BE(this.bitCount, 4);
+    header.writeUInt8(this.hashCount, 8);
+
+    return Buffer.concat([header, this.bits]);
+  }
+
+  // Double hashing (Kirsch-Mitzenmacher) over a single SHA-256 digest.
+  private positions(password: string): number[] {
+    const digest = createHash('sha256').update(password.toLowerCase()).digest();
+    const first = digest.readUInt32BE(0);
+    const second = (digest.readUInt32BE(4) | 1) >>> 0;
+    const positions: number[] = [];
+
+    for (let index = 0; index < this.hashCount; index += 1) {
+      positions.push((first + index * second) % this.bitCount);
+    }
+
+    return positions;
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  computeRateLimitBlockSeconds,
+  hashRateLimitIdentifier,
+  normalizeRateLimitEmail,
+} from './rate-limit.util';
+
+describe('rate-limit.util', () => {
+  it('doubles the block for each request over the limit', () => {
+    expect(computeRateLimitBlockSeconds(0, 60)).toBe(0);
+    expect(computeRateLimitBlockSeconds(1, 60)).toBe(60);
+    expect(computeRateLimitBlockSeconds(2, 60)).toBe(120);
+    expect(computeRateLimitBlockSeconds(4, 60)).toBe(480);
+  });
+
+  it('caps the block duration', () => {
+    expect(computeRateLimitBlockSeconds(10, 60, 900)).toBe(900);
+    expect(computeRateLimitBlockSeconds(1000, 60)).toBe(3600);
+  });
+
+  it('normalizes emails into a single bucket', () => {
+    expect(normalizeRateLimitEmail(' User@Example.COM ')).toBe('user@example.com');
+    expect(normalizeRateLimitEmail('   ')).toBeUndefined();
+    expect(normalizeRateLimitEmail(42)).toBeUndefined();
+  });
+
+  it('hashes identifiers deterministically', () => {
+    const hash = hashRateLimitIdentifier('user@example.com');
+
+    expect(hash).toHaveLength(32);
+    expect(hash).toEqual(hashRateLimitIdentifier('user@example.com'));
+    expect(hash).not.toContain('example');
+  });
+});
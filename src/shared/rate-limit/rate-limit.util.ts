@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+
+export const RATE_LIMIT_DEFAULT_MAX_BLOCK_SECONDS = 3600;
+
+/**
+ * Exponential backoff for repeated offenders: the first request over the
+ * limit is blocked for `baseSeconds`, each further one doubles the wait.
+ */
+export function computeRateLimitBlockSeconds(
+  excessHits: number,
+  baseSeconds: number,
+  maxSeconds: number = RATE_LIMIT_DEFAULT_MAX_BLOCK_SECONDS,
+): number {
+  if (excessHits <= 0) {
+    return 0;
+  }
+
+  const exponent = Math.min(excessHits - 1, 30);
+
+  return Math.min(baseSeconds * 2 ** exponent, maxSeconds);
+}
+
+/**
+ * Normalizes an email so `User@Example.com ` and `user@example.com` share
+ * the same bucket. Returns undefined for non-string input.
+ */
+export function normalizeRateLimitEmail(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * Hashes identifiers so emails and IPs are not stored in clear text in Redis keys.
+ */
+export function hashRateLimitIdentifier(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
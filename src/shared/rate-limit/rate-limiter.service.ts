@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { CacheService } from '@/shared/infrastructure/cache';
+import {
+  computeRateLimitBlockSeconds,
+  hashRateLimitIdentifier,
+  RATE_LIMIT_DEFAULT_MAX_BLOCK_SECONDS,
+} from './rate-limit.util';
+
+const RATE_LIMIT_KEY_PREFIX = 'rate-limit:';
+
+export interface RateLimitBucket {
+  /** Identifier kind, e.g. `ip` or `email`. */
+  kind: string;
+  value: string;
+  limit: number;
+}
+
+export interface RateLimitPolicy {
+  name: string;
+  windowSeconds: number;
+  maxBlockSeconds?: number;
+}
+
+/**
+ * Fixed-window counters in Redis with progressive blocking. Once a bucket
+ * goes over its limit it is blocked for an exponentially growing period and
+ * its counter is kept alive, so repeated offenders wait longer each time.
+ */
+@Injectable()
+export class RateLimiterService {
+  constructor(private readonly cacheService: CacheService) { }
+
+  /**
+   * Counts one hit against every bucket. Returns the number of seconds to
+   * wait when any bucket is blocked, or null when the request may proceed.
+   */
+  async consume(policy: RateLimitPolicy, buckets: RateLimitBucket[]): Promise<number | null> {
+    let retryAfterSeconds = 0;
+
+    for (const bucket of buckets) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, await this.consumeBucket(policy, bucket));
+    }
+
+    return retryAfterSeconds > 0 ? retryAfterSeconds : null;
+  }
+
+  async reset(policyName: string, kind: string, value: string): Promise<void> {
+    const baseKey = this.getBaseKey(policyName, kind, value);
+
+    await this.cacheService.cache.del(`${baseKey}:hits`, `${baseKey}:block`);
+  }
+
+  private async consumeBucket(policy: RateLimitPolicy, bucket: RateLimitBucket): Promise<number> {
+    const redis = this.cacheService.cache;
+    const baseKey = this.getBaseKey(policy.name, bucket.kind, bucket.value);
+    const blockKey = `${baseKey}:block`;
+    const hitsKey = `${baseKey}:hits`;
+
+    const blockTtl = await redis.ttl(blockKey);
+    if (blockTtl > 0) {
+      return blockTtl;
+    }
+
+    const hits = await redis.incr(hitsKey);
+    if (hits === 1) {
+      await redis.expire(hitsKey, policy.windowSeconds);
+    }
+
+    if (hits <= bucket.limit) {
+      return 0;
+    }
+
+    const blockSeconds = computeRateLimitBlockSeconds(
+      hits - bucket.limit,
+      policy.windowSeconds,
+      policy.maxBlockSeconds ?? RATE_LIMIT_DEFAULT_MAX_BLOCK_SECONDS,
+    );
+
+    await redis
+      .multi()
+      .set(blockKey, '1', 'EX', blockSeconds)
+      .expire(hitsKey, blockSeconds + policy.windowSeconds)
+      .exec();
+
+    return blockSeconds;
+  }
+
+  private getBaseKey(policyName: string, kind: string, value: string): string {
+    return `${RATE_LIMIT_KEY_PREFIX}${policyName}:${kind}:${hashRateLimitIdentifier(value)}`;
+  }
+}
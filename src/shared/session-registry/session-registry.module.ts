@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { SessionRegistryService } from './session-registry.service';
+
+@Global()
+@Module({
+  providers: [SessionRegistryService],
+  exports: [SessionRegistryService],
+})
+export class SessionRegistryModule {}
@@ -0,0 +1,275 @@
+import { Injectable } from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { SESSION_INDEX_PREFIX, SESSION_STORE_PREFIX, SESSION_TTL_SECONDS } from '@/config/session.config';
+import { isCredentialAuthenticatedRequest } from '@/shared/context/execution-context-session.util';
+import { CacheService } from '@/shared/infrastructure/cache';
+import { describeUserAgent, toSessionHandle } from './session-registry.util';
+
+const TRACK_INTERVAL_MS = 60 * 1000;
+
+interface StoredSessionEntry {
+  sessionId: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface ActiveSession {
+  id: string;
+  device: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+/**
+ * Per-user index of cookie sessions kept next to the Redis session store.
+ * Each user has a hash keyed by session handle so sessions can be listed and
+ * revoked without scanning the whole store.
+ */
+@Injectable()
+export class SessionRegistryService {
+  constructor(private readonly cacheService: CacheService) { }
+
+  /**
+   * Records the current cookie session in the owner's index. Writes are
+   * throttled per session, except right after authentication.
+   */
+  async track(request: FastifyRequest): Promise<void> {
+    const session = request.session;
+
+    if (
+      !session?.sessionId ||
+      !session.authenticated ||
+      !session.userId ||
+      isCredentialAuthenticatedRequest(request)
+    ) {
+      return;
+    }
+
+    const now = Date.now();
+    if (session.sessionTrackedAt && now - session.sessionTrackedAt < TRACK_INTERVAL_MS) {
+      return;
+    }
+
+    // An impersonating session stays listed under the real user.
+    const indexKey = this.getIndexKey(session.impersonatorId ?? session.userId);
+    const handle = toSessionHandle(session.sessionId);
+    const existing = session.sessionTrackedAt
+      ? parseEntry(await this.cacheService.cache.hget(indexKey, handle))
+      : null;
+    const entry: StoredSessionEntry = {
+      sessionId: session.sessionId,
+      ip: request.ip ?? null,
+      userAgent: request.headers['user-agent'] ?? null,
+      createdAt: existing?.createdAt ?? now,
+      lastSeenAt: now,
+    };
+
+    await this.cacheService.cache
+      .multi()
+      .hset(indexKey, handle, JSON.stringify(entry))
+      .expire(indexKey, SESSION_TTL_SECONDS)
+      .exec();
+
+    session.sessionTrackedAt = now;
+  }
+
+  async list(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    const entries = await this.getLiveEntries(userId);
+    const currentHandle = currentSessionId ? toSessionHandle(currentSessionId) : undefined;
+
+    return entries
+      .map(([handle, entry]) => ({
+        id: handle,
+        device: describeUserAgent(entry.userAgent),
+        ip: entry.ip,
+        userAgent: entry.userAgent,
+        createdAt: new Date(entry.createdAt),
+        lastSeenAt: new Date(entry.lastSeenAt),
+        current: handle === currentHandle,
+      }))
+      .sort((left, right) => right.lastSeenAt.getTime() - left.lastSeenAt.getTime());
+  }
+
+  /**
+   * Destroys one session of the user. Returns false when the handle does not
+   * belong to a live session of that user.
+   */
+  async revoke(userId: string, handle: string): Promise<boolean> {
+    const revoked = await this.revokeWhere(userId, (entryHandle) => entryHandle === handle);
+
+    return revoked.length > 0;
+  }
+
+  /**
+   * Destroys every session of the user except `exceptSessionId`, returning the
+   * handles that were revoked.
+   */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<string[]> {
+    const exceptHandle = exceptSessionId ? toSessionHandle(exceptSessionId) : undefined;
+
+    return this.revokeWhere(userId, (entryHandle) => entryHandle !== exceptHandle);
+  }
+
+  /**
+   * Drops the index entry of a session that is being destroyed by its owner.
+   */
+  async forget(userId: string, sessionId: string): Promise<void> {
+    await this.cacheService.cache.hdel(this.getIndexKey(userId), toSessionHandle(sessionId));
+  }
+
+  /**
+   * Rewrites the organization name kept in the live sessions of the given
+   * users that have that organization selected, preserving their TTL.
+   */
+  async refreshOrganizationName(
+    userIds: string[],
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    await Promise.all(
+      userIds.map((userId) => this.refreshOrganizationNameForUser(userId, organizationId, name)),
+    );
+  }
+
+  private async refreshOrganizationNameForUser(
+    userId: string,
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const entries = await this.getLiveEntries(userId);
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    const keys = entries.map(([, entry]) => `${SESSION_STORE_PREFIX}${entry.sessionId}`);
+    const storedSessions = await this.cacheService.cache.mget(...keys);
+    const updates: Array<[string, string]> = [];
+
+    storedSessions.forEach((value, index) => {
+      const session = parseStoredSession(value);
+
+      if (
+        session?.currentOrganizationId === organizationId &&
+        session.currentOrganizationName !== name
+      ) {
+        updates.push([keys[index], JSON.stringify({ ...session, currentOrganizationName: name })]);
+      }
+    });
+
+    if (updates.length === 0) {
+      return;
+    }
+
+    const transaction = this.cacheService.cache.multi();
+    updates.forEach(([key, value]) => transaction.set(key, value, 'KEEPTTL'));
+    await transaction.exec();
+  }
+
+  private async revokeWhere(
+    userId: string,
+    predicate: (handle: string) => boolean,
+  ): Promise<string[]> {
+    const entries = (await this.getLiveEntries(userId)).filter(([handle]) => predicate(handle));
+
+    if (entries.length === 0) {
+      return [];
+    }
+
+    await this.cacheService.cache
+      .multi()
+      .del(...entries.map(([, entry]) => `${SESSION_STORE_PREFIX}${entry.sessionId}`))
+      .hdel(this.getIndexKey(userId), ...entries.map(([handle]) => handle))
+      .exec();
+
+    return entries.map(([handle]) => handle);
+  }
+
+  /**
+   * Reads the index and prunes entries whose session expired, was destroyed
+   * or was re-used by another user.
+   */
+  private async getLiveEntries(userId: string): Promise<Array<[string, StoredSessionEntry]>> {
+    const indexKey = this.getIndexKey(userId);
+    const rawEntries = await this.cacheService.cache.hgetall(indexKey);
+    const entries = Object.entries(rawEntries)
+      .map(([handle, value]) => [handle, parseEntry(value)] as const);
+
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const storedSessions = await this.cacheService.cache.mget(
+      ...entries.map(([, entry]) => `${SESSION_STORE_PREFIX}${entry?.sessionId ?? ''}`),
+    );
+    const live: Array<[string, StoredSessionEntry]> = [];
+    const stale: string[] = [];
+
+    entries.forEach(([handle, entry], index) => {
+      if (entry && isSessionOwnedBy(storedSessions[index], userId)) {
+        live.push([handle, entry]);
+      } else {
+        stale.push(handle);
+      }
+    });
+
+    if (stale.length > 0) {
+      await this.cacheService.cache.hdel(indexKey, ...stale);
+    }
+
+    return live;
+  }
+
+  private getIndexKey(userId: string): string {
+    return `${SESSION_INDEX_PREFIX}${userId}`;
+  }
+}
+
+function parseEntry(value: string | null | undefined): StoredSessionEntry | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(value) as StoredSessionEntry;
+    return typeof entry.sessionId === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseStoredSession(
+  value: string | null,
+): { currentOrganizationId?: string; currentOrganizationName?: string } | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as { currentOrganizationId?: string; currentOrganizationName?: string };
+  } catch {
+    return null;
+  }
+}
+
+function isSessionOwnedBy(value: string | null, userId: string): boolean {
+  if (!value) {
+    return false;
+  }
+
+  try {
+    const session = JSON.parse(value) as {
+      authenticated?: boolean;
+      userId?: string;
+      impersonatorId?: string;
+    };
+    return session.authenticated === true && (session.impersonatorId ?? session.userId) === userId;
+  } catch {
+    return false;
+  }
+}
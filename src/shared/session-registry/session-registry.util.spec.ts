@@ -0,0 +1,32 @@
+import { describeUserAgent, toSessionHandle } from './session-registry.util';
+
+describe('session-registry.util', () => {
+  it('derives a stable handle that does not expose the session id', () => {
+    const handle = toSessionHandle('r4nd0m-session-id');
+
+    expect(handle).toHaveLength(32);
+    expect(handle).toEqual(toSessionHandle('r4nd0m-session-id'));
+    expect(handle).not.toContain('r4nd0m');
+    expect(toSessionHandle('another-session-id')).not.toEqual(handle);
+  });
+
+  it('describes common browsers and operating systems', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+    )).toBe('Chrome on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0',
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+    )).toBe('Safari on iOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0',
+    )).toBe('Firefox on Linux');
+  });
+
+  it('falls back when the user agent is missing or unknown', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.7.1')).toBe('Unknown device');
+  });
+});
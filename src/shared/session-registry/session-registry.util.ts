@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/\bEdg(?:e|A|iOS)?\//, 'Edge'],
+  [/\b(?:OPR|Opera)\//, 'Opera'],
+  [/\bSamsungBrowser\//, 'Samsung Internet'],
+  [/\b(?:Firefox|FxiOS)\//, 'Firefox'],
+  [/\b(?:Chrome|CriOS|Chromium)\//, 'Chrome'],
+  [/\bVersion\/[\d.]+.*\bSafari\//, 'Safari'],
+];
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:iPhone|iPad|iPod)\b/, 'iOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+/**
+ * Public identifier of a session. The raw session id is a bearer secret, so
+ * only a hash of it is ever exposed to clients.
+ */
+export function toSessionHandle(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+}
+
+/**
+ * Builds a short human-readable device label such as "Chrome on macOS".
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+
+  return browser ?? os ?? 'Unknown device';
+}
@@ -1,6 +1,38 @@
 import '@fastify/session';
-import type { AppSessionContext } from '../context/app-session-context';
+import 'fastify';
+import type {
+  AppImpersonationSession,
+  AppPendingMfaSession,
+  AppSessionContext,
+} from '../context/app-session-context';
 
 declare module '@fastify/session' {
-  interface FastifySessionObject extends AppSessionContext { }
+  interface FastifySessionObject extends AppSessionContext {
+    mfaPending?: AppPendingMfaSession;
+    /**
+     * Epoch millis of the last write to the per-user session index.
+     */
+    sessionTrackedAt?: number;
+    impersonation?: AppImpersonationSession;
+    /**
+     * Synchronizer token required on cookie-authenticated writes.
+     */
+    csrfToken?: string;
+  }
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /**
+     * Session resolved from an `Authorization` header. When present it takes
+     * precedence over the cookie session for the current request.
+     */
+    credentialSession?: AppSessionContext;
+    /**
+     * Copy of the request session with the organization selected through
+     * `X-Organization-Id` applied. Set by `CurrentOrganizationGuard`, takes
+     * precedence over the other sessions and is never persisted.
+     */
+    organizationSession?: AppSessionContext;
+  }
 }